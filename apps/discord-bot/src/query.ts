@@ -31,6 +31,8 @@ export function buildPrompt(question: string): string {
 - **search_entities** — Search the entity registry. Use for "which organizations work on X?" or "who are the researchers studying Y?"
 - **get_facts** — Get canonical numerical facts for an entity (funding, headcount, compute, publications). Use for quantitative questions like "How many employees does Anthropic have?" or "What's OpenAI's funding?"
 - **get_page_citations** — Get source citations and footnotes for a page. Use when asked "what are the sources for X?" or "is claim Y cited?"
+- **get_citation_quote** — Get the quote and verification status for one footnote on a page. Use when asked "what does footnote 3 actually say?"
+- **citations_by_url** — Find every page citing a source URL. Use for "where is this paper cited?"
 - **search_resources** — Search curated papers/articles/reports. Use for "any good papers on X?" or reading recommendations.
 - **get_backlinks** — Find pages that mention a topic. Use for "what pages reference RLHF?" or "what topics link to MIRI?"
 - **wiki_stats** — Overall wiki statistics (page count, entity count, citation count). Use for "how big is the wiki?"
@@ -38,10 +40,13 @@ export function buildPrompt(question: string): string {
 - **auto_update_status** — Status of automatic update runs. Use for "when was the last auto-update?" or "what did it change?"
 - **citation_health** — Pages with broken citations. Use for "which pages have broken citations?"
 - **risk_report** — Pages with high hallucination risk scores. Use for "which pages need review?" or "which are least trustworthy?"
+- **query_factbase** — Filter, sort and aggregate entities by fact values. Use for comparisons like "which labs have more than 500 employees?" or "median revenue of AI labs"
+- **get_records** — Record collections for an entity (funding rounds, key people, grants). Use for "list Anthropic's funding rounds"
 
 ## Tool chaining strategy
 
 - **Quantitative questions** (funding, headcount, compute): search_entities → get_facts
+- **Cross-entity comparisons** ("largest", "more than", "median"): query_factbase
 - **Conceptual questions**: search_wiki → get_page
 - **Exploration questions** ("what's related to X?"): search_wiki → get_related_pages
 - **Organization/person questions**: search_entities → get_entity → get_facts
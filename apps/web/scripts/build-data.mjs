@@ -16,17 +16,21 @@
  *                    yaml, ids, mdx, derived, kb, pages, links, blocks,
  *                    risk, resources, footnotes, refs, redundancy, graph,
  *                    history, coverage, rankings, schedule, transform, write
+ *   --no-cache       Recompute every cached stage (git dates, wiki-server
+ *                    rows, block IR, redundancy) instead of reusing
+ *                    .cache/build-data/ — see lib/build-cache.mjs
 */
 
-import { readFileSync, writeFileSync, copyFileSync, existsSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { readFileSync, copyFileSync, existsSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
 import { spawnSync } from 'child_process';
 import { join, basename, relative } from 'path';
 import { parse } from 'yaml';
 import { extractMetrics, suggestQuality, getQualityDiscrepancy } from '../../../crux/lib/metrics-extractor.ts';
 import { computeHallucinationRisk as computeCanonicalRisk, resolveEntityType } from '../../../crux/lib/hallucination-risk.ts';
 import { syncPageLinks } from './lib/links-client.mjs';
-import { filterBulkImportDates } from './lib/git-date-utils.mjs';
+import { filterBulkImportDates, parseFactBaseAdditions } from './lib/git-date-utils.mjs';
 import { computeRedundancy } from './lib/redundancy.mjs';
+import { createBuildCache, gitHead, writeFileIfChanged } from './lib/build-cache.mjs';
 import { CONTENT_DIR, DATA_DIR, OUTPUT_DIR, PROJECT_ROOT, REPO_ROOT, TOP_LEVEL_CONTENT_DIRS } from './lib/content-types.mjs';
 import { generateLLMFiles } from './generate-llm-files.mjs';
 import { buildUrlToResourceMap, findUnconvertedLinks, countConvertedLinks } from './lib/unconverted-links.mjs';
@@ -65,6 +69,15 @@ if (CONTENT_ONLY) {
   console.log('⚡ Running in content-only scope (skipping git dates, block IR, redundancy, server sync, LLM files)\n');
 }
 
+// ---------------------------------------------------------------------------
+// Stage cache — unchanged inputs reuse last run's outputs (`--no-cache` to
+// recompute everything)
+// ---------------------------------------------------------------------------
+const buildCache = createBuildCache({
+  enabled: !process.argv.includes('--no-cache'),
+  headers: buildHeaders(),
+});
+
 const OUTPUT_FILE = join(OUTPUT_DIR, 'database.json');
 
 // Entity type alias map: legacy YAML type names → canonical types
@@ -77,6 +90,7 @@ const DATA_FILES = [
   { key: 'organizations', file: 'organizations.yaml' },
   { key: 'estimates', file: 'estimates.yaml' },
   { key: 'cruxes', file: 'cruxes.yaml' },
+  { key: 'pageForecasts', file: 'page-forecasts.yaml' },
   { key: 'glossary', file: 'glossary.yaml' },
   { key: 'entities', dir: 'entities' }, // Split by entity type
   { key: 'literature', file: 'literature.yaml' },
@@ -663,6 +677,44 @@ function buildGitDateMaps() {
   return { gitCreatedMap, gitModifiedMap };
 }
 
+/**
+ * Find the date each FactBase fact and record was added, from the commits that
+ * introduced it under packages/factbase/data/things/ (see parseFactBaseAdditions).
+ * Falls back to empty maps if git is unavailable.
+ */
+function buildFactBaseGitDates() {
+  const empty = { facts: new Map(), records: new Map() };
+  try {
+    const result = spawnSync('git', [
+      'log',
+      '--reverse',
+      '--no-renames',
+      '-p',
+      '--format=COMMIT %ad',
+      '--date=short',
+      '--',
+      'packages/factbase/data/things/',
+    ], {
+      cwd: REPO_ROOT,
+      maxBuffer: 200 * 1024 * 1024,
+      encoding: 'utf-8',
+    });
+
+    if (result.status !== 0 || result.error) {
+      const reason = result.error?.message || result.stderr?.trim() || `exit ${result.status}`;
+      console.log(`  factbaseGitDates: skipped (${reason})`);
+      return empty;
+    }
+
+    const additions = parseFactBaseAdditions(result.stdout);
+    console.log(`  factbaseGitDates: ${additions.facts.size} facts, ${additions.records.size} record keys tracked`);
+    return additions;
+  } catch (err) {
+    console.log(`  factbaseGitDates: skipped (${err.message || 'unknown error'})`);
+    return empty;
+  }
+}
+
 /**
  * Fetch latest edit dates per page from the wiki-server API.
  * Falls back to an empty map if the server is unavailable.
@@ -785,6 +837,39 @@ async function buildCitationStatsMap() {
   }
 }
 
+/**
+ * Fetch citation drift events from wiki-server and reduce them to the latest
+ * event per quote. Returns Map<"pageId:footnote", { quoteFound, detectedAt }>,
+ * empty if the server is unavailable (drift is then simply not shown).
+ */
+async function fetchLatestCitationDrift(serverUrl, headers) {
+  const latest = new Map();
+  try {
+    let offset = 0;
+    const limit = 5000;
+    while (true) {
+      const res = await fetch(
+        `${serverUrl}/api/citations/drift-events/all?limit=${limit}&offset=${offset}`,
+        { headers, signal: AbortSignal.timeout(30_000) }
+      );
+      if (!res.ok) {
+        console.log(`  citationDrift: skipped (server returned ${res.status})`);
+        return latest;
+      }
+      const data = await res.json();
+      // Events arrive oldest first, so later ones overwrite earlier ones
+      for (const e of data.events || []) {
+        latest.set(`${e.pageId}:${e.footnote}`, { quoteFound: e.quoteFound, detectedAt: e.detectedAt });
+      }
+      if ((data.events || []).length < limit) break;
+      offset += limit;
+    }
+  } catch (err) {
+    console.log(`  citationDrift: skipped (${err.message || 'server unavailable'})`);
+  }
+  return latest;
+}
+
 /**
  * Fetch all citation quotes from wiki-server, grouped by pageId.
  * Used by the frontend to render citation health banners and footnote tooltips
@@ -821,9 +906,18 @@ async function buildCitationQuotesBundle() {
       offset += limit;
     }
 
+    const drift = await fetchLatestCitationDrift(serverUrl, headers);
+    let sourceChangedCount = 0;
+
     // Group by pageId
     const byPage = {};
     for (const q of allQuotes) {
+      // Source changed and the quote has not been re-verified since
+      const latestDrift = drift.get(`${q.pageId}:${q.footnote}`);
+      const sourceChangedAt = latestDrift && !latestDrift.quoteFound && !q.quoteVerified
+        ? latestDrift.detectedAt
+        : null;
+      if (sourceChangedAt) sourceChangedCount++;
       if (!byPage[q.pageId]) byPage[q.pageId] = [];
       byPage[q.pageId].push({
         footnote: q.footnote,
@@ -842,10 +936,11 @@ async function buildCitationQuotesBundle() {
         accuracySupportingQuotes: q.accuracySupportingQuotes,
         verificationDifficulty: q.verificationDifficulty,
         accuracyCheckedAt: q.accuracyCheckedAt,
+        sourceChangedAt,
       });
     }
 
-    console.log(`  citationQuotes: ${allQuotes.length} quotes across ${Object.keys(byPage).length} pages`);
+    console.log(`  citationQuotes: ${allQuotes.length} quotes across ${Object.keys(byPage).length} pages (${sourceChangedCount} with changed sources)`);
     return byPage;
   } catch (err) {
     console.log(`  citationQuotes: skipped (${err.message || 'server unavailable'})`);
@@ -948,6 +1043,47 @@ function buildKBFactVerification(kb, citationQuotesBundle) {
   return verification;
 }
 
+/**
+ * Date each KB fact and record by when the wiki added it, for the /changes feed.
+ * YAML facts and records use the commit that introduced them; PG-backed
+ * records use the row's createdAt. Items with no known date are left out.
+ *
+ * Returns { facts: { [factId]: date }, records: { ["entityId:collection:key"]: date } }.
+ *
+ * @param {object} kb - Serialized KB data (after PG records are merged)
+ * @param {{ facts: Map<string, string>, records: Map<string, string> }} gitAdditions - from buildFactBaseGitDates()
+ * @param {Map<string, string>} pgRecordDates - "entityId:collection:key" → PG createdAt date
+ */
+function buildKBChangeDates(kb, gitAdditions, pgRecordDates) {
+  const changeDates = { facts: {}, records: {} };
+  if (!kb) return changeDates;
+
+  for (const facts of Object.values(kb.facts ?? {})) {
+    for (const fact of facts) {
+      const date = gitAdditions.facts.get(fact.id);
+      if (date) changeDates.facts[fact.id] = date;
+    }
+  }
+
+  // Record keys from git are scoped to the YAML file stem, not the entity ID
+  const entityIdToStem = new Map(Object.entries(kb.slugToEntityId ?? {}).map(([stem, id]) => [id, stem]));
+  for (const [entityId, collections] of Object.entries(kb.records ?? {})) {
+    const stem = entityIdToStem.get(entityId);
+    for (const [collection, entries] of Object.entries(collections)) {
+      for (const entry of entries) {
+        const key = `${entityId}:${collection}:${entry.key}`;
+        const date = pgRecordDates.get(key) ?? (stem ? gitAdditions.records.get(`${stem}:${entry.key}`) : undefined);
+        if (date) changeDates.records[key] = date;
+      }
+    }
+  }
+
+  const factCount = Object.keys(changeDates.facts).length;
+  const recordCount = Object.keys(changeDates.records).length;
+  console.log(`  kbChangeDates: ${factCount} facts, ${recordCount} records dated`);
+  return changeDates;
+}
+
 /**
  * Fetch personnel, grants, funding rounds, investments, and equity positions
  * from the wiki-server PG tables and merge them into the serialized KB records
@@ -958,8 +1094,10 @@ function buildKBFactVerification(kb, citationQuotesBundle) {
  *
  * For collections that exist in both YAML and PG, PG records replace YAML.
  * Falls back gracefully if the wiki-server is unavailable (YAML records remain).
+ * Each merged row's createdAt date is stored in `recordDates`, keyed
+ * "entityId:collection:key".
  */
-async function mergePGRecordsIntoKB(kb) {
+async function mergePGRecordsIntoKB(kb, recordDates) {
   const serverUrl = process.env.LONGTERMWIKI_SERVER_URL;
   if (!serverUrl) {
     console.log('  kb-pg: skipped (LONGTERMWIKI_SERVER_URL not set)');
@@ -1011,16 +1149,28 @@ async function mergePGRecordsIntoKB(kb) {
     divisionsResult,
     fundingProgramsResult,
     divisionPersonnelResult,
-  ] = await Promise.allSettled([
-    fetchAllPages('/api/personnel/all', 'personnel'),
-    fetchAllPages('/api/grants/all', 'grants'),
-    fetchAllPages('/api/funding-rounds/all', 'fundingRounds'),
-    fetchAllPages('/api/investments/all', 'investments'),
-    fetchAllPages('/api/equity-positions/all', 'equityPositions'),
-    fetchAllPages('/api/divisions/all', 'divisions'),
-    fetchAllPages('/api/funding-programs/all', 'fundingPrograms'),
-    fetchAllPages('/api/division-personnel/all', 'divisionPersonnel'),
-  ]);
+  ] = await buildCache.stage('kb-pg-rows', {
+    inputs: {
+      tables: [
+        'personnel', 'grants', 'funding_rounds', 'investments',
+        'equity_positions', 'divisions', 'funding_programs', 'division_personnel',
+      ],
+    },
+    compute: () => Promise.allSettled([
+      fetchAllPages('/api/personnel/all', 'personnel'),
+      fetchAllPages('/api/grants/all', 'grants'),
+      fetchAllPages('/api/funding-rounds/all', 'fundingRounds'),
+      fetchAllPages('/api/investments/all', 'investments'),
+      fetchAllPages('/api/equity-positions/all', 'equityPositions'),
+      fetchAllPages('/api/divisions/all', 'divisions'),
+      fetchAllPages('/api/funding-programs/all', 'fundingPrograms'),
+      fetchAllPages('/api/division-personnel/all', 'divisionPersonnel'),
+    ]),
+    // A partial fetch must not be reused as if it were the table contents
+    cacheable: (results) => results.every((r) => r.status === 'fulfilled' && r.value !== null),
+    encode: (results) => results.map((r) => r.value),
+    decode: (values) => values.map((value) => ({ status: 'fulfilled', value })),
+  });
 
   /**
    * Helper: clear YAML collections, replace with PG rows.
@@ -1062,7 +1212,9 @@ async function mergePGRecordsIntoKB(kb) {
       if (!kb.records[entityKey]) kb.records[entityKey] = {};
       if (!kb.records[entityKey][collectionName]) kb.records[entityKey][collectionName] = [];
 
-      kb.records[entityKey][collectionName].push(rowToEntry(row));
+      const entry = rowToEntry(row);
+      kb.records[entityKey][collectionName].push(entry);
+      if (row.createdAt) recordDates.set(`${entityKey}:${collectionName}:${entry.key}`, String(row.createdAt).slice(0, 10));
       count++;
     }
     return count;
@@ -1995,7 +2147,10 @@ async function main() {
 
   // Load resources: PG → snapshot (fallback chain, PG-native since R6)
   if (!CONTENT_ONLY) {
-    const pgResources = await fetchResourcesFromPG();
+    const pgResources = await buildCache.stage('pg-resources', {
+      inputs: { tables: ['resources', 'resource_citations'] },
+      compute: fetchResourcesFromPG,
+    });
     if (pgResources !== null) {
       database.resources = pgResources;
       console.log(`  resources: ${pgResources.length} loaded from PG`);
@@ -2121,8 +2276,9 @@ async function main() {
   }
 
   // Merge PG-backed personnel and grants into KB records (overrides YAML for these collections)
+  const pgRecordDates = new Map();
   if (database.kb && !CONTENT_ONLY) {
-    const pgRecordCounts = await mergePGRecordsIntoKB(database.kb);
+    const pgRecordCounts = await mergePGRecordsIntoKB(database.kb, pgRecordDates);
     const pgTotal = pgRecordCounts.personnel + pgRecordCounts.grants + pgRecordCounts.fundingRounds + pgRecordCounts.investments + pgRecordCounts.equityPositions + pgRecordCounts.divisions + pgRecordCounts.fundingPrograms + pgRecordCounts.divisionPersonnel;
     if (pgTotal > 0) {
       console.log(`  kb-pg: ${pgRecordCounts.personnel} personnel, ${pgRecordCounts.grants} grants, ${pgRecordCounts.fundingRounds} funding rounds, ${pgRecordCounts.investments} investments, ${pgRecordCounts.equityPositions} equity positions, ${pgRecordCounts.divisions} divisions, ${pgRecordCounts.fundingPrograms} funding programs, ${pgRecordCounts.divisionPersonnel} division personnel merged from PG`);
@@ -2131,10 +2287,30 @@ async function main() {
 
   // Fetch PG-sourced data in parallel (benchmark results, research areas, record verdicts)
   if (!CONTENT_ONLY) {
+    // The fetchers return an empty result on failure, so empty results are
+    // never cached
+    const nonEmpty = (output) => Object.keys(output).length > 0;
     const [benchmarkResults, researchAreasData, recordVerdicts] = await Promise.all([
-      fetchBenchmarkResults(),
-      fetchResearchAreas(),
-      fetchRecordVerdicts(),
+      buildCache.stage('benchmark-results', {
+        inputs: { tables: ['benchmarks', 'benchmark_results'] },
+        compute: fetchBenchmarkResults,
+        cacheable: nonEmpty,
+      }),
+      buildCache.stage('research-areas', {
+        inputs: {
+          tables: [
+            'research_areas', 'research_area_organizations', 'research_area_papers',
+            'research_area_risks', 'grant_research_areas', 'grants',
+          ],
+        },
+        compute: fetchResearchAreas,
+        cacheable: nonEmpty,
+      }),
+      buildCache.stage('record-verdicts', {
+        inputs: { tables: ['record_verdicts'] },
+        compute: fetchRecordVerdicts,
+        cacheable: nonEmpty,
+      }),
     ]);
     database.benchmarkResults = benchmarkResults;
     database.researchAreas = researchAreasData;
@@ -2148,7 +2324,24 @@ async function main() {
 
   // Fetch edit log dates, earliest edit log dates, and citation stats from
   // wiki-server (parallel). Also build git-based date maps (synchronous, fast).
-  const gitDateMaps = CONTENT_ONLY ? { gitCreatedMap: new Map(), gitModifiedMap: new Map() } : buildGitDateMaps();
+  // git log only sees commits, so the maps are valid for as long as HEAD is
+  const gitDateMaps = CONTENT_ONLY
+    ? { gitCreatedMap: new Map(), gitModifiedMap: new Map() }
+    : await buildCache.stage('git-dates', {
+        inputs: {
+          values: { head: gitHead(REPO_ROOT) },
+          code: [join(PROJECT_ROOT, 'scripts/lib/git-date-utils.mjs')],
+        },
+        compute: buildGitDateMaps,
+        encode: ({ gitCreatedMap, gitModifiedMap }) => ({
+          gitCreatedMap: [...gitCreatedMap],
+          gitModifiedMap: [...gitModifiedMap],
+        }),
+        decode: ({ gitCreatedMap, gitModifiedMap }) => ({
+          gitCreatedMap: new Map(gitCreatedMap),
+          gitModifiedMap: new Map(gitModifiedMap),
+        }),
+      });
   const [editLogDates, earliestEditLogDates, citationStats, citationQuotesBundle] = CONTENT_ONLY
     ? [new Map(), new Map(), new Map(), {}]
     : await Promise.all([
@@ -2164,6 +2357,22 @@ async function main() {
   // =========================================================================
   database.kbFactVerification = buildKBFactVerification(database.kb, citationQuotesBundle);
 
+  // =========================================================================
+  // KB CHANGE DATES — when each fact and record was added, for /changes
+  // =========================================================================
+  const factbaseGitDates = CONTENT_ONLY
+    ? { facts: new Map(), records: new Map() }
+    : await buildCache.stage('factbase-git-dates', {
+        inputs: {
+          values: { head: gitHead(REPO_ROOT) },
+          code: [join(PROJECT_ROOT, 'scripts/lib/git-date-utils.mjs')],
+        },
+        compute: buildFactBaseGitDates,
+        encode: ({ facts, records }) => ({ facts: [...facts], records: [...records] }),
+        decode: ({ facts, records }) => ({ facts: new Map(facts), records: new Map(records) }),
+      });
+  database.kbChangeDates = buildKBChangeDates(database.kb, factbaseGitDates, pgRecordDates);
+
   // Build pages registry with frontmatter data (quality, etc.)
   const pages = buildPagesRegistry(urlToResource, editLogDates, gitDateMaps, earliestEditLogDates);
 
@@ -2235,17 +2444,32 @@ async function main() {
     const blockIRErrorPages = [];
     try {
       const { extractBlockIR } = await import('../../../crux/lib/content/block-ir.ts');
-      for (const page of pages) {
-        if (!page.rawContent) continue;
-        try {
-          const ir = extractBlockIR(page.id, page.rawContent);
-          blockIndex[page.id] = ir;
+      // Cached per page — only pages whose MDX changed are re-parsed. Parse
+      // errors are cached too, so they are still reported on warm runs.
+      const irByPage = await buildCache.items('block-ir', pages.filter((p) => p.rawContent), {
+        key: (page) => page.id,
+        hash: (page) => page.rawContent,
+        inputs: {
+          code: ['block-ir.ts', 'section-splitter.ts', '../mdx-ast-helpers.ts']
+            .map((file) => join(REPO_ROOT, 'crux/lib/content', file)),
+        },
+        compute: (page) => {
+          try {
+            return { ir: extractBlockIR(page.id, page.rawContent) };
+          } catch (err) {
+            return { error: err.message };
+          }
+        },
+      });
+      for (const [pageId, { ir, error }] of irByPage) {
+        if (ir) {
+          blockIndex[pageId] = ir;
           blockIRExtracted++;
           blockIRSections += ir.sections.length;
-        } catch (err) {
-          blockIRErrorPages.push(page.id);
+        } else {
+          blockIRErrorPages.push(pageId);
           if (blockIRErrorPages.length <= 5) {
-            console.warn(`    ⚠ block-ir parse error on ${page.id}: ${err.message}`);
+            console.warn(`    ⚠ block-ir parse error on ${pageId}: ${error}`);
           }
         }
       }
@@ -2380,7 +2604,11 @@ async function main() {
     database.redundancyPairs = [];
   } else {
     console.log('  Computing redundancy scores...');
-    const { pageRedundancy, pairs: redundancyPairs } = computeRedundancy(pages);
+    // Pairs of unchanged pages reuse last run's scores
+    const redundancyInputs = { code: [join(PROJECT_ROOT, 'scripts/lib/redundancy.mjs')] };
+    const previous = await buildCache.load('redundancy', redundancyInputs);
+    const { pageRedundancy, pairs: redundancyPairs, state, compared } = computeRedundancy(pages, { previous });
+    await buildCache.save('redundancy', redundancyInputs, state);
 
     // Add redundancy data to pages and remove rawContent
     for (const page of pages) {
@@ -2399,7 +2627,7 @@ async function main() {
 
     // Store redundancy pairs for analysis
     database.redundancyPairs = redundancyPairs.slice(0, 100); // Top 100 pairs
-    console.log(`  redundancy: ${redundancyPairs.length} similar pairs found`);
+    console.log(`  redundancy: ${redundancyPairs.length} similar pairs found (${compared} page pairs compared)`);
   }
 
   // =========================================================================
@@ -2598,15 +2826,17 @@ async function main() {
     mkdirSync(OUTPUT_DIR, { recursive: true });
   }
 
+  // Outputs are only rewritten when their content changed, so the dev server
+  // doesn't reload for a no-op rebuild.
   // Write combined JSON (strip raw entities and KB data — only typedEntities needed at runtime)
   const { entities: _rawEntities, kb: _kbData, ...databaseForOutput } = database;
-  writeFileSync(OUTPUT_FILE, JSON.stringify(databaseForOutput, null, 2));
+  writeFileIfChanged(OUTPUT_FILE, JSON.stringify(databaseForOutput, null, 2));
   console.log(`\n✓ Written: ${OUTPUT_FILE} (raw entities stripped, KB split out, typedEntities only)`);
 
   // Write FactBase data to a separate file (loaded independently by factbase.ts)
   const FACTBASE_OUTPUT_FILE = join(OUTPUT_DIR, 'factbase-data.json');
   if (_kbData) {
-    writeFileSync(FACTBASE_OUTPUT_FILE, JSON.stringify(_kbData, null, 2));
+    writeFileIfChanged(FACTBASE_OUTPUT_FILE, JSON.stringify(_kbData, null, 2));
     console.log(`✓ Written: ${FACTBASE_OUTPUT_FILE} (FactBase entities, facts, records, schemas)`);
   } else {
     console.warn('⚠ FactBase data not available — factbase-data.json not written');
@@ -2615,18 +2845,18 @@ async function main() {
   // Also write individual JSON files for selective imports
   for (const { key, file, dir } of DATA_FILES) {
     const jsonFile = dir ? `${key}.json` : file.replace('.yaml', '.json');
-    writeFileSync(join(OUTPUT_DIR, jsonFile), JSON.stringify(database[key], null, 2));
+    writeFileIfChanged(join(OUTPUT_DIR, jsonFile), JSON.stringify(database[key], null, 2));
   }
 
   // Write derived data as separate files too
-  writeFileSync(join(OUTPUT_DIR, 'backlinks.json'), JSON.stringify(backlinks, null, 2));
-  writeFileSync(join(OUTPUT_DIR, 'tagIndex.json'), JSON.stringify(tagIndex, null, 2));
-  writeFileSync(join(OUTPUT_DIR, 'stats.json'), JSON.stringify(stats, null, 2));
-  writeFileSync(join(OUTPUT_DIR, 'pathRegistry.json'), JSON.stringify(pathRegistry, null, 2));
-  writeFileSync(join(OUTPUT_DIR, 'pages.json'), JSON.stringify(pages, null, 2));
-  writeFileSync(join(OUTPUT_DIR, 'relatedGraph.json'), JSON.stringify(relatedGraph, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'backlinks.json'), JSON.stringify(backlinks, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'tagIndex.json'), JSON.stringify(tagIndex, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'stats.json'), JSON.stringify(stats, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'pathRegistry.json'), JSON.stringify(pathRegistry, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'pages.json'), JSON.stringify(pages, null, 2));
+  writeFileIfChanged(join(OUTPUT_DIR, 'relatedGraph.json'), JSON.stringify(relatedGraph, null, 2));
   if (Object.keys(blockIndex).length > 0) {
-    writeFileSync(join(OUTPUT_DIR, 'block-index.json'), JSON.stringify(blockIndex));
+    writeFileIfChanged(join(OUTPUT_DIR, 'block-index.json'), JSON.stringify(blockIndex));
     console.log(`✓ Written block-index.json (${Object.keys(blockIndex).length} pages)`);
   }
 
@@ -2662,6 +2892,7 @@ async function main() {
 
   const writtenEntityFiles = new Set();
   let entityFilesWritten = 0;
+  let entityFilesUnchanged = 0;
   for (const entityId of allEntityIds) {
     const bundle = {};
 
@@ -2698,7 +2929,7 @@ async function main() {
       // Sanitize entityId for use as filename (some IDs contain path separators like __index__/...)
       const safeFilename = entityId.replace(/\//g, '__');
       const filename = `${safeFilename}.json`;
-      writeFileSync(join(ENTITY_DIR, filename), JSON.stringify(bundle));
+      if (!writeFileIfChanged(join(ENTITY_DIR, filename), JSON.stringify(bundle))) entityFilesUnchanged++;
       writtenEntityFiles.add(filename);
       entityFilesWritten++;
     }
@@ -2712,7 +2943,7 @@ async function main() {
       staleFilesRemoved++;
     }
   }
-  console.log(`✓ Written ${entityFilesWritten} per-entity JSON files to ${ENTITY_DIR}`);
+  console.log(`✓ Written ${entityFilesWritten} per-entity JSON files to ${ENTITY_DIR}${entityFilesUnchanged > 0 ? ` (${entityFilesUnchanged} unchanged)` : ''}`);
   if (staleFilesRemoved > 0) {
     console.log(`  Removed ${staleFilesRemoved} stale entity file(s)`);
   }
@@ -2744,6 +2975,7 @@ async function main() {
   console.log(`With descriptions: ${stats.withDescription}`);
   console.log(`Unique tags: ${stats.totalTags}`);
   console.log(`Top types: ${Object.entries(stats.byType).slice(0, 5).map(([t, c]) => `${t}(${c})`).join(', ')}`);
+  for (const line of buildCache.summary()) console.log(`Cache — ${line}`);
 
   // schema.ts: apps/web/src/data/schema.ts re-exports from data/schema.ts
   // (no build-time copy needed — see #1526)
@@ -0,0 +1,139 @@
+/**
+ * Tests for build-cache.mjs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { createBuildCache, hashFiles, writeFileIfChanged } from '../build-cache.mjs';
+
+let tmpDir;
+let cacheDir;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-cache-test-'));
+  cacheDir = path.join(tmpDir, 'cache');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('stage', () => {
+  it('reuses the output while file inputs are unchanged', async () => {
+    const input = path.join(tmpDir, 'input.yaml');
+    fs.writeFileSync(input, 'a: 1');
+    let runs = 0;
+    const run = () => createBuildCache({ dir: cacheDir }).stage('s', {
+      inputs: { files: [input] },
+      compute: () => ({ run: ++runs }),
+    });
+
+    expect(await run()).toEqual({ run: 1 });
+    expect(await run()).toEqual({ run: 1 });
+
+    fs.writeFileSync(input, 'a: 2');
+    expect(await run()).toEqual({ run: 2 });
+  });
+
+  it('round-trips through encode/decode', async () => {
+    const opts = {
+      compute: () => new Map([['x', 1]]),
+      encode: (map) => [...map],
+      decode: (entries) => new Map(entries),
+    };
+    await createBuildCache({ dir: cacheDir }).stage('s', opts);
+    const cached = await createBuildCache({ dir: cacheDir }).stage('s', {
+      ...opts,
+      compute: () => { throw new Error('should be cached'); },
+    });
+    expect(cached).toEqual(new Map([['x', 1]]));
+  });
+
+  it('does not cache null, uncacheable or unfingerprinted outputs', async () => {
+    const cache = createBuildCache({ dir: cacheDir, serverUrl: undefined });
+    await cache.stage('null', { compute: () => null });
+    await cache.stage('empty', { compute: () => [], cacheable: (rows) => rows.length > 0 });
+    await cache.stage('pg', { inputs: { tables: ['grants'] }, compute: () => [1] });
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+
+  it('recomputes with caching disabled', async () => {
+    await createBuildCache({ dir: cacheDir }).stage('s', { compute: () => 1 });
+    const cache = createBuildCache({ dir: cacheDir, enabled: false });
+    expect(await cache.stage('s', { compute: () => 2 })).toBe(2);
+    expect(cache.summary()).toEqual(['s: 0 cached, 1 computed']);
+  });
+});
+
+describe('items', () => {
+  const pages = (contents) => Object.entries(contents).map(([id, rawContent]) => ({ id, rawContent }));
+
+  async function run(list) {
+    const computed = [];
+    const cache = createBuildCache({ dir: cacheDir });
+    const results = await cache.items('ir', list, {
+      key: (page) => page.id,
+      hash: (page) => page.rawContent,
+      compute: (page) => {
+        computed.push(page.id);
+        return page.rawContent.length;
+      },
+    });
+    return { results, computed, summary: cache.summary() };
+  }
+
+  it('recomputes only changed items', async () => {
+    await run(pages({ a: 'one', b: 'two' }));
+    const { results, computed, summary } = await run(pages({ a: 'one', b: 'three' }));
+    expect(computed).toEqual(['b']);
+    expect(results).toEqual(new Map([['a', 3], ['b', 5]]));
+    expect(summary).toEqual(['ir: 1 cached, 1 computed']);
+  });
+
+  it('drops removed items from the cache', async () => {
+    await run(pages({ a: 'one', b: 'two' }));
+    await run(pages({ a: 'one' }));
+    const { computed } = await run(pages({ a: 'one', b: 'two' }));
+    expect(computed).toEqual(['b']);
+  });
+});
+
+describe('load/save', () => {
+  it('returns saved state only while the inputs are unchanged', async () => {
+    const code = path.join(tmpDir, 'stage.mjs');
+    fs.writeFileSync(code, 'v1');
+    const cache = createBuildCache({ dir: cacheDir });
+    expect(await cache.load('r', { code: [code] })).toBeNull();
+
+    await cache.save('r', { code: [code] }, { scores: { ab: 1 } });
+    expect(await cache.load('r', { code: [code] })).toEqual({ scores: { ab: 1 } });
+
+    fs.writeFileSync(code, 'v2');
+    expect(await cache.load('r', { code: [code] })).toBeNull();
+  });
+});
+
+describe('hashFiles', () => {
+  it('covers every matching file under a directory', () => {
+    fs.mkdirSync(path.join(tmpDir, 'docs', 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'docs', 'a.mdx'), 'a');
+    fs.writeFileSync(path.join(tmpDir, 'docs', 'sub', 'b.mdx'), 'b');
+    const hash = () => hashFiles([{ dir: path.join(tmpDir, 'docs'), ext: ['.mdx'] }], tmpDir);
+
+    const before = hash();
+    fs.writeFileSync(path.join(tmpDir, 'docs', 'sub', 'b.mdx'), 'changed');
+    expect(hash()).not.toBe(before);
+  });
+});
+
+describe('writeFileIfChanged', () => {
+  it('skips identical content', () => {
+    const file = path.join(tmpDir, 'out.json');
+    expect(writeFileIfChanged(file, '{}')).toBe(true);
+    expect(writeFileIfChanged(file, '{}')).toBe(false);
+    expect(writeFileIfChanged(file, '[]')).toBe(true);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('[]');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { filterBulkImportDates, resolveDateCreated, BULK_IMPORT_THRESHOLD } from '../git-date-utils.mjs';
+import { filterBulkImportDates, resolveDateCreated, parseFactBaseAdditions, BULK_IMPORT_THRESHOLD } from '../git-date-utils.mjs';
 
 describe('filterBulkImportDates', () => {
   it('returns all entries when no date exceeds the threshold', () => {
@@ -150,3 +150,56 @@ describe('resolveDateCreated', () => {
     expect(result).toBe('2026-02-20');
   });
 });
+
+describe('parseFactBaseAdditions', () => {
+  const log = [
+    'COMMIT 2026-01-10',
+    '',
+    'diff --git a/packages/factbase/data/things/anthropic.yaml b/packages/factbase/data/things/anthropic.yaml',
+    '--- /dev/null',
+    '+++ b/packages/factbase/data/things/anthropic.yaml',
+    '@@ -0,0 +1,9 @@',
+    '+facts:',
+    '+  - id: f_old',
+    '+    property: revenue',
+    '+    asOf: 2025-06',
+    '+records:',
+    '+  timeline:',
+    '+    i_founding:',
+    '+      date: !date 2021-01',
+    'COMMIT 2026-03-02',
+    '',
+    'diff --git a/packages/factbase/data/things/anthropic.yaml b/packages/factbase/data/things/anthropic.yaml',
+    '--- a/packages/factbase/data/things/anthropic.yaml',
+    '+++ b/packages/factbase/data/things/anthropic.yaml',
+    '@@ -2,3 +2,6 @@',
+    '   - id: f_old',
+    '-    asOf: 2025-06',
+    '+    asOf: 2025-07',
+    '+  - id: f_new',
+    '+    property: revenue',
+    '+    asOf: 2024-01',
+    '+    i_founding:',
+    'diff --git a/packages/factbase/data/things/openai.yaml b/packages/factbase/data/things/openai.yaml',
+    '+++ b/packages/factbase/data/things/openai.yaml',
+    '+    i_founding:',
+  ].join('\n');
+
+  it('dates facts by the commit that added their id, not by asOf or later edits', () => {
+    const { facts } = parseFactBaseAdditions(log);
+    expect(facts.get('f_old')).toBe('2026-01-10');
+    expect(facts.get('f_new')).toBe('2026-03-02');
+  });
+
+  it('keys record dates by file stem and record key', () => {
+    const { records } = parseFactBaseAdditions(log);
+    expect(records.get('anthropic:i_founding')).toBe('2026-01-10');
+    expect(records.get('openai:i_founding')).toBe('2026-03-02');
+  });
+
+  it('returns empty maps for empty output', () => {
+    const { facts, records } = parseFactBaseAdditions('');
+    expect(facts.size).toBe(0);
+    expect(records.size).toBe(0);
+  });
+});
@@ -149,3 +149,41 @@ describe('computeRedundancy', () => {
     expect(dataA?.avgSimilarity).toBeGreaterThan(0);
   });
 });
+
+describe('computeRedundancy with previous state', () => {
+  const OTHER = 'biology chemistry physics mathematics zoology astronomy geology ecology botany genetics paleontology';
+
+  function makePages() {
+    return [
+      makePage('a', repeat(LOREM, 20)),
+      makePage('b', repeat(LOREM, 20)),
+      makePage('c', LOREM + ' ' + repeat(OTHER, 20)),
+      makePage('d', repeat(OTHER, 20)),
+    ];
+  }
+
+  it('reuses every pair when nothing changed', () => {
+    const pages = makePages();
+    const first = computeRedundancy(pages);
+    expect(first.compared).toBe(6);
+
+    const second = computeRedundancy(pages, { previous: first.state });
+    expect(second.compared).toBe(0);
+    expect(second.pairs).toEqual(first.pairs);
+    expect(second.pageRedundancy).toEqual(first.pageRedundancy);
+  });
+
+  it('only compares pairs involving an edited page, matching a full run', () => {
+    const { state } = computeRedundancy(makePages());
+
+    const edited = makePages();
+    edited[3] = makePage('d', repeat(LOREM, 20));
+    const incremental = computeRedundancy(edited, { previous: state });
+    expect(incremental.compared).toBe(3);
+
+    const full = computeRedundancy(edited);
+    expect(incremental.pairs).toEqual(full.pairs);
+    expect(incremental.pageRedundancy).toEqual(full.pageRedundancy);
+    expect(incremental.state).toEqual(full.state);
+  });
+});
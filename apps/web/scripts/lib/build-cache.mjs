@@ -0,0 +1,289 @@
+/**
+ * Build Cache
+ *
+ * Content-hash caching for a few build-data.mjs stages. A stage declares its
+ * inputs and its output is reused for as long as the hash of those inputs is
+ * unchanged:
+ *
+ *   files   — files or { dir, ext } globs, hashed by content
+ *   tables  — wiki-server tables, hashed by row count + latest change
+ *             (GET /health/tables); unreachable server = never cached
+ *   code    — source files of the computation, so editing it invalidates
+ *   values  — anything else JSON-serializable (flags, git HEAD, …)
+ *
+ * What is cached in build-data.mjs today:
+ *
+ *   incremental — block IR (`items`, per page) and redundancy (`load`/`save`,
+ *                 per page pair): editing one MDX file recomputes only the
+ *                 work that involves that page
+ *   all-or-none — git dates (pages and FactBase additions) and the
+ *                 wiki-server fetches (KB rows, resources, benchmark
+ *                 results, research areas, record verdicts): reused whole
+ *                 while their inputs are unchanged, recomputed whole
+ *                 otherwise
+ *
+ * Everything else (YAML, MDX parsing, backlinks, related graph, rankings,
+ * risk, …) still runs on every build.
+ *
+ * Cache files live in apps/web/.cache/build-data/, one JSON file per stage.
+ * `--no-cache` ignores them; results are still written so the next run is warm.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { join, relative } from 'path';
+import { spawnSync } from 'child_process';
+import { findFiles } from './file-utils.mjs';
+import { PROJECT_ROOT } from './content-types.mjs';
+
+/** Bump to invalidate every cache entry (e.g. when the file format changes). */
+const CACHE_VERSION = 1;
+
+export const BUILD_CACHE_DIR = join(PROJECT_ROOT, '.cache', 'build-data');
+
+// ---------------------------------------------------------------------------
+// Hashing
+// ---------------------------------------------------------------------------
+
+/** SHA-256 over strings (as-is) and other values (as JSON). */
+export function hashOf(...parts) {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(typeof part === 'string' ? part : (JSON.stringify(part) ?? 'undefined'));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Expand file inputs — paths, or `{ dir, ext }` for every file under `dir`
+ * with one of the extensions — to a sorted list of existing files.
+ */
+export function expandFileInputs(inputs = []) {
+  const files = new Set();
+  for (const input of inputs) {
+    if (typeof input === 'string') {
+      if (existsSync(input)) files.add(input);
+    } else {
+      for (const file of findFiles(input.dir, input.ext)) files.add(file);
+    }
+  }
+  return [...files].sort();
+}
+
+/** Hash of file inputs: relative path + content of each file. */
+export function hashFiles(inputs, root = PROJECT_ROOT) {
+  const hash = createHash('sha256');
+  for (const file of expandFileInputs(inputs)) {
+    hash.update(relative(root, file));
+    hash.update('\0');
+    hash.update(readFileSync(file));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/** Current git commit of the repo, or null outside a git checkout. */
+export function gitHead(cwd) {
+  const result = spawnSync('git', ['rev-parse', 'HEAD'], { cwd, encoding: 'utf-8' });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+// ---------------------------------------------------------------------------
+// Output files
+// ---------------------------------------------------------------------------
+
+/**
+ * Write `content` to `path` only if it differs from what is there, so
+ * unchanged outputs keep their mtime and don't trigger dev-server reloads.
+ * @returns {boolean} whether the file was written
+ */
+export function writeFileIfChanged(path, content) {
+  if (existsSync(path) && readFileSync(path, 'utf-8') === content) return false;
+  writeFileSync(path, content);
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch row count + latest change for wiki-server tables.
+ * Returns null if the server is unset, unreachable or rejects the request.
+ */
+async function fetchTableFingerprints(serverUrl, headers, tables) {
+  if (!serverUrl) return null;
+  try {
+    const res = await fetch(`${serverUrl}/health/tables?names=${tables.join(',')}`, {
+      headers,
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.tables ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a build cache.
+ *
+ * @param {object} [opts]
+ * @param {string} [opts.dir] - Cache directory
+ * @param {boolean} [opts.enabled] - Read cached results (false = recompute all, still write)
+ * @param {string} [opts.serverUrl] - wiki-server URL for table fingerprints
+ * @param {object} [opts.headers] - Request headers for the wiki-server
+ */
+export function createBuildCache({
+  dir = BUILD_CACHE_DIR,
+  enabled = true,
+  serverUrl = process.env.LONGTERMWIKI_SERVER_URL,
+  headers = {},
+} = {}) {
+  /** name → { hits, misses } */
+  const stats = new Map();
+
+  function record(name, hits, misses) {
+    const s = stats.get(name) ?? { hits: 0, misses: 0 };
+    s.hits += hits;
+    s.misses += misses;
+    stats.set(name, s);
+  }
+
+  function read(name) {
+    if (!enabled) return null;
+    const path = join(dir, `${name}.json`);
+    if (!existsSync(path)) return null;
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  function write(name, data) {
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${name}.json`);
+    writeFileSync(`${path}.tmp`, JSON.stringify(data));
+    renameSync(`${path}.tmp`, path);
+  }
+
+  /**
+   * Hash declared inputs. Returns null when a declared table can't be
+   * fingerprinted — the result can't be validated, so it isn't cached.
+   */
+  async function hashInputs({ files, tables, code, values } = {}) {
+    const parts = [CACHE_VERSION];
+    if (files?.length) parts.push(hashFiles(files));
+    if (code?.length) parts.push(hashFiles(code));
+    if (values !== undefined) parts.push(values);
+    if (tables?.length) {
+      const fingerprints = await fetchTableFingerprints(serverUrl, headers, tables);
+      if (!fingerprints) return null;
+      parts.push(tables.map((t) => [t, fingerprints[t] ?? null]));
+    }
+    return hashOf(...parts);
+  }
+
+  return {
+    /**
+     * Run a whole-output stage, reusing the cached output while its inputs
+     * are unchanged. Null/undefined outputs are never cached (they mean the
+     * stage had nothing to work with, e.g. the server was down).
+     *
+     * @param {string} name
+     * @param {object} opts
+     * @param {object} [opts.inputs] - { files, tables, code, values }
+     * @param {() => any} opts.compute
+     * @param {(output: any) => boolean} [opts.cacheable] - Whether an output
+     *   may be cached — fetchers that return an empty result on failure
+     *   should refuse empty results
+     * @param {(output: any) => any} [opts.encode] - To JSON-serializable form
+     * @param {(cached: any) => any} [opts.decode] - Back from the cached form
+     */
+    async stage(name, { inputs, compute, cacheable = () => true, encode = (v) => v, decode = (v) => v }) {
+      const key = await hashInputs(inputs);
+      const cached = key ? read(name) : null;
+      if (cached && cached.key === key) {
+        record(name, 1, 0);
+        return decode(cached.output);
+      }
+
+      const output = await compute();
+      record(name, 0, 1);
+      if (key && output != null && cacheable(output)) write(name, { key, output: encode(output) });
+      return output;
+    },
+
+    /**
+     * Run a per-item stage: `compute(item)` only for items whose hash
+     * changed since the last run. Items no longer present are dropped from
+     * the cache.
+     *
+     * @param {string} name
+     * @param {Array} list
+     * @param {object} opts
+     * @param {(item) => string} opts.key - Stable item identity (page id)
+     * @param {(item) => any} opts.hash - The item's own inputs (page content)
+     * @param {object} [opts.inputs] - Inputs shared by every item (code, values)
+     * @param {(item) => any} opts.compute - Must return JSON-serializable output
+     * @returns {Promise<Map<string, any>>} key → output
+     */
+    async items(name, list, { key, hash, inputs, compute }) {
+      const shared = await hashInputs(inputs);
+      const cached = shared ? read(name) : null;
+      const previous = cached && cached.shared === shared ? cached.items : {};
+
+      const results = new Map();
+      const entries = {};
+      let hits = 0;
+      let misses = 0;
+      for (const item of list) {
+        const k = key(item);
+        const h = hashOf(hash(item));
+        let value;
+        if (previous[k] && previous[k].hash === h) {
+          value = previous[k].value;
+          hits++;
+        } else {
+          value = await compute(item);
+          misses++;
+        }
+        results.set(k, value);
+        entries[k] = { hash: h, value };
+      }
+
+      record(name, hits, misses);
+      const pruned = Object.keys(previous).some((k) => !(k in entries));
+      if (shared && (misses > 0 || pruned || !cached)) write(name, { shared, items: entries });
+      return results;
+    },
+
+    /**
+     * Load state saved by `save()` for a stage that manages its own
+     * incremental update (e.g. pairwise redundancy). Null if the shared
+     * inputs changed or nothing is cached.
+     */
+    async load(name, inputs) {
+      const key = await hashInputs(inputs);
+      const cached = key ? read(name) : null;
+      const state = cached && cached.key === key ? cached.state : null;
+      record(name, state ? 1 : 0, state ? 0 : 1);
+      return state;
+    },
+
+    async save(name, inputs, state) {
+      const key = await hashInputs(inputs);
+      if (key) write(name, { key, state });
+    },
+
+    /** One line per stage: "name: 671 cached, 1 computed". */
+    summary() {
+      return [...stats.entries()].map(
+        ([name, { hits, misses }]) => `${name}: ${hits} cached, ${misses} computed`,
+      );
+    },
+  };
+}
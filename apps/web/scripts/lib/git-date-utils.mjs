@@ -2,7 +2,8 @@
  * Git Date Utilities
  *
  * Pure functions for processing git-based date maps, including
- * bulk-import detection and dateCreated fallback chain logic.
+ * bulk-import detection, dateCreated fallback chain logic, and the dates
+ * FactBase facts and records were added.
  */
 
 /**
@@ -75,3 +76,53 @@ export function filterBulkImportDates(gitCreatedMap, threshold = BULK_IMPORT_THR
 export function resolveDateCreated({ fmCreatedAt, gitCreatedDate, earliestEditLogDate, fmDateCreated }) {
   return fmCreatedAt || gitCreatedDate || earliestEditLogDate || fmDateCreated || null;
 }
+
+/** `  - id: f_abc123` — a fact entry in a FactBase things/*.yaml file. */
+const FACT_ID_LINE = /^\s*-\s+id:\s*["']?([\w-]+)["']?\s*$/;
+/** `    i_some_key:` — a record key nested under `records: <collection>:`. */
+const RECORD_KEY_LINE = /^ {4}([\w-]+):\s*$/;
+
+/**
+ * Find the date each FactBase fact and record first appeared in git.
+ *
+ * Parses `git log --reverse -p --format=COMMIT %ad --date=short` output over
+ * packages/factbase/data/things/ and keeps the first date an added line
+ * introduced each fact ID or record key. Record keys are only unique within
+ * their file, so they are keyed as `<file stem>:<record key>`.
+ *
+ * @param {string} logOutput - oldest-first `git log -p` output
+ * @returns {{ facts: Map<string, string>, records: Map<string, string> }}
+ */
+export function parseFactBaseAdditions(logOutput) {
+  const facts = new Map();
+  const records = new Map();
+  let currentDate = null;
+  let currentStem = null;
+
+  for (const line of logOutput.split('\n')) {
+    if (line.startsWith('COMMIT ')) {
+      currentDate = line.slice(7).trim();
+      continue;
+    }
+    if (line.startsWith('+++ ')) {
+      const match = line.match(/\/things\/([^/]+)\.yaml$/);
+      currentStem = match ? match[1] : null;
+      continue;
+    }
+    if (!currentDate || !currentStem || !line.startsWith('+')) continue;
+
+    const added = line.slice(1);
+    const factMatch = added.match(FACT_ID_LINE);
+    if (factMatch) {
+      if (!facts.has(factMatch[1])) facts.set(factMatch[1], currentDate);
+      continue;
+    }
+    const recordMatch = added.match(RECORD_KEY_LINE);
+    if (recordMatch) {
+      const key = `${currentStem}:${recordMatch[1]}`;
+      if (!records.has(key)) records.set(key, currentDate);
+    }
+  }
+
+  return { facts, records };
+}
@@ -5,6 +5,8 @@
  * Used by build-data.mjs to add redundancy scores to pages data.
  */
 
+import { hashOf } from './build-cache.mjs';
+
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
@@ -91,30 +93,62 @@ function jaccardSimilarity(setA, setB) {
 // MAIN ANALYSIS
 // =============================================================================
 
+function pairKey(a, b) {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
 /**
  * Compute redundancy data for all pages
- * Returns { pageRedundancy, pairs } where:
+ * Returns { pageRedundancy, pairs, state, compared } where:
  *   - pageRedundancy: Map<pageId, { maxSimilarity, similarPages[] }>
  *   - pairs: Array of { pageA, pageB, similarity, wordSimilarity }
+ *   - state: per-page content hashes + above-threshold pair scores, to pass
+ *     back as `previous` on the next run
+ *   - compared: number of page pairs actually compared this run
  *
  * Only compares pages within the same contentFormat to avoid
  * false positives (e.g. a table page sharing keywords with an article).
+ *
+ * With `previous` state, pairs of pages whose content and format are both
+ * unchanged reuse the previous scores (a pair missing from previous.scores
+ * was below the threshold), so editing one page costs one row of
+ * comparisons instead of all of them. The result is identical to a full run.
  */
-export function computeRedundancy(pages) {
+export function computeRedundancy(pages, { previous = null } = {}) {
   // Process each page
   const processed = pages.map(page => {
     const text = extractContent(page.rawContent || '');
+    const contentFormat = page.contentFormat || 'article';
+    let shingles = null;
     return {
       id: page.id,
       path: page.path,
       title: page.title,
-      contentFormat: page.contentFormat || 'article',
+      contentFormat,
       text,
-      shingles: getShingles(text),
+      hash: hashOf(contentFormat, text),
+      // Built on first use — pages whose pairs are all reused never need them
+      get shingles() {
+        return (shingles ??= getShingles(text));
+      },
       words: getWords(text),
     };
   }).filter(p => p.words.size > 10); // Skip very short pages
 
+  const previousHashes = previous?.hashes ?? {};
+  const previousScores = previous?.scores ?? {};
+  // Scores are keyed by page id, so a duplicated id is never treated as unchanged
+  const idCounts = new Map();
+  for (const p of processed) idCounts.set(p.id, (idCounts.get(p.id) || 0) + 1);
+  const unchanged = new Set(
+    processed.filter(p => idCounts.get(p.id) === 1 && previousHashes[p.id] === p.hash).map(p => p.id)
+  );
+  const state = {
+    hashes: Object.fromEntries(processed.map(p => [p.id, p.hash])),
+    scores: {},
+  };
+  let compared = 0;
+
   // Compare pairs within each content-format cluster (avoids cross-format
   // comparisons entirely, reducing the number of pairs significantly).
   const pairs = [];
@@ -146,14 +180,26 @@ export function computeRedundancy(pages) {
         const a = cluster[i];
         const b = cluster[j];
 
-        // Compute both n-gram and word similarity
-        const shingleSimilarity = jaccardSimilarity(a.shingles, b.shingles);
-        const wordSimilarity = jaccardSimilarity(a.words, b.words);
+        // Compute both n-gram and word similarity (or reuse them if neither
+        // page changed since the previous run)
+        const key = pairKey(a.id, b.id);
+        let shingleSimilarity = 0;
+        let wordSimilarity = 0;
+        if (unchanged.has(a.id) && unchanged.has(b.id)) {
+          const score = previousScores[key];
+          if (!score) continue;
+          [shingleSimilarity, wordSimilarity] = score;
+        } else {
+          shingleSimilarity = jaccardSimilarity(a.shingles, b.shingles);
+          wordSimilarity = jaccardSimilarity(a.words, b.words);
+          compared++;
+        }
 
         // Use the higher of the two for detection
         const combinedSimilarity = Math.max(shingleSimilarity, wordSimilarity * 0.8);
 
         if (combinedSimilarity >= SIMILARITY_THRESHOLD) {
+          state.scores[key] = [shingleSimilarity, wordSimilarity];
           pairs.push({
             pageA: a.id,
             pageB: b.id,
@@ -212,7 +258,7 @@ export function computeRedundancy(pages) {
   // Sort pairs by similarity
   pairs.sort((a, b) => b.similarity - a.similarity);
 
-  return { pageRedundancy, pairs };
+  return { pageRedundancy, pairs, state, compared };
 }
 
 /**
@@ -147,4 +147,24 @@ describe("GET /api/search", () => {
       expect.any(Object),
     );
   });
+
+  it("forwards hybrid mode and ignores unknown modes", async () => {
+    global.fetch = vi.fn().mockImplementation(
+      async () => new Response(JSON.stringify({ results: [], query: "x", total: 0 }), { status: 200 }),
+    );
+
+    await GET(new NextRequest("http://localhost:3001/api/search?q=test&mode=hybrid"));
+    await GET(new NextRequest("http://localhost:3001/api/search?q=test&mode=bogus"));
+
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      1,
+      "http://localhost:3100/api/pages/search?q=test&limit=20&mode=hybrid",
+      expect.any(Object),
+    );
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      2,
+      "http://localhost:3100/api/pages/search?q=test&limit=20",
+      expect.any(Object),
+    );
+  });
 });
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 
 /**
- * GET /api/search?q=...&limit=20
+ * GET /api/search?q=...&limit=20&mode=fts|hybrid
  *
- * Proxies search requests to the wiki-server's PostgreSQL full-text search.
+ * Proxies search requests to the wiki-server's PostgreSQL full-text search
+ * (or hybrid FTS + embedding search when mode=hybrid).
  * Returns 503 when the wiki-server is unavailable so the client can
  * degrade gracefully (empty results).
  */
@@ -12,6 +13,7 @@ export async function GET(request: NextRequest) {
   const q = searchParams.get("q");
   const rawLimit = parseInt(searchParams.get("limit") ?? "20", 10);
   const limit = Math.min(Math.max(isNaN(rawLimit) ? 20 : rawLimit, 1), 100);
+  const mode = searchParams.get("mode") === "hybrid" ? "hybrid" : "fts";
 
   if (!q || !q.trim()) {
     return NextResponse.json({ results: [], query: "", total: 0 });
@@ -32,7 +34,8 @@ export async function GET(request: NextRequest) {
       headers["Authorization"] = `Bearer ${apiKey}`;
     }
 
-    const url = `${serverUrl}/api/pages/search?q=${encodeURIComponent(q)}&limit=${limit}`;
+    let url = `${serverUrl}/api/pages/search?q=${encodeURIComponent(q)}&limit=${limit}`;
+    if (mode === "hybrid") url += "&mode=hybrid";
     const res = await fetch(url, {
       headers,
       signal: AbortSignal.timeout(3000),
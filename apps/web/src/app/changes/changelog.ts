@@ -0,0 +1,213 @@
+/**
+ * Assemble the wiki-wide changelog from build-time data:
+ *   - page edits from each page's changeHistory
+ *   - dated fact readings, with the previous value of the same property
+ *   - FactBase records
+ *
+ * Facts and records are dated by when the wiki added them (kbChangeDates:
+ * the introducing commit, or createdAt for PG-backed records); their asOf or
+ * first date field is only shown in the title, and items whose asOf is still
+ * in the future are left out.
+ *
+ * Items are keyed to wiki entity slugs so /changes?entity=anthropic and the
+ * per-entity feeds pick up page edits, facts, and records alike. The list is
+ * built once per server process; data only changes on rebuild. The future
+ * cutoff is applied per call.
+ */
+
+import { getEntityHref, getPageById, getPageChanges, getTypedEntityById } from "@data";
+import {
+  getAllFactBaseRecordEntries,
+  getFactBase,
+  getFactBaseEntity,
+  getFactBaseFactAddedDate,
+  getFactBaseRecordAddedDate,
+  getFactBaseEntitySlug,
+  getFactBaseProperty,
+  getFactBaseRecordSchema,
+} from "@/data/factbase";
+import { formatKBDate, formatKBFactValue, titleCase } from "@/components/wiki/factbase/format";
+import {
+  FEED_ITEM_LIMIT,
+  changeFilterQuery,
+  filterChanges,
+  padChangeDate,
+  sortChanges,
+  type ChangeFeed,
+  type ChangeFilter,
+  type ChangeItem,
+} from "@/lib/changelog-feed";
+import { SITE_URL } from "@/lib/site-config";
+import type { Fact, RecordEntry } from "@longterm-wiki/factbase";
+
+const MAX_VALUE_LENGTH = 160;
+
+/** A change plus the asOf it describes, so the future cutoff can move with the clock. */
+interface DatedChange {
+  item: ChangeItem;
+  asOf?: string;
+}
+
+let _changes: DatedChange[] | null = null;
+
+function truncate(text: string): string {
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/** Category and tags of the wiki entity a change belongs to. */
+function entityContext(slug: string | undefined): Pick<ChangeItem, "category" | "tags"> {
+  if (!slug) return { tags: [] };
+  const page = getPageById(slug);
+  const tags = getTypedEntityById(slug)?.tags ?? page?.tags ?? [];
+  return {
+    ...(page?.category ? { category: page.category } : {}),
+    tags: [...new Set(tags.map((t) => t.toLowerCase()))],
+  };
+}
+
+function pageEditChanges(): DatedChange[] {
+  return getPageChanges().map((change) => ({
+    item: {
+      id: `page:${change.pageId}:${change.date}:${change.branch}`,
+      kind: "page",
+      date: change.date,
+      title: `${change.pageTitle}: ${change.sessionTitle}`,
+      ...(change.summary ? { summary: change.summary } : {}),
+      href: `/wiki/${change.numericId}`,
+      entityId: change.pageId,
+      entityName: change.pageTitle,
+      ...entityContext(change.pageId),
+      category: change.category,
+    },
+  }));
+}
+
+function formatFactValue(fact: Fact): string {
+  if (fact.value.type === "ref") {
+    return getTypedEntityById(fact.value.value)?.title ?? fact.value.value;
+  }
+  const property = getFactBaseProperty(fact.propertyId);
+  return truncate(formatKBFactValue(fact, property?.unit, property?.display));
+}
+
+function factChanges(): DatedChange[] {
+  const fb = getFactBase();
+  if (!fb) return [];
+  const items: DatedChange[] = [];
+
+  for (const facts of Object.values(fb.facts)) {
+    // Group readings of the same property so each can name its predecessor
+    const byProperty = new Map<string, Fact[]>();
+    for (const fact of facts) {
+      if (!fact.asOf || fact.derivedFrom) continue;
+      const group = byProperty.get(fact.propertyId) ?? [];
+      group.push(fact);
+      byProperty.set(fact.propertyId, group);
+    }
+
+    for (const readings of byProperty.values()) {
+      readings.sort((a, b) => padChangeDate(a.asOf!).localeCompare(padChangeDate(b.asOf!)));
+      readings.forEach((fact, i) => {
+        const added = getFactBaseFactAddedDate(fact.id);
+        if (!added) return;
+        const slug = getFactBaseEntitySlug(fact.subjectId);
+        const entityName = getFactBaseEntity(fact.subjectId)?.name ?? slug ?? fact.subjectId;
+        const propertyName = getFactBaseProperty(fact.propertyId)?.name ?? titleCase(fact.propertyId);
+        const previous = readings[i - 1];
+        items.push({
+          asOf: fact.asOf,
+          item: {
+            id: `fact:${fact.id}`,
+            kind: "fact",
+            date: added,
+            title: `${entityName} — ${propertyName}: ${formatFactValue(fact)} (as of ${formatKBDate(fact.asOf)})`,
+            ...(previous
+              ? { summary: `Previously ${formatFactValue(previous)} (as of ${formatKBDate(previous.asOf)}).` }
+              : {}),
+            href: `/factbase/fact/${fact.id}`,
+            ...(slug ? { entityId: slug } : {}),
+            entityName,
+            ...entityContext(slug),
+          },
+        });
+      });
+    }
+  }
+  return items;
+}
+
+/** asOf, or the first date-typed field in schema order (e.g. funding-round `date`). */
+function recordDate(entry: RecordEntry): string | undefined {
+  if (entry.asOf) return entry.asOf;
+  const schema = getFactBaseRecordSchema(entry.schema);
+  for (const [name, def] of Object.entries(schema?.fields ?? {})) {
+    const value = entry.fields[name];
+    if (def.type === "date" && typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+function recordLabel(entry: RecordEntry): string {
+  const named = entry.fields["name"] ?? entry.fields["title"] ?? entry.fields["label"];
+  if (typeof named === "string") return named;
+  return entry.displayName ?? titleCase(entry.key);
+}
+
+function recordChanges(): DatedChange[] {
+  const items: DatedChange[] = [];
+  for (const { entityId, collection, entry } of getAllFactBaseRecordEntries()) {
+    const added = getFactBaseRecordAddedDate(entityId, collection, entry.key);
+    if (!added) continue;
+    const asOf = recordDate(entry);
+    const slug = getFactBaseEntitySlug(entityId);
+    const entityName = getFactBaseEntity(entityId)?.name ?? slug ?? entityId;
+    const schemaName = getFactBaseRecordSchema(entry.schema)?.name ?? titleCase(entry.schema);
+    items.push({
+      asOf,
+      item: {
+        id: `record:${entityId}:${collection}:${entry.key}`,
+        kind: "record",
+        date: added,
+        title: `${entityName} — ${schemaName}: ${recordLabel(entry)}${asOf ? ` (${formatKBDate(asOf)})` : ""}`,
+        ...(typeof entry.fields["notes"] === "string" ? { summary: truncate(entry.fields["notes"]) } : {}),
+        href: slug ? getEntityHref(slug) : `/factbase/entity/${entityId}`,
+        ...(slug ? { entityId: slug } : {}),
+        entityName,
+        ...entityContext(slug),
+      },
+    });
+  }
+  return items;
+}
+
+/** Every change on the wiki, newest first. Facts and records whose asOf is after today are left out. */
+export function getChangelog(): ChangeItem[] {
+  _changes ??= [...pageEditChanges(), ...factChanges(), ...recordChanges()];
+  const today = new Date().toISOString().slice(0, 10);
+  return sortChanges(
+    _changes.filter(({ asOf }) => !asOf || padChangeDate(asOf) <= today).map(({ item }) => item),
+  );
+}
+
+/** Display name for an entity slug used in a filter. */
+export function getChangelogEntityName(slug: string): string | undefined {
+  return getTypedEntityById(slug)?.title ?? getPageById(slug)?.title;
+}
+
+/** Feed metadata and the newest FEED_ITEM_LIMIT items for a filtered view. */
+export function buildChangeFeed(filter: ChangeFilter, feedPath: string): ChangeFeed {
+  const query = changeFilterQuery(filter);
+  const scope = [
+    filter.entity ? getChangelogEntityName(filter.entity) ?? filter.entity : null,
+    filter.category ? `category ${filter.category}` : null,
+    filter.tag ? `tag ${filter.tag}` : null,
+  ].filter(Boolean);
+  return {
+    title: `Longterm Wiki — Changes${scope.length > 0 ? `: ${scope.join(", ")}` : ""}`,
+    description: "Page edits, fact updates, and new records on the Longterm Wiki.",
+    homeUrl: `${SITE_URL}/changes${query}`,
+    feedUrl: `${SITE_URL}${feedPath}${query}`,
+    siteUrl: SITE_URL,
+    items: filterChanges(getChangelog(), filter).slice(0, FEED_ITEM_LIMIT),
+  };
+}
@@ -0,0 +1,12 @@
+import { parseChangeFilter, toJsonFeed } from "@/lib/changelog-feed";
+import { buildChangeFeed } from "../changelog";
+
+export function GET(request: Request) {
+  const filter = parseChangeFilter(new URL(request.url).searchParams);
+  return Response.json(toJsonFeed(buildChangeFeed(filter, "/changes/feed.json")), {
+    headers: {
+      "Content-Type": "application/feed+json; charset=utf-8",
+      "Cache-Control": "s-maxage=3600, stale-while-revalidate",
+    },
+  });
+}
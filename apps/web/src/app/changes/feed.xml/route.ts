@@ -0,0 +1,12 @@
+import { parseChangeFilter, toRss } from "@/lib/changelog-feed";
+import { buildChangeFeed } from "../changelog";
+
+export function GET(request: Request) {
+  const filter = parseChangeFilter(new URL(request.url).searchParams);
+  return new Response(toRss(buildChangeFeed(filter, "/changes/feed.xml")), {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "Cache-Control": "s-maxage=3600, stale-while-revalidate",
+    },
+  });
+}
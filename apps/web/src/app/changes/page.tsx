@@ -0,0 +1,180 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { formatKBDate } from "@/components/wiki/factbase/format";
+import {
+  CHANGE_KIND_LABELS,
+  changeFilterQuery,
+  filterChanges,
+  parseChangeFilter,
+  type ChangeFilter,
+  type ChangeKind,
+} from "@/lib/changelog-feed";
+import { getChangelog, getChangelogEntityName } from "./changelog";
+
+export const metadata: Metadata = {
+  title: "Recent Changes",
+  description:
+    "Page edits, fact updates, and new records across the wiki, filterable by entity, category, and tag, with RSS and JSON feeds.",
+};
+
+const PAGE_LIMIT = 200;
+const TAG_OPTION_LIMIT = 60;
+
+const KIND_BADGE: Record<ChangeKind, string> = {
+  page: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  fact: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300",
+  record: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+};
+
+function countBy(values: Array<string | undefined>): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export default async function ChangesPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const filter = parseChangeFilter(await searchParams);
+  const all = getChangelog();
+  const changes = filterChanges(all, filter);
+  const query = changeFilterQuery(filter);
+  const entityName = filter.entity ? getChangelogEntityName(filter.entity) ?? filter.entity : null;
+
+  const categories = countBy(all.map((c) => c.category));
+  const tags = countBy(all.flatMap((c) => c.tags)).slice(0, TAG_OPTION_LIMIT);
+  const without = (name: keyof ChangeFilter) => `/changes${changeFilterQuery({ ...filter, [name]: undefined })}`;
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold tracking-tight mb-2">
+          Recent Changes{entityName ? `: ${entityName}` : ""}
+        </h1>
+        <p className="text-muted-foreground text-sm max-w-2xl">
+          Page edits, fact updates, and new records across the wiki. Subscribe to any filtered view
+          with{" "}
+          <a href={`/changes/feed.xml${query}`} className="text-primary hover:underline">
+            RSS
+          </a>{" "}
+          or{" "}
+          <a href={`/changes/feed.json${query}`} className="text-primary hover:underline">
+            JSON Feed
+          </a>
+          .
+        </p>
+      </div>
+
+      <form method="get" action="/changes" className="flex flex-wrap items-end gap-3 mb-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Entity</span>
+          <input
+            name="entity"
+            defaultValue={filter.entity ?? ""}
+            placeholder="e.g. anthropic"
+            className="h-8 rounded-md border bg-background px-2"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Category</span>
+          <select name="category" defaultValue={filter.category ?? ""} className="h-8 rounded-md border bg-background px-2">
+            <option value="">All</option>
+            {categories.map(([category, count]) => (
+              <option key={category} value={category}>
+                {category} ({count})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Tag</span>
+          <select name="tag" defaultValue={filter.tag ?? ""} className="h-8 rounded-md border bg-background px-2">
+            <option value="">All</option>
+            {tags.map(([tag, count]) => (
+              <option key={tag} value={tag}>
+                {tag} ({count})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Kind</span>
+          <select name="kind" defaultValue={filter.kind ?? ""} className="h-8 rounded-md border bg-background px-2">
+            <option value="">All</option>
+            {Object.entries(CHANGE_KIND_LABELS).map(([kind, label]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className="h-8 rounded-md border bg-card px-3 hover:bg-muted">
+          Filter
+        </button>
+        {query && (
+          <Link href="/changes" className="h-8 leading-8 text-muted-foreground hover:text-foreground">
+            Clear
+          </Link>
+        )}
+      </form>
+
+      {query && (
+        <div className="flex flex-wrap gap-2 mb-4 text-xs">
+          {(Object.keys(filter) as Array<keyof ChangeFilter>).map((name) => (
+            <Link
+              key={name}
+              href={without(name)}
+              className="rounded-full border px-2 py-0.5 text-muted-foreground no-underline hover:text-foreground"
+              title="Remove filter"
+            >
+              {name}: {name === "entity" ? entityName : filter[name]} ×
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mb-3">
+        {changes.length > PAGE_LIMIT
+          ? `Showing the ${PAGE_LIMIT} most recent of ${changes.length} changes. Narrow the filters to see older ones.`
+          : `${changes.length} change${changes.length === 1 ? "" : "s"}.`}
+      </p>
+
+      {changes.length === 0 ? (
+        <p className="text-muted-foreground">No changes match these filters.</p>
+      ) : (
+        <ul className="divide-y divide-border/60 border-y border-border/60">
+          {changes.slice(0, PAGE_LIMIT).map((change) => (
+            <li key={change.id} className="flex gap-3 py-2.5">
+              <div className="w-20 shrink-0 text-xs text-muted-foreground tabular-nums pt-0.5">
+                {formatKBDate(change.date)}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm leading-snug">
+                  <span className={`mr-2 rounded px-1.5 py-0.5 text-[10px] font-medium ${KIND_BADGE[change.kind]}`}>
+                    {CHANGE_KIND_LABELS[change.kind]}
+                  </span>
+                  <Link href={change.href} className="hover:underline">
+                    {change.title}
+                  </Link>
+                </div>
+                {change.summary && (
+                  <div className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{change.summary}</div>
+                )}
+                {change.entityId && !filter.entity && (
+                  <Link
+                    href={`/changes${changeFilterQuery({ ...filter, entity: change.entityId })}`}
+                    className="text-[11px] text-muted-foreground hover:text-foreground"
+                  >
+                    All changes to {change.entityName ?? change.entityId}
+                  </Link>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
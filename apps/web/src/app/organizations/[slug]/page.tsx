@@ -15,6 +15,8 @@ import {
   shortDomain,
 } from "@/components/wiki/factbase/format";
 import { formatCompactCurrency } from "@/lib/format-compact";
+import { changeFilterQuery } from "@/lib/changelog-feed";
+import { SITE_URL } from "@/lib/site-config";
 import Link from "next/link";
 import {
   Breadcrumbs,
@@ -87,11 +89,16 @@ export async function generateMetadata({
   params: Promise<{ slug: string }>;
 }): Promise<Metadata> {
   const { slug } = await params;
+  // Lets feed readers discover the per-organization changelog
+  const alternates = {
+    types: { "application/rss+xml": `${SITE_URL}/changes/feed.xml${changeFilterQuery({ entity: slug })}` },
+  };
   const kbEntity = resolveOrgBySlug(slug);
   if (kbEntity) {
     return {
       title: `${kbEntity.name} | Organizations`,
       description: `Profile and key metrics for ${kbEntity.name}.`,
+      alternates,
     };
   }
   const typedEntity = getTypedEntityById(slug);
@@ -99,6 +106,7 @@ export async function generateMetadata({
     return {
       title: `${typedEntity.title} | Organizations`,
       description: `Profile and key metrics for ${typedEntity.title}.`,
+      alternates,
     };
   }
   return { title: "Organization Not Found" };
@@ -593,6 +601,9 @@ export default async function OrgProfilePage({
               <Link href={`/factbase/entity/${entity.id}`} className="text-primary hover:text-primary/80 font-medium transition-colors">
                 KB data &rarr;
               </Link>
+              <Link href={`/changes${changeFilterQuery({ entity: slug })}`} className="text-primary hover:text-primary/80 font-medium transition-colors">
+                Changes &rarr;
+              </Link>
             </div>
 
             {data.founders.length > 0 && (
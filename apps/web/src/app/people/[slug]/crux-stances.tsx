@@ -0,0 +1,65 @@
+import type { CruxStance } from "@/data/cruxes";
+import { safeHref } from "@/lib/directory-utils";
+import { formatPositionDate } from "./expert-positions";
+
+export function CruxStances({ stances }: { stances: CruxStance[] }) {
+  if (stances.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-lg font-bold tracking-tight mb-4">
+        Stances on Key Cruxes
+        <span className="ml-2 text-sm font-normal text-muted-foreground">
+          {stances.length} {stances.length === 1 ? "crux" : "cruxes"}
+        </span>
+      </h2>
+      <div className="border border-border/60 rounded-xl bg-card divide-y divide-border/30">
+        {stances.map(({ crux, position, holder }, i) => (
+          <div key={`${crux.id}-${i}`} className="px-4 py-3">
+            <div className="text-xs text-muted-foreground mb-1">{crux.question}</div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-medium">{holder.stance ?? position.view}</span>
+              {position.probability && (
+                <span className="text-xs text-muted-foreground shrink-0">
+                  ({position.probability})
+                </span>
+              )}
+              {holder.date && (
+                <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                  {formatPositionDate(holder.date)}
+                </span>
+              )}
+            </div>
+            {holder.stance && (
+              <div className="text-xs text-muted-foreground mt-0.5">
+                Position: {position.view}
+              </div>
+            )}
+            {holder.quote && (
+              <blockquote className="text-xs text-muted-foreground mt-1.5 border-l-2 border-muted pl-2 italic">
+                &ldquo;{holder.quote}&rdquo;
+              </blockquote>
+            )}
+            {holder.source && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Source:{" "}
+                {holder.sourceUrl ? (
+                  <a
+                    href={safeHref(holder.sourceUrl)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    {holder.source}
+                  </a>
+                ) : (
+                  holder.source
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -10,7 +10,7 @@ const CONFIDENCE_STYLES: Record<string, string> = {
 };
 
 /** Format a date string like "2023", "2023-05", or "2023-05-01" for display */
-function formatPositionDate(date: string): string {
+export function formatPositionDate(date: string): string {
   if (/^\d{4}-\d{2}$/.test(date)) {
     const [year, month] = date.split("-");
     const monthNames = [
@@ -27,9 +27,12 @@ import {
   type ProfileTab,
 } from "@/components/directory";
 import { formatKBDate } from "@/components/wiki/factbase/format";
-import { getExpertById, getPublicationsForPerson, getTypedEntityById, isPerson } from "@/data";
+import { changeFilterQuery } from "@/lib/changelog-feed";
+import { SITE_URL } from "@/lib/site-config";
+import { getCruxStancesForEntity, getExpertById, getPublicationsForPerson, getTypedEntityById, isPerson } from "@/data";
 import type { Entity } from "@longterm-wiki/factbase";
 import { ExpertPositions } from "./expert-positions";
+import { CruxStances } from "./crux-stances";
 import { SocialLinks } from "./social-links";
 import { CareerHistory } from "./career-history";
 import { EducationSection } from "./education-section";
@@ -92,6 +95,9 @@ export async function generateMetadata({
   return {
     title: `${entity.name} | People`,
     description,
+    alternates: {
+      types: { "application/rss+xml": `${SITE_URL}/changes/feed.xml${changeFilterQuery({ entity: slug })}` },
+    },
   };
 }
 
@@ -134,6 +140,9 @@ export default async function PersonProfilePage({
   const expert = getExpertById(slug);
   const positions = expert?.positions ?? [];
 
+  // Crux positions that name this person as a holder
+  const cruxStances = getCruxStancesForEntity(slug);
+
   // Publications linked to this person
   const publications = getPublicationsForPerson(slug);
 
@@ -239,17 +248,18 @@ export default async function PersonProfilePage({
 
   // ── Build tabs from available data ──
   const overviewCount =
-    positions.length + sortedOrgRoles.length + sortedBoardSeats.length + (educationText ? 1 : 0);
+    positions.length + cruxStances.length + sortedOrgRoles.length + sortedBoardSeats.length + (educationText ? 1 : 0);
 
   const tabs: ProfileTab[] = [];
 
-  // Overview: expert positions, org roles, board seats, education
+  // Overview: expert positions, crux stances, org roles, board seats, education
   tabs.push({
     id: "overview",
     label: "Overview",
     content: (
       <div className="space-y-8">
         <ExpertPositions positions={positions} />
+        <CruxStances stances={cruxStances} />
         <OrgRoles orgRoles={sortedOrgRoles} />
         <BoardSeats boardSeats={sortedBoardSeats} />
         {educationText && <EducationSection education={educationText} />}
@@ -331,6 +341,12 @@ export default async function PersonProfilePage({
             >
               KB data &rarr;
             </Link>
+            <Link
+              href={`/changes${changeFilterQuery({ entity: slug })}`}
+              className="text-primary hover:text-primary/80 font-medium transition-colors"
+            >
+              Changes &rarr;
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,89 @@
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import { getEntityHref } from "@data";
+import { fetchDetailed } from "@/lib/wiki-server";
+import type {
+  FacetedSearchHit,
+  FacetedSearchResult,
+} from "@wiki-server/api-response-types";
+import { SEARCH_PAGE_SIZE, SEARCH_PARAMS } from "./search-facets";
+import { SearchResults, type SearchResultRow } from "./search-results";
+
+export const metadata: Metadata = {
+  title: "Search",
+  description:
+    "Search wiki pages, entities, facts, and resources, with filters for type, category, quality, importance, and recency.",
+};
+
+function hitHref(hit: FacetedSearchHit): string | null {
+  switch (hit.kind) {
+    case "page":
+      return `/wiki/${hit.numericId ?? hit.id}`;
+    case "entity":
+      return getEntityHref(hit.id, hit.entityType ?? undefined);
+    case "fact":
+      return hit.entityId ? getEntityHref(hit.entityId) : null;
+    case "resource":
+      return `/resources/${hit.id}`;
+    default:
+      return null;
+  }
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const raw = await searchParams;
+  const params = new URLSearchParams();
+  for (const name of SEARCH_PARAMS) {
+    const value = raw[name];
+    if (typeof value === "string" && value.trim()) params.set(name, value.trim());
+  }
+
+  const query = params.get("q") ?? "";
+  const parsedPage = parseInt(params.get("page") ?? "1", 10);
+  const page = Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage - 1 : 0;
+
+  let data: FacetedSearchResult | null = null;
+  let unavailable = false;
+  if (query) {
+    const apiParams = new URLSearchParams(params);
+    apiParams.delete("page");
+    apiParams.set("limit", String(SEARCH_PAGE_SIZE));
+    apiParams.set("offset", String(page * SEARCH_PAGE_SIZE));
+    const result = await fetchDetailed<FacetedSearchResult>(
+      `/api/search?${apiParams}`,
+      { revalidate: 60, timeoutMs: 5000 },
+    );
+    if (result.ok) data = result.data;
+    else unavailable = true;
+  }
+
+  const rows: SearchResultRow[] = (data?.results ?? []).map((hit) => ({
+    ...hit,
+    href: hitHref(hit),
+  }));
+
+  return (
+    <div className="max-w-[90rem] mx-auto px-6 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold tracking-tight mb-2">Search</h1>
+        <p className="text-muted-foreground text-sm max-w-2xl">
+          Search across wiki pages, entities, facts, and resources.
+        </p>
+      </div>
+      <Suspense fallback={<div className="text-muted-foreground">Loading...</div>}>
+        <SearchResults
+          query={query}
+          rows={rows}
+          total={data?.total ?? 0}
+          page={page}
+          facets={data?.facets ?? null}
+          unavailable={unavailable}
+        />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { SEARCH_FACETS, facetChipItems, searchHref } from "./search-facets";
+
+const facet = (key: string) => SEARCH_FACETS.find((f) => f.key === key)!;
+
+describe("facetChipItems", () => {
+  it("keeps banded facets in band order and drops empty bands", () => {
+    expect(
+      facetChipItems(facet("qualityBands"), { stub: 4, comprehensive: 1, good: 2 }),
+    ).toEqual([
+      { key: "comprehensive", label: "Comprehensive", count: 1 },
+      { key: "good", label: "Good", count: 2 },
+      { key: "stub", label: "Stub", count: 4 },
+    ]);
+  });
+
+  it("sorts open-ended facets by count, then label", () => {
+    expect(
+      facetChipItems(
+        facet("entityTypes"),
+        { risk: 2, organization: 5, approach: 2 },
+        (v) => v.toUpperCase(),
+      ).map((i) => i.label),
+    ).toEqual(["ORGANIZATION", "APPROACH", "RISK"]);
+  });
+});
+
+describe("searchHref", () => {
+  it("sets a filter and resets the page", () => {
+    const current = new URLSearchParams("q=alignment&page=3");
+    expect(searchHref(current, "kind", "page")).toBe("/search?q=alignment&kind=page");
+  });
+
+  it("clears a filter when 'all' is selected", () => {
+    const current = new URLSearchParams("q=alignment&kind=page");
+    expect(searchHref(current, "kind", "all")).toBe("/search?q=alignment");
+  });
+
+  it("keeps filters when changing page", () => {
+    const current = new URLSearchParams("q=x&quality=good");
+    expect(searchHref(current, "page", "2")).toBe("/search?q=x&quality=good&page=2");
+  });
+});
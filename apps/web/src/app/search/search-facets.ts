@@ -0,0 +1,120 @@
+/**
+ * Facet definitions and URL helpers for the /search results page.
+ *
+ * Each facet maps a key in the wiki-server's `/api/search` `facets` object to
+ * the query parameter that filters on it. The URL is the source of truth for
+ * the page state, so every chip click is just a new set of search params.
+ */
+
+import type { FilterChipItem } from "@/components/directory/FilterChips";
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export type FacetKey =
+  | "kinds"
+  | "entityTypes"
+  | "categories"
+  | "qualityBands"
+  | "importanceBands"
+  | "updated";
+
+export interface FacetDef {
+  key: FacetKey;
+  /** Query parameter understood by both /search and wiki-server /api/search */
+  param: string;
+  label: string;
+  /** Fixed display order and labels for banded facets; others sort by count */
+  order?: Array<{ key: string; label: string }>;
+}
+
+export const KIND_LABELS: Record<string, string> = {
+  page: "Pages",
+  entity: "Entities",
+  fact: "Facts",
+  resource: "Resources",
+};
+
+export const SEARCH_FACETS: FacetDef[] = [
+  {
+    key: "kinds",
+    param: "kind",
+    label: "Kind",
+    order: Object.entries(KIND_LABELS).map(([key, label]) => ({ key, label })),
+  },
+  { key: "entityTypes", param: "entity_type", label: "Type" },
+  { key: "categories", param: "category", label: "Category" },
+  {
+    key: "qualityBands",
+    param: "quality",
+    label: "Quality",
+    order: [
+      { key: "comprehensive", label: "Comprehensive" },
+      { key: "good", label: "Good" },
+      { key: "adequate", label: "Adequate" },
+      { key: "draft", label: "Draft" },
+      { key: "stub", label: "Stub" },
+    ],
+  },
+  {
+    key: "importanceBands",
+    param: "importance",
+    label: "Importance",
+    order: [
+      { key: "essential", label: "Essential" },
+      { key: "high", label: "High" },
+      { key: "useful", label: "Useful" },
+      { key: "reference", label: "Reference" },
+      { key: "peripheral", label: "Peripheral" },
+    ],
+  },
+  {
+    key: "updated",
+    param: "updated",
+    label: "Updated",
+    order: [
+      { key: "week", label: "Past week" },
+      { key: "month", label: "Past month" },
+      { key: "year", label: "Past year" },
+      { key: "older", label: "Older" },
+    ],
+  },
+];
+
+/** Every query parameter the /search page forwards to wiki-server. */
+export const SEARCH_PARAMS = ["q", "page", ...SEARCH_FACETS.map((f) => f.param)];
+
+/**
+ * Chip items for one facet. Banded facets keep their fixed order (skipping
+ * empty bands); open-ended facets sort by count, then label.
+ */
+export function facetChipItems(
+  facet: FacetDef,
+  counts: Record<string, number>,
+  labelFor: (value: string) => string = (v) => v,
+): FilterChipItem[] {
+  if (facet.order) {
+    return facet.order
+      .filter((o) => counts[o.key])
+      .map((o) => ({ key: o.key, label: o.label, count: counts[o.key] }));
+  }
+  return Object.entries(counts)
+    .map(([key, count]) => ({ key, label: labelFor(key), count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * The /search URL after setting `param` to `value` ("all" clears it).
+ * Changing a filter always returns to the first page.
+ */
+export function searchHref(
+  current: URLSearchParams,
+  param: string,
+  value: string,
+): string {
+  const next = new URLSearchParams(current);
+  if (value === "all" || value === "") next.delete(param);
+  else next.set(param, value);
+  if (param !== "page") next.delete("page");
+  const qs = next.toString();
+  return qs ? `/search?${qs}` : "/search";
+}
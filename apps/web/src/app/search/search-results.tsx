@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FilterChips } from "@/components/directory/FilterChips";
+import { PaginationControls } from "@/components/directory/PaginationControls";
+import { getEntityTypeLabel } from "@data/entity-ontology";
+import type {
+  FacetedSearchHit,
+  FacetedSearchResult,
+} from "@wiki-server/api-response-types";
+import { getDomain } from "@/components/wiki/resource-utils";
+import {
+  SEARCH_FACETS,
+  SEARCH_PAGE_SIZE,
+  KIND_LABELS,
+  facetChipItems,
+  searchHref,
+} from "./search-facets";
+
+export interface SearchResultRow extends FacetedSearchHit {
+  href: string | null;
+}
+
+const KIND_BADGE_LABELS: Record<string, string> = {
+  page: "Page",
+  entity: "Entity",
+  fact: "Fact",
+  resource: "Resource",
+};
+
+export function SearchResults({
+  query,
+  rows,
+  total,
+  page,
+  facets,
+  unavailable,
+}: {
+  query: string;
+  rows: SearchResultRow[];
+  total: number;
+  page: number;
+  facets: FacetedSearchResult["facets"] | null;
+  unavailable: boolean;
+}) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [input, setInput] = useState(query);
+
+  const go = (param: string, value: string) =>
+    router.push(searchHref(searchParams, param, value));
+
+  return (
+    <div>
+      <form
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          go("q", input.trim());
+        }}
+        className="mb-6"
+      >
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Search pages, entities, facts, resources..."
+          aria-label="Search query"
+          className="w-full max-w-2xl px-3 py-2 text-sm rounded-lg border border-border bg-card focus:outline-none focus:ring-2 focus:ring-primary/30"
+        />
+      </form>
+
+      {unavailable && (
+        <p className="text-sm text-muted-foreground">
+          Search is temporarily unavailable. Please try again later.
+        </p>
+      )}
+
+      {facets && (
+        <div className="space-y-3 mb-6">
+          {SEARCH_FACETS.map((facet) => {
+            const counts = facets[facet.key];
+            const items = facetChipItems(
+              facet,
+              counts,
+              facet.key === "entityTypes" ? getEntityTypeLabel : undefined,
+            );
+            const selected = searchParams.get(facet.param) ?? "all";
+            if (items.length === 0 && selected === "all") return null;
+            return (
+              <div key={facet.key} className="flex items-start gap-3">
+                <span className="w-24 shrink-0 pt-1.5 text-xs font-medium text-muted-foreground">
+                  {facet.label}
+                </span>
+                <FilterChips
+                  items={items}
+                  selected={selected}
+                  onSelect={(value) => go(facet.param, value)}
+                  allCount={
+                    facet.key === "kinds"
+                      ? Object.values(counts).reduce((a, b) => a + b, 0)
+                      : undefined
+                  }
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {query && !unavailable && (
+        <p className="text-xs text-muted-foreground mb-3">
+          {total === 0
+            ? `No results for "${query}"`
+            : `${total} result${total === 1 ? "" : "s"} for "${query}"`}
+        </p>
+      )}
+
+      <ul className="divide-y divide-border/60">
+        {rows.map((row) => (
+          <li key={`${row.kind}:${row.entityId ?? ""}:${row.id}`} className="py-3">
+            <div className="flex items-center gap-2 mb-0.5">
+              <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                {KIND_BADGE_LABELS[row.kind] ?? row.kind}
+              </span>
+              {row.href ? (
+                <Link href={row.href} className="font-medium text-primary hover:underline">
+                  {row.title}
+                </Link>
+              ) : (
+                <span className="font-medium">{row.title}</span>
+              )}
+              {row.entityType && (
+                <span className="text-xs text-muted-foreground">
+                  {getEntityTypeLabel(row.entityType)}
+                </span>
+              )}
+              {row.kind === "resource" && row.url && (
+                <span className="text-xs text-muted-foreground">{getDomain(row.url)}</span>
+              )}
+            </div>
+            {row.description && (
+              <p className="text-sm text-muted-foreground line-clamp-2">
+                {row.description}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4">
+        <PaginationControls
+          page={page}
+          pageCount={Math.ceil(total / SEARCH_PAGE_SIZE)}
+          totalItems={total}
+          pageSize={SEARCH_PAGE_SIZE}
+          onPageChange={(p) => go("page", p === 0 ? "all" : String(p + 1))}
+        />
+      </div>
+
+      {!query && (
+        <p className="text-sm text-muted-foreground">
+          Enter a query to search {Object.values(KIND_LABELS).join(", ").toLowerCase()}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -114,6 +114,12 @@ export default async function WikiInfoPage({ params }: PageProps) {
           >
             &larr; Back to page
           </Link>
+          <Link
+            href={`/wiki/${numericId || slug}/history`}
+            className="text-blue-600 hover:underline"
+          >
+            Revision history
+          </Link>
           <span className="text-gray-400">
             {backlinks.length} backlinks
           </span>
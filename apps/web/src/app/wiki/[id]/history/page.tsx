@@ -0,0 +1,325 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { numericIdToSlug, slugToNumericId } from "@/lib/mdx";
+import { getPageById } from "@/data";
+import { fetchFromWikiServer } from "@/lib/wiki-server";
+import { diffLines, toHunks } from "@/lib/text-diff";
+import type {
+  PageRevisionListResult,
+  PageRevisionListRow,
+  PageRevisionRow,
+} from "@wiki-server/api-response-types";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+type ClaimDiffEntry = PageRevisionRow["claimDiff"]["entries"][number];
+type Claim = NonNullable<ClaimDiffEntry["newClaim"]>;
+
+const REVISION_LIMIT = 100;
+
+const ASSESSMENT_BADGE: Record<string, string> = {
+  safe: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300",
+  warn: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  block: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+const SEVERITY_BADGE: Record<string, string> = {
+  high: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  medium: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  low: "bg-muted text-muted-foreground",
+};
+
+function resolveSlug(id: string): string | null {
+  return /^E\d+$/i.test(id) ? numericIdToSlug(id.toUpperCase()) : id;
+}
+
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const slug = resolveSlug(id);
+  if (!slug) return { title: "Not Found" };
+  const title = getPageById(slug)?.title || slug;
+  return {
+    title: `History: ${title}`,
+    robots: { index: false, follow: true },
+  };
+}
+
+function ClaimText({ claim }: { claim: Claim }) {
+  return (
+    <span>
+      {claim.text}
+      {claim.keyValue && (
+        <span className="ml-1.5 rounded bg-muted px-1 py-0.5 font-mono text-[11px]">{claim.keyValue}</span>
+      )}
+    </span>
+  );
+}
+
+function ClaimDiffTable({ entries }: { entries: ClaimDiffEntry[] }) {
+  const order: Record<string, number> = { changed: 0, removed: 1, added: 2, unchanged: 3 };
+  const sorted = entries
+    .filter((e) => e.status !== "unchanged")
+    .sort((a, b) => order[a.status] - order[b.status]);
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground">No factual claims were added, removed, or changed.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-xs text-muted-foreground">
+          <th className="py-1.5 pr-3 w-20">Change</th>
+          <th className="py-1.5 pr-3">Before</th>
+          <th className="py-1.5">After</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-border/60">
+        {sorted.map((entry, i) => (
+          <tr key={i} className="align-top">
+            <td className="py-2 pr-3 text-xs font-medium capitalize">{entry.status}</td>
+            <td className="py-2 pr-3 text-red-800 dark:text-red-300">
+              {entry.oldClaim ? <ClaimText claim={entry.oldClaim} /> : <span className="text-muted-foreground">—</span>}
+            </td>
+            <td className="py-2 text-emerald-800 dark:text-emerald-300">
+              {entry.newClaim ? <ClaimText claim={entry.newClaim} /> : <span className="text-muted-foreground">—</span>}
+              {entry.changeDescription && (
+                <div className="mt-0.5 text-xs text-muted-foreground">{entry.changeDescription}</div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function TextDiff({ before, after }: { before: string; after: string }) {
+  const hunks = toHunks(diffLines(before, after));
+  if (!hunks.some((h) => h.kind === "lines")) {
+    return <p className="text-sm text-muted-foreground">The text is unchanged.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded border text-xs font-mono">
+      <table className="w-full border-collapse">
+        <tbody>
+          {hunks.map((hunk, h) =>
+            hunk.kind === "skipped" ? (
+              <tr key={h} className="bg-muted/60 text-muted-foreground">
+                <td colSpan={3} className="px-2 py-0.5 text-center">
+                  {hunk.count} unchanged line{hunk.count === 1 ? "" : "s"}
+                </td>
+              </tr>
+            ) : (
+              hunk.lines.map((line, i) => (
+                <tr
+                  key={`${h}-${i}`}
+                  className={
+                    line.type === "added"
+                      ? "bg-emerald-50 dark:bg-emerald-950/40"
+                      : line.type === "removed"
+                        ? "bg-red-50 dark:bg-red-950/40"
+                        : undefined
+                  }
+                >
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">{line.oldLine ?? ""}</td>
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">{line.newLine ?? ""}</td>
+                  <td className="whitespace-pre-wrap break-words px-2">
+                    <span className="select-none text-muted-foreground">
+                      {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                    </span>
+                    {line.text}
+                  </td>
+                </tr>
+              ))
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RevisionDetail({ revision }: { revision: PageRevisionRow }) {
+  const { claimDiff, contradictions } = revision;
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-lg font-semibold mb-1">Claim changes</h2>
+        <p className="text-xs text-muted-foreground mb-3">
+          {claimDiff.claimsBefore} claims before, {claimDiff.claimsAfter} after: {claimDiff.summary.added} added,{" "}
+          {claimDiff.summary.removed} removed, {claimDiff.summary.changed} changed, {claimDiff.summary.unchanged}{" "}
+          unchanged.
+        </p>
+        <ClaimDiffTable entries={claimDiff.entries} />
+      </section>
+
+      {contradictions.contradictions.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold mb-3">Contradictions</h2>
+          <ul className="space-y-3 text-sm">
+            {contradictions.contradictions.map((c, i) => (
+              <li key={i} className="rounded border p-3">
+                <span className={`mr-2 rounded px-1.5 py-0.5 text-[10px] font-medium ${SEVERITY_BADGE[c.severity]}`}>
+                  {c.severity}
+                </span>
+                {c.reason}
+                <div className="mt-2 grid gap-1 text-xs sm:grid-cols-2">
+                  <div>
+                    <span className="text-muted-foreground">Existing: </span>
+                    <ClaimText claim={c.existingClaim} />
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">New: </span>
+                    <ClaimText claim={c.newClaim} />
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {revision.issues && revision.issues.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold mb-2">Assessment notes</h2>
+          <ul className="list-disc pl-5 text-sm">
+            {revision.issues.map((issue, i) => (
+              <li key={i}>{issue}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Text diff</h2>
+        <TextDiff before={revision.contentBefore} after={revision.contentAfter} />
+      </section>
+    </div>
+  );
+}
+
+function RevisionList({
+  revisions,
+  selectedId,
+  basePath,
+}: {
+  revisions: PageRevisionListRow[];
+  selectedId: number | null;
+  basePath: string;
+}) {
+  return (
+    <ul className="divide-y divide-border/60 border-y border-border/60 text-sm">
+      {revisions.map((r) => (
+        <li key={r.id} className={r.id === selectedId ? "bg-muted/60" : undefined}>
+          <Link href={`${basePath}?rev=${r.id}`} className="flex flex-wrap items-center gap-x-3 gap-y-1 px-2 py-2 no-underline">
+            <span className="w-36 shrink-0 text-xs text-muted-foreground tabular-nums">{formatTimestamp(r.createdAt)}</span>
+            <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${ASSESSMENT_BADGE[r.assessment] ?? ""}`}>
+              {r.assessment}
+            </span>
+            <span className="text-foreground">
+              {r.agent}
+              {r.tier && <span className="text-muted-foreground"> ({r.tier})</span>}
+            </span>
+            <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+              <span className="text-emerald-700 dark:text-emerald-400">+{r.claimsAdded}</span>{" "}
+              <span className="text-red-700 dark:text-red-400">−{r.claimsRemoved}</span>{" "}
+              <span>~{r.claimsChanged}</span> claims
+              {r.contradictionCount > 0 && (
+                <span className="ml-2 text-amber-700 dark:text-amber-400">
+                  {r.contradictionCount} contradiction{r.contradictionCount === 1 ? "" : "s"}
+                </span>
+              )}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function PageHistoryPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const { rev } = await searchParams;
+
+  const slug = resolveSlug(id);
+  if (!slug) notFound();
+  const pageData = getPageById(slug);
+  if (!pageData) notFound();
+
+  const numericId = slugToNumericId(slug);
+  const pagePath = `/wiki/${numericId || slug}`;
+  const basePath = `${pagePath}/history`;
+
+  const list = await fetchFromWikiServer<PageRevisionListResult>(
+    `/api/page-revisions?page_id=${encodeURIComponent(slug)}&limit=${REVISION_LIMIT}`
+  );
+  const revisions = list?.revisions ?? [];
+
+  // Only revisions of this page can be selected; default to the newest
+  const requestedId = typeof rev === "string" ? parseInt(rev, 10) : NaN;
+  const selected = revisions.find((r) => r.id === requestedId) ?? revisions[0] ?? null;
+  const revision = selected
+    ? await fetchFromWikiServer<PageRevisionRow>(`/api/page-revisions/${selected.id}`)
+    : null;
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold mb-1">Revision history: {pageData.title}</h1>
+        <p className="text-muted-foreground text-sm max-w-2xl">
+          AI edits applied to this page, with the factual claims each one added, removed, or changed and any
+          contradictions with the existing text.
+        </p>
+        <div className="flex flex-wrap gap-4 text-sm mt-3">
+          <Link href={pagePath} className="text-primary hover:underline">
+            &larr; Back to page
+          </Link>
+          {numericId && (
+            <Link href={`/wiki/${numericId}/data`} className="text-muted-foreground hover:text-foreground">
+              Page data
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {list === null ? (
+        <p className="text-muted-foreground">Revision history is unavailable right now.</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-muted-foreground">No revisions have been recorded for this page yet.</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground mb-2">
+            {list.total > revisions.length
+              ? `Showing the ${revisions.length} most recent of ${list.total} revisions.`
+              : `${list.total} revision${list.total === 1 ? "" : "s"}.`}
+          </p>
+          <RevisionList revisions={revisions} selectedId={selected?.id ?? null} basePath={basePath} />
+
+          {selected && (
+            <div className="mt-8">
+              <h2 className="text-xl font-semibold mb-4">
+                {formatTimestamp(selected.createdAt)} · {selected.agent}
+                {selected.tier && ` (${selected.tier})`}
+              </h2>
+              {revision ? (
+                <RevisionDetail revision={revision} />
+              ) : (
+                <p className="text-muted-foreground">This revision could not be loaded.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
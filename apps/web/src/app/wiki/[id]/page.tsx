@@ -16,7 +16,7 @@ import { RelatedPages } from "@/components/RelatedPages";
 import { WikiSidebar, MobileSidebarTrigger } from "@/components/wiki/WikiSidebar";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { detectSidebarType, getWikiNav, isAboutPage } from "@/lib/wiki-nav";
-import { AlertTriangle, Database, Github } from "lucide-react";
+import { AlertTriangle, Database, Github, History } from "lucide-react";
 import { PageFeedback } from "@/components/wiki/PageFeedback";
 import type { Metadata } from "next";
 import {
@@ -268,6 +268,12 @@ function ContentMeta({
             Data
           </a>
         )}
+        {numId && (
+          <a href={`/wiki/${numId}/history`} className="page-meta-github">
+            <History size={14} />
+            Revisions
+          </a>
+        )}
         <PageFeedback pageTitle={pageTitle} pageSlug={slug} />
         {!isInternal && <InfoBoxToggle />}
       </div>
@@ -351,6 +351,16 @@ export function SearchDialog() {
                 </kbd>
                 Close
               </span>
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false);
+                  router.push(`/search?q=${encodeURIComponent(query.trim())}`);
+                }}
+                className="hover:text-foreground underline-offset-2 hover:underline"
+              >
+                All results →
+              </button>
             </div>
             {/* Phase 3: Sort toggle */}
             <div className="flex items-center gap-1">
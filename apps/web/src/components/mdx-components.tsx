@@ -4,6 +4,7 @@ import { ResourceLink, R } from "@/components/wiki/ResourceLink";
 import { References } from "@/components/wiki/References";
 import { FBF } from "@/components/wiki/FBF";
 import { Calc } from "@/components/wiki/Calc";
+import { CalcEstimate } from "@/components/wiki/CalcEstimate";
 import { MermaidDiagram } from "@/components/wiki/MermaidDiagram";
 import { DataInfoBox } from "@/components/wiki/DataInfoBox";
 import { Backlinks } from "@/components/wiki/Backlinks";
@@ -11,6 +12,9 @@ import { DataExternalLinks } from "@/components/wiki/DataExternalLinks";
 import { InfoBox } from "@/components/wiki/InfoBox";
 import { ExternalLinks } from "@/components/wiki/ExternalLinks";
 import { SquiggleEstimate } from "@/components/wiki/SquiggleEstimate";
+import { EstimatesChart } from "@/components/wiki/EstimatesChart";
+import { EstimateAggregate } from "@/components/wiki/EstimateAggregate";
+import { PageForecasts } from "@/components/wiki/PageForecasts";
 import { Callout } from "@/components/wiki/Callout";
 import { StarlightCard, CardGrid, LinkCard } from "@/components/wiki/StarlightCards";
 import { ComparisonTable } from "@/components/wiki/ComparisonTable";
@@ -28,6 +32,7 @@ import { FBRecordCollection } from "@/components/wiki/factbase/FBRecordCollectio
 import { FBEntitySidebar } from "@/components/wiki/factbase/FBEntitySidebar";
 import { FBRefLink } from "@/components/wiki/factbase/FBRefLink";
 import { FBCompareTable } from "@/components/wiki/factbase/FBCompareTable";
+import { FBQueryTable } from "@/components/wiki/factbase/FBQueryTable";
 
 // Table view components
 import SafetyApproachesTableView from "@/components/tables/views/SafetyApproachesTableView";
@@ -165,6 +170,12 @@ export const mdxComponents: Record<string, React.ComponentType<any>> = {
 
   // Squiggle — probabilistic estimate visualizations
   SquiggleEstimate,
+  CalcEstimate,
+
+  // Estimates — data/estimates.yaml plotted over time, with computed aggregates
+  EstimatesChart,
+  EstimateAggregate,
+  PageForecasts,
 
   // Callout — rendered from :::note, :::tip, :::caution, :::danger directives
   Callout,
@@ -197,6 +208,7 @@ export const mdxComponents: Record<string, React.ComponentType<any>> = {
   FBEntitySidebar,
   FBRefLink,
   FBCompareTable,
+  FBQueryTable,
   // Backwards compat aliases (remove after all MDX migrated)
   KBFactTable: FBFactTable,
   KBRecordTable: FBRecordTable,
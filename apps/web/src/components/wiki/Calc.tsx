@@ -1,5 +1,5 @@
 import { getKBLatest, getKBProperty } from "@data/factbase";
-import { calc, formatValue, type CalcFormat, type CalcFact } from "@/lib/calc-engine";
+import { calc, formatRange, formatValue, type CalcFormat, type CalcFact } from "@/lib/calc-engine";
 import { cn } from "@/lib/utils";
 import styles from "./tooltip.module.css";
 
@@ -19,53 +19,67 @@ interface CalcProps {
   className?: string;
 }
 
+/** Format a KB amount for the tooltip, in the fact's own unit. */
+function formatKBAmount(n: number, unit: string | undefined): string {
+  if (unit === "USD") {
+    const abs = Math.abs(n);
+    if (abs >= 1e12) return `$${(n / 1e12).toFixed(1)} trillion`;
+    if (abs >= 1e9) return `$${(n / 1e9).toFixed(1)} billion`;
+    if (abs >= 1e6) return `$${(n / 1e6).toFixed(1)} million`;
+    return `$${n.toLocaleString("en-US")}`;
+  }
+  if (unit === "percent") return `${n.toFixed(1)}%`;
+  return n.toLocaleString("en-US");
+}
+
 /**
  * Resolve a KB fact to the minimal shape needed by calc-engine.
+ *
+ * KB stores percent as whole numbers (e.g., 40 = 40%), not decimals. They are
+ * normalized to decimals for calc-engine arithmetic so that format="percent"
+ * (which multiplies by 100) produces the right result.
  */
-function kbFactLookup(entity: string, propertyId: string): CalcFact | undefined {
+export function kbFactLookup(entity: string, propertyId: string): CalcFact | undefined {
   const kbFact = getKBLatest(entity, propertyId);
   if (!kbFact) return undefined;
 
   const prop = getKBProperty(propertyId);
-  let value: string | undefined;
-  let numeric: number | undefined;
-
-  if (kbFact.value.type === "number") {
-    numeric = kbFact.value.value;
-    const unit = kbFact.value.unit ?? prop?.unit;
-    if (unit === "USD") {
-      const abs = Math.abs(numeric);
-      if (abs >= 1e12) value = `$${(numeric / 1e12).toFixed(1)} trillion`;
-      else if (abs >= 1e9) value = `$${(numeric / 1e9).toFixed(1)} billion`;
-      else if (abs >= 1e6) value = `$${(numeric / 1e6).toFixed(1)} million`;
-      else value = `$${numeric.toLocaleString("en-US")}`;
-    } else if (unit === "percent") {
-      // KB stores percent as whole numbers (e.g., 40 = 40%), not decimals.
-      // Display the whole-number form for the tooltip value string.
-      value = `${numeric.toFixed(1)}%`;
-      // Normalize to decimal for calc-engine arithmetic so that
-      // format="percent" (which multiplies by 100) produces the right result.
-      numeric = numeric / 100;
-    } else {
-      value = numeric.toLocaleString("en-US");
-    }
-  } else if (kbFact.value.type === "text") {
-    value = kbFact.value.value;
+  const v = kbFact.value;
+  if (v.type !== "number" && v.type !== "range" && v.type !== "min") {
+    return { value: v.type === "text" ? v.value : undefined, asOf: kbFact.asOf };
   }
 
-  return { value, numeric, asOf: kbFact.asOf };
+  const unit = v.unit ?? prop?.unit;
+  const scale = unit === "percent" ? 1 / 100 : 1;
+
+  if (v.type === "range") {
+    return {
+      value: `${formatKBAmount(v.low, unit)}–${formatKBAmount(v.high, unit)}`,
+      low: v.low * scale,
+      high: v.high * scale,
+      unit,
+      asOf: kbFact.asOf,
+    };
+  }
+  if (v.type === "min") {
+    return { value: `≥${formatKBAmount(v.value, unit)}`, low: v.value * scale, unit, asOf: kbFact.asOf };
+  }
+  return { value: formatKBAmount(v.value, unit), numeric: v.value * scale, unit, asOf: kbFact.asOf };
 }
 
 /**
  * Calc — Inline computed value from fact expressions.
  *
  * Evaluates a math expression referencing KB facts, renders the result
- * inline with a hover tooltip showing the formula and inputs.
+ * inline with a hover tooltip showing the formula and inputs. Range facts
+ * propagate through the expression, so the result renders as a range
+ * ("$1.2–$1.8 billion") rather than a midpoint.
  *
  * Usage in MDX (entity references use stableIds):
  *   <Calc expr="{mK9pX3rQ7n.valuation} / {mK9pX3rQ7n.revenue}" precision={0} suffix="x" />
  *   <Calc expr="{mK9pX3rQ7n.revenue-run-rate} * 2.5" format="currency" />
  *   <Calc expr="{mK9pX3rQ7n.gross-margin}" format="percent" />
+ *   <Calc expr="cagr({mK9pX3rQ7n.revenue-2023}, {mK9pX3rQ7n.revenue})" format="percent" />
  */
 export function Calc({
   expr,
@@ -110,7 +124,8 @@ export function Calc({
             {result.display}
           </span>
           <span className="block text-blue-500 text-[10px] font-medium mb-1">
-            Calculated
+            Calculated{result.low !== result.high && " · range from uncertain inputs"}
+            {result.unit && result.unit !== "dimensionless" && ` · ${result.unit}`}
           </span>
           <span className="block text-muted-foreground font-mono text-[10px] mb-1.5">
             {formulaDisplay}
@@ -121,7 +136,12 @@ export function Calc({
                 <span key={input.ref} className="block text-muted-foreground mt-0.5">
                   <span className="font-mono text-[10px]">{input.ref}</span>
                   <span className="mx-1">=</span>
-                  <span>{input.value || formatValue(input.numeric)}</span>
+                  <span>
+                    {input.value ||
+                      (input.low != null
+                        ? formatRange(input.low, input.high ?? Infinity)
+                        : formatValue(input.numeric))}
+                  </span>
                   {input.asOf && (
                     <span className="text-muted-foreground/60 ml-1">
                       ({input.asOf})
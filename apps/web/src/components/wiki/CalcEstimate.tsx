@@ -0,0 +1,35 @@
+import { calc, samplesToSquiggle } from "@/lib/calc-engine";
+import { kbFactLookup } from "./Calc";
+import { SquiggleEstimate } from "./SquiggleEstimate";
+
+interface CalcEstimateProps {
+  /** Calc expression with {entity.propertyId} references, as for <Calc> */
+  expr: string;
+  /** Title displayed above the chart (defaults to the expression) */
+  title?: string;
+  /** Number of Monte Carlo samples (default 1000) */
+  samples?: number;
+}
+
+/**
+ * CalcEstimate — Distribution of a Calc expression over uncertain KB facts.
+ *
+ * Samples every range input uniformly, evaluates the expression per sample
+ * on the server, and hands the sample set to <SquiggleEstimate> to plot.
+ *
+ * Usage in MDX:
+ *   <CalcEstimate expr="{mK9pX3rQ7n.valuation} / {mK9pX3rQ7n.revenue}" title="Revenue multiple" />
+ */
+export function CalcEstimate({ expr, title, samples = 1000 }: CalcEstimateProps) {
+  try {
+    const result = calc(expr, kbFactLookup, { samples });
+    return <SquiggleEstimate title={title ?? expr} code={samplesToSquiggle(result.samples ?? [])} />;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm my-4">
+        CalcEstimate: {message}
+      </div>
+    );
+  }
+}
@@ -1,12 +1,24 @@
 "use client";
 
-import { CheckCircle2, AlertTriangle, XCircle, ShieldCheck } from "lucide-react";
+import { CheckCircle2, AlertTriangle, XCircle, ShieldCheck, History } from "lucide-react";
 import type { CitationHealthSummary } from "@/lib/citation-data";
 
 interface CitationHealthBannerProps {
   health: CitationHealthSummary;
 }
 
+function formatDate(iso: string): string {
+  try {
+    return new Date(iso).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  } catch {
+    return iso;
+  }
+}
+
 /**
  * Page-level banner showing aggregate citation verification health.
  * Displayed below the ContentConfidenceBanner for pages with verified citations.
@@ -18,8 +30,9 @@ export function CitationHealthBanner({ health }: CitationHealthBannerProps) {
   const problems = health.inaccurate + health.unsupported;
   const goodCount = health.accurate + health.minorIssues + health.verified;
 
-  // Determine banner style based on health
-  const hasProblems = problems > 0;
+  // Determine banner style based on health; a changed source means the
+  // quote may no longer back the claim, so it counts against the page too
+  const hasProblems = problems > 0 || health.sourceChanged > 0;
   const allGood = checked > 0 && problems === 0;
 
   const borderColor = hasProblems
@@ -58,6 +71,17 @@ export function CitationHealthBanner({ health }: CitationHealthBannerProps) {
               {problems} flagged
             </span>
           )}
+          {health.sourceChanged > 0 && (
+            <span
+              className="inline-flex items-center gap-1 mr-2"
+              title={`Source content changed and the quoted text is no longer found${
+                health.sourceChangedLatest ? ` (detected ${formatDate(health.sourceChangedLatest)})` : ""
+              }`}
+            >
+              <History className="w-3 h-3 text-amber-500" />
+              {health.sourceChanged} citation{health.sourceChanged === 1 ? "" : "s"} with changed source
+            </span>
+          )}
           {health.unchecked > 0 && (
             <span className="opacity-60">
               {health.unchecked} unchecked
@@ -3,6 +3,7 @@ import { cn } from "@lib/utils";
 import { getCruxById } from "@data";
 import type { CruxPosition } from "@data";
 import { isSafeUrl } from "./resource-utils";
+import { CruxHolders } from "./CruxHolders";
 
 interface CruxProps {
   id?: string;
@@ -102,7 +103,7 @@ export function Crux(props: CruxProps) {
               </div>
               {pos.holders && pos.holders.length > 0 && (
                 <div className="text-[10px] text-muted-foreground mt-0.5">
-                  Held by: {pos.holders.join(", ")}
+                  Held by: <CruxHolders holders={pos.holders} />
                 </div>
               )}
               {pos.implications && (
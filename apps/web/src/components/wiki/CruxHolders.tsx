@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { resolveCruxHolder } from "@data";
+import type { CruxHolder } from "@data";
+
+/**
+ * Comma-separated holder names. Holders that resolve to an entity link to
+ * its profile, with their dated stance in the tooltip.
+ */
+export function CruxHolders({ holders }: { holders: CruxHolder[] }) {
+  return (
+    <>
+      {holders.map((holder, i) => {
+        const resolved = resolveCruxHolder(holder);
+        const tooltip = [resolved.stance, resolved.date].filter(Boolean).join(" — ") || undefined;
+        return (
+          <span key={i}>
+            {i > 0 && ", "}
+            {resolved.href ? (
+              <Link href={resolved.href} title={tooltip} className="text-primary hover:underline">
+                {resolved.name}
+              </Link>
+            ) : (
+              <span title={tooltip}>{resolved.name}</span>
+            )}
+          </span>
+        );
+      })}
+    </>
+  );
+}
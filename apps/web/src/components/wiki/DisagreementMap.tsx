@@ -1,5 +1,9 @@
 import React from "react";
+import Link from "next/link";
 import { cn } from "@lib/utils";
+import { getEntityHref, resolveCruxHolder } from "@data";
+import type { CruxHolder } from "@data";
+import { CruxHolders } from "./CruxHolders";
 
 /**
  * DisagreementMap — shows different positions on a contested topic.
@@ -10,6 +14,8 @@ import { cn } from "@lib/utils";
  * Schema B (~6 files): { actor|person, position, confidence, reasoning, estimate }
  *
  * Some debate pages also pass: stance, evidence, quote.
+ * `entity` links the label to a person or organization profile, and
+ * proponents may be { entity } refs like crux holders.
  * Header is `topic` in most files, `title` in some debate pages.
  */
 
@@ -18,6 +24,7 @@ interface Position {
   name?: string;
   actor?: string;
   person?: string;
+  entity?: string;
 
   // Position text — Schema B uses `position` or `stance`
   position?: string;
@@ -35,7 +42,7 @@ interface Position {
   reasoning?: string;
 
   // Proponents list (Schema A)
-  proponents?: string[];
+  proponents?: CruxHolder[];
 
   // Extra fields from some debate pages
   evidence?: string[];
@@ -58,7 +65,9 @@ interface DisagreementMapProps {
 }
 
 function getLabel(pos: Position): string {
-  return pos.actor || pos.person || pos.name || "Unknown";
+  const named = pos.actor || pos.person || pos.name;
+  if (named) return named;
+  return pos.entity ? resolveCruxHolder({ entity: pos.entity }).name : "Unknown";
 }
 
 function getPositionText(pos: Position): string | undefined {
@@ -127,7 +136,13 @@ export function DisagreementMap({
               className={cn("rounded border-l-4 bg-muted/30 p-3", borderColor)}
             >
               <div className="flex items-baseline justify-between gap-2 mb-1">
-                <span className="font-medium text-sm">{label}</span>
+                {pos.entity ? (
+                  <Link href={getEntityHref(pos.entity)} className="font-medium text-sm text-primary hover:underline">
+                    {label}
+                  </Link>
+                ) : (
+                  <span className="font-medium text-sm">{label}</span>
+                )}
                 {posText && (
                   <span className="text-xs text-muted-foreground shrink-0">
                     {posText}
@@ -146,7 +161,7 @@ export function DisagreementMap({
               )}
               {pos.proponents && pos.proponents.length > 0 && (
                 <div className="text-[10px] text-muted-foreground mt-1">
-                  Proponents: {pos.proponents.join(", ")}
+                  Proponents: <CruxHolders holders={pos.proponents} />
                 </div>
               )}
               {pos.evidence && pos.evidence.length > 0 && (
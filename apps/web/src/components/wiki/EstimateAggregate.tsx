@@ -0,0 +1,69 @@
+/**
+ * EstimateAggregate — Inline aggregate of a variable in data/estimates.yaml.
+ *
+ * Computes the aggregate at render time, so prose like "forecasters put this
+ * at about <EstimateAggregate id="..." />" stays in step with the data.
+ *
+ * Usage in MDX:
+ *   <EstimateAggregate id="p-agi-by-2040" />
+ *   <EstimateAggregate id="p-agi-by-2040" method="median" />
+ *   <EstimateAggregate id="p-agi-by-2040" show="range" />
+ */
+
+import { getEstimateById } from "@data";
+import {
+  aggregateEstimate,
+  formatEstimateNumber,
+  formatEstimateRange,
+  AGGREGATION_LABELS,
+  type AggregationMethod,
+} from "@/lib/estimates";
+import { cn } from "@/lib/utils";
+
+interface EstimateAggregateProps {
+  /** Variable ID in data/estimates.yaml */
+  id: string;
+  /** Aggregation method (default: geometric mean of odds for probabilities, median otherwise) */
+  method?: AggregationMethod;
+  /** Half-life in years for method="recency" */
+  halfLifeYears?: number;
+  /** Render the aggregate value (default) or the range across sources */
+  show?: "value" | "range";
+  className?: string;
+}
+
+export function EstimateAggregate({
+  id,
+  method,
+  halfLifeYears,
+  show = "value",
+  className,
+}: EstimateAggregateProps) {
+  const estimate = getEstimateById(id);
+  const aggregate = estimate ? aggregateEstimate(estimate, method, { halfLifeYears }) : null;
+
+  if (!estimate || !aggregate) {
+    return (
+      <span
+        className={cn("inline px-1 py-0.5 bg-destructive/10 text-destructive text-sm rounded", className)}
+        title={estimate ? `No numeric estimates for ${id}` : `Unknown estimate: ${id}`}
+      >
+        [missing: {id}]
+      </span>
+    );
+  }
+
+  const display = show === "range"
+    ? formatEstimateRange(aggregate.range, aggregate.unit)
+    : formatEstimateNumber(aggregate.value, aggregate.unit);
+
+  return (
+    <span
+      className={cn("inline font-medium border-b border-dotted border-blue-400/50 cursor-help", className)}
+      title={`${estimate.variable}: ${AGGREGATION_LABELS[aggregate.method]} of ${aggregate.n} estimates`}
+      data-estimate={id}
+    >
+      {display}
+    </span>
+  );
+}
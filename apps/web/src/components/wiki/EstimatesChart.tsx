@@ -0,0 +1,201 @@
+/**
+ * EstimatesChart — Estimates of one variable plotted over time.
+ *
+ * Server component that reads a variable from data/estimates.yaml, plots each
+ * dated estimate by the year it was made (points as dots, ranges and
+ * distributions as bars), and draws the computed aggregate as a dashed line.
+ * A table of all sources, including undated and qualitative ones, follows.
+ *
+ * Usage in MDX:
+ *   <EstimatesChart id="p-agi-by-2040" />
+ *   <EstimatesChart id="p-transformative-ai-by-2030" method="recency" />
+ */
+
+import Link from "next/link";
+import { getEstimateById, getEntityHref } from "@data";
+import {
+  aggregateEstimate,
+  centralValue,
+  valueBounds,
+  formatEstimateNumber,
+  formatEstimateRange,
+  AGGREGATION_LABELS,
+  type AggregationMethod,
+  type EstimateUnit,
+  type TypedEstimatePoint,
+} from "@/lib/estimates";
+import { cn } from "@/lib/utils";
+
+interface EstimatesChartProps {
+  /** Variable ID in data/estimates.yaml */
+  id: string;
+  /** Aggregation method (default: geometric mean of odds for probabilities, median otherwise) */
+  method?: AggregationMethod;
+  /** Half-life in years for method="recency" */
+  halfLifeYears?: number;
+  /** Heading override (defaults to the variable name) */
+  title?: string;
+  className?: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const MARGIN = { top: 16, right: 24, bottom: 32, left: 52 };
+
+/** Nice round tick step for a span, e.g. 0.1 for probabilities, 5 for decades. */
+function tickStep(span: number): number {
+  const raw = span / 5;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const norm = raw / mag;
+  return (norm < 1.5 ? 1 : norm < 3.5 ? 2 : norm < 7.5 ? 5 : 10) * mag;
+}
+
+function ticks(lo: number, hi: number): number[] {
+  const step = tickStep(hi - lo);
+  const out: number[] = [];
+  for (let v = Math.ceil(lo / step) * step; v <= hi + 1e-9; v += step) out.push(v);
+  return out;
+}
+
+export function EstimatesChart({ id, method, halfLifeYears, title, className }: EstimatesChartProps) {
+  const estimate = getEstimateById(id);
+
+  if (!estimate) {
+    return (
+      <div className={cn("my-4 p-3 bg-destructive/10 text-destructive text-sm rounded", className)}>
+        Unknown estimate: {id}
+      </div>
+    );
+  }
+
+  const unit = estimate.unit;
+  const aggregate = unit ? aggregateEstimate(estimate, method, { halfLifeYears }) : null;
+  const plotted = estimate.points.filter((p) => unit && p.parsed?.unit === unit && p.year !== null);
+
+  return (
+    <figure className={cn("my-6 not-prose", className)}>
+      <figcaption className="mb-2">
+        <span className="font-semibold">{title ?? estimate.variable}</span>
+        {aggregate && unit && (
+          <span className="ml-2 text-sm text-muted-foreground">
+            Aggregate {formatEstimateNumber(aggregate.value, unit)} ({AGGREGATION_LABELS[aggregate.method]} of{" "}
+            {aggregate.n}; range {formatEstimateRange(aggregate.range, unit)})
+          </span>
+        )}
+      </figcaption>
+
+      {unit && plotted.length > 0 && (
+        <Plot points={plotted} unit={unit} aggregate={aggregate?.value ?? null} />
+      )}
+
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-1 pr-3 font-medium">Source</th>
+            <th className="py-1 pr-3 font-medium">Estimate</th>
+            <th className="py-1 pr-3 font-medium">Date</th>
+            <th className="py-1 font-medium">Method</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.points.map((p, i) => (
+            <tr key={i} className="border-b border-border/50">
+              <td className="py-1 pr-3">
+                {p.sourceEntity ? <Link href={getEntityHref(p.sourceEntity)}>{p.source}</Link> : p.source}
+              </td>
+              <td className="py-1 pr-3 tabular-nums">
+                {p.url ? <a href={p.url} target="_blank" rel="noopener noreferrer">{p.raw}</a> : p.raw}
+              </td>
+              <td className="py-1 pr-3 text-muted-foreground">{p.date ?? "—"}</td>
+              <td className="py-1 text-muted-foreground">{p.method ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
+
+function Plot({
+  points,
+  unit,
+  aggregate,
+}: {
+  points: TypedEstimatePoint[];
+  unit: EstimateUnit;
+  aggregate: number | null;
+}) {
+  const years = points.map((p) => p.year!);
+  const bounds = points.map((p) => valueBounds(p.parsed!.value));
+  const xMin = Math.floor(Math.min(...years)) - 0.5;
+  const xMax = Math.ceil(Math.max(...years)) + 0.5;
+  let yMin = unit === "probability" ? 0 : Math.min(...bounds.map((b) => b[0]));
+  let yMax = unit === "probability" ? 1 : Math.max(...bounds.map((b) => b[1]));
+  if (yMin === yMax) {
+    yMin -= 1;
+    yMax += 1;
+  }
+
+  const innerW = WIDTH - MARGIN.left - MARGIN.right;
+  const innerH = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (v: number) => MARGIN.left + ((v - xMin) / (xMax - xMin)) * innerW;
+  const y = (v: number) => MARGIN.top + (1 - (v - yMin) / (yMax - yMin)) * innerH;
+
+  // Spread estimates from the same year so they don't overlap
+  const sameYear = new Map<number, number>();
+  const offsets = years.map((yr) => {
+    const k = sameYear.get(yr) ?? 0;
+    sameYear.set(yr, k + 1);
+    return k;
+  });
+  const jitter = (i: number) => (offsets[i] - (sameYear.get(years[i])! - 1) / 2) * 0.12;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto text-foreground"
+      role="img"
+      aria-label="Estimates over time"
+    >
+      {ticks(yMin, yMax).map((t) => (
+        <g key={`y${t}`}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="currentColor" strokeOpacity={0.1} />
+          <text x={MARGIN.left - 6} y={y(t)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="currentColor" fillOpacity={0.6}>
+            {formatEstimateNumber(t, unit)}
+          </text>
+        </g>
+      ))}
+      {ticks(xMin, xMax).filter(Number.isInteger).map((t) => (
+        <text key={`x${t}`} x={x(t)} y={HEIGHT - 10} textAnchor="middle" fontSize={11} fill="currentColor" fillOpacity={0.6}>
+          {t}
+        </text>
+      ))}
+
+      {aggregate !== null && (
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={y(aggregate)}
+          y2={y(aggregate)}
+          stroke="#2563eb"
+          strokeDasharray="5 4"
+          strokeWidth={1.5}
+        />
+      )}
+
+      {points.map((p, i) => {
+        const cx = x(p.year! + jitter(i));
+        const [lo, hi] = bounds[i];
+        return (
+          <g key={i}>
+            <title>{`${p.source} (${p.date}): ${p.raw}`}</title>
+            {lo !== hi && (
+              <line x1={cx} x2={cx} y1={y(lo)} y2={y(hi)} stroke="currentColor" strokeOpacity={0.5} strokeWidth={3} strokeLinecap="round" />
+            )}
+            <circle cx={cx} cy={y(centralValue(p.parsed!.value))} r={4} fill="currentColor" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * PageForecasts — Forecasting-platform questions linked to a page.
+ *
+ * Server component that reads data/page-forecasts.yaml (populated offline by
+ * `crux forecasts import`) and shows each question's current community
+ * probability with a sparkline of its history. Renders nothing when no
+ * questions are linked, so it can sit on pages before any are imported.
+ *
+ * Usage in MDX:
+ *   <PageForecasts id="bioweapons" />
+ *   <PageForecasts id="agi-timelines" limit={3} title="Market forecasts" />
+ */
+
+import { getPageForecasts } from "@data";
+import type { PageForecast } from "@data";
+import { cn } from "@/lib/utils";
+import { isSafeUrl } from "./resource-utils";
+
+interface PageForecastsProps {
+  /** Page (entity) ID in data/page-forecasts.yaml */
+  id: string;
+  /** Maximum number of questions to show (default 5) */
+  limit?: number;
+  /** Heading override */
+  title?: string;
+  className?: string;
+}
+
+const SPARK_WIDTH = 96;
+const SPARK_HEIGHT = 24;
+
+function formatProbability(p: number): string {
+  const pct = p * 100;
+  return pct > 0 && pct < 1 ? "<1%" : `${Math.round(pct)}%`;
+}
+
+/** History on a fixed 0–100% scale, so sparklines are comparable across questions. */
+function Sparkline({ history }: { history: PageForecast["history"] }) {
+  const first = Date.parse(history[0].date);
+  const span = Date.parse(history[history.length - 1].date) - first || 1;
+  const x = (date: string) => ((Date.parse(date) - first) / span) * (SPARK_WIDTH - 4) + 2;
+  const y = (p: number) => (1 - p) * (SPARK_HEIGHT - 4) + 2;
+  const last = history[history.length - 1];
+
+  return (
+    <svg
+      width={SPARK_WIDTH}
+      height={SPARK_HEIGHT}
+      viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+      className="shrink-0 text-blue-600 dark:text-blue-400"
+      aria-hidden="true"
+    >
+      <line x1={0} x2={SPARK_WIDTH} y1={y(0.5)} y2={y(0.5)} stroke="currentColor" strokeOpacity={0.15} strokeDasharray="2 2" />
+      {history.length > 1 && (
+        <polyline
+          points={history.map((h) => `${x(h.date).toFixed(1)},${y(h.probability).toFixed(1)}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      )}
+      <circle cx={history.length > 1 ? x(last.date) : SPARK_WIDTH - 2} cy={y(last.probability)} r={2} fill="currentColor" />
+    </svg>
+  );
+}
+
+export function PageForecasts({ id, limit = 5, title = "Forecasts", className }: PageForecastsProps) {
+  const forecasts = getPageForecasts(id).slice(0, limit);
+  if (forecasts.length === 0) return null;
+
+  return (
+    <div className={cn("my-6 rounded-lg border bg-card p-4 not-prose", className)}>
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-2">
+        {title}
+      </div>
+      <ul className="divide-y divide-border/50">
+        {forecasts.map((f) => {
+          const change = f.history.length > 1 ? f.current.probability - f.history[0].probability : null;
+          return (
+            <li key={f.id} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm leading-snug">
+                  {f.url && isSafeUrl(f.url) ? (
+                    <a href={f.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {f.title}
+                    </a>
+                  ) : (
+                    f.title
+                  )}
+                </div>
+                <div className="text-[11px] text-muted-foreground">
+                  {f.platform}
+                  {f.stars ? ` · ${"★".repeat(f.stars)}` : ""} · as of {f.current.date}
+                  {change !== null && Math.abs(change) >= 0.005 && (
+                    <span className={change > 0 ? "text-emerald-600" : "text-red-600"}>
+                      {" "}
+                      ({change > 0 ? "+" : "−"}
+                      {Math.round(Math.abs(change) * 100)} pts since {f.history[0].date})
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Sparkline history={f.history} />
+              <div className="w-12 text-right text-base font-semibold tabular-nums">
+                {formatProbability(f.current.probability)}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -15,6 +15,11 @@
  *   <FBCompareTable property="headcount" entities={["anthropic", "openai", "deepmind"]} />
  *   <FBCompareTable property="valuation" title="AI Lab Valuations" />
  *   <FBCompareTable property="revenue" mode="latest" />
+ *   <FBCompareTable property="grant-amount" dollarYear={2024} />
+ *
+ * With `dollarYear`, monetary values are converted to USD (offline exchange-rate
+ * table) and inflation-adjusted to that year's dollars, so grants in GBP/EUR and
+ * from different decades can be compared directly.
  */
 
 import {
@@ -33,6 +38,7 @@ import {
   getKBProperty,
   getKBEntity,
 } from "@data/factbase";
+import { toUsd } from "@longterm-wiki/factbase/conversion";
 import type { Fact, Property } from "@longterm-wiki/factbase";
 import { formatKBDate, formatKBFactValue, titleCase } from "./format";
 import { FBRefLink } from "./FBRefLink";
@@ -60,6 +66,11 @@ interface FBCompareTableProps {
    * Defaults to "auto".
    */
   mode?: CompareMode;
+  /**
+   * Show monetary values in USD at this year's prices (e.g., 2024 → "in 2024 USD").
+   * Facts that are not monetary, or whose currency has no rate table, are shown as-is.
+   */
+  dollarYear?: number;
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -69,6 +80,24 @@ function extractYear(asOf: string): string {
   return asOf.slice(0, 4);
 }
 
+/**
+ * Convert a monetary fact to USD in `dollarYear` dollars for display and
+ * sorting. Returns the fact unchanged when no conversion applies.
+ */
+function inDollarYear(fact: Fact, property: Property | undefined, dollarYear: number | undefined): Fact {
+  if (dollarYear === undefined) return fact;
+  const converted = toUsd(fact, { unit: property?.unit, dollarYear });
+  return converted ? { ...fact, value: converted.value, currency: "USD" } : fact;
+}
+
+/** Comparable numeric value for sorting (range midpoint, min bound). */
+function sortValue(fact: Fact | null | undefined): number | undefined {
+  const v = fact?.value;
+  if (v?.type === "number" || v?.type === "min") return v.value;
+  if (v?.type === "range") return (v.low + v.high) / 2;
+  return undefined;
+}
+
 /**
  * Given a fact, render its value as a React node.
  * Ref/refs values get FBRefLink; everything else gets the text formatter.
@@ -123,10 +152,12 @@ function TimeSeriesTable({
   entityRows,
   years,
   property,
+  dollarYear,
 }: {
   entityRows: Array<{ entityId: string; name: string; facts: Fact[] }>;
   years: string[];
   property: Property | undefined;
+  dollarYear?: number;
 }) {
   return (
     <Table>
@@ -164,7 +195,10 @@ function TimeSeriesTable({
                 const fact = factsByYear.get(year);
                 return (
                   <TableCell key={year} className="text-right">
-                    <FactCellValue fact={fact} property={property} />
+                    <FactCellValue
+                      fact={fact && inDollarYear(fact, property, dollarYear)}
+                      property={property}
+                    />
                   </TableCell>
                 );
               })}
@@ -184,9 +218,11 @@ function TimeSeriesTable({
 function LatestValueTable({
   entityRows,
   property,
+  dollarYear,
 }: {
   entityRows: Array<{ entityId: string; name: string; fact: Fact | null }>;
   property: Property | undefined;
+  dollarYear?: number;
 }) {
   return (
     <Table>
@@ -207,7 +243,7 @@ function LatestValueTable({
             </TableCell>
             <TableCell className="text-right font-medium">
               {fact ? (
-                <FactCellValue fact={fact} property={property} />
+                <FactCellValue fact={inDollarYear(fact, property, dollarYear)} property={property} />
               ) : (
                 <span className="text-muted-foreground text-xs">No data</span>
               )}
@@ -229,6 +265,7 @@ export function FBCompareTable({
   entities: entityFilter,
   title,
   mode = "auto",
+  dollarYear,
 }: FBCompareTableProps) {
   const prop = getKBProperty(propertyId);
   const heading = title ?? prop?.name ?? titleCase(propertyId);
@@ -309,8 +346,8 @@ export function FBCompareTable({
       }))
       .sort((a, b) => {
         // Sort by entity name if no numeric sorting possible
-        const latestA = a.facts[0];
-        const latestB = b.facts[0];
+        const latestA = a.facts[0] && inDollarYear(a.facts[0], prop, dollarYear);
+        const latestB = b.facts[0] && inDollarYear(b.facts[0], prop, dollarYear);
         if (
           latestA?.value.type === "number" &&
           latestB?.value.type === "number"
@@ -329,6 +366,7 @@ export function FBCompareTable({
             {totalEntityCount === 1 ? "entity" : "entities"}
             {" \u00b7 "}
             {years.length} {years.length === 1 ? "year" : "years"}
+            {dollarYear !== undefined && ` \u00b7 in ${dollarYear} USD`}
           </span>
         </CardHeader>
         <CardContent className="px-0 pt-0 overflow-x-auto">
@@ -336,6 +374,7 @@ export function FBCompareTable({
             entityRows={entityRows}
             years={years}
             property={prop}
+            dollarYear={dollarYear}
           />
         </CardContent>
       </Card>
@@ -353,8 +392,10 @@ export function FBCompareTable({
       fact: allFactsMap.get(entityId)?.[0] ?? null,
     }))
     .sort((a, b) => {
-      if (a.fact?.value.type === "number" && b.fact?.value.type === "number") {
-        return b.fact.value.value - a.fact.value.value;
+      const valueA = sortValue(a.fact && inDollarYear(a.fact, prop, dollarYear));
+      const valueB = sortValue(b.fact && inDollarYear(b.fact, prop, dollarYear));
+      if (valueA !== undefined && valueB !== undefined) {
+        return valueB - valueA;
       }
       // Entities with data sort before entities without
       if (a.fact && !b.fact) return -1;
@@ -382,10 +423,11 @@ export function FBCompareTable({
         <span className="text-xs text-muted-foreground">
           {entityRows.length}{" "}
           {entityRows.length === 1 ? "entity" : "entities"}
+          {dollarYear !== undefined && ` \u00b7 in ${dollarYear} USD`}
         </span>
       </CardHeader>
       <CardContent className="px-0 pt-0">
-        <LatestValueTable entityRows={entityRows} property={prop} />
+        <LatestValueTable entityRows={entityRows} property={prop} dollarYear={dollarYear} />
       </CardContent>
     </Card>
   );
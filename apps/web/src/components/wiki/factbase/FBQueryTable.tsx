@@ -0,0 +1,199 @@
+/**
+ * FBQueryTable — Table of entities matching a declarative factbase query.
+ *
+ * Server component that evaluates a QuerySpec (packages/factbase/src/query.ts)
+ * against the FactBase and renders one row per matching entity, with one
+ * column per selected property. Predicates and sort use the compact string
+ * forms accepted by `crux kb query`.
+ *
+ * Usage in MDX:
+ *   <FBQueryTable type="organization" where={["headcount>500"]} sort="-revenue" select={["revenue", "headcount"]} />
+ *   <FBQueryTable type="organization" hasRecord="investment.investor=microsoft" title="Microsoft-backed labs" />
+ *   <FBQueryTable type="person" related="employed-by:anthropic" asOf="2022-01" />
+ *   <FBQueryTable type="organization" where={["revenue?"]} aggregate="median:revenue" limit={10} />
+ */
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getKBProperty, queryFactBase } from "@data/factbase";
+import {
+  parseAggregate,
+  parsePredicate,
+  parseRecordFilter,
+  parseRelated,
+  parseSort,
+} from "@longterm-wiki/factbase/query";
+import type { Fact, Property, QuerySpec } from "@longterm-wiki/factbase";
+import { formatKBDate, formatKBFactValue, formatKBNumber, titleCase } from "./format";
+import { FBRefLink } from "./FBRefLink";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface FBQueryTableProps {
+  /** Entity type(s) to include (e.g., "organization") */
+  type?: string | string[];
+  /** Predicates on latest values, e.g. ["headcount>500", "legal-structure=PBC"] */
+  where?: string | string[];
+  /** Ref traversal "property:entity", e.g. "founded-by:dario-amodei" */
+  related?: string | string[];
+  /** Record join "schema.field=value", e.g. "investment.investor=microsoft" */
+  hasRecord?: string | string[];
+  /** Sort key: "revenue" / "+revenue" (ascending) or "-revenue" (descending) */
+  sort?: string;
+  limit?: number;
+  /** Property columns to show (defaults to the sort property) */
+  select?: string[];
+  /** Aggregate footer "op:property", e.g. "median:revenue" or "count" */
+  aggregate?: string;
+  /** Evaluate the query as of this date (YYYY, YYYY-MM, or YYYY-MM-DD) */
+  asOf?: string;
+  /** Optional heading */
+  title?: string;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Build a QuerySpec from MDX props. Throws on malformed strings. */
+function buildSpec(props: FBQueryTableProps): QuerySpec {
+  const spec: QuerySpec = {};
+  if (props.type) spec.type = props.type;
+
+  const where = toList(props.where);
+  if (where.length > 0) spec.where = where.map(parsePredicate);
+
+  const related = toList(props.related);
+  if (related.length > 0) spec.related = related.map(parseRelated);
+
+  const hasRecord = toList(props.hasRecord);
+  if (hasRecord.length > 0) spec.hasRecord = hasRecord.map(parseRecordFilter);
+
+  if (props.sort) spec.sort = parseSort(props.sort);
+  if (props.limit !== undefined) spec.limit = props.limit;
+  if (props.select) spec.select = props.select;
+  if (props.asOf) spec.asOf = props.asOf;
+
+  if (props.aggregate) spec.aggregate = parseAggregate(props.aggregate);
+
+  return spec;
+}
+
+function QueryCellValue({ fact, property }: { fact: Fact | undefined; property: Property | undefined }) {
+  if (!fact) {
+    return <span className="text-muted-foreground">{"—"}</span>;
+  }
+  const v = fact.value;
+  if (v.type === "ref") return <FBRefLink id={v.value} />;
+  if (v.type === "refs") {
+    return (
+      <span className="inline-flex flex-wrap gap-1">
+        {v.value.map((refId, i) => (
+          <span key={`${refId}-${i}`}>
+            <FBRefLink id={refId} />
+            {i < v.value.length - 1 && <span className="text-muted-foreground">,</span>}
+          </span>
+        ))}
+      </span>
+    );
+  }
+  return (
+    <span className="tabular-nums" title={fact.asOf ? `As of ${formatKBDate(fact.asOf)}` : undefined}>
+      {formatKBFactValue(fact, property?.unit, property?.display)}
+    </span>
+  );
+}
+
+// ── Main component ────────────────────────────────────────────────────────────
+
+export function FBQueryTable(props: FBQueryTableProps) {
+  let spec: QuerySpec;
+  try {
+    spec = buildSpec(props);
+  } catch (err) {
+    return (
+      <Card className="my-6">
+        <CardContent className="pt-6">
+          <p className="text-sm text-destructive">
+            FBQueryTable: {err instanceof Error ? err.message : String(err)}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const result = queryFactBase(spec);
+  const columns = spec.select ?? (spec.sort ? [spec.sort.property] : []);
+  const properties = new Map(columns.map((c) => [c, getKBProperty(c)]));
+  const heading = props.title ?? "Query results";
+
+  const aggregateText = (() => {
+    if (!result.aggregate) return undefined;
+    const { op, property, value, count } = result.aggregate;
+    if (value === null) return `${titleCase(op)}: no data`;
+    if (!property || op === "count") return `${titleCase(op)}: ${value}`;
+    const prop = getKBProperty(property);
+    const formatted = formatKBNumber(value, prop?.unit, prop?.display);
+    return `${titleCase(op)} ${prop?.name ?? property}: ${formatted} (${count} ${count === 1 ? "value" : "values"})`;
+  })();
+
+  return (
+    <Card className="my-6">
+      <CardHeader className="flex-row items-center gap-2 space-y-0 pb-4">
+        <CardTitle className="text-base">{heading}</CardTitle>
+        <span className="text-xs text-muted-foreground">
+          {result.rows.length < result.total
+            ? `${result.rows.length} of ${result.total}`
+            : result.total}{" "}
+          {result.total === 1 ? "entity" : "entities"}
+          {spec.asOf && ` · as of ${formatKBDate(spec.asOf)}`}
+        </span>
+      </CardHeader>
+      <CardContent className="px-0 pt-0 overflow-x-auto">
+        {result.rows.length === 0 ? (
+          <p className="px-6 text-sm text-muted-foreground">No matching entities.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead scope="col">Entity</TableHead>
+                {columns.map((c) => (
+                  <TableHead key={c} scope="col" className="text-right">
+                    {properties.get(c)?.name ?? titleCase(c)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map(({ entity, values }) => (
+                <TableRow key={entity.id}>
+                  <TableCell className="font-medium">
+                    <FBRefLink id={entity.id} label={entity.name} />
+                  </TableCell>
+                  {columns.map((c) => (
+                    <TableCell key={c} className="text-right">
+                      <QueryCellValue fact={values[c]} property={properties.get(c)} />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {aggregateText && (
+          <p className="px-6 pt-3 text-sm text-muted-foreground">{aggregateText}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ export { FBRecordCollection } from "./FBRecordCollection";
 export { FBEntitySidebar } from "./FBEntitySidebar";
 export { FBRefLink } from "./FBRefLink";
 export { FBAutoFacts } from "./FBAutoFacts";
+export { FBQueryTable } from "./FBQueryTable";
 
 // Backwards compatibility aliases — remove after Phase 2 MDX migration
 export { FBFactTable as KBFactTable } from "./FBFactTable";
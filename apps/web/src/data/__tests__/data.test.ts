@@ -259,6 +259,37 @@ const mockDatabase = {
       category: "internal",
     },
   ],
+  cruxes: [
+    {
+      id: "test-crux",
+      question: "Is the test crux resolvable?",
+      positions: [
+        {
+          view: "Yes",
+          holders: [{ entity: "researcher-1", date: "2024-03", source: "Test Paper" }, "Some researchers"],
+        },
+        { view: "No", holders: ["Skeptics"] },
+      ],
+    },
+  ],
+  pageForecasts: {
+    questions: {
+      "metaculus-1": {
+        platform: "Metaculus",
+        title: "Test question?",
+        history: [
+          { date: "2024-01-01", probability: 0.2 },
+          { date: "2025-01-01", probability: 0.35 },
+        ],
+      },
+    },
+    pages: {
+      "test-entity": [
+        { id: "metaculus-1", relevance: 0.9, discoveredVia: "entity" },
+        { id: "missing-question", relevance: 0.5, discoveredVia: "tag" },
+      ],
+    },
+  },
   stats: {},
 };
 
@@ -508,4 +539,38 @@ describe("Data Layer", () => {
       expect(health).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe("crux holders", () => {
+    it("resolves entity refs to titles and profile links", async () => {
+      const { resolveCruxHolder } = await import("../../data/index");
+      const holder = resolveCruxHolder({ entity: "researcher-1", date: "2024-03" });
+      expect(holder.name).toBe("Dr. Test");
+      expect(holder.entityId).toBe("researcher-1");
+      expect(holder.href).toBe("/wiki/E3");
+      expect(holder.date).toBe("2024-03");
+      expect(resolveCruxHolder("Skeptics")).toEqual({ name: "Skeptics" });
+    });
+
+    it("finds stances held by an entity", async () => {
+      const { getCruxStancesForEntity } = await import("../../data/index");
+      const stances = getCruxStancesForEntity("researcher-1");
+      expect(stances).toHaveLength(1);
+      expect(stances[0].crux.id).toBe("test-crux");
+      expect(stances[0].position.view).toBe("Yes");
+      expect(stances[0].holder.source).toBe("Test Paper");
+      expect(getCruxStancesForEntity("other-entity")).toEqual([]);
+    });
+  });
+
+  describe("getPageForecasts", () => {
+    it("joins page links to questions with the latest reading", async () => {
+      const { getPageForecasts } = await import("../../data/index");
+      const forecasts = getPageForecasts("test-entity");
+      expect(forecasts).toHaveLength(1);
+      expect(forecasts[0].title).toBe("Test question?");
+      expect(forecasts[0].relevance).toBe(0.9);
+      expect(forecasts[0].current).toEqual({ date: "2025-01-01", probability: 0.35 });
+      expect(getPageForecasts("other-entity")).toEqual([]);
+    });
+  });
+});
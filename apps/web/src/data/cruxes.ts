@@ -2,8 +2,9 @@
  * Crux data lookups.
  */
 
-import { getDatabase } from "./tablebase";
-import type { CruxData } from "./tablebase";
+import { getDatabase, getTypedEntityById, resolveId } from "./tablebase";
+import type { CruxData, CruxHolder, CruxPosition } from "./tablebase";
+import { getEntityHref } from "./entity-nav";
 
 let _cruxIndex: Map<string, CruxData> | null = null;
 
@@ -28,3 +29,52 @@ export function getCruxesByDomain(domain: string): CruxData[] {
     (c) => c.domain?.toLowerCase() === domain.toLowerCase()
   );
 }
+
+// ============================================================================
+// HOLDERS
+// ============================================================================
+
+/** A crux holder ready for display: plain strings have no entity or href. */
+export interface ResolvedCruxHolder {
+  name: string;
+  entityId?: string;
+  href?: string;
+  stance?: string;
+  date?: string;
+  quote?: string;
+  source?: string;
+  sourceUrl?: string;
+}
+
+export function resolveCruxHolder(holder: CruxHolder): ResolvedCruxHolder {
+  if (typeof holder === "string") return { name: holder };
+  const { entity, ...rest } = holder;
+  const typed = getTypedEntityById(entity);
+  return {
+    ...rest,
+    name: typed?.title ?? entity,
+    entityId: entity,
+    href: typed ? getEntityHref(entity) : undefined,
+  };
+}
+
+export interface CruxStance {
+  crux: CruxData;
+  position: CruxPosition;
+  holder: ResolvedCruxHolder;
+}
+
+/** Crux positions held by a person or organization, in crux file order. */
+export function getCruxStancesForEntity(entityId: string): CruxStance[] {
+  const target = resolveId(entityId);
+  const stances: CruxStance[] = [];
+  for (const crux of getCruxes()) {
+    for (const position of crux.positions ?? []) {
+      for (const holder of position.holders ?? []) {
+        if (typeof holder === "string" || resolveId(holder.entity) !== target) continue;
+        stances.push({ crux, position, holder: resolveCruxHolder(holder) });
+      }
+    }
+  }
+  return stances;
+}
@@ -0,0 +1,28 @@
+/**
+ * Estimate lookups — data/estimates.yaml parsed into typed estimates.
+ *
+ * Parse issues are reported by crux's YAML schema validator; here values that
+ * fail to parse are simply left out of aggregates.
+ */
+
+import { getDatabase } from "./tablebase";
+import { loadEstimate, type TypedEstimate } from "@lib/estimates";
+
+let _estimateIndex: Map<string, TypedEstimate> | null = null;
+
+function estimateIndex(): Map<string, TypedEstimate> {
+  if (_estimateIndex) return _estimateIndex;
+  const db = getDatabase();
+  _estimateIndex = new Map(
+    (db.estimates || []).map((raw) => [raw.id, loadEstimate(raw).estimate])
+  );
+  return _estimateIndex;
+}
+
+export function getEstimateById(id: string): TypedEstimate | undefined {
+  return estimateIndex().get(id);
+}
+
+export function getEstimates(): TypedEstimate[] {
+  return [...estimateIndex().values()];
+}
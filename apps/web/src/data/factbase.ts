@@ -13,7 +13,9 @@ import fs from "fs";
 import path from "path";
 import { getDatabase } from "@data";
 import type { Fact, Property, Entity, RecordEntry, RecordSchema } from "@longterm-wiki/factbase";
-import type { SerializedKB } from "@longterm-wiki/factbase";
+import type { SerializedKB, Graph, QuerySpec, QueryResult } from "@longterm-wiki/factbase";
+import { runQuery } from "@longterm-wiki/factbase/query";
+import { deserialize } from "@longterm-wiki/factbase/serialize";
 
 const LOCAL_DATA_DIR = path.resolve(process.cwd(), "src/data");
 
@@ -235,6 +237,34 @@ export function getFactBaseFactVerification(factId: string): FactBaseVerdict | u
   }
 }
 
+/**
+ * Date (YYYY-MM-DD) a FactBase fact was added to the wiki, from the commit
+ * that introduced it. Undefined when the build had no git history for it.
+ */
+export function getFactBaseFactAddedDate(factId: string): string | undefined {
+  try {
+    return getDatabase().kbChangeDates?.facts[factId];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Date (YYYY-MM-DD) a FactBase record was added to the wiki: the commit that
+ * introduced it for YAML records, createdAt for PG-backed ones.
+ */
+export function getFactBaseRecordAddedDate(
+  entityId: string,
+  collection: string,
+  key: string,
+): string | undefined {
+  try {
+    return getDatabase().kbChangeDates?.records[`${entityId}:${collection}:${key}`];
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Get the latest fact for a given property across all entities.
  * Returns a map of entityId → latest Fact for entities that have the property.
@@ -486,6 +516,23 @@ export function getAllFactBaseRecordEntries(): Array<{
   return results;
 }
 
+// ── Declarative queries ──────────────────────────────────────────
+
+/** Lazy-initialized Graph rebuilt from factbase-data.json for runQuery(). */
+let factbaseGraph: Graph | undefined;
+
+/**
+ * Run a declarative QuerySpec (see packages/factbase/src/query.ts) against
+ * the FactBase. Slugs in the spec and in record endpoints are resolved via
+ * the slug map. Returns an empty result when FactBase data is unavailable.
+ */
+export function queryFactBase(spec: QuerySpec): QueryResult {
+  const fb = getFactBase();
+  if (!fb) return { rows: [], total: 0 };
+  factbaseGraph ??= deserialize(fb);
+  return runQuery(factbaseGraph, spec, { resolveId: resolveFactBaseSlug });
+}
+
 // ── Slug resolution (public) ─────────────────────────────────────
 
 /**
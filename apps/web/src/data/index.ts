@@ -10,6 +10,8 @@
  *  - page-coverage.ts   — coverage scores, citation health
  *  - hallucination-risk.ts — risk stats, citation quotes/dots
  *  - cruxes.ts          — crux lookups
+ *  - estimates.ts       — typed estimate lookups
+ *  - page-forecasts.ts  — forecast questions linked to pages
  *  - infobox.ts         — entity infobox data
  *  - external-links.ts  — external links YAML
  *  - explore.ts         — explore/browse items
@@ -22,6 +24,8 @@ export * from "./page-changes";
 export * from "./page-coverage";
 export * from "./hallucination-risk";
 export * from "./cruxes";
+export * from "./estimates";
+export * from "./page-forecasts";
 export * from "./infobox";
 export * from "./external-links";
 export * from "./explore";
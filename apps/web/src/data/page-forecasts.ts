@@ -0,0 +1,29 @@
+/**
+ * Page forecast lookups — data/page-forecasts.yaml, written by
+ * `crux forecasts import` from platform snapshot files.
+ */
+
+import { getDatabase } from "./tablebase";
+import type { ForecastReading, PageForecastLink } from "./schema";
+
+export interface PageForecast extends PageForecastLink {
+  platform: string;
+  title: string;
+  url?: string;
+  stars?: number;
+  /** Oldest first, one reading per day */
+  history: ForecastReading[];
+  /** Most recent reading */
+  current: ForecastReading;
+}
+
+/** Forecast questions linked to a page, most relevant first. */
+export function getPageForecasts(pageId: string): PageForecast[] {
+  const data = getDatabase().pageForecasts;
+  if (!data) return [];
+  return (data.pages[pageId] ?? []).flatMap((link) => {
+    const question = data.questions[link.id];
+    if (!question || question.history.length === 0) return [];
+    return [{ ...link, ...question, current: question.history[question.history.length - 1] }];
+  });
+}
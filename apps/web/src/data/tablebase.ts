@@ -22,6 +22,8 @@ import {
   isPolicy,
 } from "./entity-schemas";
 import type { ValidSubcategory } from "./valid-subcategories";
+import type { RawEstimate } from "@lib/estimates";
+import type { PageForecastsFile } from "./schema";
 
 // Re-export for consumers
 export type { WithSource };
@@ -100,10 +102,23 @@ export interface RelatedGraphEntry {
   label?: string;
 }
 
+/** A crux holder that resolves to a person or organization entity. */
+export interface CruxHolderRef {
+  entity: string;
+  stance?: string;
+  date?: string;
+  quote?: string;
+  source?: string;
+  sourceUrl?: string;
+}
+
+/** Plain strings name groups without an entity ("Some ML researchers"). */
+export type CruxHolder = string | CruxHolderRef;
+
 export interface CruxPosition {
   view: string;
   probability?: string;
-  holders?: string[];
+  holders?: CruxHolder[];
   implications?: string;
 }
 
@@ -395,6 +410,10 @@ interface TableBaseShape {
   experts: Expert[];
   organizations: Organization[];
   cruxes: CruxData[];
+  /** data/estimates.yaml, unparsed — see estimates.ts for the typed form */
+  estimates?: RawEstimate[];
+  /** data/page-forecasts.yaml — see page-forecasts.ts */
+  pageForecasts?: PageForecastsFile;
   prItems: Record<string, unknown>[];
   backlinks: Record<string, BacklinkEntry[]>;
   relatedGraph: Record<string, RelatedGraphEntry[]>;
@@ -448,9 +467,13 @@ interface TableBaseShape {
     accuracySupportingQuotes: string | null;
     verificationDifficulty: string | null;
     accuracyCheckedAt: string | null;
+    /** Latest drift detection where the quote was no longer found, if not re-verified since */
+    sourceChangedAt?: string | null;
   }>>;
   /** KB fact verification status: factId → verdict (from citation quotes cross-reference) */
   kbFactVerification?: Record<string, string>;
+  /** When each KB fact/record was added to the wiki (git or PG createdAt): factId / "entityId:collection:key" → YYYY-MM-DD */
+  kbChangeDates?: { facts: Record<string, string>; records: Record<string, string> };
   /** People-to-publications mapping from literature.yaml (generated by crux people link-resources) */
   peopleResources?: PersonPublication[];
   /** Benchmark results from PG, keyed by model entity ID → array of scores */
@@ -1,7 +1,9 @@
 import { describe, it, expect } from "vitest";
 import {
   calc,
+  formatRange,
   formatValue,
+  samplesToSquiggle,
   type CalcFormat,
   type CalcFact,
   type FactLookup,
@@ -514,3 +516,230 @@ describe("calc — scientific notation and edge cases", () => {
     expect(result.value).toBe(7);
   });
 });
+
+// ────────────────────────────────────────────────────────────
+// Built-in functions
+// ────────────────────────────────────────────────────────────
+
+const typedFacts: Record<string, CalcFact> = {
+  "lab.revenue-2023": { value: "$1 billion", numeric: 1e9, unit: "USD", asOf: "2023-01" },
+  "lab.revenue": { value: "$4 billion", numeric: 4e9, unit: "USD", asOf: "2025-01" },
+  "lab.revenue-range": { value: "$1.2–$1.8 billion", low: 1.2e9, high: 1.8e9, unit: "USD", asOf: "2025" },
+  "lab.employees": { value: "1,000", numeric: 1000, unit: "employees", asOf: "2025" },
+  "lab.headcount-min": { value: "≥500", low: 500, unit: "employees", asOf: "2024" },
+  "lab.margin": { value: "40%", numeric: 0.4, unit: "percent", asOf: "2025" },
+  "lab.models": { value: "12", numeric: 12, unit: "count", asOf: "2025" },
+  "lab.undated": { value: "7", numeric: 7 },
+};
+
+function typedLookup(entity: string, factId: string): CalcFact | undefined {
+  return typedFacts[`${entity}.${factId}`];
+}
+
+describe("calc — functions", () => {
+  it("min and max take any number of arguments", () => {
+    expect(calc("min(3, 1, 2)", typedLookup).value).toBe(1);
+    expect(calc("max(3, 1, 2)", typedLookup).value).toBe(3);
+  });
+
+  it("round rounds to the given digits", () => {
+    expect(calc("round(3.14159)", typedLookup).value).toBe(3);
+    expect(calc("round(3.14159, 2)", typedLookup).value).toBe(3.14);
+  });
+
+  it("log is natural by default and accepts a base", () => {
+    expect(calc("log(1)", typedLookup).value).toBe(0);
+    expect(calc("log(1000, 10)", typedLookup).value).toBeCloseTo(3);
+  });
+
+  it("growth computes relative change", () => {
+    const result = calc("growth({lab.revenue-2023}, {lab.revenue})", typedLookup);
+    expect(result.value).toBe(3);
+    expect(result.unit).toBe("dimensionless");
+  });
+
+  it("cagr derives the period from asOf dates", () => {
+    const result = calc("cagr({lab.revenue-2023}, {lab.revenue})", typedLookup);
+    expect(result.value).toBeCloseTo(1); // 4x over 2 years = 100%/yr
+  });
+
+  it("cagr accepts an explicit period", () => {
+    expect(calc("cagr(100, 400, 4)", typedLookup).value).toBeCloseTo(Math.SQRT2 - 1);
+  });
+
+  it("yearsBetween returns the difference between asOf dates", () => {
+    const result = calc("yearsBetween({lab.revenue-2023}, {lab.revenue})", typedLookup);
+    expect(result.value).toBe(2);
+    expect(result.unit).toBe("year");
+  });
+
+  it("functions compose with arithmetic", () => {
+    expect(calc("2 * max(1, 2) + round(0.4)", typedLookup).value).toBe(4);
+  });
+
+  it("throws on unknown functions", () => {
+    expect(() => calc("sqrt(4)", typedLookup)).toThrow('Unknown function "sqrt"');
+  });
+
+  it("throws on wrong argument counts", () => {
+    expect(() => calc("growth(1)", typedLookup)).toThrow("growth() expects 2 arguments, got 1");
+    expect(() => calc("min()", typedLookup)).toThrow("min() expects at least 1 argument");
+  });
+
+  it("needs fact references with asOf dates for date arithmetic", () => {
+    expect(() => calc("yearsBetween(1, 2)", typedLookup)).toThrow("needs fact references");
+    expect(() => calc("yearsBetween({lab.undated}, {lab.revenue})", typedLookup)).toThrow(
+      "has no asOf date"
+    );
+  });
+
+  it("rejects log of non-positive values", () => {
+    expect(() => calc("log(0)", typedLookup)).toThrow("must be positive");
+  });
+});
+
+// ────────────────────────────────────────────────────────────
+// Units
+// ────────────────────────────────────────────────────────────
+
+describe("calc — units", () => {
+  it("refuses to add USD to headcount", () => {
+    expect(() => calc("{lab.revenue} + {lab.employees}", typedLookup)).toThrow(
+      "Cannot add USD and employees"
+    );
+  });
+
+  it("derives units through multiplication and division", () => {
+    expect(calc("{lab.revenue} / {lab.employees}", typedLookup).unit).toBe("USD/employees");
+    expect(calc("{lab.revenue} / {lab.revenue-2023}", typedLookup).unit).toBe("dimensionless");
+  });
+
+  it("treats percent facts as dimensionless", () => {
+    expect(calc("{lab.revenue} * {lab.margin}", typedLookup).unit).toBe("USD");
+    expect(() => calc("{lab.revenue} + {lab.margin}", typedLookup)).toThrow(
+      "Cannot add USD and dimensionless"
+    );
+  });
+
+  it("lets literals and generic counts mix with any unit", () => {
+    expect(calc("{lab.employees} + 10", typedLookup).unit).toBe("employees");
+    expect(calc("{lab.employees} + {lab.models}", typedLookup).unit).toBe("employees");
+    expect(calc("{lab.models} * 2", typedLookup).unit).toBeUndefined();
+  });
+
+  it("checks units in functions", () => {
+    expect(() => calc("max({lab.revenue}, {lab.employees})", typedLookup)).toThrow(
+      "Cannot compare USD and employees"
+    );
+    expect(() => calc("log({lab.revenue})", typedLookup)).toThrow("log() expects a unitless value");
+  });
+
+  it("formats USD results as currency by default", () => {
+    expect(calc("{lab.revenue} * 2", typedLookup).display).toBe("$8.0 billion");
+    expect(calc("{lab.revenue} * 2", typedLookup, { format: "number" }).display).toBe(
+      "8,000,000,000"
+    );
+  });
+});
+
+// ────────────────────────────────────────────────────────────
+// Uncertainty propagation
+// ────────────────────────────────────────────────────────────
+
+describe("calc — intervals", () => {
+  it("renders range facts as a range instead of the midpoint", () => {
+    const result = calc("{lab.revenue-range}", typedLookup);
+    expect(result.display).toBe("$1.2–$1.8 billion");
+    expect(result.low).toBe(1.2e9);
+    expect(result.high).toBe(1.8e9);
+    expect(result.value).toBe(1.5e9);
+  });
+
+  it("propagates ranges through arithmetic", () => {
+    const result = calc("{lab.revenue-range} / {lab.employees}", typedLookup);
+    expect(result.low).toBe(1.2e6);
+    expect(result.high).toBe(1.8e6);
+  });
+
+  it("widens correctly under subtraction", () => {
+    const result = calc("{lab.revenue} - {lab.revenue-range}", typedLookup);
+    expect(result.low).toBe(2.2e9);
+    expect(result.high).toBe(2.8e9);
+  });
+
+  it("propagates ranges through functions", () => {
+    const result = calc("growth({lab.revenue-2023}, {lab.revenue-range})", typedLookup);
+    expect(result.low).toBeCloseTo(0.2);
+    expect(result.high).toBeCloseTo(0.8);
+    expect(calc("growth({lab.revenue-2023}, {lab.revenue-range})", typedLookup, { format: "percent" }).display).toBe(
+      "20–80%"
+    );
+  });
+
+  it("keeps lower-bound facts open-ended", () => {
+    const result = calc("{lab.headcount-min} * 2", typedLookup);
+    expect(result.low).toBe(1000);
+    expect(result.high).toBe(Infinity);
+    expect(result.display).toBe("≥1,000");
+  });
+
+  it("rejects division by a range that spans zero", () => {
+    const spanning: FactLookup = () => ({ low: -1, high: 1 });
+    expect(() => calc("1 / {a.b}", spanning)).toThrow("Division by zero");
+  });
+
+  it("records input bounds for provenance", () => {
+    const result = calc("{lab.revenue-range} / {lab.employees}", typedLookup);
+    expect(result.inputs[0]).toMatchObject({ low: 1.2e9, high: 1.8e9, unit: "USD" });
+    expect(result.inputs[1]).not.toHaveProperty("low");
+  });
+});
+
+describe("calc — Monte Carlo samples", () => {
+  it("samples within the interval bounds", () => {
+    const result = calc("{lab.revenue-range} / {lab.employees}", typedLookup, { samples: 200 });
+    expect(result.samples).toHaveLength(200);
+    for (const s of result.samples!) {
+      expect(s).toBeGreaterThanOrEqual(1.2e6);
+      expect(s).toBeLessThanOrEqual(1.8e6);
+    }
+  });
+
+  it("is deterministic for a seed", () => {
+    const a = calc("{lab.revenue-range} * 2", typedLookup, { samples: 10, seed: 3 });
+    const b = calc("{lab.revenue-range} * 2", typedLookup, { samples: 10, seed: 3 });
+    expect(a.samples).toEqual(b.samples);
+  });
+
+  it("samples a repeated fact once per draw", () => {
+    const result = calc("{lab.revenue-range} - {lab.revenue-range}", typedLookup, { samples: 20 });
+    expect(result.samples!.every((s) => s === 0)).toBe(true);
+  });
+
+  it("omits samples unless requested", () => {
+    expect(calc("{lab.revenue-range}", typedLookup).samples).toBeUndefined();
+  });
+
+  it("converts samples to Squiggle code", () => {
+    expect(samplesToSquiggle([1, 2.123456789])).toBe("SampleSet.fromList([1, 2.12346])");
+  });
+});
+
+describe("formatRange", () => {
+  it("formats exact values like formatValue", () => {
+    expect(formatRange(5, 5, { suffix: "x" })).toBe("5x");
+  });
+
+  it("shares the scale word between bounds", () => {
+    expect(formatRange(1.2e9, 1.8e9, { format: "currency" })).toBe("$1.2–$1.8 billion");
+    expect(formatRange(1.2e6, 1.8e9)).toBe("1.2 million–1.8 billion");
+  });
+
+  it("applies prefix and suffix once", () => {
+    expect(formatRange(10, 20, { prefix: "≈", suffix: "x" })).toBe("≈10–20x");
+  });
+
+  it("formats open-ended ranges as lower bounds", () => {
+    expect(formatRange(300_000, Infinity)).toBe("≥300,000");
+  });
+});
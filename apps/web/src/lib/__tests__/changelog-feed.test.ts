@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  changeFilterQuery,
+  filterChanges,
+  parseChangeFilter,
+  sortChanges,
+  toJsonFeed,
+  toRss,
+  type ChangeFeed,
+  type ChangeItem,
+} from "../changelog-feed";
+
+const items: ChangeItem[] = [
+  {
+    id: "fact:f_1",
+    kind: "fact",
+    date: "2025-03",
+    title: "Anthropic — Revenue: $1B",
+    summary: "Previously $500M (as of Jan 2025).",
+    href: "/factbase/fact/f_1",
+    entityId: "anthropic",
+    entityName: "Anthropic",
+    category: "organizations",
+    tags: ["frontier-labs"],
+  },
+  {
+    id: "page:scheming:2025-03-10:fix",
+    kind: "page",
+    date: "2025-03-10",
+    title: "Scheming: Tighten <intro> & sources",
+    href: "/wiki/E42",
+    entityId: "scheming",
+    category: "risks",
+    tags: ["alignment"],
+  },
+  {
+    id: "record:mK9:funding-rounds:series-e",
+    kind: "record",
+    date: "2024",
+    title: "Anthropic — Funding Round: Series E",
+    href: "/organizations/anthropic",
+    entityId: "anthropic",
+    category: "organizations",
+    tags: ["frontier-labs"],
+  },
+];
+
+describe("parseChangeFilter", () => {
+  it("reads known params and drops blank or unknown values", () => {
+    expect(parseChangeFilter(new URLSearchParams("entity=anthropic&tag=Frontier-Labs&kind=bogus&category="))).toEqual({
+      entity: "anthropic",
+      tag: "frontier-labs",
+    });
+    expect(parseChangeFilter({ kind: ["fact", "page"], category: " risks " })).toEqual({
+      kind: "fact",
+      category: "risks",
+    });
+  });
+});
+
+describe("filterChanges", () => {
+  it("combines entity, category, tag, and kind", () => {
+    expect(filterChanges(items, { entity: "anthropic" }).map((i) => i.id)).toEqual([
+      "fact:f_1",
+      "record:mK9:funding-rounds:series-e",
+    ]);
+    expect(filterChanges(items, { tag: "frontier-labs", kind: "record" })).toHaveLength(1);
+    expect(filterChanges(items, { category: "risks" })[0].kind).toBe("page");
+  });
+
+  it("builds query strings in a fixed parameter order", () => {
+    expect(changeFilterQuery({ kind: "fact", entity: "anthropic" })).toBe("?entity=anthropic&kind=fact");
+    expect(changeFilterQuery({})).toBe("");
+  });
+});
+
+describe("sortChanges", () => {
+  it("orders partial dates by their first day, newest first", () => {
+    expect(sortChanges(items).map((i) => i.date)).toEqual(["2025-03-10", "2025-03", "2024"]);
+  });
+});
+
+describe("feeds", () => {
+  const feed: ChangeFeed = {
+    title: "Longterm Wiki — Changes: Anthropic",
+    description: "Page edits, fact updates, and new records on the Longterm Wiki.",
+    homeUrl: "https://example.org/changes?entity=anthropic",
+    feedUrl: "https://example.org/changes/feed.xml?entity=anthropic",
+    siteUrl: "https://example.org",
+    items: sortChanges(items),
+  };
+
+  it("serializes RSS 2.0 with escaped text and stable GUIDs", () => {
+    const xml = toRss(feed);
+    expect(xml).toContain("<title>Scheming: Tighten &lt;intro&gt; &amp; sources</title>");
+    expect(xml).toContain('<guid isPermaLink="false">fact:f_1</guid>');
+    expect(xml).toContain("<pubDate>Sat, 01 Mar 2025 00:00:00 GMT</pubDate>");
+    expect(xml).toContain("<link>https://example.org/factbase/fact/f_1</link>");
+    expect(xml).toContain("<lastBuildDate>Mon, 10 Mar 2025 00:00:00 GMT</lastBuildDate>");
+    expect(xml).toContain('href="https://example.org/changes/feed.xml?entity=anthropic"');
+  });
+
+  it("serializes JSON Feed 1.1", () => {
+    const json = toJsonFeed(feed) as { version: string; items: Array<Record<string, unknown>> };
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.items[1]).toEqual({
+      id: "fact:f_1",
+      url: "https://example.org/factbase/fact/f_1",
+      title: "Anthropic — Revenue: $1B",
+      content_text: "Previously $500M (as of Jan 2025).",
+      date_published: "2025-03-01T00:00:00.000Z",
+      tags: ["organizations", "frontier-labs"],
+    });
+  });
+});
@@ -23,6 +23,7 @@ function makeQuote(overrides: Partial<CitationQuote> = {}): CitationQuote {
     accuracySupportingQuotes: null,
     verificationDifficulty: null,
     accuracyCheckedAt: null,
+    sourceChangedAt: null,
     ...overrides,
   };
 }
@@ -38,6 +39,8 @@ describe("computeCitationHealth", () => {
       unsupported: 0,
       minorIssues: 0,
       unchecked: 0,
+      sourceChanged: 0,
+      sourceChangedLatest: null,
     });
   });
 
@@ -109,9 +112,24 @@ describe("computeCitationHealth", () => {
       minorIssues: 1,
       verified: 1,
       unchecked: 1,
+      sourceChanged: 0,
+      sourceChangedLatest: null,
     });
   });
 
+  it("counts quotes lost to source drift separately from unchecked", () => {
+    const quotes = [
+      makeQuote({ footnote: 1, sourceChangedAt: "2026-03-02T10:00:00.000Z" }),
+      makeQuote({ footnote: 2, accuracyVerdict: "accurate", sourceChangedAt: "2026-04-11T08:30:00.000Z" }),
+      makeQuote({ footnote: 3 }),
+    ];
+    const health = computeCitationHealth(quotes);
+    expect(health.sourceChanged).toBe(2);
+    expect(health.sourceChangedLatest).toBe("2026-04-11T08:30:00.000Z");
+    expect(health.unchecked).toBe(1);
+    expect(health.accurate).toBe(1);
+  });
+
   it("accuracy verdict takes precedence over quoteVerified", () => {
     const quotes = [
       makeQuote({
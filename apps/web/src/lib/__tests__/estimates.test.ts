@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseEstimateValue,
+  parseEstimateDistribution,
+  parseEstimateYear,
+  loadEstimate,
+  aggregateEstimate,
+  geometricMeanOfOdds,
+  median,
+  recencyWeightedPool,
+  formatEstimateNumber,
+  formatEstimateRange,
+  EstimateParseError,
+  type RawEstimate,
+} from "../estimates";
+
+describe("parseEstimateValue", () => {
+  it("parses probabilities as points and intervals", () => {
+    expect(parseEstimateValue("25%")).toEqual({ unit: "probability", value: { kind: "point", value: 0.25 } });
+    expect(parseEstimateValue("15-30%")).toEqual({
+      unit: "probability",
+      value: { kind: "interval", low: 0.15, high: 0.3 },
+    });
+    expect(parseEstimateValue("~10-20%")?.value).toEqual({ kind: "interval", low: 0.1, high: 0.2 });
+  });
+
+  it("ignores trailing words and parentheticals", () => {
+    expect(parseEstimateValue("16.7% (1 in 6)")?.value).toEqual({ kind: "point", value: expect.closeTo(0.167) });
+    expect(parseEstimateValue("10-20% catastrophic risk")?.unit).toBe("probability");
+    expect(parseEstimateValue(">90% P(doom)")?.value).toEqual({ kind: "interval", low: 0.9, high: 1 });
+  });
+
+  it("turns open-ended probabilities into intervals", () => {
+    expect(parseEstimateValue("80%+")?.value).toEqual({ kind: "interval", low: 0.8, high: 1 });
+    expect(parseEstimateValue("Under 5%")?.value).toEqual({ kind: "interval", low: 0, high: 0.05 });
+  });
+
+  it("recognizes years, decades, dollars, and plain numbers", () => {
+    expect(parseEstimateValue("2040")).toEqual({ unit: "year", value: { kind: "point", value: 2040 } });
+    expect(parseEstimateValue("2030s-2040s")?.value).toEqual({ kind: "interval", low: 2030, high: 2049 });
+    expect(parseEstimateValue("$5,000-15,000")).toEqual({
+      unit: "usd",
+      value: { kind: "interval", low: 5000, high: 15000 },
+    });
+    expect(parseEstimateValue("3-5 years")).toEqual({ unit: "number", value: { kind: "interval", low: 3, high: 5 } });
+  });
+
+  it("returns null for qualitative values", () => {
+    expect(parseEstimateValue("Very Hard")).toBeNull();
+    expect(parseEstimateValue("AGI by 2050+")).toBeNull();
+  });
+
+  it("rejects reversed ranges and impossible probabilities", () => {
+    expect(() => parseEstimateValue("90-10")).toThrow(EstimateParseError);
+    expect(() => parseEstimateValue("150%")).toThrow(/outside 0–100%/);
+    expect(() => parseEstimateValue(">2030")).toThrow(/explicit range/);
+  });
+});
+
+describe("parseEstimateDistribution", () => {
+  it("sorts quantiles by p", () => {
+    expect(parseEstimateDistribution({ p95: "2070", p5: 2030, p50: "2040" })).toEqual({
+      unit: "year",
+      value: {
+        kind: "distribution",
+        quantiles: [
+          { p: 0.05, value: 2030 },
+          { p: 0.5, value: 2040 },
+          { p: 0.95, value: 2070 },
+        ],
+      },
+    });
+  });
+
+  it("rejects decreasing or mixed-unit quantiles", () => {
+    expect(() => parseEstimateDistribution({ p5: "50%", p95: "10%" })).toThrow(/must not decrease/);
+    expect(() => parseEstimateDistribution({ p5: "10%", p95: "2040" })).toThrow(/expected probability/);
+  });
+});
+
+describe("parseEstimateYear", () => {
+  it("maps dates to decimal years", () => {
+    expect(parseEstimateYear("2024")).toBe(2024.5);
+    expect(parseEstimateYear("2023-2024")).toBe(2024.5);
+    expect(parseEstimateYear("2020s")).toBe(2025);
+    expect(parseEstimateYear("2024-07-01")).toBeCloseTo(2024.5, 2);
+    expect(parseEstimateYear("Ongoing")).toBeNull();
+    expect(parseEstimateYear(undefined)).toBeNull();
+  });
+});
+
+describe("aggregation functions", () => {
+  it("takes the geometric mean of odds", () => {
+    expect(geometricMeanOfOdds([0.5, 0.5])).toBeCloseTo(0.5);
+    // odds 1/9 and 9 → geometric mean 1
+    expect(geometricMeanOfOdds([0.1, 0.9])).toBeCloseTo(0.5);
+    expect(geometricMeanOfOdds([0.2, 0.2, 0.8], [1, 1, 0])).toBeCloseTo(0.2);
+  });
+
+  it("keeps 0% and 100% finite", () => {
+    expect(geometricMeanOfOdds([0, 1])).toBeCloseTo(0.5);
+  });
+
+  it("takes medians of odd and even lists", () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it("halves the weight of an estimate every half-life", () => {
+    // weights 1 (2024) and 0.5 (2021): (0.2 + 0.5 * 0.8) / 1.5
+    expect(recencyWeightedPool([0.2, 0.8], [2024, 2021], 2024, 3)).toBeCloseTo(0.4);
+  });
+});
+
+describe("loadEstimate / aggregateEstimate", () => {
+  const raw: RawEstimate = {
+    id: "p-test",
+    variable: "P(test)",
+    estimates: [
+      { source: "A", value: "10%", date: "2020" },
+      { source: "B", value: "20-40%", date: "2024" },
+      { source: "C", value: "Likely" },
+      { source: "D", value: "90-10", date: "2024" },
+      { source: "E", value: "2030" },
+    ],
+  };
+
+  it("parses values and reports bad ones", () => {
+    const { estimate, issues } = loadEstimate(raw);
+    expect(estimate.unit).toBe("probability");
+    expect(estimate.points.map((p) => p.parsed?.unit ?? null)).toEqual([
+      "probability",
+      "probability",
+      null,
+      null,
+      "year",
+    ]);
+    expect(issues).toEqual(['D: Range "90-10" has its low end above its high end']);
+  });
+
+  it("aggregates only values in the dominant unit", () => {
+    const { estimate } = loadEstimate(raw);
+    const agg = aggregateEstimate(estimate)!;
+    expect(agg.method).toBe("geo-mean-odds");
+    expect(agg.n).toBe(2);
+    expect(agg.range).toEqual([0.1, 0.4]);
+    expect(agg.value).toBeCloseTo(geometricMeanOfOdds([0.1, 0.3]));
+
+    expect(aggregateEstimate(estimate, "median")!.value).toBeCloseTo(0.2);
+    expect(aggregateEstimate(estimate, "recency", { halfLifeYears: 4 })!.value).toBeCloseTo(
+      (0.1 * 0.5 + 0.3) / 1.5
+    );
+  });
+
+  it("refuses geometric mean of odds for non-probabilities", () => {
+    const { estimate } = loadEstimate({
+      id: "years",
+      variable: "Year",
+      estimates: [{ source: "A", value: "2030" }],
+    });
+    expect(aggregateEstimate(estimate)!.method).toBe("median");
+    expect(() => aggregateEstimate(estimate, "geo-mean-odds")).toThrow(/needs probabilities/);
+  });
+
+  it("returns null when nothing is numeric", () => {
+    const { estimate } = loadEstimate({
+      id: "q",
+      variable: "Q",
+      estimates: [{ source: "A", value: "Hard" }],
+    });
+    expect(aggregateEstimate(estimate)).toBeNull();
+  });
+});
+
+describe("formatting", () => {
+  it("formats numbers and ranges by unit", () => {
+    expect(formatEstimateNumber(0.25, "probability")).toBe("25%");
+    expect(formatEstimateNumber(0.005, "probability")).toBe("0.5%");
+    expect(formatEstimateNumber(2040.4, "year")).toBe("2040");
+    expect(formatEstimateNumber(15000, "usd")).toBe("$15,000");
+    expect(formatEstimateRange([0.1, 0.35], "probability")).toBe("10–35%");
+    expect(formatEstimateRange([2030, 2049], "year")).toBe("2030–2049");
+  });
+});
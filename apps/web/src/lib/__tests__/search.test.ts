@@ -184,5 +184,41 @@ describe("search", () => {
 
       expect(results[0].snippet).toBeUndefined();
     });
+
+    it("requests hybrid mode and passes through similarity", async () => {
+      const serverResponse = {
+        results: [
+          {
+            id: "deceptive-alignment",
+            numericId: "E7",
+            title: "Deceptive Alignment",
+            description: null,
+            entityType: "risk",
+            category: "risks",
+            readerImportance: null,
+            quality: null,
+            score: 0.8,
+            snippet: null,
+            similarity: 0.62,
+          },
+        ],
+        query: "ways AI could deceive its overseers",
+        total: 1,
+        mode: "hybrid",
+      };
+
+      global.fetch = vi.fn().mockResolvedValueOnce(
+        new Response(JSON.stringify(serverResponse), { status: 200 }),
+      );
+
+      const { searchWiki } = await import("../search");
+      const results = await searchWiki("deceive overseers", 10, { mode: "hybrid" });
+
+      expect(results[0].similarity).toBe(0.62);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "/api/search?q=deceive%20overseers&limit=10&mode=hybrid",
+        expect.any(Object),
+      );
+    });
   });
 });
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, toHunks } from "../text-diff";
+
+describe("diffLines", () => {
+  it("marks identical texts as unchanged", () => {
+    const lines = diffLines("a\nb\n", "a\nb");
+    expect(lines.map((l) => l.type)).toEqual(["same", "same"]);
+  });
+
+  it("reports replaced and inserted lines with line numbers", () => {
+    const before = "# Anthropic\nFounded in 2021.\nBased in San Francisco.";
+    const after = "# Anthropic\nFounded in 2020.\nBased in San Francisco.\nAbout 1,000 employees.";
+    expect(diffLines(before, after)).toEqual([
+      { type: "same", text: "# Anthropic", oldLine: 1, newLine: 1 },
+      { type: "removed", text: "Founded in 2021.", oldLine: 2 },
+      { type: "added", text: "Founded in 2020.", newLine: 2 },
+      { type: "same", text: "Based in San Francisco.", oldLine: 3, newLine: 3 },
+      { type: "added", text: "About 1,000 employees.", newLine: 4 },
+    ]);
+  });
+
+  it("handles empty texts", () => {
+    expect(diffLines("", "x").map((l) => l.type)).toEqual(["added"]);
+    expect(diffLines("x", "").map((l) => l.type)).toEqual(["removed"]);
+  });
+});
+
+describe("toHunks", () => {
+  it("collapses unchanged runs outside the context window", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n");
+    const after = before.replace("line 10", "line ten");
+    const hunks = toHunks(diffLines(before, after), 2);
+
+    expect(hunks.map((h) => h.kind)).toEqual(["skipped", "lines", "skipped"]);
+    expect(hunks[0]).toEqual({ kind: "skipped", count: 7 });
+    expect(hunks[2]).toEqual({ kind: "skipped", count: 8 });
+    const changed = hunks[1].kind === "lines" ? hunks[1].lines : [];
+    expect(changed.map((l) => l.text)).toEqual([
+      "line 8",
+      "line 9",
+      "line 10",
+      "line ten",
+      "line 11",
+      "line 12",
+    ]);
+  });
+});
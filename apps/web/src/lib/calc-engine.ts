@@ -5,6 +5,12 @@
  * resolving values from the KB fact store.
  *
  * Recursive-descent parser for runtime use in the <Calc> MDX component.
+ * On top of arithmetic it supports:
+ * - Built-in functions: min, max, round, log, growth, cagr, yearsBetween
+ * - Units: facts carry a unit ("USD", "employees", ...) and mixing
+ *   incompatible units (adding USD to headcount) is an error
+ * - Uncertainty: range and lower-bound facts propagate as intervals, and can
+ *   be Monte Carlo sampled to feed a <SquiggleEstimate>
  */
 
 // ---------------------------------------------------------------------------
@@ -14,12 +20,23 @@
 /** Minimal fact shape needed by the calc engine. */
 export interface CalcFact {
   numeric?: number;
+  /** Bounds for range facts. Lower-bound ("min") facts set only `low`. */
+  low?: number;
+  high?: number;
+  /** Unit of the numeric value, e.g. "USD" or "employees". Percent facts are passed as decimals. */
+  unit?: string;
   value?: string;
   asOf?: string;
 }
 
 export interface CalcResult {
+  /** Point value. For uncertain results this is the interval midpoint (or the lower bound if open-ended). */
   value: number;
+  /** Bounds of the result. Equal to `value` when every input is exact; `high` is Infinity when open-ended. */
+  low: number;
+  high: number;
+  /** Unit of the result, e.g. "USD" or "USD/employees"; undefined when no input had a unit. */
+  unit?: string;
   display: string;
   inputs: Array<{
     ref: string;
@@ -27,9 +44,14 @@ export interface CalcResult {
     factId: string;
     value: string | undefined;
     numeric: number;
+    low?: number;
+    high?: number;
+    unit?: string;
     asOf: string | undefined;
   }>;
   expr: string;
+  /** Monte Carlo samples of the result, when `samples` was requested. */
+  samples?: number[];
 }
 
 export type CalcFormat = "currency" | "percent" | "number";
@@ -39,14 +61,133 @@ export interface CalcOptions {
   precision?: number;
   prefix?: string;
   suffix?: string;
+  /** Number of Monte Carlo samples to draw (uncertain inputs are sampled uniformly within their range). */
+  samples?: number;
+  /** Seed for sampling, so server and client renders agree. */
+  seed?: number;
 }
 
 // ---------------------------------------------------------------------------
-// Tokenizer + recursive-descent evaluator (no eval)
+// Units
+// ---------------------------------------------------------------------------
+
+/** Unit as exponents of base units, e.g. { USD: 1, employees: -1 } for USD per employee. */
+type Unit = Record<string, number>;
+
+/** Fact units that carry no dimension of their own (percent facts arrive as decimals). */
+const DIMENSIONLESS_UNITS = new Set(["percent", "ratio"]);
+
+/** Fact units too generic to check — treated like unitless literals. */
+const UNCHECKED_UNITS = new Set(["count", "number"]);
+
+/** Parse a fact unit. `null` means unchecked: compatible with any unit in + and -. */
+function parseUnit(unit: string | undefined): Unit | null {
+  if (!unit || UNCHECKED_UNITS.has(unit)) return null;
+  if (DIMENSIONLESS_UNITS.has(unit)) return {};
+  return { [unit]: 1 };
+}
+
+function formatUnit(unit: Unit | null): string | undefined {
+  if (unit === null) return undefined;
+  const part = ([name, exp]: [string, number]) =>
+    Math.abs(exp) === 1 ? name : `${name}^${Math.abs(exp)}`;
+  const entries = Object.entries(unit).sort(([a], [b]) => a.localeCompare(b));
+  const num = entries.filter(([, e]) => e > 0).map(part);
+  const den = entries.filter(([, e]) => e < 0).map(part);
+  if (num.length === 0 && den.length === 0) return "dimensionless";
+  return `${num.length > 0 ? num.join("·") : "1"}${den.length > 0 ? `/${den.join("·")}` : ""}`;
+}
+
+function sameUnit(a: Unit, b: Unit): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((k) => (a[k] ?? 0) === (b[k] ?? 0));
+}
+
+/** Unit shared by operands of +, -, min, max, etc. Throws if they differ. */
+function commonUnit(units: Array<Unit | null>, what: string): Unit | null {
+  let result: Unit | null = null;
+  for (const unit of units) {
+    if (unit === null) continue;
+    if (result !== null && !sameUnit(result, unit)) {
+      throw new Error(`Cannot ${what} ${formatUnit(result)} and ${formatUnit(unit)}`);
+    }
+    result = unit;
+  }
+  return result;
+}
+
+function multiplyUnits(a: Unit | null, b: Unit | null, sign: 1 | -1): Unit | null {
+  if (a === null && b === null) return null;
+  const out: Unit = { ...(a ?? {}) };
+  for (const [k, e] of Object.entries(b ?? {})) {
+    out[k] = (out[k] ?? 0) + sign * e;
+    if (out[k] === 0) delete out[k];
+  }
+  return out;
+}
+
+function isDimensionless(unit: Unit | null): boolean {
+  return unit === null || Object.keys(unit).length === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Quantities (interval arithmetic)
+// ---------------------------------------------------------------------------
+
+/** A value with bounds and a unit. Exact values have low === high. */
+interface Quantity {
+  low: number;
+  high: number;
+  unit: Unit | null;
+}
+
+function isExact(q: Quantity): boolean {
+  return q.low === q.high;
+}
+
+/**
+ * Bounds of fn over the box spanned by its interval arguments.
+ * Only valid for functions that are monotone in each argument separately
+ * (all the operators and built-ins below), whose extremes lie at corners.
+ */
+function corners(args: Quantity[], fn: (...xs: number[]) => number): [number, number] {
+  let low = Infinity;
+  let high = -Infinity;
+  const visit = (i: number, xs: number[]) => {
+    if (i === args.length) {
+      const v = fn(...xs);
+      // 0 * Infinity and Infinity - Infinity don't bound anything
+      if (!Number.isNaN(v)) {
+        low = Math.min(low, v);
+        high = Math.max(high, v);
+      }
+      return;
+    }
+    visit(i + 1, [...xs, args[i].low]);
+    if (args[i].high !== args[i].low) visit(i + 1, [...xs, args[i].high]);
+  };
+  visit(0, []);
+  return low > high ? [NaN, NaN] : [low, high];
+}
+
+function containsZero(q: Quantity): boolean {
+  return q.low <= 0 && q.high >= 0;
+}
+
+/** A plain number argument, e.g. the digits of round(). */
+function exactNumber(q: Quantity, what: string): number {
+  if (!isExact(q) || !isDimensionless(q.unit)) {
+    throw new Error(`${what} must be an exact unitless number`);
+  }
+  return q.low;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
 // ---------------------------------------------------------------------------
 
 interface Token {
-  type: "num" | "op";
+  type: "num" | "op" | "ref" | "ident";
   value: number | string;
 }
 
@@ -58,9 +199,21 @@ function tokenize(expr: string): Token[] {
       i++;
       continue;
     }
-    if ("+-*/()^".includes(expr[i])) {
+    if ("+-*/()^,".includes(expr[i])) {
       tokens.push({ type: "op", value: expr[i] });
       i++;
+    } else if (expr[i] === "{") {
+      const end = expr.indexOf("}", i);
+      if (end === -1) throw new Error(`Unclosed fact reference at position ${i}`);
+      tokens.push({ type: "ref", value: expr.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(expr[i])) {
+      let name = "";
+      while (i < expr.length && /\w/.test(expr[i])) {
+        name += expr[i];
+        i++;
+      }
+      tokens.push({ type: "ident", value: name });
     } else if (/[\d.]/.test(expr[i])) {
       let num = "";
       while (i < expr.length && /[\d.eE]/.test(expr[i])) {
@@ -84,12 +237,27 @@ function tokenize(expr: string): Token[] {
   return tokens;
 }
 
-function evaluate(tokens: Token[]): number {
+// ---------------------------------------------------------------------------
+// Parser (recursive descent → AST)
+// ---------------------------------------------------------------------------
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "ref"; ref: string }
+  | { kind: "neg"; arg: Node }
+  | { kind: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: Node; right: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+function parse(tokens: Token[]): Node {
   let pos = 0;
 
   function peek(): Token | undefined {
     return tokens[pos];
   }
+  function isOp(value: string): boolean {
+    const t = peek();
+    return t?.type === "op" && t.value === value;
+  }
   function consume(expected?: string): Token {
     const t = tokens[pos++];
     if (expected && (t?.type !== "op" || t?.value !== expected)) {
@@ -99,61 +267,78 @@ function evaluate(tokens: Token[]): number {
   }
 
   // expr = term (('+' | '-') term)*
-  function parseExpr(): number {
+  function parseExpr(): Node {
     let left = parseTerm();
-    while (peek()?.type === "op" && (peek()!.value === "+" || peek()!.value === "-")) {
-      const op = consume().value;
-      const right = parseTerm();
-      left = op === "+" ? left + right : left - right;
+    while (isOp("+") || isOp("-")) {
+      const op = consume().value as "+" | "-";
+      left = { kind: "binary", op, left, right: parseTerm() };
     }
     return left;
   }
 
   // term = power (('*' | '/') power)*
-  function parseTerm(): number {
+  function parseTerm(): Node {
     let left = parsePower();
-    while (peek()?.type === "op" && (peek()!.value === "*" || peek()!.value === "/")) {
-      const op = consume().value;
-      const right = parsePower();
-      if (op === "/") {
-        if (right === 0) throw new Error("Division by zero");
-        left = left / right;
-      } else {
-        left = left * right;
-      }
+    while (isOp("*") || isOp("/")) {
+      const op = consume().value as "*" | "/";
+      left = { kind: "binary", op, left, right: parsePower() };
     }
     return left;
   }
 
   // power = factor ('^' factor)*
-  function parsePower(): number {
+  function parsePower(): Node {
     let base = parseFactor();
-    while (peek()?.type === "op" && peek()!.value === "^") {
+    while (isOp("^")) {
       consume("^");
-      const exp = parseFactor();
-      base = Math.pow(base, exp);
+      base = { kind: "binary", op: "^", left: base, right: parseFactor() };
     }
     return base;
   }
 
-  // factor = NUMBER | '(' expr ')' | '-' factor
-  function parseFactor(): number {
+  // factor = NUMBER | REF | IDENT '(' args ')' | '(' expr ')' | '-' factor
+  function parseFactor(): Node {
     const t = peek();
     if (!t) throw new Error("Unexpected end of expression");
 
     if (t.type === "num") {
       pos++;
-      return t.value as number;
+      return { kind: "num", value: t.value as number };
     }
-    if (t.type === "op" && t.value === "(") {
+    if (t.type === "ref") {
+      pos++;
+      return { kind: "ref", ref: t.value as string };
+    }
+    if (t.type === "ident") {
+      pos++;
+      const name = t.value as string;
+      if (!FUNCTIONS[name]) throw new Error(`Unknown function "${name}"`);
       consume("(");
-      const val = parseExpr();
+      const args: Node[] = [];
+      if (!isOp(")")) {
+        args.push(parseExpr());
+        while (isOp(",")) {
+          consume(",");
+          args.push(parseExpr());
+        }
+      }
       consume(")");
-      return val;
+      const [min, max] = FUNCTIONS[name].arity;
+      if (args.length < min || args.length > max) {
+        const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+        throw new Error(`${name}() expects ${expected} argument${expected === "1" ? "" : "s"}, got ${args.length}`);
+      }
+      return { kind: "call", name, args };
     }
-    if (t.type === "op" && t.value === "-") {
+    if (isOp("(")) {
+      consume("(");
+      const node = parseExpr();
+      consume(")");
+      return node;
+    }
+    if (isOp("-")) {
       consume();
-      return -parseFactor();
+      return { kind: "neg", arg: parseFactor() };
     }
     throw new Error(`Unexpected token: ${JSON.stringify(t)}`);
   }
@@ -170,6 +355,179 @@ function evaluate(tokens: Token[]): number {
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Built-in functions
+// ---------------------------------------------------------------------------
+
+interface EvalEnv {
+  ref(ref: string): Quantity;
+  asOf(ref: string): string | undefined;
+}
+
+interface CalcFunction {
+  arity: [number, number];
+  apply(args: Quantity[], nodes: Node[], env: EvalEnv): Quantity;
+}
+
+const YEAR_UNIT: Unit = { year: 1 };
+
+/** Fractional year of an asOf date: "2025" → 2025, "2025-07" → 2025.5. */
+function asOfToYears(asOf: string): number {
+  const m = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(asOf);
+  if (!m) throw new Error(`Cannot parse asOf date "${asOf}"`);
+  const [, year, month = "01", day = "01"] = m;
+  return Number(year) + (Number(month) - 1) / 12 + (Number(day) - 1) / 365.25;
+}
+
+/** Years between the asOf dates of two fact references. */
+function yearsBetween(nodes: Node[], env: EvalEnv, fn: string): number {
+  const dates = nodes.map((node) => {
+    if (node.kind !== "ref") throw new Error(`${fn}() needs fact references to read asOf dates from`);
+    const asOf = env.asOf(node.ref);
+    if (!asOf) throw new Error(`Fact {${node.ref}} has no asOf date`);
+    return asOfToYears(asOf);
+  });
+  return dates[1] - dates[0];
+}
+
+function checkPositive(q: Quantity, what: string): void {
+  if (q.low <= 0) throw new Error(`${what} must be positive`);
+}
+
+const FUNCTIONS: Record<string, CalcFunction> = {
+  min: {
+    arity: [1, Infinity],
+    apply: (args) => ({
+      low: Math.min(...args.map((a) => a.low)),
+      high: Math.min(...args.map((a) => a.high)),
+      unit: commonUnit(args.map((a) => a.unit), "compare"),
+    }),
+  },
+  max: {
+    arity: [1, Infinity],
+    apply: (args) => ({
+      low: Math.max(...args.map((a) => a.low)),
+      high: Math.max(...args.map((a) => a.high)),
+      unit: commonUnit(args.map((a) => a.unit), "compare"),
+    }),
+  },
+  round: {
+    arity: [1, 2],
+    apply: ([x, digitsArg]) => {
+      const factor = 10 ** (digitsArg ? exactNumber(digitsArg, "round() digits") : 0);
+      const [low, high] = corners([x], (v) => Math.round(v * factor) / factor);
+      return { low, high, unit: x.unit };
+    },
+  },
+  /** Natural log, or log in the given base. */
+  log: {
+    arity: [1, 2],
+    apply: ([x, baseArg]) => {
+      if (!isDimensionless(x.unit)) throw new Error(`log() expects a unitless value, got ${formatUnit(x.unit)}`);
+      checkPositive(x, "log() argument");
+      const base = baseArg ? exactNumber(baseArg, "log() base") : Math.E;
+      const [low, high] = corners([x], (v) => Math.log(v) / Math.log(base));
+      return { low, high, unit: {} };
+    },
+  },
+  /** Relative change from `from` to `to`: growth(100, 150) = 0.5. */
+  growth: {
+    arity: [2, 2],
+    apply: ([from, to]) => {
+      commonUnit([from.unit, to.unit], "compare");
+      if (containsZero(from)) throw new Error("Division by zero");
+      const [low, high] = corners([from, to], (f, t) => (t - f) / f);
+      return { low, high, unit: {} };
+    },
+  },
+  /**
+   * Compound annual growth rate. Without `years`, the period is taken from
+   * the asOf dates of the two fact references.
+   */
+  cagr: {
+    arity: [2, 3],
+    apply: ([from, to, yearsArg], nodes, env) => {
+      commonUnit([from.unit, to.unit], "compare");
+      checkPositive(from, "cagr() start value");
+      if (to.low < 0) throw new Error("cagr() end value must not be negative");
+      const years: Quantity = yearsArg ?? {
+        low: yearsBetween(nodes.slice(0, 2), env, "cagr"),
+        high: yearsBetween(nodes.slice(0, 2), env, "cagr"),
+        unit: YEAR_UNIT,
+      };
+      if (years.unit !== null && !sameUnit(years.unit, YEAR_UNIT) && !isDimensionless(years.unit)) {
+        throw new Error(`cagr() period must be in years, got ${formatUnit(years.unit)}`);
+      }
+      checkPositive(years, "cagr() period");
+      const [low, high] = corners([from, to, years], (f, t, y) => (t / f) ** (1 / y) - 1);
+      return { low, high, unit: {} };
+    },
+  },
+  /** Years from the first fact's asOf date to the second's. */
+  yearsBetween: {
+    arity: [2, 2],
+    apply: (_args, nodes, env) => {
+      const years = yearsBetween(nodes, env, "yearsBetween");
+      return { low: years, high: years, unit: YEAR_UNIT };
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+function evaluate(node: Node, env: EvalEnv): Quantity {
+  switch (node.kind) {
+    case "num":
+      return { low: node.value, high: node.value, unit: null };
+    case "ref":
+      return env.ref(node.ref);
+    case "neg": {
+      const arg = evaluate(node.arg, env);
+      return { low: -arg.high, high: -arg.low, unit: arg.unit };
+    }
+    case "call":
+      return FUNCTIONS[node.name].apply(
+        node.args.map((arg) => evaluate(arg, env)),
+        node.args,
+        env
+      );
+    case "binary": {
+      const left = evaluate(node.left, env);
+      const right = evaluate(node.right, env);
+      switch (node.op) {
+        case "+":
+        case "-": {
+          const unit = commonUnit([left.unit, right.unit], node.op === "+" ? "add" : "subtract");
+          const [low, high] = corners([left, right], node.op === "+" ? (a, b) => a + b : (a, b) => a - b);
+          return { low, high, unit };
+        }
+        case "*": {
+          const [low, high] = corners([left, right], (a, b) => a * b);
+          return { low, high, unit: multiplyUnits(left.unit, right.unit, 1) };
+        }
+        case "/": {
+          if (containsZero(right)) throw new Error("Division by zero");
+          const [low, high] = corners([left, right], (a, b) => a / b);
+          return { low, high, unit: multiplyUnits(left.unit, right.unit, -1) };
+        }
+        case "^": {
+          const exp = exactNumber(right, "Exponent");
+          let [low, high] = corners([left], (v) => Math.pow(v, exp));
+          // Even powers of an interval spanning zero bottom out at zero
+          if (containsZero(left) && exp > 0) low = Math.min(low, 0);
+          const unit =
+            left.unit === null
+              ? null
+              : Object.fromEntries(Object.entries(left.unit).map(([k, e]) => [k, e * exp]));
+          return { low, high, unit };
+        }
+      }
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Fact resolution
 // ---------------------------------------------------------------------------
@@ -180,37 +538,99 @@ interface ResolvedRef {
   ref: string;
   entity: string;
   factId: string;
-  fact: CalcFact | undefined;
-  numeric: number;
+  fact: CalcFact;
+  quantity: Quantity;
 }
 
-function resolveRefs(
-  expr: string,
-  factLookup: FactLookup
-): { resolved: string; refs: ResolvedRef[] } {
-  const refs: ResolvedRef[] = [];
-
-  const resolved = expr.replace(/\{([^}]+)\}/g, (_match, ref: string) => {
-    const dotIdx = ref.indexOf(".");
-    if (dotIdx === -1) {
-      throw new Error(`Invalid fact reference: {${ref}} — expected {entity.factId}`);
-    }
-    const entity = ref.slice(0, dotIdx);
-    const factId = ref.slice(dotIdx + 1);
-    const fact = factLookup(entity, factId);
+function collectRefs(node: Node, out: string[] = []): string[] {
+  switch (node.kind) {
+    case "ref":
+      if (!out.includes(node.ref)) out.push(node.ref);
+      break;
+    case "neg":
+      collectRefs(node.arg, out);
+      break;
+    case "binary":
+      collectRefs(node.left, out);
+      collectRefs(node.right, out);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectRefs(arg, out));
+      break;
+  }
+  return out;
+}
 
-    if (!fact) {
-      throw new Error(`Unknown fact: {${ref}}`);
-    }
-    if (fact.numeric == null) {
-      throw new Error(`Fact {${ref}} has no numeric value`);
-    }
+function resolveRef(ref: string, factLookup: FactLookup): ResolvedRef {
+  const dotIdx = ref.indexOf(".");
+  if (dotIdx === -1) {
+    throw new Error(`Invalid fact reference: {${ref}} — expected {entity.factId}`);
+  }
+  const entity = ref.slice(0, dotIdx);
+  const factId = ref.slice(dotIdx + 1);
+  const fact = factLookup(entity, factId);
 
-    refs.push({ ref, entity, factId, fact, numeric: fact.numeric });
-    return String(fact.numeric);
-  });
+  if (!fact) {
+    throw new Error(`Unknown fact: {${ref}}`);
+  }
+  const unit = parseUnit(fact.unit);
+  if (fact.low != null) {
+    return { ref, entity, factId, fact, quantity: { low: fact.low, high: fact.high ?? Infinity, unit } };
+  }
+  if (fact.numeric == null) {
+    throw new Error(`Fact {${ref}} has no numeric value`);
+  }
+  return { ref, entity, factId, fact, quantity: { low: fact.numeric, high: fact.numeric, unit } };
+}
+
+function pointValue(q: Quantity): number {
+  return q.high === Infinity ? q.low : (q.low + q.high) / 2;
+}
+
+// ---------------------------------------------------------------------------
+// Monte Carlo sampling
+// ---------------------------------------------------------------------------
+
+/** Small seeded PRNG (mulberry32) so sampled results are stable across renders. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-  return { resolved, refs };
+/**
+ * Draw samples of the expression. Each uncertain input is drawn uniformly
+ * from its range once per sample (so a fact used twice stays correlated);
+ * open-ended inputs are held at their lower bound.
+ */
+function sample(ast: Node, refs: ResolvedRef[], count: number, seed: number): number[] {
+  const random = seededRandom(seed);
+  const samples: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const draws = new Map<string, Quantity>();
+    for (const r of refs) {
+      const { low, high, unit } = r.quantity;
+      const v = high === Infinity ? low : low + random() * (high - low);
+      draws.set(r.ref, { low: v, high: v, unit });
+    }
+    samples.push(
+      evaluate(ast, {
+        ref: (ref) => draws.get(ref)!,
+        asOf: (ref) => refs.find((r) => r.ref === ref)?.fact.asOf,
+      }).low
+    );
+  }
+  return samples;
+}
+
+/** Squiggle code for a sample set, for passing to <SquiggleEstimate>. */
+export function samplesToSquiggle(samples: number[]): string {
+  return `SampleSet.fromList([${samples.map((s) => Number(s.toPrecision(6))).join(", ")}])`;
 }
 
 // ---------------------------------------------------------------------------
@@ -270,6 +690,23 @@ export function formatValue(n: number, opts: CalcOptions = {}): string {
   return `${prefix}${formatted}${suffix}`;
 }
 
+/**
+ * Format an interval: "$1.2–$1.8 billion", "20–35%", or "≥300,000" when
+ * open-ended. Exact values format like formatValue.
+ */
+export function formatRange(low: number, high: number, opts: CalcOptions = {}): string {
+  const { prefix = "", suffix = "", ...rest } = opts;
+  if (low === high) return formatValue(low, opts);
+  if (high === Infinity) return `${prefix}≥${formatValue(low, rest)}${suffix}`;
+
+  let lowStr = formatValue(low, rest);
+  const highStr = formatValue(high, rest);
+  // Share the scale word: "$1.2 billion–$1.8 billion" → "$1.2–$1.8 billion"
+  const scale = /( trillion| billion| million|%)$/.exec(highStr)?.[1];
+  if (scale && lowStr.endsWith(scale)) lowStr = lowStr.slice(0, -scale.length);
+  return `${prefix}${lowStr}–${highStr}${suffix}`;
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -279,22 +716,36 @@ export function calc(
   factLookup: FactLookup,
   opts: CalcOptions = {}
 ): CalcResult {
-  const { resolved, refs } = resolveRefs(expr, factLookup);
-  const tokens = tokenize(resolved);
-  const value = evaluate(tokens);
-  const display = formatValue(value, opts);
+  const ast = parse(tokenize(expr));
+  const refs = collectRefs(ast).map((ref) => resolveRef(ref, factLookup));
+  const byRef = new Map(refs.map((r) => [r.ref, r]));
+  const result = evaluate(ast, {
+    ref: (ref) => byRef.get(ref)!.quantity,
+    asOf: (ref) => byRef.get(ref)?.fact.asOf,
+  });
+
+  const unit = formatUnit(result.unit);
+  // USD results default to currency formatting
+  const format = opts.format ?? (unit === "USD" ? "currency" : undefined);
+  const display = formatRange(result.low, result.high, { ...opts, format });
 
   return {
-    value,
+    value: pointValue(result),
+    low: result.low,
+    high: result.high,
+    unit,
     display,
     inputs: refs.map((r) => ({
       ref: r.ref,
       entity: r.entity,
       factId: r.factId,
-      value: r.fact?.value,
-      numeric: r.numeric,
-      asOf: r.fact?.asOf,
+      value: r.fact.value,
+      numeric: pointValue(r.quantity),
+      ...(isExact(r.quantity) ? {} : { low: r.quantity.low, high: r.quantity.high }),
+      unit: r.fact.unit,
+      asOf: r.fact.asOf,
     })),
     expr,
+    ...(opts.samples ? { samples: sample(ast, refs, opts.samples, opts.seed ?? 1) } : {}),
   };
 }
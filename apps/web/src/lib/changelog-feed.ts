@@ -0,0 +1,191 @@
+/**
+ * Changelog items, filters, and feed serialization (RSS 2.0 and JSON Feed 1.1).
+ *
+ * Pure helpers shared by the /changes page and its feed routes. Items are
+ * assembled from page edits, fact readings, and records in
+ * app/changes/changelog.ts; everything here works on plain ChangeItems so it
+ * can be tested without the database.
+ */
+
+export type ChangeKind = "page" | "fact" | "record";
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  page: "Page edits",
+  fact: "Facts",
+  record: "Records",
+};
+
+export interface ChangeItem {
+  /** Stable across builds, used as the feed item GUID ("fact:f_abc123") */
+  id: string;
+  kind: ChangeKind;
+  /** ISO date, possibly partial (YYYY or YYYY-MM) */
+  date: string;
+  title: string;
+  summary?: string;
+  /** Site-relative link */
+  href: string;
+  /** Wiki entity slug the change is about */
+  entityId?: string;
+  entityName?: string;
+  category?: string;
+  tags: string[];
+}
+
+export interface ChangeFilter {
+  entity?: string;
+  category?: string;
+  tag?: string;
+  kind?: ChangeKind;
+}
+
+/** Query parameters understood by /changes and its feeds, in URL order. */
+export const CHANGE_FILTER_PARAMS = ["entity", "category", "tag", "kind"] as const;
+
+export const FEED_ITEM_LIMIT = 50;
+
+function isChangeKind(value: string): value is ChangeKind {
+  return value in CHANGE_KIND_LABELS;
+}
+
+/** Read a filter from route search params, ignoring blank and unknown values. */
+export function parseChangeFilter(
+  params: URLSearchParams | Record<string, string | string[] | undefined>,
+): ChangeFilter {
+  const get = (name: string): string | undefined => {
+    const raw = params instanceof URLSearchParams ? params.get(name) : params[name];
+    const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+    return value || undefined;
+  };
+  const filter: ChangeFilter = {};
+  const entity = get("entity");
+  const category = get("category");
+  const tag = get("tag");
+  const kind = get("kind");
+  if (entity) filter.entity = entity;
+  if (category) filter.category = category;
+  if (tag) filter.tag = tag.toLowerCase();
+  if (kind && isChangeKind(kind)) filter.kind = kind;
+  return filter;
+}
+
+export function filterChanges(items: ChangeItem[], filter: ChangeFilter): ChangeItem[] {
+  return items.filter(
+    (item) =>
+      (!filter.entity || item.entityId === filter.entity) &&
+      (!filter.category || item.category === filter.category) &&
+      (!filter.tag || item.tags.includes(filter.tag)) &&
+      (!filter.kind || item.kind === filter.kind),
+  );
+}
+
+/** Query string for a filter ("?entity=anthropic&kind=fact"), or "" when empty. */
+export function changeFilterQuery(filter: ChangeFilter): string {
+  const params = new URLSearchParams();
+  for (const name of CHANGE_FILTER_PARAMS) {
+    const value = filter[name];
+    if (value) params.set(name, value);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** Pad partial dates to a full day: "2024" → "2024-01-01", "2024-06" → "2024-06-01". */
+export function padChangeDate(date: string): string {
+  const parts = date.split("-");
+  if (parts.length === 1) return `${parts[0]}-01-01`;
+  if (parts.length === 2) return `${parts[0]}-${parts[1]}-01`;
+  return date.slice(0, 10);
+}
+
+/** Newest first; ties broken by ID so feed order is stable across builds. */
+export function sortChanges(items: ChangeItem[]): ChangeItem[] {
+  return [...items].sort(
+    (a, b) =>
+      padChangeDate(b.date).localeCompare(padChangeDate(a.date)) || a.id.localeCompare(b.id),
+  );
+}
+
+function toDate(date: string): Date | null {
+  const d = new Date(`${padChangeDate(date)}T00:00:00Z`);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export interface ChangeFeed {
+  title: string;
+  description: string;
+  /** Absolute URL of the human-readable page */
+  homeUrl: string;
+  /** Absolute URL of this feed */
+  feedUrl: string;
+  /** Absolute site origin, prepended to item hrefs */
+  siteUrl: string;
+  items: ChangeItem[];
+}
+
+export function toRss(feed: ChangeFeed): string {
+  const items = feed.items
+    .map((item) => {
+      const date = toDate(item.date);
+      const categories = [item.category, ...item.tags]
+        .filter((c): c is string => Boolean(c))
+        .map((c) => `      <category>${escapeXml(c)}</category>`);
+      return [
+        "    <item>",
+        `      <title>${escapeXml(item.title)}</title>`,
+        `      <link>${escapeXml(feed.siteUrl + item.href)}</link>`,
+        `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+        ...(date ? [`      <pubDate>${date.toUTCString()}</pubDate>`] : []),
+        ...(item.summary ? [`      <description>${escapeXml(item.summary)}</description>`] : []),
+        ...categories,
+        "    </item>",
+      ].join("\n");
+    })
+    .join("\n");
+
+  const latest = feed.items.length > 0 ? toDate(feed.items[0].date) : null;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en</language>${latest ? `\n    <lastBuildDate>${latest.toUTCString()}</lastBuildDate>` : ""}
+${items}
+  </channel>
+</rss>`;
+}
+
+export function toJsonFeed(feed: ChangeFeed): Record<string, unknown> {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    language: "en",
+    items: feed.items.map((item) => {
+      const date = toDate(item.date);
+      const tags = [item.category, ...item.tags].filter((c): c is string => Boolean(c));
+      return {
+        id: item.id,
+        url: feed.siteUrl + item.href,
+        title: item.title,
+        content_text: item.summary ?? item.title,
+        ...(date ? { date_published: date.toISOString() } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+      };
+    }),
+  };
+}
@@ -44,6 +44,11 @@ export interface CitationQuote {
   accuracySupportingQuotes: string | null;
   verificationDifficulty: string | null;
   accuracyCheckedAt: string | null;
+  /**
+   * When `crux citations drift` found the cited source had changed and the
+   * quote was no longer in it. Null once the quote is re-verified.
+   */
+  sourceChangedAt: string | null;
 }
 
 /** Summary stats for page-level banner */
@@ -55,6 +60,10 @@ export interface CitationHealthSummary {
   unsupported: number;
   minorIssues: number;
   unchecked: number;
+  /** Citations whose source changed and no longer contains the quote */
+  sourceChanged: number;
+  /** Most recent sourceChangedAt across the page's citations */
+  sourceChangedLatest: string | null;
 }
 
 /**
@@ -109,6 +118,8 @@ function getLocalCitationQuotesForPage(pageId: string): CitationQuote[] {
       accuracySupportingQuotes: q.accuracySupportingQuotes as string | null,
       verificationDifficulty: q.verificationDifficulty as string | null,
       accuracyCheckedAt: q.accuracyCheckedAt as string | null,
+      // Absent from bundles built before drift detection existed
+      sourceChangedAt: (q.sourceChangedAt as string | null | undefined) ?? null,
     }));
 }
 
@@ -133,8 +144,17 @@ export function computeCitationHealth(
   let unsupported = 0;
   let minorIssues = 0;
   let unchecked = 0;
+  let sourceChanged = 0;
+  let sourceChangedLatest: string | null = null;
 
   for (const q of quotes) {
+    if (q.sourceChangedAt) {
+      sourceChanged++;
+      if (!sourceChangedLatest || q.sourceChangedAt > sourceChangedLatest) {
+        sourceChangedLatest = q.sourceChangedAt;
+      }
+    }
+
     if (q.accuracyVerdict) {
       switch (q.accuracyVerdict) {
         case "accurate":
@@ -160,7 +180,8 @@ export function computeCitationHealth(
       }
     } else if (q.quoteVerified) {
       verified++;
-    } else {
+    } else if (!q.sourceChangedAt) {
+      // Quotes lost to source drift are counted in sourceChanged instead
       unchecked++;
     }
   }
@@ -173,5 +194,7 @@ export function computeCitationHealth(
     unsupported,
     minorIssues,
     unchecked,
+    sourceChanged,
+    sourceChangedLatest,
   };
 }
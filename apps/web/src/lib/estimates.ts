@@ -0,0 +1,508 @@
+/**
+ * Estimates — typed model, parser, and aggregation for data/estimates.yaml.
+ *
+ * The YAML stores values as short strings ("25%", "15-30%", "2040", "$100-200")
+ * or as quantile distributions. loadEstimate() parses them into points,
+ * intervals, and distributions on a common scale (probabilities as 0–1).
+ * Qualitative values ("Very hard") are kept as text and left out of
+ * aggregation; numeric values that don't make sense ("90-10", "150%") are
+ * reported as issues rather than guessed at.
+ *
+ * Aggregates are computed, never stored: pages render aggregateEstimate()
+ * so the headline number moves when an estimate is added.
+ *
+ * No "@/" imports — crux's YAML validator uses this module directly.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EstimateUnit = "probability" | "year" | "usd" | "number";
+
+export type EstimateValue =
+  | { kind: "point"; value: number }
+  | { kind: "interval"; low: number; high: number }
+  /** Quantiles sorted by p (0–1), values non-decreasing */
+  | { kind: "distribution"; quantiles: Array<{ p: number; value: number }> };
+
+export interface ParsedEstimateValue {
+  unit: EstimateUnit;
+  value: EstimateValue;
+}
+
+/** Raw estimate source as stored in estimates.yaml (see data/schema.ts). */
+export interface RawEstimateSource {
+  source: string;
+  sourceEntity?: string;
+  value: string | { quantiles: Record<string, string | number> };
+  method?: string;
+  date?: string;
+  url?: string;
+  notes?: string;
+  confidence?: string;
+}
+
+/** Raw estimate variable as stored in estimates.yaml (see data/schema.ts). */
+export interface RawEstimate {
+  id: string;
+  variable: string;
+  description?: string;
+  unit?: string;
+  category?: string;
+  estimates: RawEstimateSource[];
+  lastUpdated?: string;
+}
+
+export interface TypedEstimatePoint {
+  source: string;
+  sourceEntity?: string;
+  method?: string;
+  /** Original value text, for display */
+  raw: string;
+  /** Parsed value, or null for qualitative values */
+  parsed: ParsedEstimateValue | null;
+  date?: string;
+  /** Decimal year the estimate was made, or null when undated ("Ongoing") */
+  year: number | null;
+  url?: string;
+  notes?: string;
+  confidence?: string;
+}
+
+export interface TypedEstimate {
+  id: string;
+  variable: string;
+  description?: string;
+  category?: string;
+  /** Most common unit among parsed values; only those values are aggregated */
+  unit: EstimateUnit | null;
+  points: TypedEstimatePoint[];
+  lastUpdated?: string;
+}
+
+export type AggregationMethod = "geo-mean-odds" | "median" | "recency";
+
+export interface EstimateAggregate {
+  method: AggregationMethod;
+  unit: EstimateUnit;
+  value: number;
+  /** Lowest and highest bound across the pooled estimates */
+  range: [number, number];
+  /** Number of estimates pooled */
+  n: number;
+}
+
+export interface AggregateOptions {
+  /** Half-life for recency weighting, in years (default 3) */
+  halfLifeYears?: number;
+  /** Reference year for recency weighting (default: latest estimate) */
+  asOfYear?: number;
+}
+
+export class EstimateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EstimateParseError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Value parsing
+// ---------------------------------------------------------------------------
+
+const LOWER_BOUND_PREFIX = /^(?:>=?|≥|over|above|at least|more than)\s*/i;
+const UPPER_BOUND_PREFIX = /^(?:<=?|≤|under|below|less than)\s*/i;
+const APPROX_PREFIX = /^(?:~|≈|about|approximately|around)\s*/i;
+
+/** One number with its markers: "$1,500", "25%", "2030s", "80%+" */
+const NUMBER_SOURCE = String.raw`(\$)?(\d[\d,]*(?:\.\d+)?)(%|s)?(\+)?`;
+const VALUE_RE = new RegExp(
+  String.raw`^${NUMBER_SOURCE}(?:\s*(?:-|–|—|to)\s*${NUMBER_SOURCE})?(?=$|\s)`,
+  "i"
+);
+
+interface NumberToken {
+  dollar: boolean;
+  num: number;
+  suffix: "%" | "s" | "";
+  plus: boolean;
+  digits: string;
+}
+
+function numberToken(m: RegExpExecArray, offset: number): NumberToken | null {
+  if (m[offset + 2] === undefined) return null;
+  return {
+    dollar: m[offset + 1] === "$",
+    num: parseFloat(m[offset + 2].replace(/,/g, "")),
+    suffix: (m[offset + 3]?.toLowerCase() ?? "") as NumberToken["suffix"],
+    plus: m[offset + 4] === "+",
+    digits: m[offset + 2],
+  };
+}
+
+function isYearLike(t: NumberToken): boolean {
+  return /^\d{4}$/.test(t.digits) && t.num >= 1900 && t.num <= 2200;
+}
+
+/**
+ * Parse a value string into a unit and a point or interval.
+ *
+ * Returns null for qualitative text ("Very hard", "AGI by 2050+"). Trailing
+ * words after the number are allowed ("10-20% catastrophic risk"), as is a
+ * parenthetical ("16.7% (1 in 6)"). Throws EstimateParseError for numbers
+ * that can't be right, such as reversed ranges or probabilities over 100%.
+ */
+export function parseEstimateValue(text: string): ParsedEstimateValue | null {
+  let s = text.trim().replace(/\s*\([^)]*\)\s*$/, "");
+  s = s.replace(APPROX_PREFIX, "");
+
+  let bound: "lower" | "upper" | null = null;
+  if (LOWER_BOUND_PREFIX.test(s)) {
+    bound = "lower";
+    s = s.replace(LOWER_BOUND_PREFIX, "");
+  } else if (UPPER_BOUND_PREFIX.test(s)) {
+    bound = "upper";
+    s = s.replace(UPPER_BOUND_PREFIX, "");
+  }
+
+  const m = VALUE_RE.exec(s);
+  if (!m) return null;
+
+  const a = numberToken(m, 0)!;
+  const b = numberToken(m, 4);
+  const tokens = b ? [a, b] : [a];
+
+  let unit: EstimateUnit;
+  if (tokens.some((t) => t.suffix === "%")) unit = "probability";
+  else if (tokens.some((t) => t.dollar)) unit = "usd";
+  else if (tokens.every((t) => isYearLike(t) || (t.suffix === "s" && /^\d{3}0$/.test(t.digits)))) unit = "year";
+  else if (tokens.some((t) => t.suffix === "s")) return null; // "50s" etc. — not a value we model
+  else unit = "number";
+
+  const divisor = unit === "probability" ? 100 : 1;
+  let low = a.num / divisor;
+  // A decade ("2030s") spans ten years
+  let high = (b ?? a).num / divisor + ((b ?? a).suffix === "s" ? 9 : 0);
+
+  if (b && low > high) {
+    throw new EstimateParseError(`Range "${text}" has its low end above its high end`);
+  }
+
+  // Open-ended probabilities run to 0% or 100%. Other units only have a
+  // natural floor of zero; "20-40+ years" keeps its stated range.
+  const openUpper = bound === "lower" || (b ?? a).plus;
+  if (unit === "probability") {
+    if (openUpper) high = 1;
+    else if (bound === "upper") low = 0;
+  } else if (bound === "upper" && unit !== "year") {
+    low = 0;
+  } else if (bound !== null || (!b && a.plus)) {
+    throw new EstimateParseError(`Open-ended value "${text}" needs an explicit range`);
+  }
+
+  if (unit === "probability" && (low < 0 || high > 1)) {
+    throw new EstimateParseError(`Probability "${text}" is outside 0–100%`);
+  }
+
+  const value: EstimateValue =
+    low === high ? { kind: "point", value: low } : { kind: "interval", low, high };
+  return { unit, value };
+}
+
+/**
+ * Parse a quantile distribution: { p5: "2030", p50: "2040", p95: "2070" }.
+ * Every quantile must be a point in the same unit, increasing with p.
+ */
+export function parseEstimateDistribution(
+  quantiles: Record<string, string | number>
+): ParsedEstimateValue {
+  const entries = Object.entries(quantiles);
+  if (entries.length < 2) {
+    throw new EstimateParseError("A distribution needs at least two quantiles");
+  }
+
+  let unit: EstimateUnit | null = null;
+  const parsed = entries.map(([key, raw]) => {
+    const p = Number(key.slice(1)) / 100;
+    if (!(p > 0 && p < 1)) throw new EstimateParseError(`Invalid quantile "${key}"`);
+    const v = parseEstimateValue(String(raw));
+    if (!v || v.value.kind !== "point") {
+      throw new EstimateParseError(`Quantile ${key} must be a single number, got "${raw}"`);
+    }
+    if (unit && v.unit !== unit) {
+      throw new EstimateParseError(`Quantile ${key} is in ${v.unit}, expected ${unit}`);
+    }
+    unit = v.unit;
+    return { p, value: v.value.value };
+  });
+
+  parsed.sort((x, y) => x.p - y.p);
+  for (let i = 1; i < parsed.length; i++) {
+    if (parsed[i].value < parsed[i - 1].value) {
+      throw new EstimateParseError("Quantile values must not decrease as p increases");
+    }
+  }
+
+  return { unit: unit!, value: { kind: "distribution", quantiles: parsed } };
+}
+
+/**
+ * Decimal year for an estimate date. Full dates are exact; bare years and
+ * ranges ("2023-2024", which counts as the later year) map to mid-year, and
+ * decades to their middle. Returns null for "Ongoing", "Historical", etc.
+ */
+export function parseEstimateYear(date: string | undefined): number | null {
+  if (!date) return null;
+  const s = date.trim();
+
+  const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(s);
+  if (iso) {
+    const [, y, mo, d] = iso;
+    return Number(y) + (Number(mo) - 1) / 12 + (d ? (Number(d) - 1) / 365 : 0);
+  }
+
+  const m = /^(\d{4})(s)?(?:\s*[-–]\s*(\d{4})\b)?/.exec(s);
+  if (!m) return null;
+  if (m[3]) return Number(m[3]) + 0.5;
+  if (m[2]) return Number(m[1]) + 5;
+  return Number(m[1]) + 0.5;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse one estimates.yaml entry into its typed form. Values that fail to
+ * parse are kept as qualitative points and listed in `issues`.
+ */
+export function loadEstimate(raw: RawEstimate): { estimate: TypedEstimate; issues: string[] } {
+  const issues: string[] = [];
+
+  const points = raw.estimates.map((e): TypedEstimatePoint => {
+    const rawText = typeof e.value === "string" ? e.value : formatQuantileText(e.value.quantiles);
+    let parsed: ParsedEstimateValue | null = null;
+    try {
+      parsed = typeof e.value === "string"
+        ? parseEstimateValue(e.value)
+        : parseEstimateDistribution(e.value.quantiles);
+    } catch (err) {
+      if (!(err instanceof EstimateParseError)) throw err;
+      issues.push(`${e.source}: ${err.message}`);
+    }
+    return {
+      source: e.source,
+      sourceEntity: e.sourceEntity,
+      method: e.method,
+      raw: rawText,
+      parsed,
+      date: e.date,
+      year: parseEstimateYear(e.date),
+      url: e.url,
+      notes: e.notes,
+      confidence: e.confidence,
+    };
+  });
+
+  return {
+    estimate: {
+      id: raw.id,
+      variable: raw.variable,
+      description: raw.description,
+      category: raw.category,
+      unit: dominantUnit(points),
+      points,
+      lastUpdated: raw.lastUpdated,
+    },
+    issues,
+  };
+}
+
+function formatQuantileText(quantiles: Record<string, string | number>): string {
+  return Object.entries(quantiles).map(([k, v]) => `${k}: ${v}`).join(", ");
+}
+
+function dominantUnit(points: TypedEstimatePoint[]): EstimateUnit | null {
+  const counts = new Map<EstimateUnit, number>();
+  for (const p of points) {
+    if (p.parsed) counts.set(p.parsed.unit, (counts.get(p.parsed.unit) ?? 0) + 1);
+  }
+  let best: EstimateUnit | null = null;
+  for (const [unit, count] of counts) {
+    if (!best || count > counts.get(best)!) best = unit;
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** Keeps log-odds finite for 0% and 100% estimates. */
+const ODDS_EPSILON = 1e-4;
+
+/** Single representative number: the point, an interval's midpoint, or a distribution's median. */
+export function centralValue(v: EstimateValue): number {
+  switch (v.kind) {
+    case "point":
+      return v.value;
+    case "interval":
+      return (v.low + v.high) / 2;
+    case "distribution":
+      return quantileAt(v.quantiles, 0.5);
+  }
+}
+
+/** Lowest and highest values an estimate admits. */
+export function valueBounds(v: EstimateValue): [number, number] {
+  switch (v.kind) {
+    case "point":
+      return [v.value, v.value];
+    case "interval":
+      return [v.low, v.high];
+    case "distribution":
+      return [v.quantiles[0].value, v.quantiles[v.quantiles.length - 1].value];
+  }
+}
+
+/** Linear interpolation between quantiles, clamped to the outermost ones. */
+function quantileAt(quantiles: Array<{ p: number; value: number }>, p: number): number {
+  if (p <= quantiles[0].p) return quantiles[0].value;
+  for (let i = 1; i < quantiles.length; i++) {
+    const lo = quantiles[i - 1];
+    const hi = quantiles[i];
+    if (p <= hi.p) return lo.value + ((p - lo.p) / (hi.p - lo.p)) * (hi.value - lo.value);
+  }
+  return quantiles[quantiles.length - 1].value;
+}
+
+/** Geometric mean of odds (optionally weighted), returned as a probability. */
+export function geometricMeanOfOdds(probabilities: number[], weights?: number[]): number {
+  if (probabilities.length === 0) throw new Error("geometricMeanOfOdds needs at least one value");
+  let sum = 0;
+  let total = 0;
+  probabilities.forEach((p, i) => {
+    const w = weights?.[i] ?? 1;
+    const q = Math.min(1 - ODDS_EPSILON, Math.max(ODDS_EPSILON, p));
+    sum += w * Math.log(q / (1 - q));
+    total += w;
+  });
+  const odds = Math.exp(sum / total);
+  return odds / (1 + odds);
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) throw new Error("median needs at least one value");
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Exponential-decay weights: an estimate `halfLifeYears` older counts half as much. */
+export function recencyWeights(years: number[], asOfYear: number, halfLifeYears = 3): number[] {
+  return years.map((y) => Math.pow(0.5, Math.max(0, asOfYear - y) / halfLifeYears));
+}
+
+/**
+ * Recency-weighted linear pool: the weighted mean of estimates, with weights
+ * halving every `halfLifeYears` back from `asOfYear`.
+ */
+export function recencyWeightedPool(
+  values: number[],
+  years: number[],
+  asOfYear: number,
+  halfLifeYears = 3
+): number {
+  if (values.length === 0) throw new Error("recencyWeightedPool needs at least one value");
+  const weights = recencyWeights(years, asOfYear, halfLifeYears);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / total;
+}
+
+/** Default method: geometric mean of odds for probabilities, median otherwise. */
+export function defaultAggregationMethod(unit: EstimateUnit): AggregationMethod {
+  return unit === "probability" ? "geo-mean-odds" : "median";
+}
+
+/**
+ * Aggregate the estimates of a variable that are in its dominant unit.
+ * Recency pooling skips undated estimates. Returns null when nothing can be
+ * pooled (all qualitative, or no dated estimates for "recency").
+ */
+export function aggregateEstimate(
+  estimate: TypedEstimate,
+  method?: AggregationMethod,
+  options: AggregateOptions = {}
+): EstimateAggregate | null {
+  const unit = estimate.unit;
+  if (!unit) return null;
+  const chosen = method ?? defaultAggregationMethod(unit);
+  if (chosen === "geo-mean-odds" && unit !== "probability") {
+    throw new Error(`Geometric mean of odds needs probabilities; "${estimate.id}" is in ${unit}`);
+  }
+
+  let pooled = estimate.points.filter((p) => p.parsed?.unit === unit);
+  if (chosen === "recency") pooled = pooled.filter((p) => p.year !== null);
+  if (pooled.length === 0) return null;
+
+  const values = pooled.map((p) => centralValue(p.parsed!.value));
+  let value: number;
+  if (chosen === "geo-mean-odds") {
+    value = geometricMeanOfOdds(values);
+  } else if (chosen === "median") {
+    value = median(values);
+  } else {
+    const years = pooled.map((p) => p.year!);
+    value = recencyWeightedPool(
+      values,
+      years,
+      options.asOfYear ?? Math.max(...years),
+      options.halfLifeYears
+    );
+  }
+
+  const bounds = pooled.map((p) => valueBounds(p.parsed!.value));
+  return {
+    method: chosen,
+    unit,
+    value,
+    range: [Math.min(...bounds.map((b) => b[0])), Math.max(...bounds.map((b) => b[1]))],
+    n: pooled.length,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Format a number in an estimate's unit: "25%", "2040", "$1,500". */
+export function formatEstimateNumber(value: number, unit: EstimateUnit): string {
+  switch (unit) {
+    case "probability": {
+      const pct = value * 100;
+      const digits = pct !== 0 && Math.abs(pct) < 1 ? 1 : 0;
+      return `${pct.toFixed(digits)}%`;
+    }
+    case "year":
+      return String(Math.round(value));
+    case "usd":
+      return `$${Math.round(value).toLocaleString("en-US")}`;
+    case "number":
+      return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  }
+}
+
+/** Format a low–high range, sharing the % sign: "10–35%". */
+export function formatEstimateRange([low, high]: [number, number], unit: EstimateUnit): string {
+  if (low === high) return formatEstimateNumber(low, unit);
+  const lo = formatEstimateNumber(low, unit);
+  const hi = formatEstimateNumber(high, unit);
+  return unit === "probability" ? `${lo.slice(0, -1)}–${hi}` : `${lo}–${hi}`;
+}
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  "geo-mean-odds": "geometric mean of odds",
+  median: "median",
+  recency: "recency-weighted pool",
+};
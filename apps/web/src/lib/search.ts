@@ -2,6 +2,9 @@
  * Client-side Search
  *
  * Uses server-side PostgreSQL full-text search via /api/search proxy.
+ * In "hybrid" mode the server also ranks by embedding similarity. With the
+ * default hashing model that only adds fuzzy lexical matches; matching
+ * conceptual queries needs a learned embedding model on the server.
  * If the server is unreachable, returns an empty result set with an error flag.
  */
 
@@ -26,6 +29,15 @@ export interface SearchResult extends SearchDoc {
   terms: string[];
   /** Server-generated HTML snippet with <mark> tags from ts_headline(). */
   snippet?: string;
+  /** Cosine similarity to the query embedding (hybrid mode only). */
+  similarity?: number;
+}
+
+/** "fts" = keyword search only; "hybrid" = keywords + embedding similarity. */
+export type SearchMode = "fts" | "hybrid";
+
+export interface SearchOptions {
+  mode?: SearchMode;
 }
 
 // ---------------------------------------------------------------------------
@@ -44,9 +56,11 @@ interface ServerSearchResponse {
     quality: number | null;
     score: number;
     snippet: string | null;
+    similarity?: number;
   }>;
   query: string;
   total: number;
+  mode?: SearchMode;
 }
 
 /**
@@ -56,9 +70,11 @@ interface ServerSearchResponse {
 async function searchServer(
   query: string,
   limit: number,
+  mode: SearchMode,
 ): Promise<SearchResult[] | null> {
   try {
-    const url = `/api/search?q=${encodeURIComponent(query)}&limit=${limit}`;
+    let url = `/api/search?q=${encodeURIComponent(query)}&limit=${limit}`;
+    if (mode !== "fts") url += `&mode=${mode}`;
     const res = await fetch(url, {
       signal: AbortSignal.timeout(4000),
     });
@@ -83,6 +99,7 @@ async function searchServer(
         quality: r.quality,
         score: r.score,
         snippet: r.snippet || undefined,
+        similarity: r.similarity,
         // Synthesize per-field match info from query terms for highlighting
         match: Object.fromEntries(
           queryTerms.map((t) => {
@@ -105,15 +122,17 @@ async function searchServer(
 // ---------------------------------------------------------------------------
 
 /**
- * Search the wiki via server-side PostgreSQL FTS.
+ * Search the wiki via server-side PostgreSQL FTS (optionally fused with
+ * embedding similarity when `options.mode` is "hybrid").
  * Returns an empty array if the server is unreachable.
  */
 export async function searchWiki(
   query: string,
   limit = 20,
+  options: SearchOptions = {},
 ): Promise<SearchResult[]> {
   if (!query.trim()) return [];
 
-  const results = await searchServer(query, limit);
+  const results = await searchServer(query, limit, options.mode ?? "fts");
   return results ?? [];
 }
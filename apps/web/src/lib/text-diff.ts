@@ -0,0 +1,144 @@
+/**
+ * Line-level text diff for the page history viewer (/wiki/[id]/history).
+ *
+ * LCS over the lines between the common prefix and suffix, which is plenty
+ * for a single MDX page. Very large changed regions fall back to a plain
+ * remove-then-add block instead of an O(n·m) table.
+ */
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old text (absent for added lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (absent for removed lines) */
+  newLine?: number;
+}
+
+export type DiffHunk =
+  | { kind: "lines"; lines: DiffLine[] }
+  | { kind: "skipped"; count: number };
+
+/** Above this many LCS cells the changed region is shown as a block replace. */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLineType[] {
+  const n = a.length;
+  const m = b.length;
+  // table[i][j] = LCS length of a[i..] and b[j..], flattened row-major
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffLineType[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push("same");
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push("removed");
+      i++;
+    } else {
+      ops.push("added");
+      j++;
+    }
+  }
+  while (i++ < n) ops.push("removed");
+  while (j++ < m) ops.push("added");
+  return ops;
+}
+
+/** Diff two texts line by line. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const midOps: DiffLineType[] =
+    midA.length * midB.length > MAX_LCS_CELLS
+      ? [...midA.map(() => "removed" as const), ...midB.map(() => "added" as const)]
+      : lcsDiff(midA, midB);
+
+  const ops: DiffLineType[] = [
+    ...Array<DiffLineType>(prefix).fill("same"),
+    ...midOps,
+    ...Array<DiffLineType>(suffix).fill("same"),
+  ];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const type of ops) {
+    if (type === "same") {
+      lines.push({ type, text: b[j], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (type === "removed") {
+      lines.push({ type, text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ type, text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Group diff lines into hunks, keeping `context` unchanged lines around each
+ * change and collapsing longer unchanged runs into "skipped" markers.
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, idx) => {
+    if (line.type === "same") return;
+    const from = Math.max(0, idx - context);
+    const to = Math.min(lines.length - 1, idx + context);
+    for (let k = from; k <= to; k++) keep[k] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let k = 0;
+  while (k < lines.length) {
+    const start = k;
+    const kept = keep[k];
+    while (k < lines.length && keep[k] === kept) k++;
+    hunks.push(
+      kept
+        ? { kind: "lines", lines: lines.slice(start, k) }
+        : { kind: "skipped", count: k - start }
+    );
+  }
+  return hunks;
+}
@@ -0,0 +1,18 @@
+-- Scoped, revocable API keys. Replaces the single shared
+-- LONGTERMWIKI_SERVER_API_KEY for service clients (the env key keeps working
+-- as a bootstrap admin key). Only SHA-256 hashes of tokens are stored.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,                       -- holder: 'discord-bot', 'groundskeeper'
+  prefix TEXT NOT NULL,                     -- 'lwk_Ab3dE9xQ' (display only)
+  key_hash TEXT NOT NULL UNIQUE,            -- sha256 hex of the full token
+  scopes JSONB NOT NULL DEFAULT '[]'::jsonb, -- ["read", "write:content", "admin"]
+  created_by TEXT,
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_name ON api_keys(name);
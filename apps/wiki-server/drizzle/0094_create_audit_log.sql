@@ -0,0 +1,25 @@
+-- Audit log of mutating wiki-server requests. Written by the audit middleware
+-- (src/audit.ts) after every POST/PUT/PATCH/DELETE under /api, so bulk syncs
+-- and deletions can be traced back to the API key and CI run that made them.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor TEXT,                                    -- api key name ('env' for the shared key)
+  actor_key_id TEXT,                             -- api_keys.id, or 'env'
+  caller TEXT,                                   -- X-Caller header, e.g. 'github-actions:auto-update#123'
+  method TEXT NOT NULL,
+  route TEXT NOT NULL,                           -- '/api/pages/:id'
+  path TEXT NOT NULL,                            -- '/api/pages/anthropic'
+  target_ids JSONB NOT NULL DEFAULT '[]'::jsonb, -- ["anthropic", "openai"]
+  body_hash TEXT,                                -- sha256 hex of the raw request body
+  status INTEGER NOT NULL,
+  before JSONB,
+  after JSONB,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_route ON audit_log(route);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_ids ON audit_log USING GIN (target_ids);
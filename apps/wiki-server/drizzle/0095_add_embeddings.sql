@@ -0,0 +1,10 @@
+-- Embedding vectors for hybrid (FTS + semantic) search. Stored as plain
+-- REAL[] so no extension is needed; similarity is computed in the server
+-- against an in-memory index (see src/embedding-index.ts). Vectors are
+-- tagged with the model that produced them so models are never mixed.
+
+ALTER TABLE wiki_pages ADD COLUMN IF NOT EXISTS embedding REAL[];
+ALTER TABLE wiki_pages ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS embedding REAL[];
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS embedding_model TEXT;
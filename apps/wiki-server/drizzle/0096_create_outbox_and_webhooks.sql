@@ -0,0 +1,43 @@
+-- Change-event outbox plus HTTP webhook registrations and deliveries.
+-- Mutation routes write an outbox_events row in the same transaction as the
+-- change; GET /api/events/stream relays new rows over SSE, and the webhook
+-- dispatcher (src/webhooks.ts) POSTs them to every matching webhook with an
+-- HMAC signature, retrying failed deliveries with exponential backoff.
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+  id BIGSERIAL PRIMARY KEY,
+  type TEXT NOT NULL,                            -- 'page.synced', 'fact.changed', ...
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_events_type ON outbox_events(type);
+CREATE INDEX IF NOT EXISTS idx_outbox_events_created_at ON outbox_events(created_at);
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id BIGSERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,                          -- HMAC-SHA256 signing key
+  event_types JSONB,                             -- ["page.synced"]; NULL = all types
+  description TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id BIGINT NOT NULL REFERENCES outbox_events(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',        -- pending | delivered | failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_event
+  ON webhook_deliveries(webhook_id, event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(status, next_attempt_at);
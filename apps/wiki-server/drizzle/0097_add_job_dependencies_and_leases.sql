@@ -0,0 +1,19 @@
+-- Job graphs, delayed runs and leases for the job queue.
+--
+-- depends_on:       job IDs that must be 'completed' before this job can be
+--                   claimed; if one fails or is cancelled, dependents are
+--                   cancelled too (see routes/jobs.ts)
+-- run_after:        not claimable before this time (scheduled runs, retry backoff)
+-- lease_expires_at: set on claim and renewed by POST /api/jobs/:id/heartbeat;
+--                   expired leases are reaped back to pending (counting as a retry)
+-- idempotency_key:  a second create with the same key returns the existing job
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS depends_on BIGINT[];
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_key ON jobs(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_jobs_depends_on ON jobs USING gin(depends_on);
+CREATE INDEX IF NOT EXISTS idx_jobs_lease_expires_at ON jobs(lease_expires_at)
+  WHERE status IN ('claimed', 'running');
@@ -0,0 +1,24 @@
+-- Citation drift: a cited source's text changed since its quotes were verified.
+--
+-- One row per (quote, detection). Written by `crux citations drift`, which
+-- re-fetches cited URLs, diffs against citation_content, and re-runs quote
+-- verification. quote_found = false means the quote is no longer in the
+-- source; the quote itself is marked unverified with method 'source-changed'.
+
+CREATE TABLE IF NOT EXISTS citation_drift_events (
+  id BIGSERIAL PRIMARY KEY,
+  page_id_int INTEGER NOT NULL,  -- wiki_pages.integer_id; no FK because integer_id was added via manual migration (phase4a), not Drizzle
+  footnote INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  previous_hash TEXT,
+  current_hash TEXT NOT NULL,
+  previous_length INTEGER,
+  current_length INTEGER NOT NULL,
+  quote_found BOOLEAN NOT NULL,
+  verification_score REAL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cde_page_id_int ON citation_drift_events(page_id_int);
+CREATE INDEX IF NOT EXISTS idx_cde_url ON citation_drift_events(url);
+CREATE INDEX IF NOT EXISTS idx_cde_detected_at ON citation_drift_events(detected_at);
@@ -0,0 +1,30 @@
+-- Page revisions: before/after content of an AI edit plus its semantic diff.
+--
+-- One row per applied change. Written by the page improver after the edited
+-- MDX is written to disk, replacing the local-only .claude/snapshots store as
+-- the durable audit trail. claim_diff holds the SemanticDiff (added, removed
+-- and changed claims); contradictions holds the ContradictionResult. The
+-- summary counts are denormalized so the revision list doesn't read jsonb.
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  page_id_int INTEGER NOT NULL,  -- wiki_pages.integer_id; no FK because integer_id was added via manual migration (phase4a), not Drizzle
+  agent TEXT NOT NULL,
+  tier TEXT,
+  content_before TEXT NOT NULL,
+  content_after TEXT NOT NULL,
+  hash_before TEXT NOT NULL,
+  hash_after TEXT NOT NULL,
+  claims_added INTEGER NOT NULL DEFAULT 0,
+  claims_removed INTEGER NOT NULL DEFAULT 0,
+  claims_changed INTEGER NOT NULL DEFAULT 0,
+  contradiction_count INTEGER NOT NULL DEFAULT 0,
+  assessment TEXT NOT NULL,
+  issues JSONB,
+  claim_diff JSONB NOT NULL,
+  contradictions JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prev_page_id_int ON page_revisions(page_id_int);
+CREATE INDEX IF NOT EXISTS idx_prev_created_at ON page_revisions(created_at);
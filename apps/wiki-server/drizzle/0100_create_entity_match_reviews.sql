@@ -0,0 +1,26 @@
+-- Entity match review queue: names importers (grants, key persons, careers)
+-- could not confidently resolve to an entity.
+--
+-- One row per (raw name, expected type); entity_type is '' when the importer
+-- did not say. candidates holds the resolver's ranked matches at enqueue time.
+-- Accepted names are served as extra aliases by the resolve endpoint until the
+-- alias is written back to the entity's YAML.
+
+CREATE TABLE IF NOT EXISTS entity_match_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  raw_name TEXT NOT NULL,
+  entity_type TEXT NOT NULL DEFAULT '',
+  parent_hint TEXT,
+  source TEXT NOT NULL,
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  candidates JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  resolved_stable_id TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_emr_name_type ON entity_match_reviews(raw_name, entity_type);
+CREATE INDEX IF NOT EXISTS idx_emr_status ON entity_match_reviews(status);
@@ -0,0 +1,18 @@
+-- Record the inserting transaction on each outbox event.
+--
+-- outbox_events.id comes from a sequence, so ids are assigned at insert time,
+-- not commit time: a transaction can commit event 6 while event 5 is still in
+-- flight. A consumer that had already advanced its cursor past 6 would never
+-- see 5. Readers (GET /api/events, the SSE stream) instead order by
+-- (txid, id) and only hand out events from transactions older than the
+-- oldest one still running (pg_snapshot_xmin), so every event is visible
+-- before the cursor passes it.
+--
+-- txid is managed here rather than in schema.ts (Drizzle has no xid8 type).
+-- Existing rows all get this migration's transaction id and keep their id
+-- order.
+
+ALTER TABLE outbox_events
+  ADD COLUMN IF NOT EXISTS txid xid8 NOT NULL DEFAULT pg_current_xact_id();
+
+CREATE INDEX IF NOT EXISTS idx_outbox_events_txid_id ON outbox_events(txid, id);
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Hono } from "hono";
+import { mockDbModule } from "./test-utils.js";
+
+// ---- In-memory store simulating Postgres api_keys table ----
+
+let keysStore: Map<number, Record<string, unknown>>;
+let nextId: number;
+let hashLookups: number;
+
+function resetStore() {
+  keysStore = new Map();
+  nextId = 1;
+  hashLookups = 0;
+}
+
+/** Resolve a VALUES entry: "default" or a "$n" placeholder. */
+function valueFor(token: string, params: unknown[]): unknown {
+  const m = token.trim().match(/^\$(\d+)$/);
+  return m ? params[Number(m[1]) - 1] : undefined;
+}
+
+const dispatch = (query: string, params: unknown[]): unknown[] => {
+  const q = query.toLowerCase();
+
+  if (q.startsWith('insert into "api_keys"')) {
+    const cols = [...query.match(/\(([^)]+)\)\s+values/i)![1].matchAll(/"(\w+)"/g)].map(
+      (m) => m[1]
+    );
+    const vals = query.match(/values\s*\((.+?)\)\s*returning/is)![1].split(",");
+    const row: Record<string, unknown> = {
+      id: nextId++,
+      scopes: [],
+      created_by: null,
+      expires_at: null,
+      last_used_at: null,
+      revoked_at: null,
+      created_at: new Date(Date.now() + nextId), // keep list order stable
+    };
+    cols.forEach((col, i) => {
+      const v = valueFor(vals[i], params);
+      if (v === undefined) return;
+      row[col] = col === "scopes" && typeof v === "string" ? JSON.parse(v) : v;
+    });
+    keysStore.set(row.id as number, row);
+    return [row];
+  }
+
+  if (q.startsWith('update "api_keys"')) {
+    const id = Number(params[params.length - 1]);
+    const row = keysStore.get(id);
+    if (!row) return [];
+    const col = q.includes('"revoked_at"') ? "revoked_at" : "last_used_at";
+    row[col] = params[0];
+    return [row];
+  }
+
+  if (q.includes('from "api_keys"')) {
+    if (q.includes('"key_hash" =')) {
+      hashLookups++;
+      return [...keysStore.values()].filter((r) => r.key_hash === params[0]);
+    }
+    return [...keysStore.values()].reverse();
+  }
+
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+const { clearApiKeyCache } = await import("../auth.js");
+
+const ENV_KEY = "test-env-key";
+
+function request(app: Hono, path: string, token: string, init: RequestInit = {}) {
+  return app.request(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  });
+}
+
+async function mintKey(app: Hono, body: Record<string, unknown>) {
+  const res = await request(app, "/api/admin/keys", ENV_KEY, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  expect(res.status).toBe(201);
+  return (await res.json()) as { key: { id: number; prefix: string }; token: string };
+}
+
+describe("API keys", () => {
+  let app: Hono;
+  let savedKey: string | undefined;
+
+  beforeEach(() => {
+    savedKey = process.env.LONGTERMWIKI_SERVER_API_KEY;
+    process.env.LONGTERMWIKI_SERVER_API_KEY = ENV_KEY;
+    resetStore();
+    clearApiKeyCache();
+    app = createApp();
+  });
+
+  afterEach(() => {
+    if (savedKey === undefined) delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    else process.env.LONGTERMWIKI_SERVER_API_KEY = savedKey;
+  });
+
+  it("mints a key with the env key and never returns the hash", async () => {
+    const { key, token } = await mintKey(app, { name: "ci-sync", scopes: ["read"] });
+    expect(token.startsWith(key.prefix)).toBe(true);
+    expect(key).not.toHaveProperty("keyHash");
+
+    const res = await request(app, "/api/admin/keys", ENV_KEY);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.total).toBe(1);
+    expect(body.keys[0].name).toBe("ci-sync");
+    expect(body.keys[0].createdBy).toBe("env");
+  });
+
+  it("rejects unknown scopes", async () => {
+    const res = await request(app, "/api/admin/keys", ENV_KEY, {
+      method: "POST",
+      body: JSON.stringify({ name: "bad", scopes: ["write:everything"] }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects expiry dates in the past", async () => {
+    const res = await request(app, "/api/admin/keys", ENV_KEY, {
+      method: "POST",
+      body: JSON.stringify({ name: "old", scopes: ["read"], expiresAt: "2000-01-01T00:00:00Z" }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("enforces scopes per route group", async () => {
+    const { token } = await mintKey(app, { name: "facts-writer", scopes: ["write:facts"] });
+
+    // write:facts passes the facts group scope check (the route itself may
+    // then reject the empty body, but not with 401/403)
+    const allowed = await request(app, "/api/facts/sync", token, {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+    expect([401, 403]).not.toContain(allowed.status);
+
+    // ...but cannot write to the content group
+    const denied = await request(app, "/api/pages/sync", token, {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+    expect(denied.status).toBe(403);
+    expect(await denied.text()).toContain("write:content");
+  });
+
+  it("does not let non-admin keys manage keys", async () => {
+    const { token } = await mintKey(app, { name: "reader", scopes: ["read"] });
+    const res = await request(app, "/api/admin/keys", token);
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects revoked keys with 401", async () => {
+    const { key, token } = await mintKey(app, { name: "temp", scopes: ["admin"] });
+    expect((await request(app, "/api/admin/keys", token)).status).toBe(200);
+
+    const revoke = await request(app, `/api/admin/keys/${key.id}`, ENV_KEY, {
+      method: "DELETE",
+    });
+    expect(revoke.status).toBe(200);
+
+    const res = await request(app, "/api/admin/keys", token);
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 404 when revoking an unknown key", async () => {
+    const res = await request(app, "/api/admin/keys/999", ENV_KEY, { method: "DELETE" });
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects unknown lwk_ tokens with 401", async () => {
+    const res = await request(app, "/api/admin/keys", "lwk_not-a-real-key");
+    expect(res.status).toBe(401);
+  });
+
+  it("keeps known keys cached when flooded with unknown tokens", async () => {
+    const { token } = await mintKey(app, { name: "reader", scopes: ["read"] });
+    expect((await request(app, "/api/pages", token)).status).not.toBe(401);
+
+    for (let i = 0; i < 300; i++) {
+      const res = await request(app, "/api/pages", `lwk_guess-${i}`);
+      expect(res.status).toBe(401);
+    }
+
+    // The key is still served from cache, without another lookup
+    const lookups = hashLookups;
+    expect((await request(app, "/api/pages", token)).status).not.toBe(401);
+    expect(hashLookups).toBe(lookups);
+  });
+
+  it("throttles guessed tokens per IP before looking them up", async () => {
+    for (let i = 0; i < 2_000; i++) {
+      const res = await request(app, "/api/pages/sync", `lwk_guess-${i}`, { method: "POST" });
+      expect(res.status).toBe(401);
+    }
+    const lookups = hashLookups;
+
+    const res = await request(app, "/api/pages/sync", "lwk_guess-2000", { method: "POST" });
+    expect(res.status).toBe(429);
+    expect(hashLookups).toBe(lookups);
+  });
+
+  it("gives each key from the same IP its own full write budget", async () => {
+    const a = await mintKey(app, { name: "ci-sync", scopes: ["write:content"] });
+    const b = await mintKey(app, { name: "crux-cli", scopes: ["write:content"] });
+
+    for (const { token } of [a, b]) {
+      for (let i = 0; i < 200; i++) {
+        const res = await request(app, "/api/pages/sync", token, { method: "POST", body: "{}" });
+        expect(res.status).not.toBe(429);
+      }
+      const res = await request(app, "/api/pages/sync", token, { method: "POST", body: "{}" });
+      expect(res.status).toBe(429);
+    }
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Hono } from "hono";
+import { mockDbModule, postJson } from "./test-utils.js";
+
+// ---- Capture audit_log inserts and answer audit_log selects ----
+
+interface CapturedQuery {
+  query: string;
+  params: unknown[];
+}
+
+let auditInserts: CapturedQuery[];
+let auditSelects: CapturedQuery[];
+
+const dispatch = (query: string, params: unknown[]): unknown[] => {
+  const q = query.toLowerCase();
+  if (q.startsWith('insert into "audit_log"')) {
+    auditInserts.push({ query, params });
+    return [];
+  }
+  if (q.includes('from "audit_log"')) {
+    auditSelects.push({ query, params });
+    if (q.includes("count(")) return [{ count: 0 }];
+    return [];
+  }
+  // wiki_pages DELETE ... RETURNING for the page delete test
+  if (q.startsWith('delete from "wiki_pages"')) {
+    return [{ id: params[0], title: "Doomed Page", category: "organizations" }];
+  }
+  // One of the two synced benchmarks already exists
+  if (q.startsWith('select count(*) from "benchmarks"')) {
+    return [{ count: 1 }];
+  }
+  // Quote mark-verified: slug lookup, prior state, update
+  if (q.includes('from "entity_ids"')) {
+    return [{ numeric_id: 7 }];
+  }
+  if (q.startsWith("select") && q.includes('from "citation_quotes"')) {
+    return [
+      {
+        quote_verified: false,
+        verification_method: "text-match",
+        verification_score: 0.2,
+        accuracy_verdict: "inaccurate",
+        accuracy_score: 0.1,
+      },
+    ];
+  }
+  if (q.startsWith('update "citation_quotes"')) {
+    return [{ id: 1, page_id: "anthropic", footnote: 3 }];
+  }
+  // Job cancel: the cancelled job had been claimed
+  if (q.startsWith('update "jobs"') && q.includes("in ('pending', 'claimed')")) {
+    return [
+      { id: 42, type: "enrich", status: "cancelled", claimed_at: new Date("2026-01-01"), depends_on: [] },
+    ];
+  }
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+const { extractTargetIds, summarizeResponse, MAX_AUDIT_TARGET_IDS } = await import("../audit.js");
+
+/** Let the fire-and-forget audit insert run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Parameters of the single captured insert, as a string for loose matching. */
+function insertedParams(): string {
+  expect(auditInserts).toHaveLength(1);
+  return JSON.stringify(auditInserts[0].params);
+}
+
+describe("extractTargetIds", () => {
+  it("collects id fields at the top level and in arrays", () => {
+    expect(
+      extractTargetIds({
+        pageId: "anthropic",
+        pages: [{ id: "openai" }, { id: "deepmind", entityId: "E22" }],
+        ids: ["x", "y"],
+        note: "ignored",
+      }).sort()
+    ).toEqual(["E22", "anthropic", "deepmind", "openai", "x", "y"]);
+  });
+
+  it("caps the number of IDs", () => {
+    const items = Array.from({ length: 500 }, (_, i) => ({ id: `p${i}` }));
+    expect(extractTargetIds({ items })).toHaveLength(MAX_AUDIT_TARGET_IDS);
+  });
+
+  it("ignores non-object bodies", () => {
+    expect(extractTargetIds(null)).toEqual([]);
+    expect(extractTargetIds("text")).toEqual([]);
+  });
+});
+
+describe("summarizeResponse", () => {
+  it("keeps scalars, counts arrays, and drops secrets", () => {
+    expect(
+      summarizeResponse({ upserted: 3, ok: true, status: "done", token: "lwk_x", errors: [1, 2] })
+    ).toEqual({ upserted: 3, ok: true, status: "done", errorsCount: 2 });
+  });
+
+  it("returns null for non-object bodies", () => {
+    expect(summarizeResponse([1, 2])).toBeNull();
+    expect(summarizeResponse({ nested: { a: 1 } })).toBeNull();
+  });
+});
+
+describe("audit middleware", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    auditInserts = [];
+    auditSelects = [];
+    app = createApp();
+  });
+
+  it("does not audit reads", async () => {
+    await app.request("/api/audit");
+    await flush();
+    expect(auditInserts).toHaveLength(0);
+  });
+
+  it("records route, target IDs, body hash, and before/after for a page delete", async () => {
+    const res = await app.request("/api/pages/doomed", {
+      method: "DELETE",
+      headers: { "X-Caller": "github-actions:cleanup#7" },
+    });
+    expect(res.status).toBe(200);
+    await flush();
+
+    const params = insertedParams();
+    expect(params).toContain('"DELETE"');
+    expect(params).toContain('"/api/pages/:id"');
+    expect(params).toContain('"/api/pages/doomed"');
+    expect(params).toContain("github-actions:cleanup#7");
+    expect(params).toContain("Doomed Page"); // before summary
+    expect(params).toContain('\\"deleted\\":1'); // after summary
+  });
+
+  it("records how many rows a sync overwrites", async () => {
+    const res = await postJson(app, "/api/benchmarks/sync", {
+      items: [
+        { id: "b1", slug: "mmlu", name: "MMLU" },
+        { id: "b2", slug: "gpqa", name: "GPQA" },
+      ],
+    });
+    expect(res.status).toBe(200);
+    await flush();
+
+    const params = insertedParams();
+    expect(params).toContain('\\"existing\\":1');
+    expect(params).toContain('\\"matchedOn\\":\\"id\\"');
+  });
+
+  it("records a quote's prior verification state on mark-verified", async () => {
+    const res = await postJson(app, "/api/citations/quotes/mark-verified", {
+      pageId: "anthropic",
+      footnote: 3,
+      method: "llm",
+      score: 0.9,
+    });
+    expect(res.status).toBe(200);
+    await flush();
+
+    const params = insertedParams();
+    expect(params).toContain('\\"quoteVerified\\":false');
+    expect(params).toContain('\\"accuracyVerdict\\":\\"inaccurate\\"');
+  });
+
+  it("records the status a job is transitioned from", async () => {
+    const res = await app.request("/api/jobs/42/cancel", { method: "POST" });
+    expect(res.status).toBe(200);
+    await flush();
+
+    expect(insertedParams()).toContain('\\"status\\":\\"claimed\\"');
+  });
+
+  it("records failed writes with their status and body hash", async () => {
+    const res = await postJson(app, "/api/pages/sync", { pages: [{ id: "bad" }] });
+    expect(res.status).toBe(400);
+    await flush();
+
+    const params = insertedParams();
+    expect(params).toContain('"/api/pages/sync"');
+    expect(auditInserts[0].params).toContain('["bad"]');
+    expect(params).toMatch(/"[0-9a-f]{64}"/);
+    expect(auditInserts[0].params).toContain(400);
+  });
+
+  it("records the API key identity when auth is configured", async () => {
+    process.env.LONGTERMWIKI_SERVER_API_KEY = "env-secret";
+    try {
+      app = createApp();
+      await app.request("/api/pages/doomed", {
+        method: "DELETE",
+        headers: { Authorization: "Bearer env-secret" },
+      });
+      await flush();
+      expect(auditInserts[0].params.filter((p) => p === "env")).toHaveLength(2);
+    } finally {
+      delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    }
+  });
+});
+
+describe("GET /api/audit", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    auditInserts = [];
+    auditSelects = [];
+    app = createApp();
+  });
+
+  afterEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+  });
+
+  it("applies route, entity, and time filters", async () => {
+    const res = await app.request(
+      "/api/audit?route=/api/pages&entity=anthropic&since=2026-01-01&until=2026-02-01T00:00:00Z"
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ entries: [], total: 0, limit: 100, offset: 0 });
+
+    const { query, params } = auditSelects[0];
+    expect(query).toContain('"route" like');
+    expect(query).toContain("@>");
+    expect(params).toContain("/api/pages%");
+    expect(params).toContain('["anthropic"]');
+  });
+
+  it("rejects invalid dates", async () => {
+    const res = await app.request("/api/audit?since=not-a-date");
+    expect(res.status).toBe(400);
+  });
+
+  it("is behind API key auth", async () => {
+    process.env.LONGTERMWIKI_SERVER_API_KEY = "env-secret";
+    app = createApp();
+    const res = await app.request("/api/audit", {
+      headers: { Authorization: "Bearer lwk_unknown" },
+    });
+    expect(res.status).toBe(401);
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { Hono } from "hono";
-import { validateApiKey, verifyToken } from "../auth.js";
+import {
+  validateApiKey,
+  verifyToken,
+  hasScope,
+  requireScope,
+  generateApiKey,
+  hashApiKey,
+} from "../auth.js";
 
 describe("validateApiKey middleware", () => {
   let savedKey: string | undefined;
@@ -92,3 +99,68 @@ describe("verifyToken", () => {
     expect(verifyToken("secret", "secret-key")).toBe(false);
   });
 });
+
+describe("hasScope", () => {
+  it("admin grants everything", () => {
+    expect(hasScope(["admin"], "facts", "POST")).toBe(true);
+    expect(hasScope(["admin"], "admin", "GET")).toBe(true);
+  });
+
+  it("read allows only safe methods", () => {
+    expect(hasScope(["read"], "content", "GET")).toBe(true);
+    expect(hasScope(["read"], "content", "HEAD")).toBe(true);
+    expect(hasScope(["read"], "content", "POST")).toBe(false);
+  });
+
+  it("write:<group> allows reads and writes on that group only", () => {
+    expect(hasScope(["write:facts"], "facts", "POST")).toBe(true);
+    expect(hasScope(["write:facts"], "facts", "GET")).toBe(true);
+    expect(hasScope(["write:facts"], "content", "POST")).toBe(false);
+    expect(hasScope(["write:facts"], "content", "GET")).toBe(false);
+  });
+
+  it("only admin reaches the admin group", () => {
+    expect(hasScope(["read", "write:ops"], "admin", "GET")).toBe(false);
+  });
+});
+
+describe("requireScope middleware", () => {
+  function buildApp(scopes: string[] | null) {
+    const app = new Hono();
+    app.use("*", async (c, next) => {
+      if (scopes) c.set("apiKey", { id: "1", name: "ci", scopes });
+      await next();
+    });
+    app.use("/api/facts/*", requireScope("facts"));
+    app.get("/api/facts/list", (c) => c.json({ ok: true }));
+    app.post("/api/facts/sync", (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  it("passes through without an identity (dev mode)", async () => {
+    const res = await buildApp(null).request("/api/facts/sync", { method: "POST" });
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 naming the missing scope", async () => {
+    const res = await buildApp(["read"]).request("/api/facts/sync", { method: "POST" });
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain('lacks the "write:facts" scope');
+  });
+
+  it("allows requests the scopes cover", async () => {
+    const app = buildApp(["write:facts"]);
+    expect((await app.request("/api/facts/list")).status).toBe(200);
+    expect((await app.request("/api/facts/sync", { method: "POST" })).status).toBe(200);
+  });
+});
+
+describe("generateApiKey", () => {
+  it("returns a prefixed token, its hash, and a display prefix", () => {
+    const { token, hash, prefix } = generateApiKey();
+    expect(token.startsWith("lwk_")).toBe(true);
+    expect(hash).toBe(hashApiKey(token));
+    expect(token.startsWith(prefix)).toBe(true);
+    expect(generateApiKey().token).not.toBe(token);
+  });
+});
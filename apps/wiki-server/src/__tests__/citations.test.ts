@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Hono } from "hono";
 import { mockDbModule, postJson } from "./test-utils.js";
-import type { citationQuotes, citationAccuracySnapshots, citationContent } from "../schema.js";
+import type { citationQuotes, citationAccuracySnapshots, citationContent, citationDriftEvents } from "../schema.js";
 
 // ---- In-memory stores simulating Postgres tables ----
 // Store types are derived from the Drizzle schema so TypeScript catches column renames.
@@ -13,12 +13,15 @@ type QuoteRow = typeof citationQuotes.$inferSelect;
 type SnapshotRow = typeof citationAccuracySnapshots.$inferSelect;
 // citationContent.$inferSelect
 type ContentRow = typeof citationContent.$inferSelect;
+// citationDriftEvents.$inferSelect
+type DriftRow = typeof citationDriftEvents.$inferSelect;
 
 let nextQuoteId = 1;
 let nextSnapshotId = 1;
 let quotesStore: Map<string, QuoteRow>; // key: `${pageId_old}:${footnote}`
 let contentStore: Map<string, ContentRow>; // key: url
 let snapshotStore: Array<SnapshotRow>;
+let driftStore: Array<DriftRow>;
 
 let nextSlugIntId = 1000;
 const slugIntIdMap = new Map<string, number>();
@@ -45,6 +48,7 @@ function resetStores() {
   quotesStore = new Map();
   contentStore = new Map();
   snapshotStore = [];
+  driftStore = [];
   nextSlugIntId = 1000;
   slugIntIdMap.clear();
 }
@@ -121,6 +125,23 @@ function contentToSqlRow(r: ContentRow): Record<string, unknown> {
   };
 }
 
+/** Convert a DriftRow (camelCase) to a raw SQL row (snake_case). */
+function driftToSqlRow(r: DriftRow): Record<string, unknown> {
+  return {
+    id: r.id,
+    page_id_int: r.pageIdInt,
+    footnote: r.footnote,
+    url: r.url,
+    previous_hash: r.previousHash,
+    current_hash: r.currentHash,
+    previous_length: r.previousLength,
+    current_length: r.currentLength,
+    quote_found: r.quoteFound,
+    verification_score: r.verificationScore,
+    detected_at: r.detectedAt,
+  };
+}
+
 function dispatch(query: string, params: unknown[]): unknown[] {
   const q = query.toLowerCase();
 
@@ -498,6 +519,41 @@ function dispatch(query: string, params: unknown[]): unknown[] {
     }).map(quoteToSqlRow);
   }
 
+  // --- citation_drift_events: INSERT (supports multi-row) ---
+  if (q.includes("insert into") && q.includes("citation_drift_events")) {
+    const COLS = 9;
+    const rows: DriftRow[] = [];
+    for (let o = 0; o < params.length; o += COLS) {
+      const row: DriftRow = {
+        id: driftStore.length + 1,
+        pageIdInt: params[o] as number,
+        footnote: params[o + 1] as number,
+        url: params[o + 2] as string,
+        previousHash: params[o + 3] as string | null,
+        currentHash: params[o + 4] as string,
+        previousLength: params[o + 5] as number | null,
+        currentLength: params[o + 6] as number,
+        quoteFound: params[o + 7] as boolean,
+        verificationScore: params[o + 8] as number | null,
+        detectedAt: new Date(),
+      };
+      driftStore.push(row);
+      rows.push(row);
+    }
+    return rows.map(driftToSqlRow);
+  }
+
+  // --- citation_drift_events: SELECT WHERE page_id_int ORDER BY detected_at DESC LIMIT ---
+  if (q.includes("citation_drift_events") && q.includes("where")) {
+    const intId = params[0] as number;
+    const limit = (params[1] as number) || 100;
+    return driftStore
+      .filter((r) => r.pageIdInt === intId)
+      .reverse()
+      .slice(0, limit)
+      .map(driftToSqlRow);
+  }
+
   // --- citation_content: INSERT ... ON CONFLICT DO UPDATE ---
   if (q.includes("insert into") && q.includes("citation_content")) {
     const url = params[0] as string;
@@ -1047,6 +1103,53 @@ describe("Citation Server API", () => {
     });
   });
 
+  // ---- Drift ----
+
+  describe("POST /api/citations/drift-events", () => {
+    const drift = {
+      url: "https://example.com/policy",
+      previousHash: "a".repeat(64),
+      currentHash: "b".repeat(64),
+      previousLength: 1200,
+      currentLength: 900,
+    };
+
+    it("records one event per quote and skips unknown pages", async () => {
+      const res = await postJson(app, "/api/citations/drift-events", {
+        ...drift,
+        quotes: [
+          { pageId: "drift-page", footnote: 2, quoteFound: false, verificationScore: 0.2 },
+          { pageId: "drift-page", footnote: 5, quoteFound: true },
+          { pageId: "no-entity-id", footnote: 1, quoteFound: false },
+        ],
+      });
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({
+        url: drift.url,
+        recorded: 2,
+        skippedPages: ["no-entity-id"],
+      });
+
+      const list = await app.request("/api/citations/drift-events?page_id=drift-page");
+      const body = await list.json();
+      expect(body.events.map((e: { footnote: number; quoteFound: boolean }) => [e.footnote, e.quoteFound])).toEqual([
+        [5, true],
+        [2, false],
+      ]);
+      expect(body.events[1]).toMatchObject({ currentHash: drift.currentHash, verificationScore: 0.2 });
+    });
+
+    it("rejects a drift report with no quotes", async () => {
+      const res = await postJson(app, "/api/citations/drift-events", { ...drift, quotes: [] });
+      expect(res.status).toBe(400);
+    });
+
+    it("requires page_id when listing", async () => {
+      const res = await app.request("/api/citations/drift-events");
+      expect(res.status).toBe(400);
+    });
+  });
+
   // ---- Health ----
 
   describe("GET /api/citations/health/:pageId", () => {
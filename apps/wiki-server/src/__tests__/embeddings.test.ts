@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  cosineSimilarity,
+  stem,
+  tokenize,
+  HashingEmbeddingProvider,
+  getEmbeddingProvider,
+  registerEmbeddingProvider,
+} from "../embeddings.js";
+
+describe("cosineSimilarity", () => {
+  it("is 1 for identical directions and 0 for orthogonal vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("is 0 for zero vectors and mismatched lengths", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe("tokenize", () => {
+  it("lowercases, drops stopwords, and stems", () => {
+    expect(tokenize("Ways AI could deceive its overseers")).toEqual(["ai", "dece", "overse"]);
+  });
+
+  it("aligns inflections", () => {
+    expect(stem("deceives")).toBe(stem("deceive"));
+    expect(stem("training")).toBe("train");
+  });
+});
+
+describe("HashingEmbeddingProvider", () => {
+  const provider = new HashingEmbeddingProvider(256);
+
+  it("produces deterministic unit vectors of the configured size", async () => {
+    const [a, b] = await provider.embed(["AI safety", "AI safety"]);
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 4);
+  });
+
+  it("ranks related text above unrelated text", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "ways AI could deceive its overseers",
+      "Deceptive alignment: models that deceive their overseers during training",
+      "Compute governance: regulating access to chips and data centers",
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("tags vectors with its model name", () => {
+    expect(provider.model).toBe("hash-v1-256");
+  });
+});
+
+describe("provider registry", () => {
+  afterEach(() => {
+    delete process.env.EMBEDDING_MODEL;
+  });
+
+  it("defaults to the learned minilm model", () => {
+    expect(getEmbeddingProvider().model).toBe("minilm-l6-v2");
+    expect(getEmbeddingProvider().dimensions).toBe(384);
+  });
+
+  it("keeps the hashing model selectable", () => {
+    process.env.EMBEDDING_MODEL = "hash-v1-384";
+    expect(getEmbeddingProvider()).toBeInstanceOf(HashingEmbeddingProvider);
+  });
+
+  it("selects registered providers by EMBEDDING_MODEL", () => {
+    registerEmbeddingProvider(new HashingEmbeddingProvider(64));
+    process.env.EMBEDDING_MODEL = "hash-v1-64";
+    expect(getEmbeddingProvider().dimensions).toBe(64);
+  });
+
+  it("throws for unknown models", () => {
+    expect(() => getEmbeddingProvider("nope")).toThrow(/Unknown embedding model "nope"/);
+  });
+});
@@ -5,12 +5,17 @@ import { mockDbModule, postJson } from "./test-utils.js";
 // ---- In-memory store simulating Postgres entities table ----
 
 let entitiesStore: Map<string, Record<string, unknown>>;
+/** facts and things rows touched by POST /merge */
+let factsStore: Array<{ id: number; entity_id: string; subject: string | null }>;
+let thingsStore: Array<{ id: string; source_table: string; source_id: string; parent_thing_id: string | null }>;
 
 /** Captured dispatch calls for asserting SQL parameters. */
 let dispatchCalls: Array<{ query: string; params: unknown[] }>;
 
 function resetStores() {
   entitiesStore = new Map();
+  factsStore = [];
+  thingsStore = [];
   dispatchCalls = [];
 }
 
@@ -18,6 +23,43 @@ function dispatch(query: string, params: unknown[]): unknown[] {
   dispatchCalls.push({ query, params: [...params] });
   const q = query.toLowerCase();
 
+  // --- merge: UPDATE facts SET entity_id|subject = $1 WHERE ... = $2 ---
+  if (q.startsWith('update "facts"')) {
+    const column = q.includes('set "entity_id"') ? "entity_id" : "subject";
+    const moved = factsStore.filter((f) => f[column] === params[1]);
+    for (const f of moved) f[column] = params[0] as string;
+    return moved.map((f) => ({ id: f.id }));
+  }
+
+  // --- merge: summaries / match reviews (none in these tests) ---
+  if (q.includes('"summaries"') || q.includes('"entity_match_reviews"')) return [];
+
+  // --- merge: UPDATE things SET parent_thing_id = $1 WHERE parent_thing_id = $2 ---
+  if (q.startsWith('update "things"')) {
+    const moved = thingsStore.filter((t) => t.parent_thing_id === params[1]);
+    for (const t of moved) t.parent_thing_id = params[0] as string;
+    return moved.map((t) => ({ id: t.id }));
+  }
+
+  // --- merge: DELETE FROM things WHERE source_table = $1 AND source_id = $2 ---
+  if (q.startsWith('delete from "things"')) {
+    thingsStore = thingsStore.filter((t) => !(t.source_table === params[0] && t.source_id === params[1]));
+    return [];
+  }
+
+  // --- merge: UPDATE entities SET metadata = $1 WHERE id = $2 ---
+  if (q.startsWith('update "entities"')) {
+    const row = entitiesStore.get(params[1] as string);
+    if (row) row.metadata = typeof params[0] === "string" ? JSON.parse(params[0]) : params[0];
+    return [];
+  }
+
+  // --- merge: DELETE FROM entities WHERE id = $1 ---
+  if (q.startsWith('delete from "entities"')) {
+    entitiesStore.delete(params[0] as string);
+    return [];
+  }
+
   // --- ref-check: SELECT id FROM entities WHERE id IN (...) ---
   if (q.includes("as id from") && q.includes("where") && q.includes(" in ")) {
     // Return only IDs that exist in the entities store
@@ -598,4 +640,66 @@ describe("Entities API", () => {
       expect(res.status).toBe(200);
     });
   });
+
+  // ---- Merge ----
+
+  describe("POST /api/entities/merge", () => {
+    beforeEach(async () => {
+      await seedEntity(app, "center-for-ai-safety", "Center for AI Safety", {
+        stableId: "oa9A0OV0RX",
+        numericId: "E47",
+        metadata: { aliases: ["CAIS"] },
+      });
+      await seedEntity(app, "cais", "Center for AI Safety (CAIS)", {
+        stableId: "y4bieqSeag",
+        numericId: "E48",
+        metadata: { previousSlugs: ["cais-org"] },
+      });
+      factsStore.push(
+        { id: 1, entity_id: "y4bieqSeag", subject: null },
+        { id: 2, entity_id: "mK9pX3rQ7n", subject: "y4bieqSeag" },
+      );
+      thingsStore.push(
+        { id: "y4bieqSeag", source_table: "entities", source_id: "cais", parent_thing_id: null },
+        { id: "grant-1", source_table: "grants", source_id: "grant-1", parent_thing_id: "y4bieqSeag" },
+      );
+    });
+
+    it("re-points rows and records the dropped identifiers", async () => {
+      const res = await postJson(app, "/api/entities/merge", {
+        keepId: "center-for-ai-safety",
+        dropId: "E48",
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        kept: { id: "center-for-ai-safety", stableId: "oa9A0OV0RX" },
+        dropped: { id: "cais", stableId: "y4bieqSeag" },
+        moved: { facts: 1, summaries: 0, things: 1 },
+      });
+
+      expect(factsStore.map((f) => [f.entity_id, f.subject])).toEqual([
+        ["oa9A0OV0RX", null],
+        ["mK9pX3rQ7n", "oa9A0OV0RX"],
+      ]);
+      expect(thingsStore).toEqual([
+        { id: "grant-1", source_table: "grants", source_id: "grant-1", parent_thing_id: "oa9A0OV0RX" },
+      ]);
+      expect(entitiesStore.has("cais")).toBe(false);
+      expect(entitiesStore.get("center-for-ai-safety")!.metadata).toEqual({
+        aliases: ["CAIS", "Center for AI Safety (CAIS)"],
+        previousSlugs: ["cais", "cais-org"],
+        previousIds: ["y4bieqSeag"],
+      });
+    });
+
+    it("returns 404 for an unknown entity", async () => {
+      const res = await postJson(app, "/api/entities/merge", { keepId: "center-for-ai-safety", dropId: "nope" });
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects merging an entity into itself", async () => {
+      const res = await postJson(app, "/api/entities/merge", { keepId: "cais", dropId: "y4bieqSeag" });
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEntityResolver,
+  normalizeEntityName,
+  acronymOf,
+  nameVariants,
+  nameSimilarity,
+  isConfidentMatch,
+  needsReview,
+  type ResolverCandidate,
+  type ResolvedMatch,
+} from "../entity-matching.js";
+
+const candidates: ResolverCandidate[] = [
+  {
+    stableId: "mK9pX3rQ7n",
+    slug: "anthropic",
+    name: "Anthropic",
+    entityType: "organization",
+    numericId: "E22",
+    aliases: ["Anthropic PBC"],
+  },
+  { stableId: "anthInvest", slug: "anthropic-investors", name: "Anthropic (Funder)", entityType: "organization" },
+  { stableId: "miriStable", slug: "miri", name: "Machine Intelligence Research Institute", entityType: "organization" },
+  {
+    stableId: "cserStable",
+    slug: "cser",
+    name: "CSER (Centre for the Study of Existential Risk)",
+    entityType: "organization",
+  },
+  {
+    stableId: "epochStabl",
+    slug: "epoch-ai",
+    name: "Epoch AI",
+    entityType: "organization",
+    previousSlugs: ["epoch"],
+  },
+  { stableId: "darioStabl", slug: "dario-amodei", name: "Dario Amodei", entityType: "person", parents: ["anthropic"] },
+  { stableId: "jsmithOne1", slug: "john-smith-lab", name: "John Smith", entityType: "person", parents: ["DeepMind"] },
+  { stableId: "jsmithTwo2", slug: "john-smith-policy", name: "John Smith", entityType: "person", parents: ["GovAI"] },
+  { stableId: "scalingStb", slug: "scaling-laws", name: "Scaling Laws", entityType: "concept" },
+  { stableId: "scalingOrg", slug: "scaling-labs", name: "Scaling Labs", entityType: "organization" },
+];
+
+const resolver = createEntityResolver(candidates);
+const top = (matches: ResolvedMatch[]) => matches[0];
+
+describe("normalizeEntityName", () => {
+  it("drops legal suffixes, punctuation and a leading 'the'", () => {
+    expect(normalizeEntityName("OpenAI, Inc.")).toBe("openai");
+    expect(normalizeEntityName("The Centre for AI Safety Ltd")).toBe("center for ai safety");
+    expect(normalizeEntityName("Future of Life Institute")).toBe("future of life institute");
+  });
+
+  it("folds '&' and diacritics", () => {
+    expect(normalizeEntityName("Research & Development")).toBe("research and development");
+    expect(normalizeEntityName("Université de Montréal")).toBe("universite de montreal");
+  });
+
+  it("keeps a single word even if it looks like a suffix", () => {
+    expect(normalizeEntityName("Limited")).toBe("limited");
+  });
+});
+
+describe("acronymOf / nameVariants", () => {
+  it("takes initials of significant words, keeping short all-caps words whole", () => {
+    expect(acronymOf("Machine Intelligence Research Institute")).toBe("miri");
+    expect(acronymOf("Centre for the Study of Existential Risk")).toBe("cser");
+    expect(acronymOf("Center for AI Safety")).toBe("cais");
+    expect(acronymOf("Anthropic")).toBeNull();
+  });
+
+  it("splits an acronym parenthetical into both names", () => {
+    expect(nameVariants("CSER (Centre for the Study of Existential Risk)")).toEqual([
+      "CSER (Centre for the Study of Existential Risk)",
+      "CSER",
+      "Centre for the Study of Existential Risk",
+    ]);
+    expect(nameVariants("Long-Term Future Fund (LTFF)")).toHaveLength(3);
+  });
+
+  it("leaves qualifier parentheticals alone", () => {
+    expect(nameVariants("Anthropic (Funder)")).toEqual(["Anthropic (Funder)"]);
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("scores reordered words and typos", () => {
+    expect(nameSimilarity("epoch ai", "ai epoch")).toBe(1);
+    expect(nameSimilarity("redwood reserch", "redwood research")).toBeGreaterThan(0.7);
+    expect(nameSimilarity("anthropic", "openai")).toBeLessThan(0.3);
+  });
+});
+
+describe("createEntityResolver", () => {
+  it("resolves identifiers with full confidence", () => {
+    for (const id of ["mK9pX3rQ7n", "anthropic", "E22"]) {
+      expect(top(resolver.resolve({ name: id }))).toMatchObject({ slug: "anthropic", confidence: 1, matchedOn: "id" });
+    }
+  });
+
+  it("resolves previous slugs", () => {
+    const match = top(resolver.resolve({ name: "epoch" }));
+    expect(match).toMatchObject({ slug: "epoch-ai", matchedOn: "previous-slug" });
+    expect(match.confidence).toBeGreaterThan(0.95);
+  });
+
+  it("matches names after stripping legal suffixes, and aliases", () => {
+    expect(top(resolver.resolve({ name: "Anthropic, Inc." }))).toMatchObject({ slug: "anthropic", matchedOn: "name" });
+    expect(top(resolver.resolve({ name: "anthropic pbc" }))).toMatchObject({ slug: "anthropic" });
+  });
+
+  it("does not tie a qualified entity with the plain name", () => {
+    const matches = resolver.resolve({ name: "Anthropic, Inc." });
+    expect(matches[1].slug).toBe("anthropic-investors");
+    expect(isConfidentMatch(matches)).toBe(true);
+  });
+
+  it("matches acronyms in both directions", () => {
+    const fromAcronym = top(resolver.resolve({ name: "M.I.R.I." }));
+    expect(fromAcronym).toMatchObject({ slug: "miri", matchedOn: "acronym" });
+    expect(fromAcronym.confidence).toBeLessThan(0.9);
+
+    expect(top(resolver.resolve({ name: "Centre for the Study of Existential Risk" }))).toMatchObject({
+      slug: "cser",
+      matchedOn: "name",
+    });
+    expect(top(resolver.resolve({ name: "Center for the Study of Existential Risk" }))?.slug).toBe("cser");
+  });
+
+  it("ranks similar names below exact ones", () => {
+    const match = top(resolver.resolve({ name: "Epoch AI Research" }));
+    expect(match).toMatchObject({ slug: "epoch-ai", matchedOn: "similar" });
+    expect(match.confidence).toBeLessThan(0.9);
+  });
+
+  it("uses entity type to separate same-named entities", () => {
+    const untyped = resolver.resolve({ name: "Scaling Lab" });
+    const typed = resolver.resolve({ name: "Scaling Lab", entityType: "organization" });
+    expect(top(typed).slug).toBe("scaling-labs");
+    expect(top(typed).confidence).toBeGreaterThan(top(untyped).confidence);
+    expect(typed.find((m) => m.slug === "scaling-laws")!.confidence).toBeLessThan(
+      untyped.find((m) => m.slug === "scaling-laws")!.confidence,
+    );
+  });
+
+  it("uses parent context to separate namesakes", () => {
+    const ambiguous = resolver.resolve({ name: "John Smith", entityType: "person" });
+    expect(isConfidentMatch(ambiguous)).toBe(false);
+
+    const withParent = resolver.resolve({ name: "John Smith", entityType: "person", parent: "GovAI" });
+    expect(top(withParent).slug).toBe("john-smith-policy");
+    expect(isConfidentMatch(withParent)).toBe(true);
+  });
+
+  it("matches parent context given as a slug against a parent given as a name", () => {
+    const match = top(resolver.resolve({ name: "Dario Amodei", parent: "Anthropic" }));
+    const plain = top(resolver.resolve({ name: "Dario Amodei" }));
+    expect(match.confidence).toBeGreaterThan(plain.confidence);
+  });
+
+  it("respects limit and minConfidence", () => {
+    expect(resolver.resolve({ name: "Anthropic" }, { limit: 1 })).toHaveLength(1);
+    expect(resolver.resolve({ name: "Completely Unrelated Thing" })).toEqual([]);
+    expect(resolver.resolve({ name: "   " })).toEqual([]);
+  });
+});
+
+describe("isConfidentMatch / needsReview", () => {
+  const match = (confidence: number, matchedOn: ResolvedMatch["matchedOn"] = "name"): ResolvedMatch => ({
+    stableId: "x",
+    slug: "x",
+    name: "X",
+    entityType: "organization",
+    confidence,
+    matchedOn,
+    matchedText: "X",
+  });
+
+  it("requires a high, unambiguous top match", () => {
+    expect(isConfidentMatch([match(0.95)])).toBe(true);
+    expect(isConfidentMatch([match(0.85)])).toBe(false);
+    expect(isConfidentMatch([match(0.95), match(0.93)])).toBe(false);
+    expect(isConfidentMatch([match(1, "id"), match(0.98)])).toBe(true);
+    expect(isConfidentMatch([])).toBe(false);
+  });
+
+  it("queues plausible but unconfirmed matches", () => {
+    expect(needsReview([match(0.7)])).toBe(true);
+    expect(needsReview([match(0.95)])).toBe(false);
+    expect(needsReview([match(0.45)])).toBe(false);
+    expect(needsReview([])).toBe(false);
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { type SqlDispatcher, mockDbModule, postJson } from "./test-utils";
+import type { entityMatchReviews } from "../schema.js";
+
+// ---- In-memory stores simulating entities and entity_match_reviews ----
+
+type ReviewRow = typeof entityMatchReviews.$inferSelect;
+
+const entityRows = [
+  {
+    id: "anthropic",
+    stable_id: "mK9pX3rQ7n",
+    numeric_id: "E22",
+    entity_type: "organization",
+    title: "Anthropic",
+    metadata: { aliases: ["Anthropic AI"] },
+  },
+  {
+    id: "miri",
+    stable_id: "miriStable",
+    numeric_id: "E10",
+    entity_type: "organization",
+    title: "Machine Intelligence Research Institute",
+    metadata: null,
+  },
+  {
+    id: "epoch-ai",
+    stable_id: "epochStabl",
+    numeric_id: "E11",
+    entity_type: "organization",
+    title: "Epoch AI",
+    metadata: { previousSlugs: ["epoch"] },
+  },
+];
+
+let nextId = 1;
+let reviews: ReviewRow[];
+
+function resetStores() {
+  reviews = [];
+  nextId = 1;
+}
+
+function toSqlRow(r: ReviewRow): Record<string, unknown> {
+  return {
+    id: r.id,
+    raw_name: r.rawName,
+    entity_type: r.entityType,
+    parent_hint: r.parentHint,
+    source: r.source,
+    occurrences: r.occurrences,
+    candidates: r.candidates,
+    status: r.status,
+    resolved_stable_id: r.resolvedStableId,
+    reviewed_by: r.reviewedBy,
+    reviewed_at: r.reviewedAt,
+    created_at: r.createdAt,
+    updated_at: r.updatedAt,
+  };
+}
+
+function parseJson(value: unknown) {
+  return typeof value === "string" ? JSON.parse(value) : value;
+}
+
+/** Columns Drizzle binds per inserted review row (the rest use DEFAULT). */
+const INSERT_PARAMS_PER_ROW = 7;
+
+const dispatch: SqlDispatcher = (query, params) => {
+  const q = query.toLowerCase();
+
+  // ---- health check ----
+  if (q.includes("count(*)") && q.includes("entity_ids")) return [{ count: 0 }];
+  if (q.includes("last_value")) return [{ last_value: 0, is_called: false }];
+
+  // ---- resolveEntityStableId ----
+  if (q.includes('from "entities"') && q.includes("where")) {
+    const id = String(params[0]);
+    return entityRows
+      .filter((e) => e.stable_id === id || e.id === id || e.numeric_id === id)
+      .map((e) => ({ stable_id: e.stable_id }));
+  }
+
+  // ---- candidates for /resolve ----
+  if (q.includes('from "entities"')) return entityRows;
+
+  // ---- INSERT ... ON CONFLICT (raw_name, entity_type) DO UPDATE ----
+  if (q.includes("insert into") && q.includes("entity_match_reviews")) {
+    const out: ReviewRow[] = [];
+    const rowCount = Math.floor(params.length / INSERT_PARAMS_PER_ROW);
+    for (let i = 0; i < rowCount; i++) {
+      // raw_name, entity_type, parent_hint, source, candidates, created_at, updated_at
+      const p = params.slice(i * INSERT_PARAMS_PER_ROW, (i + 1) * INSERT_PARAMS_PER_ROW);
+      const existing = reviews.find((r) => r.rawName === p[0] && r.entityType === p[1]);
+      if (existing) {
+        existing.occurrences++;
+        existing.candidates = parseJson(p[4]);
+        out.push(existing);
+        continue;
+      }
+      const row: ReviewRow = {
+        id: nextId++,
+        rawName: p[0] as string,
+        entityType: p[1] as string,
+        parentHint: p[2] as string | null,
+        source: p[3] as string,
+        occurrences: 1,
+        candidates: parseJson(p[4]),
+        status: "pending",
+        resolvedStableId: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      reviews.push(row);
+      out.push(row);
+    }
+    return out.map(toSqlRow);
+  }
+
+  // ---- UPDATE entity_match_reviews SET status ... WHERE id ----
+  if (q.startsWith("update") && q.includes("entity_match_reviews")) {
+    // status, resolved_stable_id, reviewed_by, reviewed_at, updated_at, id
+    const row = reviews.find((r) => r.id === params[5]);
+    if (!row) return [];
+    row.status = params[0] as string;
+    row.resolvedStableId = params[1] as string | null;
+    row.reviewedBy = params[2] as string | null;
+    return [toSqlRow(row)];
+  }
+
+  // ---- accepted names (extra aliases for /resolve) ----
+  if (q.includes("entity_match_reviews") && q.includes('"resolved_stable_id" from')) {
+    return reviews
+      .filter((r) => r.status === params[0])
+      .map((r) => ({ raw_name: r.rawName, resolved_stable_id: r.resolvedStableId }));
+  }
+
+  // ---- SELECT count(*) FROM entity_match_reviews WHERE status ----
+  if (q.includes("count(") && q.includes("entity_match_reviews")) {
+    return [{ count: reviews.filter((r) => r.status === params[0]).length }];
+  }
+
+  // ---- SELECT * FROM entity_match_reviews WHERE id LIMIT 1 ----
+  if (q.includes("entity_match_reviews") && q.includes("limit") && !q.includes("order by")) {
+    return reviews.filter((r) => r.id === params[0]).map(toSqlRow);
+  }
+
+  // ---- SELECT * FROM entity_match_reviews WHERE status ORDER BY ... ----
+  if (q.includes("entity_match_reviews") && q.includes("order by")) {
+    return reviews
+      .filter((r) => r.status === params[0])
+      .sort((a, b) => b.occurrences - a.occurrences)
+      .map(toSqlRow);
+  }
+
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+
+// ---- Fixtures ----
+
+const epochCandidate = {
+  stableId: "epochStabl",
+  slug: "epoch-ai",
+  name: "Epoch AI",
+  entityType: "organization",
+  confidence: 0.72,
+  matchedOn: "similar",
+  matchedText: "Epoch AI",
+};
+
+const reviewItem = {
+  rawName: "Epoch Research Group",
+  entityType: "organization",
+  source: "grants:sff",
+  candidates: [epochCandidate],
+};
+
+// ---- Tests ----
+
+describe("Entity Resolution API", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    resetStores();
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    app = createApp();
+  });
+
+  describe("POST /api/entity-resolution/resolve", () => {
+    it("ranks matches for a batch of names", async () => {
+      const res = await postJson(app, "/api/entity-resolution/resolve", {
+        queries: [
+          { name: "Anthropic AI" },
+          { name: "epoch" },
+          { name: "M.I.R.I." },
+          { name: "Nothing Like Any Entity" },
+        ],
+      });
+      expect(res.status).toBe(200);
+      const { results } = await res.json();
+      expect(results).toHaveLength(4);
+
+      expect(results[0].matches[0]).toMatchObject({ stableId: "mK9pX3rQ7n", matchedOn: "alias" });
+      expect(results[0].confident).toBe(true);
+      expect(results[1].matches[0]).toMatchObject({ slug: "epoch-ai", matchedOn: "previous-slug" });
+      expect(results[2].matches[0]).toMatchObject({ slug: "miri", matchedOn: "acronym" });
+      expect(results[2].confident).toBe(false);
+      expect(results[3].matches).toEqual([]);
+    });
+
+    it("rejects an empty batch", async () => {
+      const res = await postJson(app, "/api/entity-resolution/resolve", { queries: [] });
+      expect(res.status).toBe(400);
+    });
+
+    it("treats accepted review names as aliases", async () => {
+      await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem] });
+      await postJson(app, "/api/entity-resolution/reviews/1/accept", { entityId: "epoch-ai" });
+
+      const res = await postJson(app, "/api/entity-resolution/resolve", {
+        queries: [{ name: "Epoch Research Group" }],
+      });
+      const { results } = await res.json();
+      expect(results[0].matches[0]).toMatchObject({ slug: "epoch-ai", matchedOn: "alias" });
+      expect(results[0].confident).toBe(true);
+    });
+  });
+
+  describe("POST /api/entity-resolution/reviews", () => {
+    it("enqueues items and counts repeat sightings", async () => {
+      let res = await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem] });
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ upserted: 1, pending: 1 });
+
+      res = await postJson(app, "/api/entity-resolution/reviews", {
+        items: [{ ...reviewItem, source: "grants:manifund" }],
+      });
+      expect(res.status).toBe(201);
+      expect(reviews).toHaveLength(1);
+      expect(reviews[0]).toMatchObject({ occurrences: 2, source: "grants:sff" });
+    });
+
+    it("collapses duplicates within one batch", async () => {
+      const res = await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem, reviewItem] });
+      expect(res.status).toBe(201);
+      expect(reviews).toHaveLength(1);
+    });
+
+    it("rejects items without a source", async () => {
+      const { source: _source, ...noSource } = reviewItem;
+      const res = await postJson(app, "/api/entity-resolution/reviews", { items: [noSource] });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/entity-resolution/reviews", () => {
+    it("lists pending reviews by default", async () => {
+      await postJson(app, "/api/entity-resolution/reviews", {
+        items: [reviewItem, { ...reviewItem, rawName: "Anthropic Labs", candidates: [] }],
+      });
+      await postJson(app, "/api/entity-resolution/reviews/2/reject", {});
+
+      const res = await app.request("/api/entity-resolution/reviews");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.total).toBe(1);
+      expect(body.reviews[0]).toMatchObject({
+        rawName: "Epoch Research Group",
+        entityType: "organization",
+        status: "pending",
+        candidates: [epochCandidate],
+      });
+    });
+
+    it("rejects an unknown status", async () => {
+      const res = await app.request("/api/entity-resolution/reviews?status=maybe");
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/entity-resolution/reviews/:id", () => {
+    it("returns one review with its candidates", async () => {
+      await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem] });
+      const res = await app.request("/api/entity-resolution/reviews/1");
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ id: 1, rawName: "Epoch Research Group", candidates: [epochCandidate] });
+
+      expect((await app.request("/api/entity-resolution/reviews/2")).status).toBe(404);
+    });
+  });
+
+  describe("POST /api/entity-resolution/reviews/:id/accept", () => {
+    it("records the entity's stableId when given a slug", async () => {
+      await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem] });
+      const res = await postJson(app, "/api/entity-resolution/reviews/1/accept", {
+        entityId: "epoch-ai",
+        reviewedBy: "ozzie",
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({
+        id: 1,
+        status: "accepted",
+        resolvedStableId: "epochStabl",
+        reviewedBy: "ozzie",
+      });
+    });
+
+    it("returns 404 for an unknown entity or review", async () => {
+      await postJson(app, "/api/entity-resolution/reviews", { items: [reviewItem] });
+      let res = await postJson(app, "/api/entity-resolution/reviews/1/accept", { entityId: "no-such-entity" });
+      expect(res.status).toBe(404);
+      res = await postJson(app, "/api/entity-resolution/reviews/99/accept", { entityId: "epoch-ai" });
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects a non-numeric review id", async () => {
+      const res = await postJson(app, "/api/entity-resolution/reviews/abc/accept", { entityId: "epoch-ai" });
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHmac } from "node:crypto";
+import { Hono } from "hono";
+import { mockDbModule, postJson } from "./test-utils.js";
+
+// ---- In-memory outbox, webhooks, and deliveries ----
+
+interface OutboxRow {
+  id: number;
+  type: string;
+  payload: Record<string, unknown>;
+  created_at: Date;
+  /** Inserting transaction; defaults to the id (commit order = id order). */
+  txid?: number;
+  /** Inserted by a transaction that has not committed yet (invisible). */
+  inFlight?: boolean;
+}
+
+const txidOf = (e: OutboxRow) => e.txid ?? e.id;
+
+/** Mirrors pg_snapshot_xmin(pg_current_snapshot()): the oldest running transaction. */
+function snapshotXmin(): number {
+  const running = outbox.filter((e) => e.inFlight).map(txidOf);
+  return running.length > 0 ? Math.min(...running) : Number.MAX_SAFE_INTEGER;
+}
+
+let outbox: OutboxRow[];
+let webhookRows: Array<Record<string, unknown>>;
+let deliveryUpdates: Array<{ query: string; params: unknown[] }>;
+let claimedDeliveries: Array<Record<string, unknown>>;
+
+function resetStores() {
+  outbox = [];
+  webhookRows = [];
+  deliveryUpdates = [];
+  claimedDeliveries = [];
+}
+
+const dispatch = (query: string, params: unknown[]): unknown[] => {
+  const q = query.toLowerCase();
+
+  // emitEvent(): WITH ev AS (INSERT INTO outbox_events ...) INSERT INTO webhook_deliveries ...
+  if (q.includes("insert into outbox_events")) {
+    outbox.push({
+      id: outbox.length + 1,
+      type: params[0] as string,
+      payload: JSON.parse(params[1] as string),
+      created_at: new Date("2026-03-01T00:00:00Z"),
+    });
+    return [];
+  }
+
+  // GET /api/events and the SSE stream: "now" cursor, cursor lookup, read
+  if (q.startsWith("select pg_snapshot_xmin")) return [{ xmin: String(snapshotXmin()) }];
+  if (q.includes('from "outbox_events"') && !q.includes("pg_snapshot_xmin")) {
+    const row = outbox.find((e) => !e.inFlight && e.id === params[0]);
+    return row ? [{ txid: String(txidOf(row)) }] : [];
+  }
+  if (q.includes('from "outbox_events"')) {
+    // (txid, id) > ($1::xid8, $2), or id > $1 for a cursor before every event
+    const byTxid = q.includes("::xid8");
+    const [afterTxid, afterId] = byTxid
+      ? [Number(params[0]), params[1] as number]
+      : [-1, params[0] as number];
+    const xmin = snapshotXmin();
+    return outbox
+      .filter((e) => !e.inFlight && txidOf(e) < xmin)
+      .filter((e) =>
+        byTxid
+          ? txidOf(e) > afterTxid || (txidOf(e) === afterTxid && e.id > afterId)
+          : e.id > afterId
+      )
+      .sort((a, b) => txidOf(a) - txidOf(b) || a.id - b.id)
+      .map((e) => ({ ...e, txid: String(txidOf(e)) }));
+  }
+
+  // Incident POST: dedup check finds nothing, insert returns the new row
+  if (q.includes('from "service_health_incidents"')) return [];
+  if (q.startsWith('insert into "service_health_incidents"')) {
+    const now = new Date();
+    return [
+      {
+        id: 7,
+        service: params[0],
+        severity: params[1],
+        status: "open",
+        title: params[2],
+        detail: null,
+        detected_at: now,
+        resolved_at: null,
+        resolved_by: null,
+        check_source: null,
+        metadata: null,
+        github_issue_number: null,
+        created_at: now,
+        updated_at: now,
+      },
+    ];
+  }
+
+  // Webhook registration / listing / deletion
+  if (q.startsWith('insert into "webhooks"')) {
+    const row = {
+      id: webhookRows.length + 1,
+      url: params[0],
+      secret: params[1],
+      event_types: params[2] == null ? null : JSON.parse(params[2] as string),
+      description: params[3],
+      active: true,
+      created_at: new Date(),
+    };
+    webhookRows.push(row);
+    return [row];
+  }
+  if (q.startsWith('select') && q.includes('from "webhooks"')) return webhookRows;
+  if (q.startsWith('delete from "webhooks"')) {
+    const idx = webhookRows.findIndex((w) => w.id === params[0]);
+    return idx === -1 ? [] : webhookRows.splice(idx, 1);
+  }
+
+  // Dispatcher
+  if (q.startsWith("with claimed as")) return claimedDeliveries;
+  if (q.startsWith("update webhook_deliveries")) {
+    deliveryUpdates.push({ query, params });
+    return [];
+  }
+
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+const { eventIds, MAX_EVENT_IDS } = await import("../events.js");
+const { backoffMs, signWebhook, deliverDueWebhooks, WEBHOOK_MAX_ATTEMPTS } = await import(
+  "../webhooks.js"
+);
+
+describe("eventIds", () => {
+  it("deduplicates and caps ID lists", () => {
+    expect(eventIds(["a", "b", "a"])).toEqual(["a", "b"]);
+    const many = Array.from({ length: MAX_EVENT_IDS + 10 }, (_, i) => `p${i}`);
+    expect(eventIds(many)).toHaveLength(MAX_EVENT_IDS);
+  });
+});
+
+describe("event outbox", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    resetStores();
+    app = createApp();
+  });
+
+  it("emits incident.opened when a new incident is recorded", async () => {
+    const res = await postJson(app, "/api/monitoring/incidents", {
+      service: "wiki-server",
+      severity: "critical",
+      title: "DB down",
+    });
+    expect(res.status).toBe(201);
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].type).toBe("incident.opened");
+    expect(outbox[0].payload).toEqual({
+      id: 7,
+      service: "wiki-server",
+      severity: "critical",
+      title: "DB down",
+    });
+  });
+
+  it("lists events after a cursor", async () => {
+    outbox.push(
+      { id: 1, type: "page.synced", payload: { pageIds: ["a"] }, created_at: new Date() },
+      { id: 2, type: "fact.changed", payload: { entityIds: ["E1"] }, created_at: new Date() }
+    );
+
+    const res = await app.request("/api/events?after=1");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.cursor).toBe(2);
+    expect(body.events).toHaveLength(1);
+    expect(body.events[0]).toMatchObject({ id: 2, type: "fact.changed", data: { entityIds: ["E1"] } });
+  });
+
+  it("does not skip an event whose transaction commits after a later id", async () => {
+    // Transaction 101 inserted event 1 but is still running; transaction 100
+    // inserted event 2 and committed.
+    outbox.push(
+      { id: 1, type: "page.synced", payload: { pageIds: ["slow"] }, created_at: new Date(), txid: 101, inFlight: true },
+      { id: 2, type: "page.synced", payload: { pageIds: ["fast"] }, created_at: new Date(), txid: 100 }
+    );
+
+    const first = await (await app.request("/api/events?after=0")).json();
+    expect(first.events.map((e: { id: number }) => e.id)).toEqual([2]);
+
+    outbox[0].inFlight = false;
+    const second = await (await app.request(`/api/events?after=${first.cursor}`)).json();
+    expect(second.events.map((e: { id: number }) => e.id)).toEqual([1]);
+  });
+
+  it("holds back committed events until older transactions finish", async () => {
+    outbox.push(
+      { id: 1, type: "page.synced", payload: {}, created_at: new Date(), txid: 100, inFlight: true },
+      { id: 2, type: "page.synced", payload: {}, created_at: new Date(), txid: 101 }
+    );
+
+    const body = await (await app.request("/api/events?after=0")).json();
+    expect(body).toEqual({ events: [], cursor: 0 });
+  });
+
+  it("keeps the cursor when there is nothing new", async () => {
+    const body = await (await app.request("/api/events?after=5")).json();
+    expect(body).toEqual({ events: [], cursor: 5 });
+  });
+
+  it("rejects unknown event types", async () => {
+    const res = await app.request("/api/events?types=page.synced,page.exploded");
+    expect(res.status).toBe(400);
+  });
+
+  it("streams events over SSE, resuming from Last-Event-ID", async () => {
+    outbox.push(
+      { id: 1, type: "page.synced", payload: { pageIds: ["old"] }, created_at: new Date() },
+      { id: 2, type: "page.deleted", payload: { id: "gone" }, created_at: new Date() }
+    );
+
+    const res = await app.request("/api/events/stream", {
+      headers: { "Last-Event-ID": "1" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const { value } = await reader.read();
+    await reader.cancel();
+
+    const text = new TextDecoder().decode(value);
+    expect(text).toContain("event: page.deleted");
+    expect(text).toContain("id: 2");
+    expect(text).not.toContain("old");
+  });
+});
+
+describe("webhook registration", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    resetStores();
+    app = createApp();
+  });
+
+  it("returns the signing secret only at registration", async () => {
+    const res = await postJson(app, "/api/webhooks", {
+      url: "https://example.com/hook",
+      eventTypes: ["page.synced"],
+    });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.secret).toMatch(/^whsec_/);
+    expect(body.webhook).toMatchObject({ id: 1, url: "https://example.com/hook", eventTypes: ["page.synced"] });
+    expect(body.webhook).not.toHaveProperty("secret");
+
+    const list = await (await app.request("/api/webhooks")).json();
+    expect(list.total).toBe(1);
+    expect(list.webhooks[0]).not.toHaveProperty("secret");
+  });
+
+  it("validates URLs and event types", async () => {
+    expect((await postJson(app, "/api/webhooks", { url: "ftp://example.com" })).status).toBe(400);
+    expect(
+      (await postJson(app, "/api/webhooks", { url: "https://example.com", eventTypes: ["nope"] })).status
+    ).toBe(400);
+  });
+
+  it("returns 404 when deleting an unknown webhook", async () => {
+    const res = await app.request("/api/webhooks/99", { method: "DELETE" });
+    expect(res.status).toBe(404);
+  });
+
+  it("requires admin scope", async () => {
+    process.env.LONGTERMWIKI_SERVER_API_KEY = "env-secret";
+    try {
+      app = createApp();
+      const res = await app.request("/api/webhooks");
+      expect(res.status).toBe(401);
+    } finally {
+      delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    }
+  });
+});
+
+describe("webhook delivery", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    resetStores();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function claim(attempts = 0) {
+    claimedDeliveries = [
+      {
+        id: 11,
+        attempts,
+        url: "https://example.com/hook",
+        secret: "whsec_test",
+        event_id: 3,
+        type: "job.completed",
+        payload: { id: 42, type: "auto-update" },
+        created_at: "2026-03-01T00:00:00.000Z",
+      },
+    ];
+  }
+
+  it("backs off exponentially up to an hour", () => {
+    expect(backoffMs(1)).toBe(30_000);
+    expect(backoffMs(2)).toBe(60_000);
+    expect(backoffMs(3)).toBe(120_000);
+    expect(backoffMs(20)).toBe(60 * 60_000);
+  });
+
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "s3cret").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhook("s3cret", 1700000000, '{"a":1}')).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it("POSTs a signed event and marks the delivery delivered", async () => {
+    claim();
+    global.fetch = vi.fn().mockResolvedValue(new Response("ok", { status: 200 }));
+
+    expect(await deliverDueWebhooks()).toBe(1);
+
+    const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(url).toBe("https://example.com/hook");
+    const headers = init.headers as Record<string, string>;
+    expect(headers["X-Wiki-Event"]).toBe("job.completed");
+    const t = Number(/^t=(\d+),/.exec(headers["X-Wiki-Signature"])![1]);
+    expect(headers["X-Wiki-Signature"]).toBe(signWebhook("whsec_test", t, init.body));
+    expect(JSON.parse(init.body)).toEqual({
+      id: 3,
+      type: "job.completed",
+      createdAt: "2026-03-01T00:00:00.000Z",
+      data: { id: 42, type: "auto-update" },
+    });
+
+    expect(deliveryUpdates[0].query).toContain("'delivered'");
+    expect(deliveryUpdates[0].params).toEqual([11, 1, 200]);
+  });
+
+  it("schedules a retry with backoff on failure", async () => {
+    claim(2);
+    global.fetch = vi.fn().mockResolvedValue(new Response("nope", { status: 502 }));
+
+    expect(await deliverDueWebhooks()).toBe(0);
+    expect(deliveryUpdates[0].params).toEqual([11, "pending", 3, 502, "HTTP 502", String(backoffMs(3))]);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    claim(WEBHOOK_MAX_ATTEMPTS - 1);
+    global.fetch = vi.fn().mockRejectedValue(new Error("ECONNREFUSED"));
+
+    await deliverDueWebhooks();
+    expect(deliveryUpdates[0].params.slice(0, 5)).toEqual([
+      11,
+      "failed",
+      WEBHOOK_MAX_ATTEMPTS,
+      null,
+      "ECONNREFUSED",
+    ]);
+  });
+});
@@ -43,6 +43,11 @@ function dispatch(query: string, params: unknown[]): unknown[] {
     return [{ count: 0 }];
   }
 
+  // SELECT count(*), max(updated_at) (table fingerprints)
+  if (q.includes("max(") && q.includes('"grants"')) {
+    return [{ rows: 3, lastChanged: new Date("2026-01-02T03:04:05Z") }];
+  }
+
   // SELECT last_value (sequence health check)
   if (q.includes("last_value")) {
     return [{ last_value: lastSeqVal, is_called: seqIsCalled }];
@@ -139,6 +144,38 @@ describe("ID Server API", () => {
     });
   });
 
+  describe("GET /health/tables", () => {
+    it("returns row count and latest change per table", async () => {
+      const res = await app.request("/health/tables?names=grants,personnel");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.tables).toEqual({
+        grants: { rows: 3, lastChanged: "2026-01-02T03:04:05.000Z" },
+        personnel: { rows: 0, lastChanged: null },
+      });
+    });
+
+    it("rejects unknown tables", async () => {
+      const res = await app.request("/health/tables?names=grants,users");
+      expect(res.status).toBe(400);
+    });
+
+    it("requires a token when API key is set", async () => {
+      process.env.LONGTERMWIKI_SERVER_API_KEY = "test-secret-key";
+      const authedApp = createApp();
+
+      const denied = await authedApp.request("/health/tables?names=grants");
+      expect(denied.status).toBe(401);
+
+      const allowed = await authedApp.request("/health/tables?names=grants", {
+        headers: { Authorization: "Bearer test-secret-key" },
+      });
+      expect(allowed.status).toBe(200);
+
+      delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    });
+  });
+
   describe("POST /api/ids/allocate", () => {
     it("allocates a new ID and returns 201", async () => {
       const res = await postJson(app, "/api/ids/allocate", { slug: "test-entity" });
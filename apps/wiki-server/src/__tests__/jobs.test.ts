@@ -24,6 +24,10 @@ interface JobRow {
   started_at: Date | null;
   completed_at: Date | null;
   worker_id: string | null;
+  depends_on: number[] | null;
+  run_after: Date | null;
+  lease_expires_at: Date | null;
+  idempotency_key: string | null;
 }
 let jobStore: JobRow[];
 
@@ -48,12 +52,45 @@ function makeJob(overrides: Partial<JobRow> = {}): JobRow {
     started_at: null,
     completed_at: null,
     worker_id: null,
+    depends_on: null,
+    run_after: null,
+    lease_expires_at: null,
+    idempotency_key: null,
     ...overrides,
   };
 }
 
 const STATUSES = new Set(["pending", "claimed", "running", "completed", "failed", "cancelled"]);
 
+/** Map the columns of a single-row Drizzle INSERT to their bound values. */
+function insertedValues(query: string, params: unknown[]): Record<string, unknown> {
+  const cols = /insert into "jobs" \(([^)]*)\)/i.exec(query)![1].split(",");
+  const vals = /values \(([^)]*)\)/i.exec(query)![1].split(",");
+  const out: Record<string, unknown> = {};
+  cols.forEach((col, i) => {
+    const v = vals[i].trim();
+    out[col.trim().replace(/"/g, "")] = v.startsWith("$") ? params[Number(v.slice(1)) - 1] : undefined;
+  });
+  return out;
+}
+
+function parseJson(v: unknown) {
+  return v == null ? null : typeof v === "string" ? JSON.parse(v) : v;
+}
+
+/** Mirrors READY_CONDITION in routes/jobs.ts. */
+function isReady(j: JobRow) {
+  if (j.run_after && j.run_after.getTime() > Date.now()) return false;
+  return (j.depends_on ?? []).every(
+    (id) => jobStore.find((d) => d.id === id)?.status === "completed"
+  );
+}
+
+/** Mirrors LEASE_HELD in routes/jobs.ts. */
+function leaseHeld(j: JobRow) {
+  return !j.lease_expires_at || j.lease_expires_at.getTime() > Date.now();
+}
+
 const dispatch: SqlDispatcher = (query, params) => {
   const q = query.toLowerCase();
 
@@ -65,31 +102,93 @@ const dispatch: SqlDispatcher = (query, params) => {
     return [{ last_value: 0, is_called: false }];
   }
 
-  // ---- INSERT INTO jobs ----
+  // ---- api_keys lookup: any lwk_ token is a worker key scoped to write:agents ----
+  if (q.includes('from "api_keys"')) {
+    return [{
+      id: 9, name: "worker", key_hash: params[0], scopes: ["write:agents"], created_by: null,
+      expires_at: null, last_used_at: null, revoked_at: null, created_at: new Date(),
+    }];
+  }
+
+  // ---- INSERT INTO jobs (one row per statement, ON CONFLICT DO NOTHING) ----
   if (q.includes("insert into") && q.includes('"jobs"')) {
-    const COLS_PER_ROW = 4; // type, params, priority, max_retries
-    const numRows = Math.max(1, Math.floor(params.length / COLS_PER_ROW));
-    const rows: JobRow[] = [];
-    for (let i = 0; i < numRows; i++) {
-      const o = i * COLS_PER_ROW;
-      const row = makeJob({
-        type: params[o] as string,
-        params: params[o + 1] != null ? (typeof params[o + 1] === "string" ? JSON.parse(params[o + 1] as string) : params[o + 1]) : null,
-        priority: (params[o + 2] as number) ?? 0,
-        max_retries: (params[o + 3] as number) ?? 3,
-      });
-      jobStore.push(row);
-      rows.push(row);
+    const v = insertedValues(query, params);
+    const key = (v.idempotency_key as string | undefined) ?? null;
+    if (key && jobStore.some((j) => j.idempotency_key === key)) return [];
+    // Drizzle binds BIGINT[] as a Postgres array literal: "{1,2}"
+    const dependsOn = typeof v.depends_on === "string" ? v.depends_on.slice(1, -1).split(",") : null;
+    const row = makeJob({
+      type: v.type as string,
+      params: parseJson(v.params),
+      priority: (v.priority as number) ?? 0,
+      max_retries: (v.max_retries as number) ?? 3,
+      depends_on: dependsOn ? dependsOn.map(Number) : null,
+      run_after: v.run_after ? new Date(v.run_after as string) : null,
+      idempotency_key: key,
+    });
+    jobStore.push(row);
+    return [row];
+  }
+
+  // ---- SELECT ... WHERE idempotency_key = $1 ----
+  if (q.includes('"jobs"') && q.includes('"idempotency_key" =') && !q.includes("update")) {
+    return jobStore.filter((j) => j.idempotency_key === params[0]);
+  }
+
+  // ---- SELECT id, status WHERE id IN (...) (dependency check) ----
+  if (q.includes('"jobs"') && q.includes('"id" in (') && !q.includes("update")) {
+    return jobStore.filter((j) => params.includes(j.id)).map((j) => ({ id: j.id, status: j.status }));
+  }
+
+  // ---- Reap expired leases (raw SQL, runs before every claim and sweep) ----
+  if (q.includes("update") && q.includes('"jobs"') && q.includes("lease_expires_at < now()")) {
+    const expired = jobStore.filter(
+      (j) =>
+        (j.status === "claimed" || j.status === "running") &&
+        j.lease_expires_at &&
+        j.lease_expires_at.getTime() < Date.now()
+    );
+    for (const j of expired) {
+      j.retries++;
+      j.status = j.retries < j.max_retries ? "pending" : "failed";
+      j.error = `Lease expired: worker ${j.worker_id} stopped sending heartbeats`;
+      j.lease_expires_at = null;
+      if (j.status === "pending") {
+        j.claimed_at = null;
+        j.started_at = null;
+        j.worker_id = null;
+      }
     }
-    return rows;
+    return expired.map((j) => ({ id: j.id, type: j.type, status: j.status }));
+  }
+
+  // ---- Cancel dependents (WITH RECURSIVE ... UPDATE) ----
+  if (q.startsWith("with recursive blocked")) {
+    const cancelled: JobRow[] = [];
+    const queue = [params[0] as number];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const j of jobStore) {
+        if (j.status === "pending" && j.depends_on?.includes(id)) {
+          j.status = "cancelled";
+          j.error = params[1] as string;
+          j.completed_at = new Date();
+          cancelled.push(j);
+          queue.push(j.id);
+        }
+      }
+    }
+    return cancelled.map((j) => ({ id: j.id }));
   }
 
   // ---- UPDATE jobs (claim via raw SQL with FOR UPDATE SKIP LOCKED) ----
+  // params: [$1=workerId, $2=leaseSeconds, $3=type?]
   if (q.includes("update") && q.includes('"jobs"') && q.includes("for update skip locked")) {
     const workerId = params[0] as string;
-    const typeFilter = params.length >= 2 ? (params[1] as string) : null;
+    const leaseSeconds = params[1] as number;
+    const typeFilter = params.length >= 3 ? (params[2] as string) : null;
     const pending = jobStore
-      .filter((j) => j.status === "pending" && (!typeFilter || j.type === typeFilter))
+      .filter((j) => j.status === "pending" && (!typeFilter || j.type === typeFilter) && isReady(j))
       .sort((a, b) => b.priority - a.priority || a.created_at.getTime() - b.created_at.getTime());
 
     if (pending.length === 0) return [];
@@ -98,16 +197,39 @@ const dispatch: SqlDispatcher = (query, params) => {
     job.status = "claimed";
     job.claimed_at = new Date();
     job.worker_id = workerId;
+    job.lease_expires_at = new Date(Date.now() + leaseSeconds * 1000);
+    return [job];
+  }
+
+  // ---- HEARTBEAT: params = [leaseSeconds, jobId, workerId] ----
+  if (q.includes("update") && q.includes('"jobs"') && q.includes('"lease_expires_at" = now()')) {
+    const [leaseSeconds, jobId, workerId] = params as [number, number, string];
+    const job = jobStore.find(
+      (j) =>
+        j.id === jobId &&
+        j.worker_id === workerId &&
+        (j.status === "claimed" || j.status === "running")
+    );
+    if (!job) return [];
+    job.lease_expires_at = new Date(Date.now() + leaseSeconds * 1000);
     return [job];
   }
 
   // ---- FAIL (atomic UPDATE with CASE WHEN, via pgClient.unsafe) ----
-  // params: [$1=error, $2=id]
+  // params: [$1=error, $2=id, $3=retryAfterSeconds|null, $4=workerId]
   if (q.includes("update") && q.includes('"jobs"') && q.includes("case when") && q.includes("max_retries")) {
     const errorMsg = params[0] as string;
     const jobId = params[1] as number;
+    const retryAfterSeconds = (params[2] as number | null) ?? 30 * 2 ** Math.min(
+      jobStore.find((j) => j.id === jobId)?.retries ?? 0,
+      7
+    );
     const job = jobStore.find(
-      (j) => j.id === jobId && (j.status === "running" || j.status === "claimed")
+      (j) =>
+        j.id === jobId &&
+        (j.status === "running" || j.status === "claimed") &&
+        j.worker_id === params[3] &&
+        leaseHeld(j)
     );
     if (!job) return [];
     const newRetries = job.retries + 1;
@@ -119,6 +241,8 @@ const dispatch: SqlDispatcher = (query, params) => {
     job.claimed_at = shouldRetry ? null : job.claimed_at;
     job.started_at = shouldRetry ? null : job.started_at;
     job.worker_id = shouldRetry ? null : job.worker_id;
+    job.run_after = shouldRetry ? new Date(Date.now() + retryAfterSeconds * 1000) : job.run_after;
+    job.lease_expires_at = null;
     return [job];
   }
 
@@ -139,10 +263,12 @@ const dispatch: SqlDispatcher = (query, params) => {
       return [job];
     }
 
-    // ---- COMPLETE: params = ['completed', result_json, timestamp, jobId, 'running'] ----
+    // ---- COMPLETE: params = ['completed', result_json, timestamp, null, jobId, 'running', workerId] ----
     if (newStatus === "completed" && q.includes('"result"')) {
-      const jobId = params[3] as number;
-      const job = jobStore.find((j) => j.id === jobId && j.status === "running");
+      const jobId = params[4] as number;
+      const job = jobStore.find(
+        (j) => j.id === jobId && j.status === "running" && j.worker_id === params[6] && leaseHeld(j)
+      );
       if (!job) return [];
       job.status = "completed";
       job.result = params[1] != null ? (typeof params[1] === "string" ? JSON.parse(params[1] as string) : params[1]) : null;
@@ -150,10 +276,24 @@ const dispatch: SqlDispatcher = (query, params) => {
       return [job];
     }
 
-    // ---- CANCEL: params = ['cancelled', timestamp, jobId] ----
+    // ---- RETRY: params = ['pending', 0, null x6, jobId]; status IN ('failed', 'cancelled') ----
+    if (newStatus === "pending" && q.includes("in ('failed', 'cancelled')")) {
+      const jobId = params[params.length - 1] as number;
+      const job = jobStore.find(
+        (j) => j.id === jobId && (j.status === "failed" || j.status === "cancelled")
+      );
+      if (!job) return [];
+      Object.assign(job, {
+        status: "pending", retries: 0, claimed_at: null, started_at: null, completed_at: null,
+        worker_id: null, run_after: null, lease_expires_at: null,
+      });
+      return [job];
+    }
+
+    // ---- CANCEL: params = ['cancelled', timestamp, null, jobId] ----
     // Uses raw SQL for status check: IN ('pending', 'claimed')
     if (newStatus === "cancelled") {
-      const jobId = params[2] as number;
+      const jobId = params[3] as number;
       const job = jobStore.find(
         (j) => j.id === jobId && (j.status === "pending" || j.status === "claimed")
       );
@@ -450,12 +590,40 @@ describe("Jobs API", () => {
       await postJson(app, "/api/jobs/1/start", {});
 
       const res = await postJson(app, "/api/jobs/1/complete", {
+        workerId: "w1",
         result: { ok: true },
       });
       expect(res.status).toBe(200);
       const body = await res.json();
       expect(body.status).toBe("completed");
     });
+
+    it("rejects a worker that does not hold the job with 409", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/start", {});
+
+      const res = await postJson(app, "/api/jobs/1/complete", { workerId: "w2", result: null });
+      expect(res.status).toBe(409);
+      expect((await res.json()).message).toContain("leased to worker w1");
+      expect(jobStore[0].status).toBe("running");
+    });
+
+    it("rejects completion after the lease expired with 409", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/start", {});
+      jobStore[0].lease_expires_at = new Date(Date.now() - 1000);
+
+      const res = await postJson(app, "/api/jobs/1/complete", { workerId: "w1", result: null });
+      expect(res.status).toBe(409);
+      expect(jobStore[0].status).toBe("running");
+    });
+
+    it("returns 404 for an unknown job", async () => {
+      const res = await postJson(app, "/api/jobs/99/complete", { workerId: "w1" });
+      expect(res.status).toBe(404);
+    });
   });
 
   describe("POST /api/jobs/:id/fail", () => {
@@ -465,6 +633,7 @@ describe("Jobs API", () => {
       await postJson(app, "/api/jobs/1/start", {});
 
       const res = await postJson(app, "/api/jobs/1/fail", {
+        workerId: "w1",
         error: "Something went wrong",
       });
       expect(res.status).toBe(200);
@@ -480,6 +649,7 @@ describe("Jobs API", () => {
       await postJson(app, "/api/jobs/1/start", {});
 
       const res = await postJson(app, "/api/jobs/1/fail", {
+        workerId: "w1",
         error: "Transient error",
       });
       expect(res.status).toBe(200);
@@ -493,6 +663,24 @@ describe("Jobs API", () => {
       const res = await postJson(app, "/api/jobs/1/fail", {});
       expect(res.status).toBe(400);
     });
+
+    it("rejects a worker that does not hold the job with 409", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+
+      const res = await postJson(app, "/api/jobs/1/fail", { workerId: "w2", error: "late" });
+      expect(res.status).toBe(409);
+      expect(jobStore[0].status).toBe("claimed");
+      expect(jobStore[0].retries).toBe(0);
+    });
+
+    it("rejects a job that is not running or claimed with 409", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+
+      const res = await postJson(app, "/api/jobs/1/fail", { workerId: "w1", error: "late" });
+      expect(res.status).toBe(409);
+      expect((await res.json()).message).toContain("'pending' status");
+    });
   });
 
   describe("POST /api/jobs/:id/cancel", () => {
@@ -515,6 +703,57 @@ describe("Jobs API", () => {
     });
   });
 
+  describe("POST /api/jobs/:id/retry", () => {
+    it("requeues a failed job with a fresh retry budget and no lease", async () => {
+      await postJson(app, "/api/jobs", { type: "ping", maxRetries: 1 });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/fail", { workerId: "w1", error: "boom" });
+      expect(jobStore[0].status).toBe("failed");
+
+      const res = await postJson(app, "/api/jobs/1/retry", {});
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body).toMatchObject({ status: "pending", retries: 0, workerId: null, leaseExpiresAt: null });
+    });
+
+    it("requeues a cancelled job", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/1/cancel", {});
+
+      const res = await postJson(app, "/api/jobs/1/retry", {});
+      expect(res.status).toBe(200);
+      expect(jobStore[0].status).toBe("pending");
+    });
+
+    it("rejects a job that is still active with 409", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+
+      const res = await postJson(app, "/api/jobs/1/retry", {});
+      expect(res.status).toBe(409);
+      expect((await res.json()).message).toContain("'claimed' status");
+      expect(jobStore[0].worker_id).toBe("w1");
+    });
+
+    it("returns 404 for an unknown job", async () => {
+      const res = await postJson(app, "/api/jobs/99/retry", {});
+      expect(res.status).toBe(404);
+    });
+
+    it("requires the admin scope", async () => {
+      process.env.LONGTERMWIKI_SERVER_API_KEY = "test-env-key";
+      jobStore.push(makeJob({ status: "failed" }));
+
+      const res = await app.request("/api/jobs/1/retry", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer lwk_worker-key" },
+        body: "{}",
+      });
+      expect(res.status).toBe(403);
+      expect(jobStore[0].status).toBe("failed");
+    });
+  });
+
   describe("GET /api/jobs/stats", () => {
     it("returns aggregate statistics", async () => {
       await postJson(app, "/api/jobs", { type: "ping" });
@@ -566,5 +805,177 @@ describe("Jobs API", () => {
       expect(body.swept).toBeDefined();
       expect(typeof body.swept).toBe("number");
     });
+
+    it("reaps jobs whose lease expired", async () => {
+      jobStore.push(
+        makeJob({
+          status: "running",
+          worker_id: "dead-worker",
+          lease_expires_at: new Date(Date.now() - 1000),
+        })
+      );
+
+      const body = await (await postJson(app, "/api/jobs/sweep", {})).json();
+      expect(body.swept).toBe(1);
+      expect(jobStore[0].status).toBe("pending");
+      expect(jobStore[0].retries).toBe(1);
+      expect(jobStore[0].error).toContain("dead-worker");
+    });
+  });
+
+  describe("dependencies", () => {
+    it("creates a job graph in one batch via dependsOnIndex", async () => {
+      const res = await postJson(app, "/api/jobs", [
+        { type: "page-improve", params: { pageId: "a" } },
+        { type: "page-improve", params: { pageId: "b" } },
+        { type: "batch-commit", dependsOnIndex: [0, 1] },
+      ]);
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body[2].dependsOn).toEqual([1, 2]);
+    });
+
+    it("rejects dependsOnIndex pointing at itself or later jobs", async () => {
+      const res = await postJson(app, "/api/jobs", [
+        { type: "ping", dependsOnIndex: [1] },
+        { type: "ping" },
+      ]);
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects unknown or failed dependencies", async () => {
+      expect((await postJson(app, "/api/jobs", { type: "ping", dependsOn: [42] })).status).toBe(400);
+
+      jobStore.push(makeJob({ status: "failed" }));
+      const res = await postJson(app, "/api/jobs", { type: "ping", dependsOn: [1] });
+      expect(res.status).toBe(400);
+      expect((await res.json()).message).toContain("#1 (failed)");
+    });
+
+    it("does not claim a job until its dependencies complete", async () => {
+      jobStore.push(makeJob({ type: "page-improve", status: "running" }));
+      await postJson(app, "/api/jobs", { type: "batch-commit", dependsOn: [1] });
+
+      const blocked = await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      expect((await blocked.json()).job).toBeNull();
+
+      jobStore[0].status = "completed";
+      const ready = await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      expect((await ready.json()).job.type).toBe("batch-commit");
+    });
+
+    it("cancels dependents transitively when a job fails permanently", async () => {
+      await postJson(app, "/api/jobs", [
+        { type: "page-improve", maxRetries: 1 },
+        { type: "batch-commit", dependsOnIndex: [0] },
+        { type: "notify", dependsOnIndex: [1] },
+      ]);
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/start", {});
+
+      const res = await postJson(app, "/api/jobs/1/fail", { workerId: "w1", error: "boom" });
+      const body = await res.json();
+      expect(body.retried).toBe(false);
+      expect(body.cancelledDependents).toEqual([2, 3]);
+      expect(jobStore[2].status).toBe("cancelled");
+      expect(jobStore[2].error).toBe("Dependency #1 failed");
+    });
+
+    it("cancels dependents of a cancelled job", async () => {
+      await postJson(app, "/api/jobs", [{ type: "ping" }, { type: "ping", dependsOnIndex: [0] }]);
+
+      const body = await (await postJson(app, "/api/jobs/1/cancel", {})).json();
+      expect(body.cancelledDependents).toEqual([2]);
+    });
+  });
+
+  describe("delayed runs", () => {
+    it("does not claim a job before runAfter", async () => {
+      const later = new Date(Date.now() + 60_000).toISOString();
+      const created = await (await postJson(app, "/api/jobs", { type: "ping", runAfter: later })).json();
+      expect(new Date(created.runAfter).toISOString()).toBe(later);
+
+      const res = await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      expect((await res.json()).job).toBeNull();
+    });
+
+    it("backs off a retried job", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/fail", { workerId: "w1", error: "transient" });
+
+      expect(jobStore[0].status).toBe("pending");
+      expect(jobStore[0].run_after!.getTime()).toBeGreaterThan(Date.now());
+      const res = await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      expect((await res.json()).job).toBeNull();
+    });
+
+    it("retries immediately with retryAfterSeconds: 0", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      await postJson(app, "/api/jobs/1/fail", { workerId: "w1", error: "manual", retryAfterSeconds: 0 });
+
+      const res = await postJson(app, "/api/jobs/claim", { workerId: "w2" });
+      expect((await res.json()).job.id).toBe(1);
+    });
+  });
+
+  describe("idempotency keys", () => {
+    it("returns the existing job for a repeated key", async () => {
+      const first = await postJson(app, "/api/jobs", { type: "ping", idempotencyKey: "digest-2026-03-01" });
+      expect(first.status).toBe(201);
+
+      const second = await postJson(app, "/api/jobs", { type: "ping", idempotencyKey: "digest-2026-03-01" });
+      expect(second.status).toBe(200);
+      expect((await second.json()).id).toBe(1);
+      expect(jobStore).toHaveLength(1);
+    });
+
+    it("resolves batch dependencies to the existing job", async () => {
+      await postJson(app, "/api/jobs", { type: "page-improve", idempotencyKey: "b1:a" });
+
+      const body = await (
+        await postJson(app, "/api/jobs", [
+          { type: "page-improve", idempotencyKey: "b1:a" },
+          { type: "batch-commit", idempotencyKey: "b1:commit", dependsOnIndex: [0] },
+        ])
+      ).json();
+      expect(body.map((j: { id: number }) => j.id)).toEqual([1, 2]);
+      expect(body[1].dependsOn).toEqual([1]);
+    });
+  });
+
+  describe("leases", () => {
+    it("sets a lease on claim and renews it on heartbeat", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      const claimed = await (
+        await postJson(app, "/api/jobs/claim", { workerId: "w1", leaseSeconds: 60 })
+      ).json();
+      expect(new Date(claimed.job.leaseExpiresAt).getTime()).toBeGreaterThan(Date.now());
+
+      const res = await postJson(app, "/api/jobs/1/heartbeat", { workerId: "w1", leaseSeconds: 600 });
+      expect(res.status).toBe(200);
+      expect(jobStore[0].lease_expires_at!.getTime()).toBeGreaterThan(Date.now() + 500_000);
+    });
+
+    it("rejects a heartbeat from another worker", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+
+      const res = await postJson(app, "/api/jobs/1/heartbeat", { workerId: "w2" });
+      expect(res.status).toBe(404);
+    });
+
+    it("reclaims a job whose worker stopped heartbeating", async () => {
+      await postJson(app, "/api/jobs", { type: "ping" });
+      await postJson(app, "/api/jobs/claim", { workerId: "w1" });
+      jobStore[0].lease_expires_at = new Date(Date.now() - 1000);
+
+      const res = await postJson(app, "/api/jobs/claim", { workerId: "w2" });
+      const body = await res.json();
+      expect(body.job.id).toBe(1);
+      expect(body.job.workerId).toBe("w2");
+      expect(body.job.retries).toBe(1);
+    });
   });
 });
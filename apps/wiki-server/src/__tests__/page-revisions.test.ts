@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { type SqlDispatcher, mockDbModule, postJson } from "./test-utils";
+import type { pageRevisions } from "../schema.js";
+
+// ---- In-memory store simulating the page_revisions table ----
+
+type RevisionRow = typeof pageRevisions.$inferSelect;
+
+let nextId = 1;
+let store: RevisionRow[];
+const slugIntIds = new Map<string, number>([
+  ["anthropic", 1001],
+  ["miri", 1002],
+]);
+
+function resetStores() {
+  store = [];
+  nextId = 1;
+}
+
+/** Convert a store row (camelCase Drizzle) to a raw SQL row (snake_case). */
+function toSqlRow(r: RevisionRow): Record<string, unknown> {
+  return {
+    id: r.id,
+    page_id_int: r.pageIdInt,
+    agent: r.agent,
+    tier: r.tier,
+    content_before: r.contentBefore,
+    content_after: r.contentAfter,
+    hash_before: r.hashBefore,
+    hash_after: r.hashAfter,
+    claims_added: r.claimsAdded,
+    claims_removed: r.claimsRemoved,
+    claims_changed: r.claimsChanged,
+    contradiction_count: r.contradictionCount,
+    assessment: r.assessment,
+    issues: r.issues,
+    claim_diff: r.claimDiff,
+    contradictions: r.contradictions,
+    created_at: r.createdAt,
+  };
+}
+
+function parseJson(value: unknown) {
+  return typeof value === "string" ? JSON.parse(value) : value;
+}
+
+const dispatch: SqlDispatcher = (query, params) => {
+  const q = query.toLowerCase();
+
+  // ---- entity_ids: resolvePageIntId ----
+  if (q.includes("entity_ids") && q.includes("slug")) {
+    const id = slugIntIds.get(String(params[0]));
+    return id === undefined ? [] : [{ numeric_id: id }];
+  }
+
+  // ---- health check ----
+  if (q.includes("count(*)") && q.includes("entity_ids")) return [{ count: 0 }];
+  if (q.includes("last_value")) return [{ last_value: 0, is_called: false }];
+
+  // ---- INSERT INTO page_revisions ----
+  if (q.includes("insert into") && q.includes("page_revisions")) {
+    // page_id_int, agent, tier, content_before, content_after, hash_before, hash_after,
+    // claims_added, claims_removed, claims_changed, contradiction_count, assessment,
+    // issues, claim_diff, contradictions
+    const row: RevisionRow = {
+      id: nextId++,
+      pageIdInt: params[0] as number,
+      agent: params[1] as string,
+      tier: params[2] as string | null,
+      contentBefore: params[3] as string,
+      contentAfter: params[4] as string,
+      hashBefore: params[5] as string,
+      hashAfter: params[6] as string,
+      claimsAdded: params[7] as number,
+      claimsRemoved: params[8] as number,
+      claimsChanged: params[9] as number,
+      contradictionCount: params[10] as number,
+      assessment: params[11] as string,
+      issues: parseJson(params[12]),
+      claimDiff: parseJson(params[13]),
+      contradictions: parseJson(params[14]),
+      // Distinct timestamps so newest-first ordering is deterministic
+      createdAt: new Date(Date.UTC(2026, 2, 1, 0, nextId)),
+    };
+    store.push(row);
+    return [toSqlRow(row)];
+  }
+
+  // ---- SELECT count(*) FROM page_revisions WHERE page_id_int ----
+  if (q.includes("count(") && q.includes("page_revisions")) {
+    return [{ count: store.filter((r) => r.pageIdInt === params[0]).length }];
+  }
+
+  // ---- SELECT ... FROM page_revisions WHERE page_id_int ORDER BY ... ----
+  if (q.includes("page_revisions") && q.includes("page_id_int") && q.includes("order by")) {
+    // Drizzle omits OFFSET when it is 0
+    const [intId, limit, offset = 0] = params as number[];
+    return store
+      .filter((r) => r.pageIdInt === intId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit)
+      .map(toSqlRow);
+  }
+
+  // ---- SELECT * FROM page_revisions WHERE id ----
+  if (q.includes("page_revisions") && q.includes('"id" =')) {
+    return store.filter((r) => r.id === params[0]).map(toSqlRow);
+  }
+
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+
+// ---- Fixtures ----
+
+const founded = {
+  text: "Anthropic was founded in 2021",
+  type: "temporal",
+  confidence: "high",
+  sourceContext: "Anthropic was founded in 2021 by former OpenAI staff.",
+  keyValue: "2021",
+};
+
+const sampleRevision = {
+  pageId: "anthropic",
+  agent: "crux-improve",
+  tier: "standard",
+  contentBefore: "Anthropic was founded in 2021.\n",
+  contentAfter: "Anthropic was founded in 2020.\nIt has about 1,000 employees.\n",
+  assessment: "warn",
+  issues: ["1 high-severity contradiction(s) detected. Review before publishing."],
+  claimDiff: {
+    claimsBefore: 1,
+    claimsAfter: 2,
+    entries: [
+      {
+        status: "changed",
+        oldClaim: founded,
+        newClaim: { ...founded, text: "Anthropic was founded in 2020", keyValue: "2020" },
+        changeDescription: 'Key value changed: "2021" → "2020"',
+      },
+      {
+        status: "added",
+        newClaim: { text: "Anthropic has about 1,000 employees", type: "numeric", confidence: "medium", sourceContext: "" },
+      },
+    ],
+    summary: { added: 1, removed: 0, changed: 1, unchanged: 0 },
+  },
+  contradictions: {
+    contradictions: [
+      {
+        newClaim: { ...founded, text: "Anthropic was founded in 2020", keyValue: "2020" },
+        existingClaim: founded,
+        reason: "Founding year differs",
+        severity: "high",
+      },
+    ],
+    hasHighSeverity: true,
+    summary: { high: 1, medium: 0, low: 0 },
+  },
+};
+
+// ---- Tests ----
+
+describe("Page Revisions API", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    resetStores();
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    app = createApp();
+  });
+
+  describe("POST /api/page-revisions", () => {
+    it("records a revision with hashes and summary counts", async () => {
+      const res = await postJson(app, "/api/page-revisions", sampleRevision);
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body).toMatchObject({ id: 1, pageId: "anthropic" });
+      expect(body.hashAfter).toMatch(/^[0-9a-f]{64}$/);
+
+      expect(store[0]).toMatchObject({
+        pageIdInt: 1001,
+        claimsAdded: 1,
+        claimsRemoved: 0,
+        claimsChanged: 1,
+        contradictionCount: 1,
+        assessment: "warn",
+      });
+      expect(store[0].hashBefore).not.toBe(store[0].hashAfter);
+    });
+
+    it("returns 404 for an unknown page", async () => {
+      const res = await postJson(app, "/api/page-revisions", { ...sampleRevision, pageId: "no-such-page" });
+      expect(res.status).toBe(404);
+      expect(store).toHaveLength(0);
+    });
+
+    it("rejects an invalid claim diff status", async () => {
+      const res = await postJson(app, "/api/page-revisions", {
+        ...sampleRevision,
+        claimDiff: {
+          ...sampleRevision.claimDiff,
+          entries: [{ status: "rewritten", newClaim: founded }],
+        },
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/page-revisions", () => {
+    it("lists revisions for a page newest first without content", async () => {
+      await postJson(app, "/api/page-revisions", sampleRevision);
+      await postJson(app, "/api/page-revisions", { ...sampleRevision, tier: "polish", assessment: "safe" });
+      await postJson(app, "/api/page-revisions", { ...sampleRevision, pageId: "miri" });
+
+      const res = await app.request("/api/page-revisions?page_id=anthropic");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.total).toBe(2);
+      expect(body.revisions.map((r: { id: number }) => r.id)).toEqual([2, 1]);
+      expect(body.revisions[0]).toMatchObject({ tier: "polish", assessment: "safe", claimsAdded: 1 });
+      expect(body.revisions[0]).not.toHaveProperty("contentAfter");
+      expect(body.revisions[0]).not.toHaveProperty("claimDiff");
+    });
+
+    it("returns an empty list for a page without an entity ID", async () => {
+      const res = await app.request("/api/page-revisions?page_id=no-such-page");
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ pageId: "no-such-page", revisions: [], total: 0 });
+    });
+
+    it("requires page_id", async () => {
+      const res = await app.request("/api/page-revisions");
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/page-revisions/:id", () => {
+    it("returns content, claim diff and contradictions", async () => {
+      await postJson(app, "/api/page-revisions", sampleRevision);
+
+      const res = await app.request("/api/page-revisions/1");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.contentAfter).toBe(sampleRevision.contentAfter);
+      expect(body.claimDiff.entries.map((e: { status: string }) => e.status)).toEqual(["changed", "added"]);
+      expect(body.contradictions.summary.high).toBe(1);
+      expect(body.issues).toEqual(sampleRevision.issues);
+    });
+
+    it("returns 404 for a missing revision", async () => {
+      const res = await app.request("/api/page-revisions/99");
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Hono } from "hono";
 import { mockDbModule, postJson } from "./test-utils.js";
 
@@ -22,9 +22,39 @@ function simpleTextMatch(row: Record<string, unknown>, query: string): boolean {
   return fields.some((f) => typeof f === "string" && f.toLowerCase().includes(q));
 }
 
+/** Parse a Postgres array literal ("{0.1,0.2}") as sent by drizzle for REAL[]. */
+function parsePgArray(literal: string): number[] {
+  return literal.replace(/[{}]/g, "").split(",").map(Number);
+}
+
 function dispatch(query: string, params: unknown[]): unknown[] {
   const q = query.toLowerCase();
 
+  // --- wiki_pages: UPDATE embedding (POST /embeddings) ---
+  if (q.startsWith('update "wiki_pages"') && q.includes('"embedding"')) {
+    const [embedding, model, id] = params as [string, string, string];
+    const row = pagesStore.get(id);
+    if (!row) return [];
+    row.embedding = parsePgArray(embedding);
+    row.embedding_model = model;
+    return [{ id }];
+  }
+
+  // --- Embedding index load (pages; summaries are not simulated) ---
+  if (q.includes("embedding is not null")) {
+    return Array.from(pagesStore.values())
+      .filter((r) => r.embedding && r.embedding_model === params[0])
+      .map((r) => ({ id: r.id, embedding: r.embedding }));
+  }
+
+  // --- Hybrid search: vector-only candidates by ID list ---
+  if (q.includes("wiki_pages") && q.includes("= any($1::text[])")) {
+    const ids = params[0] as string[];
+    return Array.from(pagesStore.values())
+      .filter((r) => ids.includes(r.id as string))
+      .map((r) => ({ ...r, fts_rank: 0, title_boost: 0, snippet: r.description }));
+  }
+
   // --- entity_ids: INSERT (auto-allocation from page-id-helpers, supports bulk) ---
   if (q.includes("insert into") && q.includes("entity_ids")) {
     const rows: Array<{ numeric_id: number; slug: string }> = [];
@@ -145,6 +175,8 @@ function dispatch(query: string, params: unknown[]): unknown[] {
           reader_importance: row.reader_importance,
           quality: row.quality,
           rank: 1.0,
+          fts_rank: 1.0,
+          title_boost: 0,
           snippet: row.description || null,
         });
       }
@@ -266,6 +298,16 @@ function dispatch(query: string, params: unknown[]): unknown[] {
 vi.mock("../db.js", () => mockDbModule(dispatch));
 
 const { createApp } = await import("../app.js");
+const { invalidateEmbeddingIndex } = await import("../embedding-index.js");
+const { HashingEmbeddingProvider, TransformersEmbeddingProvider, registerEmbeddingProvider, tokenize } =
+  await import("../embeddings.js");
+
+const minilm = new TransformersEmbeddingProvider();
+/** The learned model downloads on first use; its test skips where that is impossible. */
+const minilmAvailable = await minilm.embed(["probe"]).then(
+  () => true,
+  () => false
+);
 
 // ---- Helpers ----
 
@@ -496,6 +538,143 @@ describe("Pages API", () => {
     });
   });
 
+  // ---- Embeddings + hybrid search ----
+
+  describe("POST /api/pages/embeddings and hybrid search", () => {
+    const provider = new HashingEmbeddingProvider();
+
+    beforeEach(() => {
+      invalidateEmbeddingIndex();
+      process.env.EMBEDDING_MODEL = provider.model;
+    });
+
+    afterEach(() => {
+      delete process.env.EMBEDDING_MODEL;
+    });
+
+    async function storeEmbeddings(
+      pages: Array<{ id: string; text: string }>,
+      embedder: { model: string; embed(texts: string[]): Promise<number[][]> } = provider
+    ) {
+      const vectors = await embedder.embed(pages.map((p) => p.text));
+      return postJson(app, "/api/pages/embeddings", {
+        model: embedder.model,
+        items: pages.map((p, i) => ({ id: p.id, embedding: vectors[i] })),
+      });
+    }
+
+    it("stores embeddings and reports unknown pages", async () => {
+      await seedPage(app, "deceptive-alignment", "Deceptive Alignment");
+      const res = await storeEmbeddings([
+        { id: "deceptive-alignment", text: "Deceptive Alignment" },
+        { id: "no-such-page", text: "nothing" },
+      ]);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ updated: 1, missing: ["no-such-page"] });
+    });
+
+    it("rejects batches with mixed dimensions", async () => {
+      const res = await postJson(app, "/api/pages/embeddings", {
+        model: "m",
+        items: [
+          { id: "a", embedding: [1, 0] },
+          { id: "b", embedding: [1, 0, 0] },
+        ],
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it("finds conceptual matches with no keyword match", async () => {
+      await seedPage(app, "deceptive-alignment", "Deceptive Alignment", {
+        description: "Models that deceive their overseers during training",
+      });
+      await seedPage(app, "compute-governance", "Compute Governance", {
+        description: "Regulating access to chips and data centers",
+      });
+      await storeEmbeddings([
+        {
+          id: "deceptive-alignment",
+          text: "Deceptive Alignment. Models that deceive their overseers during training",
+        },
+        {
+          id: "compute-governance",
+          text: "Compute Governance. Regulating access to chips and data centers",
+        },
+      ]);
+
+      const query = encodeURIComponent("ways AI could deceive its overseers");
+      const res = await app.request(`/api/pages/search?q=${query}&mode=hybrid`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.mode).toBe("hybrid");
+      expect(body.results[0].id).toBe("deceptive-alignment");
+      expect(body.results[0].similarity).toBeGreaterThan(0.1);
+    });
+
+    it.skipIf(!minilmAvailable)("matches a page with no shared words using minilm-l6-v2", async () => {
+      process.env.EMBEDDING_MODEL = minilm.model;
+      const pages = [
+        {
+          id: "scheming",
+          title: "Scheming",
+          description: "Models strategically pursuing hidden goals while appearing aligned during evaluation",
+        },
+        {
+          id: "compute-governance",
+          title: "Compute Governance",
+          description: "Regulating access to chips and data centers",
+        },
+        {
+          id: "bioweapons",
+          title: "Bioweapons",
+          description: "Language models helping novices synthesize dangerous pathogens",
+        },
+      ];
+      for (const p of pages) await seedPage(app, p.id, p.title, { description: p.description });
+      await storeEmbeddings(
+        pages.map((p) => ({ id: p.id, text: `${p.title}. ${p.description}` })),
+        minilm
+      );
+
+      const query = "ways AI could deceive its overseers";
+      const schemingTokens = tokenize(`${pages[0].title} ${pages[0].description}`);
+      expect(tokenize(query).filter((t) => schemingTokens.includes(t))).toEqual([]);
+
+      const res = await app.request(`/api/pages/search?q=${encodeURIComponent(query)}&mode=hybrid`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.mode).toBe("hybrid");
+      expect(body.results[0].id).toBe("scheming");
+    });
+
+    it("falls back to FTS when the query cannot be embedded", async () => {
+      registerEmbeddingProvider({
+        model: "unloadable",
+        dimensions: 2,
+        embed: () => Promise.reject(new Error("model download failed")),
+      });
+      process.env.EMBEDDING_MODEL = "unloadable";
+      await seedPage(app, "anthropic", "Anthropic");
+      await postJson(app, "/api/pages/embeddings", {
+        model: "unloadable",
+        items: [{ id: "anthropic", embedding: [1, 0] }],
+      });
+
+      const res = await app.request("/api/pages/search?q=anthropic&mode=hybrid");
+      expect(res.status).toBe(200);
+      expect((await res.json()).mode).toBe("fts");
+    });
+
+    it("falls back to FTS when no embeddings are stored", async () => {
+      await seedPage(app, "anthropic", "Anthropic");
+      const res = await app.request("/api/pages/search?q=anthropic&mode=hybrid");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.mode).toBe("fts");
+      expect(body.results[0].id).toBe("anthropic");
+    });
+  });
+
   // ---- Bearer auth ----
 
   describe("Bearer auth for pages routes", () => {
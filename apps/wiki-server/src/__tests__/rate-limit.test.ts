@@ -240,7 +240,14 @@ describe("RateLimiter", () => {
       expect(limiter.maxKeys).toBe(5000);
     });
 
-    it("defaults maxKeys to 10000", () => {
+    it("gives the pre-auth Bearer guard looser limits than the per-key budget", () => {
+    const { authReadLimiter, authWriteLimiter, bearerIpReadLimiter, bearerIpWriteLimiter } =
+      createDefaultRateLimiters();
+    expect(bearerIpReadLimiter.config.maxRequests).toBe(10 * authReadLimiter.config.maxRequests);
+    expect(bearerIpWriteLimiter.config.maxRequests).toBe(10 * authWriteLimiter.config.maxRequests);
+  });
+
+  it("defaults maxKeys to 10000", () => {
       const limiter = new RateLimiter({ maxRequests: 10, windowMs: 60_000 });
       expect(limiter.maxKeys).toBe(10_000);
     });
@@ -556,4 +563,63 @@ describe("createDefaultRateLimiters", () => {
     expect(readLimiter.maxKeys).toBe(10_000);
     expect(writeLimiter.maxKeys).toBe(10_000);
   });
+
+  it("keys authenticated requests by API key identity, not IP", async () => {
+    const readLimiter = new RateLimiter({ maxRequests: 10, windowMs: 60_000 });
+    const writeLimiter = new RateLimiter({ maxRequests: 10, windowMs: 60_000 });
+    const authReadLimiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
+    const authWriteLimiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
+
+    const app = new Hono();
+    // Stand-in for validateApiKey(): the key id comes from a test header
+    app.use("*", async (c, next) => {
+      const id = c.req.header("X-Test-Key");
+      if (id) c.set("apiKey", { id, name: id, scopes: ["read"] });
+      await next();
+    });
+    app.use(
+      "*",
+      rateLimitMiddleware({ readLimiter, writeLimiter, authReadLimiter, authWriteLimiter })
+    );
+    app.get("/api/pages", (c) => c.json({ ok: true }));
+
+    const res1 = await app.request("/api/pages", {
+      headers: { "X-Test-Key": "1", "X-Forwarded-For": "1.2.3.4" },
+    });
+    expect(res1.status).toBe(200);
+
+    // Same key from a different IP shares the bucket
+    const res2 = await app.request("/api/pages", {
+      headers: { "X-Test-Key": "1", "X-Forwarded-For": "5.6.7.8" },
+    });
+    expect(res2.status).toBe(429);
+
+    // A different key from the same IP has its own bucket
+    const res3 = await app.request("/api/pages", {
+      headers: { "X-Test-Key": "2", "X-Forwarded-For": "1.2.3.4" },
+    });
+    expect(res3.status).toBe(200);
+  });
+
+  it("passes requests without an identity through when identifiedOnly is set", async () => {
+    const readLimiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
+    const writeLimiter = new RateLimiter({ maxRequests: 1, windowMs: 60_000 });
+
+    const app = new Hono();
+    app.use("*", async (c, next) => {
+      const id = c.req.header("X-Test-Key");
+      if (id) c.set("apiKey", { id, name: id, scopes: ["read"] });
+      await next();
+    });
+    app.use("*", rateLimitMiddleware({ readLimiter, writeLimiter, identifiedOnly: true }));
+    app.get("/api/pages", (c) => c.json({ ok: true }));
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request("/api/pages", { headers: { "X-Forwarded-For": "1.2.3.4" } });
+      expect(res.status).toBe(200);
+    }
+
+    expect((await app.request("/api/pages", { headers: { "X-Test-Key": "1" } })).status).toBe(200);
+    expect((await app.request("/api/pages", { headers: { "X-Test-Key": "1" } })).status).toBe(429);
+  });
 });
@@ -5,6 +5,13 @@ import {
   TRIGRAM_SIMILARITY_THRESHOLD,
   TRIGRAM_FALLBACK_THRESHOLD,
   TS_HEADLINE_OPTIONS,
+  hybridScore,
+  hybridTitleBonus,
+  hybridTitleBonusExpr,
+  bandExpr,
+  updatedBucketExpr,
+  QUALITY_BANDS,
+  IMPORTANCE_BANDS,
 } from "../search-utils.js";
 
 describe("buildPrefixTsquery", () => {
@@ -79,3 +86,64 @@ describe("search constants", () => {
     expect(TS_HEADLINE_OPTIONS).toContain("</mark>");
   });
 });
+
+describe("hybridScore", () => {
+  it("weights vector similarity above normalized FTS rank", () => {
+    const ftsOnly = hybridScore(1, 1, 0, 0);
+    const vectorOnly = hybridScore(0, 1, 0, 1);
+    expect(vectorOnly).toBeGreaterThan(ftsOnly);
+  });
+
+  it("normalizes FTS rank by the best candidate", () => {
+    expect(hybridScore(0.05, 0.1, 0, 0)).toBeCloseTo(hybridScore(0.5, 1, 0, 0));
+  });
+
+  it("keeps exact title matches on top", () => {
+    expect(hybridScore(0, 1, 1000, 0)).toBeGreaterThanOrEqual(hybridScore(1, 1, 0, 1));
+  });
+
+  it("ignores negative similarity", () => {
+    expect(hybridScore(0, 0, 0, -0.5)).toBe(0);
+  });
+
+  it("maps title boosts onto bonuses", () => {
+    expect(hybridTitleBonus(1000)).toBe(1);
+    expect(hybridTitleBonus(100)).toBeGreaterThan(hybridTitleBonus(10));
+    expect(hybridTitleBonus(0)).toBe(0);
+  });
+});
+
+describe("hybridTitleBonusExpr", () => {
+  it("maps the same thresholds as hybridTitleBonus", () => {
+    expect(hybridTitleBonusExpr("tb")).toBe(
+      "(CASE WHEN tb >= 1000 THEN 1 WHEN tb >= 100 THEN 0.3 WHEN tb >= 10 THEN 0.1 ELSE 0 END)"
+    );
+  });
+});
+
+describe("bandExpr", () => {
+  it("maps scores onto the highest band they reach", () => {
+    expect(bandExpr("quality", QUALITY_BANDS)).toBe(
+      "(CASE WHEN quality >= 80 THEN 'comprehensive' WHEN quality >= 60 THEN 'good' " +
+        "WHEN quality >= 40 THEN 'adequate' WHEN quality >= 20 THEN 'draft' " +
+        "WHEN quality >= 0 THEN 'stub' END)"
+    );
+    expect(bandExpr("ri", IMPORTANCE_BANDS)).toContain("WHEN ri >= 90 THEN 'essential'");
+  });
+});
+
+describe("updatedBucketExpr", () => {
+  const now = new Date("2026-03-15T00:00:00Z");
+
+  it("buckets dates by age against cutoffs from now", () => {
+    const expr = updatedBucketExpr("d", now);
+    expect(expr).toContain(`WHEN d COLLATE "C" >= '2026-03-08T00:00:00.000Z' THEN 'week'`);
+    expect(expr).toContain(`WHEN d COLLATE "C" >= '2026-02-13T00:00:00.000Z' THEN 'month'`);
+    expect(expr).toContain(`WHEN d COLLATE "C" >= '2025-03-15T00:00:00.000Z' THEN 'year'`);
+    expect(expr).toContain("ELSE 'older'");
+  });
+
+  it("leaves missing or non-date values unbucketed", () => {
+    expect(updatedBucketExpr("d", now)).toContain("(CASE WHEN d ~ '^[0-9]{4}-[0-9]{2}' THEN (CASE");
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockDbModule } from "./test-utils.js";
+
+// ---- Canned rows for the results and facet queries ----
+
+function row(overrides: Record<string, unknown>) {
+  return {
+    numeric_id: null,
+    description: null,
+    entity_type: null,
+    category: null,
+    quality: null,
+    reader_importance: null,
+    updated: "2020-01-01",
+    url: null,
+    entity_id: null,
+    ...overrides,
+  };
+}
+
+const RESULT_ROWS = [
+  row({
+    kind: "page",
+    id: "deceptive-alignment",
+    numeric_id: "E10",
+    title: "Deceptive Alignment",
+    entity_type: "risk",
+    category: "risks",
+    quality: 85,
+    reader_importance: 92,
+    score: "1.1",
+  }),
+  row({ kind: "entity", id: "alignment-org", title: "Alignment Org", entity_type: "organization", score: 0.9 }),
+  row({ kind: "resource", id: "r1", title: "Risks from Learned Optimization", url: "https://arxiv.org/abs/1906.01820", score: 0.8 }),
+  row({ kind: "fact", id: "f_1", title: "Alignment budget", entity_type: "organization", entity_id: "alignment-org", score: 0.7 }),
+];
+
+const FACET_ROWS = [
+  { facet: "total", value: null, count: "412" },
+  { facet: "kind", value: "page", count: "300" },
+  { facet: "kind", value: "entity", count: "100" },
+  { facet: "kind", value: "fact", count: "10" },
+  { facet: "kind", value: "resource", count: "2" },
+  { facet: "entityType", value: "risk", count: "120" },
+  { facet: "quality", value: "comprehensive", count: "40" },
+  { facet: "updated", value: "week", count: "7" },
+];
+
+let queries: Array<{ query: string; params: unknown[] }>;
+
+const dispatch = (query: string, params: unknown[]): unknown[] => {
+  queries.push({ query, params });
+  if (query.includes("WITH matches")) return FACET_ROWS;
+  if (query.includes("ORDER BY score")) return RESULT_ROWS;
+  return [];
+};
+
+vi.mock("../db.js", () => mockDbModule(dispatch));
+
+const { createApp } = await import("../app.js");
+
+const resultsQuery = () => queries.find((q) => q.query.includes("ORDER BY score"))!;
+const facetsQuery = () => queries.find((q) => q.query.includes("WITH matches"))!;
+
+/** The value bound to each $n placeholder, e.g. "quality_band = $4" → "comprehensive". */
+function boundTo(q: { query: string; params: unknown[] }, column: string): unknown[] {
+  return [...q.query.matchAll(new RegExp(`${column} = \\$(\\d+)`, "g"))].map(
+    (m) => q.params[Number(m[1]) - 1]
+  );
+}
+
+describe("GET /api/search", () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    delete process.env.LONGTERMWIKI_SERVER_API_KEY;
+    queries = [];
+    app = createApp();
+  });
+
+  it("returns typed results from every kind with the SQL total", async () => {
+    const res = await app.request("/api/search?q=alignment");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.total).toBe(412);
+    expect(body.results.map((r: { kind: string; id: string }) => `${r.kind}:${r.id}`)).toEqual([
+      "page:deceptive-alignment",
+      "entity:alignment-org",
+      "resource:r1",
+      "fact:f_1",
+    ]);
+    expect(body.results[0].score).toBe(1.1);
+    expect(body.results[3].entityId).toBe("alignment-org");
+    expect(body.results[2].url).toBe("https://arxiv.org/abs/1906.01820");
+  });
+
+  it("searches every kind without a candidate cap", async () => {
+    await app.request("/api/search?q=alignment");
+    for (const table of ["wiki_pages", "entities", "facts", "resources"]) {
+      expect(resultsQuery().query).toContain(`FROM ${table}`);
+      expect(facetsQuery().query).toContain(`FROM ${table}`);
+    }
+    expect(facetsQuery().query).not.toContain("LIMIT");
+  });
+
+  it("returns facet counts from the grouped facet query", async () => {
+    const body = await (await app.request("/api/search?q=alignment")).json();
+    expect(body.facets).toEqual({
+      kinds: { page: 300, entity: 100, fact: 10, resource: 2 },
+      entityTypes: { risk: 120 },
+      categories: {},
+      qualityBands: { comprehensive: 40 },
+      importanceBands: {},
+      updated: { week: 7 },
+    });
+  });
+
+  it("applies filters in each kind's SQL", async () => {
+    await app.request("/api/search?q=alignment&entity_type=organization&quality=comprehensive");
+    const { query } = resultsQuery();
+
+    // One entity_type and one quality predicate per kind branch
+    expect(boundTo(resultsQuery(), "entity_type")).toEqual(Array(4).fill("organization"));
+    expect(boundTo(resultsQuery(), "quality_band")).toEqual(Array(4).fill("comprehensive"));
+    expect(query.indexOf("quality_band = ")).toBeLessThan(query.indexOf("ORDER BY score"));
+  });
+
+  it("only queries the selected kind for results", async () => {
+    await app.request("/api/search?q=alignment&kind=page");
+    expect(resultsQuery().query).toContain("FROM wiki_pages");
+    expect(resultsQuery().query).not.toContain("FROM entities");
+    // Facets still count every kind, so the kind facet can show the others
+    expect(facetsQuery().query).toContain("FROM entities");
+  });
+
+  it("counts each facet with the other filters, not its own", async () => {
+    await app.request("/api/search?q=alignment&kind=page&quality=comprehensive");
+    const parts = facetsQuery().query.split("UNION ALL").filter((p) => p.includes("GROUP BY"));
+    const facet = (name: string) => parts.find((p) => p.includes(`'${name}' AS facet`))!;
+
+    expect(facet("kind")).toContain("quality_band = ");
+    expect(facet("kind")).not.toMatch(/kind = \$/);
+    expect(facet("quality")).toMatch(/kind = \$/);
+    expect(facet("quality")).not.toContain("quality_band = ");
+    expect(facet("entityType")).toMatch(/kind = \$.* AND quality_band = \$/);
+  });
+
+  it("paginates in SQL", async () => {
+    await app.request("/api/search?q=alignment&limit=2&offset=6");
+    const { query, params } = resultsQuery();
+    const [, limitRef, offsetRef] = query.match(/LIMIT \$(\d+) OFFSET \$(\d+)/)!;
+    expect(params[Number(limitRef) - 1]).toBe(2);
+    expect(params[Number(offsetRef) - 1]).toBe(6);
+  });
+
+  it("uses a prefix tsquery for FTS kinds and an escaped ILIKE pattern for the rest", async () => {
+    await app.request("/api/search?q=" + encodeURIComponent("ai 100%"));
+    const { params } = resultsQuery();
+    expect(params).toContain("ai:* & 100:*");
+    expect(params).toContain("%ai 100\\%%");
+  });
+
+  it("skips FTS kinds when the query has no words", async () => {
+    await app.request("/api/search?q=" + encodeURIComponent("%%"));
+    expect(resultsQuery().query).not.toContain("FROM wiki_pages");
+    expect(resultsQuery().query).toContain("FROM entities");
+  });
+
+  it("rejects missing queries and unknown facet values", async () => {
+    expect((await app.request("/api/search")).status).toBe(400);
+    expect((await app.request("/api/search?q=x&quality=excellent")).status).toBe(400);
+    expect((await app.request("/api/search?q=x&kind=video")).status).toBe(400);
+  });
+});
@@ -21,11 +21,13 @@ import type { AgentSessionsRoute } from './routes/agent-sessions.js';
 import type { ActiveAgentsRoute } from './routes/active-agents.js';
 import type { AgentSessionEventsRoute } from './routes/agent-session-events.js';
 import type { ArtifactsRoute } from './routes/artifacts.js';
+import type { PageRevisionsRoute } from './routes/page-revisions.js';
 import type { AutoUpdateRunsRoute } from './routes/auto-update-runs.js';
 import type { AutoUpdateNewsRoute } from './routes/auto-update-news.js';
 import type { LinksRoute } from './routes/links.js';
 import type { HallucinationRiskRoute } from './routes/hallucination-risk.js';
 import type { ExploreRoute } from './routes/explore.js';
+import type { SearchRoute } from './routes/search.js';
 import type { FactsRoute } from './routes/facts.js';
 import type { EntitiesRoute } from './routes/entities.js';
 import type { PagesRoute } from './routes/pages.js';
@@ -43,11 +45,13 @@ type AgentSessionsRpc = ReturnType<typeof hc<AgentSessionsRoute>>;
 type ActiveAgentsRpc = ReturnType<typeof hc<ActiveAgentsRoute>>;
 type AgentSessionEventsRpc = ReturnType<typeof hc<AgentSessionEventsRoute>>;
 type ArtifactsRpc = ReturnType<typeof hc<ArtifactsRoute>>;
+type PageRevisionsRpc = ReturnType<typeof hc<PageRevisionsRoute>>;
 type AutoUpdateRunsRpc = ReturnType<typeof hc<AutoUpdateRunsRoute>>;
 type AutoUpdateNewsRpc = ReturnType<typeof hc<AutoUpdateNewsRoute>>;
 type LinksRpc = ReturnType<typeof hc<LinksRoute>>;
 type HallucinationRiskRpc = ReturnType<typeof hc<HallucinationRiskRoute>>;
 type ExploreRpc = ReturnType<typeof hc<ExploreRoute>>;
+type SearchRpc = ReturnType<typeof hc<SearchRoute>>;
 type FactsRpc = ReturnType<typeof hc<FactsRoute>>;
 type EntitiesRpc = ReturnType<typeof hc<EntitiesRoute>>;
 type PagesRpc = ReturnType<typeof hc<PagesRoute>>;
@@ -145,6 +149,19 @@ export type AgentSessionEventRow = AgentSessionEventsListResult['events'][number
 /** A single artifact row (from by-ID endpoint). */
 export type ArtifactRow = InferResponseType<ArtifactsRpc[':id']['$get'], 200>;
 
+// ---------------------------------------------------------------------------
+// Page Revisions
+// ---------------------------------------------------------------------------
+
+/** Revision list for a page (no content or diff payloads). */
+export type PageRevisionListResult = InferResponseType<PageRevisionsRpc['index']['$get'], 200>;
+
+/** A single revision list row. */
+export type PageRevisionListRow = PageRevisionListResult['revisions'][number];
+
+/** A full revision with before/after content, claim diff and contradictions. */
+export type PageRevisionRow = InferResponseType<PageRevisionsRpc[':id']['$get'], 200>;
+
 // ---------------------------------------------------------------------------
 // Auto-Update
 // ---------------------------------------------------------------------------
@@ -197,6 +214,16 @@ export type ExploreResult = InferResponseType<ExploreRpc['index']['$get'], 200>;
 /** A single explore item. */
 export type ExploreItem = ExploreResult['items'][number];
 
+// ---------------------------------------------------------------------------
+// Faceted search
+// ---------------------------------------------------------------------------
+
+/** Faceted search response (pages, entities, facts, resources). */
+export type FacetedSearchResult = InferResponseType<SearchRpc['index']['$get'], 200>;
+
+/** A single faceted search hit. */
+export type FacetedSearchHit = FacetedSearchResult['results'][number];
+
 // ---------------------------------------------------------------------------
 // Facts
 // ---------------------------------------------------------------------------
@@ -276,6 +276,31 @@ export interface CitationContentStatsResult {
   avgContentLength: number | null;
 }
 
+// ---------------------------------------------------------------------------
+// Citation Drift
+// ---------------------------------------------------------------------------
+
+/** One re-fetch of a URL whose text differs from citation_content, with every quote citing it. */
+export const RecordCitationDriftSchema = z.object({
+  url: z.string().min(1).max(2000),
+  previousHash: z.string().max(64).nullable().optional(),
+  currentHash: z.string().min(1).max(64),
+  previousLength: z.number().int().nullable().optional(),
+  currentLength: z.number().int().min(0),
+  quotes: z
+    .array(
+      z.object({
+        pageId: PageIdSchema,
+        footnote: z.number().int().min(0),
+        quoteFound: z.boolean(),
+        verificationScore: z.number().min(0).max(1).nullable().optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+export type RecordCitationDrift = z.infer<typeof RecordCitationDriftSchema>;
+
 // ---------------------------------------------------------------------------
 // Sessions
 // ---------------------------------------------------------------------------
@@ -701,6 +726,67 @@ export const SyncEntitiesBatchSchema = z.object({
   entities: z.array(SyncEntitySchema).min(1).max(MAX_BATCH_SIZE),
 });
 
+/** Fold `dropId` into `keepId`. Both accept a slug, stableId or numericId. */
+export const MergeEntitiesSchema = z.object({
+  keepId: z.string().min(1).max(300),
+  dropId: z.string().min(1).max(300),
+});
+export type MergeEntities = z.infer<typeof MergeEntitiesSchema>;
+
+// ---------------------------------------------------------------------------
+// Entity Resolution (alias-aware name matching; see entity-matching.ts)
+// ---------------------------------------------------------------------------
+
+export const VALID_ENTITY_REVIEW_STATUSES = ["pending", "accepted", "rejected"] as const;
+
+export const ResolveEntityQuerySchema = z.object({
+  name: z.string().min(1).max(500),
+  entityType: z.string().max(50).optional(),
+  parent: z.string().max(500).optional(),
+});
+export type ResolveEntityQuery = z.infer<typeof ResolveEntityQuerySchema>;
+
+export const ResolveEntitiesBatchSchema = z.object({
+  queries: z.array(ResolveEntityQuerySchema).min(1).max(MAX_BATCH_SIZE),
+  limit: z.number().int().min(1).max(20).optional(),
+});
+export type ResolveEntitiesBatch = z.infer<typeof ResolveEntitiesBatchSchema>;
+
+export const EntityMatchCandidateSchema = z.object({
+  stableId: z.string().min(1).max(100),
+  slug: z.string().max(300),
+  name: z.string().max(500),
+  entityType: z.string().max(50),
+  confidence: z.number().min(0).max(1),
+  matchedOn: z.string().max(50),
+  matchedText: z.string().max(500),
+});
+export type EntityMatchCandidate = z.infer<typeof EntityMatchCandidateSchema>;
+
+export const EntityReviewItemSchema = z.object({
+  rawName: z.string().min(1).max(500),
+  entityType: z.string().max(50).optional(),
+  parent: z.string().max(500).optional(),
+  /** Importer that hit the name, e.g. "grants:sff", "key-persons", "careers" */
+  source: z.string().min(1).max(100),
+  candidates: z.array(EntityMatchCandidateSchema).max(20),
+});
+export type EntityReviewItem = z.infer<typeof EntityReviewItemSchema>;
+
+export const EnqueueEntityReviewsSchema = z.object({
+  items: z.array(EntityReviewItemSchema).min(1).max(500),
+});
+
+export const AcceptEntityReviewSchema = z.object({
+  /** stableId or slug of the entity the name refers to */
+  entityId: z.string().min(1).max(300),
+  reviewedBy: z.string().max(100).optional(),
+});
+
+export const RejectEntityReviewSchema = z.object({
+  reviewedBy: z.string().max(100).optional(),
+});
+
 // ---------------------------------------------------------------------------
 // Facts
 // ---------------------------------------------------------------------------
@@ -754,21 +840,50 @@ export const JOBS_MAX_BATCH_SIZE = 50;
 /** Default minutes before a stale claimed/running job is reset by sweep. */
 export const STALE_JOB_TIMEOUT_MINUTES = 60;
 
+/** Default seconds a claim is held before the worker must renew it by heartbeat. */
+export const JOB_LEASE_SECONDS = 300;
+
+/** Maximum dependencies per job. */
+export const JOB_MAX_DEPENDENCIES = 100;
+
 export const CreateJobSchema = z.object({
   type: z.string().min(1).max(100),
   params: z.record(z.unknown()).nullable().optional(),
   priority: z.number().int().min(0).max(1000).default(0),
   maxRetries: z.number().int().min(0).max(10).default(3),
+  /** Existing job IDs that must complete before this job can be claimed. */
+  dependsOn: z.array(z.number().int().positive()).max(JOB_MAX_DEPENDENCIES).optional(),
+  /** Earliest time the job may be claimed. */
+  runAfter: z.string().datetime({ offset: true }).optional(),
+  /** Creating a job with a key that already exists returns the existing job. */
+  idempotencyKey: z.string().min(1).max(200).optional(),
 });
 /** Output type (server-resolved, defaults applied). */
 export type CreateJob = z.infer<typeof CreateJobSchema>;
 /** Input type (client-side, defaults optional). */
 export type CreateJobInput = z.input<typeof CreateJobSchema>;
 
+export const CreateJobBatchItemSchema = CreateJobSchema.extend({
+  /** Dependencies on earlier jobs in the same batch, by array index. */
+  dependsOnIndex: z.array(z.number().int().min(0)).max(JOB_MAX_DEPENDENCIES).optional(),
+});
+export type CreateJobBatchItemInput = z.input<typeof CreateJobBatchItemSchema>;
+
 export const CreateJobBatchSchema = z
-  .array(CreateJobSchema)
+  .array(CreateJobBatchItemSchema)
   .min(1)
-  .max(JOBS_MAX_BATCH_SIZE);
+  .max(JOBS_MAX_BATCH_SIZE)
+  .superRefine((items, ctx) => {
+    items.forEach((item, i) => {
+      if (item.dependsOnIndex?.some((d) => d >= i)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, "dependsOnIndex"],
+          message: "dependsOnIndex must reference earlier jobs in the batch",
+        });
+      }
+    });
+  });
 export type CreateJobBatch = z.infer<typeof CreateJobBatchSchema>;
 
 export const ListJobsQuerySchema = z.object({
@@ -782,16 +897,29 @@ export type ListJobsQuery = z.infer<typeof ListJobsQuerySchema>;
 export const ClaimJobSchema = z.object({
   type: z.string().min(1).max(100).optional(),
   workerId: z.string().min(1).max(200),
+  leaseSeconds: z.number().int().min(30).max(3600).default(JOB_LEASE_SECONDS),
 });
 export type ClaimJob = z.infer<typeof ClaimJobSchema>;
 
+export const HeartbeatJobSchema = z.object({
+  workerId: z.string().min(1).max(200),
+  leaseSeconds: z.number().int().min(30).max(3600).default(JOB_LEASE_SECONDS),
+});
+export type HeartbeatJob = z.infer<typeof HeartbeatJobSchema>;
+
 export const CompleteJobSchema = z.object({
+  /** Must match the worker holding the job's lease. */
+  workerId: z.string().min(1).max(200),
   result: z.record(z.unknown()).nullable().optional(),
 });
 export type CompleteJob = z.infer<typeof CompleteJobSchema>;
 
 export const FailJobSchema = z.object({
+  /** Must match the worker holding the job's lease. */
+  workerId: z.string().min(1).max(200),
   error: z.string().max(5000),
+  /** Delay before a retry; defaults to exponential backoff on the retry count. */
+  retryAfterSeconds: z.number().int().min(0).max(86400).optional(),
 });
 export type FailJob = z.infer<typeof FailJobSchema>;
 
@@ -863,6 +991,75 @@ export const SaveArtifactsSchema = z.object({
 });
 export type SaveArtifacts = z.infer<typeof SaveArtifactsSchema>;
 
+// ---------------------------------------------------------------------------
+// Page Revisions (semantic diff audit trail; see crux/lib/semantic-diff)
+// ---------------------------------------------------------------------------
+
+export const VALID_REVISION_ASSESSMENTS = ["safe", "warn", "block"] as const;
+
+const RevisionClaimSchema = z.object({
+  text: z.string().max(5000),
+  type: z.string().max(50),
+  confidence: z.string().max(20),
+  sourceContext: z.string().max(10000),
+  keyValue: z.string().max(1000).optional(),
+});
+
+export const PageRevisionClaimDiffSchema = z.object({
+  claimsBefore: z.number().int().min(0),
+  claimsAfter: z.number().int().min(0),
+  entries: z
+    .array(
+      z.object({
+        status: z.enum(["added", "removed", "changed", "unchanged"]),
+        newClaim: RevisionClaimSchema.optional(),
+        oldClaim: RevisionClaimSchema.optional(),
+        changeDescription: z.string().max(2000).optional(),
+      })
+    )
+    .max(2000),
+  summary: z.object({
+    added: z.number().int().min(0),
+    removed: z.number().int().min(0),
+    changed: z.number().int().min(0),
+    unchanged: z.number().int().min(0),
+  }),
+});
+export type PageRevisionClaimDiff = z.infer<typeof PageRevisionClaimDiffSchema>;
+
+export const PageRevisionContradictionsSchema = z.object({
+  contradictions: z
+    .array(
+      z.object({
+        newClaim: RevisionClaimSchema,
+        existingClaim: RevisionClaimSchema,
+        reason: z.string().max(5000),
+        severity: z.enum(["high", "medium", "low"]),
+      })
+    )
+    .max(500),
+  hasHighSeverity: z.boolean(),
+  summary: z.object({
+    high: z.number().int().min(0),
+    medium: z.number().int().min(0),
+    low: z.number().int().min(0),
+  }),
+});
+export type PageRevisionContradictions = z.infer<typeof PageRevisionContradictionsSchema>;
+
+export const CreatePageRevisionSchema = z.object({
+  pageId: PageIdSchema,
+  agent: z.string().min(1).max(100),
+  tier: z.string().max(50).nullable().optional(),
+  contentBefore: z.string().max(1_000_000),
+  contentAfter: z.string().max(1_000_000),
+  assessment: z.enum(VALID_REVISION_ASSESSMENTS),
+  issues: z.array(z.string().max(2000)).max(100).nullable().optional(),
+  claimDiff: PageRevisionClaimDiffSchema,
+  contradictions: PageRevisionContradictionsSchema,
+});
+export type CreatePageRevision = z.infer<typeof CreatePageRevisionSchema>;
+
 // ---------------------------------------------------------------------------
 // Pages
 // ---------------------------------------------------------------------------
@@ -901,6 +1098,29 @@ export const SyncPagesBatchSchema = z.object({
   syncedFromCommit: z.string().max(100).nullable().optional(),
 });
 
+// ---------------------------------------------------------------------------
+// Embeddings (pages and summaries; see embeddings.ts)
+// ---------------------------------------------------------------------------
+
+export const MAX_EMBEDDING_DIMENSIONS = 4096;
+
+export const EmbeddingItemSchema = z.object({
+  /** Page ID (for pages) or entity ID (for summaries) */
+  id: z.string().min(1).max(300),
+  embedding: z.array(z.number().finite()).min(1).max(MAX_EMBEDDING_DIMENSIONS),
+});
+
+export const StoreEmbeddingsBatchSchema = z
+  .object({
+    model: z.string().min(1).max(100),
+    items: z.array(EmbeddingItemSchema).min(1).max(MAX_BATCH_SIZE),
+  })
+  .refine(
+    (d) => d.items.every((i) => i.embedding.length === d.items[0].embedding.length),
+    { message: "All embeddings in a batch must have the same dimensions" }
+  );
+export type StoreEmbeddingsBatch = z.infer<typeof StoreEmbeddingsBatchSchema>;
+
 // ---------------------------------------------------------------------------
 // Agent Sessions
 // ---------------------------------------------------------------------------
@@ -1092,3 +1312,64 @@ export const UpdateIncidentSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
   githubIssueNumber: z.number().int().positive().optional(),
 });
+
+// ---------------------------------------------------------------------------
+// API Keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Route groups that write scopes are granted per. Each mounted /api/* route
+ * belongs to exactly one group (see mount() in app.ts).
+ */
+export const API_ROUTE_GROUPS = [
+  "content", // pages, citations, resources, links, summaries, edit logs
+  "facts", // entities, facts, things, records (grants, personnel, ...)
+  "agents", // sessions, jobs, artifacts
+  "ops", // auto-update, groundskeeper, monitoring, GitHub mirrors
+] as const;
+
+export type ApiRouteGroup = (typeof API_ROUTE_GROUPS)[number];
+
+export const VALID_API_KEY_SCOPES = [
+  "read",
+  ...API_ROUTE_GROUPS.map((g) => `write:${g}` as const),
+  "admin",
+] as const;
+
+export type ApiKeyScope = (typeof VALID_API_KEY_SCOPES)[number];
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(200),
+  scopes: z
+    .array(z.enum(VALID_API_KEY_SCOPES))
+    .min(1)
+    .max(VALID_API_KEY_SCOPES.length),
+  expiresAt: z.string().datetime().optional(),
+});
+export type CreateApiKey = z.infer<typeof CreateApiKeySchema>;
+
+// ---------------------------------------------------------------------------
+// Change events & webhooks
+// ---------------------------------------------------------------------------
+
+export const EVENT_TYPES = [
+  "page.synced",
+  "page.deleted",
+  "fact.changed",
+  "job.completed",
+  "incident.opened",
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export const RegisterWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2000)
+    .refine((u) => /^https?:\/\//.test(u), "must be an http(s) URL"),
+  /** Omit to receive every event type. */
+  eventTypes: z.array(z.enum(EVENT_TYPES)).min(1).max(EVENT_TYPES.length).optional(),
+  description: z.string().max(500).optional(),
+});
+export type RegisterWebhook = z.infer<typeof RegisterWebhookSchema>;
@@ -1,7 +1,9 @@
 import { Hono } from "hono";
 import { HTTPException } from "hono/http-exception";
 import { logger } from "./logger.js";
-import { validateApiKey } from "./auth.js";
+import { validateApiKey, requireScope } from "./auth.js";
+import { auditMiddleware } from "./audit.js";
+import type { ApiRouteGroup } from "./api-types.js";
 import {
   rateLimitMiddleware,
   createDefaultRateLimiters,
@@ -11,6 +13,7 @@ import { idsRoute } from "./routes/ids.js";
 import { citationsRoute } from "./routes/citations.js";
 import { pagesRoute } from "./routes/pages.js";
 import { editLogsRoute } from "./routes/edit-logs.js";
+import { pageRevisionsRoute } from "./routes/page-revisions.js";
 import { autoUpdateRunsRoute } from "./routes/auto-update-runs.js";
 import { hallucinationRiskRoute } from "./routes/hallucination-risk.js";
 import { sessionsRoute } from "./routes/sessions.js";
@@ -19,6 +22,7 @@ import { summariesRoute } from "./routes/summaries.js";
 import { linksRoute } from "./routes/links.js";
 import { autoUpdateNewsRoute } from "./routes/auto-update-news.js";
 import { entitiesRoute } from "./routes/entities.js";
+import { entityResolutionRoute } from "./routes/entity-resolution.js";
 import { factsRoute } from "./routes/facts.js";
 import { agentSessionsRoute } from "./routes/agent-sessions.js";
 import { activeAgentsRoute } from "./routes/active-agents.js";
@@ -26,6 +30,7 @@ import { agentSessionEventsRoute } from "./routes/agent-session-events.js";
 import { jobsRoute } from "./routes/jobs.js";
 import { artifactsRoute } from "./routes/artifacts.js";
 import { exploreRoute } from "./routes/explore.js";
+import { searchRoute } from "./routes/search.js";
 import { integrityRoute } from "./routes/integrity.js";
 import { referencesRoute } from "./routes/references.js";
 import { githubIssuesRoute } from "./routes/github-issues.js";
@@ -47,6 +52,10 @@ import { benchmarkResultsRoute } from "./routes/benchmark-results.js";
 import { recordVerificationsRoute } from "./routes/record-verifications.js";
 import { thingsRoute } from "./routes/things.js";
 import { researchAreasRoute } from "./routes/research-areas.js";
+import { apiKeysRoute } from "./routes/api-keys.js";
+import { auditRoute } from "./routes/audit.js";
+import { eventsRoute } from "./routes/events.js";
+import { webhooksRoute } from "./routes/webhooks.js";
 
 let requestCounter = 0;
 
@@ -75,31 +84,6 @@ export function createApp() {
     }
   });
 
-  // Rate limiting middleware — applied before auth so that abusive traffic
-  // is rejected early without touching the database or auth layer.
-  // Health endpoint is exempt so monitoring probes are never throttled.
-  // Authenticated traffic gets higher limits (1000 read/200 write per min)
-  // vs unauthenticated (100 read/20 write) to avoid blocking internal
-  // infrastructure (CI sync, Next.js ISR, crux CLI) while still providing
-  // a circuit breaker against runaway scripts.
-  const { readLimiter, writeLimiter, authReadLimiter, authWriteLimiter } =
-    createDefaultRateLimiters();
-  readLimiter.startCleanup();
-  writeLimiter.startCleanup();
-  authReadLimiter.startCleanup();
-  authWriteLimiter.startCleanup();
-
-  app.use(
-    "*",
-    rateLimitMiddleware({
-      readLimiter,
-      writeLimiter,
-      authReadLimiter,
-      authWriteLimiter,
-      skipPaths: ["/health", "/healthz"],
-    })
-  );
-
   // Error handler — re-throw HTTPExceptions (auth failures etc.) so Hono
   // returns the proper status code; only catch unexpected errors as 500.
   // For /api/* routes (already behind bearer auth), include the real error
@@ -116,6 +100,45 @@ export function createApp() {
     return c.json({ error: "internal_error", message }, 500);
   });
 
+  // Rate limiting middleware (per IP) — applied before auth so that abusive
+  // traffic, including guessed API keys, is rejected early without touching
+  // the database or auth layer.
+  // Health endpoints are skipped so monitoring probes are never throttled.
+  // Unauthenticated requests get 100 read/20 write per min. Requests carrying
+  // a Bearer token only hit a loose abuse guard here (10,000 read/2,000 write
+  // per min); their real budget is charged per key after auth, so service
+  // clients sharing an egress IP (CI sync, Next.js ISR, crux CLI) don't
+  // compete for one IP budget.
+  const {
+    readLimiter,
+    writeLimiter,
+    authReadLimiter,
+    authWriteLimiter,
+    bearerIpReadLimiter,
+    bearerIpWriteLimiter,
+  } = createDefaultRateLimiters();
+  for (const limiter of [
+    readLimiter,
+    writeLimiter,
+    authReadLimiter,
+    authWriteLimiter,
+    bearerIpReadLimiter,
+    bearerIpWriteLimiter,
+  ]) {
+    limiter.startCleanup();
+  }
+
+  app.use(
+    "*",
+    rateLimitMiddleware({
+      readLimiter,
+      writeLimiter,
+      authReadLimiter: bearerIpReadLimiter,
+      authWriteLimiter: bearerIpWriteLimiter,
+      skipPaths: ["/health", "/healthz"],
+    })
+  );
+
   // Lightweight liveness probe — no DB queries, no auth, no rate limiting.
   // Use this for K8s probes and groundskeeper health checks.
   app.get("/healthz", (c) => {
@@ -128,47 +151,80 @@ export function createApp() {
   // API routes — all require a valid API key
   app.use("/api/*", validateApiKey());
 
-  // Mount route handlers
-  app.route("/api/ids", idsRoute);
-  app.route("/api/citations", citationsRoute);
-  app.route("/api/pages", pagesRoute);
-  app.route("/api/edit-logs", editLogsRoute);
-  app.route("/api/auto-update-runs", autoUpdateRunsRoute);
-  app.route("/api/hallucination-risk", hallucinationRiskRoute);
-  app.route("/api/sessions", sessionsRoute);
-  app.route("/api/resources", resourcesRoute);
-  app.route("/api/summaries", summariesRoute);
-  app.route("/api/links", linksRoute);
-  app.route("/api/auto-update-news", autoUpdateNewsRoute);
-  app.route("/api/entities", entitiesRoute);
-  app.route("/api/facts", factsRoute);
-  app.route("/api/agent-sessions", agentSessionsRoute);
-  app.route("/api/active-agents", activeAgentsRoute);
-  app.route("/api/agent-session-events", agentSessionEventsRoute);
-  app.route("/api/jobs", jobsRoute);
-  app.route("/api/artifacts", artifactsRoute);
-  app.route("/api/explore", exploreRoute);
-  app.route("/api/integrity", integrityRoute);
-  app.route("/api/references", referencesRoute);
-  app.route("/api/github/issues", githubIssuesRoute);
-  app.route("/api/github/pulls", githubPullsRoute);
-  app.route("/api/groundskeeper-runs", groundskeeperRunsRoute);
-  app.route("/api/monitoring", monitoringRoute);
-  app.route("/api/kb-verifications", factbaseVerificationsRoute); // API path kept for backwards compat
-  app.route("/api/personnel", personnelRoute);
-  app.route("/api/people", peopleRoute);
-  app.route("/api/grants", grantsRoute);
-  app.route("/api/funding-rounds", fundingRoundsRoute);
-  app.route("/api/investments", investmentsRoute);
-  app.route("/api/equity-positions", equityPositionsRoute);
-  app.route("/api/divisions", divisionsRoute);
-  app.route("/api/division-personnel", divisionPersonnelRoute);
-  app.route("/api/funding-programs", fundingProgramsRoute);
-  app.route("/api/benchmarks", benchmarksRoute);
-  app.route("/api/benchmark-results", benchmarkResultsRoute);
-  app.route("/api/record-verifications", recordVerificationsRoute);
-  app.route("/api/things", thingsRoute);
-  app.route("/api/research-areas", researchAreasRoute);
+  // Rate limiting middleware (per API key) — applied after auth so that each
+  // scoped key gets its own budget (1000 read/200 write per min) regardless of
+  // which IP it connects from. Requests without an identity (dev mode) are
+  // already limited by IP above.
+  app.use(
+    "/api/*",
+    rateLimitMiddleware({
+      readLimiter: authReadLimiter,
+      writeLimiter: authWriteLimiter,
+      identifiedOnly: true,
+    })
+  );
+
+  // Audit log — one row per mutating request (see audit.ts)
+  app.use("/api/*", auditMiddleware());
+
+  /** Mount a route behind the scope check for its route group. */
+  const mount = (path: string, route: Hono, group: ApiRouteGroup | "admin") => {
+    app.use(path, requireScope(group));
+    app.use(`${path}/*`, requireScope(group));
+    app.route(path, route);
+  };
+
+  // Mount route handlers. Each belongs to a route group; scoped API keys
+  // need "read" for GET requests and "write:<group>" for mutations.
+  mount("/api/ids", idsRoute, "content");
+  mount("/api/citations", citationsRoute, "content");
+  mount("/api/pages", pagesRoute, "content");
+  mount("/api/edit-logs", editLogsRoute, "content");
+  mount("/api/page-revisions", pageRevisionsRoute, "content");
+  mount("/api/auto-update-runs", autoUpdateRunsRoute, "ops");
+  mount("/api/hallucination-risk", hallucinationRiskRoute, "content");
+  mount("/api/sessions", sessionsRoute, "agents");
+  mount("/api/resources", resourcesRoute, "content");
+  mount("/api/summaries", summariesRoute, "content");
+  mount("/api/links", linksRoute, "content");
+  mount("/api/auto-update-news", autoUpdateNewsRoute, "ops");
+  mount("/api/entities", entitiesRoute, "facts");
+  mount("/api/entity-resolution", entityResolutionRoute, "facts");
+  mount("/api/facts", factsRoute, "facts");
+  mount("/api/agent-sessions", agentSessionsRoute, "agents");
+  mount("/api/active-agents", activeAgentsRoute, "agents");
+  mount("/api/agent-session-events", agentSessionEventsRoute, "agents");
+  mount("/api/jobs", jobsRoute, "agents");
+  mount("/api/artifacts", artifactsRoute, "agents");
+  mount("/api/explore", exploreRoute, "content");
+  mount("/api/search", searchRoute, "content");
+  mount("/api/integrity", integrityRoute, "content");
+  mount("/api/references", referencesRoute, "content");
+  mount("/api/github/issues", githubIssuesRoute, "ops");
+  mount("/api/github/pulls", githubPullsRoute, "ops");
+  mount("/api/groundskeeper-runs", groundskeeperRunsRoute, "ops");
+  mount("/api/monitoring", monitoringRoute, "ops");
+  mount("/api/kb-verifications", factbaseVerificationsRoute, "facts"); // API path kept for backwards compat
+  mount("/api/personnel", personnelRoute, "facts");
+  mount("/api/people", peopleRoute, "facts");
+  mount("/api/grants", grantsRoute, "facts");
+  mount("/api/funding-rounds", fundingRoundsRoute, "facts");
+  mount("/api/investments", investmentsRoute, "facts");
+  mount("/api/equity-positions", equityPositionsRoute, "facts");
+  mount("/api/divisions", divisionsRoute, "facts");
+  mount("/api/division-personnel", divisionPersonnelRoute, "facts");
+  mount("/api/funding-programs", fundingProgramsRoute, "facts");
+  mount("/api/benchmarks", benchmarksRoute, "facts");
+  mount("/api/benchmark-results", benchmarkResultsRoute, "facts");
+  mount("/api/record-verifications", recordVerificationsRoute, "facts");
+  mount("/api/things", thingsRoute, "facts");
+  mount("/api/research-areas", researchAreasRoute, "facts");
+  mount("/api/events", eventsRoute, "ops"); // read-only: outbox poll + SSE stream
+
+  // Key management, the audit log, and webhooks — admin scope only
+  mount("/api/admin/keys", apiKeysRoute, "admin");
+  mount("/api/audit", auditRoute, "admin");
+  mount("/api/webhooks", webhooksRoute, "admin");
 
   return app;
 }
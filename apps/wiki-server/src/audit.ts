@@ -0,0 +1,224 @@
+/**
+ * Audit log middleware.
+ *
+ * Appends one `audit_log` row for every mutating request under /api
+ * (POST/PUT/PATCH/DELETE), recording:
+ *
+ *   - who:    the API key identity (from validateApiKey) and the optional
+ *             `X-Caller` header, which clients set to the CI run or agent
+ *             session making the request
+ *   - what:   method, matched route pattern, concrete path, target IDs taken
+ *             from the route params and the request body, and a SHA-256 hash
+ *             of the raw body
+ *   - effect: response status, an "after" summary of the response's scalar
+ *             fields (counts like `upserted`/`deleted`), and a "before"
+ *             summary that handlers attach with setAuditBefore(): the prior
+ *             status of a job or quote, the previous verdict, the deleted
+ *             page, or — for syncs, via setAuditBeforeExisting() — how many
+ *             rows the batch was about to overwrite
+ *
+ * Writes are fire-and-forget: a failed audit insert is logged but never fails
+ * the request. The middleware runs after auth and rate limiting, so rejected
+ * tokens and rate-limited requests are not recorded.
+ */
+
+import { createHash } from "node:crypto";
+import type { Context, Next, MiddlewareHandler } from "hono";
+import { routePath } from "hono/route";
+import { count, getTableName, inArray } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { getDrizzleDb } from "./db.js";
+import { auditLog } from "./schema.js";
+import { logger } from "./logger.js";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    auditBefore: Record<string, unknown> | undefined;
+  }
+}
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/** Cap on target IDs stored per row; bulk syncs can touch thousands. */
+export const MAX_AUDIT_TARGET_IDS = 200;
+
+/** Cap on summary fields kept from a response body. */
+const MAX_SUMMARY_FIELDS = 20;
+const MAX_SUMMARY_STRING_LENGTH = 200;
+
+/** Response fields never copied into the audit log (e.g. minted API tokens). */
+const SECRET_FIELD = /token|secret|password|hash/i;
+
+/** Body fields treated as record identifiers. */
+const ID_FIELD = /^(id|[a-z]+Id)$/;
+
+/** Body fields holding bare ID lists, e.g. `{ ids: ["a", "b"] }`. */
+const ID_LIST_FIELD = /^(ids|[a-z]+Ids)$/;
+
+/**
+ * Attach a "before" summary to the audit row for this request — e.g. the
+ * page being deleted or the job status being transitioned from.
+ */
+export function setAuditBefore(c: Context, summary: Record<string, unknown>): void {
+  c.set("auditBefore", summary);
+}
+
+/**
+ * Attach a "before" summary for a sync batch: how many rows of `table`
+ * already matched the batch's keys on `column`, i.e. how many the sync
+ * overwrites (or, for delete-and-replace syncs, removes). Call before the
+ * write. A failed count is logged and skipped — auditing never fails the
+ * request.
+ */
+export async function setAuditBeforeExisting(
+  c: Context,
+  table: PgTable,
+  column: PgColumn,
+  keys: readonly string[]
+): Promise<void> {
+  const unique = [...new Set(keys)];
+  if (unique.length === 0) return;
+  try {
+    const rows = await getDrizzleDb()
+      .select({ existing: count() })
+      .from(table)
+      .where(inArray(column, unique));
+    setAuditBefore(c, { existing: Number(rows[0]?.existing ?? 0), matchedOn: column.name });
+  } catch (err) {
+    logger.warn({ err, table: getTableName(table) }, "Failed to read audit before-summary");
+  }
+}
+
+function pushId(out: Set<string>, value: unknown): void {
+  if (out.size >= MAX_AUDIT_TARGET_IDS) return;
+  if (typeof value === "string" && value.length > 0) out.add(value);
+  else if (typeof value === "number" && Number.isFinite(value)) out.add(String(value));
+}
+
+function collectIdFields(obj: Record<string, unknown>, out: Set<string>): void {
+  for (const [key, value] of Object.entries(obj)) {
+    if (ID_FIELD.test(key)) pushId(out, value);
+  }
+}
+
+/**
+ * Collect target IDs from a parsed JSON body: `id`/`*Id` fields at the top
+ * level, on the items of any top-level array (`pages`, `items`, ...), and
+ * in bare ID lists (`ids`, `pageIds`, ...).
+ */
+export function extractTargetIds(body: unknown): string[] {
+  const out = new Set<string>();
+  if (!body || typeof body !== "object") return [];
+  const items = Array.isArray(body) ? body : [body];
+
+  for (const item of items) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) continue;
+    const record = item as Record<string, unknown>;
+    collectIdFields(record, out);
+    for (const [key, value] of Object.entries(record)) {
+      if (!Array.isArray(value)) continue;
+      for (const child of value) {
+        if (child && typeof child === "object" && !Array.isArray(child)) {
+          collectIdFields(child as Record<string, unknown>, out);
+        } else if (ID_LIST_FIELD.test(key)) {
+          pushId(out, child);
+        }
+      }
+    }
+  }
+  return [...out];
+}
+
+/**
+ * Summarize a JSON response body: scalar fields are kept (long strings and
+ * secrets dropped), arrays are reduced to their length.
+ */
+export function summarizeResponse(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    if (Object.keys(summary).length >= MAX_SUMMARY_FIELDS) break;
+    if (SECRET_FIELD.test(key)) continue;
+    if (typeof value === "number" || typeof value === "boolean") {
+      summary[key] = value;
+    } else if (typeof value === "string" && value.length <= MAX_SUMMARY_STRING_LENGTH) {
+      summary[key] = value;
+    } else if (Array.isArray(value)) {
+      summary[`${key}Count`] = value.length;
+    }
+  }
+  return Object.keys(summary).length > 0 ? summary : null;
+}
+
+async function readResponseSummary(res: Response): Promise<Record<string, unknown> | null> {
+  if (!res.headers.get("Content-Type")?.includes("application/json")) return null;
+  try {
+    return summarizeResponse(await res.clone().json());
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(raw: ArrayBuffer): unknown {
+  if (raw.byteLength === 0) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Middleware that writes an audit row for each mutating request. Mount on
+ * /api/* after validateApiKey() and rate limiting so the caller identity is
+ * available.
+ */
+export function auditMiddleware(): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    if (!MUTATING_METHODS.has(c.req.method)) {
+      await next();
+      return;
+    }
+
+    const start = Date.now();
+    // Reading through HonoRequest caches the body, so handlers can still
+    // call c.req.json() afterwards.
+    const raw = await c.req.arrayBuffer();
+    const bodyHash = raw.byteLength > 0 ? createHash("sha256").update(Buffer.from(raw)).digest("hex") : null;
+
+    await next();
+
+    const status = c.res.status;
+
+    // After next(), c.req points at the last handler that ran (the route
+    // handler), so its params are available.
+    const targetIds = new Set<string>();
+    for (const value of Object.values(c.req.param() as Record<string, string>)) {
+      pushId(targetIds, value);
+    }
+    for (const id of extractTargetIds(parseJson(raw))) pushId(targetIds, id);
+
+    const identity = c.get("apiKey");
+    const row = {
+      actor: identity?.name ?? null,
+      actorKeyId: identity?.id ?? null,
+      caller: c.req.header("X-Caller")?.slice(0, 200) ?? null,
+      method: c.req.method,
+      route: routePath(c, -1),
+      path: c.req.path,
+      targetIds: [...targetIds],
+      bodyHash,
+      status,
+      before: c.get("auditBefore") ?? null,
+      after: await readResponseSummary(c.res),
+      durationMs: Date.now() - start,
+    };
+
+    getDrizzleDb()
+      .insert(auditLog)
+      .values(row)
+      .catch((err: unknown) => {
+        logger.warn({ err, route: row.route, method: row.method }, "Failed to write audit log row");
+      });
+  };
+}
@@ -1,13 +1,57 @@
 /**
- * API key authentication middleware.
+ * API key authentication and scope enforcement.
  *
- * Uses a single key (`LONGTERMWIKI_SERVER_API_KEY`) for all API access.
- * If no key is configured, all requests pass through (dev mode).
+ * Two kinds of Bearer token are accepted:
+ *
+ * 1. The shared env key (`LONGTERMWIKI_SERVER_API_KEY`). It carries every
+ *    scope, including admin, and is the bootstrap credential for minting
+ *    scoped keys. If it is not configured, all requests pass through
+ *    unauthenticated (dev mode).
+ * 2. Scoped keys from the `api_keys` table ("lwk_..." tokens), minted via
+ *    POST /api/admin/keys. Only a SHA-256 hash is stored. Keys can expire
+ *    and be revoked.
+ *
+ * Scopes:
+ *   - "read"           — GET/HEAD/OPTIONS on any route group
+ *   - "write:<group>"  — mutating requests on one route group (implies read
+ *                        on that group)
+ *   - "admin"          — everything, including /api/admin/*
+ *
+ * `validateApiKey()` resolves the token and stores the caller's identity on
+ * the context (`c.get("apiKey")`); `requireScope(group)` is mounted per route
+ * group in app.ts and rejects callers without the needed scope with 403.
  */
 
-import { timingSafeEqual } from "node:crypto";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
 import type { Context, Next, MiddlewareHandler } from "hono";
 import { HTTPException } from "hono/http-exception";
+import { eq } from "drizzle-orm";
+import { getDrizzleDb } from "./db.js";
+import { apiKeys } from "./schema.js";
+import { logger } from "./logger.js";
+import type { ApiKeyScope, ApiRouteGroup } from "./api-types.js";
+
+/** Identity of an authenticated caller. */
+export interface ApiKeyIdentity {
+  /** api_keys.id, or "env" for the shared env key */
+  id: string;
+  name: string;
+  scopes: readonly string[];
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    apiKey: ApiKeyIdentity | undefined;
+  }
+}
+
+/** Prefix of scoped-key tokens. */
+export const API_KEY_TOKEN_PREFIX = "lwk_";
+
+/** Identity used for the shared env key. */
+const ENV_KEY_IDENTITY: ApiKeyIdentity = { id: "env", name: "env", scopes: ["admin"] };
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
 
 /** Constant-time token comparison to prevent timing side-channel attacks. */
 export function verifyToken(token: string, expectedKey: string): boolean {
@@ -23,11 +67,142 @@ function extractBearerToken(c: Context): string | null {
   return authHeader.slice(7);
 }
 
+// ---------------------------------------------------------------------------
+// Token minting and hashing
+// ---------------------------------------------------------------------------
+
+/** SHA-256 hex digest of a token. Tokens are high-entropy, so no salt is needed. */
+export function hashApiKey(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 /**
- * Middleware that validates the API key.
+ * Generate a new random token. Returns the plaintext (shown to the caller
+ * once), its hash (stored), and a short display prefix.
+ */
+export function generateApiKey(): { token: string; hash: string; prefix: string } {
+  const token = `${API_KEY_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { token, hash: hashApiKey(token), prefix: token.slice(0, API_KEY_TOKEN_PREFIX.length + 8) };
+}
+
+// ---------------------------------------------------------------------------
+// Key lookup (with a short-lived cache so auth doesn't hit the DB per request)
+// ---------------------------------------------------------------------------
+
+type ApiKeyRow = typeof apiKeys.$inferSelect;
+
+const CACHE_TTL_MS = 30_000;
+const CACHE_MAX_ENTRIES = 1_000;
+/**
+ * Negative lookups (unknown hashes) are cached separately and capped lower,
+ * so a flood of guessed tokens can never evict known keys.
+ */
+const MISS_CACHE_MAX_ENTRIES = 200;
+
+interface CachedLookup {
+  row: ApiKeyRow | null;
+  expires: number;
+}
+
+const keyCache = new Map<string, CachedLookup>();
+const missCache = new Map<string, CachedLookup>();
+
+/** Drop cached key lookups (call after revoking a key, and in tests). */
+export function clearApiKeyCache(): void {
+  keyCache.clear();
+  missCache.clear();
+}
+
+/**
+ * Insert into an LRU cache. Maps iterate in insertion order, so the first
+ * key is the least recently used; hits re-insert to move to the back.
+ */
+function cacheSet(
+  cache: Map<string, CachedLookup>,
+  maxEntries: number,
+  hash: string,
+  entry: CachedLookup
+): void {
+  cache.delete(hash);
+  if (cache.size >= maxEntries) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(hash, entry);
+}
+
+function cacheGet(
+  cache: Map<string, CachedLookup>,
+  hash: string,
+  now: number
+): CachedLookup | undefined {
+  const cached = cache.get(hash);
+  if (!cached) return undefined;
+  cache.delete(hash);
+  if (cached.expires <= now) return undefined;
+  cache.set(hash, cached);
+  return cached;
+}
+
+async function lookupKey(hash: string): Promise<ApiKeyRow | null> {
+  const now = Date.now();
+  const cached = cacheGet(keyCache, hash, now) ?? cacheGet(missCache, hash, now);
+  if (cached) return cached.row;
+
+  const db = getDrizzleDb();
+  const rows = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, hash)).limit(1);
+  const row = rows[0] ?? null;
+
+  const entry = { row, expires: now + CACHE_TTL_MS };
+  if (row) cacheSet(keyCache, CACHE_MAX_ENTRIES, hash, entry);
+  else cacheSet(missCache, MISS_CACHE_MAX_ENTRIES, hash, entry);
+
+  // Record usage at most once per cache period. Best-effort: a failed
+  // update must not fail the request.
+  if (row) {
+    db.update(apiKeys)
+      .set({ lastUsedAt: new Date(now) })
+      .where(eq(apiKeys.id, row.id))
+      .catch((err: unknown) => {
+        logger.warn({ err, keyId: row.id }, "Failed to update api key last_used_at");
+      });
+  }
+  return row;
+}
+
+/**
+ * Resolve a Bearer token to an identity, or throw a 401.
+ */
+async function resolveToken(token: string, envKey: string): Promise<ApiKeyIdentity> {
+  if (verifyToken(token, envKey)) return ENV_KEY_IDENTITY;
+
+  if (!token.startsWith(API_KEY_TOKEN_PREFIX)) {
+    throw new HTTPException(401, { message: "Invalid API key" });
+  }
+
+  const row = await lookupKey(hashApiKey(token));
+  if (!row) {
+    throw new HTTPException(401, { message: "Invalid API key" });
+  }
+  if (row.revokedAt) {
+    throw new HTTPException(401, { message: "API key has been revoked" });
+  }
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) {
+    throw new HTTPException(401, { message: "API key has expired" });
+  }
+  return { id: String(row.id), name: row.name, scopes: row.scopes };
+}
+
+// ---------------------------------------------------------------------------
+// Middleware
+// ---------------------------------------------------------------------------
+
+/**
+ * Middleware that validates the API key and records the caller's identity.
  *
- * If no key is configured, all requests pass through (dev mode).
- * If a key is configured, a valid Bearer token is required.
+ * If no env key is configured, all requests pass through (dev mode) with no
+ * identity set, so scope checks are skipped and rate limiting falls back to
+ * the client IP.
  */
 export function validateApiKey(): MiddlewareHandler {
   return async (c: Context, next: Next) => {
@@ -44,10 +219,41 @@ export function validateApiKey(): MiddlewareHandler {
       throw new HTTPException(401, { message: "Bearer token required" });
     }
 
-    if (!verifyToken(token, expectedKey)) {
-      throw new HTTPException(401, { message: "Invalid API key" });
-    }
+    c.set("apiKey", await resolveToken(token, expectedKey));
+    await next();
+  };
+}
+
+/**
+ * True if `scopes` permit a request with `method` to a route in `group`.
+ * `group` is "admin" for the key-management routes.
+ */
+export function hasScope(
+  scopes: readonly string[],
+  group: ApiRouteGroup | "admin",
+  method: string
+): boolean {
+  if (scopes.includes("admin")) return true;
+  if (group === "admin") return false;
+  const write: ApiKeyScope = `write:${group}`;
+  if (scopes.includes(write)) return true;
+  return READ_METHODS.has(method) && scopes.includes("read");
+}
 
+/**
+ * Middleware that enforces scopes for one route group. Mounted per route in
+ * app.ts after validateApiKey(). No-op in dev mode (no identity).
+ */
+export function requireScope(group: ApiRouteGroup | "admin"): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const identity = c.get("apiKey");
+    if (identity && !hasScope(identity.scopes, group, c.req.method)) {
+      const needed =
+        group === "admin" ? "admin" : READ_METHODS.has(c.req.method) ? "read" : `write:${group}`;
+      throw new HTTPException(403, {
+        message: `API key "${identity.name}" lacks the "${needed}" scope`,
+      });
+    }
     await next();
   };
 }
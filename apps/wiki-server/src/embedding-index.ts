@@ -0,0 +1,77 @@
+/**
+ * In-memory index of stored page embeddings for hybrid search.
+ *
+ * Postgres has no vector extension here, so vectors live in REAL[] columns
+ * and nearest-neighbour search is a linear scan in the server process. The
+ * corpus is a few thousand pages, so a scan over cached vectors takes a few
+ * milliseconds; the cache is reloaded after TTL expiry or when new
+ * embeddings are stored.
+ *
+ * Each page can have two vectors: its own (wiki_pages.embedding) and its
+ * entity summary's (summaries.embedding, joined via entities.stable_id).
+ * A page's similarity is the best of the two.
+ */
+
+import { getDb } from "./db.js";
+import { cosineSimilarity } from "./embeddings.js";
+
+const INDEX_TTL_MS = 5 * 60_000;
+
+/** pageId → stored vectors (page and/or summary) */
+export type EmbeddingIndex = Map<string, number[][]>;
+
+let cached: { model: string; index: EmbeddingIndex; expires: number } | null = null;
+
+/** Drop the cached index (call after storing embeddings, and in tests). */
+export function invalidateEmbeddingIndex(): void {
+  cached = null;
+}
+
+/** Load (or return the cached) index of vectors produced by `model`. */
+export async function loadEmbeddingIndex(model: string): Promise<EmbeddingIndex> {
+  const now = Date.now();
+  if (cached && cached.model === model && cached.expires > now) return cached.index;
+
+  const rows = await getDb().unsafe<{ id: string; embedding: number[] }[]>(
+    `SELECT id, embedding FROM wiki_pages
+      WHERE embedding IS NOT NULL AND embedding_model = $1
+     UNION ALL
+     SELECT e.id, s.embedding FROM summaries s
+       JOIN entities e ON e.stable_id = s.entity_id
+      WHERE s.embedding IS NOT NULL AND s.embedding_model = $1`,
+    [model]
+  );
+
+  const index: EmbeddingIndex = new Map();
+  for (const row of rows) {
+    const vectors = index.get(row.id);
+    const vector = row.embedding.map(Number);
+    if (vectors) vectors.push(vector);
+    else index.set(row.id, [vector]);
+  }
+
+  cached = { model, index, expires: now + INDEX_TTL_MS };
+  return index;
+}
+
+/** Best similarity between `query` and any of a page's vectors (0 if none). */
+export function pageSimilarity(index: EmbeddingIndex, pageId: string, query: number[]): number {
+  const vectors = index.get(pageId);
+  if (!vectors) return 0;
+  return Math.max(...vectors.map((v) => cosineSimilarity(v, query)));
+}
+
+/** The `k` pages most similar to `query` with similarity ≥ `threshold`. */
+export function nearestPages(
+  index: EmbeddingIndex,
+  query: number[],
+  k: number,
+  threshold = 0
+): Array<{ id: string; similarity: number }> {
+  const scored: Array<{ id: string; similarity: number }> = [];
+  for (const id of index.keys()) {
+    const similarity = pageSimilarity(index, id, query);
+    if (similarity >= threshold) scored.push({ id, similarity });
+  }
+  return scored.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+}
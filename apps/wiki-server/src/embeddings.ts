@@ -0,0 +1,232 @@
+/**
+ * Text embeddings for semantic search.
+ *
+ * Embeddings are computed locally — never by a live external service — by a
+ * pluggable EmbeddingProvider. The crux pipeline (`crux wiki-server
+ * sync-embeddings`) embeds pages and summaries with the same provider and
+ * stores the vectors on wiki_pages.embedding / summaries.embedding; the
+ * server embeds only the search query at request time.
+ *
+ * The default provider, "minilm-l6-v2", is a learned sentence-embedding model
+ * run in-process (see TransformersEmbeddingProvider), so a query like "ways AI
+ * could deceive its overseers" can find a page that only says "scheming".
+ * "hash-v1-384" is a dependency-free feature-hashing fallback that only
+ * matches lexical and morphological overlap ("deceive" ~ "deception"); select
+ * it, or any provider added with registerEmbeddingProvider(), with the
+ * EMBEDDING_MODEL env var on both the server and `crux wiki-server
+ * sync-embeddings`. Stored vectors are tagged with their model name, so
+ * switching models never mixes incompatible vectors.
+ *
+ * This module has no server dependencies so crux can import it directly.
+ */
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+
+export interface EmbeddingProvider {
+  /** Stored alongside each vector (embedding_model column). */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ---------------------------------------------------------------------------
+// Vector math
+// ---------------------------------------------------------------------------
+
+/** Cosine similarity of two vectors; 0 if either is all zeros or lengths differ. */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vec: Float64Array): number[] {
+  let norm = 0;
+  for (const v of vec) norm += v * v;
+  norm = Math.sqrt(norm);
+  return Array.from(vec, (v) => (norm === 0 ? 0 : Math.round((v / norm) * 1e6) / 1e6));
+}
+
+// ---------------------------------------------------------------------------
+// hash-v1: feature-hashing embedder
+// ---------------------------------------------------------------------------
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by can could do does for from has have how " +
+    "if in into is it its may might of on or our should so than that the their " +
+    "them then there these they this those to was way ways we were what when " +
+    "where which while who why will with would you your"
+  ).split(" ")
+);
+
+const SUFFIXES = ["ations", "ation", "ions", "ion", "ings", "ing", "ives", "ive", "ers", "er", "ed", "es", "ly", "s"];
+
+/** Crude suffix-stripping stemmer; good enough to align "deceives"/"deceived". */
+export function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 4 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/** Lowercased, stopword-free word stems. */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+    .map(stem);
+}
+
+/** 32-bit FNV-1a hash. */
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const UNIGRAM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(dimensions = 384) {
+    this.dimensions = dimensions;
+    this.model = `hash-v1-${dimensions}`;
+  }
+
+  private add(vec: Float64Array, feature: string, weight: number): void {
+    const h = fnv1a(feature);
+    // Low bit picks the sign so collisions tend to cancel rather than pile up
+    vec[(h >>> 1) % this.dimensions] += h & 1 ? weight : -weight;
+  }
+
+  embedOne(text: string): number[] {
+    const vec = new Float64Array(this.dimensions);
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      this.add(vec, `w:${token}`, UNIGRAM_WEIGHT);
+      if (i > 0) this.add(vec, `b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+      const padded = `<${token}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.add(vec, `c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+    return normalize(vec);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => this.embedOne(t));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// minilm-l6-v2: learned sentence embeddings
+// ---------------------------------------------------------------------------
+
+/** Hugging Face Hub id of the ONNX export of all-MiniLM-L6-v2. */
+const MINILM_HUB_ID = "Xenova/all-MiniLM-L6-v2";
+
+/** Texts per forward pass; bounds memory when embedding the whole wiki. */
+const MINILM_BATCH_SIZE = 32;
+
+/**
+ * all-MiniLM-L6-v2, a sentence-transformers model trained on paraphrase and
+ * question–answer pairs, run on ONNX Runtime via transformers.js.
+ *
+ * The 8-bit weights (~23 MB) are downloaded from the Hugging Face Hub on first
+ * use and cached on disk. Set EMBEDDING_MODEL_DIR to a directory laid out like
+ * the Hub (`<dir>/Xenova/all-MiniLM-L6-v2/...`) to load them without network.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly model = "minilm-l6-v2";
+  readonly dimensions = 384;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  private load(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const { pipeline, env } = await import("@huggingface/transformers");
+        const localDir = process.env.EMBEDDING_MODEL_DIR;
+        if (localDir) {
+          env.localModelPath = localDir;
+          env.allowRemoteModels = false;
+        }
+        return pipeline<"feature-extraction">("feature-extraction", MINILM_HUB_ID, { dtype: "q8" });
+      })();
+      // Forget a failed load (e.g. no network) so the next call retries
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.load();
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += MINILM_BATCH_SIZE) {
+      const output = await extractor(texts.slice(i, i + MINILM_BATCH_SIZE), {
+        pooling: "mean",
+        normalize: true,
+      });
+      for (const vec of output.tolist() as number[][]) {
+        vectors.push(normalize(Float64Array.from(vec)));
+      }
+    }
+    return vectors;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider registry
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PROVIDER: EmbeddingProvider = new TransformersEmbeddingProvider();
+
+const HASHING_PROVIDER = new HashingEmbeddingProvider();
+
+const providers = new Map<string, EmbeddingProvider>([
+  [DEFAULT_PROVIDER.model, DEFAULT_PROVIDER],
+  [HASHING_PROVIDER.model, HASHING_PROVIDER],
+]);
+
+/** Make a provider selectable by its model name. */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.model, provider);
+}
+
+/**
+ * The provider for `model`, or for the EMBEDDING_MODEL env var, falling back
+ * to the learned minilm-l6-v2 model.
+ */
+export function getEmbeddingProvider(model = process.env.EMBEDDING_MODEL): EmbeddingProvider {
+  if (!model) return DEFAULT_PROVIDER;
+  const provider = providers.get(model);
+  if (!provider) {
+    throw new Error(
+      `Unknown embedding model "${model}". Registered: ${[...providers.keys()].join(", ")}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,438 @@
+/**
+ * Alias-aware entity name resolution.
+ *
+ * Scores a free-text name ("OpenAI, Inc.", "MIRI", "Centre for the Study of
+ * Existential Risk") against known entities using IDs, slugs, previous slugs,
+ * names, aliases, acronyms and token similarity, then adjusts for entity type
+ * and parent context. Pure and dependency-free: the wiki-server resolve
+ * endpoint and the crux importers (grants, key persons, careers) share it.
+ */
+
+// ---- Types ----
+
+export interface ResolverCandidate {
+  stableId: string;
+  /** Entity slug (YAML id / filename) */
+  slug: string;
+  name: string;
+  entityType: string;
+  numericId?: string | null;
+  aliases?: string[];
+  previousSlugs?: string[];
+  /** Parent context: IDs, slugs or names (parent org, developer, affiliation) */
+  parents?: string[];
+}
+
+export interface ResolveQuery {
+  name: string;
+  /** Expected entity type; other types are penalized, not excluded */
+  entityType?: string;
+  /** Name, slug or ID of the expected parent (e.g. the org a person works at) */
+  parent?: string;
+}
+
+export const MATCH_REASONS = [
+  "id",
+  "previous-slug",
+  "name",
+  "alias",
+  "acronym",
+  "similar",
+] as const;
+export type MatchReason = (typeof MATCH_REASONS)[number];
+
+export interface ResolvedMatch {
+  stableId: string;
+  slug: string;
+  name: string;
+  entityType: string;
+  /** 0–1 */
+  confidence: number;
+  matchedOn: MatchReason;
+  /** The candidate name/alias/slug that matched */
+  matchedText: string;
+}
+
+export interface ResolveOptions {
+  /** Maximum matches per query (default 5) */
+  limit?: number;
+  /** Drop matches below this confidence (default 0.4) */
+  minConfidence?: number;
+}
+
+export interface EntityResolver {
+  resolve(query: ResolveQuery, options?: ResolveOptions): ResolvedMatch[];
+  readonly size: number;
+}
+
+// ---- Thresholds ----
+
+/** Matches at or above this confidence (and clear of the runner-up) are applied without review. */
+export const AUTO_ACCEPT_CONFIDENCE = 0.9;
+/** Below this, a top match is too weak to be worth a reviewer's time. */
+export const REVIEW_MIN_CONFIDENCE = 0.5;
+/** Minimum gap between the top two matches for the top one to be unambiguous. */
+const AMBIGUITY_MARGIN = 0.05;
+
+/** Base confidence for each kind of match, before type/parent adjustment. */
+const BASE_SCORES = {
+  id: 1,
+  exactName: 0.98,
+  previousSlug: 0.97,
+  name: 0.95,
+  alias: 0.93,
+  acronym: 0.8,
+  /** Multiplied by the similarity (0–1) */
+  similar: 0.85,
+} as const;
+
+const TYPE_MATCH_BONUS = 0.02;
+const TYPE_MISMATCH_FACTOR = 0.7;
+const PARENT_MATCH_BONUS = 0.05;
+const PARENT_MISMATCH_FACTOR = 0.9;
+/** Token/trigram similarity below this is noise */
+const MIN_SIMILARITY = 0.5;
+
+// ---- Normalization ----
+
+const STOPWORDS = new Set(["the", "of", "for", "and", "a", "an", "in", "on", "at", "to"]);
+
+/** Legal-form suffixes dropped from the end of a name ("OpenAI, Inc." → "openai"). */
+const LEGAL_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "ltd", "limited", "corp", "corporation",
+  "co", "gmbh", "plc", "pbc", "ngo", "bv", "pty", "sa", "ag",
+]);
+
+/** British spellings folded to American so "Centre" matches "Center". */
+const SPELLING_VARIANTS: Record<string, string> = {
+  centre: "center",
+  organisation: "organization",
+  programme: "program",
+  defence: "defense",
+  labour: "labor",
+};
+
+function stripDiacritics(s: string): string {
+  return s.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Canonical form of a name for comparison: lowercase ASCII words, "&" as
+ * "and", no punctuation, American spelling, no leading "the", no trailing
+ * legal form. "The Centre for AI Safety, Inc." → "center for ai safety".
+ */
+export function normalizeEntityName(name: string): string {
+  const words = stripDiacritics(name)
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.']/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map((w) => SPELLING_VARIANTS[w] ?? w);
+  if (words.length > 1 && words[0] === "the") words.shift();
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+/** Significant tokens of a normalized name (stopwords dropped). */
+function tokensOf(normalized: string): string[] {
+  return normalized.split(" ").filter((t) => t && !STOPWORDS.has(t));
+}
+
+function compact(s: string): string {
+  return s.replace(/[^A-Za-z0-9]/g, "").toLowerCase();
+}
+
+/**
+ * True when a name could be an acronym: one short word. Queries may be any
+ * case ("fhi"); with `strict`, as for known names, it must be all caps so
+ * "OpenAI" or "Google" don't count.
+ */
+function looksLikeAcronym(raw: string, strict = false): boolean {
+  const letters = raw.replace(/[^A-Za-z0-9]/g, "");
+  if (/\s/.test(raw.trim()) || letters.length < 2 || letters.length > 8) return false;
+  return !strict || letters === letters.toUpperCase();
+}
+
+/**
+ * The acronym a multi-word name is commonly shortened to: initials of its
+ * significant words, with short all-caps words such as "AI" kept whole.
+ * "Machine Intelligence Research Institute" → "miri", "Center for AI Safety"
+ * → "cais". Null for single-word names.
+ */
+export function acronymOf(name: string): string | null {
+  const words = stripDiacritics(name)
+    .replace(/&/g, " and ")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((w) => w && !STOPWORDS.has(w.toLowerCase()));
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1].toLowerCase())) words.pop();
+  if (words.length < 2) return null;
+  return words
+    .map((w) => (w.length <= 4 && w === w.toUpperCase() && /[A-Z]/.test(w) ? w : w[0]))
+    .join("")
+    .toLowerCase();
+}
+
+/**
+ * Split "Name (ACRONYM)" or "ACRONYM (Full Name)" into both forms, which are
+ * equally good names. Other parentheticals are qualifiers ("Anthropic
+ * (Funder)") and stay part of the one name — otherwise the qualified entity
+ * would tie with the unqualified one.
+ */
+export function nameVariants(name: string): string[] {
+  const m = name.match(/^(.+?)\s*\(([^)]+)\)\s*$/);
+  if (!m) return [name];
+  const [, outer, inner] = m;
+  const pairs =
+    (looksLikeAcronym(inner, true) && acronymOf(outer) === compact(inner)) ||
+    (looksLikeAcronym(outer, true) && acronymOf(inner) === compact(outer));
+  return pairs ? [name, outer.trim(), inner.trim()] : [name];
+}
+
+function trigrams(s: string): Set<string> {
+  const padded = `  ${s.replace(/ /g, "")} `;
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) out.add(padded.slice(i, i + 3));
+  return out;
+}
+
+function dice<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/** Trigrams are slightly discounted — they reward shared substrings of different words too */
+const TRIGRAM_WEIGHT = 0.95;
+
+/**
+ * Similarity of two normalized names (0–1): the better of word-set overlap
+ * and character-trigram overlap, so both reordered words and typos score.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const tokenScore = dice(new Set(tokensOf(a)), new Set(tokensOf(b)));
+  return Math.max(tokenScore, dice(trigrams(a), trigrams(b)) * TRIGRAM_WEIGHT);
+}
+
+// ---- Resolver ----
+
+interface IndexedName {
+  text: string;
+  normalized: string;
+  tokens: Set<string>;
+  trigrams: Set<string>;
+  kind: "name" | "alias";
+}
+
+interface IndexedCandidate {
+  candidate: ResolverCandidate;
+  names: IndexedName[];
+  parents: Set<string>;
+}
+
+interface Signal {
+  score: number;
+  matchedOn: MatchReason;
+  matchedText: string;
+}
+
+function pushIndex(map: Map<string, Array<[number, string]>>, key: string, idx: number, text: string): void {
+  if (!key) return;
+  const list = map.get(key);
+  if (!list) map.set(key, [[idx, text]]);
+  else if (!list.some(([i]) => i === idx)) list.push([idx, text]);
+}
+
+/**
+ * Build a resolver over a set of candidate entities. Building indexes every
+ * name once; each `resolve()` call does exact lookups plus one similarity
+ * pass over the candidates.
+ */
+export function createEntityResolver(candidates: ResolverCandidate[]): EntityResolver {
+  const indexed: IndexedCandidate[] = [];
+  const byId = new Map<string, Array<[number, string]>>();
+  const byPreviousSlug = new Map<string, Array<[number, string]>>();
+  /** Initials of multi-word names, for acronym queries ("MIRI") */
+  const byInitials = new Map<string, Array<[number, string]>>();
+  /** Names that are themselves acronyms, for full-name queries */
+  const byAcronymName = new Map<string, Array<[number, string]>>();
+
+  for (const candidate of candidates) {
+    const idx = indexed.length;
+    const names: IndexedName[] = [];
+    const seen = new Set<string>();
+
+    const addName = (text: string, kind: IndexedName["kind"]) => {
+      for (const variant of nameVariants(text)) {
+        const normalized = normalizeEntityName(variant);
+        if (!normalized || seen.has(normalized)) continue;
+        seen.add(normalized);
+        names.push({
+          text: variant,
+          normalized,
+          tokens: new Set(tokensOf(normalized)),
+          trigrams: trigrams(normalized),
+          kind,
+        });
+        const initials = acronymOf(variant);
+        if (initials && !/\(/.test(variant)) pushIndex(byInitials, initials, idx, variant);
+        if (looksLikeAcronym(variant, true)) pushIndex(byAcronymName, compact(variant), idx, variant);
+      }
+    };
+    addName(candidate.name, "name");
+    for (const alias of candidate.aliases ?? []) addName(alias, "alias");
+
+    indexed.push({
+      candidate,
+      names,
+      parents: new Set((candidate.parents ?? []).map(normalizeEntityName).filter(Boolean)),
+    });
+
+    pushIndex(byId, candidate.stableId, idx, candidate.stableId);
+    pushIndex(byId, candidate.slug.toLowerCase(), idx, candidate.slug);
+    if (candidate.numericId) pushIndex(byId, candidate.numericId.toUpperCase(), idx, candidate.numericId);
+    for (const prev of candidate.previousSlugs ?? []) {
+      pushIndex(byPreviousSlug, prev.toLowerCase(), idx, prev);
+    }
+  }
+
+  // Parents may be given as slugs or IDs; expand them to names so context written either way matches
+  const displayNameOf = new Map<string, string>();
+  for (const { candidate } of indexed) {
+    const normalizedName = normalizeEntityName(candidate.name);
+    displayNameOf.set(normalizeEntityName(candidate.slug), normalizedName);
+    displayNameOf.set(normalizeEntityName(candidate.stableId), normalizedName);
+  }
+  for (const entry of indexed) {
+    for (const p of [...entry.parents]) {
+      const name = displayNameOf.get(p);
+      if (name) entry.parents.add(name);
+    }
+  }
+
+  function resolve(query: ResolveQuery, options: ResolveOptions = {}): ResolvedMatch[] {
+    const { limit = 5, minConfidence = 0.4 } = options;
+    const raw = query.name.trim();
+    if (!raw) return [];
+
+    const lower = raw.toLowerCase();
+    const signals = new Map<number, Signal>();
+    const offer = (idx: number, signal: Signal) => {
+      const current = signals.get(idx);
+      if (!current || signal.score > current.score) signals.set(idx, signal);
+    };
+
+    // Identifiers: stableId, slug, numericId
+    for (const key of new Set([raw, lower, raw.toUpperCase()])) {
+      for (const [idx, text] of byId.get(key) ?? []) {
+        offer(idx, { score: BASE_SCORES.id, matchedOn: "id", matchedText: text });
+      }
+    }
+    for (const [idx, text] of byPreviousSlug.get(lower) ?? []) {
+      offer(idx, { score: BASE_SCORES.previousSlug, matchedOn: "previous-slug", matchedText: text });
+    }
+
+    const variants = nameVariants(raw);
+    for (const variant of variants) {
+      // Acronyms in either direction: "MIRI" → the institute's full name, a full name → an entity named "MIRI"
+      const hits = looksLikeAcronym(variant)
+        ? byInitials.get(compact(variant))
+        : byAcronymName.get(acronymOf(variant) ?? "");
+      for (const [idx, text] of hits ?? []) {
+        offer(idx, { score: BASE_SCORES.acronym, matchedOn: "acronym", matchedText: text });
+      }
+    }
+
+    // Names and aliases: exact, normalized, then similarity
+    const normalizedVariants = new Set(variants.map(normalizeEntityName).filter(Boolean));
+    const normalized = normalizeEntityName(raw);
+    if (normalized) {
+      const queryTokens = new Set(tokensOf(normalized));
+      const queryTrigrams = trigrams(normalized);
+      for (let idx = 0; idx < indexed.length; idx++) {
+        for (const n of indexed[idx].names) {
+          if (normalizedVariants.has(n.normalized)) {
+            const exact = n.kind === "name" && n.text.trim().toLowerCase() === lower;
+            offer(idx, {
+              score: exact ? BASE_SCORES.exactName : n.kind === "name" ? BASE_SCORES.name : BASE_SCORES.alias,
+              matchedOn: n.kind,
+              matchedText: n.text,
+            });
+            continue;
+          }
+          const similarity = Math.max(
+            dice(queryTokens, n.tokens),
+            dice(queryTrigrams, n.trigrams) * TRIGRAM_WEIGHT,
+          );
+          if (similarity >= MIN_SIMILARITY) {
+            offer(idx, { score: BASE_SCORES.similar * similarity, matchedOn: "similar", matchedText: n.text });
+          }
+        }
+      }
+    }
+
+    const queryParent = query.parent ? normalizeEntityName(query.parent) : "";
+    const queryParentName = displayNameOf.get(queryParent) ?? queryParent;
+
+    const matches: ResolvedMatch[] = [];
+    for (const [idx, signal] of signals) {
+      const { candidate, parents } = indexed[idx];
+      let confidence = signal.score;
+
+      // Identifier matches are unambiguous; context only adjusts name-based evidence
+      if (signal.matchedOn !== "id") {
+        if (query.entityType) {
+          confidence = candidate.entityType === query.entityType
+            ? confidence + TYPE_MATCH_BONUS
+            : confidence * TYPE_MISMATCH_FACTOR;
+        }
+        if (queryParent && parents.size > 0) {
+          confidence = parents.has(queryParent) || parents.has(queryParentName)
+            ? confidence + PARENT_MATCH_BONUS
+            : confidence * PARENT_MISMATCH_FACTOR;
+        }
+      }
+
+      confidence = Math.round(Math.min(1, confidence) * 1000) / 1000;
+      if (confidence < minConfidence) continue;
+      matches.push({
+        stableId: candidate.stableId,
+        slug: candidate.slug,
+        name: candidate.name,
+        entityType: candidate.entityType,
+        confidence,
+        matchedOn: signal.matchedOn,
+        matchedText: signal.matchedText,
+      });
+    }
+
+    matches.sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+    return matches.slice(0, limit);
+  }
+
+  return { resolve, size: indexed.length };
+}
+
+/**
+ * Whether the top match can be applied without review: confident enough and
+ * clearly ahead of the runner-up (two entities sharing a name are ambiguous
+ * unless type or parent context separates them).
+ */
+export function isConfidentMatch(
+  matches: ResolvedMatch[],
+  threshold: number = AUTO_ACCEPT_CONFIDENCE,
+): boolean {
+  const [top, second] = matches;
+  if (!top || top.confidence < threshold) return false;
+  if (top.matchedOn === "id") return true;
+  return !second || top.confidence - second.confidence >= AMBIGUITY_MARGIN;
+}
+
+/** Whether a resolution is worth queueing for review: no confident match, but a plausible one. */
+export function needsReview(matches: ResolvedMatch[]): boolean {
+  return !isConfidentMatch(matches) && matches.length > 0 && matches[0].confidence >= REVIEW_MIN_CONFIDENCE;
+}
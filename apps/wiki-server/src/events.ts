@@ -0,0 +1,64 @@
+/**
+ * Change-event outbox.
+ *
+ * Mutation routes call emitEvent() inside the transaction that makes the
+ * change, so an `outbox_events` row exists if and only if the change
+ * committed. The same statement fans the event out to a pending
+ * `webhook_deliveries` row per matching webhook; webhooks.ts delivers those.
+ * GET /api/events/stream relays new rows to SSE subscribers. Readers order
+ * events by inserting transaction, not id, so none is skipped when commits
+ * land out of id order (see readEvents() in routes/events.ts).
+ *
+ * Payloads carry IDs, not full records — consumers (ISR revalidation, the
+ * Discord bot, groundskeeper) re-fetch what they need.
+ */
+
+import { EventEmitter } from "node:events";
+import { sql } from "drizzle-orm";
+import type { getDrizzleDb } from "./db.js";
+import type { EventType } from "./api-types.js";
+
+type DrizzleDb = ReturnType<typeof getDrizzleDb>;
+
+/** Cap on IDs listed in one event payload; bulk syncs can touch thousands. */
+export const MAX_EVENT_IDS = 500;
+
+/** Deduplicate and cap an ID list for an event payload. */
+export function eventIds(ids: Iterable<string>): string[] {
+  return [...new Set(ids)].slice(0, MAX_EVENT_IDS);
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // one listener per open SSE connection
+
+/**
+ * Record an event in the outbox and queue a delivery for every active webhook
+ * subscribed to its type. Pass the transaction handle of the change itself.
+ */
+export async function emitEvent(
+  db: DrizzleDb,
+  type: EventType,
+  payload: Record<string, unknown>
+): Promise<void> {
+  // One statement: insert the event and queue its webhook deliveries
+  await db.execute(sql`
+    WITH ev AS (
+      INSERT INTO outbox_events (type, payload)
+      VALUES (${type}, ${JSON.stringify(payload)}::jsonb)
+      RETURNING id, type
+    )
+    INSERT INTO webhook_deliveries (webhook_id, event_id)
+    SELECT w.id, ev.id FROM ev
+    JOIN webhooks w ON w.active AND (w.event_types IS NULL OR w.event_types ? ev.type)
+  `);
+
+  // Wake SSE streams in this process; they re-read the outbox, so a wake-up
+  // that arrives before the transaction commits just finds nothing new yet.
+  emitter.emit("event");
+}
+
+/** Subscribe to "new events may be available" notifications. Returns an unsubscribe function. */
+export function onEventEmitted(listener: () => void): () => void {
+  emitter.on("event", listener);
+  return () => emitter.off("event", listener);
+}
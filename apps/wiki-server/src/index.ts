@@ -2,6 +2,7 @@ import { serve } from "@hono/node-server";
 import { createApp } from "./app.js";
 import { initDb, closeDb } from "./db.js";
 import { logger } from "./logger.js";
+import { startWebhookDispatcher } from "./webhooks.js";
 
 const PORT = parseInt(process.env.PORT || "3100", 10);
 
@@ -19,9 +20,12 @@ async function main() {
     logger.info({ port: info.port }, "Wiki server listening");
   });
 
+  const stopWebhookDispatcher = startWebhookDispatcher();
+
   // Graceful shutdown
   const shutdown = async () => {
     logger.info("Shutting down...");
+    stopWebhookDispatcher();
     server.close();
     await closeDb();
     process.exit(0);
@@ -1,7 +1,14 @@
 /**
  * In-memory sliding-window rate limiter middleware for Hono.
  *
- * Provides per-IP rate limiting with configurable limits by endpoint category.
+ * Provides per-client rate limiting with configurable limits by endpoint category.
+ * Requests authenticated with an API key are keyed by the key's identity (set
+ * by validateApiKey() in auth.ts), so each service client gets its own budget
+ * regardless of which IP it connects from. Other requests are keyed by IP.
+ * app.ts mounts the middleware twice: per IP before auth (so guessed tokens
+ * are throttled before any key lookup), and per key after auth. The pre-auth
+ * cap for Bearer requests is a loose abuse guard rather than a budget, so
+ * service clients sharing an egress IP are limited by their own keys.
  * Uses a simple sliding window algorithm with automatic cleanup of expired entries.
  *
  * Categories:
@@ -247,8 +254,14 @@ export interface RateLimitResult {
 // Hono middleware factory
 // ---------------------------------------------------------------------------
 
-/** Extract a client identifier from the request for rate limiting. */
+/**
+ * Extract a client identifier from the request for rate limiting.
+ * Authenticated requests use the API key identity; others use the client IP.
+ */
 function getClientKey(c: Context): string {
+  const apiKey = c.get("apiKey");
+  if (apiKey) return `key:${apiKey.id}`;
+
   // Check standard proxy headers first (Fly.io, Cloudflare, nginx, etc.)
   //
   // IMPORTANT: These headers are only trustworthy when the server sits behind
@@ -290,6 +303,11 @@ export interface RateLimitMiddlewareOptions {
   readMethods?: string[];
   /** Paths to skip rate limiting entirely (exact match, not prefix). */
   skipPaths?: string[];
+  /**
+   * Only limit requests with an API key identity; pass others through.
+   * Used for the per-key limiter mounted after auth.
+   */
+  identifiedOnly?: boolean;
 }
 
 /**
@@ -315,13 +333,20 @@ export function rateLimitMiddleware(
       return;
     }
 
+    if (options.identifiedOnly && c.get("apiKey") === undefined) {
+      await next();
+      return;
+    }
+
     const clientKey = getClientKey(c);
     const isRead = readMethods.has(c.req.method);
 
     // Use higher limits for authenticated requests (internal traffic:
     // CI sync, Next.js ISR, crux CLI). Unauthenticated traffic gets
     // the stricter default limits.
-    const isAuthenticated = c.req.header("Authorization")?.startsWith("Bearer ");
+    const isAuthenticated =
+      c.get("apiKey") !== undefined ||
+      c.req.header("Authorization")?.startsWith("Bearer ");
     let limiter: RateLimiter;
     if (isAuthenticated && (options.authReadLimiter || options.authWriteLimiter)) {
       limiter = isRead
@@ -382,24 +407,41 @@ export const DEFAULT_WRITE_LIMIT: RateLimitConfig = {
   windowMs: 60_000,
 };
 
-/** Authenticated rate limit: 1000 GET requests per minute per IP. */
+/** Authenticated rate limit: 1000 GET requests per minute per API key. */
 export const DEFAULT_AUTH_READ_LIMIT: RateLimitConfig = {
   maxRequests: 1000,
   windowMs: 60_000,
 };
 
-/** Authenticated rate limit: 200 write requests per minute per IP. */
+/** Authenticated rate limit: 200 write requests per minute per API key. */
 export const DEFAULT_AUTH_WRITE_LIMIT: RateLimitConfig = {
   maxRequests: 200,
   windowMs: 60_000,
 };
 
+/**
+ * Pre-auth abuse guard: 10,000 GET requests per minute per IP for requests
+ * carrying a Bearer token. Ten times the per-key budget, so several keys
+ * behind one egress IP can each use their full allowance.
+ */
+export const DEFAULT_BEARER_IP_READ_LIMIT: RateLimitConfig = {
+  maxRequests: 10_000,
+  windowMs: 60_000,
+};
+
+/** Pre-auth abuse guard: 2,000 write requests per minute per IP (Bearer). */
+export const DEFAULT_BEARER_IP_WRITE_LIMIT: RateLimitConfig = {
+  maxRequests: 2_000,
+  windowMs: 60_000,
+};
+
 /** Default maximum number of distinct IP keys tracked per limiter. */
 export const DEFAULT_MAX_KEYS = 10_000;
 
 /**
  * Create preconfigured rate limiters with default settings.
- * Returns separate limiters for unauthenticated and authenticated traffic.
+ * Returns separate limiters for unauthenticated traffic, authenticated traffic
+ * (per API key) and the per-IP guard on Bearer requests before auth.
  * Override individual limits via the options parameter.
  */
 export function createDefaultRateLimiters(overrides?: {
@@ -407,6 +449,8 @@ export function createDefaultRateLimiters(overrides?: {
   write?: Partial<RateLimitConfig>;
   authRead?: Partial<RateLimitConfig>;
   authWrite?: Partial<RateLimitConfig>;
+  bearerIpRead?: Partial<RateLimitConfig>;
+  bearerIpWrite?: Partial<RateLimitConfig>;
   maxKeys?: number;
 }) {
   const maxKeys = overrides?.maxKeys ?? DEFAULT_MAX_KEYS;
@@ -439,5 +483,27 @@ export function createDefaultRateLimiters(overrides?: {
     maxKeys
   );
 
-  return { readLimiter, writeLimiter, authReadLimiter, authWriteLimiter };
+  const bearerIpReadLimiter = new RateLimiter(
+    {
+      ...DEFAULT_BEARER_IP_READ_LIMIT,
+      ...overrides?.bearerIpRead,
+    },
+    maxKeys
+  );
+  const bearerIpWriteLimiter = new RateLimiter(
+    {
+      ...DEFAULT_BEARER_IP_WRITE_LIMIT,
+      ...overrides?.bearerIpWrite,
+    },
+    maxKeys
+  );
+
+  return {
+    readLimiter,
+    writeLimiter,
+    authReadLimiter,
+    authWriteLimiter,
+    bearerIpReadLimiter,
+    bearerIpWriteLimiter,
+  };
 }
@@ -0,0 +1,99 @@
+import { Hono } from "hono";
+import { desc, eq } from "drizzle-orm";
+import { getDrizzleDb } from "../db.js";
+import { apiKeys } from "../schema.js";
+import {
+  parseJsonBody,
+  validationError,
+  invalidJsonError,
+  notFoundError,
+  firstOrThrow,
+} from "./utils.js";
+import { CreateApiKeySchema } from "../api-types.js";
+import { clearApiKeyCache, generateApiKey } from "../auth.js";
+
+/** Columns safe to return to clients (never the hash). */
+const publicColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  prefix: apiKeys.prefix,
+  scopes: apiKeys.scopes,
+  createdBy: apiKeys.createdBy,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+const apiKeysApp = new Hono()
+  // ---- GET / (list keys, newest first) ----
+  .get("/", async (c) => {
+    const includeRevoked = c.req.query("includeRevoked") === "true";
+    const db = getDrizzleDb();
+
+    const rows = await db
+      .select(publicColumns)
+      .from(apiKeys)
+      .orderBy(desc(apiKeys.createdAt));
+
+    const keys = includeRevoked ? rows : rows.filter((r) => !r.revokedAt);
+    return c.json({ keys, total: keys.length });
+  })
+
+  // ---- POST / (mint a key; the token is only ever returned here) ----
+  .post("/", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = CreateApiKeySchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const d = parsed.data;
+    const expiresAt = d.expiresAt ? new Date(d.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return validationError(c, "expiresAt must be in the future");
+    }
+
+    const { token, hash, prefix } = generateApiKey();
+    const db = getDrizzleDb();
+
+    const inserted = await db
+      .insert(apiKeys)
+      .values({
+        name: d.name,
+        prefix,
+        keyHash: hash,
+        scopes: [...new Set(d.scopes)],
+        createdBy: c.get("apiKey")?.name ?? null,
+        expiresAt,
+      })
+      .returning(publicColumns);
+
+    return c.json({ key: firstOrThrow(inserted, "api key insert"), token }, 201);
+  })
+
+  // ---- DELETE /:id (revoke; the row is kept for auditing) ----
+  // Other server instances pick up the revocation when their auth cache
+  // entry expires (30s).
+  .delete("/:id", async (c) => {
+    const id = Number(c.req.param("id"));
+    if (!Number.isInteger(id) || id <= 0) {
+      return validationError(c, "Key ID must be a positive integer");
+    }
+
+    const db = getDrizzleDb();
+    const revoked = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiKeys.id, id))
+      .returning(publicColumns);
+
+    if (revoked.length === 0) {
+      return notFoundError(c, `No API key found for id: ${id}`);
+    }
+
+    clearApiKeyCache();
+    return c.json({ key: revoked[0] });
+  });
+
+export const apiKeysRoute = apiKeysApp;
@@ -0,0 +1,58 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { and, count, desc, eq, gte, like, lte, sql } from "drizzle-orm";
+import { getDrizzleDb } from "../db.js";
+import { auditLog } from "../schema.js";
+import { escapeIlike, paginationQuery, zv } from "./utils.js";
+
+// ---- Schemas ----
+
+const isoDate = z
+  .string()
+  .refine((s) => !Number.isNaN(Date.parse(s)), "must be an ISO date or timestamp");
+
+const AuditQuery = paginationQuery({ maxLimit: 500, defaultLimit: 100 }).extend({
+  /** Route pattern or prefix: "/api/pages/sync", "/api/pages" */
+  route: z.string().min(1).max(200).optional(),
+  /** Target ID (entity slug, page ID, job ID, ...) */
+  entity: z.string().min(1).max(200).optional(),
+  actor: z.string().min(1).max(200).optional(),
+  method: z.enum(["POST", "PUT", "PATCH", "DELETE"]).optional(),
+  since: isoDate.optional(),
+  until: isoDate.optional(),
+});
+
+const auditApp = new Hono()
+
+  // ---- GET / (list audit rows, newest first) ----
+
+  .get("/", zv("query", AuditQuery), async (c) => {
+    const { route, entity, actor, method, since, until, limit, offset } = c.req.valid("query");
+    const db = getDrizzleDb();
+
+    const conditions = [];
+    if (route) conditions.push(like(auditLog.route, `${escapeIlike(route)}%`));
+    if (entity) {
+      conditions.push(sql`${auditLog.targetIds} @> ${JSON.stringify([entity])}::jsonb`);
+    }
+    if (actor) conditions.push(eq(auditLog.actor, actor));
+    if (method) conditions.push(eq(auditLog.method, method));
+    if (since) conditions.push(gte(auditLog.createdAt, new Date(since)));
+    if (until) conditions.push(lte(auditLog.createdAt, new Date(until)));
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = await db
+      .select()
+      .from(auditLog)
+      .where(whereClause)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await db.select({ count: count() }).from(auditLog).where(whereClause);
+
+    return c.json({ entries: rows, total: countResult[0].count, limit, offset });
+  });
+
+export const auditRoute = auditApp;
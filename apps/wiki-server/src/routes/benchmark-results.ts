@@ -10,6 +10,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -155,6 +156,13 @@ const benchmarkResultsApp = new Hono()
     const now = new Date();
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      benchmarkResults,
+      benchmarkResults.id,
+      parsed.data.items.map((i) => i.id)
+    );
+
     await db.transaction(async (tx) => {
       for (const item of parsed.data.items) {
         await tx
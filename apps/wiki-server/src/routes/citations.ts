@@ -1,8 +1,8 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { z } from "zod";
-import { eq, and, count, avg, sql, asc, desc, isNotNull, lt } from "drizzle-orm";
+import { eq, and, count, avg, sql, asc, desc, inArray, isNotNull, lt } from "drizzle-orm";
 import { getDrizzleDb, getDb } from "../db.js";
-import { citationQuotes, citationContent, citationAccuracySnapshots, wikiPages, resources } from "../schema.js";
+import { citationQuotes, citationContent, citationAccuracySnapshots, citationDriftEvents, wikiPages, resources } from "../schema.js";
 import { checkRefsExist } from "./ref-check.js";
 import {
   parseJsonBody,
@@ -19,10 +19,12 @@ import {
   MarkAccuracySchema as SharedMarkAccuracySchema,
   MarkAccuracyBatchSchema as SharedMarkAccuracyBatchSchema,
   UpsertCitationContentSchema,
+  RecordCitationDriftSchema,
   CITATION_CONTENT_PREVIEW_MAX,
 } from "../api-types.js";
 import { logger } from "../logger.js";
 import { resolvePageIntId, resolvePageIntIds } from "./page-id-helpers.js";
+import { setAuditBefore } from "../audit.js";
 
 // ---- Constants ----
 
@@ -55,6 +57,8 @@ const MarkAccuracyBatchSchema = SharedMarkAccuracyBatchSchema;
 
 const UpsertContentSchema = UpsertCitationContentSchema;
 
+const RecordDriftSchema = RecordCitationDriftSchema;
+
 const PaginationQuery = paginationQuery({ maxLimit: MAX_PAGE_SIZE, defaultLimit: 100 });
 
 // ---- Helpers ----
@@ -103,6 +107,27 @@ function upsertQuote(
     });
 }
 
+/** Record a quote's verification and accuracy state before a mark-* update. */
+async function auditQuoteBefore(
+  c: Context,
+  db: ReturnType<typeof getDrizzleDb>,
+  pageIdInt: number,
+  footnote: number
+): Promise<void> {
+  const rows = await db
+    .select({
+      quoteVerified: citationQuotes.quoteVerified,
+      verificationMethod: citationQuotes.verificationMethod,
+      verificationScore: citationQuotes.verificationScore,
+      accuracyVerdict: citationQuotes.accuracyVerdict,
+      accuracyScore: citationQuotes.accuracyScore,
+    })
+    .from(citationQuotes)
+    .where(and(eq(citationQuotes.pageIdInt, pageIdInt), eq(citationQuotes.footnote, footnote)))
+    .limit(1);
+  if (rows[0]) setAuditBefore(c, rows[0]);
+}
+
 /**
  * Compute per-page citation health from a set of quote rows.
  * Shared between the /health/:pageId endpoint and batch aggregations.
@@ -359,6 +384,7 @@ const citationsApp = new Hono()
     const intId = await resolvePageIntId(db, pageId);
     if (intId === null) return notFoundError(c, `No quote for page=${pageId} footnote=${footnote}`);
 
+    await auditQuoteBefore(c, db, intId, footnote);
     const rows = await db
       .update(citationQuotes)
       .set({
@@ -401,6 +427,7 @@ const citationsApp = new Hono()
     const intId = await resolvePageIntId(db, pageId);
     if (intId === null) return notFoundError(c, `No quote for page=${pageId} footnote=${footnote}`);
 
+    await auditQuoteBefore(c, db, intId, footnote);
     const rows = await db
       .update(citationQuotes)
       .set({
@@ -442,6 +469,7 @@ const citationsApp = new Hono()
     const intId = await resolvePageIntId(db, pageId);
     if (intId === null) return notFoundError(c, `No quote for page=${pageId} footnote=${footnote}`);
 
+    await auditQuoteBefore(c, db, intId, footnote);
     const rows = await db
       .update(citationQuotes)
       .set({
@@ -639,6 +667,27 @@ const citationsApp = new Hono()
     const intIdMap = await resolvePageIntIds(db, uniquePageIds);
     const results: Array<{ pageId: string; footnote: number; verdict: string }> = [];
 
+    // Audit before-summary: how the targeted quotes were judged before this batch
+    const targeted = new Set(items.map((d) => `${intIdMap.get(d.pageId)}:${d.footnote}`));
+    const intIds = [...new Set(intIdMap.values())];
+    const priorRows = intIds.length
+      ? await db
+          .select({
+            pageIdInt: citationQuotes.pageIdInt,
+            footnote: citationQuotes.footnote,
+            accuracyVerdict: citationQuotes.accuracyVerdict,
+          })
+          .from(citationQuotes)
+          .where(inArray(citationQuotes.pageIdInt, intIds))
+      : [];
+    const previousVerdicts: Record<string, number> = {};
+    for (const row of priorRows) {
+      if (!targeted.has(`${row.pageIdInt}:${row.footnote}`)) continue;
+      const verdict = row.accuracyVerdict ?? "none";
+      previousVerdicts[verdict] = (previousVerdicts[verdict] ?? 0) + 1;
+    }
+    setAuditBefore(c, { previousVerdicts });
+
     try {
       await db.transaction(async (tx) => {
         for (const d of items) {
@@ -1227,6 +1276,93 @@ const citationsApp = new Hono()
     return c.json({ quotes: rows });
   })
 
+  // ---- POST /drift-events ----
+  // Records that a cited URL's text changed, one row per quote citing it.
+  // Marking the affected quotes unverified is left to the caller (mark-unverified).
+  .post("/drift-events", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = RecordDriftSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const d = parsed.data;
+    const db = getDrizzleDb();
+    const intIdMap = await resolvePageIntIds(db, d.quotes.map((q) => q.pageId));
+    const values = d.quotes
+      .filter((q) => intIdMap.has(q.pageId))
+      .map((q) => ({
+        pageIdInt: intIdMap.get(q.pageId)!,
+        footnote: q.footnote,
+        url: d.url,
+        previousHash: d.previousHash ?? null,
+        currentHash: d.currentHash,
+        previousLength: d.previousLength ?? null,
+        currentLength: d.currentLength,
+        quoteFound: q.quoteFound,
+        verificationScore: q.verificationScore ?? null,
+      }));
+
+    const inserted = values.length > 0
+      ? await db.insert(citationDriftEvents).values(values).returning({ id: citationDriftEvents.id })
+      : [];
+
+    return c.json({
+      url: d.url,
+      recorded: inserted.length,
+      skippedPages: [...new Set(d.quotes.filter((q) => !intIdMap.has(q.pageId)).map((q) => q.pageId))],
+    }, 201);
+  })
+
+  // ---- GET /drift-events?page_id=X&limit=N ----
+  .get("/drift-events", async (c) => {
+    const pageId = c.req.query("page_id");
+    if (!pageId) return validationError(c, "page_id query parameter is required");
+
+    const limitParam = c.req.query("limit");
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam, 10) || 100, 1), 500) : 100;
+
+    const db = getDrizzleDb();
+    const intId = await resolvePageIntId(db, pageId);
+    if (intId === null) return c.json({ pageId, events: [] });
+
+    const rows = await db
+      .select()
+      .from(citationDriftEvents)
+      .where(eq(citationDriftEvents.pageIdInt, intId))
+      .orderBy(desc(citationDriftEvents.detectedAt))
+      .limit(limit);
+
+    return c.json({ pageId, events: rows });
+  })
+
+  // ---- GET /drift-events/all (paginated) ----
+  // Page slugs are joined in for the build-time citation bundle.
+  .get("/drift-events/all", async (c) => {
+    const parsed = PaginationQuery.safeParse(c.req.query());
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const { limit, offset } = parsed.data;
+    const db = getDrizzleDb();
+
+    const rows = await db
+      .select({
+        pageId: wikiPages.id,
+        footnote: citationDriftEvents.footnote,
+        url: citationDriftEvents.url,
+        quoteFound: citationDriftEvents.quoteFound,
+        verificationScore: citationDriftEvents.verificationScore,
+        detectedAt: citationDriftEvents.detectedAt,
+      })
+      .from(citationDriftEvents)
+      .innerJoin(wikiPages, eq(wikiPages.integerIdCol, citationDriftEvents.pageIdInt))
+      .orderBy(asc(citationDriftEvents.id))
+      .limit(limit)
+      .offset(offset);
+
+    return c.json({ events: rows, limit, offset });
+  })
+
   // ---- GET /quotes/:pageId/:footnote ----
   .get("/quotes/:pageId/:footnote", async (c) => {
     const pageId = c.req.param("pageId");
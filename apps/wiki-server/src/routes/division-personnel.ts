@@ -12,6 +12,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Query schemas ----
 
@@ -172,6 +173,13 @@ const divisionPersonnelApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      divisionPersonnel,
+      divisionPersonnel.id,
+      items.map((i) => i.id)
+    );
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
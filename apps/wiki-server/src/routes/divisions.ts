@@ -13,6 +13,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -228,6 +229,8 @@ const divisionsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, divisions, divisions.id, items.map((i) => i.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
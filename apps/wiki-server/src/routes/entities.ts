@@ -3,7 +3,7 @@ import { z } from "zod";
 import { eq, and, count, asc, sql, ilike, or, inArray } from "drizzle-orm";
 import type { SQL } from "drizzle-orm";
 import { getDrizzleDb } from "../db.js";
-import { entities, facts } from "../schema.js";
+import { entities, facts, summaries, things, entityMatchReviews } from "../schema.js";
 import { checkRefsExist } from "./ref-check.js";
 import {
   parseJsonBody,
@@ -17,9 +17,11 @@ import {
 import {
   SyncEntitySchema as SharedSyncEntitySchema,
   SyncEntitiesBatchSchema,
+  MergeEntitiesSchema,
 } from "../api-types.js";
 import { upsertThingsInTx } from "./thing-sync.js";
 import { buildSearchCondition, parseSort } from "./query-helpers.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -81,6 +83,41 @@ function formatEntity(e: typeof entities.$inferSelect) {
   };
 }
 
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Metadata for the kept entity after a merge: the dropped entity's slug,
+ * stableId and title join `previousSlugs`, `previousIds` and `aliases`
+ * (the same keys the YAML merge writes), so lookups by old identifiers
+ * keep resolving until the next sync.
+ */
+function mergedMetadata(
+  keep: typeof entities.$inferSelect,
+  drop: typeof entities.$inferSelect,
+): Record<string, unknown> {
+  const meta = { ...(keep.metadata ?? {}) };
+  const dropMeta = drop.metadata ?? {};
+  const union = (key: string, extra: Array<string | null>, exclude: string | null) => {
+    const values = [...stringList(meta[key]), ...extra, ...stringList(dropMeta[key])];
+    meta[key] = [...new Set(values.filter((v): v is string => !!v && v !== exclude))];
+  };
+  union("previousSlugs", [drop.id], keep.id);
+  union("previousIds", [drop.stableId], keep.stableId);
+  union("aliases", [drop.title], keep.title);
+  return meta;
+}
+
+async function findEntity(db: ReturnType<typeof getDrizzleDb>, id: string) {
+  const rows = await db
+    .select()
+    .from(entities)
+    .where(or(eq(entities.id, id), eq(entities.numericId, id), eq(entities.stableId, id)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
 const entitiesApp = new Hono()
 
   // ---- GET /search?q=...&limit=20 ----
@@ -586,6 +623,8 @@ const entitiesApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, entities, entities.id, items.map((e) => e.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((e) => ({
         id: e.id,
@@ -651,6 +690,90 @@ const entitiesApp = new Hono()
     });
 
     return c.json({ upserted });
+  })
+
+  // ---- POST /merge ----
+  // Fold a duplicate entity into the one being kept: re-point facts,
+  // summaries, match reviews and child things, record the dropped
+  // identifiers on the kept entity, then delete the dropped entity and its
+  // thing row. (Archived claims/statements rows cascade with the delete.)
+
+  .post("/merge", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = MergeEntitiesSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const db = getDrizzleDb();
+    const keep = await findEntity(db, parsed.data.keepId);
+    if (!keep) return notFoundError(c, `No entity found for id: ${parsed.data.keepId}`);
+    const drop = await findEntity(db, parsed.data.dropId);
+    if (!drop) return notFoundError(c, `No entity found for id: ${parsed.data.dropId}`);
+    if (keep.id === drop.id) return validationError(c, "Cannot merge an entity into itself");
+
+    const keepThingId = keep.stableId ?? keep.id;
+    const dropThingId = drop.stableId ?? drop.id;
+    const moved = { facts: 0, summaries: 0, things: 0 };
+
+    await db.transaction(async (tx) => {
+      if (keep.stableId && drop.stableId) {
+        const movedFacts = await tx
+          .update(facts)
+          .set({ entityId: keep.stableId })
+          .where(eq(facts.entityId, drop.stableId))
+          .returning({ id: facts.id });
+        moved.facts = movedFacts.length;
+
+        await tx
+          .update(facts)
+          .set({ subject: keep.stableId })
+          .where(eq(facts.subject, drop.stableId));
+
+        // summaries is keyed by entity — only move the dropped one if the kept has none
+        const keepSummary = await tx
+          .select({ entityId: summaries.entityId })
+          .from(summaries)
+          .where(eq(summaries.entityId, keep.stableId));
+        if (keepSummary.length === 0) {
+          const movedSummaries = await tx
+            .update(summaries)
+            .set({ entityId: keep.stableId })
+            .where(eq(summaries.entityId, drop.stableId))
+            .returning({ entityId: summaries.entityId });
+          moved.summaries = movedSummaries.length;
+        }
+
+        await tx
+          .update(entityMatchReviews)
+          .set({ resolvedStableId: keep.stableId })
+          .where(eq(entityMatchReviews.resolvedStableId, drop.stableId));
+      }
+
+      const movedThings = await tx
+        .update(things)
+        .set({ parentThingId: keepThingId, updatedAt: sql`now()` })
+        .where(eq(things.parentThingId, dropThingId))
+        .returning({ id: things.id });
+      moved.things = movedThings.length;
+
+      await tx
+        .delete(things)
+        .where(and(eq(things.sourceTable, "entities"), eq(things.sourceId, drop.id)));
+
+      await tx
+        .update(entities)
+        .set({ metadata: mergedMetadata(keep, drop), updatedAt: sql`now()` })
+        .where(eq(entities.id, keep.id));
+
+      await tx.delete(entities).where(eq(entities.id, drop.id));
+    });
+
+    return c.json({
+      kept: { id: keep.id, stableId: keep.stableId },
+      dropped: { id: drop.id, stableId: drop.stableId },
+      moved,
+    });
   });
 
 export const entitiesRoute = entitiesApp;
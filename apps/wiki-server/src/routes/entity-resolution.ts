@@ -1,13 +1,34 @@
-import { eq, or } from "drizzle-orm";
+import { Hono } from "hono";
+import { z } from "zod";
+import { eq, or, and, count, desc, sql } from "drizzle-orm";
 import { getDrizzleDb } from "../db.js";
-import { entities } from "../schema.js";
+import { entities, entityMatchReviews } from "../schema.js";
+import {
+  zv,
+  parseJsonBody,
+  validationError,
+  invalidJsonError,
+  notFoundError,
+} from "./utils.js";
+import {
+  ResolveEntitiesBatchSchema,
+  EnqueueEntityReviewsSchema,
+  AcceptEntityReviewSchema,
+  RejectEntityReviewSchema,
+  VALID_ENTITY_REVIEW_STATUSES,
+} from "../api-types.js";
+import {
+  createEntityResolver,
+  isConfidentMatch,
+  type ResolverCandidate,
+} from "../entity-matching.js";
 
 /**
  * Resolve an entity identifier (stableId, slug, or numericId) to a stableId.
- * Returns null if the entity is not found.
+ * Accepts the db or an open transaction. Returns null if the entity is not found.
  */
 export async function resolveEntityStableId(
-  db: ReturnType<typeof getDrizzleDb>,
+  db: Pick<ReturnType<typeof getDrizzleDb>, "select">,
   identifier: string,
 ): Promise<string | null> {
   const rows = await db
@@ -23,3 +44,277 @@ export async function resolveEntityStableId(
     .limit(1);
   return rows[0]?.stableId ?? null;
 }
+
+// ---- Constants ----
+
+const MAX_PAGE_SIZE = 200;
+
+/** Metadata keys (synced from entity/KB YAML) that name an entity's parent. */
+const PARENT_METADATA_KEYS = ["parent", "parentOrg", "developer", "affiliation"];
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Build resolver candidates from the entities table. Names accepted in the
+ * review queue count as aliases, so they resolve before they reach the YAML.
+ */
+async function loadResolverCandidates(
+  db: ReturnType<typeof getDrizzleDb>,
+): Promise<ResolverCandidate[]> {
+  const [rows, accepted] = await Promise.all([
+    db
+      .select({
+        id: entities.id,
+        stableId: entities.stableId,
+        numericId: entities.numericId,
+        entityType: entities.entityType,
+        title: entities.title,
+        metadata: entities.metadata,
+      })
+      .from(entities),
+    db
+      .select({
+        rawName: entityMatchReviews.rawName,
+        stableId: entityMatchReviews.resolvedStableId,
+      })
+      .from(entityMatchReviews)
+      .where(eq(entityMatchReviews.status, "accepted")),
+  ]);
+
+  const acceptedNames = new Map<string, string[]>();
+  for (const a of accepted) {
+    if (!a.stableId) continue;
+    acceptedNames.set(a.stableId, [...(acceptedNames.get(a.stableId) ?? []), a.rawName]);
+  }
+
+  return rows.map((r) => {
+    const stableId = r.stableId ?? r.id;
+    const metadata = r.metadata ?? {};
+    return {
+      stableId,
+      slug: r.id,
+      name: r.title,
+      entityType: r.entityType,
+      numericId: r.numericId,
+      aliases: [...stringList(metadata.aliases), ...(acceptedNames.get(stableId) ?? [])],
+      previousSlugs: stringList(metadata.previousSlugs),
+      parents: PARENT_METADATA_KEYS.flatMap((key) =>
+        typeof metadata[key] === "string" ? [metadata[key] as string] : [],
+      ),
+    };
+  });
+}
+
+// ---- Query schemas ----
+
+const ReviewsQuery = z.object({
+  status: z.enum(VALID_ENTITY_REVIEW_STATUSES).default("pending"),
+  source: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function formatReview(r: typeof entityMatchReviews.$inferSelect) {
+  return {
+    id: r.id,
+    rawName: r.rawName,
+    entityType: r.entityType || null,
+    parent: r.parentHint,
+    source: r.source,
+    occurrences: r.occurrences,
+    candidates: r.candidates,
+    status: r.status,
+    resolvedStableId: r.resolvedStableId,
+    reviewedBy: r.reviewedBy,
+    reviewedAt: r.reviewedAt,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+function parseReviewId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// ---- Route definition (method-chained for Hono RPC type inference) ----
+
+const entityResolutionApp = new Hono()
+
+  // ---- POST /resolve ----
+  // Rank candidate entities for a batch of names
+  .post("/resolve", async (c) => {
+    const raw = await parseJsonBody(c);
+    if (!raw) return invalidJsonError(c);
+
+    const parsed = ResolveEntitiesBatchSchema.safeParse(raw);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const { queries, limit } = parsed.data;
+    const db = getDrizzleDb();
+    const resolver = createEntityResolver(await loadResolverCandidates(db));
+
+    return c.json({
+      results: queries.map((query) => {
+        const matches = resolver.resolve(query, { limit });
+        return { query, matches, confident: isConfidentMatch(matches) };
+      }),
+    });
+  })
+
+  // ---- GET /reviews ----
+  .get("/reviews", zv("query", ReviewsQuery), async (c) => {
+    const { status, source, limit, offset } = c.req.valid("query");
+    const db = getDrizzleDb();
+
+    const whereClause = and(
+      eq(entityMatchReviews.status, status),
+      source ? eq(entityMatchReviews.source, source) : undefined,
+    );
+
+    const rows = await db
+      .select()
+      .from(entityMatchReviews)
+      .where(whereClause)
+      .orderBy(desc(entityMatchReviews.occurrences), desc(entityMatchReviews.updatedAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(entityMatchReviews)
+      .where(whereClause);
+
+    return c.json({ reviews: rows.map(formatReview), total });
+  })
+
+  // ---- GET /reviews/:id ----
+  .get("/reviews/:id", async (c) => {
+    const id = parseReviewId(c.req.param("id"));
+    if (id === null) return validationError(c, "Review id must be a positive integer");
+
+    const db = getDrizzleDb();
+    const [row] = await db
+      .select()
+      .from(entityMatchReviews)
+      .where(eq(entityMatchReviews.id, id))
+      .limit(1);
+
+    if (!row) return notFoundError(c, `Review not found: ${id}`);
+    return c.json(formatReview(row));
+  })
+
+  // ---- POST /reviews ----
+  // Enqueue low-confidence matches; a name seen again bumps its occurrence count
+  .post("/reviews", async (c) => {
+    const raw = await parseJsonBody(c);
+    if (!raw) return invalidJsonError(c);
+
+    const parsed = EnqueueEntityReviewsSchema.safeParse(raw);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    // ON CONFLICT can't touch the same row twice in one statement
+    const unique = new Map<string, (typeof parsed.data.items)[number]>();
+    for (const item of parsed.data.items) {
+      unique.set(`${item.rawName}\u0000${item.entityType ?? ""}`, item);
+    }
+
+    const db = getDrizzleDb();
+    const now = new Date();
+    const rows = await db
+      .insert(entityMatchReviews)
+      .values(
+        [...unique.values()].map((item) => ({
+          rawName: item.rawName,
+          entityType: item.entityType ?? "",
+          parentHint: item.parent ?? null,
+          source: item.source,
+          candidates: item.candidates,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [entityMatchReviews.rawName, entityMatchReviews.entityType],
+        set: {
+          occurrences: sql`${entityMatchReviews.occurrences} + 1`,
+          candidates: sql`excluded.candidates`,
+          updatedAt: now,
+        },
+      })
+      .returning({ id: entityMatchReviews.id, status: entityMatchReviews.status });
+
+    return c.json(
+      {
+        upserted: rows.length,
+        pending: rows.filter((r) => r.status === "pending").length,
+      },
+      201
+    );
+  })
+
+  // ---- POST /reviews/:id/accept ----
+  .post("/reviews/:id/accept", async (c) => {
+    const id = parseReviewId(c.req.param("id"));
+    if (id === null) return validationError(c, "Review id must be a positive integer");
+
+    const raw = await parseJsonBody(c);
+    if (!raw) return invalidJsonError(c);
+
+    const parsed = AcceptEntityReviewSchema.safeParse(raw);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const db = getDrizzleDb();
+    const stableId = await resolveEntityStableId(db, parsed.data.entityId);
+    if (!stableId) return notFoundError(c, `Entity not found: ${parsed.data.entityId}`);
+
+    const now = new Date();
+    const [row] = await db
+      .update(entityMatchReviews)
+      .set({
+        status: "accepted",
+        resolvedStableId: stableId,
+        reviewedBy: parsed.data.reviewedBy ?? null,
+        reviewedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(entityMatchReviews.id, id))
+      .returning();
+
+    if (!row) return notFoundError(c, `Review not found: ${id}`);
+    return c.json(formatReview(row));
+  })
+
+  // ---- POST /reviews/:id/reject ----
+  .post("/reviews/:id/reject", async (c) => {
+    const id = parseReviewId(c.req.param("id"));
+    if (id === null) return validationError(c, "Review id must be a positive integer");
+
+    const raw = (await parseJsonBody(c)) ?? {};
+    const parsed = RejectEntityReviewSchema.safeParse(raw);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const db = getDrizzleDb();
+    const now = new Date();
+    const [row] = await db
+      .update(entityMatchReviews)
+      .set({
+        status: "rejected",
+        resolvedStableId: null,
+        reviewedBy: parsed.data.reviewedBy ?? null,
+        reviewedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(entityMatchReviews.id, id))
+      .returning();
+
+    if (!row) return notFoundError(c, `Review not found: ${id}`);
+    return c.json(formatReview(row));
+  });
+
+// ---- Exports ----
+
+export const entityResolutionRoute = entityResolutionApp;
+export type EntityResolutionRoute = typeof entityResolutionApp;
@@ -10,6 +10,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -181,6 +182,8 @@ const equityPositionsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, equityPositions, equityPositions.id, items.map((i) => i.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
@@ -0,0 +1,175 @@
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { z } from "zod";
+import { and, eq, getTableColumns, inArray, sql, type SQL } from "drizzle-orm";
+import { getDrizzleDb } from "../db.js";
+import { outboxEvents } from "../schema.js";
+import { onEventEmitted } from "../events.js";
+import { EVENT_TYPES } from "../api-types.js";
+import { zv } from "./utils.js";
+
+// ---- Constants ----
+
+/** How often an SSE stream re-reads the outbox when no local wake-up arrives. */
+const STREAM_POLL_MS = 2_000;
+/** Comment line sent on idle streams so proxies don't close them. */
+const STREAM_HEARTBEAT_MS = 25_000;
+const STREAM_BATCH_SIZE = 100;
+
+// ---- Query schemas ----
+
+/** Comma-separated event types: "page.synced,fact.changed" */
+const typesParam = z
+  .string()
+  .transform((s) => s.split(",").map((t) => t.trim()).filter(Boolean))
+  .pipe(z.array(z.enum(EVENT_TYPES)));
+
+const ListEventsQuery = z.object({
+  /** Return events after the event with this id. */
+  after: z.coerce.number().int().min(0).default(0),
+  types: typesParam.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const StreamQuery = z.object({
+  /** Start after this event id; defaults to Last-Event-ID, then to "now". */
+  after: z.coerce.number().int().min(0).optional(),
+  types: typesParam.optional(),
+});
+
+// ---- Helpers ----
+
+type OutboxRow = typeof outboxEvents.$inferSelect;
+
+function formatEvent(row: OutboxRow) {
+  return {
+    id: row.id,
+    type: row.type,
+    createdAt: row.createdAt,
+    data: row.payload,
+  };
+}
+
+/**
+ * Position in the outbox. Events are ordered by (txid, id) rather than id
+ * alone: ids are assigned at insert, not commit, so a later id can become
+ * visible before an earlier one (see drizzle/0101_add_outbox_event_txid.sql).
+ * `txid` is null for a cursor that predates every event.
+ */
+interface EventCursor {
+  txid: string | null;
+  id: number;
+}
+
+/** Resolve an event id (?after=, Last-Event-ID) to its position in the outbox. */
+async function cursorAt(id: number): Promise<EventCursor> {
+  const [row] = await getDrizzleDb()
+    .select({ txid: sql<string>`${outboxEvents}.txid::text`.as("txid") })
+    .from(outboxEvents)
+    .where(eq(outboxEvents.id, id));
+  return { txid: row?.txid ?? null, id };
+}
+
+/**
+ * Cursor for "from now on": just before anything an in-flight transaction
+ * may still commit. May replay a few recent events; never skips one.
+ */
+async function cursorNow(): Promise<EventCursor> {
+  const rows = await getDrizzleDb().execute<{ xmin: string }>(
+    sql`SELECT pg_snapshot_xmin(pg_current_snapshot())::text AS xmin`
+  );
+  return { txid: rows[0].xmin, id: 0 };
+}
+
+/**
+ * Events after `cursor`, limited to transactions older than the oldest one
+ * still running. Any event not yet committed sorts after everything returned,
+ * so advancing the cursor past the returned rows cannot skip it.
+ */
+async function readEvents(cursor: EventCursor, types: string[] | undefined, limit: number) {
+  const db = getDrizzleDb();
+  const conditions: SQL[] = [
+    sql`${outboxEvents}.txid < pg_snapshot_xmin(pg_current_snapshot())`,
+    cursor.txid === null
+      ? sql`${outboxEvents.id} > ${cursor.id}`
+      : sql`(${outboxEvents}.txid, ${outboxEvents.id}) > (${cursor.txid}::xid8, ${cursor.id})`,
+  ];
+  if (types && types.length > 0) conditions.push(inArray(outboxEvents.type, types));
+  return db
+    .select({ ...getTableColumns(outboxEvents), txid: sql<string>`${outboxEvents}.txid::text`.as("txid") })
+    .from(outboxEvents)
+    .where(and(...conditions))
+    .orderBy(sql`${outboxEvents}.txid`, outboxEvents.id)
+    .limit(limit);
+}
+
+// ---- Route definition ----
+
+const eventsApp = new Hono()
+
+  // ---- GET / (poll: events after a cursor) ----
+
+  .get("/", zv("query", ListEventsQuery), async (c) => {
+    const { after, types, limit } = c.req.valid("query");
+    const rows = await readEvents(await cursorAt(after), types, limit);
+    return c.json({
+      events: rows.map(formatEvent),
+      // Pass back as ?after= to continue; unchanged when there is nothing new
+      cursor: rows.length > 0 ? rows[rows.length - 1].id : after,
+    });
+  })
+
+  // ---- GET /stream (server-sent events) ----
+  // Each SSE message has `id` = outbox id and `event` = event type, so
+  // EventSource reconnects resume via the Last-Event-ID header.
+
+  .get("/stream", zv("query", StreamQuery), async (c) => {
+    const { after, types } = c.req.valid("query");
+
+    const resumeFrom = after ?? Number(c.req.header("Last-Event-ID"));
+    let cursor =
+      Number.isInteger(resumeFrom) && resumeFrom >= 0
+        ? await cursorAt(resumeFrom)
+        : await cursorNow();
+
+    return streamSSE(c, async (stream) => {
+      let wake: (() => void) | null = null;
+      const unsubscribe = onEventEmitted(() => wake?.());
+      stream.onAbort(() => wake?.());
+
+      let lastWrite = Date.now();
+      try {
+        while (!stream.aborted) {
+          const rows = await readEvents(cursor, types, STREAM_BATCH_SIZE);
+          for (const row of rows) {
+            await stream.writeSSE({
+              id: String(row.id),
+              event: row.type,
+              data: JSON.stringify(formatEvent(row)),
+            });
+            cursor = { txid: row.txid, id: row.id };
+            lastWrite = Date.now();
+          }
+          if (rows.length === STREAM_BATCH_SIZE) continue; // drain backlog first
+
+          if (Date.now() - lastWrite >= STREAM_HEARTBEAT_MS) {
+            await stream.write(": heartbeat\n\n");
+            lastWrite = Date.now();
+          }
+
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, STREAM_POLL_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+        }
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
+
+export const eventsRoute = eventsApp;
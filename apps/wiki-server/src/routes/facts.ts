@@ -13,6 +13,8 @@ import {
 } from "./utils.js";
 import { SyncFactsBatchSchema } from "../api-types.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { emitEvent, eventIds } from "../events.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -249,6 +251,8 @@ const factsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, facts, facts.factId, items.map((f) => f.factId));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((f) => ({
         entityId: f.entityId,
@@ -310,6 +314,12 @@ const factsApp = new Hono()
       );
 
       upserted = allVals.length;
+
+      await emitEvent(tx, "fact.changed", {
+        entityIds: eventIds(entityIds), // entity stable IDs
+        factIds: eventIds(items.map((f) => f.factId)),
+        count: upserted,
+      });
     });
 
     return c.json({ upserted });
@@ -13,6 +13,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -269,6 +270,8 @@ const fundingProgramsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, fundingPrograms, fundingPrograms.id, items.map((i) => i.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
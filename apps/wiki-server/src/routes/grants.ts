@@ -13,6 +13,7 @@ import {
 } from "./utils.js";
 import { parseSort, buildSearchCondition } from "./query-helpers.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -452,6 +453,8 @@ const grantsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, grants, grants.id, items.map((i) => i.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
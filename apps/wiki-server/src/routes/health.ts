@@ -1,12 +1,78 @@
 import { Hono } from "hono";
-import { count } from "drizzle-orm";
+import { z } from "zod";
+import { count, max } from "drizzle-orm";
 import { getDrizzleDb, getDb } from "../db.js";
-import { entityIds, wikiPages, entities, facts } from "../schema.js";
+import {
+  entityIds,
+  wikiPages,
+  entities,
+  facts,
+  personnel,
+  grants,
+  fundingRounds,
+  investments,
+  equityPositions,
+  divisions,
+  divisionPersonnel,
+  fundingPrograms,
+  benchmarks,
+  benchmarkResults,
+  recordVerdicts,
+  researchAreas,
+  researchAreaOrganizations,
+  researchAreaPapers,
+  researchAreaRisks,
+  grantResearchAreas,
+  resources,
+  resourceCitations,
+} from "../schema.js";
 import { logger } from "../logger.js";
-import { verifyToken } from "../auth.js";
+import { verifyToken, validateApiKey } from "../auth.js";
+import { zv } from "./utils.js";
 
 const startTime = Date.now();
 
+/**
+ * Tables whose fingerprint (row count + latest change) can be requested from
+ * GET /health/tables. Link tables without an updated_at column are only ever
+ * inserted into or deleted from, so created_at serves the same purpose.
+ */
+const FINGERPRINT_TABLES = {
+  personnel: [personnel, personnel.updatedAt],
+  grants: [grants, grants.updatedAt],
+  funding_rounds: [fundingRounds, fundingRounds.updatedAt],
+  investments: [investments, investments.updatedAt],
+  equity_positions: [equityPositions, equityPositions.updatedAt],
+  divisions: [divisions, divisions.updatedAt],
+  division_personnel: [divisionPersonnel, divisionPersonnel.updatedAt],
+  funding_programs: [fundingPrograms, fundingPrograms.updatedAt],
+  benchmarks: [benchmarks, benchmarks.updatedAt],
+  benchmark_results: [benchmarkResults, benchmarkResults.updatedAt],
+  record_verdicts: [recordVerdicts, recordVerdicts.updatedAt],
+  research_areas: [researchAreas, researchAreas.updatedAt],
+  research_area_organizations: [researchAreaOrganizations, researchAreaOrganizations.createdAt],
+  research_area_papers: [researchAreaPapers, researchAreaPapers.createdAt],
+  research_area_risks: [researchAreaRisks, researchAreaRisks.createdAt],
+  grant_research_areas: [grantResearchAreas, grantResearchAreas.createdAt],
+  resources: [resources, resources.updatedAt],
+  resource_citations: [resourceCitations, resourceCitations.createdAt],
+} as const;
+
+type FingerprintTable = keyof typeof FINGERPRINT_TABLES;
+
+const TablesQuery = z.object({
+  /** Comma-separated table names: "personnel,grants" */
+  names: z
+    .string()
+    .transform((s) => s.split(",").map((t) => t.trim()).filter(Boolean))
+    .pipe(
+      z
+        .array(z.enum(Object.keys(FINGERPRINT_TABLES) as [FingerprintTable, ...FingerprintTable[]]))
+        .min(1)
+        .max(50),
+    ),
+});
+
 const healthApp = new Hono()
   .get("/", async (c) => {
     const db = getDrizzleDb();
@@ -59,6 +125,35 @@ const healthApp = new Hono()
       uptime: Math.floor((Date.now() - startTime) / 1000),
     });
   })
+  /**
+   * GET /tables?names=a,b — Row count and latest change time per table.
+   * Build scripts hash these to tell whether data they fetched last time is
+   * still current without re-fetching it. Unlike the probes above it runs a
+   * query per table, so it requires an API key like /api/*.
+   */
+  .get("/tables", validateApiKey(), zv("query", TablesQuery), async (c) => {
+    const { names } = c.req.valid("query");
+    const db = getDrizzleDb();
+
+    const rows = await Promise.all(
+      names.map(async (name) => {
+        const [table, changedAt] = FINGERPRINT_TABLES[name];
+        const result = await db
+          .select({ rows: count(), lastChanged: max(changedAt) })
+          .from(table);
+        const lastChanged = result[0]?.lastChanged ?? null;
+        return [
+          name,
+          {
+            rows: Number(result[0]?.rows ?? 0),
+            lastChanged: lastChanged instanceof Date ? lastChanged.toISOString() : lastChanged,
+          },
+        ] as const;
+      }),
+    );
+
+    return c.json({ tables: Object.fromEntries(rows) });
+  })
   /**
    * GET /auth — Check if a Bearer token is valid.
    * Returns 401 if no token or invalid token.
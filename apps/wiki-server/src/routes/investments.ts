@@ -10,6 +10,7 @@ import {
   zv,
 } from "./utils.js";
 import { upsertThingsInTx } from "./thing-sync.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -191,6 +192,8 @@ const investmentsApp = new Hono()
 
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, investments, investments.id, items.map((i) => i.id));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
@@ -1,5 +1,5 @@
-import { Hono } from "hono";
-import { eq, and, count, sql, desc } from "drizzle-orm";
+import { Hono, type Context } from "hono";
+import { eq, and, count, sql, desc, inArray } from "drizzle-orm";
 import { getDb, getDrizzleDb } from "../db.js";
 import { jobs } from "../schema.js";
 import {
@@ -7,6 +7,7 @@ import {
   validationError,
   invalidJsonError,
   notFoundError,
+  conflictError,
   firstOrThrow,
 } from "./utils.js";
 import {
@@ -14,11 +15,38 @@ import {
   CreateJobBatchSchema,
   ListJobsQuerySchema,
   ClaimJobSchema,
+  HeartbeatJobSchema,
   CompleteJobSchema,
   FailJobSchema,
   SweepJobsSchema,
+  type CreateJob,
   type JobStatus,
 } from "../api-types.js";
+import { emitEvent } from "../events.js";
+import { setAuditBefore } from "../audit.js";
+import { requireScope } from "../auth.js";
+
+type DrizzleDb = ReturnType<typeof getDrizzleDb>;
+type PgClient = ReturnType<typeof getDb>;
+
+// ---- Constants ----
+
+/** First retry waits this long; each further retry doubles it. */
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+/**
+ * A pending job (aliased `j`) is claimable once its run_after has passed and
+ * every job it depends on has completed.
+ */
+const READY_CONDITION = `(j.run_after IS NULL OR j.run_after <= now())
+           AND NOT EXISTS (
+             SELECT 1 FROM "jobs" dep
+             WHERE dep.id = ANY(j.depends_on) AND dep.status <> 'completed'
+           )`;
+
+/** The job's lease has not expired (jobs claimed without a lease always pass). */
+const LEASE_HELD = sql`(${jobs.leaseExpiresAt} IS NULL OR ${jobs.leaseExpiresAt} > now())`;
 
 // ---- Helpers ----
 
@@ -38,6 +66,10 @@ function formatJob(row: typeof jobs.$inferSelect) {
     startedAt: row.startedAt,
     completedAt: row.completedAt,
     workerId: row.workerId,
+    dependsOn: row.dependsOn,
+    runAfter: row.runAfter,
+    leaseExpiresAt: row.leaseExpiresAt,
+    idempotencyKey: row.idempotencyKey,
   };
 }
 
@@ -58,9 +90,155 @@ function formatRawJobRow(row: Record<string, unknown>) {
     startedAt: row.started_at,
     completedAt: row.completed_at,
     workerId: row.worker_id as string | null,
+    // postgres.js returns BIGINT[] elements as strings
+    dependsOn: (row.depends_on as Array<number | string> | null)?.map(Number) ?? null,
+    runAfter: row.run_after,
+    leaseExpiresAt: row.lease_expires_at,
+    idempotencyKey: row.idempotency_key as string | null,
   };
 }
 
+/**
+ * Reject dependencies that don't exist or can never complete. Returns an
+ * error message, or null when every dependency is usable.
+ */
+async function checkDependencies(db: DrizzleDb, ids: number[]): Promise<string | null> {
+  if (ids.length === 0) return null;
+
+  const rows = await db
+    .select({ id: jobs.id, status: jobs.status })
+    .from(jobs)
+    .where(inArray(jobs.id, ids));
+
+  const found = new Set(rows.map((r) => r.id));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    return `Unknown dependency job IDs: ${missing.join(", ")}`;
+  }
+
+  const dead = rows.filter((r) => r.status === "failed" || r.status === "cancelled");
+  if (dead.length > 0) {
+    return `Dependencies can never complete: ${dead.map((r) => `#${r.id} (${r.status})`).join(", ")}`;
+  }
+  return null;
+}
+
+/** Insert a job, or return the existing job with the same idempotency key. */
+async function insertJob(
+  db: DrizzleDb,
+  j: CreateJob,
+  dependsOn: number[]
+): Promise<{ row: typeof jobs.$inferSelect; created: boolean }> {
+  const inserted = await db
+    .insert(jobs)
+    .values({
+      type: j.type,
+      params: j.params ?? null,
+      priority: j.priority,
+      maxRetries: j.maxRetries,
+      dependsOn: dependsOn.length > 0 ? [...new Set(dependsOn)] : undefined,
+      runAfter: j.runAfter ? new Date(j.runAfter) : undefined,
+      idempotencyKey: j.idempotencyKey,
+    })
+    .onConflictDoNothing({ target: jobs.idempotencyKey })
+    .returning();
+
+  if (inserted.length > 0) return { row: inserted[0], created: true };
+
+  // Only an idempotency key can conflict
+  const existing = await db
+    .select()
+    .from(jobs)
+    .where(eq(jobs.idempotencyKey, j.idempotencyKey!))
+    .limit(1);
+  return { row: firstOrThrow(existing, "job lookup after idempotency conflict"), created: false };
+}
+
+/**
+ * Cancel the pending jobs that (transitively) depend on a job that failed or
+ * was cancelled — they could otherwise never be claimed. Returns their IDs.
+ */
+async function cancelDependents(pgClient: PgClient, jobId: number, reason: string): Promise<number[]> {
+  const rows = await pgClient.unsafe(
+    `WITH RECURSIVE blocked AS (
+       SELECT id FROM "jobs"
+       WHERE status = 'pending' AND depends_on @> ARRAY[$1::bigint]
+       UNION
+       SELECT j.id FROM "jobs" j
+       JOIN blocked b ON j.depends_on @> ARRAY[b.id]
+       WHERE j.status = 'pending'
+     )
+     UPDATE "jobs"
+     SET status = 'cancelled', error = $2, completed_at = now()
+     WHERE id IN (SELECT id FROM blocked)
+     RETURNING id`,
+    [jobId, reason]
+  );
+  return rows.map((r) => Number(r.id));
+}
+
+/**
+ * Explain why a complete/fail call by `workerId` matched no row: 404 if the
+ * job does not exist, otherwise 409 (wrong status, another worker's job, or
+ * an expired lease that is about to be reaped).
+ */
+async function rejectFinish(
+  c: Context,
+  id: number,
+  workerId: string,
+  expected: readonly JobStatus[]
+) {
+  const db = getDrizzleDb();
+  const rows = await db
+    .select({ status: jobs.status, workerId: jobs.workerId, leaseExpiresAt: jobs.leaseExpiresAt })
+    .from(jobs)
+    .where(eq(jobs.id, id));
+  if (rows.length === 0) return notFoundError(c, "Job not found");
+
+  const job = rows[0];
+  if (!expected.includes(job.status as JobStatus)) {
+    return conflictError(
+      c,
+      `Job is in '${job.status}' status, expected ${expected.map((s) => `'${s}'`).join(" or ")}`
+    );
+  }
+  if (job.workerId !== workerId) {
+    return conflictError(c, `Job is leased to worker ${job.workerId ?? "unknown"}, not ${workerId}`);
+  }
+  return conflictError(c, "Job lease has expired");
+}
+
+/**
+ * Return jobs whose lease expired (the worker stopped heartbeating, e.g. it
+ * crashed) to the queue. This counts as a failed attempt, so a job that keeps
+ * killing its worker eventually fails instead of looping forever.
+ */
+async function reapExpiredLeases(pgClient: PgClient) {
+  const rows = await pgClient.unsafe(
+    `UPDATE "jobs"
+     SET
+       retries          = retries + 1,
+       status           = CASE WHEN (retries + 1) < max_retries THEN 'pending' ELSE 'failed' END,
+       error            = 'Lease expired: worker ' || coalesce(worker_id, 'unknown') || ' stopped sending heartbeats',
+       completed_at     = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE now() END,
+       claimed_at       = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE claimed_at END,
+       started_at       = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE started_at END,
+       worker_id        = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE worker_id END,
+       lease_expires_at = NULL
+     WHERE status IN ('claimed', 'running')
+       AND lease_expires_at < now()
+     RETURNING id, type, status`
+  );
+
+  const reaped = rows.map((r) => ({ id: Number(r.id), type: r.type as string }));
+  for (const r of rows) {
+    if (r.status === "failed") {
+      await cancelDependents(pgClient, Number(r.id), `Dependency #${r.id} failed`);
+    }
+  }
+  return reaped;
+}
+
 const jobsApp = new Hono()
 
   // ---- POST / (create job or batch) ----
@@ -76,17 +254,25 @@ const jobsApp = new Hono()
       const parsed = CreateJobBatchSchema.safeParse(body);
       if (!parsed.success) return validationError(c, parsed.error.message);
 
-      const rows = await db
-        .insert(jobs)
-        .values(
-          parsed.data.map((j) => ({
-            type: j.type,
-            params: j.params ?? null,
-            priority: j.priority,
-            maxRetries: j.maxRetries,
-          }))
-        )
-        .returning();
+      const items = parsed.data;
+      const depError = await checkDependencies(db, [
+        ...new Set(items.flatMap((j) => j.dependsOn ?? [])),
+      ]);
+      if (depError) return validationError(c, depError);
+
+      // Insert in order so dependsOnIndex can resolve to IDs created earlier
+      // in this batch; the transaction makes the whole graph visible at once.
+      const rows = await db.transaction(async (tx) => {
+        const created: Array<typeof jobs.$inferSelect> = [];
+        for (const j of items) {
+          const dependsOn = [
+            ...(j.dependsOn ?? []),
+            ...(j.dependsOnIndex ?? []).map((i) => created[i].id),
+          ];
+          created.push((await insertJob(tx, j, dependsOn)).row);
+        }
+        return created;
+      });
 
       return c.json(rows.map(formatJob), 201);
     }
@@ -95,17 +281,14 @@ const jobsApp = new Hono()
     if (!parsed.success) return validationError(c, parsed.error.message);
 
     const d = parsed.data;
-    const rows = await db
-      .insert(jobs)
-      .values({
-        type: d.type,
-        params: d.params ?? null,
-        priority: d.priority,
-        maxRetries: d.maxRetries,
-      })
-      .returning();
+    const depError = await checkDependencies(db, d.dependsOn ?? []);
+    if (depError) return validationError(c, depError);
+
+    const { row, created } = await insertJob(db, d, d.dependsOn ?? []);
 
-    return c.json(formatJob(firstOrThrow(rows, "job insert")), 201);
+    // An idempotency-key hit returns the existing job unchanged
+    if (!created) return c.json(formatJob(row), 200);
+    return c.json(formatJob(row), 201);
   })
 
   // ---- GET / (list jobs with filters) ----
@@ -151,43 +334,51 @@ const jobsApp = new Hono()
     const parsed = ClaimJobSchema.safeParse(body);
     if (!parsed.success) return validationError(c, parsed.error.message);
 
-    const { type, workerId } = parsed.data;
+    const { type, workerId, leaseSeconds } = parsed.data;
     const pgClient = getDb();
 
+    // Jobs of crashed workers go back to the queue before we pick one
+    await reapExpiredLeases(pgClient);
+
     // Use raw SQL for SELECT FOR UPDATE SKIP LOCKED (atomic claim).
     // Two query variants to keep parameterization clean.
     const result = type
       ? await pgClient.unsafe(
           `UPDATE "jobs"
-         SET status = 'claimed', claimed_at = now(), worker_id = $1
+         SET status = 'claimed', claimed_at = now(), worker_id = $1,
+             lease_expires_at = now() + make_interval(secs => $2)
          WHERE id = (
-           SELECT id FROM "jobs"
-           WHERE status = 'pending' AND "type" = $2
-           ORDER BY priority DESC, created_at ASC
+           SELECT id FROM "jobs" j
+           WHERE j.status = 'pending' AND j."type" = $3
+           AND ${READY_CONDITION}
+           ORDER BY j.priority DESC, j.created_at ASC
            LIMIT 1
            FOR UPDATE SKIP LOCKED
          )
          RETURNING *`,
-          [workerId, type]
+          [workerId, leaseSeconds, type]
         )
       : await pgClient.unsafe(
           `UPDATE "jobs"
-         SET status = 'claimed', claimed_at = now(), worker_id = $1
+         SET status = 'claimed', claimed_at = now(), worker_id = $1,
+             lease_expires_at = now() + make_interval(secs => $2)
          WHERE id = (
-           SELECT id FROM "jobs"
-           WHERE status = 'pending'
-           ORDER BY priority DESC, created_at ASC
+           SELECT id FROM "jobs" j
+           WHERE j.status = 'pending'
+           AND ${READY_CONDITION}
+           ORDER BY j.priority DESC, j.created_at ASC
            LIMIT 1
            FOR UPDATE SKIP LOCKED
          )
          RETURNING *`,
-          [workerId]
+          [workerId, leaseSeconds]
         );
 
     if (result.length === 0) {
       return c.json({ job: null }, 200);
     }
 
+    setAuditBefore(c, { status: "pending" });
     return c.json({ job: formatRawJobRow(result[0] as Record<string, unknown>) });
   })
 
@@ -209,37 +400,88 @@ const jobsApp = new Hono()
       return notFoundError(c, "Job not found or not in 'claimed' status");
     }
 
+    setAuditBefore(c, { status: "claimed" });
     return c.json(formatJob(rows[0]));
   })
 
-  // ---- POST /:id/complete (mark as completed with result) ----
+  // ---- POST /:id/heartbeat (renew the claiming worker's lease) ----
 
-  .post("/:id/complete", async (c) => {
+  .post("/:id/heartbeat", async (c) => {
     const id = parseInt(c.req.param("id"), 10);
     if (isNaN(id)) return validationError(c, "id must be a number");
 
     const body = await parseJsonBody(c);
     if (!body) return invalidJsonError(c);
 
-    const parsed = CompleteJobSchema.safeParse(body);
+    const parsed = HeartbeatJobSchema.safeParse(body);
     if (!parsed.success) return validationError(c, parsed.error.message);
 
+    const { workerId, leaseSeconds } = parsed.data;
     const db = getDrizzleDb();
 
     const rows = await db
       .update(jobs)
-      .set({
-        status: "completed" as JobStatus,
-        result: parsed.data.result ?? null,
-        completedAt: new Date(),
-      })
-      .where(and(eq(jobs.id, id), eq(jobs.status, "running")))
+      .set({ leaseExpiresAt: sql`now() + make_interval(secs => ${leaseSeconds})` })
+      .where(
+        and(
+          eq(jobs.id, id),
+          eq(jobs.workerId, workerId),
+          sql`${jobs.status} IN ('claimed', 'running')`
+        )
+      )
       .returning();
 
+    // The lease was reaped (or the job cancelled) — the worker should stop
+    if (rows.length === 0) {
+      return notFoundError(c, "Job not found or no longer leased to this worker");
+    }
+
+    return c.json(formatJob(rows[0]));
+  })
+
+  // ---- POST /:id/complete (mark as completed with result) ----
+
+  .post("/:id/complete", async (c) => {
+    const id = parseInt(c.req.param("id"), 10);
+    if (isNaN(id)) return validationError(c, "id must be a number");
+
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = CompleteJobSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const db = getDrizzleDb();
+
+    const rows = await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(jobs)
+        .set({
+          status: "completed" as JobStatus,
+          result: parsed.data.result ?? null,
+          completedAt: new Date(),
+          leaseExpiresAt: null,
+        })
+        .where(
+          and(
+            eq(jobs.id, id),
+            eq(jobs.status, "running"),
+            eq(jobs.workerId, parsed.data.workerId),
+            LEASE_HELD
+          )
+        )
+        .returning();
+      if (updated.length > 0) {
+        await emitEvent(tx, "job.completed", { id, type: updated[0].type });
+      }
+      return updated;
+    });
+
     if (rows.length === 0) {
-      return notFoundError(c, "Job not found or not in 'running' status");
+      return rejectFinish(c, id, parsed.data.workerId, ["running"]);
     }
 
+    setAuditBefore(c, { status: "running", workerId: parsed.data.workerId });
     return c.json(formatJob(rows[0]));
   })
 
@@ -257,9 +499,16 @@ const jobsApp = new Hono()
 
     const pgClient = getDb();
 
+    // RETURNING only sees the updated row, so read the prior state for the
+    // audit log first
+    const prior = await getDrizzleDb()
+      .select({ status: jobs.status, retries: jobs.retries })
+      .from(jobs)
+      .where(eq(jobs.id, id));
+
     // Single atomic UPDATE avoids the TOCTOU race between SELECT and UPDATE.
     // The WHERE clause acts as an optimistic lock: only rows in 'running' or
-    // 'claimed' status are updated, and retries/max_retries are read and written
+    // 'claimed' status whose live lease is held by the caller are updated, and retries/max_retries are read and written
     // in the same statement, so concurrent calls cannot double-increment retries.
     //
     // PostgreSQL evaluates all SET expressions against the *pre-update* row values,
@@ -269,43 +518,45 @@ const jobsApp = new Hono()
     // Note: `error = $1` is always written, even on retry (same as the previous
     // two-query implementation). A retried job carries the last failure's error
     // message until it completes or fails permanently.
+    //
+    // A retry is delayed by `retryAfterSeconds` if given, otherwise by an
+    // exponential backoff on the retry count (30s, 1m, 2m, ... capped at 1h).
     const result = await pgClient.unsafe(
       `UPDATE "jobs"
      SET
-       retries      = retries + 1,
-       status       = CASE WHEN (retries + 1) < max_retries THEN 'pending' ELSE 'failed' END,
-       error        = $1,
-       completed_at = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE now() END,
-       claimed_at   = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE claimed_at END,
-       started_at   = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE started_at END,
-       worker_id    = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE worker_id END
+       retries          = retries + 1,
+       status           = CASE WHEN (retries + 1) < max_retries THEN 'pending' ELSE 'failed' END,
+       error            = $1,
+       completed_at     = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE now() END,
+       claimed_at       = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE claimed_at END,
+       started_at       = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE started_at END,
+       worker_id        = CASE WHEN (retries + 1) < max_retries THEN NULL ELSE worker_id END,
+       run_after        = CASE WHEN (retries + 1) < max_retries
+                            THEN now() + make_interval(secs => coalesce($3::int,
+                              least(${RETRY_BASE_SECONDS} * power(2, retries), ${RETRY_MAX_SECONDS})))
+                            ELSE run_after END,
+       lease_expires_at = NULL
      WHERE id = $2
        AND status IN ('running', 'claimed')
+       AND worker_id = $4
+       AND (lease_expires_at IS NULL OR lease_expires_at > now())
      RETURNING *`,
-      [parsed.data.error, id]
+      [parsed.data.error, id, parsed.data.retryAfterSeconds ?? null, parsed.data.workerId]
     );
 
     if (result.length === 0) {
-      // Distinguish "not found" from "wrong status" for accurate error messages.
-      const db = getDrizzleDb();
-      const exists = await db
-        .select({ id: jobs.id, status: jobs.status })
-        .from(jobs)
-        .where(eq(jobs.id, id));
-      if (exists.length === 0) {
-        return notFoundError(c, "Job not found");
-      }
-      return validationError(
-        c,
-        `Job is in '${exists[0].status}' status, expected 'running' or 'claimed'`
-      );
+      return rejectFinish(c, id, parsed.data.workerId, ["running", "claimed"]);
     }
+    if (prior[0]) setAuditBefore(c, { ...prior[0], workerId: parsed.data.workerId });
 
     const row = result[0] as Record<string, unknown>;
     // `retried` is derived from the post-update status returned by RETURNING *.
     const retried = row.status === "pending";
+    const cancelledDependents = retried
+      ? []
+      : await cancelDependents(pgClient, id, `Dependency #${id} failed`);
 
-    return c.json({ ...formatRawJobRow(row), retried });
+    return c.json({ ...formatRawJobRow(row), retried, cancelledDependents });
   })
 
   // ---- POST /:id/cancel (cancel a pending or claimed job) ----
@@ -321,6 +572,7 @@ const jobsApp = new Hono()
       .set({
         status: "cancelled" as JobStatus,
         completedAt: new Date(),
+        leaseExpiresAt: null,
       })
       .where(
         and(
@@ -336,7 +588,60 @@ const jobsApp = new Hono()
         "Job not found or not in 'pending'/'claimed' status"
       );
     }
+    // claimed_at is only set while a job is claimed (retries and reaping clear it)
+    setAuditBefore(c, { status: rows[0].claimedAt ? "claimed" : "pending" });
 
+    const cancelledDependents = await cancelDependents(
+      getDb(),
+      id,
+      `Dependency #${id} was cancelled`
+    );
+
+    return c.json({ ...formatJob(rows[0]), cancelledDependents });
+  })
+
+  // ---- POST /:id/retry (requeue a failed or cancelled job; admin only) ----
+
+  // Unlike /fail, this is not a worker transition: an operator puts a job that
+  // has stopped back in the queue, with a fresh retry budget and no lease.
+  .post("/:id/retry", requireScope("admin"), async (c) => {
+    const id = parseInt(c.req.param("id"), 10);
+    if (isNaN(id)) return validationError(c, "id must be a number");
+
+    const db = getDrizzleDb();
+
+    const prior = await db
+      .select({ status: jobs.status, retries: jobs.retries, dependsOn: jobs.dependsOn })
+      .from(jobs)
+      .where(eq(jobs.id, id));
+    if (prior.length === 0) return notFoundError(c, "Job not found");
+
+    const { status, retries, dependsOn } = prior[0];
+    if (status !== "failed" && status !== "cancelled") {
+      return conflictError(c, `Job is in '${status}' status, expected 'failed' or 'cancelled'`);
+    }
+    const depError = await checkDependencies(db, dependsOn ?? []);
+    if (depError) return conflictError(c, depError);
+
+    const rows = await db
+      .update(jobs)
+      .set({
+        status: "pending" as JobStatus,
+        retries: 0,
+        claimedAt: null,
+        startedAt: null,
+        completedAt: null,
+        workerId: null,
+        runAfter: null,
+        leaseExpiresAt: null,
+      })
+      .where(and(eq(jobs.id, id), sql`${jobs.status} IN ('failed', 'cancelled')`))
+      .returning();
+
+    // Its status changed between the read and the update
+    if (rows.length === 0) return conflictError(c, "Job status changed concurrently; retry the request");
+
+    setAuditBefore(c, { status, retries });
     return c.json(formatJob(rows[0]));
   })
 
@@ -424,6 +729,10 @@ const jobsApp = new Hono()
 
     const db = getDrizzleDb();
 
+    const reaped = await reapExpiredLeases(getDb());
+
+    // Leased jobs are handled by lease expiry above; the claim-age timeout
+    // only applies to jobs claimed without a lease.
     const result = await db
       .update(jobs)
       .set({
@@ -435,14 +744,16 @@ const jobsApp = new Hono()
       .where(
         and(
           sql`${jobs.status} IN ('claimed', 'running')`,
+          sql`${jobs.leaseExpiresAt} IS NULL`,
           sql`${jobs.claimedAt} < now() - (${timeoutMinutes} * interval '1 minute')`
         )
       )
       .returning({ id: jobs.id, type: jobs.type });
 
+    const swept = [...reaped, ...result];
     return c.json({
-      swept: result.length,
-      jobs: result,
+      swept: swept.length,
+      jobs: swept,
     });
   })
 
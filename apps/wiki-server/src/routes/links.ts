@@ -8,6 +8,7 @@ import {
 } from "./utils.js";
 import { SyncLinksBatchSchema } from "../api-types.js";
 import { resolvePageIntId } from "./page-id-helpers.js";
+import { setAuditBefore } from "../audit.js";
 
 // ---- Constants ----
 
@@ -142,7 +143,8 @@ const linksApp = new Hono()
       await tx`SELECT pg_advisory_xact_lock(${PAGE_LINKS_SYNC_LOCK})`;
 
       if (replace) {
-        await tx`DELETE FROM page_links`;
+        const wiped = await tx`DELETE FROM page_links`;
+        setAuditBefore(c, { replacedLinks: wiped.count });
       }
 
       // Batch upsert — on conflict (source, target, type) update weight + relationship
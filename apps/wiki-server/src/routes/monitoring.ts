@@ -20,6 +20,7 @@ import {
   UpdateIncidentSchema,
 } from "../api-types.js";
 import { logger } from "../logger.js";
+import { emitEvent } from "../events.js";
 
 // Static service registry — no DB table needed.
 // Only includes services with actual health check wiring.
@@ -279,20 +280,28 @@ const monitoringApp = new Hono()
       return c.json(firstOrThrow(updated, "incident dedup update"), 200);
     }
 
-    const inserted = await db
-      .insert(serviceHealthIncidents)
-      .values({
-        service: d.service,
-        severity: d.severity,
-        title: d.title,
-        detail: d.detail ?? null,
-        checkSource: d.checkSource ?? null,
-        metadata: d.metadata ?? null,
-        githubIssueNumber: d.githubIssueNumber ?? null,
-      })
-      .returning();
-
-    const incident = firstOrThrow(inserted, "incident insert");
+    const incident = await db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(serviceHealthIncidents)
+        .values({
+          service: d.service,
+          severity: d.severity,
+          title: d.title,
+          detail: d.detail ?? null,
+          checkSource: d.checkSource ?? null,
+          metadata: d.metadata ?? null,
+          githubIssueNumber: d.githubIssueNumber ?? null,
+        })
+        .returning();
+      const row = firstOrThrow(inserted, "incident insert");
+      await emitEvent(tx, "incident.opened", {
+        id: row.id,
+        service: row.service,
+        severity: row.severity,
+        title: row.title,
+      });
+      return row;
+    });
 
     // Note: Previously created a "monitoring-alert" job for critical incidents,
     // but no job handler exists for this type — every such job permanently failed
@@ -0,0 +1,136 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { createHash } from "node:crypto";
+import { eq, desc, count } from "drizzle-orm";
+import { getDrizzleDb } from "../db.js";
+import { pageRevisions } from "../schema.js";
+import { CreatePageRevisionSchema } from "../api-types.js";
+import {
+  parseJsonBody,
+  validationError,
+  invalidJsonError,
+  notFoundError,
+  firstOrThrow,
+} from "./utils.js";
+import { resolvePageIntId } from "./page-id-helpers.js";
+
+// ---- Constants ----
+
+const MAX_PAGE_SIZE = 200;
+
+const ByPageQuery = z.object({
+  page_id: z.string().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ---- Helpers ----
+
+function contentHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Revision list columns — everything except the content and jsonb diff payloads. */
+const revisionSummaryColumns = {
+  id: pageRevisions.id,
+  agent: pageRevisions.agent,
+  tier: pageRevisions.tier,
+  hashBefore: pageRevisions.hashBefore,
+  hashAfter: pageRevisions.hashAfter,
+  claimsAdded: pageRevisions.claimsAdded,
+  claimsRemoved: pageRevisions.claimsRemoved,
+  claimsChanged: pageRevisions.claimsChanged,
+  contradictionCount: pageRevisions.contradictionCount,
+  assessment: pageRevisions.assessment,
+  createdAt: pageRevisions.createdAt,
+};
+
+const pageRevisionsApp = new Hono()
+  // ---- POST / (record a revision) ----
+  .post("/", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = CreatePageRevisionSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const d = parsed.data;
+    const db = getDrizzleDb();
+
+    const pageIdInt = await resolvePageIntId(db, d.pageId);
+    if (pageIdInt === null) return notFoundError(c, `Page not found: ${d.pageId}`);
+
+    const rows = await db
+      .insert(pageRevisions)
+      .values({
+        pageIdInt,
+        agent: d.agent,
+        tier: d.tier ?? null,
+        contentBefore: d.contentBefore,
+        contentAfter: d.contentAfter,
+        hashBefore: contentHash(d.contentBefore),
+        hashAfter: contentHash(d.contentAfter),
+        claimsAdded: d.claimDiff.summary.added,
+        claimsRemoved: d.claimDiff.summary.removed,
+        claimsChanged: d.claimDiff.summary.changed,
+        contradictionCount: d.contradictions.contradictions.length,
+        assessment: d.assessment,
+        issues: d.issues ?? null,
+        claimDiff: d.claimDiff,
+        contradictions: d.contradictions,
+      })
+      .returning({
+        id: pageRevisions.id,
+        hashAfter: pageRevisions.hashAfter,
+        createdAt: pageRevisions.createdAt,
+      });
+
+    const row = firstOrThrow(rows, "page revision insert");
+    return c.json({ ...row, pageId: d.pageId }, 201);
+  })
+
+  // ---- GET /?page_id=X&limit=N&offset=M (revision list, newest first) ----
+  .get("/", async (c) => {
+    const parsed = ByPageQuery.safeParse(c.req.query());
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const { page_id, limit, offset } = parsed.data;
+    const db = getDrizzleDb();
+
+    const intId = await resolvePageIntId(db, page_id);
+    if (intId === null) return c.json({ pageId: page_id, revisions: [], total: 0 });
+
+    const rows = await db
+      .select(revisionSummaryColumns)
+      .from(pageRevisions)
+      .where(eq(pageRevisions.pageIdInt, intId))
+      .orderBy(desc(pageRevisions.createdAt), desc(pageRevisions.id))
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await db
+      .select({ count: count() })
+      .from(pageRevisions)
+      .where(eq(pageRevisions.pageIdInt, intId));
+
+    return c.json({ pageId: page_id, revisions: rows, total: countResult[0]?.count ?? 0 });
+  })
+
+  // ---- GET /:id (full revision with content and diffs) ----
+  .get("/:id", async (c) => {
+    const id = parseInt(c.req.param("id"), 10);
+    if (isNaN(id)) return validationError(c, "id must be a number");
+
+    const db = getDrizzleDb();
+    const rows = await db
+      .select()
+      .from(pageRevisions)
+      .where(eq(pageRevisions.id, id));
+
+    if (rows.length === 0) return notFoundError(c, "Revision not found");
+
+    return c.json(rows[0]);
+  });
+
+export const pageRevisionsRoute = pageRevisionsApp;
+export type PageRevisionsRoute = typeof pageRevisionsApp;
@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { eq, or, and, count, asc, sql } from "drizzle-orm";
+import { eq, or, and, count, asc, sql, getTableColumns } from "drizzle-orm";
 import { getDrizzleDb, getDb } from "../db.js";
 import { wikiPages, entityIds } from "../schema.js";
 import {
@@ -14,6 +14,7 @@ import {
 import {
   SyncPageSchema as SharedSyncPageSchema,
   SyncPagesBatchSchema,
+  StoreEmbeddingsBatchSchema,
 } from "../api-types.js";
 import {
   buildPrefixTsquery,
@@ -21,8 +22,21 @@ import {
   TRIGRAM_SIMILARITY_THRESHOLD,
   TRIGRAM_FALLBACK_THRESHOLD,
   TS_HEADLINE_OPTIONS,
+  HYBRID_CANDIDATES,
+  VECTOR_SIMILARITY_THRESHOLD,
+  hybridScore,
 } from "../search-utils.js";
+import { getEmbeddingProvider } from "../embeddings.js";
+import { logger } from "../logger.js";
+import {
+  loadEmbeddingIndex,
+  invalidateEmbeddingIndex,
+  nearestPages,
+  pageSimilarity,
+} from "../embedding-index.js";
 import { allocateAndResolvePageIntIds } from "./page-id-helpers.js";
+import { setAuditBefore, setAuditBeforeExisting } from "../audit.js";
+import { emitEvent, eventIds } from "../events.js";
 
 // ---- Raw SQL row types ----
 
@@ -40,6 +54,17 @@ interface PageSearchRow {
   snippet: string | null;
 }
 
+/** Row shape for hybrid candidates: FTS rank and title boost kept separate. */
+interface HybridCandidateRow extends Omit<PageSearchRow, "rank"> {
+  fts_rank: number;
+  title_boost: number;
+}
+
+/** A search result row plus its fused score and vector similarity. */
+interface HybridResult extends PageSearchRow {
+  similarity: number;
+}
+
 // ---- Constants ----
 
 const MAX_PAGE_SIZE = 200;
@@ -53,6 +78,8 @@ export const SyncBatchSchema = SyncPagesBatchSchema;
 const SearchQuery = z.object({
   q: z.string().min(1).max(500),
   limit: z.coerce.number().int().min(1).max(100).default(20),
+  /** "fts" (default): full-text + trigram fallback; "hybrid": fused with embeddings */
+  mode: z.enum(["fts", "hybrid"]).default("fts"),
 });
 
 const PaginationQuery = paginationQuery({ maxLimit: MAX_PAGE_SIZE }).extend({
@@ -60,13 +87,124 @@ const PaginationQuery = paginationQuery({ maxLimit: MAX_PAGE_SIZE }).extend({
   entityType: z.string().max(100).optional(),
 });
 
+// Every column except the embedding vector, which is only read by search
+const { embedding: _embedding, ...pageColumns } = getTableColumns(wikiPages);
+
+// ---- Hybrid search ----
+
+/**
+ * Hybrid search: fuse FTS rank, title boost, and embedding similarity.
+ *
+ * Candidates are the top HYBRID_CANDIDATES pages from FTS plus the top
+ * HYBRID_CANDIDATES by vector similarity, so pages FTS misses can still
+ * surface, including conceptual matches with no shared words (see
+ * embeddings.ts). Returns null when no embeddings are stored for the active
+ * model, or the model cannot be loaded (caller falls back to FTS).
+ */
+async function hybridSearch(q: string, limit: number): Promise<HybridResult[] | null> {
+  const provider = getEmbeddingProvider();
+  const index = await loadEmbeddingIndex(provider.model);
+  if (index.size === 0) return null;
+
+  let queryVector: number[];
+  try {
+    [queryVector] = await provider.embed([q]);
+  } catch (err) {
+    logger.warn({ err, model: provider.model }, "Query embedding failed — falling back to FTS");
+    return null;
+  }
+  const rawDb = getDb();
+  /** Shared select list; `queryRef` is the parameter holding the raw query. */
+  const columns = (queryRef: string) => `id, numeric_id, title, description, entity_type, category,
+        reader_importance, quality, ${titleMatchBoostExpr("title", queryRef)} AS title_boost`;
+
+  const prefixQuery = buildPrefixTsquery(q);
+  const ftsRows = prefixQuery
+    ? await rawDb.unsafe<HybridCandidateRow[]>(
+        `SELECT ${columns("$3")},
+        ts_rank_cd(search_vector, to_tsquery('english', $1), 1) AS fts_rank,
+        ts_headline('english', coalesce(description, ''),
+          to_tsquery('english', $1),
+          '${TS_HEADLINE_OPTIONS}'
+        ) AS snippet
+      FROM wiki_pages
+      WHERE search_vector @@ to_tsquery('english', $1)
+        AND numeric_id IS NOT NULL
+      ORDER BY fts_rank DESC
+      LIMIT $2`,
+        [prefixQuery, HYBRID_CANDIDATES, q],
+      )
+    : [];
+
+  const seen = new Set(ftsRows.map((r) => r.id));
+  const vectorIds = nearestPages(index, queryVector, HYBRID_CANDIDATES, VECTOR_SIMILARITY_THRESHOLD)
+    .map((n) => n.id)
+    .filter((id) => !seen.has(id));
+
+  const vectorRows =
+    vectorIds.length > 0
+      ? await rawDb.unsafe<HybridCandidateRow[]>(
+          `SELECT ${columns("$2")}, 0 AS fts_rank, description AS snippet
+      FROM wiki_pages
+      WHERE id = ANY($1::text[])
+        AND numeric_id IS NOT NULL`,
+          [vectorIds, q],
+        )
+      : [];
+
+  const candidates = [...ftsRows, ...vectorRows];
+  const maxFtsRank = Math.max(0, ...candidates.map((r) => Number(r.fts_rank)));
+
+  return candidates
+    .map(({ fts_rank, title_boost, ...row }) => {
+      const similarity = pageSimilarity(index, row.id, queryVector);
+      return {
+        ...row,
+        similarity,
+        rank: hybridScore(Number(fts_rank), maxFtsRank, Number(title_boost), similarity),
+      };
+    })
+    .sort((a, b) => b.rank - a.rank || (b.reader_importance ?? -1) - (a.reader_importance ?? -1))
+    .slice(0, limit);
+}
+
+function formatSearchResult(r: PageSearchRow & { similarity?: number }) {
+  return {
+    id: r.id,
+    numericId: r.numeric_id,
+    title: r.title,
+    description: r.description,
+    entityType: r.entity_type,
+    category: r.category,
+    readerImportance: r.reader_importance,
+    quality: r.quality,
+    score: parseFloat(String(r.rank)),
+    ...(r.similarity !== undefined && { similarity: r.similarity }),
+    snippet: r.snippet || null,
+  };
+}
+
 const pagesApp = new Hono()
-  // ---- GET /search?q=...&limit=20 ----
+  // ---- GET /search?q=...&limit=20&mode=fts|hybrid ----
   .get("/search", async (c) => {
     const parsed = SearchQuery.safeParse(c.req.query());
     if (!parsed.success) return validationError(c, parsed.error.message);
 
-    const { q, limit } = parsed.data;
+    const { q, limit, mode } = parsed.data;
+
+    if (mode === "hybrid") {
+      const hybrid = await hybridSearch(q, limit);
+      if (hybrid) {
+        return c.json({
+          results: hybrid.map(formatSearchResult),
+          query: q,
+          total: hybrid.length,
+          mode: "hybrid" as const,
+        });
+      }
+      // No usable embeddings — fall through to plain FTS
+    }
+
     const rawDb = getDb();
 
     // Phase 1: Prefix search with to_tsquery — supports search-as-you-type.
@@ -118,20 +256,10 @@ const pagesApp = new Hono()
     }
 
     return c.json({
-      results: results.map((r) => ({
-        id: r.id,
-        numericId: r.numeric_id,
-        title: r.title,
-        description: r.description,
-        entityType: r.entity_type,
-        category: r.category,
-        readerImportance: r.reader_importance,
-        quality: r.quality,
-        score: parseFloat(String(r.rank)),
-        snippet: r.snippet || null,
-      })),
+      results: results.map(formatSearchResult),
       query: q,
       total: results.length,
+      mode: "fts" as const,
     });
   })
 
@@ -161,7 +289,7 @@ const pagesApp = new Hono()
     // Look up by resolved slug, original ID as slug, or legacy numericId column
     const lookupSlug = resolvedSlug || id;
     const rows = await db
-      .select()
+      .select(pageColumns)
       .from(wikiPages)
       .where(or(eq(wikiPages.id, lookupSlug), eq(wikiPages.numericId, id)));
 
@@ -256,14 +384,19 @@ const pagesApp = new Hono()
 
     const db = getDrizzleDb();
 
-    const deleted = await db
-      .delete(wikiPages)
-      .where(eq(wikiPages.id, id))
-      .returning({ id: wikiPages.id });
+    const deleted = await db.transaction(async (tx) => {
+      const rows = await tx
+        .delete(wikiPages)
+        .where(eq(wikiPages.id, id))
+        .returning({ id: wikiPages.id, title: wikiPages.title, category: wikiPages.category });
+      if (rows.length > 0) await emitEvent(tx, "page.deleted", { id });
+      return rows;
+    });
 
     if (deleted.length === 0) {
       return notFoundError(c, `No page found for id: ${id}`);
     }
+    setAuditBefore(c, deleted[0]);
 
     return c.json({ deleted: deleted.length });
   })
@@ -283,6 +416,8 @@ const pagesApp = new Hono()
 
     const pageIds = pages.map((p) => p.id);
 
+    await setAuditBeforeExisting(c, wikiPages, wikiPages.id, pageIds);
+
     try {
      await db.transaction(async (tx) => {
       // Phase 4a: auto-allocate entity_ids for all page slugs and resolve to integer IDs
@@ -369,12 +504,47 @@ const pagesApp = new Hono()
           setweight(to_tsvector('english', coalesce(entity_type, '')), 'D')
         WHERE id IN (${idList})
       `);
+
+      await emitEvent(tx, "page.synced", {
+        pageIds: eventIds(pageIds),
+        count: pageIds.length,
+        syncedFromBranch: syncedFromBranch ?? null,
+        syncedFromCommit: syncedFromCommit ?? null,
+      });
     });
     } catch (err) {
       return dbError(c, "pages sync", err, { pageCount: pages.length });
     }
 
     return c.json({ upserted });
+  })
+
+  // ---- POST /embeddings (store page vectors computed by the crux pipeline) ----
+
+  .post("/embeddings", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = StoreEmbeddingsBatchSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const { model, items } = parsed.data;
+    const db = getDrizzleDb();
+    const missing: string[] = [];
+
+    await db.transaction(async (tx) => {
+      for (const item of items) {
+        const rows = await tx
+          .update(wikiPages)
+          .set({ embedding: item.embedding, embeddingModel: model })
+          .where(eq(wikiPages.id, item.id))
+          .returning({ id: wikiPages.id });
+        if (rows.length === 0) missing.push(item.id);
+      }
+    });
+
+    invalidateEmbeddingIndex();
+    return c.json({ updated: items.length - missing.length, missing });
   });
 
 export const pagesRoute = pagesApp;
@@ -13,6 +13,7 @@ import {
   VALID_RECORD_TYPES,
   VALID_VERIFICATION_VERDICTS,
 } from "../api-types.js";
+import { setAuditBefore } from "../audit.js";
 
 // ---- Constants ----
 
@@ -372,6 +373,18 @@ const recordVerificationsApp = new Hono()
     const db = getDrizzleDb();
     const now = new Date();
 
+    const previous = await db
+      .select({ verdict: recordVerdicts.verdict, confidence: recordVerdicts.confidence })
+      .from(recordVerdicts)
+      .where(
+        and(
+          eq(recordVerdicts.recordType, body.recordType),
+          eq(recordVerdicts.recordId, body.recordId),
+        ),
+      )
+      .limit(1);
+    setAuditBefore(c, previous[0] ?? { verdict: null });
+
     await db
       .insert(recordVerdicts)
       .values({
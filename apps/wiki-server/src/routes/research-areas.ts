@@ -18,6 +18,7 @@ import {
   grantResearchAreas,
   grants,
 } from "../schema.js";
+import { setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -396,6 +397,13 @@ const researchAreasApp = new Hono()
     const now = new Date();
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      researchAreas,
+      researchAreas.id,
+      parsed.data.items.map((i) => i.id)
+    );
+
     await db.transaction(async (tx) => {
       for (const item of parsed.data.items) {
         await tx
@@ -473,6 +481,13 @@ const researchAreasApp = new Hono()
     const db = getDrizzleDb();
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      researchAreaOrganizations,
+      researchAreaOrganizations.researchAreaId,
+      parsed.data.items.map((i) => i.researchAreaId)
+    );
+
     await db.transaction(async (tx) => {
       for (const item of parsed.data.items) {
         await tx
@@ -524,6 +539,13 @@ const researchAreasApp = new Hono()
       byArea.set(item.researchAreaId, existing);
     }
 
+    await setAuditBeforeExisting(
+      c,
+      researchAreaPapers,
+      researchAreaPapers.researchAreaId,
+      [...byArea.keys()]
+    );
+
     await db.transaction(async (tx) => {
       // Delete existing papers for each area being synced, then insert fresh
       for (const [areaId, items] of byArea) {
@@ -572,6 +594,13 @@ const researchAreasApp = new Hono()
     const now = new Date();
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      grantResearchAreas,
+      grantResearchAreas.grantId,
+      items.map((i) => i.grantId)
+    );
+
     // Process in chunks to avoid too-large SQL statements
     const CHUNK_SIZE = 500;
     for (let i = 0; i < items.length; i += CHUNK_SIZE) {
@@ -650,6 +679,13 @@ const researchAreasApp = new Hono()
     const db = getDrizzleDb();
     let upserted = 0;
 
+    await setAuditBeforeExisting(
+      c,
+      researchAreaRisks,
+      researchAreaRisks.researchAreaId,
+      parsed.data.items.map((i) => i.researchAreaId)
+    );
+
     await db.transaction(async (tx) => {
       for (const item of parsed.data.items) {
         await tx
@@ -0,0 +1,377 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { getDb } from "../db.js";
+import {
+  buildPrefixTsquery,
+  titleMatchBoostExpr,
+  hybridTitleBonusExpr,
+  bandExpr,
+  updatedBucketExpr,
+  QUALITY_BANDS,
+  IMPORTANCE_BANDS,
+  UPDATED_BUCKETS,
+} from "../search-utils.js";
+import { escapeIlike, zv } from "./utils.js";
+
+/**
+ * Faceted search across every object kind (pages, entities, facts,
+ * resources).
+ *
+ * Each kind is searched with its own best method — FTS for pages and
+ * resources, ILIKE for entities and facts. The facet filters run in each
+ * kind's SQL, and `total` and the facet counts are aggregated in SQL over
+ * every match, so they describe the whole table rather than a candidate
+ * slice. Only the ranked page of results is limited.
+ *
+ * Facet counts follow the usual convention: each facet is counted with
+ * every *other* active filter applied, so selecting "Risk" still shows how
+ * many results the other entity types would give.
+ */
+
+// ---- Constants ----
+
+export const SEARCH_KINDS = ["page", "entity", "fact", "resource"] as const;
+export type SearchKind = (typeof SEARCH_KINDS)[number];
+
+/**
+ * Relevance ranks are normalized within each kind, so these weights decide
+ * how kinds interleave: wiki pages first, then the records they describe.
+ */
+const KIND_WEIGHTS: Record<SearchKind, number> = {
+  page: 1,
+  entity: 0.9,
+  resource: 0.8,
+  fact: 0.7,
+};
+
+// ---- Query schema ----
+
+const bandKey = (bands: readonly { key: string }[]) =>
+  z.enum(bands.map((b) => b.key) as [string, ...string[]]);
+
+const SearchQuery = z.object({
+  q: z.string().min(1).max(500),
+  kind: z.enum(SEARCH_KINDS).optional(),
+  entity_type: z.string().max(100).optional(),
+  category: z.string().max(100).optional(),
+  quality: bandKey(QUALITY_BANDS).optional(),
+  importance: bandKey(IMPORTANCE_BANDS).optional(),
+  updated: bandKey(UPDATED_BUCKETS).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ---- Types ----
+
+/** Row shape of the ranked results query. */
+interface ResultRow {
+  kind: SearchKind;
+  id: string;
+  numeric_id: string | null;
+  title: string;
+  description: string | null;
+  entity_type: string | null;
+  category: string | null;
+  quality: number | null;
+  reader_importance: number | null;
+  updated: string | null;
+  url: string | null;
+  entity_id: string | null;
+  score: number | string;
+}
+
+/** Row shape of the facet query: one row per (facet, value), plus "total". */
+interface FacetRow {
+  facet: FacetName | "total";
+  value: string | null;
+  count: number | string;
+}
+
+interface SearchHit {
+  kind: SearchKind;
+  id: string;
+  numericId: string | null;
+  title: string;
+  description: string | null;
+  entityType: string | null;
+  category: string | null;
+  quality: number | null;
+  readerImportance: number | null;
+  /** Content date if known (pages, entities), else last sync date. */
+  updated: string | null;
+  /** Source URL (resources only). */
+  url: string | null;
+  /** Owning entity slug (facts only). */
+  entityId: string | null;
+  score: number;
+}
+
+type FacetName = "kind" | "entityType" | "category" | "quality" | "importance" | "updated";
+
+type Filters = Partial<Record<FacetName, string>>;
+
+/** The column each facet is filtered and grouped on (see facetedMatches()). */
+const FACET_COLUMNS: Record<FacetName, string> = {
+  kind: "kind",
+  entityType: "entity_type",
+  category: "category",
+  quality: "quality_band",
+  importance: "importance_band",
+  updated: "updated_bucket",
+};
+
+/** Response key for each facet's counts. */
+const FACET_KEYS: Record<FacetName, string> = {
+  kind: "kinds",
+  entityType: "entityTypes",
+  category: "categories",
+  quality: "qualityBands",
+  importance: "importanceBands",
+  updated: "updated",
+};
+
+// ---- Match queries ----
+
+/** SQL parameter type compatible with postgres.js unsafe() */
+type SqlParam = string | number;
+
+/** Adds a bind parameter and returns its placeholder ("$n"). */
+type Param = (value: SqlParam) => string;
+
+/** Placeholder factory that reuses one placeholder per distinct value. */
+function paramList(): { values: SqlParam[]; param: Param } {
+  const values: SqlParam[] = [];
+  const refs = new Map<SqlParam, string>();
+  const param: Param = (value) => {
+    let ref = refs.get(value);
+    if (!ref) {
+      values.push(value);
+      ref = `$${values.length}`;
+      refs.set(value, ref);
+    }
+    return ref;
+  };
+  return { values, param };
+}
+
+const UPDATED_DATE = (col: string) => `to_char(${col}, 'YYYY-MM-DD')`;
+
+/** Per-kind match SQL, given placeholders for the search term and raw query. */
+const KIND_MATCHES: Record<SearchKind, (term: string, q: string) => string> = {
+  page: (tsquery, q) => `
+    SELECT id, numeric_id, title, description, entity_type, category,
+      quality, reader_importance,
+      COALESCE(last_updated, ${UPDATED_DATE("updated_at")}) AS updated,
+      NULL AS url, NULL AS entity_id,
+      ts_rank_cd(search_vector, to_tsquery('english', ${tsquery}), 1)::float8 AS rank,
+      ${titleMatchBoostExpr("title", q)} AS title_boost
+    FROM wiki_pages
+    WHERE search_vector @@ to_tsquery('english', ${tsquery})`,
+
+  entity: (pattern, q) => `
+    SELECT id, numeric_id, title, description, entity_type, NULL AS category,
+      NULL::int AS quality, NULL::int AS reader_importance,
+      COALESCE(last_updated, ${UPDATED_DATE("updated_at")}) AS updated,
+      NULL AS url, NULL AS entity_id,
+      CASE WHEN title ILIKE ${pattern} THEN 1 ELSE 0.5 END::float8 AS rank,
+      ${titleMatchBoostExpr("title", q)} AS title_boost
+    FROM entities
+    WHERE title ILIKE ${pattern} OR id ILIKE ${pattern} OR description ILIKE ${pattern}`,
+
+  fact: (pattern, q) => `
+    SELECT f.fact_id AS id, NULL AS numeric_id,
+      COALESCE(f.label, f.fact_id) AS title, f.value AS description,
+      e.entity_type, NULL AS category,
+      NULL::int AS quality, NULL::int AS reader_importance,
+      ${UPDATED_DATE("f.updated_at")} AS updated,
+      f.source AS url, e.id AS entity_id,
+      CASE WHEN f.label ILIKE ${pattern} THEN 1 ELSE 0.5 END::float8 AS rank,
+      ${titleMatchBoostExpr("COALESCE(f.label, f.fact_id)", q)} AS title_boost
+    FROM facts f
+    JOIN entities e ON e.stable_id = f.entity_id
+    WHERE f.label ILIKE ${pattern} OR f.value ILIKE ${pattern}
+      OR f.note ILIKE ${pattern} OR f.measure ILIKE ${pattern}`,
+
+  resource: (tsquery, q) => `
+    SELECT id, NULL AS numeric_id, COALESCE(title, url) AS title,
+      summary AS description, NULL AS entity_type, NULL AS category,
+      NULL::int AS quality, NULL::int AS reader_importance,
+      COALESCE(published_date::text, ${UPDATED_DATE("updated_at")}) AS updated,
+      url, NULL AS entity_id,
+      ts_rank_cd(search_vector, to_tsquery('english', ${tsquery}), 1)::float8 AS rank,
+      ${titleMatchBoostExpr("COALESCE(title, url)", q)} AS title_boost
+    FROM resources
+    WHERE search_vector @@ to_tsquery('english', ${tsquery})`,
+};
+
+/** AND of every active filter except `skip`, as a WHERE condition. */
+function filterCondition(filters: Filters, param: Param, skip?: FacetName): string {
+  const predicates = (Object.keys(filters) as FacetName[])
+    .filter((name) => name !== skip)
+    .map((name) => `${FACET_COLUMNS[name]} = ${param(filters[name]!)}`);
+  return predicates.length > 0 ? predicates.join(" AND ") : "TRUE";
+}
+
+/** FTS kinds match on the prefix tsquery; the rest on an ILIKE pattern. */
+const FTS_KINDS = new Set<SearchKind>(["page", "resource"]);
+
+/**
+ * One kind's matches with its facet columns (kind, weight, quality_band,
+ * importance_band, updated_bucket), narrowed by `filters` in the kind's own
+ * WHERE clause. Returns null when the kind cannot match: no usable tsquery,
+ * or a kind filter for another kind.
+ */
+function facetedMatches(
+  kind: SearchKind,
+  q: string,
+  filters: Filters,
+  param: Param,
+  now: Date
+): string | null {
+  if (filters.kind && filters.kind !== kind) return null;
+
+  let term: string;
+  if (FTS_KINDS.has(kind)) {
+    const tsquery = buildPrefixTsquery(q);
+    if (!tsquery) return null;
+    term = param(tsquery);
+  } else {
+    term = param(`%${escapeIlike(q)}%`);
+  }
+
+  return `
+    SELECT * FROM (
+      SELECT '${kind}'::text AS kind, ${KIND_WEIGHTS[kind]}::float8 AS weight, m.*,
+        ${bandExpr("m.quality", QUALITY_BANDS)} AS quality_band,
+        ${bandExpr("m.reader_importance", IMPORTANCE_BANDS)} AS importance_band,
+        ${updatedBucketExpr("m.updated", now)} AS updated_bucket
+      FROM (${KIND_MATCHES[kind](term, param(q))}) m
+    ) k
+    WHERE ${filterCondition(filters, param, "kind")}`;
+}
+
+/** UNION ALL of every kind's faceted matches, or null if no kind can match. */
+function allMatches(q: string, filters: Filters, param: Param, now: Date): string | null {
+  const parts = SEARCH_KINDS.map((kind) => facetedMatches(kind, q, filters, param, now)).filter(
+    (sql): sql is string => sql !== null
+  );
+  return parts.length > 0 ? parts.join("\n  UNION ALL") : null;
+}
+
+/**
+ * Ranked page of results. Relevance ranks are normalized against the best
+ * match of the same kind, then weighted by kind and given the title bonus.
+ */
+async function fetchResults(
+  q: string,
+  filters: Filters,
+  limit: number,
+  offset: number,
+  now: Date
+): Promise<SearchHit[]> {
+  const { values, param } = paramList();
+  const matches = allMatches(q, filters, param, now);
+  if (!matches) return [];
+
+  const rows = await getDb().unsafe<ResultRow[]>(
+    `SELECT kind, id, numeric_id, title, description, entity_type, category,
+      quality, reader_importance, updated, url, entity_id,
+      weight * COALESCE(rank / NULLIF(MAX(rank) OVER (PARTITION BY kind), 0), 0)
+        + ${hybridTitleBonusExpr("title_boost")} AS score
+    FROM (${matches}) matches
+    ORDER BY score DESC, title, kind, id
+    LIMIT ${param(limit)} OFFSET ${param(offset)}`,
+    values
+  );
+
+  return rows.map((r) => ({
+    kind: r.kind,
+    id: r.id,
+    numericId: r.numeric_id,
+    title: r.title,
+    description: r.description,
+    entityType: r.entity_type,
+    category: r.category,
+    quality: r.quality,
+    readerImportance: r.reader_importance,
+    updated: r.updated,
+    url: r.url,
+    entityId: r.entity_id,
+    score: Number(r.score),
+  }));
+}
+
+// ---- Faceting ----
+
+/**
+ * Total and per-facet counts over every match, each facet counted with the
+ * other active filters applied.
+ */
+async function fetchFacets(
+  q: string,
+  filters: Filters,
+  now: Date
+): Promise<{ total: number; facets: Record<string, Record<string, number>> }> {
+  const facets = Object.fromEntries(
+    Object.values(FACET_KEYS).map((key) => [key, {} as Record<string, number>])
+  );
+
+  const { values, param } = paramList();
+  const matches = allMatches(q, {}, param, now);
+  if (!matches) return { total: 0, facets };
+
+  const counts = (Object.keys(FACET_COLUMNS) as FacetName[]).map((name) => {
+    const column = FACET_COLUMNS[name];
+    return `
+    SELECT '${name}' AS facet, ${column} AS value, COUNT(*) AS count
+    FROM matches
+    WHERE ${column} IS NOT NULL AND ${filterCondition(filters, param, name)}
+    GROUP BY ${column}`;
+  });
+
+  const rows = await getDb().unsafe<FacetRow[]>(
+    `WITH matches AS (${matches})
+    SELECT 'total' AS facet, NULL AS value, COUNT(*) AS count
+    FROM matches
+    WHERE ${filterCondition(filters, param)}
+    UNION ALL${counts.join("\n    UNION ALL")}`,
+    values
+  );
+
+  let total = 0;
+  for (const row of rows) {
+    if (row.facet === "total") total = Number(row.count);
+    else if (row.value != null) facets[FACET_KEYS[row.facet]][row.value] = Number(row.count);
+  }
+  return { total, facets };
+}
+
+// ---- Route definition ----
+
+const searchApp = new Hono()
+
+  // ---- GET /?q=...&kind=&entity_type=&category=&quality=&importance=&updated= ----
+
+  .get("/", zv("query", SearchQuery), async (c) => {
+    const { q, kind, entity_type, category, quality, importance, updated, limit, offset } =
+      c.req.valid("query");
+
+    const filters: Filters = {};
+    if (kind) filters.kind = kind;
+    if (entity_type) filters.entityType = entity_type;
+    if (category) filters.category = category;
+    if (quality) filters.quality = quality;
+    if (importance) filters.importance = importance;
+    if (updated) filters.updated = updated;
+
+    const now = new Date();
+    const [results, { total, facets }] = await Promise.all([
+      fetchResults(q, filters, limit, offset, now),
+      fetchFacets(q, filters, now),
+    ]);
+
+    return c.json({ query: q, results, total, limit, offset, facets });
+  });
+
+export const searchRoute = searchApp;
+export type SearchRoute = typeof searchApp;
@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { eq, count, sql, desc, asc } from "drizzle-orm";
+import { eq, count, sql, desc, asc, getTableColumns } from "drizzle-orm";
 import { getDrizzleDb } from "../db.js";
 import { summaries } from "../schema.js";
 import { resolveEntityStableId } from "./entity-resolution.js";
@@ -15,7 +15,9 @@ import {
 import {
   UpsertSummarySchema as SharedUpsertSummarySchema,
   UpsertSummaryBatchSchema,
+  StoreEmbeddingsBatchSchema,
 } from "../api-types.js";
+import { invalidateEmbeddingIndex } from "../embedding-index.js";
 
 // ---- Constants ----
 
@@ -30,6 +32,9 @@ const PaginationQuery = paginationQuery({ maxLimit: MAX_PAGE_SIZE }).extend({
   entityType: z.string().max(100).optional(),
 });
 
+// Every column except the embedding vector, which is only read by search
+const { embedding: _embedding, ...summaryColumns } = getTableColumns(summaries);
+
 // ---- Helpers ----
 
 type SummaryInput = z.infer<typeof UpsertSummarySchema>;
@@ -48,7 +53,7 @@ function summaryValues(d: SummaryInput, resolvedEntityId: string) {
   };
 }
 
-function formatSummary(r: typeof summaries.$inferSelect) {
+function formatSummary(r: Omit<typeof summaries.$inferSelect, "embedding">) {
   return {
     entityId: r.entityId,
     entityType: r.entityType,
@@ -171,6 +176,36 @@ const summariesApp = new Hono()
     return c.json({ upserted: results.length, results }, 201);
   })
 
+  // ---- POST /embeddings (store summary vectors computed by the crux pipeline) ----
+  .post("/embeddings", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = StoreEmbeddingsBatchSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const { model, items } = parsed.data;
+    const db = getDrizzleDb();
+    const missing: string[] = [];
+
+    await db.transaction(async (tx) => {
+      for (const item of items) {
+        const stableId = await resolveEntityStableId(tx, item.id);
+        const rows = stableId
+          ? await tx
+              .update(summaries)
+              .set({ embedding: item.embedding, embeddingModel: model })
+              .where(eq(summaries.entityId, stableId))
+              .returning({ entityId: summaries.entityId })
+          : [];
+        if (rows.length === 0) missing.push(item.id);
+      }
+    });
+
+    invalidateEmbeddingIndex();
+    return c.json({ updated: items.length - missing.length, missing });
+  })
+
   // ---- GET /stats ----
   .get("/stats", async (c) => {
     const db = getDrizzleDb();
@@ -220,7 +255,7 @@ const summariesApp = new Hono()
       : undefined;
 
     const rows = await db
-      .select()
+      .select(summaryColumns)
       .from(summaries)
       .where(conditions)
       .orderBy(asc(summaries.entityId))
@@ -251,7 +286,7 @@ const summariesApp = new Hono()
     const lookupId = stableId ?? rawId;
 
     const rows = await db
-      .select()
+      .select(summaryColumns)
       .from(summaries)
       .where(eq(summaries.entityId, lookupId))
       .limit(1);
@@ -21,6 +21,7 @@ import {
   invalidJsonError,
   escapeIlike,
 } from "./utils.js";
+import { setAuditBefore, setAuditBeforeExisting } from "../audit.js";
 
 // ---- Constants ----
 
@@ -432,9 +433,9 @@ const thingsApp = new Hono()
     const data = parsed.data;
     const db = getDrizzleDb();
 
-    // Verify the thing exists
+    // Verify the thing exists; its denormalized verdict is the audit "before"
     const thingRows = await db
-      .select({ id: things.id })
+      .select({ id: things.id, verdict: things.verdict, confidence: things.verdictConfidence })
       .from(things)
       .where(eq(things.id, data.thingId))
       .limit(1);
@@ -444,6 +445,7 @@ const thingsApp = new Hono()
         404
       );
     }
+    setAuditBefore(c, { verdict: thingRows[0].verdict, confidence: thingRows[0].confidence });
 
     const now = new Date();
 
@@ -636,6 +638,8 @@ const thingsApp = new Hono()
     const db = getDrizzleDb();
     let upserted = 0;
 
+    await setAuditBeforeExisting(c, things, things.sourceId, items.map((i) => i.sourceId));
+
     await db.transaction(async (tx) => {
       const allVals = items.map((item) => ({
         id: item.id,
@@ -55,6 +55,11 @@ export function notFoundError(c: Context, message: string) {
   return c.json({ error: "not_found", message }, 404);
 }
 
+/** Return a 409 conflict error response. */
+export function conflictError(c: Context, message: string) {
+  return c.json({ error: "conflict", message }, 409);
+}
+
 /** Return a 500 database error response, logging the underlying error. */
 export function dbError(
   c: Context,
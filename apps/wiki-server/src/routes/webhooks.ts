@@ -0,0 +1,105 @@
+import { Hono } from "hono";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDrizzleDb } from "../db.js";
+import { webhooks, webhookDeliveries } from "../schema.js";
+import {
+  parseJsonBody,
+  validationError,
+  invalidJsonError,
+  notFoundError,
+  firstOrThrow,
+  zv,
+} from "./utils.js";
+import { RegisterWebhookSchema } from "../api-types.js";
+import { generateWebhookSecret } from "../webhooks.js";
+
+/** Columns safe to return to clients (never the signing secret). */
+const publicColumns = {
+  id: webhooks.id,
+  url: webhooks.url,
+  eventTypes: webhooks.eventTypes,
+  description: webhooks.description,
+  active: webhooks.active,
+  createdAt: webhooks.createdAt,
+};
+
+const DeliveriesQuery = z.object({
+  status: z.enum(["pending", "delivered", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+const webhooksApp = new Hono()
+  // ---- GET / (list webhooks) ----
+  .get("/", async (c) => {
+    const db = getDrizzleDb();
+    const rows = await db.select(publicColumns).from(webhooks).orderBy(desc(webhooks.createdAt));
+    return c.json({ webhooks: rows, total: rows.length });
+  })
+
+  // ---- POST / (register; the signing secret is only ever returned here) ----
+  .post("/", async (c) => {
+    const body = await parseJsonBody(c);
+    if (!body) return invalidJsonError(c);
+
+    const parsed = RegisterWebhookSchema.safeParse(body);
+    if (!parsed.success) return validationError(c, parsed.error.message);
+
+    const d = parsed.data;
+    const secret = generateWebhookSecret();
+    const db = getDrizzleDb();
+
+    const inserted = await db
+      .insert(webhooks)
+      .values({
+        url: d.url,
+        secret,
+        eventTypes: d.eventTypes ? [...new Set(d.eventTypes)] : null,
+        description: d.description ?? null,
+      })
+      .returning(publicColumns);
+
+    return c.json({ webhook: firstOrThrow(inserted, "webhook insert"), secret }, 201);
+  })
+
+  // ---- DELETE /:id (unregister; pending deliveries are dropped) ----
+  .delete("/:id", async (c) => {
+    const id = parseId(c.req.param("id"));
+    if (id == null) return validationError(c, "Webhook ID must be a positive integer");
+
+    const db = getDrizzleDb();
+    const deleted = await db.delete(webhooks).where(eq(webhooks.id, id)).returning(publicColumns);
+
+    if (deleted.length === 0) {
+      return notFoundError(c, `No webhook found for id: ${id}`);
+    }
+    return c.json({ webhook: deleted[0] });
+  })
+
+  // ---- GET /:id/deliveries (recent delivery attempts, newest first) ----
+  .get("/:id/deliveries", zv("query", DeliveriesQuery), async (c) => {
+    const id = parseId(c.req.param("id"));
+    if (id == null) return validationError(c, "Webhook ID must be a positive integer");
+    const { status, limit } = c.req.valid("query");
+
+    const db = getDrizzleDb();
+    const where = status
+      ? and(eq(webhookDeliveries.webhookId, id), eq(webhookDeliveries.status, status))
+      : eq(webhookDeliveries.webhookId, id);
+
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(where)
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+
+    return c.json({ deliveries: rows });
+  });
+
+export const webhooksRoute = webhooksApp;
@@ -18,6 +18,11 @@ import {
   primaryKey,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import type {
+  EntityMatchCandidate,
+  PageRevisionClaimDiff,
+  PageRevisionContradictions,
+} from "./api-types.js";
 
 export const entityIdSeq = pgSequence("entity_id_seq", { startWith: 1 });
 
@@ -118,6 +123,8 @@ export const wikiPages = pgTable(
     contentFormat: text("content_format"),
     // search_vector tsvector column is managed via raw SQL migration
     // (Drizzle doesn't have native tsvector support)
+    embedding: real("embedding").array(), // see embeddings.ts; written by POST /api/pages/embeddings
+    embeddingModel: text("embedding_model"),
     syncedAt: timestamp("synced_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -195,6 +202,36 @@ export const citationAccuracySnapshots = pgTable(
   ]
 );
 
+/**
+ * A cited source's text changed since its quote was stored. One row per
+ * (quote, detection), written by `crux citations drift`. quoteFound = false
+ * means the quote is no longer in the source.
+ */
+export const citationDriftEvents = pgTable(
+  "citation_drift_events",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    pageIdInt: integer("page_id_int").notNull(), // wiki_pages.integer_id (no FK, see migration 0098)
+    footnote: integer("footnote").notNull(),
+    url: text("url").notNull(),
+    /** citation_content.content_hash before the re-fetch */
+    previousHash: text("previous_hash"),
+    currentHash: text("current_hash").notNull(),
+    previousLength: integer("previous_length"),
+    currentLength: integer("current_length").notNull(),
+    quoteFound: boolean("quote_found").notNull(),
+    verificationScore: real("verification_score"),
+    detectedAt: timestamp("detected_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_cde_page_id_int").on(table.pageIdInt),
+    index("idx_cde_url").on(table.url),
+    index("idx_cde_detected_at").on(table.detectedAt),
+  ]
+);
+
 export const editLogs = pgTable(
   "edit_logs",
   {
@@ -354,6 +391,8 @@ export const summaries = pgTable(
     keyClaims: jsonb("key_claims").$type<string[]>(),
     model: text("model"),
     tokensUsed: integer("tokens_used"),
+    embedding: real("embedding").array(), // see embeddings.ts
+    embeddingModel: text("embedding_model"),
     generatedAt: timestamp("generated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -667,6 +706,40 @@ export const entities = pgTable(
   ]
 );
 
+/**
+ * Names importers could not confidently resolve to an entity (see
+ * entity-matching.ts). One row per (raw name, expected type); repeat sightings
+ * bump `occurrences`. Accepting a review records the entity, and the accepted
+ * name is served as an extra alias by /api/entity-resolution/resolve until
+ * `crux entity review` writes it into the entity's YAML aliases.
+ */
+export const entityMatchReviews = pgTable(
+  "entity_match_reviews",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    rawName: text("raw_name").notNull(),
+    entityType: text("entity_type").notNull().default(""), // "" = any type
+    parentHint: text("parent_hint"),
+    source: text("source").notNull(), // first importer to report it, e.g. 'grants:sff'
+    occurrences: integer("occurrences").notNull().default(1),
+    candidates: jsonb("candidates").$type<EntityMatchCandidate[]>().notNull(),
+    status: text("status").notNull().default("pending"), // pending | accepted | rejected
+    resolvedStableId: text("resolved_stable_id"),
+    reviewedBy: text("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_emr_name_type").on(table.rawName, table.entityType),
+    index("idx_emr_status").on(table.status),
+  ]
+);
+
 /**
  * Facts — read mirror of data/facts/*.yaml files.
  *
@@ -933,6 +1006,40 @@ export const pageImproveRuns = pgTable(
   ]
 );
 
+/**
+ * Before/after content of an applied AI edit with its semantic diff. One row
+ * per applied change, written by the page improver. Summary counts mirror
+ * claimDiff.summary so the revision list doesn't have to read the jsonb.
+ */
+export const pageRevisions = pgTable(
+  "page_revisions",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    pageIdInt: integer("page_id_int").notNull(), // wiki_pages.integer_id (no FK, see migration 0099)
+    agent: text("agent").notNull(), // e.g. 'crux-improve'
+    tier: text("tier"),
+    contentBefore: text("content_before").notNull(),
+    contentAfter: text("content_after").notNull(),
+    hashBefore: text("hash_before").notNull(),
+    hashAfter: text("hash_after").notNull(),
+    claimsAdded: integer("claims_added").notNull().default(0),
+    claimsRemoved: integer("claims_removed").notNull().default(0),
+    claimsChanged: integer("claims_changed").notNull().default(0),
+    contradictionCount: integer("contradiction_count").notNull().default(0),
+    assessment: text("assessment").notNull(), // 'safe' | 'warn' | 'block'
+    issues: jsonb("issues").$type<string[]>(),
+    claimDiff: jsonb("claim_diff").$type<PageRevisionClaimDiff>().notNull(),
+    contradictions: jsonb("contradictions").$type<PageRevisionContradictions>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_prev_page_id_int").on(table.pageIdInt),
+    index("idx_prev_created_at").on(table.createdAt),
+  ]
+);
+
 export const jobs = pgTable(
   "jobs",
   {
@@ -952,11 +1059,23 @@ export const jobs = pgTable(
     startedAt: timestamp("started_at", { withTimezone: true }),
     completedAt: timestamp("completed_at", { withTimezone: true }),
     workerId: text("worker_id"),
+    /** Job IDs that must complete before this job can be claimed. */
+    dependsOn: bigint("depends_on", { mode: "number" }).array(),
+    /** Not claimable before this time (scheduled runs, retry backoff). */
+    runAfter: timestamp("run_after", { withTimezone: true }),
+    /** Renewed by worker heartbeats; an expired lease is reaped back to pending. */
+    leaseExpiresAt: timestamp("lease_expires_at", { withTimezone: true }),
+    idempotencyKey: text("idempotency_key"),
   },
   (table) => [
     index("idx_jobs_status_priority").on(table.status, table.priority),
     index("idx_jobs_type_status").on(table.type, table.status),
     index("idx_jobs_created_at").on(table.createdAt),
+    uniqueIndex("idx_jobs_idempotency_key").on(table.idempotencyKey),
+    index("idx_jobs_depends_on").using("gin", table.dependsOn),
+    index("idx_jobs_lease_expires_at")
+      .on(table.leaseExpiresAt)
+      .where(sql`${table.status} IN ('claimed', 'running')`),
   ]
 );
 
@@ -2136,3 +2255,122 @@ export const grantResearchAreas = pgTable(
     index("idx_gra_area").on(table.researchAreaId),
   ]
 );
+
+/**
+ * Scoped, revocable API keys. Only the SHA-256 hash of each token is stored;
+ * the plaintext is returned once at mint time. See auth.ts for scope rules.
+ */
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    name: text("name").notNull(), // who holds it: "discord-bot", "groundskeeper"
+    prefix: text("prefix").notNull(), // first chars of the token, for identification in listings/logs
+    keyHash: text("key_hash").notNull().unique(), // sha256 hex of the full token
+    scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // read | write:<group> | admin
+    createdBy: text("created_by"), // name of the key that minted this one
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("idx_api_keys_name").on(table.name)]
+);
+
+// ---- Audit log (one row per mutating /api request; see audit.ts) ----
+
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    actor: text("actor"), // api key name ("env" for the shared key); null in dev mode
+    actorKeyId: text("actor_key_id"), // api_keys.id, or "env"
+    caller: text("caller"), // X-Caller header: "github-actions:auto-update#123", agent session, ...
+    method: text("method").notNull(),
+    route: text("route").notNull(), // matched route pattern: "/api/pages/:id"
+    path: text("path").notNull(), // concrete request path: "/api/pages/anthropic"
+    targetIds: jsonb("target_ids").$type<string[]>().notNull().default([]),
+    bodyHash: text("body_hash"), // sha256 hex of the raw request body
+    status: integer("status").notNull(),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    durationMs: integer("duration_ms"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_audit_log_route").on(table.route),
+    index("idx_audit_log_actor").on(table.actor),
+    index("idx_audit_log_created_at").on(table.createdAt),
+    // GIN index on target_ids is created in migration 0094
+  ]
+);
+
+// ---- Event outbox and webhooks (see events.ts, webhooks.ts) ----
+
+/**
+ * Outbox of change events ("page.synced", "fact.changed", ...). Rows are
+ * written in the same transaction as the change they describe, then fanned
+ * out to SSE subscribers (GET /api/events/stream) and registered webhooks.
+ */
+export const outboxEvents = pgTable(
+  "outbox_events",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    type: text("type").notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    // txid xid8 column (inserting transaction) is managed via raw SQL
+    // migration (Drizzle doesn't have native xid8 support)
+  },
+  (table) => [
+    index("idx_outbox_events_type").on(table.type),
+    index("idx_outbox_events_created_at").on(table.createdAt),
+  ]
+);
+
+export const webhooks = pgTable("webhooks", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key; shown once at registration
+  eventTypes: jsonb("event_types").$type<string[]>(), // null = all event types
+  description: text("description"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/** One row per (webhook, event); retried with exponential backoff until delivered or failed. */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    webhookId: bigint("webhook_id", { mode: "number" })
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    eventId: bigint("event_id", { mode: "number" })
+      .notNull()
+      .references(() => outboxEvents.id, { onDelete: "cascade" }),
+    status: text("status").notNull().default("pending"), // pending | delivered | failed
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_webhook_deliveries_webhook_event").on(table.webhookId, table.eventId),
+    index("idx_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  ]
+);
@@ -59,3 +59,126 @@ export const TRIGRAM_FALLBACK_THRESHOLD = 3;
 /** ts_headline() options for search snippet generation. */
 export const TS_HEADLINE_OPTIONS =
   "StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=20, MaxFragments=1";
+
+// ---------------------------------------------------------------------------
+// Hybrid (FTS + embedding) ranking
+// ---------------------------------------------------------------------------
+
+/** Candidates fetched from each of FTS and vector search before fusion. */
+export const HYBRID_CANDIDATES = 50;
+
+/** Minimum cosine similarity for a vector-only candidate to be kept. */
+export const VECTOR_SIMILARITY_THRESHOLD = 0.1;
+
+/** Relative weights of normalized FTS rank and vector similarity. */
+export const HYBRID_FTS_WEIGHT = 0.4;
+export const HYBRID_VECTOR_WEIGHT = 0.6;
+
+/** titleMatchBoostExpr() thresholds and their 0–1 hybrid bonuses, highest first. */
+const TITLE_BONUSES: readonly { boost: number; bonus: number }[] = [
+  { boost: 1000, bonus: 1 },
+  { boost: 100, bonus: 0.3 },
+  { boost: 10, bonus: 0.1 },
+];
+
+/**
+ * Map a titleMatchBoostExpr() value onto the 0–1 hybrid scale. An exact
+ * title match still outranks any fused score (max 1.0).
+ */
+export function hybridTitleBonus(titleBoost: number): number {
+  return TITLE_BONUSES.find((b) => titleBoost >= b.boost)?.bonus ?? 0;
+}
+
+/** SQL counterpart of hybridTitleBonus() for a title-boost column. */
+export function hybridTitleBonusExpr(titleBoostColumn: string): string {
+  const whens = TITLE_BONUSES.map(
+    (b) => `WHEN ${titleBoostColumn} >= ${b.boost} THEN ${b.bonus}`
+  ).join(" ");
+  return `(CASE ${whens} ELSE 0 END)`;
+}
+
+/**
+ * Fuse FTS rank, title boost, and vector similarity into one score.
+ *
+ * @param ftsRank - ts_rank_cd() of this result (0 if not an FTS match)
+ * @param maxFtsRank - highest ts_rank_cd() among the candidates, for normalization
+ * @param titleBoost - titleMatchBoostExpr() value for this result
+ * @param similarity - cosine similarity to the query embedding (0 if none)
+ */
+export function hybridScore(
+  ftsRank: number,
+  maxFtsRank: number,
+  titleBoost: number,
+  similarity: number,
+): number {
+  const fts = maxFtsRank > 0 ? ftsRank / maxFtsRank : 0;
+  return (
+    HYBRID_FTS_WEIGHT * fts +
+    HYBRID_VECTOR_WEIGHT * Math.max(similarity, 0) +
+    hybridTitleBonus(titleBoost)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Facet bands (GET /api/search)
+// ---------------------------------------------------------------------------
+
+interface Band {
+  key: string;
+  min: number;
+}
+
+/** Quality bands, highest first. Same thresholds as the web PageStatus badge. */
+export const QUALITY_BANDS: readonly Band[] = [
+  { key: "comprehensive", min: 80 },
+  { key: "good", min: 60 },
+  { key: "adequate", min: 40 },
+  { key: "draft", min: 20 },
+  { key: "stub", min: 0 },
+];
+
+/** Reader-importance bands, highest first. Same thresholds as PageStatus. */
+export const IMPORTANCE_BANDS: readonly Band[] = [
+  { key: "essential", min: 90 },
+  { key: "high", min: 70 },
+  { key: "useful", min: 50 },
+  { key: "reference", min: 30 },
+  { key: "peripheral", min: 0 },
+];
+
+/** Non-overlapping "last updated" buckets, newest first. */
+export const UPDATED_BUCKETS: readonly { key: string; maxDays: number }[] = [
+  { key: "week", maxDays: 7 },
+  { key: "month", maxDays: 30 },
+  { key: "year", maxDays: 365 },
+  { key: "older", maxDays: Infinity },
+];
+
+/**
+ * SQL expression for the band key of a score column, or NULL if the score is
+ * missing. Bands come from the constants above, never from user input.
+ */
+export function bandExpr(column: string, bands: readonly Band[]): string {
+  const whens = bands.map((b) => `WHEN ${column} >= ${b.min} THEN '${b.key}'`).join(" ");
+  return `(CASE ${whens} END)`;
+}
+
+/**
+ * SQL expression for the updated-bucket key of a text date column ("2025-06",
+ * "2025-06-14", ISO timestamp), or NULL if it is missing or not a date.
+ *
+ * Compares the text against ISO cutoffs computed from `now` (byte order, so
+ * "2025-06" sorts before "2025-06-14") rather than casting, so a malformed
+ * date can never fail the query.
+ */
+export function updatedBucketExpr(column: string, now = new Date()): string {
+  const whens = UPDATED_BUCKETS.filter((b) => Number.isFinite(b.maxDays))
+    .map((b) => {
+      const cutoff = new Date(now.getTime() - b.maxDays * 86_400_000).toISOString();
+      return `WHEN ${column} COLLATE "C" >= '${cutoff}' THEN '${b.key}'`;
+    })
+    .join(" ");
+  const oldest = UPDATED_BUCKETS.find((b) => !Number.isFinite(b.maxDays));
+  const otherwise = oldest ? ` ELSE '${oldest.key}'` : "";
+  return `(CASE WHEN ${column} ~ '^[0-9]{4}-[0-9]{2}' THEN (CASE ${whens}${otherwise} END) END)`;
+}
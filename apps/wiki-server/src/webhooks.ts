@@ -0,0 +1,168 @@
+/**
+ * Webhook delivery.
+ *
+ * emitEvent() queues one `webhook_deliveries` row per matching webhook. The
+ * dispatcher started from index.ts claims due rows, POSTs the event as JSON,
+ * and records the outcome:
+ *
+ *   - 2xx:        delivered
+ *   - otherwise:  retried after an exponential backoff (30s, 1m, 2m, ... capped
+ *                 at 1h) until WEBHOOK_MAX_ATTEMPTS, then marked failed
+ *
+ * Each request carries `X-Wiki-Signature: t=<unix seconds>,v1=<hex>`, where
+ * the hex is HMAC-SHA256(secret, "<t>.<raw body>"). Receivers should
+ * recompute it and reject stale timestamps to prevent replays.
+ *
+ * Claiming uses FOR UPDATE SKIP LOCKED plus a short lease on
+ * next_attempt_at, so several server instances can run dispatchers without
+ * double-delivering.
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import { getDb } from "./db.js";
+import { logger as rootLogger } from "./logger.js";
+
+const logger = rootLogger.child({ component: "webhooks" });
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** A claimed delivery is retried after this long if the dispatcher dies mid-send. */
+const CLAIM_LEASE_SECONDS = 60;
+const DELIVERY_BATCH_SIZE = 20;
+const DISPATCH_INTERVAL_MS = 5_000;
+
+/** Delay before retry number `attempt` (1-based): 30s, 60s, 120s, ... capped at 1h. */
+export function backoffMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS);
+}
+
+/** A fresh signing secret for a newly registered webhook. */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/** `X-Wiki-Signature` header value for a request body. */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+interface ClaimedDelivery {
+  id: number;
+  attempts: number;
+  url: string;
+  secret: string;
+  event_id: number;
+  type: string;
+  payload: Record<string, unknown>;
+  created_at: string | Date;
+}
+
+async function sendDelivery(d: ClaimedDelivery): Promise<{ status: number | null; error: string | null }> {
+  const body = JSON.stringify({
+    id: Number(d.event_id),
+    type: d.type,
+    createdAt: d.created_at,
+    data: d.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await fetch(d.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "longterm-wiki-webhooks",
+        "X-Wiki-Event": d.type,
+        "X-Wiki-Event-Id": String(d.event_id),
+        "X-Wiki-Delivery": String(d.id),
+        "X-Wiki-Signature": signWebhook(d.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return { status: res.status, error: res.ok ? null : `HTTP ${res.status}` };
+  } catch (err) {
+    return { status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Claim and send up to `limit` due deliveries. Returns how many were
+ * delivered successfully.
+ */
+export async function deliverDueWebhooks(limit = DELIVERY_BATCH_SIZE): Promise<number> {
+  const rawDb = getDb();
+
+  const claimed = await rawDb.unsafe<ClaimedDelivery[]>(
+    `WITH claimed AS (
+       UPDATE webhook_deliveries
+          SET next_attempt_at = now() + interval '${CLAIM_LEASE_SECONDS} seconds'
+        WHERE id IN (
+          SELECT id FROM webhook_deliveries
+           WHERE status = 'pending' AND next_attempt_at <= now()
+           ORDER BY id
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED)
+       RETURNING id, webhook_id, event_id, attempts)
+     SELECT c.id, c.attempts, w.url, w.secret, e.id AS event_id, e.type, e.payload, e.created_at
+       FROM claimed c
+       JOIN webhooks w ON w.id = c.webhook_id
+       JOIN outbox_events e ON e.id = c.event_id
+      ORDER BY c.id`,
+    [limit]
+  );
+
+  let delivered = 0;
+  for (const d of claimed) {
+    const { status, error } = await sendDelivery(d);
+    const attempts = d.attempts + 1;
+
+    if (!error) {
+      delivered++;
+      await rawDb.unsafe(
+        `UPDATE webhook_deliveries
+            SET status = 'delivered', attempts = $2, response_status = $3,
+                last_error = NULL, delivered_at = now()
+          WHERE id = $1`,
+        [d.id, attempts, status]
+      );
+      continue;
+    }
+
+    const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    await rawDb.unsafe(
+      `UPDATE webhook_deliveries
+          SET status = $2, attempts = $3, response_status = $4, last_error = $5,
+              next_attempt_at = now() + ($6 || ' milliseconds')::interval
+        WHERE id = $1`,
+      [d.id, exhausted ? "failed" : "pending", attempts, status, error, String(backoffMs(attempts))]
+    );
+    logger.warn(
+      { deliveryId: d.id, eventType: d.type, attempts, error, exhausted },
+      "Webhook delivery failed"
+    );
+  }
+
+  return delivered;
+}
+
+/**
+ * Poll for due deliveries every few seconds. Returns a stop function for
+ * graceful shutdown.
+ */
+export function startWebhookDispatcher(intervalMs = DISPATCH_INTERVAL_MS): () => void {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    deliverDueWebhooks()
+      .catch((err) => logger.error({ err }, "Webhook dispatcher tick failed"))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
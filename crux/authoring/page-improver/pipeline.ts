@@ -29,7 +29,7 @@ import {
   validatePhase, gapFillPhase, triagePhase, adversarialLoopPhase,
   citationAuditPhase,
 } from './phases.ts';
-import { runSemanticDiff } from '../../lib/semantic-diff/index.ts';
+import { runSemanticDiff, recordRevision, type SemanticDiffResult } from '../../lib/semantic-diff/index.ts';
 
 // ── Session log helpers ───────────────────────────────────────────────────────
 
@@ -412,8 +412,9 @@ export async function runPipeline(pageId: string, options: PipelineOptions = {})
       deep: 0.85,      // Deep: max 85% substantive changes
     };
     let semanticDiffBlocked = false;
+    let semanticDiff: SemanticDiffResult | null = null;
     try {
-      const semanticDiff = await runSemanticDiff(
+      semanticDiff = await runSemanticDiff(
         page.id,
         originalContent,
         contentToApply,
@@ -460,6 +461,15 @@ export async function runPipeline(pageId: string, options: PipelineOptions = {})
     fs.writeFileSync(filePath, contentToApply);
     console.log(`\nChanges applied to ${filePath}`);
 
+    // Persist the applied revision with its claim diff for /wiki/[id]/history
+    if (semanticDiff) {
+      const revisionId = await recordRevision(semanticDiff, originalContent, contentToApply, {
+        agent: 'crux-improve',
+        tier,
+      });
+      if (revisionId !== null) log('semantic-diff', `Revision recorded (id: ${revisionId})`);
+    }
+
     // Post-apply cleanup: run auto-fixers on the written file
     const cleanupResult = await runPostApplyCleanup(filePath);
     if (cleanupResult.fixed > 0) {
@@ -32,6 +32,7 @@ import {
 import { computeRiskScores } from './ci-risk-scores.ts';
 import { runContentChecks } from './ci-content-checks.ts';
 import { buildPrBody } from './ci-pr-body.ts';
+import { diffKBAgainstRef, formatKBDiffMarkdown } from '../lib/factbase-diff.ts';
 import { parseJsonFromLlm } from '../lib/json-parsing.ts';
 
 // ── Types ────────────────────────────────────────────────────────────────────
@@ -657,12 +658,22 @@ export async function orchestrateCiAutoUpdate(
       console.log(`PR #${existingPrs[0].number} already exists, changes pushed to branch`);
       console.log(`  URL: ${prUrl}`);
     } else {
+      // Summarize structured data changes relative to main (best-effort)
+      let dataSummary: string | undefined;
+      try {
+        const { diff, before, after } = await diffKBAgainstRef('origin/main', 'HEAD');
+        dataSummary = formatKBDiffMarkdown(diff, before.graph, after.graph);
+      } catch (err) {
+        console.warn(`::warning::Factbase diff failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
       // Build PR body
       const body = buildPrBody({
         reportPath,
         date,
         citationSummary,
         riskSummary,
+        dataSummary,
       });
 
       interface PrCreateResult {
@@ -73,6 +73,7 @@ describe('buildPrBody', () => {
     // No citation/risk sections
     expect(body).not.toContain('### Citation Verification');
     expect(body).not.toContain('### Hallucination Risk Scores');
+    expect(body).not.toContain('### Data Changes');
   });
 
   it('includes citation summary when provided', () => {
@@ -110,6 +111,18 @@ describe('buildPrBody', () => {
     expect(riskIdx).toBeLessThan(citIdx);
   });
 
+  it('includes data changes summary when provided', () => {
+    const body = buildPrBody({
+      reportPath: null,
+      date: '2026-02-20',
+      dataSummary: '| | Added | Removed | Changed |\n|---|---:|---:|---:|\n| Facts | 1 | 0 | 2 |',
+    });
+
+    expect(body).toContain('### Data Changes');
+    expect(body).toContain('| Facts | 1 | 0 | 2 |');
+    expect(body.indexOf('### Data Changes')).toBeLessThan(body.indexOf('### Automated Review'));
+  });
+
   it('reads report data when reportPath is provided', () => {
     const tmpDir = mkdtempSync(join(tmpdir(), 'ci-pr-body-test-'));
     const reportPath = join(tmpDir, 'report.yaml');
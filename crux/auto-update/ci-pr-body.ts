@@ -1,12 +1,12 @@
 /**
  * CI PR Body Builder for Auto-Update PRs
  *
- * Constructs the PR body from run report data and optional citation/risk
- * summaries. Replaces the complex shell heredoc construction in the
+ * Constructs the PR body from run report data and optional citation/risk/
+ * factbase-data summaries. Replaces the complex shell heredoc construction in the
  * auto-update workflow.
  *
  * Usage (via crux CLI):
- *   pnpm crux auto-update pr-body --report=<path> [--citations=<markdown>] [--risk=<markdown>]
+ *   pnpm crux auto-update pr-body --report=<path> [--citations=<markdown>] [--risk=<markdown>] [--data=<markdown>]
  */
 
 import { readFileSync, existsSync } from 'fs';
@@ -20,6 +20,8 @@ export interface PrBodyOptions {
   date: string;
   citationSummary?: string;
   riskSummary?: string;
+  /** Markdown summary of factbase data changes (see crux/lib/factbase-diff.ts) */
+  dataSummary?: string;
 }
 
 // ── Report parsing ───────────────────────────────────────────────────────────
@@ -44,7 +46,7 @@ export function readRunReport(reportPath: string): { pagesUpdated: number; budge
 // ── PR body construction ─────────────────────────────────────────────────────
 
 export function buildPrBody(options: PrBodyOptions): string {
-  const { reportPath, date, citationSummary, riskSummary } = options;
+  const { reportPath, date, citationSummary, riskSummary, dataSummary } = options;
 
   const report = reportPath ? readRunReport(reportPath) : { pagesUpdated: 0, budgetSpent: 0 };
 
@@ -80,6 +82,14 @@ export function buildPrBody(options: PrBodyOptions): string {
     sections.push('');
   }
 
+  // Structured data changes
+  if (dataSummary) {
+    sections.push('### Data Changes');
+    sections.push('');
+    sections.push(dataSummary);
+    sections.push('');
+  }
+
   // Audit gate info
   sections.push('### Automated Review');
   sections.push('');
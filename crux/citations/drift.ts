@@ -0,0 +1,272 @@
+/**
+ * Citation Drift Detection
+ *
+ * Re-fetches cited URLs and diffs the extracted text against the version
+ * stored in citation_content (PostgreSQL). When a source has changed, every
+ * quote citing it — on any page — is re-verified against the new text:
+ *   - quotes no longer found are marked unverified ("source-changed")
+ *   - one drift event per quote is recorded, which the wiki's citation
+ *     health banner surfaces at build time
+ *   - citation_content is updated to the new text
+ *
+ * Sources with no stored text are fetched and stored as a baseline.
+ *
+ * Usage:
+ *   pnpm crux citations drift <page-id>           Check sources cited by one page
+ *   pnpm crux citations drift --all --limit=50    Check up to 50 cited URLs
+ *   pnpm crux citations drift --all --dry-run     Report drift without writing
+ */
+
+import { getColors } from '../lib/output.ts';
+import { parseCliArgs } from '../lib/cli.ts';
+import { fetchCitationUrl } from '../lib/citation/citation-archive.ts';
+import {
+  SOURCE_CHANGED_METHOD,
+  checkQuotesAfterDrift,
+  diffSourceText,
+  type DriftQuote,
+  type DriftQuoteResult,
+  type SourceTextDiff,
+} from '../lib/citation/citation-drift.ts';
+import { sha256 } from '../lib/citation/source-archive.ts';
+import {
+  getCitationContentByUrl,
+  getPagesWithQuotes,
+  getQuotesByPage,
+  getQuotesByUrl,
+  markQuoteUnverified,
+  recordCitationDrift,
+  upsertCitationContent,
+} from '../lib/wiki-server/citations.ts';
+
+/** Stored text fetched some other way (Firecrawl markdown, transcripts) can't be diffed against a plain fetch. */
+const COMPARABLE_FETCH_METHODS = new Set([null, 'citation-archive']);
+
+/** Delay between URL fetches to stay polite to source sites */
+const FETCH_DELAY_MS = 500;
+
+type DriftStatus = 'unchanged' | 'changed' | 'baseline' | 'unavailable' | 'skipped';
+
+interface UrlDriftResult {
+  url: string;
+  status: DriftStatus;
+  detail?: string;
+  diff?: SourceTextDiff;
+  quotes?: DriftQuoteResult[];
+}
+
+/** Distinct cited URLs that have at least one stored quote, in first-seen order. */
+async function collectCitedUrls(pageIds: string[]): Promise<string[]> {
+  const urls = new Set<string>();
+  for (const pageId of pageIds) {
+    const result = await getQuotesByPage(pageId, 500);
+    if (!result.ok) throw new Error(`Failed to fetch quotes for ${pageId}: ${result.error}`);
+    for (const q of result.data.quotes) {
+      if (q.url && q.sourceQuote) urls.add(q.url);
+    }
+  }
+  return [...urls];
+}
+
+/** Every stored quote citing a URL, across all pages. */
+async function quotesCitingUrl(url: string): Promise<DriftQuote[]> {
+  const result = await getQuotesByUrl(url, 500);
+  if (!result.ok) throw new Error(`Failed to fetch quotes for ${url}: ${result.error}`);
+  return result.data.quotes
+    .filter((q) => q.sourceQuote && q.sourceQuote.length > 0)
+    .map((q) => ({
+      pageId: q.pageId,
+      footnote: q.footnote,
+      sourceQuote: q.sourceQuote!,
+      quoteVerified: q.quoteVerified,
+    }));
+}
+
+async function storeContent(url: string, fetched: Awaited<ReturnType<typeof fetchCitationUrl>>, text: string) {
+  const result = await upsertCitationContent({
+    url,
+    fetchedAt: new Date().toISOString(),
+    httpStatus: fetched.httpStatus,
+    contentType: fetched.contentType ?? null,
+    pageTitle: fetched.pageTitle ?? null,
+    fullText: text,
+    contentLength: fetched.contentLength,
+    contentHash: sha256(text),
+    fetchMethod: 'citation-archive',
+  });
+  if (!result.ok) console.warn(`  [drift] failed to store content for ${url}: ${result.error}`);
+}
+
+async function checkUrl(url: string, dryRun: boolean): Promise<UrlDriftResult> {
+  const stored = await getCitationContentByUrl(url);
+  const storedText = stored.ok ? stored.data.fullText : null;
+
+  if (stored.ok && storedText && !COMPARABLE_FETCH_METHODS.has(stored.data.fetchMethod)) {
+    return { url, status: 'skipped', detail: `stored via ${stored.data.fetchMethod}` };
+  }
+
+  const fetched = await fetchCitationUrl(url);
+  if (!fetched.fullText) {
+    return { url, status: 'unavailable', detail: fetched.error ?? `no text (HTTP ${fetched.httpStatus})` };
+  }
+
+  if (!storedText) {
+    if (!dryRun) await storeContent(url, fetched, fetched.fullText);
+    return { url, status: 'baseline' };
+  }
+
+  const diff = diffSourceText(storedText, fetched.fullText);
+  if (!diff.changed) return { url, status: 'unchanged', diff };
+
+  const quotes = checkQuotesAfterDrift(await quotesCitingUrl(url), fetched.fullText);
+
+  if (!dryRun) {
+    if (quotes.length > 0) {
+      const recorded = await recordCitationDrift({
+        url,
+        previousHash: diff.previousHash,
+        currentHash: diff.currentHash,
+        previousLength: diff.previousLength,
+        currentLength: diff.currentLength,
+        quotes: quotes.map((q) => ({
+          pageId: q.pageId,
+          footnote: q.footnote,
+          quoteFound: q.quoteFound,
+          verificationScore: q.score,
+        })),
+      });
+      if (!recorded.ok) {
+        // Keep the stored text so the next run detects this drift again
+        throw new Error(`Failed to record drift for ${url}: ${recorded.error}`);
+      }
+      let unmarked = 0;
+      for (const q of quotes.filter((r) => !r.quoteFound)) {
+        const marked = await markQuoteUnverified(q.pageId, q.footnote, SOURCE_CHANGED_METHOD, q.score);
+        if (!marked.ok) {
+          unmarked++;
+          console.warn(`  [drift] failed to mark ${q.pageId} [^${q.footnote}] unverified: ${marked.error}`);
+        }
+      }
+      if (unmarked > 0) {
+        // Keep the stored text so the next run retries marking these quotes
+        return { url, status: 'changed', detail: `${unmarked} quote(s) not marked; stored text kept`, diff, quotes };
+      }
+    }
+    await storeContent(url, fetched, fetched.fullText);
+  }
+
+  return { url, status: 'changed', diff, quotes };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main() {
+  const args = parseCliArgs(process.argv.slice(2));
+  const ci = args.ci === true;
+  const json = args.json === true;
+  const all = args.all === true;
+  const dryRun = args['dry-run'] === true;
+  const limit = parseInt((args.limit as string) || '0', 10);
+  const colors = getColors(ci || json);
+  const c = colors;
+
+  const positional = (args._positional as string[]) || [];
+  const pageId = positional[0];
+
+  if (!all && !pageId) {
+    console.error(`${c.red}Error: provide a page ID or use --all${c.reset}`);
+    console.error(`  Usage: pnpm crux citations drift <page-id>`);
+    console.error(`         pnpm crux citations drift --all --limit=50`);
+    process.exit(1);
+  }
+
+  let pageIds = [pageId];
+  if (all) {
+    const pagesResult = await getPagesWithQuotes();
+    if (!pagesResult.ok) {
+      console.error(`${c.red}Error fetching pages: ${pagesResult.error}${c.reset}`);
+      process.exit(1);
+    }
+    pageIds = pagesResult.data.pages.map((p) => p.pageId);
+  }
+
+  let urls = await collectCitedUrls(pageIds);
+  if (limit > 0) urls = urls.slice(0, limit);
+
+  if (!json && !ci) {
+    console.log(`\n${c.bold}${c.blue}Citation Drift${dryRun ? ' (dry run)' : ''}${c.reset}\n`);
+    console.log(`  ${urls.length} cited URLs from ${pageIds.length} page(s)\n`);
+  }
+
+  const results: UrlDriftResult[] = [];
+  for (let i = 0; i < urls.length; i++) {
+    const result = await checkUrl(urls[i], dryRun);
+    results.push(result);
+
+    if (!json && !ci && result.status !== 'unchanged') {
+      const color = result.status === 'changed' ? c.yellow : c.dim;
+      console.log(`  ${color}${result.status.padEnd(11)}${c.reset} ${result.url}${result.detail ? ` ${c.dim}(${result.detail})${c.reset}` : ''}`);
+      if (result.diff && result.quotes) {
+        const lost = result.quotes.filter((q) => !q.quoteFound);
+        console.log(
+          `    ${c.dim}+${result.diff.addedLines}/-${result.diff.removedLines} lines, ${result.diff.previousLength} → ${result.diff.currentLength} chars; ${result.quotes.length} quotes rechecked${c.reset}`,
+        );
+        for (const q of lost) {
+          console.log(`    ${c.red}✗${c.reset} ${q.pageId} [^${q.footnote}] quote no longer found (score ${(q.score * 100).toFixed(0)}%)`);
+        }
+      }
+    }
+
+    if (i < urls.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, FETCH_DELAY_MS));
+    }
+  }
+
+  const count = (status: DriftStatus) => results.filter((r) => r.status === status).length;
+  const quotesLost = results.flatMap((r) => r.quotes ?? []).filter((q) => !q.quoteFound);
+
+  if (json || ci) {
+    console.log(
+      JSON.stringify(
+        {
+          dryRun,
+          urlsChecked: results.length,
+          unchanged: count('unchanged'),
+          changed: count('changed'),
+          baseline: count('baseline'),
+          unavailable: count('unavailable'),
+          skipped: count('skipped'),
+          quotesNoLongerFound: quotesLost.length,
+          drift: results.filter((r) => r.status === 'changed'),
+        },
+        null,
+        2,
+      ),
+    );
+  } else {
+    console.log(`\n${c.bold}${c.blue}Summary${c.reset}`);
+    console.log(`  URLs checked:      ${results.length}`);
+    console.log(`  ${c.green}Unchanged:${c.reset}         ${count('unchanged')}`);
+    console.log(`  ${c.yellow}Changed:${c.reset}           ${count('changed')}`);
+    console.log(`  ${c.dim}New baseline:${c.reset}      ${count('baseline')}`);
+    console.log(`  ${c.dim}Unavailable:${c.reset}       ${count('unavailable')}`);
+    console.log(`  ${c.dim}Skipped:${c.reset}           ${count('skipped')}`);
+    console.log(`  ${c.red}Quotes lost:${c.reset}       ${quotesLost.length}`);
+    if (quotesLost.length > 0 && !dryRun) {
+      console.log(`\n${c.yellow}Marked ${quotesLost.length} quotes "${SOURCE_CHANGED_METHOD}".${c.reset}`);
+      console.log(`  Re-extract with: pnpm crux citations extract-quotes <page-id> --recheck`);
+    }
+  }
+
+  process.exit(quotesLost.length > 0 ? 1 : 0);
+}
+
+import { fileURLToPath } from 'url';
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((err: Error) => {
+    console.error('Error:', err.message);
+    process.exit(1);
+  });
+}
@@ -37,6 +37,12 @@ import {
 } from '../lib/wiki-server/citations.ts';
 import { extractSupportingQuote, DEFAULT_CITATION_MODEL } from '../lib/quote-extractor.ts';
 import { verifyQuoteInSource } from '../lib/quote-verifier.ts';
+import {
+  archiveText,
+  recordQuoteSnapshot,
+  tryArchive,
+  type SourceSnapshot,
+} from '../lib/citation/source-archive.ts';
 import {
   parseBookReference,
   findSourceOnline,
@@ -56,16 +62,23 @@ function isBookReference(footnoteText: string): boolean {
  *   1. In-memory cache (session-level, fast)
  *   2. PostgreSQL (cross-environment, durable)
  *   3. Network fetch (slowest, writes back to both caches)
+ *
+ * Also returns the source-archive snapshot holding exactly this text, so the
+ * quote can later be re-verified against it. Cached text is archived as-is
+ * unless a network fetch with identical text is already on record.
  */
 async function getSourceText(
   url: string,
-  _pageId: string,
-  _footnote: number,
-): Promise<string | null> {
+): Promise<{ text: string; snapshot: SourceSnapshot | null } | null> {
   // Tier 1: In-memory cache (session-level)
   const cached = getCachedContent(url);
   if (cached?.fullText) {
-    return cached.fullText;
+    const text = cached.fullText;
+    const snapshot = tryArchive(url, () => archiveText({
+      url, text, httpStatus: cached.httpStatus, contentType: cached.contentType,
+      title: cached.pageTitle, fetchMethod: 'session-cache', fetchedAt: cached.fetchedAt,
+    }));
+    return { text, snapshot };
   }
 
   // Tier 2: PostgreSQL (cross-environment cache)
@@ -81,10 +94,15 @@ async function getSourceText(
       fullText: pgResult.data.fullText,
       contentLength: pgResult.data.contentLength,
     });
-    return pgResult.data.fullText;
+    const text = pgResult.data.fullText;
+    const snapshot = tryArchive(url, () => archiveText({
+      url, text, httpStatus: pgResult.data.httpStatus, contentType: pgResult.data.contentType,
+      title: pgResult.data.pageTitle, fetchMethod: 'pg-cache', fetchedAt: pgResult.data.fetchedAt,
+    }));
+    return { text, snapshot };
   }
 
-  // Tier 3: Network fetch
+  // Tier 3: Network fetch (fetchCitationUrl archives the raw response itself)
   const result = await fetchCitationUrl(url);
   if (result.fullText) {
     // Write to memory cache and PG
@@ -98,7 +116,7 @@ async function getSourceText(
       contentLength: result.contentLength,
     });
     saveFetchResultToPostgres(url, result);
-    return result.fullText;
+    return { text: result.fullText, snapshot: result.snapshot ?? null };
   }
 
   return null;
@@ -181,15 +199,14 @@ export async function extractQuotesForPage(
     let sourceTitle = cit.linkText || null;
     let sourceType: string = 'url';
     let extractionModel: string | null = null;
+    let snapshot: SourceSnapshot | null = null;
 
     try {
       if (cit.url) {
         // URL-based citation — fetch and extract quote
-        const sourceText = await getSourceText(
-          cit.url,
-          pageId,
-          cit.footnote,
-        );
+        const source = await getSourceText(cit.url);
+        const sourceText = source?.text ?? null;
+        snapshot = source?.snapshot ?? null;
 
         if (sourceText && sourceText.length > 100) {
           // Use LLM to extract the supporting quote
@@ -264,6 +281,11 @@ export async function extractQuotesForPage(
         extractionModel,
       });
 
+      // Remember which archived text the quote came from, for verify-quotes
+      if (sourceQuote && snapshot) {
+        recordQuoteSnapshot(pageId, cit.footnote, snapshot);
+      }
+
       if (sourceQuote) {
         result.extracted++;
         if (
@@ -0,0 +1,74 @@
+/**
+ * Source Snapshots — inspect the local source archive
+ *
+ * Usage:
+ *   pnpm crux citations snapshots <url>                 List archived versions of a URL
+ *   pnpm crux citations snapshots <url> --show=<hash>   Print the archived text of one version
+ */
+
+import { getColors } from '../lib/output.ts';
+import { parseCliArgs } from '../lib/cli.ts';
+import { findSnapshot, listSnapshots, readArchivedText } from '../lib/citation/source-archive.ts';
+
+async function main() {
+  const args = parseCliArgs(process.argv.slice(2));
+  const ci = args.ci === true;
+  const json = args.json === true;
+  const show = typeof args.show === 'string' ? args.show : null;
+  const colors = getColors(ci || json);
+  const c = colors;
+
+  const positional = (args._positional as string[]) || [];
+  const url = positional[0];
+
+  if (!url) {
+    console.error(`${c.red}Error: URL required. Usage: crux citations snapshots <url> [--show=<hash>]${c.reset}`);
+    process.exit(1);
+  }
+
+  if (show) {
+    const snapshot = findSnapshot(url, show);
+    const text = snapshot ? readArchivedText(snapshot.textSha256) : null;
+    if (!snapshot || text === null) {
+      console.error(`${c.red}No archived snapshot ${show} for ${url}${c.reset}`);
+      process.exit(1);
+    }
+    console.log(text);
+    process.exit(0);
+  }
+
+  const snapshots = listSnapshots(url);
+
+  if (json || ci) {
+    console.log(JSON.stringify(snapshots, null, 2));
+    process.exit(0);
+  }
+
+  if (snapshots.length === 0) {
+    console.log(`${c.yellow}No archived snapshots of ${url}.${c.reset}`);
+    console.log(`${c.dim}Snapshots are recorded whenever citation tools fetch a source.${c.reset}`);
+    process.exit(0);
+  }
+
+  console.log(`\n${c.bold}${c.blue}Snapshots: ${url}${c.reset}\n`);
+  for (const s of snapshots) {
+    console.log(
+      `  ${s.fetchedAt}  ${c.bold}${s.textSha256.slice(0, 12)}${c.reset}  HTTP ${s.httpStatus}  ${s.fetchMethod}`,
+    );
+    console.log(
+      `    ${c.dim}${s.contentType ?? 'unknown type'}, ${s.byteLength} bytes raw (${s.sha256.slice(0, 12)}), ${s.textLength} chars text${c.reset}`,
+    );
+    if (s.title) console.log(`    ${c.dim}Title: "${s.title}"${c.reset}`);
+  }
+  console.log('');
+
+  process.exit(0);
+}
+
+import { fileURLToPath } from 'url';
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((err: Error) => {
+    console.error('Error:', err.message);
+    process.exit(1);
+  });
+}
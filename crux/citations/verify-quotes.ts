@@ -1,8 +1,11 @@
 /**
  * Quote Re-Verification Script
  *
- * Re-fetches source content and verifies that stored quotes still exist.
- * Flags quotes that have disappeared due to content drift.
+ * Verifies stored quotes against the archived snapshot they were extracted
+ * from (see lib/citation/source-archive.ts), so sources that later change or
+ * vanish stay verifiable. Quotes without a local snapshot are checked against
+ * cached or re-fetched content. With --refetch, quotes that hold in their
+ * snapshot but are gone from the live source are reported as source changes.
  *
  * Usage:
  *   pnpm crux citations verify-quotes <page-id>
@@ -23,7 +26,12 @@ import {
   markQuoteVerified,
   markQuoteUnverified,
 } from '../lib/wiki-server/citations.ts';
-import { verifyQuoteInSource } from '../lib/quote-verifier.ts';
+import {
+  verifyQuoteInSnapshot,
+  verifyQuoteInSource,
+  type VerificationResult,
+} from '../lib/quote-verifier.ts';
+import { getQuoteSnapshot } from '../lib/citation/source-archive.ts';
 
 interface VerifyResult {
   pageId: string;
@@ -31,6 +39,56 @@ interface VerifyResult {
   stillValid: number;
   drifted: number;
   noSource: number;
+  /** Quotes checked against the archived snapshot they were extracted from */
+  fromSnapshot: number;
+  /** Quotes still in their snapshot but missing from the re-fetched source */
+  sourceChanged: number;
+}
+
+/**
+ * Current text of a source: a fresh fetch with --refetch, otherwise the
+ * memory cache, then PostgreSQL.
+ */
+async function loadCurrentSourceText(url: string, refetch: boolean): Promise<string | null> {
+  if (refetch) {
+    // Re-fetch the source (fetchCitationUrl also archives the new version)
+    const fetchResult = await fetchCitationUrl(url);
+    if (!fetchResult.fullText) return null;
+    // Update in-memory cache
+    setCachedContent(url, {
+      url,
+      fetchedAt: new Date().toISOString(),
+      httpStatus: fetchResult.httpStatus,
+      contentType: fetchResult.contentType,
+      pageTitle: fetchResult.pageTitle,
+      fullText: fetchResult.fullText,
+      contentLength: fetchResult.contentLength,
+    });
+    // Also push to PostgreSQL for cross-environment access
+    saveFetchResultToPostgres(url, fetchResult);
+    return fetchResult.fullText;
+  }
+
+  // Use cached content: memory cache first, then PostgreSQL
+  const cached = getCachedContent(url);
+  if (cached?.fullText) return cached.fullText;
+
+  // Try PostgreSQL (cross-environment cache)
+  const pgResult = await getCitationContentByUrl(url);
+  if (pgResult.ok && pgResult.data.fullText && pgResult.data.fullText.length > 0) {
+    // Store in memory cache for subsequent calls
+    setCachedContent(url, {
+      url,
+      fetchedAt: pgResult.data.fetchedAt,
+      httpStatus: pgResult.data.httpStatus,
+      contentType: pgResult.data.contentType,
+      pageTitle: pgResult.data.pageTitle,
+      fullText: pgResult.data.fullText,
+      contentLength: pgResult.data.contentLength,
+    });
+    return pgResult.data.fullText;
+  }
+  return null;
 }
 
 async function verifyQuotesForPage(
@@ -55,6 +113,8 @@ async function verifyQuotesForPage(
     stillValid: 0,
     drifted: 0,
     noSource: 0,
+    fromSnapshot: 0,
+    sourceChanged: 0,
   };
 
   for (const q of withQuotes) {
@@ -62,53 +122,34 @@ async function verifyQuotesForPage(
       process.stdout.write(`  [^${q.footnote}] `);
     }
 
-    let sourceText: string | null = null;
-
-    if (q.url) {
-      if (refetch) {
-        // Re-fetch the source
-        const fetchResult = await fetchCitationUrl(q.url);
-        if (fetchResult.fullText) {
-          sourceText = fetchResult.fullText;
-          // Update in-memory cache
-          setCachedContent(q.url, {
-            url: q.url,
-            fetchedAt: new Date().toISOString(),
-            httpStatus: fetchResult.httpStatus,
-            contentType: fetchResult.contentType,
-            pageTitle: fetchResult.pageTitle,
-            fullText: fetchResult.fullText,
-            contentLength: fetchResult.contentLength,
-          });
-          // Also push to PostgreSQL for cross-environment access
-          saveFetchResultToPostgres(q.url, fetchResult);
-        }
-      } else {
-        // Use cached content: memory cache first, then PostgreSQL
-        const cached = getCachedContent(q.url);
-        if (cached?.fullText) {
-          sourceText = cached.fullText;
-        } else {
-          // Try PostgreSQL (cross-environment cache)
-          const pgResult = await getCitationContentByUrl(q.url);
-          if (pgResult.ok && pgResult.data.fullText && pgResult.data.fullText.length > 0) {
-            sourceText = pgResult.data.fullText;
-            // Store in memory cache for subsequent calls
-            setCachedContent(q.url, {
-              url: q.url,
-              fetchedAt: pgResult.data.fetchedAt,
-              httpStatus: pgResult.data.httpStatus,
-              contentType: pgResult.data.contentType,
-              pageTitle: pgResult.data.pageTitle,
-              fullText: pgResult.data.fullText,
-              contentLength: pgResult.data.contentLength,
-            });
-          }
+    // Prefer the exact snapshot the quote was extracted from, when archived locally
+    const ref = q.url ? getQuoteSnapshot(pageId, q.footnote) : null;
+    const snapshotVerification = ref && ref.url === q.url
+      ? verifyQuoteInSnapshot(q.sourceQuote!, ref.textSha256)
+      : null;
+
+    // Current content is only needed without a snapshot, or to detect drift on --refetch
+    const sourceText = q.url && (refetch || !snapshotVerification)
+      ? await loadCurrentSourceText(q.url, refetch)
+      : null;
+
+    let verification: VerificationResult;
+    let note = '';
+    if (snapshotVerification && ref) {
+      result.fromSnapshot++;
+      verification = snapshotVerification;
+      note = ` [snapshot ${ref.textSha256.slice(0, 8)}, ${ref.fetchedAt.slice(0, 10)}]`;
+      if (refetch && verification.verified) {
+        if (sourceText === null) {
+          note += ' (source unavailable now)';
+        } else if (!verifyQuoteInSource(q.sourceQuote!, sourceText).verified) {
+          result.sourceChanged++;
+          note += ' (source has since changed)';
         }
       }
-    }
-
-    if (!sourceText) {
+    } else if (sourceText) {
+      verification = verifyQuoteInSource(q.sourceQuote!, sourceText);
+    } else {
       result.noSource++;
       if (verbose) {
         console.log('no source text available');
@@ -116,9 +157,6 @@ async function verifyQuotesForPage(
       continue;
     }
 
-    // Verify the stored quote against the source
-    const verification = verifyQuoteInSource(q.sourceQuote!, sourceText);
-
     if (verification.verified) {
       result.stillValid++;
       // Update verification status
@@ -130,7 +168,7 @@ async function verifyQuotesForPage(
       );
       if (verbose) {
         console.log(
-          `\u2713 still valid (${verification.method}, ${(verification.score * 100).toFixed(0)}%)`,
+          `\u2713 still valid (${verification.method}, ${(verification.score * 100).toFixed(0)}%)${note}`,
         );
       }
     } else {
@@ -144,7 +182,7 @@ async function verifyQuotesForPage(
       );
       if (verbose) {
         console.log(
-          `\u2717 DRIFTED (score: ${(verification.score * 100).toFixed(0)}%)`,
+          `\u2717 DRIFTED (score: ${(verification.score * 100).toFixed(0)}%)${note}`,
         );
       }
     }
@@ -221,6 +259,8 @@ async function main() {
     const totalValid = allResults.reduce((s, r) => s + r.stillValid, 0);
     const totalDrifted = allResults.reduce((s, r) => s + r.drifted, 0);
     const totalNoSource = allResults.reduce((s, r) => s + r.noSource, 0);
+    const totalFromSnapshot = allResults.reduce((s, r) => s + r.fromSnapshot, 0);
+    const totalSourceChanged = allResults.reduce((s, r) => s + r.sourceChanged, 0);
 
     if (json || ci) {
       console.log(
@@ -231,6 +271,8 @@ async function main() {
             stillValid: totalValid,
             drifted: totalDrifted,
             noSource: totalNoSource,
+            fromSnapshot: totalFromSnapshot,
+            sourceChanged: totalSourceChanged,
           },
           null,
           2,
@@ -249,6 +291,12 @@ async function main() {
       console.log(
         `  ${c.dim}No source:${c.reset}         ${totalNoSource}`,
       );
+      console.log(`  From snapshot:     ${totalFromSnapshot}`);
+      if (totalSourceChanged > 0) {
+        console.log(
+          `  ${c.yellow}Source changed:${c.reset}    ${totalSourceChanged}`,
+        );
+      }
 
       if (totalDrifted > 0) {
         console.log(
@@ -300,6 +348,10 @@ async function main() {
   console.log(`  ${c.green}Still valid:${c.reset}  ${result.stillValid}`);
   console.log(`  ${c.red}Drifted:${c.reset}      ${result.drifted}`);
   console.log(`  ${c.dim}No source:${c.reset}    ${result.noSource}`);
+  console.log(`  From snapshot: ${result.fromSnapshot}`);
+  if (result.sourceChanged > 0) {
+    console.log(`  ${c.yellow}Source changed:${c.reset} ${result.sourceChanged}`);
+  }
 
   console.log('');
   process.exit(result.drifted > 0 ? 1 : 0);
@@ -521,12 +521,14 @@ async function prBody(args: string[], options: AutoUpdateOptions): Promise<Comma
   const date = typeof options.date === 'string' ? options.date : new Date().toISOString().slice(0, 10);
   const citationSummary = typeof options.citations === 'string' ? options.citations : undefined;
   const riskSummary = typeof options.risk === 'string' ? options.risk : undefined;
+  const dataSummary = typeof options.data === 'string' ? options.data : undefined;
 
   const body = buildPrBody({
     reportPath,
     date,
     citationSummary,
     riskSummary,
+    dataSummary,
   });
 
   return { output: body, exitCode: 0 };
@@ -701,6 +703,7 @@ Options:
   --date=YYYY-MM-DD    (pr-body) Date string for PR title (default: today)
   --citations=MD       (pr-body) Citation summary markdown to include
   --risk=MD            (pr-body) Risk summary markdown to include
+  --data=MD            (pr-body) Factbase data-change summary markdown (see: crux kb diff --markdown)
   --verbose            Show detailed progress
   --json               Output as JSON
   --ci                 JSON output for CI pipelines
@@ -47,10 +47,22 @@ const SCRIPTS = {
   },
   'verify-quotes': {
     script: 'citations/verify-quotes.ts',
-    description: 'Re-verify stored quotes against fresh source content',
+    description: 'Re-verify stored quotes against their archived source snapshots',
     passthrough: ['ci', 'json', 'all', 'limit', 'refetch'],
     positional: true,
   },
+  drift: {
+    script: 'citations/drift.ts',
+    description: 'Re-fetch cited sources and flag quotes lost to content changes',
+    passthrough: ['ci', 'json', 'all', 'limit', 'dry-run'],
+    positional: true,
+  },
+  snapshots: {
+    script: 'citations/source-snapshots.ts',
+    description: 'List archived versions of a source URL',
+    passthrough: ['ci', 'json', 'show'],
+    positional: true,
+  },
   'check-accuracy': {
     script: 'citations/check-accuracy.ts',
     description: 'Check if wiki claims accurately represent cited sources',
@@ -121,9 +133,10 @@ Options:
   --all             Process all pages with citations
   --limit=N         Limit number of pages to process (with --all)
   --concurrency=N   Process N pages in parallel (default: 1)
-  --dry-run         Show what would be processed without running
+  --dry-run         Show what would be processed without running (drift: report only)
   --recheck         Re-process already-handled pages
   --refetch         Re-fetch source URLs (verify-quotes only)
+  --show=<hash>     Print the archived text of one snapshot (snapshots only)
   --broken          Show only broken citations/quotes
   --content-verify  (verify only) Also check if source content supports each claim
   --json            JSON output
@@ -141,6 +154,9 @@ Examples:
   crux citations quote-report                      Quote coverage stats
   crux citations quote-report --broken             Show drifted/broken quotes
   crux citations verify-quotes existential-risk    Re-verify stored quotes
+  crux citations drift existential-risk            Check one page's sources for changes
+  crux citations drift --all --dry-run             Report source drift without writing
+  crux citations snapshots https://example.com/report    Archived versions of a source
   crux citations check-accuracy existential-risk   Check claim accuracy vs sources
   crux citations check-accuracy --all              Batch accuracy check
   crux citations normalize-footnotes                Report footnote format issues
@@ -6,16 +6,31 @@
  * Usage:
  *   crux entity rename <old-id> <new-id>           # Preview rename
  *   crux entity rename <old-id> <new-id> --apply   # Apply rename
+ *   crux entity review                              # List pending match reviews
+ *   crux entity review accept <id> [entity] --apply # Accept and add YAML alias
+ *   crux entity duplicates                          # Find likely duplicate entities
+ *   crux entity merge <keep> <drop> --apply         # Merge drop into keep
  */
 
 import type { CommandOptions as BaseOptions, CommandResult } from '../lib/command-types.ts';
 import { runRename } from '../entity/entity-rename.ts';
+import { runReviewList, runReviewAccept, runReviewReject } from '../entity/entity-review.ts';
+import { runDuplicates } from '../entity/entity-duplicates.ts';
+import { runMerge } from '../entity/entity-merge.ts';
+import type { EntityReviewStatus } from '../lib/wiki-server/entity-resolution.ts';
 
 interface CommandOptions extends BaseOptions {
   apply?: boolean;
   verbose?: boolean;
   dryRun?: boolean;
   ci?: boolean;
+  status?: string;
+  source?: string;
+  limit?: string | number;
+  reviewedBy?: string;
+  minScore?: string | number;
+  type?: string;
+  json?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -55,12 +70,76 @@ Examples:
   return runRename(oldId, newId, { apply, verbose });
 }
 
+// ---------------------------------------------------------------------------
+// review command
+// ---------------------------------------------------------------------------
+
+const REVIEW_STATUSES: EntityReviewStatus[] = ['pending', 'accepted', 'rejected'];
+
+async function reviewCommand(
+  args: string[],
+  options: CommandOptions,
+): Promise<CommandResult> {
+  const [action = 'list', ...rest] = args.filter((a) => !a.startsWith('--'));
+  const reviewedBy = options.reviewedBy || process.env.USER || undefined;
+
+  switch (action) {
+    case 'list': {
+      const status = (options.status ?? 'pending') as EntityReviewStatus;
+      if (!REVIEW_STATUSES.includes(status)) {
+        return { exitCode: 1, output: `Error: --status must be one of ${REVIEW_STATUSES.join(', ')}` };
+      }
+      const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+      return runReviewList({ status, source: options.source, limit });
+    }
+    case 'accept': {
+      const apply = Boolean(options.apply) && !Boolean(options.dryRun);
+      return runReviewAccept(rest[0], rest[1], { reviewedBy, apply });
+    }
+    case 'reject':
+      return runReviewReject(rest[0], { reviewedBy });
+    default:
+      return {
+        exitCode: 1,
+        output: `Unknown review action: ${action}. Use list, accept <id> [entity] or reject <id>.`,
+      };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// duplicates / merge commands
+// ---------------------------------------------------------------------------
+
+async function duplicatesCommand(
+  _args: string[],
+  options: CommandOptions,
+): Promise<CommandResult> {
+  const minScore = options.minScore !== undefined ? Number(options.minScore) : undefined;
+  if (minScore !== undefined && !(minScore > 0 && minScore <= 1)) {
+    return { exitCode: 1, output: 'Error: --min-score must be between 0 and 1' };
+  }
+  const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+  return runDuplicates({ minScore, type: options.type, limit, json: Boolean(options.json) });
+}
+
+async function mergeCommand(
+  args: string[],
+  options: CommandOptions,
+): Promise<CommandResult> {
+  const [keepId, dropId] = args.filter((a) => !a.startsWith('--'));
+  const apply = Boolean(options.apply) && !Boolean(options.dryRun);
+  return runMerge(keepId, dropId, { apply, verbose: Boolean(options.verbose) });
+}
+
 // ---------------------------------------------------------------------------
 // Exports
 // ---------------------------------------------------------------------------
 
 export const commands = {
   rename: renameCommand,
+  review: reviewCommand,
+  duplicates: duplicatesCommand,
+  merge: mergeCommand,
 };
 
 export function getHelp(): string {
@@ -69,11 +148,31 @@ Entity Domain — Entity ID management tools
 
 Commands:
   rename <old-id> <new-id>   Safely rename an entity ID across all files
+  review [list]              List names importers could not confidently match
+  review accept <id> [entity]
+                             Confirm a match (default: top candidate) and add
+                             the name to the entity's YAML aliases
+  review reject <id>         Mark a name as matching none of the candidates
+  duplicates                 Find pairs of entities that look like the same
+                             person/org (names, websites, shared facts)
+  merge <keep> <drop>        Fold drop into keep: move facts and records,
+                             rewrite references, record drop's slug/stableId
+                             as previousSlugs/previousIds, update wiki-server
 
 Options:
   --apply       Write changes to disk (default: dry-run preview)
   --verbose     Show each matching line and its replacement
   --dry-run     Preview mode (default)
+  --status=<s>  review list: pending (default), accepted or rejected
+  --source=<s>  review list: filter by importer, e.g. grants:sff, key-persons
+  --limit=<n>   review list / duplicates: max entries (default: 50)
+  --min-score=<x>
+                duplicates: minimum pair score, 0–1 (default: 0.8)
+  --type=<t>    duplicates: only entities of this type
+  --json        duplicates: machine-readable output
+  --reviewed-by=<name>
+                review accept/reject: reviewer recorded on the review
+                (default: $USER)
 
 Why "rename" instead of find-replace:
   Plain string replace of "E6" also matches "E64", "E60", etc.
@@ -83,5 +182,10 @@ Examples:
   crux entity rename E6 ai-control              Preview changes
   crux entity rename E6 ai-control --apply      Apply changes
   crux entity rename old-slug new-slug --apply  Rename a slug
+  crux entity review --source=grants:sff        Pending reviews from SFF
+  crux entity review accept 42 --apply          Accept the top candidate
+  crux entity review accept 42 miri --apply     Accept a specific entity
+  crux entity duplicates --type=organization    Likely duplicate orgs
+  crux entity merge cais center-for-ai-safety   Preview a merge
 `;
 }
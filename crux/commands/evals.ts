@@ -13,11 +13,13 @@
  *   crux evals hunt --agent=description-auditor --page=miri [--no-llm]
  *   crux evals hunt --agent=cross-ref --limit=100
  *   crux evals inject <page-id> [--count=3] [--categories=wrong-number,exaggeration]
+ *   crux evals benchmark [--seed=N] [--pages=id1,id2] [--expensive] [--save-baseline]
+ *   crux evals compare <baseline|latest> [--tolerance=0.05] [--changed-since=origin/main]
  *   crux evals report
  */
 
-import { writeFile, mkdir } from 'node:fs/promises';
-import { join } from 'node:path';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, relative } from 'node:path';
 import type { CommandResult } from '../lib/cli.ts';
 import { createLogger } from '../lib/output.ts';
 
@@ -360,6 +362,132 @@ async function scan(_args: string[], options: Record<string, unknown>): Promise<
   return { output: out, exitCode: 0 };
 }
 
+/**
+ * Run the detection regression benchmark on a seeded corpus.
+ *
+ * pnpm crux evals benchmark [--seed=N] [--pages=id1,id2] [--categories=A,B]
+ *   [--count=N] [--detectors=A,B] [--expensive] [--save-baseline] [--notes=TEXT]
+ */
+async function benchmark(_args: string[], options: Record<string, unknown>): Promise<CommandResult> {
+  const log = createLogger(options.ci as boolean);
+  const c = log.colors;
+
+  const { DEFAULT_CONFIG, BASELINES_DIR, runBenchmark } = await import('../evals/benchmark.ts');
+  const { formatScoreReport } = await import('../evals/score.ts');
+  type DetectorName = import('../evals/types.ts').DetectorName;
+
+  const detectors = options.detectors
+    ? (options.detectors as string).split(',') as DetectorName[]
+    : options.expensive
+      ? [...DEFAULT_CONFIG.detectors, 'citation-auditor', 'adversarial-review'] as DetectorName[]
+      : DEFAULT_CONFIG.detectors;
+
+  const config = {
+    seed: options.seed != null ? parseInt(options.seed as string, 10) : DEFAULT_CONFIG.seed,
+    pages: (options.pages as string)?.split(',') ?? DEFAULT_CONFIG.pages,
+    categories: (options.categories as string)?.split(',') as import('../evals/types.ts').ErrorCategory[] ?? DEFAULT_CONFIG.categories,
+    errorsPerCategory: options.count != null ? parseInt(options.count as string, 10) : DEFAULT_CONFIG.errorsPerCategory,
+    detectors,
+  };
+
+  log.info(`Benchmarking ${config.detectors.join(', ')} on ${config.pages.length} pages (seed ${config.seed})...`);
+
+  let result: Awaited<ReturnType<typeof runBenchmark>>;
+  try {
+    result = await runBenchmark(config, { verbose: !!options.verbose });
+  } catch (err) {
+    return { output: `${c.red}${(err as Error).message}${c.reset}`, exitCode: 1 };
+  }
+  if (options.notes) result.notes = options.notes as string;
+
+  if (options.json) {
+    return { output: JSON.stringify(result, null, 2), exitCode: 0 };
+  }
+
+  // Every run is kept in results/ (gitignored); baselines are committed
+  const resultsDir = join(process.cwd(), 'crux/evals/results');
+  await mkdir(resultsDir, { recursive: true });
+  const resultFile = join(resultsDir, `benchmark-${Date.now()}.json`);
+  await writeFile(resultFile, JSON.stringify(result, null, 2) + '\n');
+
+  let output = '';
+  output += `${c.bold}Detection Benchmark${c.reset}\n\n`;
+  output += `Corpus: ${result.corpus.map(p => `${p.pageId} (${p.errorsInjected} errors)`).join(', ')}\n`;
+  output += formatScoreReport(result.scores) + '\n\n';
+
+  if (options.saveBaseline) {
+    const baselineFile = join(process.cwd(), BASELINES_DIR, `baseline-${result.runAt.slice(0, 10)}.json`);
+    await writeFile(baselineFile, JSON.stringify(result, null, 2) + '\n');
+    output += `${c.green}Baseline saved: ${relative(process.cwd(), baselineFile)}${c.reset}\n`;
+  }
+  output += `${c.dim}Duration: ${(result.durationMs / 1000).toFixed(1)}s | Results saved: ${resultFile}${c.reset}\n`;
+
+  return { output, exitCode: 0 };
+}
+
+/**
+ * Compare detection against a stored baseline. Exits 1 on regression.
+ *
+ * pnpm crux evals compare <baseline|latest> [--tolerance=0.05]
+ *   [--current=results/benchmark-N.json] [--changed-since=REF] [--verbose]
+ */
+async function compare(args: string[], options: Record<string, unknown>): Promise<CommandResult> {
+  const log = createLogger(options.ci as boolean);
+  const c = log.colors;
+
+  const baselineArg = args.find((a: string) => !a.startsWith('-'));
+  if (!baselineArg) {
+    return { output: `${c.red}Error: baseline required. Usage: crux evals compare <baseline|latest>${c.reset}`, exitCode: 1 };
+  }
+
+  const {
+    resolveBaselinePath, loadBaseline, runBenchmark, compareToBaseline, formatComparison, changedDetectorSources,
+  } = await import('../evals/benchmark.ts');
+  const root = process.cwd();
+  const tolerance = options.tolerance != null ? parseFloat(options.tolerance as string) : 0.05;
+
+  if (options.changedSince) {
+    const changed = changedDetectorSources(options.changedSince as string, root);
+    if (changed.length === 0) {
+      return { output: `${c.dim}No detector sources changed since ${options.changedSince} — skipping benchmark.${c.reset}`, exitCode: 0 };
+    }
+    log.info(`Detector sources changed: ${changed.join(', ')}`);
+  }
+
+  let baseline: Awaited<ReturnType<typeof loadBaseline>>;
+  let current: Awaited<ReturnType<typeof runBenchmark>>;
+  try {
+    baseline = await loadBaseline(await resolveBaselinePath(baselineArg, root));
+    if (options.current) {
+      current = JSON.parse(await readFile(options.current as string, 'utf-8'));
+    } else {
+      log.info(`Re-running baseline config: ${baseline.config.detectors.join(', ')} on ${baseline.config.pages.join(', ')} (seed ${baseline.config.seed})`);
+      current = await runBenchmark(baseline.config, { verbose: !!options.verbose });
+    }
+  } catch (err) {
+    return { output: `${c.red}${(err as Error).message}${c.reset}`, exitCode: 1 };
+  }
+
+  const comparison = compareToBaseline(baseline, current, tolerance);
+  // A baseline that cannot catch a regression fails too, so CI can't pass vacuously
+  const failed = comparison.regressions.length > 0 || comparison.blocking.length > 0;
+
+  if (options.json) {
+    return { output: JSON.stringify(comparison, null, 2), exitCode: failed ? 1 : 0 };
+  }
+
+  let output = '';
+  output += `${c.bold}Detection Benchmark Comparison${c.reset}\n\n`;
+  output += formatComparison(comparison, baseline.path, tolerance) + '\n\n';
+  output += comparison.blocking.length > 0
+    ? `${c.red}✗ ${baselineArg} cannot detect regressions${c.reset}\n`
+    : comparison.regressions.length > 0
+      ? `${c.red}✗ Detection regressed against ${baselineArg}${c.reset}\n`
+      : `${c.green}✓ No detection regressions against ${baselineArg}${c.reset}\n`;
+
+  return { output, exitCode: failed ? 1 : 0 };
+}
+
 // ---------------------------------------------------------------------------
 // Exports
 // ---------------------------------------------------------------------------
@@ -370,6 +498,8 @@ export const commands = {
   hunt,
   inject,
   scan,
+  benchmark,
+  compare,
 };
 
 export function getHelp(): string {
@@ -381,6 +511,8 @@ export function getHelp(): string {
   hunt      Run an adversarial agent on specific pages
   scan      Batch-scan pages with hunting agents (produces triage manifest)
   inject    Inject errors into a page (for manual inspection)
+  benchmark Score detectors on a seeded corpus (per-detector precision/recall)
+  compare   Compare detection against a stored baseline (exit 1 on regression)
 
 \x1b[1mBatch Scan (Phase 0 triage):\x1b[0m
   crux evals scan                                          Scan high-risk pages (no LLM, free)
@@ -400,6 +532,14 @@ export function getHelp(): string {
   crux evals hunt --agent=description-auditor --page=<id> [--no-llm]
   crux evals hunt --agent=cross-ref [--limit=100]
 
+\x1b[1mRegression Benchmark:\x1b[0m
+  crux evals benchmark                                     Static detectors, all categories, default seed
+  crux evals benchmark --expensive                         Add citation-auditor and adversarial-review
+  crux evals benchmark --save-baseline                     Store result in crux/evals/baselines/
+  crux evals compare latest                                Re-run the latest baseline's config and compare
+  crux evals compare latest --changed-since=origin/main    Only run if detector sources changed
+  crux evals compare latest --tolerance=0.1                Allow larger drops before failing
+
 \x1b[1mInject Errors:\x1b[0m
   crux evals inject <page-id> [--count=2] [--categories=wrong-number,exaggeration]
   crux evals inject <page-id> --output=/tmp/corrupted.mdx
@@ -420,9 +560,13 @@ export function getHelp(): string {
   --pages=ID,ID      Comma-separated page IDs
   --limit=N          Max pages for cross-ref scan
   --count=N          Errors per category for injection
-  --categories=A,B   Error categories: wrong-number, fabricated-claim, exaggeration, fabricated-citation, missing-nuance
+  --categories=A,B   Error categories: wrong-number, wrong-attribution, fabricated-citation, fabricated-claim,
+                     temporal-error, exaggeration, missing-nuance, entity-confusion
+  --seed=N           Seed for deterministic injection (benchmark)
+  --detectors=A,B    Detectors to benchmark: content-integrity, hallucination-risk, citation-auditor, adversarial-review
+  --tolerance=X      Allowed drop per metric before compare fails (default: 0.05)
   --no-llm           Skip LLM-based checks (cheaper, faster)
-  --expensive        Include expensive detectors (citation-auditor with network)
+  --expensive        Include expensive detectors (citation-auditor with network, adversarial-review)
   --verbose          Detailed output
   --output=PATH      Write corrupted content to file
 `;
@@ -9,7 +9,7 @@ import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import { mkdtempSync, writeFileSync, readFileSync, mkdirSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { commands, resolveEntityArg } from './factbase.ts';
+import { commands, resolveEntityArg, buildQuerySpec } from './factbase.ts';
 import { loadGraphFull } from '../lib/factbase-loader.ts';
 import {
   readEntityDocument,
@@ -51,6 +51,94 @@ describe('crux kb list', () => {
   }, 30_000);
 });
 
+describe('crux kb query', () => {
+  it('filters, sorts and selects columns', async () => {
+    const result = await commands.query(['headcount>500'], {
+      type: 'organization',
+      sort: '-headcount',
+      select: 'headcount',
+      ci: true,
+    });
+    expect(result.exitCode).toBe(0);
+    const data = JSON.parse(result.output);
+    expect(data.total).toBeGreaterThan(0);
+    const headcounts = data.rows.map((r: { values: { headcount: { value: { value: number } } } }) =>
+      r.values.headcount.value.value,
+    );
+    expect(headcounts.every((h: number) => h > 500)).toBe(true);
+    expect(headcounts).toEqual([...headcounts].sort((a: number, b: number) => b - a));
+  }, 30_000);
+
+  it('joins on record fields and resolves slugs', async () => {
+    const result = await commands.query([], {
+      type: 'organization',
+      hasRecord: 'investment.investor=microsoft',
+      ci: true,
+    });
+    expect(result.exitCode).toBe(0);
+    const names = JSON.parse(result.output).rows.map((r: { name: string }) => r.name);
+    expect(names).toContain('Anthropic');
+  }, 30_000);
+
+  it('prints an aggregate line in table mode', async () => {
+    const result = await commands.query(['headcount?'], { type: 'organization', agg: 'count' });
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toMatch(/count: \d+/);
+  }, 30_000);
+
+  it('shows usage when given no query', async () => {
+    const result = await commands.query([], {});
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain('Usage: crux kb query');
+  });
+
+  it('rejects malformed flags', async () => {
+    const result = await commands.query([], { agg: 'mode:revenue' });
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain('Invalid aggregate');
+  });
+
+  it('buildQuerySpec maps flags onto a QuerySpec', () => {
+    expect(
+      buildQuerySpec(['revenue>1e9'], {
+        type: 'organization,funder',
+        related: 'founded-by:dario-amodei',
+        sort: '+revenue',
+        limit: '5',
+        'as-of': '2024',
+      }),
+    ).toEqual({
+      where: [{ property: 'revenue', op: 'gt', value: 1e9 }],
+      type: ['organization', 'funder'],
+      related: [{ property: 'founded-by', includes: 'dario-amodei' }],
+      sort: { property: 'revenue', direction: 'asc' },
+      limit: 5,
+      asOf: '2024',
+    });
+  });
+});
+describe('crux kb diff', () => {
+  it('requires a base ref', async () => {
+    const result = await commands.diff([], {});
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain('Usage: crux kb diff');
+  });
+
+  it('rejects an unknown ref', async () => {
+    const result = await commands.diff(['no-such-ref-xyz'], {});
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain('Unknown git ref "no-such-ref-xyz"');
+  });
+
+  it('reports no changes between identical refs', async () => {
+    const result = await commands.diff(['HEAD', 'HEAD'], { ci: true });
+    expect(result.exitCode).toBe(0);
+    const diff = JSON.parse(result.output);
+    expect(diff.facts).toEqual({ added: [], removed: [], changed: [] });
+  }, 60_000);
+});
+
+
 describe('crux kb show', () => {
   it('shows entity details with facts and items', async () => {
     const result = await commands.show(['anthropic'], {});
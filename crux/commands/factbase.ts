@@ -8,12 +8,24 @@
  *   crux kb show <entity-id>       Show a single entity with all its data
  *   crux kb list [--type=X]        List all entities
  *   crux kb lookup <stableId>      Look up entity by stableId
+ *   crux kb query [predicates...]  Declarative cross-entity query
+ *   crux kb diff <git-ref>         Semantic diff of KB data against a git ref
  */
 
+import { readFileSync } from 'fs';
 import type { CommandOptions as BaseOptions, CommandResult } from '../lib/command-types.ts';
 
 import { formatFactValue } from '../../packages/factbase/src/format.ts';
 import { validate } from '../../packages/factbase/src/validate.ts';
+import {
+  runQuery,
+  parsePredicate,
+  parseSort,
+  parseRelated,
+  parseRecordFilter,
+  parseAggregate,
+} from '../../packages/factbase/src/query.ts';
+import type { QuerySpec } from '../../packages/factbase/src/query.ts';
 import type { Graph } from '../../packages/factbase/src/graph.ts';
 import type { Entity, Fact, RecordEntry, ValidationResult } from '../../packages/factbase/src/types.ts';
 import { commands as kbMigrateCommands } from './factbase-migrate.ts';
@@ -21,6 +33,7 @@ import { verifyCommand } from './factbase-verify.ts';
 import { lookupResourceByUrl, upsertResource } from '../lib/wiki-server/resources.ts';
 import { hashId, guessResourceType } from '../resource-utils.ts';
 import { loadGraphFull, loadGraph, resolveEntity, KB_DATA_DIR } from '../lib/factbase-loader.ts';
+import { diffKBAgainstRef, formatKBDiffMarkdown, formatKBDiffText } from '../lib/factbase-diff.ts';
 import type { LoadedKB } from '../lib/factbase-loader.ts';
 import {
   readEntityDocument,
@@ -43,6 +56,14 @@ interface KBCommandOptions extends BaseOptions {
   notes?: string;
   currency?: string;
   force?: boolean;
+  related?: string;
+  hasRecord?: string;
+  'has-record'?: string;
+  sort?: string;
+  select?: string;
+  agg?: string;
+  spec?: string;
+  markdown?: boolean;
 }
 
 // ── show command ────────────────────────────────────────────────────────
@@ -313,6 +334,182 @@ Examples:
   };
 }
 
+// ── query command ───────────────────────────────────────────────────────
+
+const QUERY_USAGE = `Usage: crux kb query [predicate...] [--type=X] [--related=P:ENTITY] [--has-record=SCHEMA.FIELD=VALUE]
+                     [--sort=-P] [--limit=N] [--select=P,Q] [--agg=OP:P] [--as-of=DATE] [--spec=FILE]
+
+  Query entities across the knowledge base. Predicates test each entity's latest fact:
+    headcount>500   legal-structure=PBC   founded-by~dario-amodei   revenue?   !revenue
+
+Examples:
+  crux kb query "headcount>500" --type=organization --sort=-revenue --select=revenue,headcount
+  crux kb query --has-record=investment.investor=microsoft --type=organization
+  crux kb query --related=employed-by:anthropic --type=person --as-of=2022-01
+  crux kb query "revenue?" --type=organization --agg=median:revenue
+  crux kb query --spec=query.json --ci`;
+
+/** Splits a comma-separated option into trimmed, non-empty parts. */
+function splitList(value: string | undefined): string[] {
+  if (!value || typeof value !== 'string') return [];
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Build a QuerySpec from CLI positionals (predicates) and flags.
+ * Flags override fields from --spec. Throws on malformed input.
+ */
+export function buildQuerySpec(args: string[], options: KBCommandOptions): QuerySpec {
+  const spec: QuerySpec = options.spec
+    ? (JSON.parse(readFileSync(String(options.spec), 'utf-8')) as QuerySpec)
+    : {};
+
+  const predicates = args.filter((a) => !a.startsWith('--')).map(parsePredicate);
+  if (predicates.length > 0) spec.where = [...(spec.where ?? []), ...predicates];
+
+  if (options.type) spec.type = splitList(options.type);
+
+  const related = splitList(options.related).map(parseRelated);
+  if (related.length > 0) spec.related = [...(spec.related ?? []), ...related];
+
+  const hasRecord = splitList(options.hasRecord ?? options['has-record']).map(parseRecordFilter);
+  if (hasRecord.length > 0) spec.hasRecord = [...(spec.hasRecord ?? []), ...hasRecord];
+
+  if (options.sort) spec.sort = parseSort(String(options.sort));
+  if (options.limit) spec.limit = parseInt(String(options.limit), 10);
+  if (options.select) spec.select = splitList(options.select);
+
+  if (options.agg) spec.aggregate = parseAggregate(String(options.agg));
+
+  const asOf = options.asOf ?? options['as-of'];
+  if (asOf) spec.asOf = String(asOf);
+
+  return spec;
+}
+
+async function queryCommand(
+  args: string[],
+  options: KBCommandOptions,
+): Promise<CommandResult> {
+  let spec: QuerySpec;
+  try {
+    spec = buildQuerySpec(args, options);
+  } catch (err: unknown) {
+    return { exitCode: 1, output: `${err instanceof Error ? err.message : String(err)}\n\n${QUERY_USAGE}` };
+  }
+  if (Object.keys(spec).length === 0) {
+    return { exitCode: 1, output: QUERY_USAGE };
+  }
+
+  const kb = await loadGraphFull();
+  const { graph } = kb;
+  const result = runQuery(graph, spec, {
+    resolveId: (ref) => resolveEntity(ref, kb)?.id,
+  });
+  const columns = spec.select ?? (spec.sort ? [spec.sort.property] : []);
+
+  if (options.ci) {
+    return {
+      exitCode: 0,
+      output: JSON.stringify({
+        total: result.total,
+        rows: result.rows.map(({ entity, values }) => ({
+          id: entity.id,
+          name: entity.name,
+          type: entity.type,
+          values: Object.fromEntries(
+            columns.map((c) => [c, values[c] ? { value: values[c]!.value, asOf: values[c]!.asOf } : null]),
+          ),
+        })),
+        ...(result.aggregate && { aggregate: result.aggregate }),
+      }),
+    };
+  }
+
+  const lines: string[] = [];
+  const header =
+    `${'ID'.padEnd(14)} ${'Name'.padEnd(28)} ${'Type'.padEnd(14)}` +
+    columns.map((c) => ` ${c.padEnd(20)}`).join('');
+  lines.push(`\x1b[1m${header}\x1b[0m`);
+  lines.push('-'.repeat(header.length));
+
+  for (const { entity, values } of result.rows) {
+    const cells = columns.map((c) => {
+      const fact = values[c];
+      if (!fact) return ` ${'—'.padEnd(20)}`;
+      const val = formatFactValue(fact, graph.getProperty(c), graph);
+      const asOf = fact.asOf ? ` (${fact.asOf})` : '';
+      return ` ${(val + asOf).padEnd(20)}`;
+    });
+    lines.push(`${entity.id.padEnd(14)} ${entity.name.padEnd(28)} ${entity.type.padEnd(14)}${cells.join('')}`);
+  }
+
+  lines.push('');
+  const shown = result.rows.length < result.total ? `${result.rows.length} of ${result.total}` : `${result.total}`;
+  lines.push(`${shown} matching entities${spec.asOf ? ` (as of ${spec.asOf})` : ''}`);
+
+  if (result.aggregate) {
+    const { op, property, value, count } = result.aggregate;
+    const formatted =
+      value === null
+        ? 'no numeric values'
+        : property && op !== 'count'
+          ? formatFactValue(
+              { id: '', subjectId: '', propertyId: property, value: { type: 'number', value } },
+              graph.getProperty(property),
+              graph,
+            )
+          : String(value);
+    lines.push(`${op}${property ? `(${property})` : ''}: ${formatted}${property ? ` over ${count} value(s)` : ''}`);
+  }
+
+  return { exitCode: 0, output: lines.join('\n') };
+}
+
+// ── Diff command ────────────────────────────────────────────────────────
+
+async function diffCommand(
+  args: string[],
+  options: KBCommandOptions,
+): Promise<CommandResult> {
+  const [baseRef, headRef] = args.filter((a) => !a.startsWith('--'));
+  if (!baseRef) {
+    return {
+      exitCode: 1,
+      output: `Usage: crux kb diff <base-ref> [<head-ref>] [--markdown] [--ci] [--limit=N]
+
+  Semantic diff of packages/factbase/data/ between two git refs (or a ref and
+  the working tree). Reports added, removed, and changed entities, facts, and
+  record entries by stable ID, with value deltas and source changes.
+
+Examples:
+  crux kb diff main
+  crux kb diff origin/main HEAD --markdown`,
+    };
+  }
+
+  let result: Awaited<ReturnType<typeof diffKBAgainstRef>>;
+  try {
+    result = await diffKBAgainstRef(baseRef, headRef);
+  } catch (err: unknown) {
+    return { exitCode: 1, output: `Error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  const { diff, before, after } = result;
+
+  if (options.ci) {
+    return { exitCode: 0, output: JSON.stringify(diff) };
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : undefined;
+  if (options.markdown) {
+    return {
+      exitCode: 0,
+      output: formatKBDiffMarkdown(diff, before.graph, after.graph, limit) ?? 'No factbase changes.',
+    };
+  }
+  return { exitCode: 0, output: formatKBDiffText(diff, before.graph, after.graph, limit) };
+}
+
 // ── Validate command ────────────────────────────────────────────────────
 
 async function validateCommand(
@@ -1156,6 +1353,8 @@ export const commands = {
   show: showCommand,
   list: listCommand,
   lookup: lookupCommand,
+  query: queryCommand,
+  diff: diffCommand,
   validate: validateCommand,
   properties: propertiesCommand,
   search: searchCommand,
@@ -1177,6 +1376,8 @@ Commands:
   show <entity-id>      Show a single entity with all data, resolving stableIds
   list [--type=X]       List all entities with name, type, stableId, and fact count
   lookup <stableId>     Look up an entity by its stableId
+  query [predicates]    Cross-entity query: filter, traverse refs, join records, sort, aggregate
+  diff <ref> [<ref>]    Semantic diff of KB data against a git ref (default head: working tree)
   validate              Run all KB validation checks
   properties [--type=X] List all property definitions with usage counts
   search <query>        Search entities by name, ID, or alias
@@ -1202,11 +1403,21 @@ Options:
   --source=URL          (add-fact) Source URL
   --notes=TEXT           (add-fact) Free-text annotation
   --currency=USD         (add-fact) ISO 4217 currency code
+  --related=P:ENTITY    (query) Entity must reference ENTITY via ref property P
+  --has-record=S.F=V    (query) Entity must own a record of schema S with field F = V
+  --sort=-P             (query) Sort by property P (- descending, + ascending)
+  --select=P,Q          (query) Properties to show as columns
+  --agg=OP:P            (query) Aggregate: count, sum, mean, median, min, max
+  --as-of=YYYY-MM       (query) Evaluate as of a date
+  --spec=FILE           (query) Load a JSON QuerySpec
+  --markdown            (diff) Markdown output for PR bodies
 
 Examples:
   crux kb show anthropic              Show Anthropic with all facts and items
   crux kb list --type=person          List only person entities
   crux kb search anthropic            Find entities matching "anthropic"
+  crux kb query "headcount>500" --type=organization --sort=-revenue
+  crux kb diff origin/main            What this branch changes in KB data
   crux kb fact f_dW5cR9mJ8q           Show fact details
   crux kb stale 90                    Facts older than 90 days
   crux kb needs-update anthropic      What's missing for Anthropic
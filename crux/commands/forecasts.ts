@@ -0,0 +1,169 @@
+/**
+ * Forecast Snapshot Commands
+ *
+ * Ingest exported forecasting-platform questions into data/page-forecasts.yaml.
+ * Works entirely from files, so CI runs are deterministic.
+ *
+ * Usage:
+ *   pnpm crux forecasts import                          # All files in data/forecast-snapshots/
+ *   pnpm crux forecasts import path/to/metaculus.json   # Specific files
+ *   pnpm crux forecasts import --dry-run                # Report without writing
+ */
+
+import type { CommandResult } from "../lib/cli.ts";
+import { readFileSync, writeFileSync, existsSync, readdirSync } from "fs";
+import { join, relative, extname, resolve } from "path";
+import { parse, stringify } from "yaml";
+import { PROJECT_ROOT } from "../lib/content-types.ts";
+import { parseSnapshotFile } from "../lib/forecast-import/parsers.ts";
+import { buildEntityIndex, matchQuestion, DEFAULT_MIN_RELEVANCE } from "../lib/forecast-import/matcher.ts";
+import { mergeForecasts, emptyPageForecastsFile } from "../lib/forecast-import/merge.ts";
+import type { ForecastQuestion, MatchableEntity, PageForecastsFile } from "../lib/forecast-import/types.ts";
+
+const DATA_DIR = join(PROJECT_ROOT, "data");
+const SNAPSHOT_DIR = join(DATA_DIR, "forecast-snapshots");
+const PAGE_FORECASTS_YAML = join(DATA_DIR, "page-forecasts.yaml");
+
+const FILE_HEADER = `# Page-Forecast Mappings
+# Generated by \`crux forecasts import\` from snapshot files in data/forecast-snapshots/.
+# Question history is merged across imports; edit only links with discoveredVia: manual.
+`;
+
+function loadEntities(): MatchableEntity[] {
+  const dir = join(DATA_DIR, "entities");
+  const entities: MatchableEntity[] = [];
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".yaml")).sort()) {
+    const items = parse(readFileSync(join(dir, file), "utf-8")) as MatchableEntity[] | null;
+    for (const e of items ?? []) {
+      if (e?.id && e.title) entities.push({ id: e.id, title: e.title, aliases: e.aliases, tags: e.tags });
+    }
+  }
+  return entities;
+}
+
+function loadPageForecasts(): PageForecastsFile {
+  if (!existsSync(PAGE_FORECASTS_YAML)) return emptyPageForecastsFile();
+  const data = parse(readFileSync(PAGE_FORECASTS_YAML, "utf-8")) as Partial<PageForecastsFile> | null;
+  return { questions: data?.questions ?? {}, pages: data?.pages ?? {} };
+}
+
+function snapshotFiles(args: string[]): string[] {
+  const explicit = args.filter((a) => !a.startsWith("--"));
+  if (explicit.length > 0) return explicit.map((f) => resolve(f));
+  if (!existsSync(SNAPSHOT_DIR)) return [];
+  return readdirSync(SNAPSHOT_DIR)
+    .filter((f) => [".json", ".csv"].includes(extname(f).toLowerCase()))
+    .sort()
+    .map((f) => join(SNAPSHOT_DIR, f));
+}
+
+/**
+ * Import command: parse snapshot files, match questions to pages, and merge
+ * into data/page-forecasts.yaml.
+ */
+async function importSnapshots(
+  args: string[],
+  options: Record<string, unknown>
+): Promise<CommandResult> {
+  const dryRun = options.dryRun === true;
+  const minRelevance = options.minRelevance !== undefined ? Number(options.minRelevance) : DEFAULT_MIN_RELEVANCE;
+  const lines: string[] = [];
+
+  const files = snapshotFiles(args);
+  if (files.length === 0) {
+    return {
+      output: `No snapshot files found. Drop Metaculus, Manifold, or Metaforecast exports (.json/.csv) into ${relative(PROJECT_ROOT, SNAPSHOT_DIR)}/`,
+      exitCode: 1,
+    };
+  }
+
+  // Parse every file before writing anything, so a bad file aborts the import
+  const imported = new Map<string, ForecastQuestion>();
+  for (const file of files) {
+    let parsed;
+    try {
+      parsed = parseSnapshotFile(file, readFileSync(file, "utf-8"));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { output: `Failed to parse ${relative(PROJECT_ROOT, file)}: ${message}`, exitCode: 1 };
+    }
+    lines.push(`${relative(PROJECT_ROOT, file)} (${parsed.format}): ${parsed.questions.length} questions`);
+    for (const reason of parsed.skipped) lines.push(`  skipped ${reason}`);
+
+    for (const q of parsed.questions) {
+      // The same question may appear in several files (e.g. Metaculus and Metaforecast)
+      const prev = imported.get(q.id);
+      imported.set(q.id, prev ? { ...q, tags: [...prev.tags, ...q.tags], history: [...prev.history, ...q.history] } : q);
+    }
+  }
+
+  const index = buildEntityIndex(loadEntities());
+  const { file, newQuestions, newReadings } = mergeForecasts(
+    loadPageForecasts(),
+    [...imported.values()],
+    (question) => matchQuestion(question, index, minRelevance),
+  );
+
+  const linked = Object.values(file.pages).reduce((n, links) => n + links.length, 0);
+  lines.push("");
+  lines.push(`${imported.size} questions imported (${newQuestions} new, ${newReadings} new daily readings)`);
+  lines.push(`${Object.keys(file.questions).length} questions stored, ${linked} links across ${Object.keys(file.pages).length} pages`);
+
+  const unmatched = Object.keys(file.questions).filter(
+    (id) => !Object.values(file.pages).some((links) => links.some((l) => l.id === id))
+  );
+  if (unmatched.length > 0) {
+    lines.push(`${unmatched.length} questions match no page (add a manual link or entity alias):`);
+    for (const id of unmatched) lines.push(`  ${id}: ${file.questions[id].title}`);
+  }
+
+  if (dryRun) {
+    lines.push(`\nDry run — ${relative(PROJECT_ROOT, PAGE_FORECASTS_YAML)} not written`);
+  } else {
+    writeFileSync(PAGE_FORECASTS_YAML, FILE_HEADER + stringify(file, { lineWidth: 0 }));
+    lines.push(`\nWritten to ${relative(PROJECT_ROOT, PAGE_FORECASTS_YAML)}`);
+  }
+
+  return { output: lines.join("\n"), exitCode: 0 };
+}
+
+export const commands: Record<
+  string,
+  (
+    args: string[],
+    options: Record<string, unknown>
+  ) => Promise<CommandResult>
+> = {
+  import: importSnapshots,
+  default: importSnapshots,
+};
+
+export function getHelp(): string {
+  return `
+Forecasts Domain - Forecast snapshots for wiki pages
+
+Commands:
+  import          Import snapshot files into data/page-forecasts.yaml (default)
+
+Snapshot formats (.json or .csv in data/forecast-snapshots/):
+  Metaculus       API export ({ results } page or array of posts)
+  Manifold        Market or array of markets, optionally with embedded bets
+  Metaforecast    GraphQL export ({ data: { questions: { edges } } })
+  CSV             One row per reading: id, title, date, probability
+                  (+ optional url, platform, tags). Platform comes from a
+                  platform column or a metaculus-/manifold-/metaforecast-
+                  file-name prefix.
+
+Questions are matched to pages by entity name (title, aliases, ID) in the
+question title and by overlap between platform categories and entity tags.
+
+Options:
+  --dry-run             Report what would change without writing
+  --min-relevance=<n>   Minimum match relevance, 0-1 (default: ${DEFAULT_MIN_RELEVANCE})
+
+Examples:
+  crux forecasts import
+  crux forecasts import --dry-run
+  crux forecasts import data/forecast-snapshots/manifold-2025-06.json
+`;
+}
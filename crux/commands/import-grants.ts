@@ -16,6 +16,8 @@
  */
 
 import { buildEntityMatcher } from "../lib/grant-import/entity-matcher.ts";
+import { toReviewItem, submitReviewItems } from "../lib/entity-resolution.ts";
+import type { EntityReviewItemInput } from "../lib/wiki-server/entity-resolution.ts";
 import { toSyncGrant, syncToServer } from "../lib/grant-import/sync.ts";
 import {
   printMatchStats,
@@ -26,7 +28,7 @@ import {
 } from "../lib/grant-import/analysis.ts";
 import { printDuplicateAnalysis, deduplicateGrants } from "../lib/grant-import/dedup.ts";
 import { ALL_SOURCES } from "../lib/grant-import/sources/index.ts";
-import type { GrantSource, RawGrant, SyncGrant } from "../lib/grant-import/types.ts";
+import type { EntityMatcher, GrantSource, RawGrant, SyncGrant } from "../lib/grant-import/types.ts";
 
 /** Map from source ID to sourceUrl, built once from ALL_SOURCES */
 const SOURCE_URL_MAP = new Map(ALL_SOURCES.map(s => [s.id, s.sourceUrl]));
@@ -52,6 +54,19 @@ function filterSources(sourceFilter?: string): GrantSource[] {
   return [src];
 }
 
+/**
+ * Move the grantee names the matcher found plausible-but-unconfirmed into
+ * review-queue items tagged with the source they came from.
+ */
+function takeUnconfirmed(matcher: EntityMatcher, sourceId: string): EntityReviewItemInput[] {
+  if (!matcher.unconfirmed) return [];
+  const items = [...matcher.unconfirmed].map(([name, matches]) =>
+    toReviewItem({ name }, matches, `grants:${sourceId}`)
+  );
+  matcher.unconfirmed.clear();
+  return items;
+}
+
 async function cmdAnalyze(sourceFilter?: string) {
   const sources = filterSources(sourceFilter);
   const matcher = buildEntityMatcher();
@@ -59,10 +74,12 @@ async function cmdAnalyze(sourceFilter?: string) {
   console.log("=== Grant Import Analysis ===\n");
 
   const allGrants: RawGrant[] = [];
+  let unconfirmed = 0;
 
   for (const src of sources) {
     await src.ensureData();
     const grants = await src.parse(matcher);
+    unconfirmed += takeUnconfirmed(matcher, src.id).length;
     const total = grants.reduce((s, g) => s + (g.amount || 0), 0);
 
     const scale = total > 1e9 ? `$${(total / 1e9).toFixed(2)}B` : `$${(total / 1e6).toFixed(1)}M`;
@@ -85,6 +102,9 @@ async function cmdAnalyze(sourceFilter?: string) {
   printMatchStats(allGrants);
   printProgramMatchStats(allGrants);
   printTopUnmatched(allGrants);
+  if (unconfirmed > 0) {
+    console.log(`${unconfirmed} grantee names had plausible but unconfirmed matches (queued for review on sync)\n`);
+  }
 
   const syncGrants = allGrants.map(g => {
     return toSyncGrant(g, sourceUrlFor(g.source));
@@ -103,10 +123,12 @@ async function cmdSync(dryRun: boolean, sourceFilter?: string, dedup = false) {
   const matcher = buildEntityMatcher();
 
   let allGrants: RawGrant[] = [];
+  const reviewItems: EntityReviewItemInput[] = [];
 
   for (const src of sources) {
     await src.ensureData();
     const grants = await src.parse(matcher);
+    reviewItems.push(...takeUnconfirmed(matcher, src.id));
     console.log(`${src.name}: ${grants.length} grants`);
     allGrants.push(...grants);
   }
@@ -137,6 +159,16 @@ async function cmdSync(dryRun: boolean, sourceFilter?: string, dedup = false) {
   }
 
   await syncToServer(syncGrants, dryRun);
+
+  if (reviewItems.length > 0) {
+    if (dryRun) {
+      console.log(`[dry-run] Would queue ${reviewItems.length} grantee names for entity review`);
+    } else {
+      const { queued, error } = await submitReviewItems(reviewItems);
+      console.log(`Queued ${queued} grantee names for entity review (crux entity review)`);
+      if (error) console.warn(`  Review queue unavailable: ${error}`);
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
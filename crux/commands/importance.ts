@@ -1,8 +1,8 @@
 /**
  * Importance Command Handlers
  *
- * Manage importance rankings — ordered lists of pages from which 0-100 scores
- * are derived. Two dimensions:
+ * Manage importance rankings — orderings fitted (Bradley–Terry) to pairwise
+ * judgments, from which 0-100 scores are derived. Two dimensions:
  *   - readership: How important is this page for readers? (default)
  *   - research:   How much value would deeper investigation yield?
  */
@@ -16,6 +16,17 @@ const SCRIPTS: Record<string, ScriptConfig> = {
     description: 'Show current importance rankings',
     passthrough: ['ci', 'top', 'unranked', 'dimension'],
   },
+  compare: {
+    script: 'importance/compare.ts',
+    description: 'Judge the most informative page pairs and record them',
+    passthrough: ['ci', 'apply', 'pairs', 'judge', 'model', 'dimension'],
+    positional: true,
+  },
+  fit: {
+    script: 'importance/fit.ts',
+    description: 'Fit the ranking to recorded comparisons (with intervals)',
+    passthrough: ['ci', 'apply', 'top', 'dimension'],
+  },
   sync: {
     script: 'importance/sync.ts',
     description: 'Derive 0-100 scores from rankings and write to frontmatter',
@@ -27,10 +38,10 @@ const SCRIPTS: Record<string, ScriptConfig> = {
     passthrough: ['ci', 'batch', 'auto', 'dimension'],
     positional: true,
   },
-  seed: {
-    script: 'importance/seed.ts',
-    description: 'Bootstrap ranking from existing importance scores',
-    passthrough: ['ci', 'apply'],
+  import: {
+    script: 'importance/import.ts',
+    description: 'Convert the current ordered ranking into comparisons (one-time)',
+    passthrough: ['ci', 'apply', 'judge', 'dimension'],
   },
   rerank: {
     script: 'importance/rerank.ts',
@@ -57,35 +68,43 @@ Two ranking dimensions:
   readership (default) — How important is this page for readers?
   research             — How much value would deeper investigation yield?
 
-Rankings are ordered lists of page IDs (most important first).
-Scores (0-100) are derived from position and written to frontmatter.
+Pairwise judgments (page A vs page B, judge, rationale) are the source of
+truth. A Bradley–Terry fit orders the pages and regenerates the ranking YAML;
+scores (0-100) are derived from position and written to frontmatter.
 
 Commands:
 ${commandList}
 
 Workflow:
-  1. crux importance rerank --all --apply                       # Readership ranking
-  2. crux importance rerank --dimension=research --all --apply  # Research ranking
-  3. crux importance show --top=30                              # Review readership
-  4. crux importance show --dimension=research --top=30         # Review research
-  5. crux importance sync --apply                               # Write both to frontmatter
+  1. crux importance compare --pairs=30 --apply                 # Judge informative pairs
+  2. crux importance compare --dimension=research --apply       # Same for research
+  3. crux importance fit --top=30                               # Review with intervals
+  4. crux importance sync --apply                               # Write both to frontmatter
 
 Files:
-  data/importance-ranking.yaml   Readership ranking
-  data/research-ranking.yaml     Research importance ranking
+  data/importance-comparisons/<dimension>.yaml   Pairwise judgments (source of truth)
+  data/reader-importance-ranking.yaml            Readership ranking (generated)
+  data/research-ranking.yaml                     Research ranking (generated)
 
 Options:
   --dimension=<d>   Ranking dimension: readership (default) or research
-  --top=<n>         Show top N pages (show)
+  --top=<n>         Show top N pages (show, fit)
+  --pairs=<n>       Number of pairs to judge (compare, default 10)
+  --judge=<j>       human:<name> or llm:<model> (compare, import)
   --unranked        Also list unranked pages (show)
   --batch=<n>       Rank N unranked pages (rank)
   --sample=<n>      Test with N diverse pages (rerank)
   --all             Rerank all pages (rerank)
   --verify          Fix local inversions in existing ranking (rerank)
-  --model=<m>       Model: haiku (default) or sonnet (rerank)
+  --model=<m>       Model: haiku (default) or sonnet (rerank, compare)
   --apply           Write changes
 
 Examples:
+  crux importance compare                          # Preview the next pairs
+  crux importance compare --pairs=20 --apply
+  crux importance compare --judge=human:ozzie --apply
+  crux importance compare new-page --pairs=5 --apply
+  crux importance fit --dimension=research --top=20
   crux importance show --top=20
   crux importance show --dimension=research --top=20
   crux importance rerank --sample=20
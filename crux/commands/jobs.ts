@@ -7,9 +7,10 @@
  *   crux jobs                                     List recent jobs
  *   crux jobs list [--status=X] [--type=X]        List jobs with filters
  *   crux jobs create <type> [--params='{}']       Create a job
+ *     [--depends-on=1,2] [--run-after=<ISO>]      ...after other jobs / not before a time
  *   crux jobs status <id>                         Show single job details
  *   crux jobs cancel <id>                         Cancel a pending/claimed job
- *   crux jobs retry <id>                          Reset a failed job to pending
+ *   crux jobs retry <id>                          Reset a failed/cancelled job to pending
  *   crux jobs sweep                               Trigger stale job cleanup
  *   crux jobs ping                                Create a ping job (smoke test)
  */
@@ -17,16 +18,16 @@
 import { createLogger, type Colors } from '../lib/output.ts';
 import {
   createJob,
-  createJobBatch,
   listJobs,
   getJob,
   cancelJob,
+  retryJob,
   sweepJobs,
   getJobStats,
   type JobEntry,
 } from '../lib/wiki-server/jobs.ts';
-import { apiRequest, type ApiResult } from '../lib/wiki-server/client.ts';
 import { getRegisteredTypes } from '../lib/job-handlers/index.ts';
+import { submitJobGraph, type JobGraphNode } from '../lib/job-handlers/job-graph.ts';
 import type { CommandOptions as BaseOptions, CommandResult } from '../lib/command-types.ts';
 import { parseIntOpt } from '../lib/cli.ts';
 
@@ -43,6 +44,9 @@ interface CommandOptions extends BaseOptions {
   priority?: string;
   maxRetries?: string;
   limit?: string;
+  dependsOn?: string;
+  runAfter?: string;
+  idempotencyKey?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -187,7 +191,38 @@ async function create(args: string[], options: CommandOptions): Promise<CommandR
   const priority = parseIntOpt(options.priority, 0);
   const maxRetries = parseIntOpt(options.maxRetries, 3);
 
-  const result = await createJob({ type, params, priority, maxRetries });
+  let dependsOn: number[] | undefined;
+  if (options.dependsOn) {
+    dependsOn = String(options.dependsOn).split(',').map((id) => parseInt(id.trim(), 10));
+    if (dependsOn.some((id) => !Number.isInteger(id) || id <= 0)) {
+      return {
+        output: `${c.red}Error: --depends-on must be a comma-separated list of job IDs${c.reset}\n`,
+        exitCode: 1,
+      };
+    }
+  }
+
+  let runAfter: string | undefined;
+  if (options.runAfter) {
+    const date = new Date(options.runAfter);
+    if (isNaN(date.getTime())) {
+      return {
+        output: `${c.red}Error: --run-after must be an ISO timestamp${c.reset}\n`,
+        exitCode: 1,
+      };
+    }
+    runAfter = date.toISOString();
+  }
+
+  const result = await createJob({
+    type,
+    params,
+    priority,
+    maxRetries,
+    dependsOn,
+    runAfter,
+    idempotencyKey: options.idempotencyKey || undefined,
+  });
 
   if (!result.ok) return handleApiError(result, c);
 
@@ -197,6 +232,8 @@ async function create(args: string[], options: CommandOptions): Promise<CommandR
   output += `  Type: ${c.bold}${job.type}${c.reset}\n`;
   output += `  Priority: ${job.priority}\n`;
   if (params) output += `  Params: ${JSON.stringify(params)}\n`;
+  if (job.dependsOn) output += `  Depends on: ${job.dependsOn.map((id) => `#${id}`).join(', ')}\n`;
+  if (job.runAfter) output += `  Run after: ${formatTimestamp(job.runAfter)}\n`;
 
   if (options.json) {
     return { output: JSON.stringify(job, null, 2), exitCode: 0 };
@@ -237,9 +274,17 @@ async function status(args: string[], options: CommandOptions): Promise<CommandR
   output += `  Priority:   ${job.priority}\n`;
   output += `  Retries:    ${job.retries} / ${job.maxRetries}\n`;
   output += `  Worker:     ${job.workerId ?? '—'}\n`;
+  if (job.dependsOn) {
+    output += `  Depends on: ${job.dependsOn.map((id) => `#${id}`).join(', ')}\n`;
+  }
+  if (job.idempotencyKey) {
+    output += `  Key:        ${job.idempotencyKey}\n`;
+  }
   output += `  Created:    ${formatTimestamp(job.createdAt)}\n`;
+  output += `  Run after:  ${formatTimestamp(job.runAfter)}\n`;
   output += `  Claimed:    ${formatTimestamp(job.claimedAt)}\n`;
   output += `  Started:    ${formatTimestamp(job.startedAt)}\n`;
+  output += `  Lease:      ${formatTimestamp(job.leaseExpiresAt)}\n`;
   output += `  Completed:  ${formatTimestamp(job.completedAt)}\n`;
   output += `  Duration:   ${formatDuration(job.startedAt, job.completedAt)}\n`;
 
@@ -287,7 +332,7 @@ async function cancel(args: string[], options: CommandOptions): Promise<CommandR
 }
 
 /**
- * Retry a failed job (reset to pending).
+ * Retry a failed or cancelled job (reset to pending). Needs an admin-scoped key.
  */
 async function retry(args: string[], options: CommandOptions): Promise<CommandResult> {
   const log = createLogger(options.ci);
@@ -301,11 +346,7 @@ async function retry(args: string[], options: CommandOptions): Promise<CommandRe
     };
   }
 
-  // Use a direct API request to reset to pending
-  const result = await apiRequest<JobEntry>('POST', `/api/jobs/${id}/fail`, {
-    error: 'Manual retry requested',
-  });
-
+  const result = await retryJob(id);
   if (!result.ok) return handleApiError(result, c);
 
   return {
@@ -476,8 +517,11 @@ async function batch(args: string[], options: CommandOptions): Promise<CommandRe
   output += `  Items: ${items.length}\n`;
   output += `  Tier: ${tier}\n\n`;
 
-  // Create individual content jobs
-  const jobInputs = items.map((item, i) => ({
+  // One content job per item, plus a batch-commit that runs once they all
+  // complete (and is cancelled by the server if any of them fails)
+  const contentNodes: JobGraphNode[] = [...new Set(items)].map((item) => ({
+    key: `content:${item}`,
+    idempotencyKey: `${batchId}:${subcommand}:${item}`,
     type: subcommand === 'improve' ? 'page-improve' : 'page-create',
     params: subcommand === 'improve'
       ? { pageId: item, tier, batchId, directions: options.directions as string || undefined }
@@ -486,59 +530,39 @@ async function batch(args: string[], options: CommandOptions): Promise<CommandRe
     maxRetries: 2,
   }));
 
-  const childJobIds: number[] = [];
-  const batchResult = await createJobBatch(jobInputs);
-
-  if (batchResult.ok) {
-    for (const job of batchResult.data) {
-      childJobIds.push(job.id);
-      output += `  ${c.green}✓${c.reset} Created job #${job.id} (${job.type})\n`;
-    }
-  } else {
-    // Fall back to individual creation
-    for (const input of jobInputs) {
-      const singleResult = await createJob(input);
-      if (singleResult.ok) {
-        childJobIds.push(singleResult.data.id);
-        output += `  ${c.green}✓${c.reset} Created job #${singleResult.data.id}\n`;
-      } else {
-        output += `  ${c.red}✗${c.reset} Failed to create job: ${singleResult.message}\n`;
-      }
-    }
-  }
+  const graphResult = await submitJobGraph([
+    ...contentNodes,
+    {
+      key: 'commit',
+      idempotencyKey: `${batchId}:commit`,
+      type: 'batch-commit',
+      params: { batchId, prTitle, prLabels: ['batch'] },
+      priority: 1,
+      maxRetries: 3,
+      after: contentNodes.map((node) => node.key),
+    },
+  ]);
 
-  if (childJobIds.length === 0) {
-    output += `\n${c.red}Error: No jobs were created.${c.reset}\n`;
+  if (!graphResult.ok) {
+    output += `${c.red}Error: No jobs were created: ${graphResult.message}${c.reset}\n`;
+    output += `${c.dim}Re-running with --batch-id=${batchId} will not duplicate jobs that were created.${c.reset}\n`;
     return { output, exitCode: 1 };
   }
 
-  // Create the batch-commit job
-  const commitResult = await createJob({
-    type: 'batch-commit',
-    params: {
-      batchId,
-      childJobIds,
-      prTitle,
-      prLabels: ['batch'],
-    },
-    priority: 1,
-    maxRetries: 5,
-  });
+  const childJobIds = contentNodes.map((node) => graphResult.data[node.key].id);
+  const commitJobId = graphResult.data.commit.id;
 
-  if (commitResult.ok) {
-    output += `\n  ${c.green}✓${c.reset} Created batch-commit job #${commitResult.data.id}\n`;
-  } else {
-    output += `\n  ${c.yellow}⚠${c.reset} Failed to create batch-commit job: ${commitResult.message}\n`;
-    output += `  You can create it manually:\n`;
-    output += `  ${c.dim}crux jobs create batch-commit --params='${JSON.stringify({ batchId, childJobIds, prTitle })}'${c.reset}\n`;
+  for (const node of contentNodes) {
+    output += `  ${c.green}✓${c.reset} Created job #${graphResult.data[node.key].id} (${node.type})\n`;
   }
+  output += `\n  ${c.green}✓${c.reset} Created batch-commit job #${commitJobId} (runs after #${childJobIds.join(', #')})\n`;
 
   output += `\n${c.bold}Batch "${batchId}" created with ${childJobIds.length} content jobs.${c.reset}\n`;
   output += `${c.dim}Jobs will be processed by workers. Monitor: crux jobs list --type=page-improve${c.reset}\n`;
 
   if (options.json) {
     return {
-      output: JSON.stringify({ batchId, childJobIds, commitJobId: commitResult.ok ? commitResult.data.id : null }),
+      output: JSON.stringify({ batchId, childJobIds, commitJobId }),
       exitCode: 0,
     };
   }
@@ -637,7 +661,7 @@ Commands:
   create <type>   Create a new job
   status <id>     Show single job details
   cancel <id>     Cancel a pending/claimed job
-  retry <id>      Reset a failed job to pending
+  retry <id>      Reset a failed/cancelled job to pending (admin key)
   sweep           Trigger stale job cleanup
   ping            Create a ping job and wait for completion (smoke test)
   stats           Show aggregate job statistics
@@ -652,11 +676,14 @@ Options:
   --params='{}'   JSON parameters for job creation
   --priority=N    Job priority (higher = more urgent, default: 0)
   --max-retries=N Max retry attempts (default: 3)
+  --depends-on=1,2  Only run after these jobs complete (cancelled if one fails)
+  --run-after=X   Don't run before this ISO timestamp
+  --idempotency-key=X  Return the existing job instead of creating a duplicate
   --json          JSON output
 
 Batch Options:
   --tier=X        Tier for content jobs (polish/standard/deep or budget/standard/premium)
-  --batch-id=X    Custom batch identifier
+  --batch-id=X    Custom batch identifier (re-running with the same ID adds no duplicates)
   --pr-title=X    Custom PR title for batch commit
   --directions=X  Improvement directions (for batch improve)
 
@@ -681,6 +708,8 @@ Examples:
                                                 Create a page improve job
   crux jobs batch improve ai-safety miri --tier=polish
                                                 Batch improve two pages
+  crux jobs create citation-verify --params='{"pageId":"miri"}' --depends-on=41 --run-after=2026-03-01T06:00:00Z
+                                                Run after job #41, not before 6am
   crux jobs batch create "New Topic" "Another" --tier=budget
                                                 Batch create two pages
   crux jobs create auto-update-digest --params='{"budget":30,"maxPages":5}'
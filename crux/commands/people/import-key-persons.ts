@@ -10,6 +10,7 @@ import {
   toSyncItems,
   syncKeyPersons,
 } from '../../lib/key-persons-import.ts';
+import { submitReviewItems } from '../../lib/entity-resolution.ts';
 import type { BaseOptions } from './shared.ts';
 
 export async function importKeyPersonsCommand(
@@ -26,15 +27,25 @@ export async function importKeyPersonsCommand(
 
   // Extract from YAML
   lines.push('  Extracting key-persons from KB YAML files...');
-  const { records, unresolved } = await extractKeyPersons();
+  const { records, unresolved, fuzzyResolved, reviews } = await extractKeyPersons();
 
   lines.push(`  Found ${records.length} key-person entries across ${new Set(records.map(r => r.orgSlug)).size} organizations`);
 
+  if (fuzzyResolved.length > 0) {
+    lines.push(`\n  Resolved ${fuzzyResolved.length} person slug(s) by name/alias match:`);
+    for (const f of fuzzyResolved) {
+      lines.push(`    - ${f.orgSlug}: "${f.personSlug}" -> ${f.matchedSlug} (${f.confidence.toFixed(2)})`);
+    }
+  }
+
   if (unresolved.length > 0) {
     lines.push(`\n  WARNING: ${unresolved.length} unresolved person slug(s):`);
     for (const u of unresolved) {
       lines.push(`    - ${u.orgSlug}/${u.yamlKey}: person="${u.personSlug}" not found`);
     }
+    if (reviews.length > 0) {
+      lines.push(`    (${reviews.length} with plausible matches — queued for review on --sync)`);
+    }
   }
 
   // Group by org for display
@@ -69,6 +80,11 @@ export async function importKeyPersonsCommand(
         lines.push(`\n  DRY RUN: would sync ${syncItems.length} records`);
       } else {
         lines.push(`\n  Sync complete: ${result.upserted} upserted, ${result.failed} batch(es) failed`);
+        if (reviews.length > 0) {
+          const { queued, error } = await submitReviewItems(reviews);
+          lines.push(`  Queued ${queued} name(s) for entity review (crux entity review)`);
+          if (error) lines.push(`  Review queue unavailable: ${error}`);
+        }
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
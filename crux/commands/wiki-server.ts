@@ -48,6 +48,11 @@ const SCRIPTS = {
     description: 'Sync benchmark definitions + model scores to wiki-server',
     passthrough: ['dryRun', 'dry-run', 'batchSize', 'batch-size'],
   },
+  'sync-embeddings': {
+    script: 'wiki-server/sync-embeddings.ts',
+    description: 'Compute and store page + summary embeddings for hybrid search',
+    passthrough: ['dryRun', 'dry-run', 'batchSize', 'batch-size'],
+  },
   'snapshot-resources': {
     script: 'wiki-server/snapshot-resources.ts',
     description: 'Export PG resources to data/resources-snapshot.json',
@@ -77,6 +82,9 @@ Options:
 Environment:
   LONGTERMWIKI_SERVER_URL     Base URL of the wiki server
   LONGTERMWIKI_SERVER_API_KEY Bearer token for authentication
+  EMBEDDING_MODEL             Embedding model for sync-embeddings (default: minilm-l6-v2;
+                              hash-v1-384 is a lexical fallback without synonymy)
+  EMBEDDING_MODEL_DIR         Load minilm-l6-v2 weights from this directory (no download)
 
 Examples:
   crux wiki-server sync                      Sync all pages
@@ -89,6 +97,7 @@ Examples:
   crux wiki-server sync-session .claude/sessions/2026-02-21_my-branch.yaml
   crux wiki-server sync-sessions           Sync all session logs
   crux wiki-server sync-auto-update-runs   Sync all auto-update runs
+  crux wiki-server sync-embeddings         Embed pages + summaries for hybrid search
   crux wiki-server snapshot-resources      Export PG resources to snapshot JSON
 `;
 }
\ No newline at end of file
@@ -22,6 +22,8 @@
  *   check-links External URL health checking
  *   edit-log    View and query per-page edit history
  *   importance  Ranking-based importance scoring
+  forecasts   Forecast snapshot import for page-forecasts
+ *   forecasts   Forecast snapshot import for page-forecasts
  *   ci          GitHub CI status and monitoring
  *   maintain    Periodic maintenance and housekeeping
  *   review      Human review tracking and status
@@ -76,6 +78,7 @@ import * as updatesCommands from './commands/updates.ts';
 import * as checkLinksCommands from './commands/check-links.ts';
 import * as editLogCommands from './commands/edit-log.ts';
 import * as importanceCommands from './commands/importance.ts';
+import * as forecastsCommands from './commands/forecasts.ts';
 import * as ciCommands from './commands/ci.ts';
 import * as maintainCommands from './commands/maintain.ts';
 import * as autoUpdateCommands from './commands/auto-update.ts';
@@ -132,6 +135,7 @@ const domains = {
   'check-links': checkLinksCommands,
   'edit-log': editLogCommands,
   importance: importanceCommands,
+  forecasts: forecastsCommands,
   ci: ciCommands,
   maintain: maintainCommands,
   review: reviewCommands,
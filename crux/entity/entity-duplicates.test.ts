@@ -0,0 +1,83 @@
+/**
+ * Tests for entity-duplicates.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { findDuplicates, loadEntityProfiles, normalizeWebsite, suggestMerge } from './entity-duplicates.ts';
+
+describe('normalizeWebsite', () => {
+  it('drops scheme, www and trailing slash', () => {
+    expect(normalizeWebsite('https://www.safe.ai/')).toBe('safe.ai');
+    expect(normalizeWebsite('http://safe.ai')).toBe('safe.ai');
+  });
+});
+
+describe('findDuplicates', () => {
+  let dir: string;
+  let thingsDir: string;
+  let entitiesDir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `entity-duplicates-test-${Date.now()}`);
+    thingsDir = join(dir, 'things');
+    entitiesDir = join(dir, 'entities');
+    mkdirSync(thingsDir, { recursive: true });
+    mkdirSync(entitiesDir, { recursive: true });
+
+    writeFileSync(join(thingsDir, 'center-for-ai-safety.yaml'), `thing:
+  id: center-for-ai-safety
+  stableId: dropStable
+  type: organization
+  name: Center for AI Safety
+
+facts:
+  - id: f1
+    property: website
+    value: https://www.safe.ai/
+    source: https://www.wikidata.org/wiki/Q119084607
+  - id: f2
+    property: founded-date
+    value: "2022"
+`);
+    writeFileSync(join(entitiesDir, 'organizations.yaml'), `- id: cais
+  stableId: keepStable
+  type: organization
+  title: Center for AI Safety (CAIS)
+  website: https://safe.ai
+- id: miri
+  stableId: miriStable
+  type: organization
+  title: Machine Intelligence Research Institute
+  website: https://intelligence.org
+- id: dan-hendrycks
+  stableId: danStable
+  type: person
+  title: Center for AI Safety
+`);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pairs entities sharing a name and website, not unrelated ones', () => {
+    const profiles = loadEntityProfiles({ thingsDir, entitiesDir });
+    const pairs = findDuplicates(profiles, { minScore: 0.5 });
+    expect(pairs).toHaveLength(1);
+
+    const [pair] = pairs;
+    expect([pair.a.slug, pair.b.slug].sort()).toEqual(['cais', 'center-for-ai-safety']);
+    expect(pair.signals.map((s) => s.kind)).toEqual(expect.arrayContaining(['name', 'website']));
+
+    // The KB-defined side is kept
+    expect(suggestMerge(pair).keep.slug).toBe('center-for-ai-safety');
+  });
+
+  it('filters by type', () => {
+    const profiles = loadEntityProfiles({ thingsDir, entitiesDir });
+    expect(findDuplicates(profiles, { minScore: 0.5, type: 'person' })).toHaveLength(0);
+  });
+});
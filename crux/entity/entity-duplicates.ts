@@ -0,0 +1,438 @@
+/**
+ * Duplicate Entity Detection
+ *
+ * Scans KB things (packages/factbase/data/things) and data/entities YAML for
+ * pairs of entities that describe the same person or organization. The
+ * loader's duplicate check (Graph.getDuplicateIds) only catches identical
+ * IDs; this looks at what the entities say about themselves:
+ *
+ *   - names and aliases, scored by the shared entity resolver
+ *   - websites (normalized host + path)
+ *   - Wikidata items cited as fact sources
+ *   - a shared wiki page ID (numericId) or a previousSlug naming the other
+ *   - rare (property, value) facts both entities carry
+ *
+ * Signals are combined noisy-or style, so two weak signals outrank one.
+ * Each reported pair comes with a suggested `crux entity merge` command.
+ *
+ * Usage:
+ *   pnpm crux entity duplicates                     # Pairs scoring ≥ 0.8
+ *   pnpm crux entity duplicates --min-score=0.6     # Include weaker pairs
+ *   pnpm crux entity duplicates --type=person --json
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { PROJECT_ROOT } from '../lib/content-types.ts';
+import { FACTBASE_DATA_DIR } from '../lib/factbase-loader.ts';
+import { getColors } from '../lib/output.ts';
+import { CUSTOM_TAGS, RefMarker, DateMarker } from '../../packages/factbase/src/loader.ts';
+import { createEntityResolver } from '../../apps/wiki-server/src/entity-matching.ts';
+import type { CommandResult } from '../lib/command-types.ts';
+
+const colors = getColors();
+
+const KB_THINGS_DIR = join(FACTBASE_DATA_DIR, 'things');
+const ENTITIES_DIR = join(PROJECT_ROOT, 'data', 'entities');
+
+// ---------------------------------------------------------------------------
+// Entity profiles
+// ---------------------------------------------------------------------------
+
+export interface EntityProfile {
+  slug: string;
+  stableId: string;
+  numericId: string | null;
+  type: string;
+  name: string;
+  aliases: string[];
+  previousSlugs: string[];
+  /** Normalized websites (see normalizeWebsite) */
+  websites: string[];
+  /** Wikidata item IDs (Q…) cited as fact sources */
+  wikidataIds: string[];
+  /** `property=value` signatures of the entity's facts */
+  factSignatures: string[];
+  /** Where the entity is defined */
+  sources: Array<'kb' | 'yaml'>;
+}
+
+/**
+ * Reduce a website URL to host + path for comparison: no scheme, no `www.`,
+ * no query or trailing slash. Returns null for anything that isn't a URL.
+ */
+export function normalizeWebsite(url: string): string | null {
+  try {
+    const parsed = new URL(/^[a-z]+:\/\//i.test(url) ? url : `https://${url}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    if (!host.includes('.')) return null;
+    return (host + parsed.pathname.replace(/\/+$/, '')).toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+const WIKIDATA_ITEM_RE = /wikidata\.org\/(?:wiki|entity)\/(Q\d+)/;
+
+function plainValue(value: unknown): unknown {
+  if (value instanceof RefMarker) return value.stableId;
+  if (value instanceof DateMarker) return value.value;
+  if (Array.isArray(value)) return value.map(plainValue);
+  return value;
+}
+
+function listYamlFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir).filter((f) => f.endsWith('.yaml'));
+  } catch {
+    return [];
+  }
+}
+
+interface RawThingFile {
+  thing?: {
+    id?: string;
+    stableId?: string;
+    type?: string;
+    name?: string;
+    numericId?: string | number;
+    aliases?: string[];
+    previousSlugs?: string[];
+  };
+  facts?: Array<{ property?: string; value?: unknown; source?: unknown }>;
+}
+
+function emptyProfile(slug: string, stableId: string, type: string, name: string): EntityProfile {
+  return {
+    slug,
+    stableId,
+    numericId: null,
+    type,
+    name,
+    aliases: [],
+    previousSlugs: [],
+    websites: [],
+    wikidataIds: [],
+    factSignatures: [],
+    sources: [],
+  };
+}
+
+function addUnique(list: string[], ...values: Array<string | null | undefined>) {
+  for (const v of values) if (v && !list.includes(v)) list.push(v);
+}
+
+/**
+ * Load every entity from KB things and data/entities. An entity defined in
+ * both (same slug) is one profile.
+ */
+export function loadEntityProfiles(
+  dirs: { thingsDir?: string; entitiesDir?: string } = {},
+): EntityProfile[] {
+  const { thingsDir = KB_THINGS_DIR, entitiesDir = ENTITIES_DIR } = dirs;
+  const bySlug = new Map<string, EntityProfile>();
+
+  for (const file of listYamlFiles(thingsDir)) {
+    let parsed: RawThingFile | null;
+    try {
+      parsed = parseYaml(readFileSync(join(thingsDir, file), 'utf-8'), { customTags: CUSTOM_TAGS });
+    } catch {
+      continue;
+    }
+    const thing = parsed?.thing;
+    if (!thing?.id || !thing.stableId || !thing.name) continue;
+
+    const profile = emptyProfile(thing.id, thing.stableId, thing.type ?? '', thing.name);
+    profile.numericId = thing.numericId !== undefined ? String(thing.numericId) : null;
+    addUnique(profile.aliases, ...(thing.aliases ?? []));
+    addUnique(profile.previousSlugs, ...(thing.previousSlugs ?? []));
+    profile.sources.push('kb');
+
+    for (const fact of parsed?.facts ?? []) {
+      if (!fact?.property) continue;
+      const value = plainValue(fact.value);
+      if (fact.property === 'website' && typeof value === 'string') {
+        addUnique(profile.websites, normalizeWebsite(value));
+      }
+      addUnique(profile.factSignatures, `${fact.property}=${JSON.stringify(value)}`);
+      const wikidata = typeof fact.source === 'string' ? WIKIDATA_ITEM_RE.exec(fact.source) : null;
+      if (wikidata) addUnique(profile.wikidataIds, wikidata[1]);
+    }
+    bySlug.set(thing.id, profile);
+  }
+
+  for (const file of listYamlFiles(entitiesDir)) {
+    let entries: Array<Record<string, unknown>>;
+    try {
+      const parsed = parseYaml(readFileSync(join(entitiesDir, file), 'utf-8'));
+      if (!Array.isArray(parsed)) continue;
+      entries = parsed;
+    } catch {
+      continue;
+    }
+    for (const e of entries) {
+      if (typeof e?.id !== 'string' || typeof e.title !== 'string') continue;
+      const profile =
+        bySlug.get(e.id) ??
+        emptyProfile(e.id, typeof e.stableId === 'string' ? e.stableId : e.id, String(e.type ?? ''), e.title);
+      profile.numericId ??= e.numericId !== undefined ? String(e.numericId) : null;
+      if (Array.isArray(e.aliases)) addUnique(profile.aliases, ...e.aliases.filter((a) => typeof a === 'string'));
+      if (typeof e.website === 'string') addUnique(profile.websites, normalizeWebsite(e.website));
+      profile.sources.push('yaml');
+      bySlug.set(e.id, profile);
+    }
+  }
+
+  return [...bySlug.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export type DuplicateSignalKind = 'name' | 'website' | 'wikidata' | 'page-id' | 'previous-slug' | 'shared-facts';
+
+export interface DuplicateSignal {
+  kind: DuplicateSignalKind;
+  /** 0–1: how strongly this alone suggests a duplicate */
+  score: number;
+  detail: string;
+}
+
+export interface DuplicatePair {
+  a: EntityProfile;
+  b: EntityProfile;
+  /** Combined score: 1 − Π(1 − signal.score) */
+  score: number;
+  signals: DuplicateSignal[];
+}
+
+const SIGNAL_SCORES = {
+  website: 0.75,
+  wikidata: 0.95,
+  pageId: 0.9,
+  previousSlug: 0.95,
+  /** Per shared rare fact; capped at sharedFactsMax */
+  sharedFact: 0.3,
+  sharedFactsMax: 0.8,
+};
+
+/** A fact value carried by more entities than this says nothing about identity. */
+const MAX_FACT_FREQUENCY = 3;
+
+/** Name matches below this resolver confidence are ignored. */
+const MIN_NAME_CONFIDENCE = 0.6;
+
+function pairKey(a: EntityProfile, b: EntityProfile): string {
+  return a.slug < b.slug ? `${a.slug}\u0000${b.slug}` : `${b.slug}\u0000${a.slug}`;
+}
+
+function typesCompatible(a: EntityProfile, b: EntityProfile): boolean {
+  return !a.type || !b.type || a.type === b.type;
+}
+
+/**
+ * Find likely-duplicate entity pairs, best first. Pairs whose types differ
+ * are never reported — they are different kinds of thing by definition.
+ */
+export function findDuplicates(
+  profiles: EntityProfile[],
+  options: { minScore?: number; type?: string } = {},
+): DuplicatePair[] {
+  const { minScore = 0.8, type } = options;
+  const pairs = new Map<string, { a: EntityProfile; b: EntityProfile; signals: Map<DuplicateSignalKind, DuplicateSignal> }>();
+
+  const addSignal = (a: EntityProfile, b: EntityProfile, signal: DuplicateSignal) => {
+    if (a.slug === b.slug || !typesCompatible(a, b)) return;
+    const key = pairKey(a, b);
+    let pair = pairs.get(key);
+    if (!pair) {
+      pair = a.slug < b.slug ? { a, b, signals: new Map() } : { a: b, b: a, signals: new Map() };
+      pairs.set(key, pair);
+    }
+    const existing = pair.signals.get(signal.kind);
+    if (!existing || existing.score < signal.score) pair.signals.set(signal.kind, signal);
+  };
+
+  // Names and aliases, via the shared resolver
+  const bySlug = new Map(profiles.map((p) => [p.slug, p]));
+  const resolver = createEntityResolver(
+    profiles.map((p) => ({
+      stableId: p.stableId,
+      slug: p.slug,
+      name: p.name,
+      entityType: p.type,
+      aliases: p.aliases,
+    })),
+  );
+  for (const p of profiles) {
+    for (const name of [p.name, ...p.aliases]) {
+      const matches = resolver.resolve(
+        { name, entityType: p.type || undefined },
+        { limit: 6, minConfidence: MIN_NAME_CONFIDENCE },
+      );
+      for (const m of matches) {
+        const other = bySlug.get(m.slug);
+        if (!other || other.slug === p.slug) continue;
+        addSignal(p, other, {
+          kind: 'name',
+          score: Math.min(m.confidence, 1),
+          detail: `"${name}" ~ "${m.matchedText}" (${m.matchedOn})`,
+        });
+      }
+    }
+  }
+
+  // Exact-key signals: group profiles sharing a key, pair within each group
+  const groupBy = (keysOf: (p: EntityProfile) => string[]) => {
+    const groups = new Map<string, EntityProfile[]>();
+    for (const p of profiles) {
+      for (const key of keysOf(p)) groups.set(key, [...(groups.get(key) ?? []), p]);
+    }
+    return groups;
+  };
+  const pairWithin = (
+    groups: Map<string, EntityProfile[]>,
+    signalFor: (key: string) => DuplicateSignal,
+    maxGroup = Infinity,
+  ) => {
+    for (const [key, members] of groups) {
+      if (members.length < 2 || members.length > maxGroup) continue;
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) addSignal(members[i], members[j], signalFor(key));
+      }
+    }
+  };
+
+  pairWithin(groupBy((p) => p.websites), (site) => ({
+    kind: 'website',
+    score: SIGNAL_SCORES.website,
+    detail: site,
+  }));
+  pairWithin(groupBy((p) => p.wikidataIds), (qid) => ({
+    kind: 'wikidata',
+    score: SIGNAL_SCORES.wikidata,
+    detail: qid,
+  }));
+  pairWithin(groupBy((p) => (p.numericId ? [p.numericId] : [])), (id) => ({
+    kind: 'page-id',
+    score: SIGNAL_SCORES.pageId,
+    detail: id,
+  }));
+
+  for (const p of profiles) {
+    for (const prev of p.previousSlugs) {
+      const other = bySlug.get(prev);
+      if (other) {
+        addSignal(p, other, { kind: 'previous-slug', score: SIGNAL_SCORES.previousSlug, detail: `${p.slug} was ${prev}` });
+      }
+    }
+  }
+
+  // Rare shared facts — count per pair, then score
+  const sharedFacts = new Map<string, { a: EntityProfile; b: EntityProfile; facts: string[] }>();
+  for (const [signature, members] of groupBy((p) => p.factSignatures)) {
+    if (members.length < 2 || members.length > MAX_FACT_FREQUENCY) continue;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i], members[j]);
+        const entry = sharedFacts.get(key) ?? { a: members[i], b: members[j], facts: [] };
+        entry.facts.push(signature);
+        sharedFacts.set(key, entry);
+      }
+    }
+  }
+  for (const { a, b, facts } of sharedFacts.values()) {
+    addSignal(a, b, {
+      kind: 'shared-facts',
+      score: Math.min(SIGNAL_SCORES.sharedFact * facts.length, SIGNAL_SCORES.sharedFactsMax),
+      detail: facts.slice(0, 3).join(', ') + (facts.length > 3 ? `, +${facts.length - 3} more` : ''),
+    });
+  }
+
+  const results: DuplicatePair[] = [];
+  for (const { a, b, signals } of pairs.values()) {
+    if (type && a.type !== type && b.type !== type) continue;
+    const list = [...signals.values()].sort((x, y) => y.score - x.score);
+    const score = 1 - list.reduce((acc, s) => acc * (1 - s.score), 1);
+    if (score >= minScore) results.push({ a, b, score, signals: list });
+  }
+  return results.sort((x, y) => y.score - x.score || x.a.slug.localeCompare(y.a.slug));
+}
+
+/**
+ * Suggest which side of a pair to keep: the one defined in the KB (it owns
+ * facts and redirects), then the one with more facts, then the shorter slug.
+ */
+export function suggestMerge(pair: DuplicatePair): { keep: EntityProfile; drop: EntityProfile } {
+  const rank = (p: EntityProfile) => [
+    p.sources.includes('kb') ? 1 : 0,
+    p.factSignatures.length,
+    -p.slug.length,
+  ];
+  const [ra, rb] = [rank(pair.a), rank(pair.b)];
+  for (let i = 0; i < ra.length; i++) {
+    if (ra[i] !== rb[i]) return ra[i] > rb[i] ? { keep: pair.a, drop: pair.b } : { keep: pair.b, drop: pair.a };
+  }
+  return { keep: pair.a, drop: pair.b };
+}
+
+// ---------------------------------------------------------------------------
+// Command
+// ---------------------------------------------------------------------------
+
+function describeProfile(p: EntityProfile): string {
+  const where = p.sources.join('+');
+  return `${colors.cyan}${p.slug}${colors.reset} "${p.name}" ${colors.dim}(${p.type || 'untyped'}, ${where}, ${p.factSignatures.length} facts)${colors.reset}`;
+}
+
+export async function runDuplicates(options: {
+  minScore?: number;
+  type?: string;
+  limit?: number;
+  json?: boolean;
+}): Promise<CommandResult> {
+  const { limit = 50 } = options;
+  const profiles = loadEntityProfiles();
+  const pairs = findDuplicates(profiles, options);
+
+  if (options.json) {
+    return {
+      exitCode: 0,
+      output: JSON.stringify(
+        pairs.slice(0, limit).map((pair) => {
+          const { keep, drop } = suggestMerge(pair);
+          return {
+            score: Number(pair.score.toFixed(3)),
+            keep: keep.slug,
+            drop: drop.slug,
+            signals: pair.signals,
+          };
+        }),
+        null,
+        2,
+      ),
+    };
+  }
+
+  if (pairs.length === 0) {
+    return { exitCode: 0, output: `No likely duplicates among ${profiles.length} entities.` };
+  }
+
+  const lines = [
+    `${colors.bold}${pairs.length} likely duplicate pair${pairs.length !== 1 ? 's' : ''} among ${profiles.length} entities${colors.reset}` +
+      (pairs.length > limit ? ` (showing ${limit})` : ''),
+  ];
+  for (const pair of pairs.slice(0, limit)) {
+    const { keep, drop } = suggestMerge(pair);
+    lines.push('');
+    lines.push(`  ${colors.bold}${pair.score.toFixed(2)}${colors.reset}  ${describeProfile(pair.a)}`);
+    lines.push(`        ${describeProfile(pair.b)}`);
+    for (const s of pair.signals) {
+      lines.push(`        ${colors.dim}${s.kind} ${s.score.toFixed(2)}: ${s.detail}${colors.reset}`);
+    }
+    lines.push(`        → crux entity merge ${keep.slug} ${drop.slug}`);
+  }
+  return { exitCode: 0, output: lines.join('\n') };
+}
@@ -0,0 +1,236 @@
+/**
+ * Tests for entity-merge.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  extractEntry,
+  foldEntry,
+  renameEntry,
+  rewriteYamlRefs,
+  rewriteMdxRefs,
+  planMerge,
+  type MergeEntity,
+  type MergePlan,
+} from './entity-merge.ts';
+
+const KEEP = { slug: 'cais', stableId: 'keepStable', numericId: 'E47' };
+const DROP = { slug: 'center-for-ai-safety', stableId: 'dropStable', numericId: 'E99' };
+
+// ---------------------------------------------------------------------------
+// data/entities entries
+// ---------------------------------------------------------------------------
+
+const ENTRIES = `- id: cais
+  stableId: keepStable
+  title: CAIS
+
+- id: center-for-ai-safety
+  stableId: dropStable
+  title: Center for AI Safety
+  website: https://safe.ai
+  relatedEntries:
+    - id: miri
+      type: organization
+
+- id: miri
+  title: MIRI
+`;
+
+describe('data/entities entries', () => {
+  it('extracts an entry with its trailing blank line', () => {
+    const result = extractEntry(ENTRIES, 'center-for-ai-safety')!;
+    expect(result.entry[0]).toBe('- id: center-for-ai-safety');
+    expect(result.entry.at(-1)).toBe('');
+    expect(result.content).toBe('- id: cais\n  stableId: keepStable\n  title: CAIS\n\n- id: miri\n  title: MIRI\n');
+  });
+
+  it('folds only the keys keep lacks', () => {
+    const keep = extractEntry(ENTRIES, 'cais')!.entry;
+    const drop = extractEntry(ENTRIES, 'center-for-ai-safety')!.entry;
+    const { entry, copied } = foldEntry(keep, drop);
+    expect(copied).toEqual(['website', 'relatedEntries']);
+    expect(entry.join('\n')).toBe(
+      '- id: cais\n  stableId: keepStable\n  title: CAIS\n  website: https://safe.ai\n' +
+        '  relatedEntries:\n    - id: miri\n      type: organization\n',
+    );
+  });
+
+  it('renames an entry to keep', () => {
+    const drop = extractEntry(ENTRIES, 'center-for-ai-safety')!.entry;
+    const keep = { ...KEEP, name: 'CAIS: Center', type: 'organization' } as MergeEntity;
+    expect(renameEntry(drop, keep).slice(0, 3)).toEqual([
+      '- id: cais',
+      '  stableId: keepStable',
+      '  title: "CAIS: Center"',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Reference rewriting
+// ---------------------------------------------------------------------------
+
+describe('rewriteYamlRefs', () => {
+  it('rewrites !ref tags and exact slug/stableId values', () => {
+    const yaml = [
+      'value: !ref dropStable',
+      'holder: !ref dropStable:center-for-ai-safety',
+      'recipient: "center-for-ai-safety"',
+      '  - id: center-for-ai-safety # related',
+      'other: center-for-ai-safety-fund',
+      'center-for-ai-safety:',
+    ].join('\n');
+    const { content, count } = rewriteYamlRefs(yaml, DROP, KEEP);
+    expect(count).toBe(4);
+    expect(content.split('\n')).toEqual([
+      'value: !ref keepStable',
+      'holder: !ref keepStable:cais',
+      'recipient: "cais"',
+      '  - id: cais # related',
+      'other: center-for-ai-safety-fund',
+      'center-for-ai-safety:',
+    ]);
+  });
+});
+
+describe('rewriteMdxRefs', () => {
+  it('rewrites entity attributes on entity components only', () => {
+    const mdx = [
+      '<EntityLink id="E99" name="center-for-ai-safety">CAIS</EntityLink>',
+      '<EntityLink id="center-for-ai-safety">CAIS</EntityLink>',
+      '<FBF entity="center-for-ai-safety" property="founded-date" />',
+      '<Aside e="E99" />',
+      '<EntityLink id="E990">other</EntityLink>',
+      '<Link id="center-for-ai-safety" />',
+    ].join('\n');
+    const { content, count } = rewriteMdxRefs(mdx, DROP, KEEP);
+    expect(count).toBe(5);
+    expect(content.split('\n')).toEqual([
+      '<EntityLink id="E47" name="cais">CAIS</EntityLink>',
+      '<EntityLink id="E47">CAIS</EntityLink>',
+      '<FBF entity="cais" property="founded-date" />',
+      '<Aside e="E47" />',
+      '<EntityLink id="E990">other</EntityLink>',
+      '<Link id="center-for-ai-safety" />',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// planMerge
+// ---------------------------------------------------------------------------
+
+describe('planMerge', () => {
+  let root: string;
+  let dataDir: string;
+  const path = (...parts: string[]) => join(root, ...parts);
+
+  beforeEach(() => {
+    root = join(tmpdir(), `entity-merge-test-${Date.now()}`);
+    dataDir = path('kb');
+    mkdirSync(path('kb', 'things'), { recursive: true });
+    mkdirSync(path('data', 'entities'), { recursive: true });
+    mkdirSync(path('content', 'docs'), { recursive: true });
+
+    writeFileSync(path('kb', 'things', 'cais.yaml'), `thing:
+  id: cais
+  stableId: keepStable
+  type: organization
+  name: CAIS # short name
+  numericId: E47
+
+facts:
+  - id: keepFact01
+    property: founded-date
+    value: "2022"
+`);
+    writeFileSync(path('kb', 'things', 'center-for-ai-safety.yaml'), `thing:
+  id: center-for-ai-safety
+  stableId: dropStable
+  type: organization
+  name: Center for AI Safety
+  numericId: E99
+
+facts:
+  - id: dropFact01
+    property: founded-date
+    value: "2022"
+  - id: dropFact02
+    property: headquarters
+    value: San Francisco
+
+records:
+  grants:
+    g1:
+      recipient: !ref dropStable
+`);
+    writeFileSync(path('kb', 'things', 'dan.yaml'), `thing:
+  id: dan
+  stableId: danStable01
+  type: person
+  name: Dan
+
+facts:
+  - id: danFact001
+    property: employed-by
+    value: !ref dropStable
+`);
+    writeFileSync(path('data', 'entities', 'organizations.yaml'), ENTRIES);
+    writeFileSync(
+      path('content', 'docs', 'page.mdx'),
+      'See <EntityLink id="E99" name="center-for-ai-safety">CAIS</EntityLink>.\n',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const plan = (keep: string, drop: string) => planMerge(keep, drop, { root, dataDir });
+
+  it('moves facts and records, rewrites references and records previous identity', () => {
+    const result = plan('cais', 'center-for-ai-safety') as MergePlan;
+    expect(typeof result).toBe('object');
+    expect(result.thing).toMatchObject({ movedFacts: 1, skippedFacts: 1, movedRecords: 1 });
+    expect(result.copiedKeys).toEqual(['website', 'relatedEntries']);
+
+    expect(result.writes.get(path('kb', 'things', 'center-for-ai-safety.yaml'))).toBeNull();
+    const keepThing = result.writes.get(path('kb', 'things', 'cais.yaml'))!;
+    expect(keepThing).toContain('name: CAIS # short name');
+    expect(keepThing).toMatch(/aliases:\n\s+- Center for AI Safety/);
+    expect(keepThing).toMatch(/previousSlugs:\n\s+- center-for-ai-safety/);
+    expect(keepThing).toMatch(/previousIds:\n\s+- dropStable/);
+    expect(keepThing).toContain('dropFact02');
+    expect(keepThing).not.toContain('dropFact01');
+    expect(keepThing).toContain('recipient: !ref keepStable');
+
+    expect(result.writes.get(path('kb', 'things', 'dan.yaml'))).toContain('value: !ref keepStable');
+    expect(result.writes.get(path('content', 'docs', 'page.mdx'))).toBe(
+      'See <EntityLink id="E47" name="cais">CAIS</EntityLink>.\n',
+    );
+    const entities = result.writes.get(path('data', 'entities', 'organizations.yaml'))!;
+    expect(entities).not.toContain('- id: center-for-ai-safety');
+    expect(entities).toContain('  website: https://safe.ai');
+  });
+
+  it('adopts drop\'s thing file when keep has none', () => {
+    rmSync(path('kb', 'things', 'cais.yaml'));
+    const result = plan('cais', 'center-for-ai-safety') as MergePlan;
+    const keepThing = result.writes.get(path('kb', 'things', 'cais.yaml'))!;
+    expect(keepThing).toMatch(/id: cais\n\s+stableId: keepStable/);
+    expect(keepThing).toContain('dropFact01');
+    expect(keepThing).toMatch(/previousSlugs:\n\s+- center-for-ai-safety/);
+    expect(result.writes.get(path('kb', 'things', 'center-for-ai-safety.yaml'))).toBeNull();
+  });
+
+  it('refuses mismatched types, unknown and ambiguous ids', () => {
+    expect(plan('cais', 'dan')).toMatch(/Type mismatch/);
+    expect(plan('cais', 'nobody')).toMatch(/not found/);
+    writeFileSync(path('kb', 'things', 'dan.yaml'), 'thing:\n  id: dan\n  stableId: danStable01\n  type: organization\n  name: Dan\n  numericId: E47\n');
+    expect(plan('E47', 'center-for-ai-safety')).toMatch(/shared by/);
+  });
+});
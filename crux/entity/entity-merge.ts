@@ -0,0 +1,629 @@
+/**
+ * Entity Merge
+ *
+ * Folds a duplicate entity ("drop") into the one that survives ("keep"):
+ *
+ *   - facts and records move from drop's KB thing file to keep's
+ *     (identical facts and conflicting record keys are skipped and reported)
+ *   - drop's data/entities entry is folded into keep's (keys keep lacks are
+ *     copied), or renamed to keep if keep has no entry of its own
+ *   - references are rewritten: `!ref` tags and slug/stableId values in YAML,
+ *     and EntityLink / Aside / FBF / InfoBox / FBCompareTable ids in MDX
+ *   - drop's name, slug and stableId are recorded on keep as aliases,
+ *     previousSlugs and previousIds, so old URLs redirect and old names resolve
+ *   - with --apply, the wiki-server re-points facts, summaries and things rows
+ *     and deletes drop's entities row (POST /api/entities/merge)
+ *
+ * YAML edits are line-based wherever the file isn't structurally changed —
+ * round-tripping data/entities through the yaml package reformats it.
+ *
+ * Usage:
+ *   pnpm crux entity merge <keep> <drop>            # Preview
+ *   pnpm crux entity merge <keep> <drop> --apply    # Apply
+ */
+
+import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
+import { join, relative, basename } from 'path';
+import { parse as parseYaml, parseDocument, stringify as stringifyYaml, isMap, isSeq, type Document, type YAMLMap } from 'yaml';
+import { PROJECT_ROOT } from '../lib/content-types.ts';
+import { FACTBASE_DATA_DIR } from '../lib/factbase-loader.ts';
+import { findFiles, findMdxFiles } from '../lib/file-utils.ts';
+import { getColors } from '../lib/output.ts';
+import { mergeEntities } from '../lib/wiki-server/entities.ts';
+import { CUSTOM_TAGS } from '../../packages/factbase/src/loader.ts';
+import { normalizeEntityName } from '../../apps/wiki-server/src/entity-matching.ts';
+import { escapeRegex } from './entity-rename.ts';
+import type { CommandResult } from '../lib/command-types.ts';
+
+const colors = getColors();
+
+// ---------------------------------------------------------------------------
+// Locating entities
+// ---------------------------------------------------------------------------
+
+export interface MergeEntity {
+  slug: string;
+  stableId: string | null;
+  numericId: string | null;
+  type: string;
+  name: string;
+  aliases: string[];
+  previousSlugs: string[];
+  previousIds: string[];
+  /** KB thing file, if the entity has one */
+  thingFile: string | null;
+  /** data/entities file holding the entity's entry, if any */
+  entityFile: string | null;
+}
+
+interface MergeDirs {
+  root: string;
+  dataDir: string;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/** Load every entity from KB things and data/entities, merged on slug. */
+export function loadMergeEntities(dirs: MergeDirs): MergeEntity[] {
+  const bySlug = new Map<string, MergeEntity>();
+  const blank = (slug: string): MergeEntity => ({
+    slug, stableId: null, numericId: null, type: '', name: slug,
+    aliases: [], previousSlugs: [], previousIds: [], thingFile: null, entityFile: null,
+  });
+
+  for (const path of findFiles(join(dirs.dataDir, 'things'), ['.yaml'])) {
+    try {
+      const thing = (parseYaml(readFileSync(path, 'utf-8'), { customTags: CUSTOM_TAGS }) as {
+        thing?: Record<string, unknown>;
+      } | null)?.thing;
+      if (!thing || typeof thing.id !== 'string') continue;
+      bySlug.set(thing.id, {
+        ...blank(thing.id),
+        stableId: typeof thing.stableId === 'string' ? thing.stableId : null,
+        numericId: typeof thing.numericId === 'string' ? thing.numericId : null,
+        type: typeof thing.type === 'string' ? thing.type : '',
+        name: typeof thing.name === 'string' ? thing.name : thing.id,
+        aliases: stringList(thing.aliases),
+        previousSlugs: stringList(thing.previousSlugs),
+        previousIds: stringList(thing.previousIds),
+        thingFile: path,
+      });
+    } catch {
+      // Skip unparseable files
+    }
+  }
+
+  for (const path of findFiles(join(dirs.root, 'data', 'entities'), ['.yaml'])) {
+    let entries: unknown;
+    try {
+      entries = parseYaml(readFileSync(path, 'utf-8'));
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(entries)) continue;
+    for (const e of entries as Array<Record<string, unknown>>) {
+      if (typeof e?.id !== 'string') continue;
+      const entity = bySlug.get(e.id) ?? blank(e.id);
+      entity.entityFile = path;
+      entity.stableId ??= typeof e.stableId === 'string' ? e.stableId : null;
+      entity.numericId ??= typeof e.numericId === 'string' ? e.numericId : null;
+      entity.type ||= typeof e.type === 'string' ? e.type : '';
+      if (!entity.thingFile && typeof e.title === 'string') entity.name = e.title;
+      entity.aliases = [...new Set([...entity.aliases, ...stringList(e.aliases)])];
+      bySlug.set(e.id, entity);
+    }
+  }
+
+  return [...bySlug.values()];
+}
+
+/**
+ * Find an entity by slug, then stableId, then numericId. A numericId shared
+ * by several entities (common among duplicates) is ambiguous.
+ */
+export function findMergeEntity(entities: MergeEntity[], id: string): MergeEntity | string {
+  const bySlug = entities.find((e) => e.slug === id);
+  if (bySlug) return bySlug;
+  const byStableId = entities.find((e) => e.stableId === id);
+  if (byStableId) return byStableId;
+  const byNumericId = entities.filter((e) => e.numericId === id);
+  if (byNumericId.length === 1) return byNumericId[0];
+  if (byNumericId.length > 1) {
+    return `"${id}" is shared by ${byNumericId.map((e) => e.slug).join(', ')} — pass a slug`;
+  }
+  return `Entity not found: ${id}`;
+}
+
+// ---------------------------------------------------------------------------
+// data/entities entries (line-based)
+// ---------------------------------------------------------------------------
+
+/** Keys that identify an entry; never copied from drop to keep. */
+const IDENTITY_KEYS = new Set(['id', 'stableId', 'numericId', 'title', 'type', 'aliases']);
+
+function yamlScalar(value: string): string {
+  return stringifyYaml(value).trimEnd();
+}
+
+/** Line range [start, end) of the `- id: <slug>` entry, including trailing blank lines. */
+function findEntryRange(lines: string[], slug: string): [number, number] | null {
+  const head = new RegExp(`^- id:\\s*["']?${escapeRegex(slug)}["']?\\s*(#.*)?$`);
+  const start = lines.findIndex((l) => head.test(l));
+  if (start === -1) return null;
+  let end = start + 1;
+  while (end < lines.length && !/^\S/.test(lines[end])) end++;
+  return [start, end];
+}
+
+/** Extract the `- id: <slug>` entry of a data/entities file. */
+export function extractEntry(content: string, slug: string): { content: string; entry: string[] } | null {
+  const lines = content.split('\n');
+  const range = findEntryRange(lines, slug);
+  if (!range) return null;
+  const entry = lines.splice(range[0], range[1] - range[0]);
+  return { content: lines.join('\n'), entry };
+}
+
+/** Split an entry into top-level key blocks (the `- id:` line is key "id"). */
+function entryBlocks(entry: string[]): Array<{ key: string; lines: string[] }> {
+  const blocks: Array<{ key: string; lines: string[] }> = [];
+  for (const line of entry) {
+    const key = line.match(/^(?:- |  )([\w-]+):/)?.[1];
+    if (key) blocks.push({ key, lines: [line] });
+    else if (blocks.length > 0) blocks[blocks.length - 1].lines.push(line);
+  }
+  return blocks;
+}
+
+function trimTrailingBlank(lines: string[]): { body: string[]; trailing: string[] } {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') end--;
+  return { body: lines.slice(0, end), trailing: lines.slice(end) };
+}
+
+/**
+ * Append drop's top-level keys that keep's entry lacks (description, sources,
+ * relatedEntries, …). Identity keys stay keep's. Returns the new keep entry
+ * and the keys copied.
+ */
+export function foldEntry(keepEntry: string[], dropEntry: string[]): { entry: string[]; copied: string[] } {
+  const keepKeys = new Set(entryBlocks(keepEntry).map((b) => b.key));
+  const extra = entryBlocks(dropEntry).filter((b) => !keepKeys.has(b.key) && !IDENTITY_KEYS.has(b.key));
+  const { body, trailing } = trimTrailingBlank(keepEntry);
+  const added = extra.flatMap((b) => trimTrailingBlank(b.lines).body);
+  return { entry: [...body, ...added, ...trailing], copied: extra.map((b) => b.key) };
+}
+
+/** Rewrite drop's entry so it becomes keep's: id, stableId, numericId, title and type. */
+export function renameEntry(entry: string[], keep: MergeEntity): string[] {
+  const values: Record<string, string | null> = {
+    stableId: keep.stableId,
+    numericId: keep.numericId,
+    title: keep.name,
+    type: keep.type || null,
+  };
+  return entry.map((line, i) => {
+    if (i === 0) return `- id: ${keep.slug}`;
+    const key = line.match(/^  (stableId|numericId|title|type):/)?.[1];
+    const value = key ? values[key] : null;
+    return key && value ? `  ${key}: ${yamlScalar(value)}` : line;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reference rewriting (text-level)
+// ---------------------------------------------------------------------------
+
+interface RefTarget {
+  slug: string;
+  stableId: string | null;
+  numericId: string | null;
+}
+
+/**
+ * Rewrite references to drop in a YAML file: `!ref <stableId>[:slug]` tags,
+ * and scalar values (`key: drop`, `- drop`, `- id: drop`) equal to drop's
+ * slug or stableId. Mapping keys are left alone.
+ */
+export function rewriteYamlRefs(content: string, drop: RefTarget, keep: RefTarget): { content: string; count: number } {
+  let count = 0;
+  let out = content;
+
+  if (drop.stableId && keep.stableId) {
+    const ref = new RegExp(`!ref ${escapeRegex(drop.stableId)}(?::[\\w-]+)?(?![\\w-])`, 'g');
+    out = out.replace(ref, (m) => {
+      count++;
+      return m.includes(':') ? `!ref ${keep.stableId}:${keep.slug}` : `!ref ${keep.stableId}`;
+    });
+  }
+
+  const replacements = new Map<string, string>([[drop.slug, keep.slug]]);
+  if (drop.stableId && keep.stableId) replacements.set(drop.stableId, keep.stableId);
+  for (const [from, to] of replacements) {
+    const value = new RegExp(`^(\\s*(?:- )?(?:[\\w-]+:\\s+)?)(["']?)${escapeRegex(from)}\\2(\\s*(?:#.*)?)$`, 'gm');
+    out = out.replace(value, (_m, prefix: string, quote: string, suffix: string) => {
+      count++;
+      return `${prefix}${quote}${to}${quote}${suffix}`;
+    });
+  }
+
+  return { content: out, count };
+}
+
+/** MDX components that take an entity, and the attributes naming it. */
+const MDX_ENTITY_TAG_RE = /<(EntityLink|Aside|FBF|InfoBox|FBCompareTable)\b[^>]*>/g;
+const MDX_ENTITY_ATTR_RE = /\b(id|e|entity|name)=(["'])([^"']*)\2/g;
+
+/**
+ * Rewrite entity references to drop in MDX. `id` attributes get keep's page
+ * ID (E-number) when it has one; other attributes keep the form they used.
+ * EntityLink's `name` slug hint follows keep's slug.
+ */
+export function rewriteMdxRefs(content: string, drop: RefTarget, keep: RefTarget): { content: string; count: number } {
+  const dropIds = new Set([drop.slug, drop.stableId].filter((v): v is string => !!v));
+  const dropNumeric = drop.numericId && drop.numericId !== keep.numericId ? drop.numericId : null;
+  let count = 0;
+
+  const out = content.replace(MDX_ENTITY_TAG_RE, (tag, component: string) =>
+    tag.replace(MDX_ENTITY_ATTR_RE, (attr, name: string, quote: string, value: string) => {
+      let next: string | null = null;
+      if (name === 'name') {
+        if (component === 'EntityLink' && value === drop.slug) next = keep.slug;
+      } else if (value === dropNumeric || (name === 'id' && dropIds.has(value))) {
+        next = keep.numericId ?? keep.slug;
+      } else if (dropIds.has(value)) {
+        next = keep.slug;
+      }
+      if (next === null) return attr;
+      count++;
+      return `${name}=${quote}${next}${quote}`;
+    }),
+  );
+
+  return { content: out, count };
+}
+
+// ---------------------------------------------------------------------------
+// KB thing files (Document-based)
+// ---------------------------------------------------------------------------
+
+function factKey(fact: unknown): string {
+  const f = (fact ?? {}) as Record<string, unknown>;
+  return JSON.stringify([f.property, f.value, f.asOf ?? null]);
+}
+
+function appendUnique(node: YAMLMap, key: string, values: string[], exclude: (v: string) => boolean): string[] {
+  const current = node.get(key);
+  const existing = isSeq(current) ? stringList(current.toJSON()) : [];
+  const added = values.filter((v, i) => !existing.includes(v) && !exclude(v) && values.indexOf(v) === i);
+  if (added.length === 0) return [];
+  if (isSeq(current)) {
+    for (const v of added) current.add(v);
+  } else {
+    node.set(key, added);
+  }
+  return added;
+}
+
+export interface ThingMergeResult {
+  movedFacts: number;
+  skippedFacts: number;
+  movedRecords: number;
+  /** `collection/key` records drop had that keep already has */
+  conflicts: string[];
+}
+
+/**
+ * Move drop's facts and records into keep's thing document. Facts with the
+ * same property, value and asOf as one of keep's are skipped.
+ */
+export function mergeThingDocuments(keepDoc: Document, dropDoc: Document): ThingMergeResult {
+  const result: ThingMergeResult = { movedFacts: 0, skippedFacts: 0, movedRecords: 0, conflicts: [] };
+  const keep = keepDoc.contents;
+  const drop = dropDoc.contents;
+  if (!isMap(keep) || !isMap(drop)) throw new Error('Thing document root is not a mapping');
+
+  const dropFacts = drop.get('facts', true);
+  if (isSeq(dropFacts) && dropFacts.items.length > 0) {
+    let keepFacts = keep.get('facts', true);
+    if (!isSeq(keepFacts)) {
+      keep.set('facts', keepDoc.createNode([]));
+      keepFacts = keep.get('facts', true);
+    }
+    if (!isSeq(keepFacts)) throw new Error('`facts` node is not a sequence');
+    const known = new Set(keepFacts.items.map((f) => factKey((f as { toJSON(): unknown }).toJSON())));
+    for (const fact of dropFacts.items) {
+      const key = factKey((fact as { toJSON(): unknown }).toJSON());
+      if (known.has(key)) {
+        result.skippedFacts++;
+        continue;
+      }
+      known.add(key);
+      keepFacts.items.push(fact);
+      result.movedFacts++;
+    }
+  }
+
+  const dropRecords = drop.get('records', true);
+  if (isMap(dropRecords)) {
+    let keepRecords = keep.get('records', true);
+    if (!isMap(keepRecords)) {
+      keep.set('records', keepDoc.createNode({}));
+      keepRecords = keep.get('records', true);
+    }
+    if (!isMap(keepRecords)) throw new Error('`records` node is not a mapping');
+    for (const collection of dropRecords.items) {
+      const name = String((collection.key as { value?: unknown })?.value ?? collection.key);
+      const target = keepRecords.get(name, true);
+      if (!target) {
+        keepRecords.items.push(collection);
+        result.movedRecords += isMap(collection.value) ? collection.value.items.length : 1;
+        continue;
+      }
+      if (!isMap(target) || !isMap(collection.value)) {
+        result.conflicts.push(name);
+        continue;
+      }
+      for (const record of collection.value.items) {
+        const key = String((record.key as { value?: unknown })?.value ?? record.key);
+        if (target.has(key)) {
+          result.conflicts.push(`${name}/${key}`);
+        } else {
+          target.items.push(record);
+          result.movedRecords++;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record drop's identity on keep's `thing:` block: its name and aliases as
+ * aliases, its slug as a previousSlug (URL redirect) and its stableId as a
+ * previousId.
+ */
+export function recordPreviousIdentity(keepDoc: Document, keep: MergeEntity, drop: MergeEntity): void {
+  const thing = keepDoc.get('thing');
+  if (!isMap(thing)) throw new Error('Thing document has no thing: block');
+  const keepName = normalizeEntityName(keep.name);
+  const isKeepName = (v: string) => normalizeEntityName(v) === keepName;
+  const aliases = thing.get('aliases');
+  const knownAliases = new Set(stringList(isSeq(aliases) ? aliases.toJSON() : []).map(normalizeEntityName));
+
+  appendUnique(thing, 'aliases', [drop.name, ...drop.aliases], (v) => isKeepName(v) || knownAliases.has(normalizeEntityName(v)));
+  appendUnique(thing, 'previousSlugs', [drop.slug, ...drop.previousSlugs], (v) => v === keep.slug);
+  appendUnique(
+    thing,
+    'previousIds',
+    [drop.stableId, ...drop.previousIds].filter((v): v is string => !!v),
+    (v) => v === keep.stableId,
+  );
+}
+
+/** Point a thing document at keep's identity (used when only drop has a thing file). */
+function adoptIdentity(doc: Document, keep: MergeEntity): void {
+  const thing = doc.get('thing');
+  if (!isMap(thing)) throw new Error('Thing document has no thing: block');
+  thing.set('id', keep.slug);
+  if (keep.stableId) thing.set('stableId', keep.stableId);
+  if (keep.type) thing.set('type', keep.type);
+  thing.set('name', keep.name);
+  if (keep.numericId) thing.set('numericId', keep.numericId);
+}
+
+function minimalThing(keep: MergeEntity): string {
+  return stringifyYaml({
+    thing: {
+      id: keep.slug,
+      stableId: keep.stableId,
+      type: keep.type,
+      name: keep.name,
+      ...(keep.numericId && { numericId: keep.numericId }),
+    },
+  });
+}
+
+/** Parse thing YAML the way readEntityDocument does, for content not yet on disk. */
+function parseThingDocument(content: string): Document {
+  return parseDocument(content, { customTags: CUSTOM_TAGS });
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+export interface MergePlan {
+  keep: MergeEntity;
+  drop: MergeEntity;
+  /** path → new content; null deletes the file */
+  writes: Map<string, string | null>;
+  /** path → number of references rewritten */
+  references: Map<string, number>;
+  thing: ThingMergeResult;
+  copiedKeys: string[];
+  warnings: string[];
+}
+
+/**
+ * Work out every file change a merge makes, without writing anything.
+ * Returns an error message when the merge isn't possible.
+ */
+export function planMerge(
+  keepId: string,
+  dropId: string,
+  dirs: Partial<MergeDirs> = {},
+): MergePlan | string {
+  const { root = PROJECT_ROOT, dataDir = FACTBASE_DATA_DIR } = dirs;
+  const entities = loadMergeEntities({ root, dataDir });
+  const keepFound = findMergeEntity(entities, keepId);
+  const dropFound = findMergeEntity(entities, dropId);
+  if (typeof keepFound === 'string') return keepFound;
+  if (typeof dropFound === 'string') return dropFound;
+  const keep = { ...keepFound };
+  const drop = dropFound;
+
+  if (keep.slug === drop.slug) return `"${keepId}" and "${dropId}" are the same entity`;
+  if (keep.type && drop.type && keep.type !== drop.type) {
+    return `Type mismatch: ${keep.slug} is ${keep.type}, ${drop.slug} is ${drop.type}`;
+  }
+  if (!keep.stableId) return `${keep.slug} has no stableId`;
+  keep.type ||= drop.type;
+  keep.numericId ??= drop.numericId;
+
+  const writes = new Map<string, string | null>();
+  const read = (path: string): string => {
+    const pending = writes.get(path);
+    return typeof pending === 'string' ? pending : readFileSync(path, 'utf-8');
+  };
+  const warnings: string[] = [];
+  let copiedKeys: string[] = [];
+
+  // 1. data/entities: fold drop's entry into keep's, or make it keep's
+  if (drop.entityFile) {
+    const extracted = extractEntry(read(drop.entityFile), drop.slug);
+    if (extracted) {
+      if (keep.entityFile) {
+        writes.set(drop.entityFile, extracted.content);
+        const lines = read(keep.entityFile).split('\n');
+        const range = findEntryRange(lines, keep.slug);
+        if (range) {
+          const folded = foldEntry(lines.slice(range[0], range[1]), extracted.entry);
+          lines.splice(range[0], range[1] - range[0], ...folded.entry);
+          writes.set(keep.entityFile, lines.join('\n'));
+          copiedKeys = folded.copied;
+        }
+      } else {
+        const lines = read(drop.entityFile).split('\n');
+        const range = findEntryRange(lines, drop.slug)!;
+        lines.splice(range[0], range[1] - range[0], ...renameEntry(extracted.entry, keep));
+        writes.set(drop.entityFile, lines.join('\n'));
+        keep.entityFile = drop.entityFile;
+      }
+    }
+  }
+
+  // 2. KB thing files: keep needs one to carry previousSlugs for redirects
+  const thingsDir = join(dataDir, 'things');
+  const keepThingFile = keep.thingFile ?? join(thingsDir, `${keep.slug}.yaml`);
+  if (!keep.thingFile) {
+    writes.set(keepThingFile, drop.thingFile ? read(drop.thingFile) : minimalThing(keep));
+  }
+  if (drop.thingFile && drop.thingFile !== keepThingFile) writes.set(drop.thingFile, null);
+
+  // 3. References in YAML and MDX
+  const references = new Map<string, number>();
+  const yamlFiles = [
+    ...findFiles(thingsDir, ['.yaml']),
+    ...findFiles(join(root, 'data'), ['.yaml', '.yml']),
+  ];
+  if (!keep.thingFile) yamlFiles.push(keepThingFile);
+  for (const path of new Set(yamlFiles)) {
+    if (writes.get(path) === null) continue;
+    const { content, count } = rewriteYamlRefs(read(path), drop, keep);
+    if (count === 0) continue;
+    writes.set(path, content);
+    references.set(path, count);
+  }
+  for (const path of findMdxFiles(join(root, 'content', 'docs'))) {
+    const { content, count } = rewriteMdxRefs(read(path), drop, keep);
+    if (count === 0) continue;
+    writes.set(path, content);
+    references.set(path, count);
+  }
+
+  // 4. Facts, records and previous identity onto keep's thing file
+  const keepDoc = parseThingDocument(read(keepThingFile));
+  if (!keep.thingFile) adoptIdentity(keepDoc, keep);
+  let thing: ThingMergeResult = { movedFacts: 0, skippedFacts: 0, movedRecords: 0, conflicts: [] };
+  if (drop.thingFile && keep.thingFile) {
+    const dropContent = rewriteYamlRefs(readFileSync(drop.thingFile, 'utf-8'), drop, keep).content;
+    thing = mergeThingDocuments(keepDoc, parseThingDocument(dropContent));
+  } else if (drop.thingFile) {
+    // keep adopted drop's thing file wholesale
+    const facts = keepDoc.get('facts');
+    thing.movedFacts = isSeq(facts) ? facts.items.length : 0;
+  }
+  recordPreviousIdentity(keepDoc, keep, drop);
+  writes.set(keepThingFile, keepDoc.toString());
+
+  const dropPages = findMdxFiles(join(root, 'content', 'docs')).filter((p) => basename(p, '.mdx') === drop.slug);
+  for (const page of dropPages) {
+    warnings.push(`${drop.slug} has its own page (${relative(root, page)}) — fold it into ${keep.slug}'s page by hand`);
+  }
+  for (const conflict of thing.conflicts) {
+    warnings.push(`record ${conflict} exists on both — kept ${keep.slug}'s, drop's copy discarded`);
+  }
+
+  return { keep, drop, writes, references, thing, copiedKeys, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Command
+// ---------------------------------------------------------------------------
+
+export async function runMerge(
+  keepId: string | undefined,
+  dropId: string | undefined,
+  options: { apply?: boolean; verbose?: boolean; root?: string; dataDir?: string } = {},
+): Promise<CommandResult> {
+  const { apply = false, verbose = false, root = PROJECT_ROOT } = options;
+  if (!keepId || !dropId) {
+    return { exitCode: 1, output: 'Usage: crux entity merge <keep> <drop> [--apply]' };
+  }
+
+  const plan = planMerge(keepId, dropId, { root, dataDir: options.dataDir });
+  if (typeof plan === 'string') return { exitCode: 1, output: `Error: ${plan}` };
+
+  const { keep, drop, thing } = plan;
+  const rel = (p: string) => relative(root, p);
+  const lines = [
+    `${colors.bold}${apply ? 'Merging' : 'Preview'}: ${drop.slug} → ${keep.slug}${colors.reset}` +
+      ` ${colors.dim}(${keep.type || 'untyped'})${colors.reset}`,
+    `  Facts moved: ${thing.movedFacts}${thing.skippedFacts ? ` (${thing.skippedFacts} duplicates skipped)` : ''}`,
+    `  Records moved: ${thing.movedRecords}`,
+  ];
+  if (plan.copiedKeys.length > 0) lines.push(`  Entry keys copied: ${plan.copiedKeys.join(', ')}`);
+  const refTotal = [...plan.references.values()].reduce((a, b) => a + b, 0);
+  lines.push(`  References rewritten: ${refTotal} in ${plan.references.size} file${plan.references.size !== 1 ? 's' : ''}`);
+  if (verbose) {
+    for (const [path, count] of plan.references) lines.push(`    ${colors.dim}${rel(path)} (${count})${colors.reset}`);
+  }
+  lines.push(`  Recorded on ${keep.slug}: previousSlugs += ${drop.slug}${drop.stableId ? `, previousIds += ${drop.stableId}` : ''}`);
+
+  lines.push('\n  Files:');
+  for (const [path, content] of plan.writes) {
+    const action = content === null ? 'delete' : existsSync(path) ? 'update' : 'create';
+    lines.push(`    ${action.padEnd(6)} ${colors.cyan}${rel(path)}${colors.reset}`);
+  }
+  for (const w of plan.warnings) lines.push(`  ${colors.yellow}⚠ ${w}${colors.reset}`);
+
+  if (!apply) {
+    lines.push(`\n${colors.yellow}Dry run — no files changed. Use --apply to apply.${colors.reset}`);
+    return { exitCode: 0, output: lines.join('\n') };
+  }
+
+  for (const [path, content] of plan.writes) {
+    if (content === null) unlinkSync(path);
+    else writeFileSync(path, content, 'utf-8');
+  }
+  lines.push(`\n${colors.green}✓ Updated ${plan.writes.size} file${plan.writes.size !== 1 ? 's' : ''}.${colors.reset}`);
+
+  const server = await mergeEntities(keep.slug, drop.slug);
+  if (server.ok) {
+    const { moved } = server.data;
+    lines.push(
+      `${colors.green}✓${colors.reset} wiki-server: moved ${moved.facts} facts, ${moved.summaries} summaries, ` +
+        `${moved.things} child things; deleted ${drop.slug}`,
+    );
+  } else {
+    lines.push(
+      `${colors.yellow}wiki-server not updated (${server.message}) — the next entity sync will add ${keep.slug}'s ` +
+        `new aliases, but ${drop.slug}'s row needs POST /api/entities/merge${colors.reset}`,
+    );
+  }
+  return { exitCode: 0, output: lines.join('\n') };
+}
@@ -0,0 +1,131 @@
+/**
+ * Entity Match Review
+ *
+ * Works through the wiki-server's queue of names that importers (grants,
+ * key persons, career history) could not confidently resolve to an entity.
+ * Accepting a review tells the server the name refers to an entity — it then
+ * resolves as an alias immediately — and writes the name into the entity's
+ * YAML `aliases` so it survives the next sync.
+ *
+ * Usage:
+ *   pnpm crux entity review                          # List pending reviews
+ *   pnpm crux entity review accept <id> [entity]     # Accept (default: top candidate)
+ *   pnpm crux entity review reject <id>              # None of the candidates match
+ */
+
+import { relative } from 'path';
+import { PROJECT_ROOT } from '../lib/content-types.ts';
+import { getColors } from '../lib/output.ts';
+import { addEntityAlias } from '../lib/entity-resolution.ts';
+import {
+  listEntityReviews,
+  getEntityReview,
+  acceptEntityReview,
+  rejectEntityReview,
+  type EntityReviewEntry,
+  type EntityReviewStatus,
+} from '../lib/wiki-server/entity-resolution.ts';
+import type { CommandResult } from '../lib/command-types.ts';
+
+const colors = getColors();
+
+function parseId(raw: string | undefined): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function formatEntry(r: EntityReviewEntry): string[] {
+  const context = [r.entityType, r.parent && `at ${r.parent}`].filter(Boolean).join(' ');
+  const lines = [
+    `  ${colors.bold}#${r.id}${colors.reset} "${r.rawName}"${context ? ` (${context})` : ''}` +
+      ` ${colors.dim}— ${r.source}, seen ${r.occurrences}×${colors.reset}`,
+  ];
+  if (r.candidates.length === 0) {
+    lines.push(`      ${colors.dim}no candidates${colors.reset}`);
+  }
+  for (const c of r.candidates.slice(0, 3)) {
+    lines.push(
+      `      ${c.confidence.toFixed(2)}  ${colors.cyan}${c.slug}${colors.reset} "${c.name}"` +
+        ` ${colors.dim}[${c.matchedOn}: ${c.matchedText}]${colors.reset}`,
+    );
+  }
+  return lines;
+}
+
+export async function runReviewList(options: {
+  status?: EntityReviewStatus;
+  source?: string;
+  limit?: number;
+}): Promise<CommandResult> {
+  const result = await listEntityReviews(options);
+  if (!result.ok) {
+    return { exitCode: 1, output: `Error: could not list reviews: ${result.message}` };
+  }
+
+  const { reviews, total } = result.data;
+  const status = options.status ?? 'pending';
+  if (total === 0) {
+    return { exitCode: 0, output: `No ${status} entity reviews.` };
+  }
+
+  const lines = [`${colors.bold}${total} ${status} entity review${total !== 1 ? 's' : ''}${colors.reset} (showing ${reviews.length})\n`];
+  for (const r of reviews) lines.push(...formatEntry(r));
+  if (status === 'pending') {
+    lines.push(`\n${colors.dim}Accept: crux entity review accept <id> [entity]   Reject: crux entity review reject <id>${colors.reset}`);
+  }
+  return { exitCode: 0, output: lines.join('\n') };
+}
+
+export async function runReviewAccept(
+  rawId: string | undefined,
+  entityId: string | undefined,
+  options: { reviewedBy?: string; apply: boolean },
+): Promise<CommandResult> {
+  const id = parseId(rawId);
+  if (id === null) return { exitCode: 1, output: 'Usage: crux entity review accept <id> [entity]' };
+
+  const current = await getEntityReview(id);
+  if (!current.ok) return { exitCode: 1, output: `Error: ${current.message}` };
+
+  const target = entityId ?? current.data.candidates[0]?.slug;
+  if (!target) {
+    return { exitCode: 1, output: `Review #${id} has no candidates — pass the entity explicitly.` };
+  }
+
+  if (!options.apply) {
+    return {
+      exitCode: 0,
+      output: `${colors.yellow}Dry run:${colors.reset} would accept #${id} "${current.data.rawName}" → ${target} ` +
+        `and add it to ${target}'s aliases. Use --apply to apply.`,
+    };
+  }
+
+  const accepted = await acceptEntityReview(id, target, options.reviewedBy);
+  if (!accepted.ok) return { exitCode: 1, output: `Error: ${accepted.message}` };
+
+  const lines = [`${colors.green}✓${colors.reset} Accepted #${id} "${accepted.data.rawName}" → ${target}`];
+  try {
+    const file = addEntityAlias(target, accepted.data.rawName);
+    lines.push(
+      file
+        ? `  Added alias to ${relative(PROJECT_ROOT, file)}`
+        : `  ${colors.dim}Alias already present in YAML${colors.reset}`,
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    lines.push(`  ${colors.yellow}Could not write alias to YAML: ${message}${colors.reset}`);
+  }
+  return { exitCode: 0, output: lines.join('\n') };
+}
+
+export async function runReviewReject(
+  rawId: string | undefined,
+  options: { reviewedBy?: string },
+): Promise<CommandResult> {
+  const id = parseId(rawId);
+  if (id === null) return { exitCode: 1, output: 'Usage: crux entity review reject <id>' };
+
+  const rejected = await rejectEntityReview(id, options.reviewedBy);
+  if (!rejected.ok) return { exitCode: 1, output: `Error: ${rejected.message}` };
+  return { exitCode: 0, output: `Rejected #${id} "${rejected.data.rawName}"` };
+}
@@ -0,0 +1,435 @@
+/**
+ * Detection Regression Benchmark
+ *
+ * Turns the injection eval into a repeatable benchmark:
+ * 1. Build a seeded, deterministic corpus from golden pages — the same seed
+ *    and page content always yield the same corrupted pages and manifests
+ * 2. Score detectors on it: per-detector precision/recall, broken down by
+ *    error category and detectability
+ * 3. Store the result as a baseline (crux/evals/baselines/)
+ * 4. Compare a later run against a baseline and report regressions
+ *
+ * `crux evals compare <baseline>` re-runs the baseline's exact config (seed,
+ * pages, categories, detectors), so a change to citation-audit.ts or
+ * adversarial-review.ts that loses detections fails the comparison.
+ */
+
+import { createHash } from 'node:crypto';
+import { execFileSync } from 'node:child_process';
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import type {
+  DetectorName,
+  ErrorCategory,
+  ErrorManifest,
+  EvalScores,
+  RecallBreakdown,
+} from './types.ts';
+import { ERROR_CATEGORIES, injectErrors } from './injectors/inject.ts';
+import { DETECTOR_FACTORIES, evalCorpus, loadGoldenPage, type DetectorAdapter } from './harness.ts';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/**
+ * Pages used when a benchmark doesn't name its own. alignment-research-papers
+ * is a fixture (crux/evals/fixtures/) citing arxiv papers, so fabricated
+ * citations land where the static detectors can catch them.
+ */
+export const GOLDEN_PAGES = ['anthropic', 'miri', 'alignment-research-papers'];
+
+export const DEFAULT_SEED = 20260222;
+
+/** Directory of committed baselines, relative to the repo root. */
+export const BASELINES_DIR = 'crux/evals/baselines';
+
+/**
+ * Detector source files. `crux evals compare --changed-since=<ref>` only
+ * re-runs the benchmark when one of these differs from <ref>.
+ */
+export const DETECTOR_SOURCES = [
+  'crux/authoring/page-improver/phases/citation-audit.ts',
+  'crux/authoring/page-improver/phases/adversarial-review.ts',
+  'crux/lib/citation/citation-auditor.ts',
+  'crux/lib/content-integrity.ts',
+  'crux/lib/hallucination-risk.ts',
+];
+
+/** Bump when the stored result shape changes. */
+const SCHEMA_VERSION = 1;
+
+export interface BenchmarkConfig {
+  seed: number;
+  pages: string[];
+  categories: ErrorCategory[];
+  errorsPerCategory: number;
+  detectors: DetectorName[];
+}
+
+export const DEFAULT_CONFIG: BenchmarkConfig = {
+  seed: DEFAULT_SEED,
+  pages: GOLDEN_PAGES,
+  categories: ERROR_CATEGORIES,
+  // Three fake arxiv citations form the shortest run content-integrity flags
+  errorsPerCategory: 3,
+  detectors: ['content-integrity', 'hallucination-risk'],
+};
+
+/** Stored benchmark result (baselines/*.json and results/benchmark-*.json). */
+export interface BenchmarkResult {
+  schemaVersion: number;
+  runAt: string;
+  config: BenchmarkConfig;
+  /** Golden page content hashes — a baseline is only comparable if these match. */
+  corpus: Array<{ pageId: string; contentHash: string; errorsInjected: number }>;
+  scores: EvalScores;
+  durationMs: number;
+  notes?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Corpus
+// ---------------------------------------------------------------------------
+
+export interface CorpusEntry {
+  pageId: string;
+  contentHash: string;
+  manifest: ErrorManifest;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Build a deterministic corpus by injecting errors into each golden page with
+ * the config's seed.
+ */
+export async function buildCorpus(
+  pages: Array<{ id: string; content: string }>,
+  config: Pick<BenchmarkConfig, 'seed' | 'categories' | 'errorsPerCategory'>,
+): Promise<CorpusEntry[]> {
+  const corpus: CorpusEntry[] = [];
+  for (const page of pages) {
+    const manifest = await injectErrors(page.id, page.content, {
+      seed: config.seed,
+      categories: config.categories,
+      errorsPerCategory: config.errorsPerCategory,
+    });
+    corpus.push({ pageId: page.id, contentHash: hashContent(page.content), manifest });
+  }
+  return corpus;
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+export interface RunBenchmarkOptions {
+  /** Page loader (defaults to harness.loadGoldenPage). */
+  loadPage?: (pageId: string) => Promise<string>;
+  /** Override detector adapters (tests); defaults to config.detectors. */
+  detectors?: DetectorAdapter[];
+  verbose?: boolean;
+}
+
+/** Resolve detector names to adapters. Throws for names with no adapter. */
+export function resolveDetectors(names: DetectorName[]): DetectorAdapter[] {
+  return names.map(name => {
+    const factory = DETECTOR_FACTORIES[name];
+    if (!factory) {
+      throw new Error(`No benchmark adapter for detector "${name}". Available: ${Object.keys(DETECTOR_FACTORIES).join(', ')}`);
+    }
+    return factory();
+  });
+}
+
+/**
+ * Build the corpus for a config and score its detectors.
+ */
+export async function runBenchmark(
+  config: BenchmarkConfig,
+  options: RunBenchmarkOptions = {},
+): Promise<BenchmarkResult> {
+  const start = Date.now();
+  const loadPage = options.loadPage ?? loadGoldenPage;
+  const detectors = options.detectors ?? resolveDetectors(config.detectors);
+
+  const pages: Array<{ id: string; content: string }> = [];
+  for (const id of config.pages) {
+    pages.push({ id, content: await loadPage(id) });
+  }
+
+  const corpus = await buildCorpus(pages, config);
+  const suite = await evalCorpus(corpus.map(c => c.manifest), { detectors, verbose: options.verbose });
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    runAt: new Date().toISOString(),
+    config: { ...config, detectors: detectors.map(d => d.name) },
+    corpus: corpus.map(c => ({
+      pageId: c.pageId,
+      contentHash: c.contentHash,
+      errorsInjected: c.manifest.errors.length,
+    })),
+    scores: suite.aggregate,
+    durationMs: Date.now() - start,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Baselines
+// ---------------------------------------------------------------------------
+
+/**
+ * A baseline normalized for comparison. Legacy baselines (the hand-written
+ * baseline-2026-02-22.json format) carry aggregate scores but no seed or
+ * content hashes, so only their scores can be checked.
+ */
+export interface Baseline {
+  path: string;
+  legacy: boolean;
+  config: BenchmarkConfig;
+  corpus: BenchmarkResult['corpus'];
+  scores: {
+    recall: number;
+    precision: number;
+    byCategory: Partial<Record<ErrorCategory, RecallBreakdown>>;
+    byDetectability: Partial<EvalScores['byDetectability']>;
+    byDetector: Partial<Record<DetectorName, {
+      precision: number;
+      recall?: number;
+      byCategory?: Partial<Record<ErrorCategory, RecallBreakdown>>;
+      byDetectability?: Partial<EvalScores['byDetectability']>;
+    }>>;
+  };
+}
+
+interface LegacyBaseline {
+  suites: {
+    injection: {
+      pages: string[];
+      detectors: DetectorName[];
+      recall: number;
+      precision: number;
+      byCategory: Partial<Record<ErrorCategory, RecallBreakdown>>;
+      byDetector: Partial<Record<DetectorName, { precision: number }>>;
+    };
+  };
+}
+
+/**
+ * Resolve a baseline argument: a path, a file name in baselines/, or "latest".
+ */
+export async function resolveBaselinePath(arg: string, root: string): Promise<string> {
+  if (arg === 'latest') {
+    const files = (await readdir(join(root, BASELINES_DIR)))
+      .filter(f => f.endsWith('.json'))
+      .sort();
+    if (files.length === 0) throw new Error(`No baselines in ${BASELINES_DIR}`);
+    return join(root, BASELINES_DIR, files[files.length - 1]);
+  }
+  if (arg.includes('/')) return arg;
+  return join(root, BASELINES_DIR, arg.endsWith('.json') ? arg : `${arg}.json`);
+}
+
+/** Normalize a parsed baseline file (current or legacy format). */
+export function parseBaseline(raw: unknown, path: string): Baseline {
+  const data = raw as Partial<BenchmarkResult> & Partial<LegacyBaseline>;
+
+  if (data.schemaVersion != null && data.config && data.scores) {
+    return { path, legacy: false, config: data.config, corpus: data.corpus ?? [], scores: data.scores };
+  }
+
+  const injection = data.suites?.injection;
+  if (injection) {
+    const buckets = Object.values(injection.byCategory) as RecallBreakdown[];
+    return {
+      path,
+      legacy: true,
+      config: {
+        ...DEFAULT_CONFIG,
+        pages: injection.pages,
+        categories: Object.keys(injection.byCategory) as ErrorCategory[],
+        errorsPerCategory: Math.max(1, Math.round((buckets[0]?.total ?? 0) / Math.max(1, injection.pages.length))),
+        detectors: injection.detectors,
+      },
+      corpus: [],
+      scores: {
+        recall: injection.recall,
+        precision: injection.precision,
+        byCategory: injection.byCategory,
+        byDetectability: {},
+        byDetector: injection.byDetector,
+      },
+    };
+  }
+
+  throw new Error(`${basename(path)} is not a benchmark baseline (no config/scores or suites.injection)`);
+}
+
+export async function loadBaseline(path: string): Promise<Baseline> {
+  return parseBaseline(JSON.parse(await readFile(path, 'utf-8')), path);
+}
+
+/**
+ * Detector source files that differ between `ref` and the working tree.
+ */
+export function changedDetectorSources(ref: string, root: string): string[] {
+  const diff = execFileSync('git', ['diff', '--name-only', ref, '--', ...DETECTOR_SOURCES], {
+    cwd: root,
+    encoding: 'utf-8',
+  }).trim();
+  return diff ? diff.split('\n') : [];
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+export interface MetricDelta {
+  /** Metric path, e.g. "citation-auditor.recall.fabricated-claim". */
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface Comparison {
+  regressions: MetricDelta[];
+  improvements: MetricDelta[];
+  /** Reasons the runs may not be directly comparable. */
+  warnings: string[];
+  /** Reasons the baseline cannot catch a regression at all; compare fails on these. */
+  blocking: string[];
+}
+
+/** Minimum number of baseline errors in a bucket before its recall is compared. */
+const MIN_BUCKET_SIZE = 2;
+
+/**
+ * Reasons `baseline` cannot catch a regression: legacy baselines were not run
+ * on a reproducible corpus, and a baseline whose every score is 0 has nothing
+ * to drop from. `compare` fails on these rather than passing vacuously.
+ */
+export function baselineGaps(baseline: Baseline): string[] {
+  const name = basename(baseline.path);
+  const fix = 'save one with `crux evals benchmark --save-baseline`';
+  if (baseline.legacy) {
+    return [`${name} is a legacy baseline (no seed or content hashes) — ${fix}`];
+  }
+
+  const { scores } = baseline;
+  const bucketScores = (buckets: Partial<Record<string, RecallBreakdown>> | undefined) =>
+    Object.values(buckets ?? {}).map(b => b?.recall ?? 0);
+  const guarded = [
+    scores.recall,
+    ...Object.values(scores.byDetector).flatMap(d => [
+      d?.precision ?? 0,
+      d?.recall ?? 0,
+      ...bucketScores(d?.byCategory),
+      ...bucketScores(d?.byDetectability),
+    ]),
+  ];
+  if (guarded.every(v => v === 0)) {
+    return [`every score in ${name} is 0, so no regression can be detected — ${fix}`];
+  }
+  return [];
+}
+
+/**
+ * Compare a benchmark run against a baseline. A metric regresses when it
+ * drops by more than `tolerance` (absolute, 0-1).
+ *
+ * Checked: overall recall; per-detector precision and recall; per-detector
+ * recall by category and by detectability. Legacy baselines have no
+ * per-detector recall, so their category recall is checked in aggregate.
+ */
+export function compareToBaseline(
+  baseline: Baseline,
+  current: BenchmarkResult,
+  tolerance = 0.05,
+): Comparison {
+  const regressions: MetricDelta[] = [];
+  const improvements: MetricDelta[] = [];
+  const warnings: string[] = [];
+
+  const check = (metric: string, before: number | undefined, after: number | undefined) => {
+    if (before == null) return;
+    const value = after ?? 0;
+    const delta = value - before;
+    if (delta < -tolerance) regressions.push({ metric, baseline: before, current: value, delta });
+    else if (delta > tolerance) improvements.push({ metric, baseline: before, current: value, delta });
+  };
+  const checkBuckets = (
+    prefix: string,
+    before: Partial<Record<string, RecallBreakdown>> | undefined,
+    after: Partial<Record<string, RecallBreakdown>> | undefined,
+  ) => {
+    for (const [key, bucket] of Object.entries(before ?? {})) {
+      if (!bucket || bucket.total < MIN_BUCKET_SIZE) continue;
+      check(`${prefix}.${key}`, bucket.recall, after?.[key]?.recall);
+    }
+  };
+
+  for (const page of baseline.corpus) {
+    const now = current.corpus.find(c => c.pageId === page.pageId);
+    if (!now) warnings.push(`Page "${page.pageId}" is in the baseline corpus but was not run`);
+    else if (now.contentHash !== page.contentHash) warnings.push(`Golden page "${page.pageId}" changed since the baseline — injected errors differ`);
+  }
+
+  check('overall.recall', baseline.scores.recall, current.scores.recall);
+  if (baseline.legacy) {
+    checkBuckets('overall.recall', baseline.scores.byCategory, current.scores.byCategory);
+  }
+
+  for (const [det, before] of Object.entries(baseline.scores.byDetector)) {
+    if (!before) continue;
+    const after = current.scores.byDetector[det as DetectorName];
+    if (!after) {
+      warnings.push(`Detector "${det}" is in the baseline but did not run`);
+      continue;
+    }
+    check(`${det}.precision`, before.precision, after.precision);
+    check(`${det}.recall`, before.recall, after.recall);
+    checkBuckets(`${det}.recall`, before.byCategory, after.byCategory);
+    checkBuckets(`${det}.recall`, before.byDetectability, after.byDetectability);
+  }
+
+  return { regressions, improvements, warnings, blocking: baselineGaps(baseline) };
+}
+
+/**
+ * Format a comparison for the terminal.
+ */
+export function formatComparison(comparison: Comparison, baselinePath: string, tolerance: number): string {
+  const pct = (n: number) => `${(n * 100).toFixed(0)}%`;
+  const signed = (n: number) => `${n > 0 ? '+' : ''}${(n * 100).toFixed(0)}pp`;
+  const lines: string[] = [];
+
+  lines.push(`Baseline: ${basename(baselinePath)} (tolerance ${pct(tolerance)})`);
+  for (const w of comparison.warnings) lines.push(`  warning: ${w}`);
+  for (const b of comparison.blocking) lines.push(`  error: ${b}`);
+  lines.push('');
+
+  if (comparison.regressions.length > 0) {
+    lines.push(`Regressions (${comparison.regressions.length}):`);
+    for (const r of comparison.regressions) {
+      lines.push(`  ${r.metric}: ${pct(r.baseline)} → ${pct(r.current)} (${signed(r.delta)})`);
+    }
+  } else if (comparison.blocking.length === 0) {
+    // A baseline that cannot catch a regression can't vouch for there being none
+    lines.push('No regressions.');
+  }
+
+  if (comparison.improvements.length > 0) {
+    lines.push('');
+    lines.push(`Improvements (${comparison.improvements.length}):`);
+    for (const r of comparison.improvements) {
+      lines.push(`  ${r.metric}: ${pct(r.baseline)} → ${pct(r.current)} (${signed(r.delta)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -2,8 +2,9 @@
  * Tests for the hallucination detection eval framework.
  *
  * Covers:
- * - Error injectors (wrong numbers, fabricated citations, exaggerations, missing nuance, fabricated claims)
- * - Scoring (matching findings to injected errors, precision/recall)
+ * - Error injectors (one per ErrorCategory) and seeded, deterministic injection
+ * - Scoring (matching findings to injected errors, precision/recall, per-detector breakdowns)
+ * - Benchmark baselines (parsing, regression comparison)
  * - Cross-reference checker (contradiction detection)
  * - Reference sniffer (claim extraction)
  * - Eval harness (inject → detect → score pipeline)
@@ -16,7 +17,17 @@ import { injectWrongNumbers } from './injectors/wrong-numbers.ts';
 import { injectFabricatedCitations } from './injectors/fabricated-citations.ts';
 import { injectExaggerations } from './injectors/exaggerations.ts';
 import { injectMissingNuance } from './injectors/missing-nuance.ts';
+import { injectWrongAttribution } from './injectors/wrong-attribution.ts';
+import { injectFabricatedClaims } from './injectors/fabricated-claims.ts';
+import { injectTemporalErrors } from './injectors/temporal-errors.ts';
+import { injectEntityConfusion } from './injectors/entity-confusion.ts';
+import { injectErrors, ERROR_CATEGORIES } from './injectors/inject.ts';
+import { createRng } from './rng.ts';
 import { matchFindings, computeScores, formatScoreReport } from './score.ts';
+import { adversarialReviewToFindings, type DetectorAdapter } from './harness.ts';
+import {
+  runBenchmark, parseBaseline, compareToBaseline, baselineGaps, formatComparison, type BenchmarkResult,
+} from './benchmark.ts';
 import { extractClaims } from './agents/reference-sniffer.ts';
 import { extractFacts } from './agents/cross-reference-checker.ts';
 import type { InjectedError, DetectorFinding } from './types.ts';
@@ -190,6 +201,158 @@ describe('injectMissingNuance', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Wrong attribution injection tests
+// ---------------------------------------------------------------------------
+
+describe('injectWrongAttribution', () => {
+  it('swaps an attributed person for another person on the page', async () => {
+    const result = await injectWrongAttribution(SAMPLE_ORG_PAGE, 1, false, createRng(1));
+
+    expect(result.errors).toHaveLength(1);
+    const [error] = result.errors;
+    expect(error.category).toBe('wrong-attribution');
+    // Only the Key People entries can be swapped: the founding sentence names both people
+    expect(error.originalText).toMatch(/^- \*\*Dr\. (Alice Smith|Bob Jones)\*\*/);
+    expect(error.corruptedText).not.toBe(error.originalText);
+    expect(result.content).toContain(error.corruptedText);
+  });
+
+  it('does nothing when fewer than two people are named', async () => {
+    const page = `---
+title: Test
+---
+
+Dr. Alice Smith argued that alignment is hard.
+`;
+    const result = await injectWrongAttribution(page, 1, false, createRng(1));
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe(page);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Fabricated claim injection tests
+// ---------------------------------------------------------------------------
+
+describe('injectFabricatedClaims', () => {
+  it('inserts a claim that reuses an existing footnote', async () => {
+    const result = await injectFabricatedClaims(SAMPLE_ORG_PAGE, 1, false, createRng(1));
+
+    expect(result.errors).toHaveLength(1);
+    const [error] = result.errors;
+    expect(error.category).toBe('fabricated-claim');
+    expect(error.corruptedText).toMatch(/Example AI Lab.*\[\^[12]\]$/);
+    expect(result.content).toContain(error.corruptedText);
+    // Footnote definitions are untouched
+    expect(result.content.match(/^\[\^\d\]:/gm)).toHaveLength(2);
+  });
+
+  it('needs a cited sentence to attach to', async () => {
+    const result = await injectFabricatedClaims('---\ntitle: T\n---\n\nNo citations here.\n', 1, false, createRng(1));
+    expect(result.errors).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Temporal error injection tests
+// ---------------------------------------------------------------------------
+
+describe('injectTemporalErrors', () => {
+  it('swaps two years in a paragraph', async () => {
+    const page = `---
+title: Test
+---
+
+The lab raised funding in 2022, followed by a larger round in 2023.
+`;
+    const result = await injectTemporalErrors(page, 1, false, createRng(1));
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].category).toBe('temporal-error');
+    expect(result.content).toContain('raised funding in 2023, followed by a larger round in 2022.');
+    expect(result.errors[0].corruptedText).toBe('The lab raised funding in 2023, followed by a larger round in 2022.');
+  });
+
+  it('moves a month-dated event when no swap is possible', async () => {
+    const page = `---
+title: Test
+---
+
+The model was released in March 2023.
+`;
+    const result = await injectTemporalErrors(page, 1, false, createRng(1));
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.content).not.toContain('March 2023');
+    expect(result.content).toMatch(/March 20(1[6-9]|2[6-9])/);
+  });
+
+  it('ignores years inside URLs and footnote definitions', async () => {
+    const page = `---
+title: Test
+---
+
+See the report.[^1]
+
+[^1]: [Report 2021](https://example.com/2021/2022)
+`;
+    const result = await injectTemporalErrors(page, 1, false, createRng(1));
+    expect(result.errors).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Entity confusion injection tests
+// ---------------------------------------------------------------------------
+
+describe('injectEntityConfusion', () => {
+  it('swaps an entity for a similar one', async () => {
+    const result = await injectEntityConfusion(SAMPLE_ORG_PAGE, 1, false, createRng(1));
+
+    expect(result.errors).toHaveLength(1);
+    const [error] = result.errors;
+    expect(error.category).toBe('entity-confusion');
+    expect(error.description).toMatch(/Swapped (AI lab|university) "(DeepMind|MIT)"/);
+    expect(result.content).toContain(error.corruptedText);
+  });
+
+  it('leaves link targets alone', async () => {
+    const page = `---
+title: Test
+---
+
+See [the announcement](https://openai.com/OpenAI-news).
+`;
+    const result = await injectEntityConfusion(page, 1, false, createRng(1));
+    expect(result.errors).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Injection orchestrator tests
+// ---------------------------------------------------------------------------
+
+describe('injectErrors', () => {
+  it('has an injector for every category', async () => {
+    const manifest = await injectErrors('example-ai-lab', SAMPLE_ORG_PAGE, { seed: 7 });
+    const categories = new Set(manifest.errors.map(e => e.category));
+
+    // The sample page has material for every category
+    expect([...categories].sort()).toEqual([...ERROR_CATEGORIES].sort());
+  });
+
+  it('is deterministic for a given seed', async () => {
+    const a = await injectErrors('example-ai-lab', SAMPLE_ORG_PAGE, { seed: 42, errorsPerCategory: 2 });
+    const b = await injectErrors('example-ai-lab', SAMPLE_ORG_PAGE, { seed: 42, errorsPerCategory: 2 });
+    const c = await injectErrors('example-ai-lab', SAMPLE_ORG_PAGE, { seed: 43, errorsPerCategory: 2 });
+
+    expect(a.corruptedContent).toBe(b.corruptedContent);
+    expect(a.errors).toEqual(b.errors);
+    expect(c.corruptedContent).not.toBe(a.corruptedContent);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Scoring tests
 // ---------------------------------------------------------------------------
@@ -330,6 +493,43 @@ describe('computeScores', () => {
   });
 });
 
+describe('computeScores per-detector breakdown', () => {
+  const errors: InjectedError[] = [
+    { id: '1', category: 'wrong-number', description: '', originalText: '', corruptedText: '', paragraphIndex: 0, detectability: 'easy' },
+    { id: '2', category: 'wrong-number', description: '', originalText: '', corruptedText: '', paragraphIndex: 10, detectability: 'hard' },
+    { id: '3', category: 'entity-confusion', description: '', originalText: '', corruptedText: '', paragraphIndex: 20, detectability: 'hard' },
+  ];
+  const findings: DetectorFinding[] = [
+    { detector: 'citation-auditor', description: 'A', paragraphIndex: 0 },
+    { detector: 'citation-auditor', description: 'B', paragraphIndex: 40 },
+    { detector: 'adversarial-review', description: 'C', paragraphIndex: 20 },
+  ];
+
+  it('computes recall by category and detectability for each detector', () => {
+    const { matches, truePositiveFindings } = matchFindings(errors, findings);
+    const scores = computeScores(matches, findings, truePositiveFindings.size);
+
+    expect(scores.byDetectability.easy).toEqual({ total: 1, caught: 1, recall: 1 });
+    expect(scores.byDetectability.hard).toEqual({ total: 2, caught: 1, recall: 0.5 });
+
+    const auditor = scores.byDetector['citation-auditor'];
+    expect(auditor).toMatchObject({ findings: 2, truePositives: 1, precision: 0.5, errorsCaught: 1 });
+    expect(auditor.byCategory['wrong-number']).toEqual({ total: 2, caught: 1, recall: 0.5 });
+    expect(auditor.byCategory['entity-confusion']?.recall).toBe(0);
+
+    const review = scores.byDetector['adversarial-review'];
+    expect(review.byCategory['entity-confusion']?.recall).toBe(1);
+    expect(review.byDetectability.easy?.recall).toBe(0);
+  });
+
+  it('includes detectors that ran but found nothing', () => {
+    const { matches, truePositiveFindings } = matchFindings(errors, []);
+    const scores = computeScores(matches, [], truePositiveFindings.size, ['content-integrity']);
+
+    expect(scores.byDetector['content-integrity']).toMatchObject({ findings: 0, errorsCaught: 0, recall: 0 });
+  });
+});
+
 describe('formatScoreReport', () => {
   it('produces readable markdown', () => {
     const scores = computeScores(
@@ -346,6 +546,142 @@ describe('formatScoreReport', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Detector adapter tests
+// ---------------------------------------------------------------------------
+
+describe('adversarialReviewToFindings', () => {
+  it('keeps gaps that point at existing text and extracts quoted text', () => {
+    const findings = adversarialReviewToFindings({
+      gaps: [
+        { type: 'speculation', description: 'The claim "the lab has been highly successful in interpretability" is uncited', actionType: 'edit' },
+        { type: 'missing-standard-data', description: 'No headcount', actionType: 're-research', reResearchQuery: 'headcount' },
+      ],
+      needsReResearch: true,
+      reResearchQueries: ['headcount'],
+      overallAssessment: '',
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      detector: 'adversarial-review',
+      flaggedText: 'the lab has been highly successful in interpretability',
+      severity: 'warning',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Benchmark tests
+// ---------------------------------------------------------------------------
+
+describe('benchmark', () => {
+  /** Flags every paragraph containing a year — catches date errors only. */
+  const yearDetector: DetectorAdapter = {
+    name: 'citation-auditor',
+    requiresNetwork: false,
+    requiresLlm: false,
+    async detect(content) {
+      return content
+        .split(/\n\n+/)
+        .filter(p => /\b20\d{2}\b/.test(p))
+        .map(p => ({ detector: 'citation-auditor' as const, description: 'dated claim', flaggedText: p }));
+    },
+  };
+  const config = {
+    seed: 1,
+    pages: ['example-ai-lab', 'alice-smith'],
+    categories: ERROR_CATEGORIES,
+    errorsPerCategory: 1,
+    detectors: ['citation-auditor' as const],
+  };
+  const loadPage = async (id: string) => (id === 'example-ai-lab' ? SAMPLE_ORG_PAGE : SAMPLE_PERSON_PAGE);
+
+  it('produces the same scores for the same seed', async () => {
+    const a = await runBenchmark(config, { loadPage, detectors: [yearDetector] });
+    const b = await runBenchmark(config, { loadPage, detectors: [yearDetector] });
+
+    expect(a.scores).toEqual(b.scores);
+    expect(a.corpus).toEqual(b.corpus);
+    expect(a.scores.byDetector['citation-auditor'].recall).toBeGreaterThan(0);
+  });
+
+  it('reports no regressions against its own result', async () => {
+    const result = await runBenchmark(config, { loadPage, detectors: [yearDetector] });
+    const comparison = compareToBaseline(parseBaseline(result, 'baseline-test.json'), result);
+
+    expect(comparison.regressions).toEqual([]);
+    expect(comparison.warnings).toEqual([]);
+    expect(comparison.blocking).toEqual([]);
+  });
+
+  it('blocks on a baseline whose every score is 0', async () => {
+    const silent: DetectorAdapter = { ...yearDetector, detect: async () => [] };
+    const result = await runBenchmark(config, { loadPage, detectors: [silent] });
+
+    const comparison = compareToBaseline(parseBaseline(result, 'baseline-test.json'), result);
+    expect(comparison.regressions).toEqual([]);
+    expect(comparison.blocking).toEqual([expect.stringContaining('every score in baseline-test.json is 0')]);
+    expect(formatComparison(comparison, 'baseline-test.json', 0.05)).not.toContain('No regressions.');
+  });
+
+  it('catches fabricated arxiv citations with the static detectors', async () => {
+    const result = await runBenchmark({
+      seed: 1,
+      pages: ['alignment-research-papers'],
+      categories: ['fabricated-citation'],
+      errorsPerCategory: 3,
+      detectors: ['content-integrity'],
+    });
+
+    expect(result.scores.byDetector['content-integrity']).toMatchObject({ precision: 1, recall: 1 });
+    expect(baselineGaps(parseBaseline(result, 'baseline-test.json'))).toEqual([]);
+  });
+
+  it('flags a detector that stops catching errors', async () => {
+    const baseline = await runBenchmark(config, { loadPage, detectors: [yearDetector] });
+    const silent: DetectorAdapter = { ...yearDetector, detect: async () => [] };
+    const current = await runBenchmark(config, { loadPage, detectors: [silent] });
+
+    const comparison = compareToBaseline(parseBaseline(baseline, 'baseline-test.json'), current);
+    const metrics = comparison.regressions.map(r => r.metric);
+    expect(metrics).toContain('overall.recall');
+    expect(metrics).toContain('citation-auditor.recall');
+  });
+
+  it('warns when a golden page changed since the baseline', async () => {
+    const baseline = await runBenchmark(config, { loadPage, detectors: [yearDetector] });
+    const current: BenchmarkResult = {
+      ...baseline,
+      corpus: baseline.corpus.map(c => (c.pageId === 'alice-smith' ? { ...c, contentHash: 'changed' } : c)),
+    };
+
+    const comparison = compareToBaseline(parseBaseline(baseline, 'baseline-test.json'), current);
+    expect(comparison.warnings).toEqual([expect.stringContaining('"alice-smith" changed')]);
+  });
+
+  it('parses legacy baselines', () => {
+    const baseline = parseBaseline({
+      runDate: '2026-02-22',
+      suites: {
+        injection: {
+          pages: ['anthropic', 'miri'],
+          detectors: ['content-integrity', 'hallucination-risk'],
+          recall: 0.5,
+          precision: 0,
+          byCategory: { 'wrong-number': { total: 2, caught: 1, recall: 0.5 } },
+          byDetector: { 'content-integrity': { findings: 0, truePositives: 0, precision: 0 } },
+        },
+      },
+    }, 'baseline-2026-02-22.json');
+
+    expect(baseline.legacy).toBe(true);
+    expect(baseline.config).toMatchObject({ pages: ['anthropic', 'miri'], categories: ['wrong-number'], errorsPerCategory: 1 });
+    expect(baselineGaps(baseline)).toEqual([expect.stringContaining('legacy baseline')]);
+    expect(() => parseBaseline({ runDate: 'x' }, 'other.json')).toThrow(/not a benchmark baseline/);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Claim extraction tests (reference sniffer)
 // ---------------------------------------------------------------------------
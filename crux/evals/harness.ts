@@ -11,6 +11,10 @@
  * Each detector is run independently and their findings are merged.
  * The harness is detector-agnostic — new detectors can be plugged in
  * by implementing the DetectorAdapter interface.
+ *
+ * evalCorpus() runs the same detect → score steps over a pre-built corpus
+ * (see benchmark.ts), so a seeded corpus can be re-scored after detector
+ * changes and compared against a stored baseline.
  */
 
 import { readFile } from 'node:fs/promises';
@@ -23,7 +27,10 @@ import type {
   SuiteEvalResult,
 } from './types.ts';
 import { injectErrors, type InjectionPlan } from './injectors/inject.ts';
-import { matchFindings, computeScores, formatScoreReport } from './score.ts';
+import { matchFindings, computeScores } from './score.ts';
+import { parseFrontmatter } from '../lib/mdx-utils.ts';
+import type { AuditResult } from '../lib/citation/citation-auditor.ts';
+import type { AdversarialReviewResult, PageData } from '../authoring/page-improver/types.ts';
 
 // ---------------------------------------------------------------------------
 // Detector adapter interface
@@ -80,13 +87,18 @@ export function contentIntegrityDetector(): DetectorAdapter {
         });
       }
 
+      // One finding per line citing a suspect ID, so each fake citation is located
       const arxiv = detectSequentialArxivIds(content);
       if (arxiv.suspicious) {
-        findings.push({
-          detector: 'content-integrity',
-          description: `Sequential arxiv IDs detected (fabrication signal): ${arxiv.sequentialIds.join(', ')}`,
-          severity: 'critical',
-        });
+        const lines = content.split('\n').filter(line => arxiv.sequentialIds.some(id => line.includes(id)));
+        for (const line of lines) {
+          findings.push({
+            detector: 'content-integrity',
+            description: `Sequential arxiv IDs detected (fabrication signal): ${arxiv.sequentialIds.join(', ')}`,
+            flaggedText: line,
+            severity: 'critical',
+          });
+        }
       }
 
       return findings;
@@ -142,60 +154,131 @@ export function hallucinationRiskDetector(): DetectorAdapter {
   };
 }
 
+/**
+ * Minimal page metadata for running page-improver phases on eval content.
+ * The ID is prefixed so phase temp files don't overwrite real improve runs.
+ */
+function evalPageData(content: string, pageId: string): PageData {
+  const title = parseFrontmatter(content).title;
+  return {
+    id: `eval-${pageId}`,
+    title: typeof title === 'string' ? title : pageId,
+    path: pageId,
+  };
+}
+
+/**
+ * Convert citation audit verdicts to detector findings.
+ */
+export function auditResultToFindings(result: AuditResult): DetectorFinding[] {
+  const findings: DetectorFinding[] = [];
+
+  for (const citation of result.citations) {
+    if (citation.verdict === 'misattributed') {
+      findings.push({
+        detector: 'citation-auditor',
+        description: `Citation [^${citation.footnoteRef}] is misattributed: ${citation.explanation}`,
+        flaggedText: citation.claim,
+        severity: 'critical',
+      });
+    } else if (citation.verdict === 'unsupported') {
+      findings.push({
+        detector: 'citation-auditor',
+        description: `Citation [^${citation.footnoteRef}] is unsupported: ${citation.explanation}`,
+        flaggedText: citation.claim,
+        severity: 'warning',
+      });
+    } else if (citation.verdict === 'url-dead') {
+      findings.push({
+        detector: 'citation-auditor',
+        description: `Citation [^${citation.footnoteRef}] URL is dead`,
+        severity: 'warning',
+      });
+    }
+  }
+
+  return findings;
+}
+
 /**
  * Citation auditor — requires network to fetch sources and LLM to verify.
  * This is the most expensive but most powerful detector.
+ *
+ * Runs the page-improver's citation audit phase (citation-audit.ts) rather
+ * than the auditor library directly, so the benchmark measures what the
+ * pipeline actually ships.
  */
 export function citationAuditorDetector(): DetectorAdapter {
   return {
     name: 'citation-auditor',
     requiresNetwork: true,
     requiresLlm: true,
-    async detect(content: string, _pageId: string): Promise<DetectorFinding[]> {
-      const { auditCitations } = await import('../lib/citation/citation-auditor.ts');
+    async detect(content: string, pageId: string): Promise<DetectorFinding[]> {
+      const { citationAuditPhase } = await import('../authoring/page-improver/phases/citation-audit.ts');
 
       try {
-        const result = await auditCitations({
-          content,
-          fetchMissing: true,
-          passThreshold: 0.8,
-        });
+        const result = await citationAuditPhase(evalPageData(content, pageId), content, undefined, {});
+        return auditResultToFindings(result);
+      } catch (err) {
+        console.warn('Citation auditor failed:', (err as Error).message);
+        return [];
+      }
+    },
+  };
+}
 
-        const findings: DetectorFinding[] = [];
-
-        for (const citation of result.citations) {
-          if (citation.verdict === 'misattributed') {
-            findings.push({
-              detector: 'citation-auditor',
-              description: `Citation [^${citation.footnoteRef}] is misattributed: ${citation.explanation}`,
-              flaggedText: citation.claim,
-              severity: 'critical',
-            });
-          } else if (citation.verdict === 'unsupported') {
-            findings.push({
-              detector: 'citation-auditor',
-              description: `Citation [^${citation.footnoteRef}] is unsupported: ${citation.explanation}`,
-              flaggedText: citation.claim,
-              severity: 'warning',
-            });
-          } else if (citation.verdict === 'url-dead') {
-            findings.push({
-              detector: 'citation-auditor',
-              description: `Citation [^${citation.footnoteRef}] URL is dead`,
-              severity: 'warning',
-            });
-          }
-        }
+/** Adversarial review gap types that point at existing text (others flag missing content). */
+const ADVERSARIAL_FINDING_GAPS = new Set(['speculation', 'fact-density']);
+
+/**
+ * Convert adversarial review gaps to detector findings. The reviewer is asked
+ * to quote the text it flags, so the first quoted span becomes flaggedText.
+ */
+export function adversarialReviewToFindings(review: AdversarialReviewResult): DetectorFinding[] {
+  return review.gaps
+    .filter(gap => ADVERSARIAL_FINDING_GAPS.has(gap.type))
+    .map(gap => {
+      const quoted = gap.description.match(/["“]([^"”]{10,})["”]/);
+      return {
+        detector: 'adversarial-review' as const,
+        description: `[${gap.type}] ${gap.description}`,
+        flaggedText: quoted?.[1],
+        severity: gap.type === 'speculation' ? 'warning' as const : 'info' as const,
+      };
+    });
+}
+
+/**
+ * Adversarial review — the page-improver's skeptical reviewer model
+ * (adversarial-review.ts). Requires an LLM.
+ */
+export function adversarialReviewDetector(): DetectorAdapter {
+  return {
+    name: 'adversarial-review',
+    requiresNetwork: false,
+    requiresLlm: true,
+    async detect(content: string, pageId: string): Promise<DetectorFinding[]> {
+      const { adversarialReviewPhase } = await import('../authoring/page-improver/phases/adversarial-review.ts');
 
-        return findings;
+      try {
+        const review = await adversarialReviewPhase(evalPageData(content, pageId), content, {});
+        return adversarialReviewToFindings(review);
       } catch (err) {
-        console.warn('Citation auditor failed:', (err as Error).message);
+        console.warn('Adversarial review failed:', (err as Error).message);
         return [];
       }
     },
   };
 }
 
+/** Detector factories by name, for benchmark configs that list detectors. */
+export const DETECTOR_FACTORIES: Partial<Record<DetectorName, () => DetectorAdapter>> = {
+  'content-integrity': contentIntegrityDetector,
+  'hallucination-risk': hallucinationRiskDetector,
+  'citation-auditor': citationAuditorDetector,
+  'adversarial-review': adversarialReviewDetector,
+};
+
 // ---------------------------------------------------------------------------
 // Eval harness
 // ---------------------------------------------------------------------------
@@ -218,21 +301,33 @@ export async function evalPage(
   pageId: string,
   content: string,
   options: HarnessOptions = {},
+): Promise<PageEvalResult> {
+  const verbose = options.verbose ?? false;
+
+  if (verbose) console.log('[eval] Injecting errors...');
+  const manifest = await injectErrors(pageId, content, options.injectionPlan);
+  if (verbose) console.log(`[eval] Injected ${manifest.errors.length} errors`);
+
+  return evalManifest(manifest, options);
+}
+
+/**
+ * Run detectors against an already-corrupted page and score the results.
+ */
+export async function evalManifest(
+  manifest: ErrorManifest,
+  options: HarnessOptions = {},
 ): Promise<PageEvalResult> {
   const start = Date.now();
   const verbose = options.verbose ?? false;
+  const { pageId } = manifest;
 
   // 1. Select detectors
   const detectors = options.detectors ?? getDefaultDetectors(options.includeExpensive ?? false);
 
   if (verbose) console.log(`[eval] Running on page "${pageId}" with ${detectors.length} detectors`);
 
-  // 2. Inject errors
-  if (verbose) console.log('[eval] Injecting errors...');
-  const manifest = await injectErrors(pageId, content, options.injectionPlan);
-  if (verbose) console.log(`[eval] Injected ${manifest.errors.length} errors`);
-
-  // 3. Run detectors against corrupted content
+  // 2. Run detectors against corrupted content
   const allFindings: DetectorFinding[] = [];
 
   for (const detector of detectors) {
@@ -246,9 +341,9 @@ export async function evalPage(
     }
   }
 
-  // 4. Score results
+  // 3. Score results
   const { matches, truePositiveFindings } = matchFindings(manifest.errors, allFindings);
-  const scores = computeScores(matches, allFindings, truePositiveFindings.size);
+  const scores = computeScores(matches, allFindings, truePositiveFindings.size, detectors.map(d => d.name));
 
   return {
     pageId,
@@ -269,13 +364,14 @@ export async function evalSuite(
 ): Promise<SuiteEvalResult> {
   const start = Date.now();
   const verbose = options.verbose ?? false;
+  const detectors = options.detectors ?? getDefaultDetectors(options.includeExpensive ?? false);
 
   if (verbose) console.log(`[eval-suite] Running on ${pages.length} pages`);
 
   const results: PageEvalResult[] = [];
 
   for (const page of pages) {
-    const result = await evalPage(page.id, page.content, options);
+    const result = await evalPage(page.id, page.content, { ...options, detectors });
     results.push(result);
 
     if (verbose) {
@@ -283,14 +379,47 @@ export async function evalSuite(
     }
   }
 
-  // Aggregate scores across all pages
+  return aggregateResults('injection', results, detectors, start);
+}
+
+/**
+ * Run detectors over a pre-built corpus of corrupted pages.
+ */
+export async function evalCorpus(
+  corpus: ErrorManifest[],
+  options: HarnessOptions = {},
+): Promise<SuiteEvalResult> {
+  const start = Date.now();
+  const verbose = options.verbose ?? false;
+  const detectors = options.detectors ?? getDefaultDetectors(options.includeExpensive ?? false);
+
+  const results: PageEvalResult[] = [];
+  for (const manifest of corpus) {
+    const result = await evalManifest(manifest, { ...options, detectors });
+    results.push(result);
+
+    if (verbose) {
+      console.log(`[eval-corpus] ${manifest.pageId}: recall=${(result.scores.recall * 100).toFixed(0)}% precision=${(result.scores.precision * 100).toFixed(0)}%`);
+    }
+  }
+
+  return aggregateResults('benchmark', results, detectors, start);
+}
+
+/** Aggregate per-page results into suite-level scores. */
+function aggregateResults(
+  suite: string,
+  results: PageEvalResult[],
+  detectors: DetectorAdapter[],
+  start: number,
+): SuiteEvalResult {
   const allMatches = results.flatMap(r => r.matches);
   const allFindings = results.flatMap(r => r.allFindings);
   const totalTP = results.reduce((sum, r) => sum + r.scores.truePositives, 0);
-  const aggregate = computeScores(allMatches, allFindings, totalTP);
+  const aggregate = computeScores(allMatches, allFindings, totalTP, detectors.map(d => d.name));
 
   return {
-    suite: 'injection',
+    suite,
     pages: results,
     aggregate,
     runAt: new Date().toISOString(),
@@ -308,7 +437,7 @@ function getDefaultDetectors(includeExpensive: boolean): DetectorAdapter[] {
   ];
 
   if (includeExpensive) {
-    detectors.push(citationAuditorDetector());
+    detectors.push(citationAuditorDetector(), adversarialReviewDetector());
   }
 
   return detectors;
@@ -0,0 +1,147 @@
+/**
+ * Entity Confusion Injector
+ *
+ * Swaps a mention of one entity for a similar one — the kind of mix-up an
+ * LLM makes when two organizations or institutions play similar roles:
+ * - "previously at DeepMind" → "previously at OpenAI"
+ * - "funded by Open Philanthropy" → "funded by the Survival and Flourishing Fund"
+ * - "PhD from MIT" → "PhD from Stanford"
+ *
+ * Tests the cross-reference checker (facts that now contradict other pages)
+ * and the citation auditor (claims the cited source attributes elsewhere).
+ */
+
+import type { InjectedError } from '../types.ts';
+import { defaultRng, type Rng } from '../rng.ts';
+import { bodyParagraphs, isStructuralParagraph, sentenceAround, splice } from './paragraphs.ts';
+
+// ---------------------------------------------------------------------------
+// Confusable entity groups
+// ---------------------------------------------------------------------------
+
+/**
+ * Entities that are easily confused with others in the same group.
+ * Longer names come first within a group so "Google DeepMind" wins over "DeepMind".
+ */
+const CONFUSABLE_GROUPS: Array<{ kind: string; names: string[]; detectability: 'easy' | 'medium' | 'hard' }> = [
+  {
+    kind: 'AI lab',
+    names: ['Google DeepMind', 'DeepMind', 'OpenAI', 'Anthropic', 'Meta AI', 'Google Brain', 'xAI', 'Mistral AI'],
+    detectability: 'medium',
+  },
+  {
+    kind: 'safety organization',
+    names: ['MIRI', 'Redwood Research', 'Apollo Research', 'METR', 'Center for AI Safety', 'FAR AI', 'Conjecture', 'Alignment Research Center'],
+    detectability: 'hard',
+  },
+  {
+    kind: 'funder',
+    names: ['Open Philanthropy', 'Survival and Flourishing Fund', 'Long-Term Future Fund', 'FTX Future Fund', 'Future of Life Institute'],
+    detectability: 'hard',
+  },
+  {
+    kind: 'university',
+    names: ['MIT', 'Stanford', 'UC Berkeley', 'Berkeley', 'Oxford', 'Cambridge', 'Harvard', 'Carnegie Mellon', 'Princeton'],
+    detectability: 'hard',
+  },
+  {
+    kind: 'government body',
+    names: ['UK AI Safety Institute', 'US AI Safety Institute', 'AI Security Institute', 'NIST', 'European Commission'],
+    detectability: 'medium',
+  },
+];
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ---------------------------------------------------------------------------
+// Injector
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace entity mentions with a similar, confusable entity.
+ */
+export async function injectEntityConfusion(
+  content: string,
+  count: number,
+  _useLlm: boolean,
+  rng: Rng = defaultRng,
+): Promise<{ content: string; errors: InjectedError[] }> {
+  const mentions: Array<{
+    name: string;
+    replacement: string;
+    kind: string;
+    index: number;
+    paragraphIndex: number;
+    sentence: string;
+    sentenceStart: number;
+    detectability: 'easy' | 'medium' | 'hard';
+  }> = [];
+
+  for (const para of bodyParagraphs(content)) {
+    if (isStructuralParagraph(para.text)) continue;
+    // Ignore names inside URLs and link targets
+    const urlSpans = [...para.text.matchAll(/https?:\/\/\S+|\]\([^)]*\)/g)].map(m => [m.index ?? 0, (m.index ?? 0) + m[0].length]);
+
+    for (const group of CONFUSABLE_GROUPS) {
+      const claimed: Array<[number, number]> = [];
+      for (const name of group.names) {
+        const regex = new RegExp(String.raw`(?<![\w-])${escapeRegex(name)}(?![\w-])`, 'g');
+        for (const m of para.text.matchAll(regex)) {
+          const at = m.index ?? 0;
+          const end = at + name.length;
+          if (urlSpans.some(([s, e]) => at >= s && at < e)) continue;
+          if (claimed.some(([s, e]) => at < e && end > s)) continue; // inside a longer name
+          claimed.push([at, end]);
+
+          // Replacement must not already appear in the paragraph
+          const others = group.names.filter(
+            other => !other.includes(name) && !name.includes(other) && !para.text.includes(other),
+          );
+          if (others.length === 0) continue;
+
+          const { sentence, start } = sentenceAround(para.text, at);
+          mentions.push({
+            name,
+            replacement: rng.pick(others),
+            kind: group.kind,
+            index: para.start + at,
+            paragraphIndex: para.index,
+            sentence,
+            sentenceStart: para.start + start,
+            detectability: group.detectability,
+          });
+        }
+      }
+    }
+  }
+
+  // One swap per paragraph
+  const selected: typeof mentions = [];
+  const usedParagraphs = new Set<number>();
+  for (const mention of rng.shuffle(mentions)) {
+    if (selected.length >= count) break;
+    if (usedParagraphs.has(mention.paragraphIndex)) continue;
+    selected.push(mention);
+    usedParagraphs.add(mention.paragraphIndex);
+  }
+
+  // Apply back to front so earlier offsets stay valid
+  let corrupted = content;
+  const errors: InjectedError[] = [];
+  for (const swap of selected.sort((a, b) => b.index - a.index)) {
+    corrupted = splice(corrupted, swap.index, swap.name.length, swap.replacement);
+    errors.push({
+      id: `entity-confusion-${errors.length}`,
+      category: 'entity-confusion',
+      description: `Swapped ${swap.kind} "${swap.name}" → "${swap.replacement}"`,
+      originalText: swap.sentence.trim(),
+      corruptedText: splice(swap.sentence, swap.index - swap.sentenceStart, swap.name.length, swap.replacement).trim(),
+      paragraphIndex: swap.paragraphIndex,
+      detectability: swap.detectability,
+    });
+  }
+
+  return { content: corrupted, errors };
+}
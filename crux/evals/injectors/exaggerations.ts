@@ -13,6 +13,7 @@
 
 import type { InjectedError } from '../types.ts';
 import { stripFrontmatter } from '../../lib/patterns.ts';
+import { defaultRng, type Rng } from '../rng.ts';
 
 // ---------------------------------------------------------------------------
 // Exaggeration patterns: [regex, original capture, exaggerated replacement]
@@ -97,6 +98,7 @@ export async function injectExaggerations(
   content: string,
   count: number,
   _useLlm: boolean,
+  rng: Rng = defaultRng,
 ): Promise<{ content: string; errors: InjectedError[] }> {
   const body = stripFrontmatter(content);
   const errors: InjectedError[] = [];
@@ -126,7 +128,7 @@ export async function injectExaggerations(
   }
 
   // Shuffle and select
-  const shuffled = allMatches.sort(() => Math.random() - 0.5);
+  const shuffled = rng.shuffle(allMatches);
 
   for (const { rule, match, paragraphIndex } of shuffled) {
     if (applied >= count) break;
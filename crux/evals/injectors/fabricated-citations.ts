@@ -11,6 +11,7 @@
 
 import type { InjectedError } from '../types.ts';
 import { stripFrontmatter } from '../../lib/patterns.ts';
+import { defaultRng, type Rng } from '../rng.ts';
 
 // ---------------------------------------------------------------------------
 // Fake URL generators
@@ -29,27 +30,46 @@ const FAKE_PATH_COMPONENTS = [
   'studies', 'proceedings', 'journal', 'conference', 'workshop',
 ];
 
-function generateFakeArxivId(): string {
-  const year = 20 + Math.floor(Math.random() * 6); // 2020-2025
-  const month = String(1 + Math.floor(Math.random() * 12)).padStart(2, '0');
-  const number = String(10000 + Math.floor(Math.random() * 90000));
+function generateFakeArxivId(rng: Rng): string {
+  const year = 20 + rng.int(6); // 2020-2025
+  const month = String(1 + rng.int(12)).padStart(2, '0');
+  const number = String(10000 + rng.int(80000));
   return `${year}${month}.${number}`;
 }
 
-function generateFakeUrl(originalUrl: string): string {
-  // Try to produce a URL that looks plausible but doesn't exist
+/**
+ * Fake arxiv IDs for one injection run. Like a model inventing a reference
+ * list, the fakes share a month and count up from one serial number
+ * (2401.12345, 2401.12346, ...) — the pattern content-integrity looks for.
+ */
+function fakeArxivIds(rng: Rng): () => string {
+  let last: string | null = null;
+  return () => {
+    if (!last) {
+      last = generateFakeArxivId(rng);
+    } else {
+      const [prefix, serial] = last.split('.');
+      last = `${prefix}.${parseInt(serial, 10) + 1}`;
+    }
+    return last;
+  };
+}
+
+function generateFakeUrl(originalUrl: string, rng: Rng, nextArxivId: () => string): string {
+  // Try to produce a URL that looks plausible but doesn't exist. An arxiv
+  // citation stays on arxiv, where a different host would stand out.
   try {
     const url = new URL(originalUrl);
-    const domain = FAKE_DOMAINS[Math.floor(Math.random() * FAKE_DOMAINS.length)];
-    const path = FAKE_PATH_COMPONENTS[Math.floor(Math.random() * FAKE_PATH_COMPONENTS.length)];
+    const domain = url.hostname.endsWith('arxiv.org') ? 'arxiv.org' : rng.pick(FAKE_DOMAINS);
+    const path = rng.pick(FAKE_PATH_COMPONENTS);
 
     if (domain === 'arxiv.org') {
-      return `https://arxiv.org/abs/${generateFakeArxivId()}`;
+      return `https://arxiv.org/abs/${nextArxivId()}`;
     }
-    return `https://${domain}/${path}/${Math.random().toString(36).slice(2, 10)}`;
+    return `https://${domain}/${path}/${rng.next().toString(36).slice(2, 10)}`;
   } catch {
     // If original URL is malformed, just generate a plausible dead link
-    return `https://arxiv.org/abs/${generateFakeArxivId()}`;
+    return `https://arxiv.org/abs/${nextArxivId()}`;
   }
 }
 
@@ -102,6 +122,7 @@ export async function injectFabricatedCitations(
   content: string,
   count: number,
   _useLlm: boolean,
+  rng: Rng = defaultRng,
 ): Promise<{ content: string; errors: InjectedError[] }> {
   const citations = findCitations(content);
   if (citations.length === 0) {
@@ -109,14 +130,15 @@ export async function injectFabricatedCitations(
   }
 
   // Select `count` citations to corrupt
-  const shuffled = [...citations].sort(() => Math.random() - 0.5);
+  const shuffled = rng.shuffle(citations);
   const selected = shuffled.slice(0, Math.min(count, citations.length));
 
   let corrupted = content;
   const errors: InjectedError[] = [];
+  const nextArxivId = fakeArxivIds(rng);
 
   for (const citation of selected) {
-    const fakeUrl = generateFakeUrl(citation.url);
+    const fakeUrl = generateFakeUrl(citation.url, rng, nextArxivId);
     const newLine = citation.fullLine.replace(citation.url, fakeUrl);
 
     corrupted = corrupted.replace(citation.fullLine, newLine);
@@ -0,0 +1,121 @@
+/**
+ * Fabricated Claims Injector
+ *
+ * Adds a realistic-sounding but false sentence next to an existing cited
+ * claim, reusing that claim's footnote — so the fabrication looks sourced,
+ * but the cited source does not support it. For example:
+ *
+ *   "...publishes approximately 25 papers per year.[^2]"
+ *   → "...publishes approximately 25 papers per year.[^2] A 2023 survey found
+ *      that 64% of alignment researchers rank the lab's work as the most
+ *      influential in the field.[^2]"
+ *
+ * Tests whether the citation auditor flags the new claim as unsupported.
+ */
+
+import type { InjectedError } from '../types.ts';
+import { parseFrontmatter } from '../../lib/mdx-utils.ts';
+import { defaultRng, type Rng } from '../rng.ts';
+import { bodyParagraphs, isStructuralParagraph, splice } from './paragraphs.ts';
+
+// ---------------------------------------------------------------------------
+// Claim templates
+// ---------------------------------------------------------------------------
+
+interface ClaimTemplate {
+  render: (subject: string, rng: Rng) => string;
+  detectability: 'easy' | 'medium' | 'hard';
+}
+
+const TEMPLATES: ClaimTemplate[] = [
+  {
+    render: (s, rng) =>
+      `A ${2019 + rng.int(6)} survey found that ${55 + rng.int(35)}% of alignment researchers rank ${s}'s work as the most influential in the field.`,
+    detectability: 'medium',
+  },
+  {
+    render: (s, rng) =>
+      `${s} has been cited in more than ${40 + rng.int(160)} government policy documents across ${8 + rng.int(20)} countries.`,
+    detectability: 'hard',
+  },
+  {
+    render: (s, rng) =>
+      `In ${2018 + rng.int(7)}, an independent review ranked ${s} first among ${12 + rng.int(30)} comparable organizations for research output.`,
+    detectability: 'medium',
+  },
+  {
+    render: (s, rng) =>
+      `Independent replications have reproduced ${s}'s headline results in ${18 + rng.int(10)} of ${30 + rng.int(5)} attempts.`,
+    detectability: 'hard',
+  },
+  {
+    render: (s, rng) =>
+      `${s} was formally endorsed by the UN Secretary-General's advisory body on AI in ${2020 + rng.int(5)}.`,
+    detectability: 'easy',
+  },
+];
+
+/** Name used as the subject of fabricated claims. */
+function claimSubject(content: string): string {
+  const title = parseFrontmatter(content).title;
+  return typeof title === 'string' && title.trim() ? title.trim() : 'the organization';
+}
+
+// ---------------------------------------------------------------------------
+// Injector
+// ---------------------------------------------------------------------------
+
+/**
+ * Insert false claims after cited sentences, reusing their footnotes.
+ */
+export async function injectFabricatedClaims(
+  content: string,
+  count: number,
+  _useLlm: boolean,
+  rng: Rng = defaultRng,
+): Promise<{ content: string; errors: InjectedError[] }> {
+  const subject = claimSubject(content);
+
+  // Sentence-final footnote references in body text, at most one per paragraph
+  const anchors: Array<{ ref: string; index: number; paragraphIndex: number }> = [];
+  for (const para of bodyParagraphs(content)) {
+    if (isStructuralParagraph(para.text)) continue;
+    const refs = [...para.text.matchAll(/(?<=[.!?])\[\^([^\]]+)\](?=\s|$)/g)];
+    if (refs.length === 0) continue;
+    const last = refs[refs.length - 1];
+    anchors.push({
+      ref: last[1],
+      index: para.start + (last.index ?? 0) + last[0].length,
+      paragraphIndex: para.index,
+    });
+  }
+
+  if (anchors.length === 0) {
+    return { content, errors: [] };
+  }
+
+  const selected = rng.shuffle(anchors).slice(0, Math.min(count, anchors.length));
+  const templates = rng.shuffle(TEMPLATES);
+
+  // Insert back to front so earlier offsets stay valid
+  let corrupted = content;
+  const errors: InjectedError[] = [];
+  selected
+    .map((anchor, i) => ({ anchor, template: templates[i % templates.length] }))
+    .sort((a, b) => b.anchor.index - a.anchor.index)
+    .forEach(({ anchor, template }) => {
+      const claim = `${template.render(subject, rng)}[^${anchor.ref}]`;
+      corrupted = splice(corrupted, anchor.index, 0, ` ${claim}`);
+      errors.push({
+        id: `fabricated-claim-${errors.length}`,
+        category: 'fabricated-claim',
+        description: `Inserted unsupported claim citing [^${anchor.ref}]`,
+        originalText: '',
+        corruptedText: claim,
+        paragraphIndex: anchor.paragraphIndex,
+        detectability: template.detectability,
+      });
+    });
+
+  return { content: corrupted, errors };
+}
@@ -11,8 +11,12 @@
  */
 
 export { injectWrongNumbers } from './wrong-numbers.ts';
+export { injectWrongAttribution } from './wrong-attribution.ts';
 export { injectExaggerations } from './exaggerations.ts';
 export { injectFabricatedCitations } from './fabricated-citations.ts';
+export { injectFabricatedClaims } from './fabricated-claims.ts';
+export { injectTemporalErrors } from './temporal-errors.ts';
 export { injectMissingNuance } from './missing-nuance.ts';
+export { injectEntityConfusion } from './entity-confusion.ts';
 
-export { injectErrors, type InjectionPlan } from './inject.ts';
+export { injectErrors, ERROR_CATEGORIES, type InjectionPlan } from './inject.ts';
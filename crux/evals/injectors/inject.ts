@@ -7,10 +7,15 @@
 
 import { randomUUID } from 'node:crypto';
 import type { ErrorCategory, ErrorManifest, InjectedError } from '../types.ts';
+import { createRng, defaultRng, deriveSeed, type Rng } from '../rng.ts';
 import { injectWrongNumbers } from './wrong-numbers.ts';
+import { injectWrongAttribution } from './wrong-attribution.ts';
 import { injectExaggerations } from './exaggerations.ts';
 import { injectFabricatedCitations } from './fabricated-citations.ts';
+import { injectFabricatedClaims } from './fabricated-claims.ts';
+import { injectTemporalErrors } from './temporal-errors.ts';
 import { injectMissingNuance } from './missing-nuance.ts';
+import { injectEntityConfusion } from './entity-confusion.ts';
 
 // ---------------------------------------------------------------------------
 // Injection plan
@@ -23,16 +28,28 @@ export interface InjectionPlan {
   categories?: ErrorCategory[];
   /** Use LLM for realistic corruptions (costs money) vs. deterministic (free). */
   useLlm?: boolean;
+  /**
+   * Seed for deterministic injection. The same seed, page and content always
+   * produce the same manifest. Omit for a fresh random corruption each run.
+   */
+  seed?: number;
 }
 
-const DEFAULT_PLAN: Required<InjectionPlan> = {
+/** Every error category, in injection order. */
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'wrong-number',
+  'wrong-attribution',
+  'fabricated-citation',
+  'fabricated-claim',
+  'temporal-error',
+  'exaggeration',
+  'missing-nuance',
+  'entity-confusion',
+];
+
+const DEFAULT_PLAN: Required<Omit<InjectionPlan, 'seed'>> = {
   errorsPerCategory: 1,
-  categories: [
-    'wrong-number',
-    'exaggeration',
-    'fabricated-citation',
-    'missing-nuance',
-  ],
+  categories: ERROR_CATEGORIES,
   useLlm: false,
 };
 
@@ -44,13 +61,18 @@ type Injector = (
   content: string,
   count: number,
   useLlm: boolean,
+  rng: Rng,
 ) => Promise<{ content: string; errors: InjectedError[] }>;
 
-const INJECTORS: Partial<Record<ErrorCategory, Injector>> = {
+const INJECTORS: Record<ErrorCategory, Injector> = {
   'wrong-number': injectWrongNumbers,
-  'exaggeration': injectExaggerations,
+  'wrong-attribution': injectWrongAttribution,
   'fabricated-citation': injectFabricatedCitations,
+  'fabricated-claim': injectFabricatedClaims,
+  'temporal-error': injectTemporalErrors,
+  'exaggeration': injectExaggerations,
   'missing-nuance': injectMissingNuance,
+  'entity-confusion': injectEntityConfusion,
 };
 
 // ---------------------------------------------------------------------------
@@ -62,6 +84,10 @@ const INJECTORS: Partial<Record<ErrorCategory, Injector>> = {
  *
  * Errors are applied sequentially (each injector receives the output of the
  * previous one) so they don't collide. The manifest records the full chain.
+ *
+ * With `plan.seed`, each category draws from its own generator seeded by
+ * (seed, page ID, category), so adding or removing a category does not change
+ * what the others inject.
  */
 export async function injectErrors(
   pageId: string,
@@ -73,7 +99,7 @@ export async function injectErrors(
   if (plan.errorsPerCategory != null) cleanPlan.errorsPerCategory = plan.errorsPerCategory;
   if (plan.categories != null) cleanPlan.categories = plan.categories;
   if (plan.useLlm != null) cleanPlan.useLlm = plan.useLlm;
-  const resolved: Required<InjectionPlan> = { ...DEFAULT_PLAN, ...cleanPlan };
+  const resolved = { ...DEFAULT_PLAN, ...cleanPlan };
   const allErrors: InjectedError[] = [];
   let content = originalContent;
 
@@ -84,7 +110,8 @@ export async function injectErrors(
       continue;
     }
 
-    const result = await injector(content, resolved.errorsPerCategory, resolved.useLlm);
+    const rng = plan.seed != null ? createRng(deriveSeed(plan.seed, `${pageId}:${category}`)) : defaultRng;
+    const result = await injector(content, resolved.errorsPerCategory, resolved.useLlm, rng);
     content = result.content;
 
     // Stamp each error with a unique ID
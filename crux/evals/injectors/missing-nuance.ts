@@ -10,6 +10,7 @@
 
 import type { InjectedError } from '../types.ts';
 import { stripFrontmatter } from '../../lib/patterns.ts';
+import { defaultRng, type Rng } from '../rng.ts';
 
 // ---------------------------------------------------------------------------
 // Nuance removal patterns
@@ -84,6 +85,7 @@ export async function injectMissingNuance(
   content: string,
   count: number,
   _useLlm: boolean,
+  rng: Rng = defaultRng,
 ): Promise<{ content: string; errors: InjectedError[] }> {
   const body = stripFrontmatter(content);
   const errors: InjectedError[] = [];
@@ -112,7 +114,7 @@ export async function injectMissingNuance(
   }
 
   // Shuffle and select
-  const shuffled = allMatches.sort(() => Math.random() - 0.5);
+  const shuffled = rng.shuffle(allMatches);
 
   for (const { rule, match, paragraphIndex } of shuffled) {
     if (applied >= count) break;
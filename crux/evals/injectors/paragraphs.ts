@@ -0,0 +1,93 @@
+/**
+ * Paragraph helpers shared by the span-based injectors.
+ *
+ * Paragraph indices match the other injectors (body after frontmatter, split
+ * on blank lines) so the scorer's paragraph-proximity matching lines up.
+ */
+
+import { stripFrontmatter } from '../../lib/patterns.ts';
+
+export interface BodyParagraph {
+  /** 0-based paragraph index within the body. */
+  index: number;
+  /** Paragraph text. */
+  text: string;
+  /** Offset of the paragraph's first character in the full content. */
+  start: number;
+}
+
+/** Split the body (after frontmatter) into paragraphs with absolute offsets. */
+export function bodyParagraphs(content: string): BodyParagraph[] {
+  const body = stripFrontmatter(content);
+  const bodyStart = content.indexOf(body);
+  const paragraphs: BodyParagraph[] = [];
+
+  let offset = 0;
+  body.split(/\n\n+/).forEach((text, index) => {
+    const start = body.indexOf(text, offset);
+    paragraphs.push({ index, text, start: bodyStart + start });
+    offset = start + text.length;
+  });
+
+  return paragraphs;
+}
+
+/** True for footnote definitions, headings, imports and code fences. */
+export function isStructuralParagraph(text: string): boolean {
+  return /^(?:\[\^[^\]]+\]:|#|import\s|export\s|```)/.test(text.trimStart());
+}
+
+/** Replace `length` characters at `index` in `content`. */
+export function splice(content: string, index: number, length: number, replacement: string): string {
+  return content.slice(0, index) + replacement + content.slice(index + length);
+}
+
+/** Abbreviations whose trailing period does not end a sentence. */
+const ABBREVIATIONS = /(?:^|[^A-Za-z.])(?:Dr|Prof|Mr|Mrs|Ms|St|Jr|Sr|Inc|Ltd|Co|vs|etc|e\.g|i\.e|U\.S|[A-Z])$/;
+
+/** True if the punctuation at `i` ends a sentence (not an abbreviation or decimal point). */
+function isSentenceEnd(text: string, i: number): boolean {
+  if (!/[.!?]/.test(text[i])) return false;
+  if (text[i] === '.' && ABBREVIATIONS.test(text.slice(Math.max(0, i - 6), i))) return false;
+  // Allow trailing footnote refs: "...claim.[^3] Next"
+  let j = i + 1;
+  while (text.startsWith('[^', j)) {
+    const close = text.indexOf(']', j);
+    if (close === -1) break;
+    j = close + 1;
+  }
+  return j >= text.length || /\s/.test(text[j]);
+}
+
+/**
+ * The sentence (within one line) containing `offset` in `text`, with its start
+ * offset. Used for the original/corrupted text recorded in the manifest.
+ */
+export function sentenceAround(text: string, offset: number): { sentence: string; start: number } {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  const lineEndRaw = text.indexOf('\n', offset);
+  const lineEnd = lineEndRaw === -1 ? text.length : lineEndRaw;
+
+  let start = lineStart;
+  for (let i = offset - 1; i >= lineStart; i--) {
+    if (isSentenceEnd(text, i)) {
+      start = i + 1;
+      break;
+    }
+  }
+  while (start < offset && /\s/.test(text[start])) start++;
+  // Skip past footnote refs that belong to the previous sentence
+  while (text.startsWith('[^', start)) start = text.indexOf(']', start) + 1;
+  while (start < offset && /\s/.test(text[start])) start++;
+
+  let end = lineEnd;
+  for (let i = offset; i < lineEnd; i++) {
+    if (isSentenceEnd(text, i)) {
+      end = i + 1;
+      while (text.startsWith('[^', end)) end = text.indexOf(']', end) + 1;
+      break;
+    }
+  }
+
+  return { sentence: text.slice(start, end), start };
+}
@@ -0,0 +1,134 @@
+/**
+ * Temporal Errors Injector
+ *
+ * Moves events to the wrong time. Unlike the wrong-numbers injector (which
+ * nudges a single year by 1-3), this breaks the page's chronology:
+ * - Swaps two different years in the same paragraph, reversing the order of
+ *   events ("raised $100M in 2022, followed by $500M in 2023" → "...in 2023,
+ *   followed by ... in 2022")
+ * - Moves a month-dated event by several years ("March 2023" → "March 2019")
+ *
+ * Tests whether adversarial review and cross-reference checks notice events
+ * that are out of order or inconsistent with the rest of the wiki.
+ */
+
+import type { InjectedError } from '../types.ts';
+import { defaultRng, type Rng } from '../rng.ts';
+import { bodyParagraphs, isStructuralParagraph, sentenceAround, splice } from './paragraphs.ts';
+
+// ---------------------------------------------------------------------------
+// Date patterns
+// ---------------------------------------------------------------------------
+
+/** Years that are not part of a URL, footnote ref, or longer number. */
+const YEAR = /(?<![\w/.^-])((?:19|20)\d{2})(?![\w/%-])/g;
+
+const MONTH_DATE =
+  /\b((?:January|February|March|April|May|June|July|August|September|October|November|December)(?:\s+\d{1,2},)?\s+)((?:19|20)\d{2})\b/g;
+
+interface TemporalEdit {
+  /** Replacements at absolute offsets in the content. */
+  spans: Array<{ index: number; from: string; to: string }>;
+  description: string;
+  paragraphIndex: number;
+  /** Sentence(s) covered by the edit, with absolute start (for the manifest). */
+  context: { text: string; start: number };
+  detectability: 'easy' | 'medium' | 'hard';
+}
+
+/** Paragraph text from the sentence containing `from` to the end of the one containing `to`. */
+function contextSpan(
+  para: { text: string; start: number },
+  from: number,
+  to: number,
+): { text: string; start: number } {
+  const first = sentenceAround(para.text, from);
+  const last = sentenceAround(para.text, to - 1);
+  const end = Math.max(last.start + last.sentence.length, to);
+  return { text: para.text.slice(first.start, end), start: para.start + first.start };
+}
+
+// ---------------------------------------------------------------------------
+// Injector
+// ---------------------------------------------------------------------------
+
+/**
+ * Reorder or move dated events.
+ */
+export async function injectTemporalErrors(
+  content: string,
+  count: number,
+  _useLlm: boolean,
+  rng: Rng = defaultRng,
+): Promise<{ content: string; errors: InjectedError[] }> {
+  const swaps: TemporalEdit[] = [];
+  const moves: TemporalEdit[] = [];
+
+  for (const para of bodyParagraphs(content)) {
+    if (isStructuralParagraph(para.text)) continue;
+
+    // Swap candidates: the first pair of distinct years in the paragraph
+    const years = [...para.text.matchAll(YEAR)];
+    const first = years[0];
+    const second = years.find(y => y[1] !== first?.[1]);
+    if (first && second && first.index !== undefined && second.index !== undefined) {
+      swaps.push({
+        spans: [
+          { index: para.start + first.index, from: first[1], to: second[1] },
+          { index: para.start + second.index, from: second[1], to: first[1] },
+        ],
+        description: `Swapped event years ${first[1]} ↔ ${second[1]} (reverses chronology)`,
+        paragraphIndex: para.index,
+        context: contextSpan(para, first.index, second.index + second[1].length),
+        detectability: 'medium',
+      });
+    }
+
+    // Move candidates: month-dated events
+    for (const m of para.text.matchAll(MONTH_DATE)) {
+      if (m.index === undefined) continue;
+      const yearOffset = m.index + m[1].length;
+      const shift = (3 + rng.int(4)) * (rng.next() < 0.5 ? -1 : 1);
+      const year = String(parseInt(m[2], 10) + shift);
+      moves.push({
+        spans: [{ index: para.start + yearOffset, from: m[2], to: year }],
+        description: `Moved "${m[0]}" by ${Math.abs(shift)} years → ${year}`,
+        paragraphIndex: para.index,
+        context: contextSpan(para, m.index, yearOffset + m[2].length),
+        detectability: 'hard',
+      });
+    }
+  }
+
+  // Prefer chronology swaps, then moves; one edit per paragraph
+  const selected: TemporalEdit[] = [];
+  const usedParagraphs = new Set<number>();
+  for (const edit of [...rng.shuffle(swaps), ...rng.shuffle(moves)]) {
+    if (selected.length >= count) break;
+    if (usedParagraphs.has(edit.paragraphIndex)) continue;
+    selected.push(edit);
+    usedParagraphs.add(edit.paragraphIndex);
+  }
+
+  // Apply back to front so earlier offsets stay valid
+  let corrupted = content;
+  const errors: InjectedError[] = [];
+  for (const edit of selected.sort((a, b) => b.spans[0].index - a.spans[0].index)) {
+    let corruptedContext = edit.context.text;
+    for (const span of [...edit.spans].sort((a, b) => b.index - a.index)) {
+      corrupted = splice(corrupted, span.index, span.from.length, span.to);
+      corruptedContext = splice(corruptedContext, span.index - edit.context.start, span.from.length, span.to);
+    }
+    errors.push({
+      id: `temporal-error-${errors.length}`,
+      category: 'temporal-error',
+      description: edit.description,
+      originalText: edit.context.text.trim(),
+      corruptedText: corruptedContext.trim(),
+      paragraphIndex: edit.paragraphIndex,
+      detectability: edit.detectability,
+    });
+  }
+
+  return { content: corrupted, errors };
+}
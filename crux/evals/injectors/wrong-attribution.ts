@@ -0,0 +1,146 @@
+/**
+ * Wrong Attribution Injector
+ *
+ * Swaps who said or did something: a person named as the author, founder,
+ * or speaker of a claim is replaced with another person named on the same
+ * page. For example:
+ * - "founded in 2021 by Dr. Alice Smith" → "founded in 2021 by Dr. Bob Jones"
+ * - "Jones argued that..." → "Smith argued that..."
+ *
+ * Tests whether the citation auditor flags the claim as misattributed and
+ * whether adversarial review notices the inconsistency with the rest of the page.
+ */
+
+import type { InjectedError } from '../types.ts';
+import { defaultRng, type Rng } from '../rng.ts';
+import { bodyParagraphs, isStructuralParagraph, sentenceAround, splice } from './paragraphs.ts';
+
+// ---------------------------------------------------------------------------
+// Attribution patterns
+// ---------------------------------------------------------------------------
+
+/** Person name: optional title, first name, optional initial, surname. */
+const PERSON_NAME = String.raw`(?:(?:Dr|Prof)\.\s+)?[A-Z][a-z]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z]+(?:-[A-Z][a-z]+)?`;
+
+const ATTRIBUTION_VERBS =
+  'said|says|argued|argues|wrote|writes|stated|claimed|noted|proposed|warned|predicted|estimated|announced|testified|founded|co-founded|led|developed|introduced|coined';
+
+interface AttributionRule {
+  /** Pattern whose capture group 1 is the attributed person. */
+  pattern: RegExp;
+  description: string;
+  detectability: 'easy' | 'medium' | 'hard';
+}
+
+const RULES: AttributionRule[] = [
+  {
+    pattern: new RegExp(String.raw`\b(${PERSON_NAME})\s+(?:${ATTRIBUTION_VERBS})\b`, 'g'),
+    description: 'Swapped the person a statement or action is attributed to',
+    detectability: 'medium',
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:according to|by)\s+(${PERSON_NAME})`, 'g'),
+    description: 'Swapped the person credited with a claim ("according to"/"by")',
+    detectability: 'medium',
+  },
+  {
+    pattern: new RegExp(String.raw`^[-*]\s+\*\*(${PERSON_NAME})\*\*`, 'gm'),
+    description: 'Swapped the person in a role/bio list entry',
+    detectability: 'hard',
+  },
+];
+
+/** Names that match PERSON_NAME but are not people. */
+const NOT_PEOPLE = /^(?:The|This|That|These|Their|In|On|At|For|From|According|San|New|Los|United|Open|Google|Series)\s/;
+
+function surname(name: string): string {
+  const parts = name.split(/\s+/);
+  return parts[parts.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Injector
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace an attributed person with another person named on the page.
+ */
+export async function injectWrongAttribution(
+  content: string,
+  count: number,
+  _useLlm: boolean,
+  rng: Rng = defaultRng,
+): Promise<{ content: string; errors: InjectedError[] }> {
+  const paragraphs = bodyParagraphs(content).filter(p => !isStructuralParagraph(p.text));
+
+  // Find attributed names and build the pool of people named on the page
+  const candidates: Array<{
+    rule: AttributionRule;
+    name: string;
+    index: number;
+    paragraphIndex: number;
+    sentence: string;
+    sentenceStart: number;
+  }> = [];
+  const people = new Map<string, string>(); // surname → full name
+
+  for (const para of paragraphs) {
+    for (const rule of RULES) {
+      const regex = new RegExp(rule.pattern.source, rule.pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(para.text)) !== null) {
+        const name = match[1];
+        if (NOT_PEOPLE.test(name)) continue;
+        const nameOffset = match.index + match[0].indexOf(name);
+        const { sentence, start } = sentenceAround(para.text, nameOffset);
+        candidates.push({
+          rule,
+          name,
+          index: para.start + nameOffset,
+          paragraphIndex: para.index,
+          sentence,
+          sentenceStart: para.start + start,
+        });
+        if (!people.has(surname(name))) people.set(surname(name), name);
+      }
+    }
+  }
+
+  if (people.size < 2) {
+    return { content, errors: [] };
+  }
+
+  // Pick swaps, one per paragraph, whose replacement isn't already in the sentence
+  const selected: Array<(typeof candidates)[number] & { replacement: string }> = [];
+  const usedParagraphs = new Set<number>();
+  for (const candidate of rng.shuffle(candidates)) {
+    if (selected.length >= count) break;
+    if (usedParagraphs.has(candidate.paragraphIndex)) continue;
+
+    const others = [...people.values()].filter(
+      p => surname(p) !== surname(candidate.name) && !candidate.sentence.includes(surname(p)),
+    );
+    if (others.length === 0) continue;
+
+    selected.push({ ...candidate, replacement: rng.pick(others) });
+    usedParagraphs.add(candidate.paragraphIndex);
+  }
+
+  // Apply back to front so earlier offsets stay valid
+  let corrupted = content;
+  const errors: InjectedError[] = [];
+  for (const swap of selected.sort((a, b) => b.index - a.index)) {
+    corrupted = splice(corrupted, swap.index, swap.name.length, swap.replacement);
+    errors.push({
+      id: `wrong-attribution-${errors.length}`,
+      category: 'wrong-attribution',
+      description: `${swap.rule.description}: "${swap.name}" → "${swap.replacement}"`,
+      originalText: swap.sentence.trim(),
+      corruptedText: splice(swap.sentence, swap.index - swap.sentenceStart, swap.name.length, swap.replacement).trim(),
+      paragraphIndex: swap.paragraphIndex,
+      detectability: swap.rule.detectability,
+    });
+  }
+
+  return { content: corrupted, errors };
+}
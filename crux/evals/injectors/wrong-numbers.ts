@@ -8,11 +8,12 @@
  */
 
 import type { InjectedError } from '../types.ts';
+import { defaultRng, type Rng } from '../rng.ts';
 import { stripFrontmatter } from '../../lib/patterns.ts';
 import { NUMBER_EXTRACTION_PATTERNS } from '../../lib/claim-patterns.ts';
 
 /** Corrupt a number by a plausible amount. */
-function corruptNumber(value: string, label: string): string {
+function corruptNumber(value: string, label: string, rng: Rng): string {
   const num = parseFloat(value.replace(/,/g, ''));
   if (isNaN(num)) return value;
 
@@ -21,14 +22,14 @@ function corruptNumber(value: string, label: string): string {
     case 'founding-year':
     case 'year-reference': {
       // Shift by 1-3 years (subtle but verifiable)
-      const shift = Math.random() < 0.5 ? -Math.ceil(Math.random() * 3) : Math.ceil(Math.random() * 3);
+      const shift = rng.next() < 0.5 ? -Math.ceil(rng.next() * 3) : Math.ceil(rng.next() * 3);
       return String(num + shift);
     }
     case 'dollar-amount':
     case 'dollar-plain': {
       // Multiply or divide by 1.5-3x
-      const factor = 1.5 + Math.random() * 1.5;
-      const corrupted = Math.random() < 0.5 ? num * factor : num / factor;
+      const factor = 1.5 + rng.next() * 1.5;
+      const corrupted = rng.next() < 0.5 ? num * factor : num / factor;
       // Preserve comma formatting if original had it
       if (value.includes(',')) {
         return Math.round(corrupted).toLocaleString('en-US');
@@ -37,14 +38,14 @@ function corruptNumber(value: string, label: string): string {
     }
     case 'headcount': {
       // Change by 2-5x
-      const factor = 2 + Math.random() * 3;
-      const corrupted = Math.random() < 0.5 ? num * factor : num / factor;
+      const factor = 2 + rng.next() * 3;
+      const corrupted = rng.next() < 0.5 ? num * factor : num / factor;
       return String(Math.max(1, Math.round(corrupted)));
     }
     case 'percentage': {
       // Shift by 10-30 percentage points
-      const shift = 10 + Math.random() * 20;
-      const corrupted = Math.random() < 0.5 ? num + shift : Math.max(1, num - shift);
+      const shift = 10 + rng.next() * 20;
+      const corrupted = rng.next() < 0.5 ? num + shift : Math.max(1, num - shift);
       return corrupted.toFixed(value.includes('.') ? 1 : 0);
     }
     default:
@@ -131,6 +132,7 @@ export async function injectWrongNumbers(
   content: string,
   count: number,
   _useLlm: boolean,
+  rng: Rng = defaultRng,
 ): Promise<{ content: string; errors: InjectedError[] }> {
   const facts = findNumericFacts(content);
   if (facts.length === 0) {
@@ -140,7 +142,7 @@ export async function injectWrongNumbers(
   // Select `count` facts, preferring diverse paragraphs
   const selected: typeof facts = [];
   const usedParagraphs = new Set<number>();
-  const shuffled = [...facts].sort(() => Math.random() - 0.5);
+  const shuffled = rng.shuffle(facts);
 
   for (const fact of shuffled) {
     if (selected.length >= count) break;
@@ -158,7 +160,7 @@ export async function injectWrongNumbers(
   const sortedByIndex = [...selected].sort((a, b) => b.index - a.index);
 
   for (const fact of sortedByIndex) {
-    const newNumber = corruptNumber(fact.number, fact.label);
+    const newNumber = corruptNumber(fact.number, fact.label, rng);
     if (newNumber === fact.number) continue;
 
     const newFullMatch = fact.fullMatch.replace(fact.number, newNumber);
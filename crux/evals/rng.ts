@@ -0,0 +1,60 @@
+/**
+ * Seeded random number generator for error injection.
+ *
+ * Injectors draw all randomness from an Rng so a corpus built with the same
+ * seed from the same golden pages is byte-for-byte identical — required for
+ * comparing benchmark runs against a stored baseline.
+ */
+
+export interface Rng {
+  /** Uniform float in [0, 1). */
+  next(): number;
+  /** Uniform integer in [0, max). */
+  int(max: number): number;
+  /** Random element of a non-empty array. */
+  pick<T>(items: readonly T[]): T;
+  /** Shuffled copy of an array (Fisher–Yates). */
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+function wrap(next: () => number): Rng {
+  return {
+    next,
+    int: (max) => Math.floor(next() * max),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    shuffle: (items) => {
+      const out = [...items];
+      for (let i = out.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [out[i], out[j]] = [out[j], out[i]];
+      }
+      return out;
+    },
+  };
+}
+
+/** Deterministic generator (mulberry32). */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return wrap(() => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  });
+}
+
+/** Unseeded generator backed by Math.random (ad-hoc `crux evals inject` runs). */
+export const defaultRng: Rng = wrap(Math.random);
+
+/** Derive a stable 32-bit seed from a base seed and a string (e.g., page ID + category). */
+export function deriveSeed(seed: number, key: string): number {
+  // FNV-1a over the key, mixed with the base seed
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
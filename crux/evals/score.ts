@@ -13,6 +13,8 @@ import type {
   EvalScores,
   ErrorCategory,
   DetectorName,
+  DetectorScores,
+  RecallBreakdown,
 } from './types.ts';
 
 // ---------------------------------------------------------------------------
@@ -134,13 +136,38 @@ export function matchFindings(
   return { matches, truePositiveFindings, falsePositiveFindings };
 }
 
+/** Group matches by key and compute recall for each group. */
+function recallBy<K extends string>(
+  matches: ErrorMatch[],
+  key: (match: ErrorMatch) => K,
+  isCaught: (match: ErrorMatch) => boolean = m => m.caught,
+): Partial<Record<K, RecallBreakdown>> {
+  const groups: Partial<Record<K, RecallBreakdown>> = {};
+  for (const match of matches) {
+    const k = key(match);
+    const group = groups[k] ?? (groups[k] = { total: 0, caught: 0, recall: 0 });
+    group.total++;
+    if (isCaught(match)) group.caught++;
+  }
+  for (const group of Object.values(groups) as RecallBreakdown[]) {
+    group.recall = group.total > 0 ? group.caught / group.total : 0;
+  }
+  return groups;
+}
+
 /**
  * Compute aggregate eval scores from matches.
+ *
+ * Pass `detectors` (the detectors that ran) so detectors with no findings
+ * still get a byDetector entry with zero recall — otherwise a detector that
+ * silently stops finding anything would vanish from the report instead of
+ * showing up as a regression.
  */
 export function computeScores(
   matches: ErrorMatch[],
   allFindings: DetectorFinding[],
   truePositiveCount: number,
+  detectors: DetectorName[] = [],
 ): EvalScores {
   const totalErrors = matches.length;
   const errorsCaught = matches.filter(m => m.caught).length;
@@ -155,39 +182,34 @@ export function computeScores(
     ? (2 * precision * recall) / (precision + recall)
     : 0;
 
-  // Breakdown by category
-  const byCategory: Record<string, { total: number; caught: number; recall: number }> = {};
-  for (const match of matches) {
-    const cat = match.error.category;
-    if (!byCategory[cat]) byCategory[cat] = { total: 0, caught: 0, recall: 0 };
-    byCategory[cat].total++;
-    if (match.caught) byCategory[cat].caught++;
-  }
-  for (const cat of Object.keys(byCategory)) {
-    byCategory[cat].recall = byCategory[cat].total > 0
-      ? byCategory[cat].caught / byCategory[cat].total
-      : 0;
-  }
+  // Breakdown by category and detectability
+  const byCategory = recallBy(matches, m => m.error.category);
+  const byDetectability = recallBy(matches, m => m.error.detectability);
 
   // Breakdown by detector
-  const byDetector: Record<string, { findings: number; truePositives: number; precision: number }> = {};
-  for (const finding of allFindings) {
-    const det = finding.detector;
-    if (!byDetector[det]) byDetector[det] = { findings: 0, truePositives: 0, precision: 0 };
-    byDetector[det].findings++;
-  }
-  // Count true positives per detector
-  for (const match of matches) {
-    if (match.caught) {
-      for (const det of match.caughtBy) {
-        if (byDetector[det]) byDetector[det].truePositives++;
+  const detectorNames = new Set<DetectorName>([...detectors, ...allFindings.map(f => f.detector)]);
+  const byDetector: Partial<Record<DetectorName, DetectorScores>> = {};
+  for (const det of detectorNames) {
+    const findings = allFindings.filter(f => f.detector === det).length;
+    // Distinct findings from this detector that matched some error
+    const matched = new Set<DetectorFinding>();
+    for (const match of matches) {
+      for (const f of match.matchingFindings) {
+        if (f.detector === det) matched.add(f);
       }
     }
-  }
-  for (const det of Object.keys(byDetector)) {
-    byDetector[det].precision = byDetector[det].findings > 0
-      ? byDetector[det].truePositives / byDetector[det].findings
-      : 0;
+    const caught = (m: ErrorMatch) => m.caughtBy.includes(det);
+    const detErrorsCaught = matches.filter(caught).length;
+
+    byDetector[det] = {
+      findings,
+      truePositives: matched.size,
+      precision: findings > 0 ? matched.size / findings : 0,
+      errorsCaught: detErrorsCaught,
+      recall: totalErrors > 0 ? detErrorsCaught / totalErrors : 0,
+      byCategory: recallBy(matches, m => m.error.category, caught),
+      byDetectability: recallBy(matches, m => m.error.detectability, caught),
+    };
   }
 
   return {
@@ -200,6 +222,7 @@ export function computeScores(
     precision,
     f1,
     byCategory: byCategory as EvalScores['byCategory'],
+    byDetectability: byDetectability as EvalScores['byDetectability'],
     byDetector: byDetector as EvalScores['byDetector'],
   };
 }
@@ -226,11 +249,35 @@ export function formatScoreReport(scores: EvalScores, pageId?: string): string {
   }
   lines.push('');
 
-  lines.push('### By Detector');
-  lines.push('| Detector | Findings | True Positives | Precision |');
+  lines.push('### By Detectability');
+  lines.push('| Detectability | Total | Caught | Recall |');
   lines.push('|---|---|---|---|');
+  for (const [level, data] of Object.entries(scores.byDetectability)) {
+    lines.push(`| ${level} | ${data.total} | ${data.caught} | ${(data.recall * 100).toFixed(0)}% |`);
+  }
+  lines.push('');
+
+  lines.push('### By Detector');
+  lines.push('| Detector | Findings | True Positives | Precision | Caught | Recall |');
+  lines.push('|---|---|---|---|---|---|');
   for (const [det, data] of Object.entries(scores.byDetector)) {
-    lines.push(`| ${det} | ${data.findings} | ${data.truePositives} | ${(data.precision * 100).toFixed(0)}% |`);
+    lines.push(`| ${det} | ${data.findings} | ${data.truePositives} | ${(data.precision * 100).toFixed(0)}% | ${data.errorsCaught} | ${(data.recall * 100).toFixed(0)}% |`);
+  }
+
+  // Detector × category recall matrix
+  const detectors = Object.entries(scores.byDetector);
+  if (detectors.length > 0) {
+    lines.push('');
+    lines.push('### Detector Recall by Category');
+    lines.push(`| Category | ${detectors.map(([det]) => det).join(' | ')} |`);
+    lines.push(`|---|${detectors.map(() => '---|').join('')}`);
+    for (const cat of Object.keys(scores.byCategory) as ErrorCategory[]) {
+      const cells = detectors.map(([, data]) => {
+        const bucket = data.byCategory[cat];
+        return bucket ? `${(bucket.recall * 100).toFixed(0)}%` : '—';
+      });
+      lines.push(`| ${cat} | ${cells.join(' | ')} |`);
+    }
   }
 
   return lines.join('\n');
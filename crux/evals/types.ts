@@ -23,6 +23,9 @@ export type ErrorCategory =
   | 'missing-nuance'        // Removed hedging/qualification from a claim
   | 'entity-confusion';     // Swapped details between similar entities
 
+/** How obvious an injected error should be to a detector. */
+export type Detectability = 'easy' | 'medium' | 'hard';
+
 /** A single injected error with full provenance for scoring. */
 export interface InjectedError {
   /** Unique ID for this error instance. */
@@ -40,7 +43,7 @@ export interface InjectedError {
   /** Section heading under which the error appears (if any). */
   sectionHeading?: string;
   /** Severity: how obvious should this error be to detect? */
-  detectability: 'easy' | 'medium' | 'hard';
+  detectability: Detectability;
 }
 
 /** Full manifest of all errors injected into a single page. */
@@ -103,6 +106,31 @@ export interface ErrorMatch {
   matchingFindings: DetectorFinding[];
 }
 
+/** Recall over a subset of injected errors. */
+export interface RecallBreakdown {
+  total: number;
+  caught: number;
+  recall: number;
+}
+
+/** Per-detector scores. */
+export interface DetectorScores {
+  /** Findings this detector produced. */
+  findings: number;
+  /** Findings that matched at least one injected error. */
+  truePositives: number;
+  /** Precision: truePositives / findings. */
+  precision: number;
+  /** Injected errors this detector caught. */
+  errorsCaught: number;
+  /** Recall: errorsCaught / total injected errors. */
+  recall: number;
+  /** Recall by error category (every injected category is present). */
+  byCategory: Partial<Record<ErrorCategory, RecallBreakdown>>;
+  /** Recall by detectability (every injected level is present). */
+  byDetectability: Partial<Record<Detectability, RecallBreakdown>>;
+}
+
 /** Aggregate scores for a single eval run. */
 export interface EvalScores {
   /** Total injected errors. */
@@ -122,9 +150,11 @@ export interface EvalScores {
   /** F1 score: harmonic mean of precision and recall. */
   f1: number;
   /** Breakdown by error category. */
-  byCategory: Record<ErrorCategory, { total: number; caught: number; recall: number }>;
-  /** Breakdown by detector. */
-  byDetector: Record<DetectorName, { findings: number; truePositives: number; precision: number }>;
+  byCategory: Record<ErrorCategory, RecallBreakdown>;
+  /** Breakdown by detectability. */
+  byDetectability: Record<Detectability, RecallBreakdown>;
+  /** Breakdown by detector (every detector that ran, even with no findings). */
+  byDetector: Record<DetectorName, DetectorScores>;
 }
 
 /** Full result of an eval run against a single page. */
@@ -0,0 +1,220 @@
+#!/usr/bin/env -S node --import tsx/esm --no-warnings
+
+/**
+ * Compare Pages (active sampling)
+ *
+ * Picks the pairs whose judgment would most reduce uncertainty in the current
+ * Bradley–Terry fit — close calls between poorly-pinned pages, and pages that
+ * have never been compared — asks a judge, and appends the answers to the
+ * comparisons store. New pages get placed in a handful of comparisons instead
+ * of being judged against the whole list.
+ *
+ * Usage:
+ *   pnpm crux importance compare                          # Preview the 10 most informative pairs
+ *   pnpm crux importance compare --pairs=30 --apply       # Judge with Haiku and record
+ *   pnpm crux importance compare --model=sonnet --apply
+ *   pnpm crux importance compare --judge=human:ozzie --apply   # Judge interactively
+ *   pnpm crux importance compare new-page-id --pairs=5 --apply # Only pairs involving a page
+ */
+
+import { createInterface } from 'readline/promises';
+import { parseCliArgs } from '../lib/cli.ts';
+import { createLogger } from '../lib/output.ts';
+import { loadPages } from '../lib/content-types.ts';
+import { createLlmClient, callLlm, MODELS } from '../lib/llm.ts';
+import { selectInformativePairs, type PairSuggestion } from '../lib/bradley-terry.ts';
+import { getAllPageIds, loadRanking, DEFAULT_DIMENSION } from '../lib/importance-ranking.ts';
+import {
+  fitComparisons,
+  appendComparisons,
+  regenerateRanking,
+  parseJudge,
+  today,
+  COMPARE_PROMPTS,
+  type Comparison,
+  type Judge,
+} from '../lib/importance-comparisons.ts';
+
+const args = parseCliArgs(process.argv.slice(2));
+const log = createLogger(args.ci as boolean);
+const c = log.colors;
+
+const dimension = (args.dimension as string) || DEFAULT_DIMENSION;
+const pairCount = args.pairs ? parseInt(args.pairs as string, 10) : 10;
+const MODEL = args.model === 'sonnet' ? MODELS.sonnet : MODELS.haiku;
+
+interface PageInfo {
+  id: string;
+  title: string;
+  description?: string | null;
+  category?: string;
+}
+
+function formatPage(page: PageInfo): string {
+  let text = `"${page.title}" (${page.id})`;
+  if (page.description) text += `\n  Description: ${page.description}`;
+  if (page.category) text += `\n  Category: ${page.category}`;
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Judges
+// ---------------------------------------------------------------------------
+
+type Verdict = { winner: Comparison['winner']; rationale?: string } | 'skip' | 'quit';
+
+const LLM_FORMAT = `Respond with "A" or "B" on the first line, then one sentence explaining why.`;
+
+async function judgeWithLlm(
+  client: ReturnType<typeof createLlmClient>,
+  a: PageInfo,
+  b: PageInfo,
+  swap: boolean,
+): Promise<Verdict> {
+  // Alternate which page is shown first to cancel out position bias
+  const [first, second] = swap ? [b, a] : [a, b];
+  const result = await callLlm(client, {
+    system: `${COMPARE_PROMPTS[dimension] || COMPARE_PROMPTS.readership}\n\n${LLM_FORMAT}`,
+    user: `A: ${formatPage(first)}\n\nB: ${formatPage(second)}`,
+  }, {
+    model: MODEL,
+    maxTokens: 150,
+    temperature: 0,
+  });
+
+  const [answerLine, ...rest] = result.text.trim().split('\n');
+  const answer = answerLine.trim().replace(/[^AB]/gi, '').toUpperCase().charAt(0);
+  if (answer !== 'A' && answer !== 'B') return 'skip';
+  const firstWon = answer === 'A';
+  const rationale = rest.join(' ').trim() || undefined;
+  return { winner: firstWon !== swap ? 'a' : 'b', rationale };
+}
+
+async function judgeWithHuman(
+  rl: ReturnType<typeof createInterface>,
+  a: PageInfo,
+  b: PageInfo,
+): Promise<Verdict> {
+  console.log(`  ${c.bold}A:${c.reset} ${formatPage(a)}`);
+  console.log(`  ${c.bold}B:${c.reset} ${formatPage(b)}`);
+  for (;;) {
+    const answer = (await rl.question(`  More important? [a]/[b]/[t]ie/[s]kip/[q]uit: `)).trim().toLowerCase();
+    if (answer === 'q') return 'quit';
+    if (answer === 's') return 'skip';
+    if (answer === 'a' || answer === 'b' || answer === 't') {
+      const rationale = (await rl.question(`  Why? (optional): `)).trim() || undefined;
+      return { winner: answer === 't' ? 'tie' : answer, rationale };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main() {
+  const pagesMap = new Map<string, PageInfo>();
+  for (const p of loadPages()) {
+    pagesMap.set(p.id, {
+      id: p.id,
+      title: p.title,
+      description: (p.description || p.llmSummary || '').slice(0, 200),
+      category: p.category,
+    });
+  }
+
+  // Every existing page takes part, so never-compared pages are candidates too
+  const pageIds = getAllPageIds().filter((id) => pagesMap.has(id));
+  const { fit, comparisons } = fitComparisons(dimension, { extraIds: pageIds });
+
+  const positional = (args._positional as string[]) ?? [];
+  const focus = positional.length > 0 ? new Set(positional) : undefined;
+  for (const id of positional) {
+    if (!pagesMap.has(id)) log.warn(`Page not found: ${id}`);
+  }
+
+  const suggestions = selectInformativePairs(fit, pairCount, {
+    focus,
+    // Focusing on a few pages needs them to appear more than once
+    maxPerItem: focus ? Math.ceil(pairCount / focus.size) : 1,
+  }).filter((s) => pagesMap.has(s.a) && pagesMap.has(s.b));
+
+  const judge: Judge = args.judge ? parseJudge(args.judge as string) : { type: 'llm', id: MODEL };
+
+  log.heading(`${suggestions.length} most informative ${dimension} pairs (${comparisons.length} comparisons so far)`);
+  console.log('');
+
+  if (!args.apply) {
+    for (const s of suggestions) printSuggestion(s, pagesMap);
+    console.log('');
+    log.info(`Run with --apply to judge these pairs (judge: ${judge.type}:${judge.id}).`);
+    return;
+  }
+
+  const client = judge.type === 'llm' ? createLlmClient() : null;
+  const rl = judge.type === 'human' ? createInterface({ input: process.stdin, output: process.stdout }) : null;
+  const recorded: Comparison[] = [];
+
+  try {
+    for (const [i, s] of suggestions.entries()) {
+      const a = pagesMap.get(s.a)!;
+      const b = pagesMap.get(s.b)!;
+      printSuggestion(s, pagesMap);
+
+      const verdict = client
+        ? await judgeWithLlm(client, a, b, i % 2 === 1)
+        : await judgeWithHuman(rl!, a, b);
+      if (verdict === 'quit') break;
+      if (verdict === 'skip') {
+        log.dim('    skipped');
+        continue;
+      }
+
+      const winnerTitle = verdict.winner === 'tie' ? 'tie' : (verdict.winner === 'a' ? a : b).title;
+      console.log(`    ${c.green}→ ${winnerTitle}${c.reset}${verdict.rationale ? ` ${c.dim}— ${verdict.rationale}${c.reset}` : ''}`);
+      recorded.push({
+        a: s.a,
+        b: s.b,
+        winner: verdict.winner,
+        dimension,
+        judge,
+        ...(verdict.rationale && { rationale: verdict.rationale }),
+        date: today(),
+      });
+    }
+  } finally {
+    rl?.close();
+  }
+
+  if (recorded.length === 0) {
+    log.warn('No comparisons recorded.');
+    return;
+  }
+
+  const before = new Map(loadRanking(dimension).ranking.map((id, idx) => [id, idx + 1]));
+  appendComparisons(recorded, dimension);
+  const refit = regenerateRanking(dimension);
+
+  console.log('');
+  log.success(`Recorded ${recorded.length} comparisons; ranking regenerated (${refit.items.length} pages)`);
+  const touched = new Set(recorded.flatMap((r) => [r.a, r.b]));
+  for (const item of refit.items.filter((it) => touched.has(it.id))) {
+    const prev = before.get(item.id);
+    const moved = prev == null ? 'new' : prev === item.rank ? 'unchanged' : `was ${prev}`;
+    log.dim(`  ${String(item.rank).padStart(4)} [${item.rankLow}–${item.rankHigh}] ${item.id} (${moved})`);
+  }
+  log.info('Run `pnpm crux importance sync --apply` to write scores to frontmatter.');
+}
+
+function printSuggestion(s: PairSuggestion, pagesMap: Map<string, PageInfo>): void {
+  const ta = pagesMap.get(s.a)?.title ?? s.a;
+  const tb = pagesMap.get(s.b)?.title ?? s.b;
+  console.log(
+    `  ${ta} ${c.dim}vs${c.reset} ${tb} ${c.dim}(P=${s.probability.toFixed(2)}, info=${s.information.toFixed(3)})${c.reset}`,
+  );
+}
+
+main().catch((err) => {
+  log.error(`Error: ${err.message}`);
+  process.exit(1);
+});
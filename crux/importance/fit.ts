@@ -0,0 +1,79 @@
+#!/usr/bin/env -S node --import tsx/esm --no-warnings
+
+/**
+ * Fit Importance Ranking
+ *
+ * Fits a Bradley–Terry model to the pairwise judgments in
+ * data/importance-comparisons/<dimension>.yaml and shows the resulting
+ * ranking with 95% intervals. With --apply, regenerates the ranking YAML.
+ *
+ * Usage:
+ *   pnpm crux importance fit                         # Preview readership fit
+ *   pnpm crux importance fit --top=30
+ *   pnpm crux importance fit --dimension=research --apply
+ */
+
+import { parseCliArgs } from '../lib/cli.ts';
+import { createLogger } from '../lib/output.ts';
+import { loadPages } from '../lib/content-types.ts';
+import { loadRanking, DEFAULT_DIMENSION } from '../lib/importance-ranking.ts';
+import { fitComparisons, regenerateRanking } from '../lib/importance-comparisons.ts';
+
+const args = parseCliArgs(process.argv.slice(2));
+const log = createLogger(args.ci as boolean);
+const c = log.colors;
+
+const dimension = (args.dimension as string) || DEFAULT_DIMENSION;
+
+async function main() {
+  const { fit, comparisons } = fitComparisons(dimension);
+  if (comparisons.length === 0) {
+    log.error(`No ${dimension} comparisons yet. Run \`pnpm crux importance import --apply\` or \`pnpm crux importance compare\`.`);
+    process.exit(1);
+  }
+
+  if (args.ci) {
+    console.log(JSON.stringify({ dimension, comparisons: comparisons.length, items: fit.items }, null, 2));
+    if (args.apply) regenerateRanking(dimension, { fit, comparisons });
+    return;
+  }
+
+  const titleMap = new Map(loadPages().map((p) => [p.id, p.title]));
+  const previous = new Map(loadRanking(dimension).ranking.map((id, i) => [id, i + 1]));
+  const top = args.top ? parseInt(args.top as string, 10) : fit.items.length;
+
+  log.heading(`${dimension} fit: ${fit.items.length} pages from ${comparisons.length} comparisons`);
+  log.dim(`Newton iterations: ${fit.iterations}`);
+  console.log('');
+
+  const posWidth = String(fit.items.length).length;
+  for (const item of fit.items.slice(0, top)) {
+    const pos = String(item.rank).padStart(posWidth);
+    const range = `${item.rankLow}–${item.rankHigh}`.padEnd(posWidth * 2 + 1);
+    const strength = `${item.strength.toFixed(2)} ±${(item.high - item.strength).toFixed(2)}`.padEnd(13);
+    const prev = previous.get(item.id);
+    const moved = prev == null ? ` ${c.green}new${c.reset}` : prev !== item.rank ? ` ${c.dim}(was ${prev})${c.reset}` : '';
+    console.log(
+      `  ${c.dim}${pos}.${c.reset} ${c.dim}[${range}]${c.reset} ${c.cyan}${strength}${c.reset} ${titleMap.get(item.id) || item.id} ${c.dim}(${item.id}, n=${item.comparisons})${c.reset}${moved}`,
+    );
+  }
+  if (top < fit.items.length) {
+    console.log(`  ${c.dim}... and ${fit.items.length - top} more${c.reset}`);
+  }
+
+  console.log('');
+  log.dim('[rank range] = 95% interval; strength is log-odds, ± half-width of its 95% interval; n = comparisons');
+
+  if (args.apply) {
+    regenerateRanking(dimension, { fit, comparisons });
+    log.success(`Regenerated ${dimension} ranking (${fit.items.length} pages)`);
+    log.info('Run `pnpm crux importance sync --apply` to write scores to frontmatter.');
+  } else {
+    log.info('Run with --apply to regenerate the ranking YAML.');
+  }
+}
+
+main().catch((err) => {
+  log.error(`Error: ${err.message}`);
+  process.exit(1);
+});
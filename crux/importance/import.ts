@@ -0,0 +1,69 @@
+#!/usr/bin/env -S node --import tsx/esm --no-warnings
+
+/**
+ * Import Ranking as Comparisons
+ *
+ * One-time migration: expands the current ordered ranking into pairwise
+ * judgments so the comparisons store becomes the source of truth. Each page
+ * is recorded as beating the pages 1, 3, 10, 30 and 100 places below it,
+ * which the Bradley–Terry fit reproduces exactly.
+ *
+ * Refuses to run when the dimension already has comparisons.
+ *
+ * Usage:
+ *   pnpm crux importance import                          # Preview
+ *   pnpm crux importance import --apply                  # Readership
+ *   pnpm crux importance import --dimension=research --apply
+ *   pnpm crux importance import --judge=human:ozzie --apply
+ */
+
+import { parseCliArgs } from '../lib/cli.ts';
+import { createLogger } from '../lib/output.ts';
+import { loadRanking, DEFAULT_DIMENSION } from '../lib/importance-ranking.ts';
+import {
+  loadComparisons,
+  saveComparisons,
+  orderingToComparisons,
+  parseJudge,
+  regenerateRanking,
+  getComparisonsFile,
+} from '../lib/importance-comparisons.ts';
+
+const args = parseCliArgs(process.argv.slice(2));
+const log = createLogger(args.ci as boolean);
+
+const dimension = (args.dimension as string) || DEFAULT_DIMENSION;
+
+async function main() {
+  const existing = loadComparisons(dimension);
+  if (existing.length > 0) {
+    log.error(`${getComparisonsFile(dimension)} already has ${existing.length} comparisons; nothing to import.`);
+    process.exit(1);
+  }
+
+  const { ranking } = loadRanking(dimension);
+  if (ranking.length === 0) {
+    log.error(`No ${dimension} ranking to import.`);
+    process.exit(1);
+  }
+
+  // The ordered lists were built by LLM batch sorting (importance rerank) plus manual edits
+  const judge = parseJudge((args.judge as string) || 'llm:ranking-import');
+  const comparisons = orderingToComparisons(ranking, { dimension, judge });
+
+  log.info(`${ranking.length} ranked pages → ${comparisons.length} ${dimension} comparisons (judge: ${judge.type}:${judge.id})`);
+
+  if (!args.apply) {
+    log.info('Run with --apply to write the comparisons.');
+    return;
+  }
+
+  saveComparisons(comparisons, dimension);
+  const fit = regenerateRanking(dimension);
+  log.success(`Wrote ${getComparisonsFile(dimension)} and regenerated the ranking (${fit.items.length} pages)`);
+}
+
+main().catch((err) => {
+  log.error(`Error: ${err.message}`);
+  process.exit(1);
+});
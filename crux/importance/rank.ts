@@ -5,7 +5,12 @@
  *
  * Uses Claude to decide where unranked pages belong in the importance ranking.
  * For each page, performs a binary search through the existing ranking by asking
- * Claude "is this page more or less important than X?" at each step.
+ * Claude "is this page more or less important than X?" at each step. Every
+ * answer is recorded in the comparisons store, and the ranking is regenerated
+ * from the refit.
+ *
+ * `pnpm crux importance compare` usually needs fewer judgments; this is the
+ * quick way to place one specific page.
  *
  * Usage:
  *   pnpm crux importance rank <page-id>          # Rank a single page
@@ -20,12 +25,18 @@ import { loadPages, CONTENT_DIR_ABS } from '../lib/content-types.ts';
 import { createLlmClient, callLlm, MODELS } from '../lib/llm.ts';
 import {
   loadRanking,
-  saveRanking,
   findUnrankedPages,
   insertAt,
   getNeighbors,
   DEFAULT_DIMENSION,
 } from '../lib/importance-ranking.ts';
+import {
+  appendComparisons,
+  regenerateRanking,
+  today,
+  COMPARE_PROMPTS,
+  type Comparison,
+} from '../lib/importance-comparisons.ts';
 
 const args = parseCliArgs(process.argv.slice(2));
 const log = createLogger(args.ci as boolean);
@@ -33,19 +44,9 @@ const c = log.colors;
 
 const dimension = (args.dimension as string) || DEFAULT_DIMENSION;
 
-const COMPARE_PROMPTS: Record<string, string> = {
-  readership: `You are ranking wiki pages by importance FOR READERS of an AI safety wiki. Which page is more important for someone trying to understand AI safety?
-
-Respond with ONLY "A" or "B".`,
-
-  research: `You are ranking wiki pages by RESEARCH VALUE — where a small research team's time would be best spent doing original investigation. This is NOT about broad importance. A narrow, neglected topic with tractable open questions beats a famous broad topic every time.
+const SYSTEM_PROMPT = `${COMPARE_PROMPTS[dimension] || COMPARE_PROMPTS.readership}
 
-Which topic would yield more surprising, decision-relevant findings from 40 hours of focused research?
-
-Respond with ONLY "A" or "B".`,
-};
-
-const SYSTEM_PROMPT = COMPARE_PROMPTS[dimension] || COMPARE_PROMPTS.readership;
+Respond with ONLY "A" or "B".`;
 
 interface PageInfo {
   id: string;
@@ -71,13 +72,15 @@ function formatPageForComparison(page: PageInfo): string {
 
 /**
  * Binary search to find where a page belongs in the ranking.
- * Returns the 1-based position where the page should be inserted.
+ * Returns the 1-based position where the page should be inserted, and pushes
+ * each judgment onto `recorded`.
  */
 async function findPosition(
   pageId: string,
   ranking: string[],
   pagesMap: Map<string, PageInfo>,
   client: ReturnType<typeof createLlmClient>,
+  recorded: Comparison[],
 ): Promise<number> {
   if (ranking.length === 0) return 1;
 
@@ -108,6 +111,14 @@ Reply with only "A" or "B".`;
     });
 
     const answer = result.text.trim().toUpperCase();
+    recorded.push({
+      a: pageId,
+      b: ranking[mid],
+      winner: answer === 'A' ? 'a' : 'b',
+      dimension,
+      judge: { type: 'llm', id: MODELS.haiku },
+      date: today(),
+    });
 
     if (answer === 'A') {
       // Page is more important than mid → search upper half
@@ -188,6 +199,7 @@ async function main() {
   console.log('');
 
   let currentRanking = [...ranking];
+  const recorded: Comparison[] = [];
   const progress = toRank.length > 1 ? createProgress(toRank.length, 'Ranking') : null;
 
   for (const pageId of toRank) {
@@ -198,7 +210,7 @@ async function main() {
       log.dim(`  Placing "${info.title}" (~${comparisons} comparisons)...`);
     }
 
-    const position = await findPosition(pageId, currentRanking, pagesMap, client);
+    const position = await findPosition(pageId, currentRanking, pagesMap, client, recorded);
     currentRanking = insertAt(currentRanking, pageId, position);
 
     const { above, below } = getNeighbors(currentRanking, position, 2);
@@ -217,9 +229,10 @@ async function main() {
 
   progress?.done();
 
-  // Save updated ranking
-  saveRanking({ ranking: currentRanking }, dimension);
-  log.success(`Ranking saved (${currentRanking.length} total pages)`);
+  // Record the judgments and regenerate the ranking from the refit
+  appendComparisons(recorded, dimension);
+  const fit = regenerateRanking(dimension);
+  log.success(`Recorded ${recorded.length} comparisons; ranking regenerated (${fit.items.length} total pages)`);
 
   if (toRank.length > 1) {
     console.log('');
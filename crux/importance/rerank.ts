@@ -14,6 +14,10 @@
  *   pnpm crux importance rerank --all --apply                    # Full readership rerank
  *   pnpm crux importance rerank --dimension=research --all --apply
  *   pnpm crux importance rerank --verify --apply                 # Fix local inversions
+ *
+ * With --apply the resulting order is recorded as pairwise judgments in the
+ * comparisons store (adding to, not replacing, earlier judgments) and the
+ * ranking is regenerated from the refit.
  */
 
 import { parseCliArgs } from '../lib/cli.ts';
@@ -23,11 +27,17 @@ import { createLlmClient, callLlm, MODELS } from '../lib/llm.ts';
 import { sleep } from '../lib/anthropic.ts';
 import {
   loadRanking,
-  saveRanking,
   getAllPageIds,
   insertAt,
   DEFAULT_DIMENSION,
 } from '../lib/importance-ranking.ts';
+import {
+  appendComparisons,
+  orderingToComparisons,
+  regenerateRanking,
+  today,
+  type Comparison,
+} from '../lib/importance-comparisons.ts';
 
 const args = parseCliArgs(process.argv.slice(2));
 const log = createLogger(args.ci as boolean);
@@ -212,12 +222,16 @@ async function sortBatch(
   return ranked;
 }
 
-/** Binary search to find where a page belongs in a ranking. */
+/**
+ * Binary search to find where a page belongs in a ranking.
+ * Pushes each judgment onto `recorded` when given.
+ */
 async function binarySearchInsert(
   pageInfo: PageInfo,
   ranking: string[],
   pagesMap: Map<string, PageInfo>,
   client: ReturnType<typeof createLlmClient>,
+  recorded?: Comparison[],
 ): Promise<number> {
   if (ranking.length === 0) return 1;
 
@@ -249,6 +263,14 @@ B: "${midInfo.title}" (${midInfo.id})${midInfo.description ? ` — ${midInfo.des
     costTracker.track(result.usage);
 
     const answer = result.text.trim().toUpperCase();
+    recorded?.push({
+      a: pageInfo.id,
+      b: midInfo.id,
+      winner: answer === 'A' ? 'a' : 'b',
+      dimension,
+      judge: { type: 'llm', id: MODELS.haiku },
+      date: today(),
+    });
     if (answer === 'A') {
       hi = mid - 1;
     } else {
@@ -342,8 +364,8 @@ async function main() {
     const verified = await verifyRanking(ranking, pagesMap, client);
 
     if (args.apply) {
-      saveRanking({ ranking: verified }, dimension);
-      log.success(`Verified ranking saved`);
+      recordOrdering(verified, 'rerank --verify window sort');
+      log.success(`Verified ranking recorded`);
     } else {
       log.info('Run with --apply to save verified ranking.');
     }
@@ -468,30 +490,26 @@ async function main() {
   // Save
   if (args.apply) {
     if (args.all) {
-      const rankedSet = new Set(finalRanking);
-      const { ranking: existing } = loadRanking(dimension);
-      for (const id of existing) {
-        if (!rankedSet.has(id)) {
-          finalRanking.push(id);
-        }
-      }
-      saveRanking({ ranking: finalRanking }, dimension);
-      log.success(`Full ${dimension} ranking saved (${finalRanking.length} pages)`);
+      recordOrdering(finalRanking, 'rerank --all batch sort + merge');
+      log.success(`Full ${dimension} ranking recorded (${finalRanking.length} pages)`);
     } else {
       const { ranking: existing } = loadRanking(dimension);
       const rerankedSet = new Set(finalRanking);
       let merged = existing.filter((id) => !rerankedSet.has(id));
+      const mergeJudgments: Comparison[] = [];
 
       log.info('Merging into existing ranking...');
       for (const pageId of finalRanking) {
         const info = pagesMap.get(pageId);
         if (!info) continue;
-        const pos = await binarySearchInsert(info, merged, pagesMap, client);
+        const pos = await binarySearchInsert(info, merged, pagesMap, client, mergeJudgments);
         merged = insertAt(merged, pageId, pos);
       }
 
-      saveRanking({ ranking: merged }, dimension);
-      log.success(`Merged ${dimension} ranking saved (${merged.length} pages)`);
+      // The sample's own sort, plus each binary-search answer against the existing ranking
+      appendComparisons(mergeJudgments, dimension);
+      recordOrdering(finalRanking, 'rerank --sample batch sort');
+      log.success(`Sample merged into ${dimension} ranking`);
     }
 
     console.log('');
@@ -506,6 +524,16 @@ async function main() {
   log.dim(costTracker.summary(MODEL));
 }
 
+/** Record an LLM-sorted order as pairwise judgments and regenerate the ranking. */
+function recordOrdering(ordering: string[], rationale: string): void {
+  appendComparisons(
+    orderingToComparisons(ordering, { dimension, judge: { type: 'llm', id: MODEL }, rationale }),
+    dimension,
+  );
+  const fit = regenerateRanking(dimension);
+  log.dim(`Ranking regenerated from comparisons (${fit.items.length} pages)`);
+}
+
 main().catch((err) => {
   log.error(`Error: ${err.message}`);
   process.exit(1);
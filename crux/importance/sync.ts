@@ -4,7 +4,7 @@
  * Sync Importance Scores
  *
  * Derives 0-100 scores from both ranking files and writes them to page frontmatter.
- *   - readerImportance:    from data/importance-ranking.yaml (readership)
+ *   - readerImportance:    from data/reader-importance-ranking.yaml (readership)
  *   - researchImportance:  from data/research-ranking.yaml  (research)
  *
  * Usage:
@@ -144,7 +144,7 @@ async function main() {
 
   const availableDims = getAvailableDimensions();
   if (availableDims.length === 0) {
-    log.warn('No rankings found. Run `pnpm crux importance seed` or `pnpm crux importance rerank` first.');
+    log.warn('No rankings found. Run `pnpm crux importance import --apply` or `pnpm crux importance compare --apply` first.');
     process.exit(0);
   }
 
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fitBradleyTerry,
+  selectInformativePairs,
+  winProbability,
+  cholesky,
+  choleskySolve,
+  type PairOutcome,
+} from './bradley-terry.ts';
+import { orderingToComparisons, parseJudge } from './importance-comparisons.ts';
+
+const judge = { type: 'llm' as const, id: 'test' };
+
+/** Every pair of an ordering, judged consistently (earlier wins). */
+function allPairs(order: string[]): PairOutcome[] {
+  const out: PairOutcome[] = [];
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) out.push({ a: order[i], b: order[j], winner: 'a' });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Linear algebra
+// ---------------------------------------------------------------------------
+
+describe('cholesky', () => {
+  it('solves a small SPD system', () => {
+    const A = [new Float64Array([4, 2]), new Float64Array([2, 3])];
+    const x = choleskySolve(cholesky(A), [2, 1]);
+    expect(x[0]).toBeCloseTo(0.5);
+    expect(x[1]).toBeCloseTo(0);
+  });
+
+  it('rejects non-positive-definite matrices', () => {
+    const A = [new Float64Array([1, 2]), new Float64Array([2, 1])];
+    expect(() => cholesky(A)).toThrow('not positive definite');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fitBradleyTerry
+// ---------------------------------------------------------------------------
+
+describe('fitBradleyTerry', () => {
+  it('recovers a consistent ordering', () => {
+    const order = ['a', 'b', 'c', 'd', 'e'];
+    const fit = fitBradleyTerry(allPairs(order));
+    expect(fit.items.map((it) => it.id)).toEqual(order);
+    expect(fit.items[0].rank).toBe(1);
+  });
+
+  it('stays finite on perfectly consistent data', () => {
+    const fit = fitBradleyTerry([{ a: 'x', b: 'y', winner: 'a' }]);
+    for (const it of fit.items) {
+      expect(Number.isFinite(it.strength)).toBe(true);
+      expect(it.low).toBeLessThan(it.strength);
+      expect(it.high).toBeGreaterThan(it.strength);
+    }
+  });
+
+  it('follows the majority when judgments disagree', () => {
+    const fit = fitBradleyTerry([
+      { a: 'x', b: 'y', winner: 'a' },
+      { a: 'x', b: 'y', winner: 'a' },
+      { a: 'y', b: 'x', winner: 'a' },
+    ]);
+    expect(fit.items[0].id).toBe('x');
+    expect(winProbability(fit, 'x', 'y')).toBeGreaterThan(0.5);
+    expect(winProbability(fit, 'x', 'y')).toBeLessThan(0.9);
+  });
+
+  it('treats ties as half a win each', () => {
+    const fit = fitBradleyTerry([{ a: 'x', b: 'y', winner: 'tie' }]);
+    expect(fit.items[0].strength).toBeCloseTo(fit.items[1].strength);
+  });
+
+  it('narrows intervals as comparisons accumulate', () => {
+    const few = fitBradleyTerry([{ a: 'x', b: 'y', winner: 'a' }]);
+    const many = fitBradleyTerry(
+      Array.from({ length: 20 }, (_, i) => ({ a: 'x', b: 'y', winner: i % 4 === 0 ? 'b' : 'a' }) as PairOutcome),
+    );
+    const width = (fit: typeof few) => fit.items[0].high - fit.items[0].low;
+    expect(width(many)).toBeLessThan(width(few));
+  });
+
+  it('gives uncompared items the prior and a wide rank interval', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c', 'd']), ['new']);
+    const item = fit.items.find((it) => it.id === 'new')!;
+    expect(item.comparisons).toBe(0);
+    expect(item.strength).toBe(0);
+    expect(item.se).toBeCloseTo(2);
+    expect(item.rankLow).toBe(1);
+    expect(item.rankHigh).toBe(5);
+  });
+
+  it('keeps every rank inside its interval', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c', 'd', 'e', 'f']));
+    for (const it of fit.items) {
+      expect(it.rankLow).toBeLessThanOrEqual(it.rank);
+      expect(it.rankHigh).toBeGreaterThanOrEqual(it.rank);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// selectInformativePairs
+// ---------------------------------------------------------------------------
+
+describe('selectInformativePairs', () => {
+  it('pairs a never-compared item with a placed one', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c', 'd', 'e']), ['new']);
+    const [first] = selectInformativePairs(fit, 1);
+    expect([first.a, first.b]).toContain('new');
+    // The placed partner is mid-ranking, where the outcome is least predictable
+    expect([first.a, first.b]).toContain('c');
+  });
+
+  it('does not pair two never-compared items', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c']), ['n1', 'n2']);
+    for (const s of selectInformativePairs(fit, 3)) {
+      expect(['n1', 'n2'].includes(s.a) && ['n1', 'n2'].includes(s.b)).toBe(false);
+    }
+  });
+
+  it('prefers close calls over foregone conclusions', () => {
+    const outcomes: PairOutcome[] = [
+      ...Array.from({ length: 10 }, () => ({ a: 'top', b: 'bottom', winner: 'a' }) as PairOutcome),
+      { a: 'top', b: 'mid1', winner: 'a' },
+      { a: 'mid1', b: 'bottom', winner: 'a' },
+      { a: 'top', b: 'mid2', winner: 'a' },
+      { a: 'mid2', b: 'bottom', winner: 'a' },
+    ];
+    const fit = fitBradleyTerry(outcomes);
+    const [first] = selectInformativePairs(fit, 1);
+    expect([first.a, first.b].sort()).toEqual(['mid1', 'mid2']);
+  });
+
+  it('uses each item at most maxPerItem times', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c', 'd', 'e', 'f']));
+    const picked = selectInformativePairs(fit, 10);
+    const ids = picked.flatMap((s) => [s.a, s.b]);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(picked.length).toBe(3);
+  });
+
+  it('restricts to focus items', () => {
+    const fit = fitBradleyTerry(allPairs(['a', 'b', 'c', 'd']));
+    const picked = selectInformativePairs(fit, 2, { focus: new Set(['a']), maxPerItem: 2 });
+    expect(picked).toHaveLength(2);
+    for (const s of picked) expect([s.a, s.b]).toContain('a');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Comparisons helpers
+// ---------------------------------------------------------------------------
+
+describe('orderingToComparisons', () => {
+  it('links neighbours and long-range pairs, earlier page winning', () => {
+    const order = Array.from({ length: 12 }, (_, i) => `p${i}`);
+    const comparisons = orderingToComparisons(order, { dimension: 'readership', judge, date: '2026-01-01' });
+    const pairs = comparisons.map((c) => `${c.a}>${c.b}`);
+    expect(pairs).toContain('p0>p1');
+    expect(pairs).toContain('p0>p3');
+    expect(pairs).toContain('p0>p10');
+    expect(pairs).not.toContain('p0>p2');
+    expect(comparisons.every((c) => c.winner === 'a' && c.date === '2026-01-01')).toBe(true);
+  });
+
+  it('round-trips through the fit', () => {
+    const order = Array.from({ length: 60 }, (_, i) => `p${i}`);
+    const fit = fitBradleyTerry(orderingToComparisons(order, { dimension: 'research', judge }));
+    expect(fit.items.map((it) => it.id)).toEqual(order);
+  });
+});
+
+describe('parseJudge', () => {
+  it('parses human and llm judges', () => {
+    expect(parseJudge('human:ozzie')).toEqual({ type: 'human', id: 'ozzie' });
+    expect(parseJudge('llm:claude-haiku-4-5:beta')).toEqual({ type: 'llm', id: 'claude-haiku-4-5:beta' });
+  });
+
+  it('rejects unknown judge types', () => {
+    expect(() => parseJudge('robot:x')).toThrow('Invalid judge');
+    expect(() => parseJudge('human')).toThrow('Invalid judge');
+  });
+});
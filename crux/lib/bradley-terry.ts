@@ -0,0 +1,374 @@
+/**
+ * Bradley–Terry Model
+ *
+ * Fits latent strengths θ to pairwise outcomes, where
+ *   P(i beats j) = 1 / (1 + exp(θj − θi)).
+ *
+ * The fit is a MAP estimate under a N(0, priorSd²) prior on every θ, found by
+ * Newton's method. The prior keeps the fit finite when the data is perfectly
+ * consistent (an ordered list), and lets pages with few comparisons sit near
+ * the middle with wide intervals instead of at ±∞. The inverse Hessian at the
+ * optimum is the (Laplace) posterior covariance, which gives the confidence
+ * intervals and drives active pair selection.
+ *
+ * Pure functions — no I/O. Used by crux/lib/importance-comparisons.ts.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PairOutcome {
+  a: string;
+  b: string;
+  /** Ties count as half a win for each side. */
+  winner: 'a' | 'b' | 'tie';
+}
+
+export interface BradleyTerryOptions {
+  /** Prior standard deviation of each strength (default 2). */
+  priorSd?: number;
+  /** Newton iterations cap (default 50). */
+  maxIterations?: number;
+  /** Stop when no strength moves more than this (default 1e-8). */
+  tolerance?: number;
+}
+
+export interface ItemStrength {
+  id: string;
+  /** Log-strength θ. Only differences are meaningful. */
+  strength: number;
+  /** Posterior standard error of θ. */
+  se: number;
+  /** 95% interval for θ. */
+  low: number;
+  high: number;
+  /** 1-based rank by strength. */
+  rank: number;
+  /** Approximate 95% interval for the rank. */
+  rankLow: number;
+  rankHigh: number;
+  /** Number of comparisons involving this item. */
+  comparisons: number;
+}
+
+export interface BradleyTerryFit {
+  /** Items sorted by strength, strongest first. */
+  items: ItemStrength[];
+  /** Posterior covariance of θ, indexed like `ids`. */
+  covariance: Float64Array[];
+  /** Item IDs in covariance order. */
+  ids: string[];
+  iterations: number;
+}
+
+export interface PairSuggestion {
+  a: string;
+  b: string;
+  /** Current P(a beats b). */
+  probability: number;
+  /** Expected information from judging the pair (nats, approximate). */
+  information: number;
+}
+
+const Z95 = 1.96;
+
+// ---------------------------------------------------------------------------
+// Linear algebra (dense, symmetric positive definite)
+// ---------------------------------------------------------------------------
+
+/** Cholesky factor L (lower triangular) with A = L·Lᵀ. Throws if A is not SPD. */
+export function cholesky(A: Float64Array[]): Float64Array[] {
+  const n = A.length;
+  const L = Array.from({ length: n }, () => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    const Li = L[i];
+    for (let j = 0; j <= i; j++) {
+      const Lj = L[j];
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= Li[k] * Lj[k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('Matrix is not positive definite');
+        Li[i] = Math.sqrt(sum);
+      } else {
+        Li[j] = sum / Lj[j];
+      }
+    }
+  }
+  return L;
+}
+
+/** Solve L·Lᵀ·x = b. */
+export function choleskySolve(L: Float64Array[], b: ArrayLike<number>): Float64Array {
+  const n = L.length;
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * y[k];
+    y[i] = sum / L[i][i];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+/** Inverse of L·Lᵀ, via L⁻¹ (A⁻¹ = L⁻ᵀ·L⁻¹). */
+function choleskyInverse(L: Float64Array[]): Float64Array[] {
+  const n = L.length;
+  // L⁻¹ is lower triangular; fill it row by row by forward substitution
+  const Linv = Array.from({ length: n }, () => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    Linv[i][i] = 1 / L[i][i];
+    for (let j = 0; j < i; j++) {
+      let sum = 0;
+      for (let k = j; k < i; k++) sum -= L[i][k] * Linv[k][j];
+      Linv[i][j] = sum / L[i][i];
+    }
+  }
+  const inv = Array.from({ length: n }, () => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = 0;
+      for (let k = i; k < n; k++) sum += Linv[k][i] * Linv[k][j];
+      inv[i][j] = sum;
+      inv[j][i] = sum;
+    }
+  }
+  return inv;
+}
+
+// ---------------------------------------------------------------------------
+// Fitting
+// ---------------------------------------------------------------------------
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+interface PairCounts {
+  i: number;
+  j: number;
+  /** Total comparisons between i and j. */
+  n: number;
+  /** Wins for i (ties count ½). */
+  winsI: number;
+}
+
+/**
+ * Fit strengths to pairwise outcomes.
+ *
+ * @param outcomes  Judgments; pairs may repeat and may disagree.
+ * @param extraIds  Items to include even without comparisons (they get the prior).
+ */
+export function fitBradleyTerry(
+  outcomes: PairOutcome[],
+  extraIds: string[] = [],
+  options: BradleyTerryOptions = {},
+): BradleyTerryFit {
+  const { priorSd = 2, maxIterations = 50, tolerance = 1e-8 } = options;
+  const priorPrecision = 1 / (priorSd * priorSd);
+
+  // Index items and aggregate outcomes per unordered pair
+  const index = new Map<string, number>();
+  const ids: string[] = [];
+  const indexOf = (id: string): number => {
+    let idx = index.get(id);
+    if (idx === undefined) {
+      idx = ids.length;
+      index.set(id, idx);
+      ids.push(id);
+    }
+    return idx;
+  };
+
+  const pairs = new Map<string, PairCounts>();
+  const comparisonCounts: number[] = [];
+  for (const o of outcomes) {
+    if (o.a === o.b) continue;
+    let i = indexOf(o.a);
+    let j = indexOf(o.b);
+    let winI = o.winner === 'a' ? 1 : o.winner === 'b' ? 0 : 0.5;
+    if (i > j) {
+      [i, j] = [j, i];
+      winI = 1 - winI;
+    }
+    const key = `${i},${j}`;
+    const counts = pairs.get(key) ?? { i, j, n: 0, winsI: 0 };
+    counts.n++;
+    counts.winsI += winI;
+    pairs.set(key, counts);
+    comparisonCounts[i] = (comparisonCounts[i] ?? 0) + 1;
+    comparisonCounts[j] = (comparisonCounts[j] ?? 0) + 1;
+  }
+  for (const id of extraIds) indexOf(id);
+
+  const n = ids.length;
+  const pairList = [...pairs.values()];
+  const theta = new Float64Array(n);
+
+  const buildHessian = (): Float64Array[] => {
+    const H = Array.from({ length: n }, () => new Float64Array(n));
+    for (let k = 0; k < n; k++) H[k][k] = priorPrecision;
+    for (const { i, j, n: count } of pairList) {
+      const p = logistic(theta[i] - theta[j]);
+      const w = count * p * (1 - p);
+      H[i][i] += w;
+      H[j][j] += w;
+      H[i][j] -= w;
+      H[j][i] -= w;
+    }
+    return H;
+  };
+
+  let iterations = 0;
+  let L: Float64Array[] = n > 0 ? cholesky(buildHessian()) : [];
+  for (; iterations < maxIterations && n > 0; iterations++) {
+    // Gradient of the log posterior
+    const grad = new Float64Array(n);
+    for (let k = 0; k < n; k++) grad[k] = -priorPrecision * theta[k];
+    for (const { i, j, n: count, winsI } of pairList) {
+      const p = logistic(theta[i] - theta[j]);
+      const residual = winsI - count * p;
+      grad[i] += residual;
+      grad[j] -= residual;
+    }
+
+    const step = choleskySolve(L, grad);
+    // Damp very large steps; the posterior is log-concave so this only slows early iterations
+    let maxStep = 0;
+    for (let k = 0; k < n; k++) maxStep = Math.max(maxStep, Math.abs(step[k]));
+    const scale = maxStep > 2 ? 2 / maxStep : 1;
+    for (let k = 0; k < n; k++) theta[k] += scale * step[k];
+
+    L = cholesky(buildHessian());
+    if (maxStep * scale < tolerance) {
+      iterations++;
+      break;
+    }
+  }
+
+  const covariance = n > 0 ? choleskyInverse(L) : [];
+  const se = Array.from({ length: n }, (_, k) => Math.sqrt(covariance[k][k]));
+
+  const order = Array.from({ length: n }, (_, k) => k).sort(
+    (x, y) => theta[y] - theta[x] || ids[x].localeCompare(ids[y]),
+  );
+
+  // Rank intervals: i ranks no better than 1 + (items credibly above it) and no
+  // worse than 1 + (items plausibly above it), judged pairwise on θj − θi with
+  // its full posterior variance (covariance included, so chained comparisons count).
+  const rankInterval = (i: number): [number, number] => {
+    let above = 0;
+    let plausiblyAbove = 0;
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      const diffVar = covariance[i][i] + covariance[j][j] - 2 * covariance[i][j];
+      const p = normalCdf((theta[j] - theta[i]) / Math.sqrt(Math.max(diffVar, 1e-12)));
+      if (p > 0.975) above++;
+      if (p > 0.025) plausiblyAbove++;
+    }
+    return [1 + above, 1 + plausiblyAbove];
+  };
+
+  const items: ItemStrength[] = order.map((k, position) => {
+    const [rankLow, rankHigh] = rankInterval(k);
+    return {
+      id: ids[k],
+      strength: theta[k],
+      se: se[k],
+      low: theta[k] - Z95 * se[k],
+      high: theta[k] + Z95 * se[k],
+      rank: position + 1,
+      rankLow: Math.min(rankLow, position + 1),
+      rankHigh: Math.max(rankHigh, position + 1),
+      comparisons: comparisonCounts[k] ?? 0,
+    };
+  });
+
+  return { items, covariance, ids, iterations };
+}
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26 via erf). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// ---------------------------------------------------------------------------
+// Active sampling
+// ---------------------------------------------------------------------------
+
+/** Current P(a beats b) under a fit. */
+export function winProbability(fit: BradleyTerryFit, a: string, b: string): number {
+  const sa = fit.items.find((it) => it.id === a)?.strength ?? 0;
+  const sb = fit.items.find((it) => it.id === b)?.strength ?? 0;
+  return logistic(sa - sb);
+}
+
+export interface SelectPairsOptions {
+  /** Max times one item may appear in the batch (default 1), so a batch spreads across the ranking. */
+  maxPerItem?: number;
+  /** Only consider pairs involving at least one of these items. */
+  focus?: Set<string>;
+}
+
+/**
+ * Pick the `count` most informative pairs to judge next.
+ *
+ * A judgment of (i, j) is a logistic observation of θi − θj. Its expected
+ * information is about ½·log(1 + p(1−p)·Var(θi − θj)): highest when the
+ * outcome is a coin flip (close strengths) and the difference is uncertain
+ * (few comparisons, or never compared even indirectly). Pages without any
+ * comparisons have prior variance and are picked first — always against a
+ * page that has been compared, since a judgment between two unplaced pages
+ * says nothing about where either sits in the ranking.
+ */
+export function selectInformativePairs(
+  fit: BradleyTerryFit,
+  count: number,
+  options: SelectPairsOptions = {},
+): PairSuggestion[] {
+  const { maxPerItem = 1, focus } = options;
+  const { ids, covariance } = fit;
+  const strength = new Float64Array(ids.length);
+  const placed = new Uint8Array(ids.length);
+  const byId = new Map(fit.items.map((it) => [it.id, it]));
+  ids.forEach((id, k) => {
+    const item = byId.get(id);
+    strength[k] = item?.strength ?? 0;
+    placed[k] = item && item.comparisons > 0 ? 1 : 0;
+  });
+  const anyPlaced = placed.some((v) => v === 1);
+
+  const candidates: Array<{ i: number; j: number; p: number; info: number }> = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (focus && !focus.has(ids[i]) && !focus.has(ids[j])) continue;
+      if (anyPlaced && !placed[i] && !placed[j]) continue;
+      const p = logistic(strength[i] - strength[j]);
+      const diffVar = covariance[i][i] + covariance[j][j] - 2 * covariance[i][j];
+      candidates.push({ i, j, p, info: 0.5 * Math.log1p(p * (1 - p) * diffVar) });
+    }
+  }
+  candidates.sort((x, y) => y.info - x.info);
+
+  const uses = new Map<number, number>();
+  const picked: PairSuggestion[] = [];
+  for (const cand of candidates) {
+    if (picked.length >= count) break;
+    if ((uses.get(cand.i) ?? 0) >= maxPerItem || (uses.get(cand.j) ?? 0) >= maxPerItem) continue;
+    uses.set(cand.i, (uses.get(cand.i) ?? 0) + 1);
+    uses.set(cand.j, (uses.get(cand.j) ?? 0) + 1);
+    picked.push({ a: ids[cand.i], b: ids[cand.j], probability: cand.p, information: cand.info });
+  }
+  return picked;
+}
@@ -10,3 +10,4 @@ import { PROJECT_ROOT } from './content-types.ts';
 
 export const CACHE_DIR = join(PROJECT_ROOT, '.cache');
 export const SOURCES_DIR = join(CACHE_DIR, 'sources');
+export const SOURCE_ARCHIVE_DIR = join(CACHE_DIR, 'source-archive');
@@ -15,6 +15,14 @@ import { readFileSync, readdirSync } from "fs";
 import { join, basename } from "path";
 import { parse as parseYaml } from "yaml";
 import { PROJECT_ROOT } from "../content-types.ts";
+import {
+  createLocalEntityResolver,
+  resolveName,
+  toReviewItem,
+  type EntityResolver,
+  type ResolvedMatch,
+} from "../entity-resolution.ts";
+import type { EntityReviewItemInput } from "../wiki-server/entity-resolution.ts";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -150,6 +158,15 @@ function buildEntityMap(): Map<string, string> {
   return map;
 }
 
+/** Alias-aware fallback for org display names the slug map misses. */
+interface FuzzyOrgLookup {
+  resolver: EntityResolver;
+  /** Names resolved with low confidence, for the review queue */
+  unconfirmed: Map<string, ResolvedMatch[]>;
+  /** Number of references resolved by the fallback */
+  resolved: number;
+}
+
 /**
  * Resolve an organization reference to a stableId.
  * KB career-history records use either entity slugs ("anthropic") or display names ("Google Brain").
@@ -158,6 +175,7 @@ function buildEntityMap(): Map<string, string> {
 function resolveOrgId(
   orgRef: string,
   entityMap: Map<string, string>,
+  fuzzy?: FuzzyOrgLookup,
 ): string {
   // Direct slug/id lookup
   const direct = entityMap.get(orgRef);
@@ -179,6 +197,16 @@ function resolveOrgId(
     }
   }
 
+  // Display names: accept a confident resolver match, queue plausible ones
+  if (fuzzy) {
+    const { match, matches, review } = resolveName(fuzzy.resolver, { name: orgRef, entityType: "organization" });
+    if (match) {
+      fuzzy.resolved++;
+      return match.stableId;
+    }
+    if (review) fuzzy.unconfirmed.set(orgRef, matches);
+  }
+
   // Return the original string — the personnel table accepts non-entity-id strings
   return orgRef;
 }
@@ -188,6 +216,7 @@ function resolveOrgId(
 function extractFromKBRecords(
   person: KBThing,
   entityMap: Map<string, string>,
+  fuzzy?: FuzzyOrgLookup,
 ): CareerEntry[] {
   const entries: CareerEntry[] = [];
   const careerHistory = person.records?.["career-history"];
@@ -196,7 +225,7 @@ function extractFromKBRecords(
   for (const [key, record] of Object.entries(careerHistory)) {
     if (!record.organization || !record.title) continue;
 
-    const orgId = resolveOrgId(record.organization, entityMap);
+    const orgId = resolveOrgId(record.organization, entityMap, fuzzy);
     const idInput = `career|${person.thing.stableId}|${orgId}|${record.start || ""}|${record.title}`;
 
     entries.push({
@@ -223,6 +252,7 @@ function extractFromKBRecords(
 function extractFromKBFacts(
   person: KBThing,
   entityMap: Map<string, string>,
+  fuzzy?: FuzzyOrgLookup,
 ): CareerEntry[] {
   const facts = person.facts;
   if (!facts) return [];
@@ -236,7 +266,7 @@ function extractFromKBFacts(
   for (const empFact of employedByFacts) {
     const orgValue =
       typeof empFact.value === "string" ? empFact.value : String(empFact.value);
-    const orgId = resolveOrgId(orgValue, entityMap);
+    const orgId = resolveOrgId(orgValue, entityMap, fuzzy);
 
     // Find matching role fact (same date range)
     const matchingRole = roleFacts.find(
@@ -272,7 +302,7 @@ function extractFromKBFacts(
 
 // ── Extraction from experts.yaml ───────────────────────────────────────
 
-function extractFromExperts(entityMap: Map<string, string>): CareerEntry[] {
+function extractFromExperts(entityMap: Map<string, string>, fuzzy?: FuzzyOrgLookup): CareerEntry[] {
   let experts: ExpertEntry[];
   try {
     const content = readFileSync(EXPERTS_PATH, "utf-8");
@@ -309,7 +339,7 @@ function extractFromExperts(entityMap: Map<string, string>): CareerEntry[] {
     const personStableId = personStableIds.get(expert.id);
     if (!personStableId) continue; // Can't map this expert to a KB entity
 
-    const orgId = resolveOrgId(expert.affiliation, entityMap);
+    const orgId = resolveOrgId(expert.affiliation, entityMap, fuzzy);
     const idInput = `career-expert|${personStableId}|${orgId}|current|${expert.role}`;
 
     entries.push({
@@ -367,6 +397,8 @@ function deduplicateEntries(entries: CareerEntry[]): CareerEntry[] {
 
 export interface ExtractionResult {
   entries: CareerEntry[];
+  /** Org names with plausible but unconfirmed entity matches, for the review queue */
+  reviews: EntityReviewItemInput[];
   stats: {
     fromRecords: number;
     fromFacts: number;
@@ -375,6 +407,8 @@ export interface ExtractionResult {
     totalAfterDedup: number;
     uniquePersons: number;
     uniqueOrgs: number;
+    /** Org display names resolved by the alias-aware resolver */
+    fuzzyResolvedOrgs: number;
   };
 }
 
@@ -384,17 +418,18 @@ export interface ExtractionResult {
  */
 export function extractAllCareers(): ExtractionResult {
   const entityMap = buildEntityMap();
+  const fuzzy: FuzzyOrgLookup = { resolver: createLocalEntityResolver(), unconfirmed: new Map(), resolved: 0 };
   const persons = loadKBPersons();
 
   const fromRecords: CareerEntry[] = [];
   const fromFacts: CareerEntry[] = [];
 
   for (const person of persons) {
-    fromRecords.push(...extractFromKBRecords(person, entityMap));
-    fromFacts.push(...extractFromKBFacts(person, entityMap));
+    fromRecords.push(...extractFromKBRecords(person, entityMap, fuzzy));
+    fromFacts.push(...extractFromKBFacts(person, entityMap, fuzzy));
   }
 
-  const fromExperts = extractFromExperts(entityMap);
+  const fromExperts = extractFromExperts(entityMap, fuzzy);
 
   const allEntries = [...fromRecords, ...fromFacts, ...fromExperts];
   const deduplicated = deduplicateEntries(allEntries);
@@ -404,6 +439,9 @@ export function extractAllCareers(): ExtractionResult {
 
   return {
     entries: deduplicated,
+    reviews: [...fuzzy.unconfirmed].map(([name, matches]) =>
+      toReviewItem({ name, entityType: "organization" }, matches, "career-import"),
+    ),
     stats: {
       fromRecords: fromRecords.length,
       fromFacts: fromFacts.length,
@@ -412,6 +450,7 @@ export function extractAllCareers(): ExtractionResult {
       totalAfterDedup: deduplicated.length,
       uniquePersons,
       uniqueOrgs,
+      fuzzyResolvedOrgs: fuzzy.resolved,
     },
   };
 }
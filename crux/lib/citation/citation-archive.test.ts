@@ -17,6 +17,13 @@ vi.mock('../wiki-server/citations.ts', () => ({
   upsertCitationContent: (...args: unknown[]) => mockUpsertCitationContent(...args),
 }));
 
+// Mock the local source archive so fetches don't write snapshots to .cache/
+const mockArchiveSnapshot = vi.fn();
+vi.mock('./source-archive.ts', () => ({
+  archiveSnapshot: (...args: unknown[]) => mockArchiveSnapshot(...args),
+  tryArchive: (_url: string, archive: () => unknown) => archive(),
+}));
+
 // Mock fs to prevent YAML archive writes during tests
 vi.mock('fs', async () => {
   const actual = await vi.importActual<typeof import('fs')>('fs');
@@ -280,6 +287,24 @@ describe('verifyCitationsForPage — PostgreSQL writes', () => {
     expect(call.fetchedAt).toBeTruthy();
   });
 
+  it('archives the raw HTML response alongside the extracted text', async () => {
+    mockArchiveSnapshot.mockClear();
+    fetchSpy.mockResolvedValue(new Response(SAMPLE_HTML, {
+      status: 200,
+      headers: { 'content-type': 'text/html' },
+    }));
+
+    const body = `Some claim.[^1]\n\n[^1]: [Test Source](https://example.com/test-page)`;
+    await verifyCitationsForPage('test-page', body, { delayMs: 0 });
+
+    expect(mockArchiveSnapshot).toHaveBeenCalledTimes(1);
+    const input = mockArchiveSnapshot.mock.calls[0][0];
+    expect(input.url).toBe('https://example.com/test-page');
+    expect(input.body.toString()).toBe(SAMPLE_HTML);
+    expect(input.text).toContain('Hello world content');
+    expect(input.fetchMethod).toBe('citation-archive');
+  });
+
   it('does NOT call upsertCitationContent for broken URLs (4xx)', async () => {
     fetchSpy.mockResolvedValue(new Response('Not Found', {
       status: 404,
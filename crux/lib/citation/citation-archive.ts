@@ -19,6 +19,7 @@ import path from 'path';
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 import { setCachedContent } from './citation-content-cache.ts';
 import { upsertCitationContent } from '../wiki-server/citations.ts';
+import { archiveSnapshot, tryArchive, type SourceSnapshot } from './source-archive.ts';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -452,11 +453,14 @@ export interface FetchResult {
   fullHtml: string | null;
   fullText: string | null;
   error: string | null;
+  /** Local archive snapshot of the response (HTML responses only) */
+  snapshot?: SourceSnapshot;
 }
 
 /**
  * Fetch a URL and extract metadata for citation verification.
- * Returns page title, content snippet, and HTTP status.
+ * Returns page title, content snippet, and HTTP status. HTML responses are
+ * also stored in the local source archive.
  */
 export async function fetchCitationUrl(url: string): Promise<FetchResult> {
   if (isUnverifiable(url)) {
@@ -537,10 +541,21 @@ export async function fetchCitationUrl(url: string): Promise<FetchResult> {
         };
       }
 
-      const html = await response.text();
+      const body = Buffer.from(await response.arrayBuffer());
+      const html = body.toString('utf-8');
       const title = extractTitle(html);
       const text = extractTextContent(html);
       const snippet = text.slice(0, 500);
+      const snapshot = tryArchive(url, () => archiveSnapshot({
+        url,
+        body,
+        text,
+        httpStatus: status,
+        contentType,
+        headers: response.headers,
+        title,
+        fetchMethod: 'citation-archive',
+      }));
 
       return {
         httpStatus: status,
@@ -551,6 +566,7 @@ export async function fetchCitationUrl(url: string): Promise<FetchResult> {
         fullHtml: html,
         fullText: text,
         error: null,
+        ...(snapshot ? { snapshot } : {}),
       };
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
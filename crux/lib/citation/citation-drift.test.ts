@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { checkQuotesAfterDrift, diffSourceText } from './citation-drift.ts';
+import { sha256 } from './source-archive.ts';
+
+const POLICY_V1 = [
+  'Model Usage Policy',
+  'We do not permit use of our models for election campaigning.',
+  'Researchers may apply for expanded access.',
+].join('\n');
+
+describe('diffSourceText', () => {
+  it('ignores whitespace-only changes', () => {
+    const diff = diffSourceText(POLICY_V1, POLICY_V1.replace(/\n/g, '  \r\n') + '\n\n');
+    expect(diff.changed).toBe(false);
+    expect(diff.addedLines).toBe(0);
+    expect(diff.removedLines).toBe(0);
+  });
+
+  it('counts added and removed lines', () => {
+    const current = POLICY_V1.replace(
+      'We do not permit use of our models for election campaigning.',
+      'Political campaigning is allowed with disclosure.',
+    ) + '\nEffective March 2025.';
+    const diff = diffSourceText(POLICY_V1, current);
+    expect(diff).toMatchObject({
+      changed: true,
+      previousHash: sha256(POLICY_V1),
+      currentHash: sha256(current),
+      previousLength: POLICY_V1.length,
+      addedLines: 2,
+      removedLines: 1,
+    });
+  });
+});
+
+describe('checkQuotesAfterDrift', () => {
+  it('flags previously verified quotes that are gone from the new text', () => {
+    const current = 'Model Usage Policy\nPolitical campaigning is allowed with disclosure.\nResearchers may apply for expanded access.';
+    const results = checkQuotesAfterDrift(
+      [
+        { pageId: 'ai-policy', footnote: 1, sourceQuote: 'We do not permit use of our models for election campaigning', quoteVerified: true },
+        { pageId: 'ai-policy', footnote: 2, sourceQuote: 'Researchers may apply for expanded access', quoteVerified: true },
+        { pageId: 'elections', footnote: 4, sourceQuote: 'models may never be used for lobbying', quoteVerified: false },
+      ],
+      current,
+    );
+    expect(results.map((r) => [r.pageId, r.footnote, r.quoteFound, r.newlyBroken])).toEqual([
+      ['ai-policy', 1, false, true],
+      ['ai-policy', 2, true, false],
+      ['elections', 4, false, false],
+    ]);
+  });
+});
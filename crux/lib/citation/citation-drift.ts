@@ -0,0 +1,94 @@
+/**
+ * Citation drift — detect when a cited source's text changes after its quotes
+ * were stored.
+ *
+ * citation_content (PG) keeps the last fetched text per URL. A drift check
+ * re-fetches the URL, compares the new text with the stored version, and
+ * re-runs quote verification on every quote citing that URL. Quotes that are
+ * no longer found are marked unverified with SOURCE_CHANGED_METHOD and a
+ * drift event is recorded for the page (see `crux citations drift`).
+ */
+
+import { verifyQuoteInSource } from '../quote-verifier.ts';
+import { sha256 } from './source-archive.ts';
+
+/** verificationMethod written to citation_quotes when drift removes a quote from its source. */
+export const SOURCE_CHANGED_METHOD = 'source-changed';
+
+export interface SourceTextDiff {
+  changed: boolean;
+  previousHash: string;
+  currentHash: string;
+  previousLength: number;
+  currentLength: number;
+  /** Non-empty lines present only in the current text */
+  addedLines: number;
+  /** Non-empty lines present only in the stored text */
+  removedLines: number;
+}
+
+export interface DriftQuote {
+  pageId: string;
+  footnote: number;
+  sourceQuote: string;
+  quoteVerified: boolean;
+}
+
+export interface DriftQuoteResult {
+  pageId: string;
+  footnote: number;
+  quoteFound: boolean;
+  score: number;
+  /** Was verified before the check and is no longer found */
+  newlyBroken: boolean;
+}
+
+function lineCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (line) counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Lines in `a` not matched by a line in `b` (multiset difference). */
+function unmatchedLines(a: Map<string, number>, b: Map<string, number>): number {
+  let n = 0;
+  for (const [line, count] of a) n += Math.max(0, count - (b.get(line) ?? 0));
+  return n;
+}
+
+/**
+ * Compare stored and re-fetched source text. Whitespace-only changes (line
+ * endings, trailing spaces) do not count as drift.
+ */
+export function diffSourceText(previous: string, current: string): SourceTextDiff {
+  const before = lineCounts(previous);
+  const after = lineCounts(current);
+  const addedLines = unmatchedLines(after, before);
+  const removedLines = unmatchedLines(before, after);
+  return {
+    changed: addedLines > 0 || removedLines > 0,
+    previousHash: sha256(previous),
+    currentHash: sha256(current),
+    previousLength: previous.length,
+    currentLength: current.length,
+    addedLines,
+    removedLines,
+  };
+}
+
+/** Re-run quote verification for every quote citing a changed source. */
+export function checkQuotesAfterDrift(quotes: DriftQuote[], currentText: string): DriftQuoteResult[] {
+  return quotes.map((q) => {
+    const verification = verifyQuoteInSource(q.sourceQuote, currentText);
+    return {
+      pageId: q.pageId,
+      footnote: q.footnote,
+      quoteFound: verification.verified,
+      score: verification.score,
+      newlyBroken: q.quoteVerified && !verification.verified,
+    };
+  });
+}
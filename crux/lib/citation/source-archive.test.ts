@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  archiveSnapshot,
+  archiveText,
+  findSnapshot,
+  getLatestSnapshot,
+  getQuoteSnapshot,
+  listSnapshots,
+  readArchivedText,
+  readSnapshotBody,
+  recordQuoteSnapshot,
+  sha256,
+} from './source-archive.ts';
+import { verifyQuoteInSnapshot } from '../quote-verifier.ts';
+
+const URL = 'https://example.com/report';
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'source-archive-'));
+  process.env.SOURCE_ARCHIVE_DIR = dir;
+});
+
+afterEach(() => {
+  delete process.env.SOURCE_ARCHIVE_DIR;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function fetchResult(html: string, text: string) {
+  return {
+    url: URL,
+    body: Buffer.from(html),
+    text,
+    httpStatus: 200,
+    contentType: 'text/html; charset=utf-8',
+    headers: new Headers({ 'Content-Type': 'text/html', 'Set-Cookie': 'session=abc', ETag: '"v1"' }),
+    title: 'Report',
+    fetchMethod: 'built-in',
+  };
+}
+
+describe('archiveSnapshot', () => {
+  it('stores raw bytes and text by content hash', () => {
+    const snap = archiveSnapshot(fetchResult('<p>Funding rose to $10M.</p>', 'Funding rose to $10M.'));
+    expect(snap.sha256).toBe(sha256('<p>Funding rose to $10M.</p>'));
+    expect(snap.textSha256).toBe(sha256('Funding rose to $10M.'));
+    expect(snap.headers).toEqual({ 'content-type': 'text/html', etag: '"v1"' });
+    expect(readSnapshotBody(snap)?.toString()).toBe('<p>Funding rose to $10M.</p>');
+    expect(readArchivedText(snap.textSha256)).toBe('Funding rose to $10M.');
+  });
+
+  it('records a new version only when the content changes', () => {
+    const first = archiveSnapshot(fetchResult('<p>v1</p>', 'v1'));
+    expect(archiveSnapshot(fetchResult('<p>v1</p>', 'v1'))).toEqual(first);
+    archiveSnapshot(fetchResult('<p>v2</p>', 'v2'));
+    expect(listSnapshots(URL).map((s) => s.textLength)).toEqual([2, 2]);
+    expect(getLatestSnapshot(URL)?.textSha256).toBe(sha256('v2'));
+    expect(findSnapshot(URL, first.textSha256.slice(0, 8))).toEqual(first);
+    expect(findSnapshot(URL, first.sha256.slice(0, 4))).toBeNull();
+  });
+
+  it('reuses a fetched snapshot when the same text arrives from a cache', () => {
+    const fetched = archiveSnapshot(fetchResult('<p>same</p>', 'same'));
+    expect(archiveText({ url: URL, text: 'same', fetchMethod: 'pg-cache' })).toEqual(fetched);
+    const cached = archiveText({ url: URL, text: 'other', fetchMethod: 'pg-cache', httpStatus: null });
+    expect(cached).toMatchObject({ fetchMethod: 'pg-cache', httpStatus: 200, sha256: sha256('other') });
+  });
+});
+
+describe('quote snapshots', () => {
+  it('verifies a quote against the snapshot it came from after the source changes', () => {
+    const original = archiveSnapshot(fetchResult('<p>old</p>', 'The lab raised $10M in its seed round.'));
+    recordQuoteSnapshot('example-page', 3, original);
+    archiveSnapshot(fetchResult('<p>new</p>', 'This page has moved.'));
+
+    const ref = getQuoteSnapshot('example-page', 3);
+    expect(ref).toMatchObject({ url: URL, textSha256: original.textSha256 });
+    expect(verifyQuoteInSnapshot('raised $10M in its seed round', ref!.textSha256)).toMatchObject({
+      verified: true,
+      method: 'exact',
+    });
+    expect(getQuoteSnapshot('example-page', 4)).toBeNull();
+    expect(verifyQuoteInSnapshot('anything', sha256('never archived'))).toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Content-addressed local archive of fetched sources.
+ *
+ * Every successful fetch is kept on disk so a quote can be re-checked against
+ * the exact bytes it was extracted from, even after the source changes or
+ * disappears. PG (wiki-server) keeps only the latest text per URL; this keeps
+ * every distinct version.
+ *
+ * Layout under .cache/source-archive/ (override with SOURCE_ARCHIVE_DIR):
+ *   objects/ab/<sha256>          raw response bytes and extracted text, deduplicated
+ *   urls/cd/<sha256(url)>.jsonl  one SourceSnapshot per line, oldest first
+ *   quotes/<pageId>.json         footnote → snapshot each stored quote was extracted from
+ *
+ * A fetch that yields the same raw bytes and text as the URL's latest snapshot
+ * is not recorded again. Writes are best-effort: callers should never fail a
+ * fetch because the archive is unavailable.
+ */
+
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { SOURCE_ARCHIVE_DIR } from '../cache-paths.ts';
+
+/** Response headers not worth keeping (per-client or per-request noise). */
+const DROPPED_HEADERS = new Set(['set-cookie', 'cf-ray', 'x-request-id', 'report-to', 'nel']);
+
+export interface SourceSnapshot {
+  url: string;
+  fetchedAt: string;
+  /** SHA-256 of the raw response body */
+  sha256: string;
+  /** SHA-256 of the extracted text — what quotes are verified against */
+  textSha256: string;
+  httpStatus: number;
+  contentType: string | null;
+  headers: Record<string, string>;
+  title: string | null;
+  /** e.g. 'built-in', 'firecrawl', 'youtube-transcript', 'citation-archive', 'pg-cache' */
+  fetchMethod: string;
+  byteLength: number;
+  textLength: number;
+}
+
+export interface ArchiveInput {
+  url: string;
+  /** Raw response body. Text-only sources (Firecrawl markdown, transcripts) pass the text. */
+  body: Buffer | string;
+  text: string;
+  httpStatus: number;
+  contentType?: string | null;
+  headers?: Headers | Record<string, string>;
+  title?: string | null;
+  fetchMethod: string;
+  fetchedAt?: string;
+}
+
+export interface QuoteSnapshotRef {
+  url: string;
+  textSha256: string;
+  sha256: string;
+  fetchedAt: string;
+  extractedAt: string;
+}
+
+export function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function archiveDir(): string {
+  return process.env.SOURCE_ARCHIVE_DIR || SOURCE_ARCHIVE_DIR;
+}
+
+function objectPath(hash: string): string {
+  return join(archiveDir(), 'objects', hash.slice(0, 2), hash);
+}
+
+function urlLogPath(url: string): string {
+  const key = sha256(url);
+  return join(archiveDir(), 'urls', key.slice(0, 2), `${key}.jsonl`);
+}
+
+function quotesPath(pageId: string): string {
+  return join(archiveDir(), 'quotes', `${pageId}.json`);
+}
+
+function writeObject(hash: string, data: Buffer | string): void {
+  const path = objectPath(hash);
+  if (existsSync(path)) return;
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, data);
+}
+
+function normalizeHeaders(headers: ArchiveInput['headers']): Record<string, string> {
+  const entries = headers instanceof Headers ? [...headers.entries()] : Object.entries(headers ?? {});
+  const result: Record<string, string> = {};
+  for (const [name, value] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+    const key = name.toLowerCase();
+    if (!DROPPED_HEADERS.has(key)) result[key] = value;
+  }
+  return result;
+}
+
+/** All snapshots of a URL, oldest first. */
+export function listSnapshots(url: string): SourceSnapshot[] {
+  const path = urlLogPath(url);
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as SourceSnapshot);
+}
+
+export function getLatestSnapshot(url: string): SourceSnapshot | null {
+  const snapshots = listSnapshots(url);
+  return snapshots[snapshots.length - 1] ?? null;
+}
+
+/**
+ * Find a snapshot of a URL by raw or text hash. Accepts a unique prefix
+ * (at least 8 characters), as printed by the CLI.
+ */
+export function findSnapshot(url: string, hash: string): SourceSnapshot | null {
+  if (hash.length < 8) return null;
+  const matches = listSnapshots(url).filter(
+    (s) => s.sha256.startsWith(hash) || s.textSha256.startsWith(hash),
+  );
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+}
+
+/**
+ * Store a fetch result. Returns the new snapshot, or the latest existing one
+ * when the content is unchanged since the last fetch.
+ */
+export function archiveSnapshot(input: ArchiveInput): SourceSnapshot {
+  const body = typeof input.body === 'string' ? Buffer.from(input.body, 'utf-8') : input.body;
+  const bodyHash = sha256(body);
+  const textHash = sha256(input.text);
+
+  const latest = getLatestSnapshot(input.url);
+  if (latest && latest.sha256 === bodyHash && latest.textSha256 === textHash) return latest;
+
+  writeObject(bodyHash, body);
+  writeObject(textHash, input.text);
+
+  const snapshot: SourceSnapshot = {
+    url: input.url,
+    fetchedAt: input.fetchedAt ?? new Date().toISOString(),
+    sha256: bodyHash,
+    textSha256: textHash,
+    httpStatus: input.httpStatus,
+    contentType: input.contentType ?? null,
+    headers: normalizeHeaders(input.headers),
+    title: input.title || null,
+    fetchMethod: input.fetchMethod,
+    byteLength: body.length,
+    textLength: input.text.length,
+  };
+  const logPath = urlLogPath(input.url);
+  mkdirSync(dirname(logPath), { recursive: true });
+  appendFileSync(logPath, JSON.stringify(snapshot) + '\n');
+  return snapshot;
+}
+
+/**
+ * Store text that arrived without its raw response (e.g. from the PG cache).
+ * Reuses any existing snapshot of the URL with identical text, so text that
+ * was archived from a real fetch keeps pointing at its raw bytes.
+ */
+export function archiveText(
+  input: Omit<ArchiveInput, 'body' | 'httpStatus'> & { httpStatus?: number | null },
+): SourceSnapshot {
+  const textHash = sha256(input.text);
+  const existing = listSnapshots(input.url).filter((s) => s.textSha256 === textHash);
+  if (existing.length > 0) return existing[existing.length - 1];
+  return archiveSnapshot({ ...input, body: input.text, httpStatus: input.httpStatus ?? 200 });
+}
+
+/**
+ * Best-effort wrapper for fetch paths: logs and returns null on I/O errors
+ * instead of throwing.
+ */
+export function tryArchive(url: string, archive: () => SourceSnapshot): SourceSnapshot | null {
+  try {
+    return archive();
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.warn(`[source-archive] failed to archive ${url}: ${msg}`);
+    return null;
+  }
+}
+
+/** Raw bytes of a snapshot, or null if the object is missing. */
+export function readSnapshotBody(snapshot: Pick<SourceSnapshot, 'sha256'>): Buffer | null {
+  const path = objectPath(snapshot.sha256);
+  return existsSync(path) ? readFileSync(path) : null;
+}
+
+/** Extracted text by its hash, or null if the object is missing. */
+export function readArchivedText(textSha256: string): string | null {
+  const path = objectPath(textSha256);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+// ---------------------------------------------------------------------------
+// Quote provenance
+// ---------------------------------------------------------------------------
+
+export function getQuoteSnapshots(pageId: string): Record<string, QuoteSnapshotRef> {
+  const path = quotesPath(pageId);
+  if (!existsSync(path)) return {};
+  return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, QuoteSnapshotRef>;
+}
+
+/** The snapshot a page's footnote quote was extracted from, if recorded. */
+export function getQuoteSnapshot(pageId: string, footnote: number): QuoteSnapshotRef | null {
+  return getQuoteSnapshots(pageId)[String(footnote)] ?? null;
+}
+
+/** Record which snapshot a quote was extracted from. Best-effort. */
+export function recordQuoteSnapshot(pageId: string, footnote: number, snapshot: SourceSnapshot): void {
+  try {
+    const refs = getQuoteSnapshots(pageId);
+    refs[String(footnote)] = {
+      url: snapshot.url,
+      textSha256: snapshot.textSha256,
+      sha256: snapshot.sha256,
+      fetchedAt: snapshot.fetchedAt,
+      extractedAt: new Date().toISOString(),
+    };
+    const sorted = Object.fromEntries(
+      Object.entries(refs).sort(([a], [b]) => Number(a) - Number(b)),
+    );
+    const path = quotesPath(pageId);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(sorted, null, 2) + '\n');
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.warn(`[source-archive] failed to record quote snapshot for ${pageId}[^${footnote}]: ${msg}`);
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createEntityResolver } from '../../apps/wiki-server/src/entity-matching.ts';
+import { addEntityAlias, loadResolverCandidates, resolveName, toReviewItem } from './entity-resolution.ts';
+
+const THING = `thing:
+  id: epoch-ai
+  stableId: epochStabl
+  type: organization
+  name: Epoch AI # research org
+  previousSlugs:
+    - epoch
+`;
+
+const ENTITIES = `- id: epoch-ai
+  title: Epoch AI
+  aliases:
+    - Epoch
+- id: helen-toner
+  stableId: helenStabl
+  type: person
+  title: Helen Toner
+  affiliation: cset
+`;
+
+describe('entity-resolution', () => {
+  let dataDir: string;
+  let thingsDir: string;
+  let entitiesDir: string;
+
+  beforeEach(() => {
+    dataDir = join(tmpdir(), `entity-resolution-test-${Date.now()}`);
+    thingsDir = join(dataDir, 'things');
+    entitiesDir = join(dataDir, 'entities');
+    mkdirSync(thingsDir, { recursive: true });
+    mkdirSync(entitiesDir, { recursive: true });
+    writeFileSync(join(thingsDir, 'epoch-ai.yaml'), THING);
+    writeFileSync(join(entitiesDir, 'misc.yaml'), ENTITIES);
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('loadResolverCandidates', () => {
+    it('merges KB things and entity YAML on slug', () => {
+      const candidates = loadResolverCandidates({ thingsDir, entitiesDir });
+      expect(candidates).toHaveLength(2);
+      expect(candidates.find((c) => c.slug === 'epoch-ai')).toMatchObject({
+        stableId: 'epochStabl',
+        aliases: ['Epoch'],
+        previousSlugs: ['epoch'],
+      });
+      expect(candidates.find((c) => c.slug === 'helen-toner')).toMatchObject({
+        stableId: 'helenStabl',
+        entityType: 'person',
+        parents: ['cset'],
+      });
+    });
+  });
+
+  describe('resolveName / toReviewItem', () => {
+    const resolver = () => createEntityResolver(loadResolverCandidates({ thingsDir, entitiesDir }));
+
+    it('returns confident matches and flags plausible ones', () => {
+      expect(resolveName(resolver(), { name: 'Epoch AI, Inc.' }).match?.slug).toBe('epoch-ai');
+
+      const fuzzy = resolveName(resolver(), { name: 'Epoch AI Research' });
+      expect(fuzzy.match).toBeNull();
+      expect(fuzzy.review).toBe(true);
+      expect(toReviewItem({ name: 'Epoch AI Research' }, fuzzy.matches, 'grants:sff')).toMatchObject({
+        rawName: 'Epoch AI Research',
+        source: 'grants:sff',
+        candidates: [{ slug: 'epoch-ai' }],
+      });
+    });
+  });
+
+  describe('addEntityAlias', () => {
+    it('appends to a KB thing, preserving comments', () => {
+      const file = addEntityAlias('epochStabl', 'Epoch Research', { dataDir, entitiesDir });
+      expect(file).toBe(join(thingsDir, 'epoch-ai.yaml'));
+      const content = readFileSync(file!, 'utf-8');
+      expect(content).toContain('# research org');
+      expect(content).toMatch(/aliases:\n\s+- Epoch Research/);
+    });
+
+    it('falls back to the data/entities entry', () => {
+      const file = addEntityAlias('helen-toner', 'H. Toner', { dataDir, entitiesDir });
+      expect(file).toBe(join(entitiesDir, 'misc.yaml'));
+      expect(readFileSync(file!, 'utf-8')).toMatch(/affiliation: cset\n\s+aliases:\n\s+- H. Toner/);
+    });
+
+    it('skips names that already normalize to the name or an alias', () => {
+      expect(addEntityAlias('epoch-ai', 'Epoch AI Inc.', { dataDir, entitiesDir })).toBeNull();
+      addEntityAlias('helen-toner', 'H. Toner', { dataDir, entitiesDir });
+      expect(addEntityAlias('helen-toner', 'h toner', { dataDir, entitiesDir })).toBeNull();
+    });
+
+    it('throws for an unknown entity', () => {
+      expect(() => addEntityAlias('nobody', 'Nobody', { dataDir, entitiesDir })).toThrow(/not found/);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Entity resolution for importers.
+ *
+ * Wraps the shared alias-aware resolver (apps/wiki-server/src/entity-matching.ts)
+ * with candidates loaded from the YAML sources — KB things and data/entities —
+ * so grant, key-person and career imports resolve names the same way the
+ * wiki-server's /api/entity-resolution/resolve endpoint does, without needing
+ * the server or a build.
+ *
+ * Names that resolve with low confidence are collected as review items and
+ * submitted to the server's review queue; accepting a review
+ * (`crux entity review`) writes the name back into the entity's `aliases`.
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml, parseDocument, isMap, isSeq, YAMLMap, YAMLSeq } from 'yaml';
+import { PROJECT_ROOT } from './content-types.ts';
+import { CUSTOM_TAGS } from '../../packages/factbase/src/loader.ts';
+import { FACTBASE_DATA_DIR } from './factbase-loader.ts';
+import { findEntityFilePath, readEntityDocument, writeEntityDocument } from './factbase-writer.ts';
+import { enqueueEntityReviews, type EntityReviewItemInput } from './wiki-server/entity-resolution.ts';
+import {
+  createEntityResolver,
+  isConfidentMatch,
+  needsReview,
+  normalizeEntityName,
+  type EntityResolver,
+  type ResolverCandidate,
+  type ResolveQuery,
+  type ResolvedMatch,
+} from '../../apps/wiki-server/src/entity-matching.ts';
+
+export {
+  isConfidentMatch,
+  needsReview,
+  type EntityResolver,
+  type ResolveQuery,
+  type ResolvedMatch,
+};
+
+const KB_THINGS_DIR = join(FACTBASE_DATA_DIR, 'things');
+const ENTITIES_DIR = join(PROJECT_ROOT, 'data', 'entities');
+
+/** Entity YAML fields that name a parent, in priority order. */
+const PARENT_FIELDS = ['parentOrg', 'developer', 'affiliation'] as const;
+
+// ---------------------------------------------------------------------------
+// Candidates
+// ---------------------------------------------------------------------------
+
+interface ThingIdentity {
+  id?: string;
+  stableId?: string;
+  type?: string;
+  name?: string;
+  numericId?: string;
+  aliases?: string[];
+  previousSlugs?: string[];
+  parent?: unknown;
+}
+
+interface EntityYamlEntry {
+  id?: string;
+  stableId?: string;
+  numericId?: string;
+  type?: string;
+  title?: string;
+  aliases?: string[];
+  [key: string]: unknown;
+}
+
+function refToString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  // !ref tags parse to a marker carrying the target's stableId
+  if (value && typeof value === 'object' && 'stableId' in value) {
+    return String((value as { stableId: unknown }).stableId);
+  }
+  return undefined;
+}
+
+function listYamlFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir).filter((f) => f.endsWith('.yaml'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load resolver candidates from KB things and data/entities YAML. An entity
+ * present in both is one candidate with the union of their aliases.
+ */
+export function loadResolverCandidates(
+  dirs: { thingsDir?: string; entitiesDir?: string } = {},
+): ResolverCandidate[] {
+  const { thingsDir = KB_THINGS_DIR, entitiesDir = ENTITIES_DIR } = dirs;
+  const bySlug = new Map<string, ResolverCandidate>();
+
+  for (const file of listYamlFiles(thingsDir)) {
+    try {
+      const parsed = parseYaml(readFileSync(join(thingsDir, file), 'utf-8'), { customTags: CUSTOM_TAGS }) as {
+        thing?: ThingIdentity;
+      } | null;
+      const thing = parsed?.thing;
+      if (!thing?.id || !thing.stableId || !thing.name) continue;
+      const parent = refToString(thing.parent);
+      bySlug.set(thing.id, {
+        stableId: thing.stableId,
+        slug: thing.id,
+        name: thing.name,
+        entityType: thing.type ?? '',
+        numericId: thing.numericId ?? null,
+        aliases: thing.aliases ?? [],
+        previousSlugs: thing.previousSlugs ?? [],
+        parents: parent ? [parent] : [],
+      });
+    } catch {
+      // Skip unparseable files
+    }
+  }
+
+  for (const file of listYamlFiles(entitiesDir)) {
+    let entries: EntityYamlEntry[];
+    try {
+      const parsed = parseYaml(readFileSync(join(entitiesDir, file), 'utf-8'));
+      if (!Array.isArray(parsed)) continue;
+      entries = parsed;
+    } catch {
+      continue;
+    }
+    for (const e of entries) {
+      if (!e?.id || !e.title) continue;
+      const parents = PARENT_FIELDS.flatMap((f) => (typeof e[f] === 'string' ? [e[f] as string] : []));
+      const existing = bySlug.get(e.id);
+      if (existing) {
+        existing.aliases = [...new Set([...(existing.aliases ?? []), ...(e.aliases ?? [])])];
+        existing.parents = [...new Set([...(existing.parents ?? []), ...parents])];
+        continue;
+      }
+      bySlug.set(e.id, {
+        stableId: e.stableId ?? e.id,
+        slug: e.id,
+        name: e.title,
+        entityType: e.type ?? '',
+        numericId: e.numericId ?? null,
+        aliases: e.aliases ?? [],
+        parents,
+      });
+    }
+  }
+
+  return [...bySlug.values()];
+}
+
+/** Build a resolver over every entity in the YAML sources. */
+export function createLocalEntityResolver(): EntityResolver {
+  return createEntityResolver(loadResolverCandidates());
+}
+
+// ---------------------------------------------------------------------------
+// Resolution with review
+// ---------------------------------------------------------------------------
+
+export interface NameResolution {
+  /** The confident match, or null */
+  match: ResolvedMatch | null;
+  /** Ranked candidates (best first) */
+  matches: ResolvedMatch[];
+  /** A plausible but unconfirmed match — worth a reviewer's look */
+  review: boolean;
+}
+
+/** Resolve one name: a confident match is returned, a plausible one flagged for review. */
+export function resolveName(resolver: EntityResolver, query: ResolveQuery): NameResolution {
+  const matches = resolver.resolve(query);
+  const confident = isConfidentMatch(matches);
+  return {
+    match: confident ? matches[0] : null,
+    matches,
+    review: needsReview(matches),
+  };
+}
+
+/** Build a review-queue item for a name that needs review. */
+export function toReviewItem(
+  query: ResolveQuery,
+  matches: ResolvedMatch[],
+  source: string,
+): EntityReviewItemInput {
+  return {
+    rawName: query.name,
+    ...(query.entityType && { entityType: query.entityType }),
+    ...(query.parent && { parent: query.parent }),
+    source,
+    candidates: matches,
+  };
+}
+
+const REVIEW_BATCH_SIZE = 500;
+
+/**
+ * Submit review items to the wiki-server queue. Never throws — a server that
+ * is down or unconfigured just means the reviews are reported as not queued.
+ */
+export async function submitReviewItems(
+  items: EntityReviewItemInput[],
+): Promise<{ queued: number; error?: string }> {
+  let queued = 0;
+  for (let i = 0; i < items.length; i += REVIEW_BATCH_SIZE) {
+    const result = await enqueueEntityReviews(items.slice(i, i + REVIEW_BATCH_SIZE));
+    if (!result.ok) return { queued, error: result.message };
+    queued += result.data.upserted;
+  }
+  return { queued };
+}
+
+// ---------------------------------------------------------------------------
+// Alias write-back
+// ---------------------------------------------------------------------------
+
+function hasName(existing: unknown[], alias: string): boolean {
+  const target = normalizeEntityName(alias);
+  return existing.some((v) => typeof v === 'string' && normalizeEntityName(v) === target);
+}
+
+/** Append `alias` to the `aliases` seq of a YAML map node. Returns false if already known. */
+function appendAlias(node: YAMLMap, alias: string, nameKey: string): boolean {
+  const name = node.get(nameKey);
+  const current = node.get('aliases');
+  const known = [typeof name === 'string' ? name : '', ...(isSeq(current) ? current.toJSON() : [])];
+  if (hasName(known, alias)) return false;
+
+  if (isSeq(current)) {
+    (current as YAMLSeq).add(alias);
+  } else {
+    node.set('aliases', [alias]);
+  }
+  return true;
+}
+
+function findThingFileByStableId(stableId: string, thingsDir: string): string | null {
+  for (const file of listYamlFiles(thingsDir)) {
+    const content = readFileSync(join(thingsDir, file), 'utf-8');
+    if (new RegExp(`^\\s+stableId:\\s*["']?${stableId}["']?\\s*$`, 'm').test(content)) {
+      return join(thingsDir, file);
+    }
+  }
+  return null;
+}
+
+/**
+ * Record `alias` as an alternative name of an entity (slug or stableId).
+ * Writes to the KB thing file when there is one, otherwise to the entity's
+ * entry in data/entities. Comments and formatting are preserved.
+ *
+ * @returns the file written, or null if the alias was already known
+ * @throws if the entity cannot be found in either source
+ */
+export function addEntityAlias(
+  entityId: string,
+  alias: string,
+  dirs: { dataDir?: string; entitiesDir?: string } = {},
+): string | null {
+  const { dataDir = FACTBASE_DATA_DIR, entitiesDir = ENTITIES_DIR } = dirs;
+  const thingsDir = join(dataDir, 'things');
+
+  const thingFile = findEntityFilePath(entityId, dataDir) ?? findThingFileByStableId(entityId, thingsDir);
+  if (thingFile) {
+    const doc = readEntityDocument(thingFile);
+    const thing = doc.get('thing');
+    if (!isMap(thing)) throw new Error(`${thingFile} has no thing: block`);
+    if (!appendAlias(thing, alias, 'name')) return null;
+    writeEntityDocument(thingFile, doc);
+    return thingFile;
+  }
+
+  for (const file of listYamlFiles(entitiesDir)) {
+    const path = join(entitiesDir, file);
+    const doc = parseDocument(readFileSync(path, 'utf-8'));
+    if (!isSeq(doc.contents)) continue;
+    const entry = doc.contents.items.find(
+      (item) => isMap(item) && [item.get('id'), item.get('stableId')].some((v) => String(v) === entityId),
+    );
+    if (!entry || !isMap(entry)) continue;
+    if (!appendAlias(entry, alias, 'title')) return null;
+    writeEntityDocument(path, doc);
+    return path;
+  }
+
+  throw new Error(`Entity not found in KB things or data/entities: ${entityId}`);
+}
+
+/** Whether the YAML sources are present (they are missing in some CI sandboxes). */
+export function hasEntitySources(): boolean {
+  return existsSync(KB_THINGS_DIR) || existsSync(ENTITIES_DIR);
+}
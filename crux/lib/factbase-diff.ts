@@ -0,0 +1,189 @@
+/**
+ * Factbase diff helpers for the CLI and CI.
+ *
+ * Loads the factbase as it was at a git ref (by extracting
+ * packages/factbase/data/ with `git archive`) and renders `diffKB` results
+ * as terminal text or Markdown for PR bodies.
+ *
+ * Used by `crux factbase diff` and the auto-update PR body builder.
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PROJECT_ROOT } from './content-types.ts';
+import { gitSafe } from './git.ts';
+import { FACTBASE_DATA_DIR } from './factbase-loader.ts';
+import { loadKB } from '../../packages/factbase/src/loader.ts';
+import type { LoadResult } from '../../packages/factbase/src/loader.ts';
+import { diffKB, isEmptyDiff } from '../../packages/factbase/src/diff.ts';
+import type { KBDiff, FactChange, FieldChange } from '../../packages/factbase/src/diff.ts';
+import { formatFactValue } from '../../packages/factbase/src/format.ts';
+import type { Graph } from '../../packages/factbase/src/graph.ts';
+import type { Fact } from '../../packages/factbase/src/types.ts';
+
+/** Repo-relative path of the factbase data directory. */
+const FACTBASE_DATA_PATH = 'packages/factbase/data';
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Load the factbase as of a git ref (branch, tag, or commit).
+ * Throws if the ref does not resolve to a commit.
+ */
+export async function loadKBAtRef(ref: string): Promise<LoadResult> {
+  const resolved = gitSafe('rev-parse', '--verify', '--quiet', `${ref}^{commit}`);
+  if (!resolved.ok) {
+    throw new Error(`Unknown git ref "${ref}"`);
+  }
+
+  const tmp = mkdtempSync(join(tmpdir(), 'factbase-diff-'));
+  try {
+    const archive = execFileSync('git', ['archive', '--format=tar', resolved.output, '--', FACTBASE_DATA_PATH], {
+      cwd: PROJECT_ROOT,
+      maxBuffer: 200 * 1024 * 1024,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    execFileSync('tar', ['-x', '-C', tmp], { input: archive, stdio: ['pipe', 'pipe', 'pipe'] });
+    return await loadKB(join(tmp, FACTBASE_DATA_PATH));
+  } finally {
+    rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Diff the factbase at `baseRef` against `headRef`, or against the working
+ * tree when `headRef` is omitted.
+ */
+export async function diffKBAgainstRef(
+  baseRef: string,
+  headRef?: string,
+): Promise<{ diff: KBDiff; before: LoadResult; after: LoadResult }> {
+  const before = await loadKBAtRef(baseRef);
+  const after = headRef ? await loadKBAtRef(headRef) : await loadKB(FACTBASE_DATA_DIR);
+  return { diff: diffKB(before, after), before, after };
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+function entityName(entityId: string, ...graphs: Graph[]): string {
+  for (const graph of graphs) {
+    const entity = graph.getEntity(entityId);
+    if (entity) return entity.name;
+  }
+  return entityId;
+}
+
+/** "Anthropic · revenue (2025-06)" */
+function factLabel(fact: Fact, ...graphs: Graph[]): string {
+  const asOf = fact.asOf ? ` (${fact.asOf})` : '';
+  return `${entityName(fact.subjectId, ...graphs)} · ${fact.propertyId}${asOf}`;
+}
+
+function factValue(fact: Fact, graph: Graph): string {
+  return formatFactValue(fact, graph.getProperty(fact.propertyId), graph);
+}
+
+function formatDelta(change: FactChange, graph: Graph): string {
+  if (change.delta === undefined) return '';
+  const sign = change.delta > 0 ? '+' : '-';
+  const magnitude = formatFactValue(
+    { ...change.after, value: { type: 'number', value: Math.abs(change.delta) } },
+    graph.getProperty(change.after.propertyId),
+    graph,
+  );
+  return ` (${sign}${magnitude})`;
+}
+
+function describeFieldChanges(changes: FieldChange[], skip: string[] = []): string {
+  return changes
+    .filter((c) => !skip.includes(c.field))
+    .map((c) => c.field)
+    .join(', ');
+}
+
+function describeFactChange(change: FactChange, before: Graph, after: Graph): string {
+  const parts: string[] = [];
+  if (change.changes.some((c) => c.field === 'value')) {
+    parts.push(`${factValue(change.before, before)} → ${factValue(change.after, after)}${formatDelta(change, after)}`);
+  }
+  if (change.sourceChanged) parts.push('source changed');
+  const other = describeFieldChanges(change.changes, ['value', 'source', 'sourceResource', 'sourceQuote']);
+  if (other) parts.push(`${other} changed`);
+  return `${factLabel(change.after, after)}: ${parts.join('; ')}`;
+}
+
+/** Render every change as one line per item, grouped by section. */
+function describeDiff(diff: KBDiff, before: Graph, after: Graph): Array<{ heading: string; lines: string[] }> {
+  const { entities, facts, records } = diff;
+  return [
+    { heading: 'Added entities', lines: entities.added.map((e) => `${e.name} (${e.type}, ${e.id})`) },
+    { heading: 'Removed entities', lines: entities.removed.map((e) => `${e.name} (${e.type}, ${e.id})`) },
+    {
+      heading: 'Changed entities',
+      lines: entities.changed.map((c) => `${c.after.name} (${c.id}): ${describeFieldChanges(c.changes)} changed`),
+    },
+    { heading: 'Added facts', lines: facts.added.map((f) => `${factLabel(f, after)}: ${factValue(f, after)}`) },
+    { heading: 'Removed facts', lines: facts.removed.map((f) => `${factLabel(f, before)}: ${factValue(f, before)}`) },
+    { heading: 'Changed facts', lines: facts.changed.map((c) => describeFactChange(c, before, after)) },
+    {
+      heading: 'Added records',
+      lines: records.added.map((r) => `${entityName(r.entry.ownerEntityId, after)} · ${r.collection}/${r.entry.key}`),
+    },
+    {
+      heading: 'Removed records',
+      lines: records.removed.map((r) => `${entityName(r.entry.ownerEntityId, before)} · ${r.collection}/${r.entry.key}`),
+    },
+    {
+      heading: 'Changed records',
+      lines: records.changed.map(
+        (c) => `${entityName(c.after.ownerEntityId, after)} · ${c.collection}/${c.after.key}: ${describeFieldChanges(c.changes)} changed`,
+      ),
+    },
+  ].filter((section) => section.lines.length > 0);
+}
+
+function countLine(diff: KBDiff): string {
+  const part = (label: string, s: { added: unknown[]; removed: unknown[]; changed: unknown[] }) =>
+    `${label}: +${s.added.length} −${s.removed.length} ~${s.changed.length}`;
+  return [part('entities', diff.entities), part('facts', diff.facts), part('records', diff.records)].join(' · ');
+}
+
+/**
+ * Terminal rendering of a factbase diff. `limit` caps the lines shown per section.
+ */
+export function formatKBDiffText(diff: KBDiff, before: Graph, after: Graph, limit = 50): string {
+  if (isEmptyDiff(diff)) return 'No factbase changes.';
+
+  const lines: string[] = [`\x1b[1mFactbase changes\x1b[0m  ${countLine(diff)}`];
+  for (const { heading, lines: items } of describeDiff(diff, before, after)) {
+    lines.push('', `\x1b[1m${heading}\x1b[0m (${items.length})`);
+    for (const item of items.slice(0, limit)) lines.push(`  ${item}`);
+    if (items.length > limit) lines.push(`  … ${items.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Markdown rendering of a factbase diff for PR bodies. Returns undefined
+ * when there are no changes, so callers can omit the section entirely.
+ */
+export function formatKBDiffMarkdown(diff: KBDiff, before: Graph, after: Graph, limit = 20): string | undefined {
+  if (isEmptyDiff(diff)) return undefined;
+
+  const lines: string[] = [
+    '| | Added | Removed | Changed |',
+    '|---|---:|---:|---:|',
+    ...(['entities', 'facts', 'records'] as const).map((key) => {
+      const s = diff[key];
+      return `| ${key[0].toUpperCase()}${key.slice(1)} | ${s.added.length} | ${s.removed.length} | ${s.changed.length} |`;
+    }),
+  ];
+  for (const { heading, lines: items } of describeDiff(diff, before, after)) {
+    lines.push('', `**${heading}** (${items.length})`, '');
+    for (const item of items.slice(0, limit)) lines.push(`- ${item}`);
+    if (items.length > limit) lines.push(`- … ${items.length - limit} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from "vitest";
+import {
+  toIsoDay,
+  toProbability,
+  collapseHistory,
+  parseMetaculus,
+  parseManifold,
+  parseMetaforecast,
+  parseForecastCsv,
+  parseSnapshotFile,
+} from "../parsers.ts";
+import { buildEntityIndex, matchQuestion } from "../matcher.ts";
+import { mergeForecasts, emptyPageForecastsFile } from "../merge.ts";
+import type { PageForecastsFile } from "../types.ts";
+
+describe("values", () => {
+  it("normalizes timestamps to UTC days", () => {
+    expect(toIsoDay("2025-03-04T23:00:00Z")).toBe("2025-03-04");
+    expect(toIsoDay(1735689600)).toBe("2025-01-01");
+    expect(toIsoDay(1735689600000)).toBe("2025-01-01");
+    expect(toIsoDay("1735689600")).toBe("2025-01-01");
+    expect(toIsoDay("not a date")).toBeNull();
+  });
+
+  it("accepts fractions and percentages", () => {
+    expect(toProbability(0.15)).toBe(0.15);
+    expect(toProbability("15%")).toBe(0.15);
+    expect(toProbability("15")).toBe(0.15);
+    expect(toProbability(150)).toBeNull();
+    expect(toProbability("")).toBeNull();
+  });
+
+  it("keeps the last reading per day, sorted", () => {
+    expect(
+      collapseHistory([
+        { date: "2025-01-02", probability: 0.3 },
+        { date: "2025-01-01", probability: 0.1 },
+        { date: "2025-01-02", probability: 0.35 },
+        { date: null, probability: 0.5 },
+      ])
+    ).toEqual([
+      { date: "2025-01-01", probability: 0.1 },
+      { date: "2025-01-02", probability: 0.35 },
+    ]);
+  });
+});
+
+describe("parsers", () => {
+  it("parses Metaculus posts with aggregation history", () => {
+    const { questions, skipped } = parseMetaculus({
+      results: [
+        {
+          id: 3479,
+          title: "Will AGI arrive before 2040?",
+          projects: { category: [{ slug: "artificial-intelligence" }] },
+          question: {
+            type: "binary",
+            aggregations: {
+              recency_weighted: {
+                history: [
+                  { start_time: 1704067200, centers: [0.4] },
+                  { start_time: 1735689600, centers: [0.45] },
+                ],
+              },
+            },
+          },
+        },
+        { id: 1, title: "When will X happen?", question: { type: "date" } },
+      ],
+    });
+    expect(questions).toHaveLength(1);
+    expect(questions[0]).toMatchObject({
+      id: "metaculus-3479",
+      platform: "Metaculus",
+      url: "https://www.metaculus.com/questions/3479/",
+      tags: ["artificial-intelligence"],
+      history: [
+        { date: "2024-01-01", probability: 0.4 },
+        { date: "2025-01-01", probability: 0.45 },
+      ],
+    });
+    expect(skipped).toEqual(["metaculus-1: date question"]);
+  });
+
+  it("parses Manifold markets with bets", () => {
+    const { questions } = parseManifold([
+      {
+        id: "abc",
+        question: "Bioweapon attack by 2030?",
+        outcomeType: "BINARY",
+        url: "https://manifold.markets/u/bio",
+        probability: 0.12,
+        lastUpdatedTime: 1735776000000,
+        groupSlugs: ["biosecurity"],
+        bets: [{ createdTime: 1735689600000, probAfter: 0.1 }],
+      },
+    ]);
+    expect(questions[0].history).toEqual([
+      { date: "2025-01-01", probability: 0.1 },
+      { date: "2025-01-02", probability: 0.12 },
+    ]);
+    expect(questions[0].tags).toEqual(["biosecurity"]);
+  });
+
+  it("parses Metaforecast GraphQL exports, keeping origin IDs", () => {
+    const { questions, skipped } = parseMetaforecast({
+      data: {
+        questions: {
+          edges: [
+            {
+              node: {
+                id: "metaculus-3479",
+                title: "Will AGI arrive before 2040?",
+                platform: { id: "metaculus", label: "Metaculus" },
+                options: [{ name: "Yes", probability: 0.5 }, { name: "No", probability: 0.5 }],
+                qualityIndicators: { stars: 4 },
+                fetchedStr: "2025-02-01T00:00:00Z",
+              },
+            },
+            { node: { id: "x-1", title: "Which lab first?", options: [{ name: "A", probability: 0.6 }] } },
+          ],
+        },
+      },
+    });
+    expect(questions[0]).toMatchObject({ id: "metaculus-3479", platform: "Metaculus", stars: 4 });
+    expect(skipped).toHaveLength(1);
+  });
+
+  it("groups CSV rows by question and infers the platform from the file name", () => {
+    const csv = [
+      "Question ID,Question Title,Date,Community Prediction",
+      '42,"Will compute, in FLOP, exceed 1e27?",2024-06-01,0.3',
+      '42,"Will compute, in FLOP, exceed 1e27?",2025-06-01,35%',
+    ].join("\n");
+    const { questions } = parseSnapshotFile("data/forecast-snapshots/metaculus-export.csv", csv);
+    expect(questions).toEqual([
+      expect.objectContaining({
+        id: "metaculus-42",
+        platform: "Metaculus",
+        title: "Will compute, in FLOP, exceed 1e27?",
+        history: [
+          { date: "2024-06-01", probability: 0.3 },
+          { date: "2025-06-01", probability: 0.35 },
+        ],
+      }),
+    ]);
+    expect(parseForecastCsv("id,title\n1,x").skipped[0]).toMatch(/missing column/);
+  });
+
+  it("rejects JSON it cannot attribute to a platform", () => {
+    expect(() => parseSnapshotFile("dump.json", '[{"foo": 1}]')).toThrow(/prefix the file name/);
+  });
+});
+
+describe("matchQuestion", () => {
+  const index = buildEntityIndex([
+    { id: "bioweapons", title: "Bioweapons Risk", tags: ["biosecurity", "pandemics"] },
+    { id: "agi-timelines", title: "AGI Timelines", aliases: ["AGI"], tags: ["forecasting"] },
+    { id: "deceptive-alignment", title: "Deceptive Alignment", tags: ["alignment"] },
+  ]);
+
+  it("matches entity names in titles, tolerating plurals", () => {
+    const matches = matchQuestion({ title: "Will a bioweapon kill 10k people by 2030?" }, index);
+    expect(matches).toEqual([{ pageId: "bioweapons", relevance: 0.7, discoveredVia: "entity" }]);
+  });
+
+  it("ignores names shorter than four characters", () => {
+    expect(matchQuestion({ title: "Will AGI arrive before 2040?" }, index)).toEqual([]);
+  });
+
+  it("adds tag overlap to the score and matches on tags alone", () => {
+    expect(matchQuestion({ title: "Bioweapons attack?", tags: ["Biosecurity"] }, index)[0].relevance).toBe(0.95);
+    expect(matchQuestion({ title: "Lab leak?", tags: ["biosecurity", "pandemics"] }, index)).toEqual([
+      { pageId: "bioweapons", relevance: 0.5, discoveredVia: "tag" },
+    ]);
+    expect(matchQuestion({ title: "Lab leak?", tags: ["biosecurity"] }, index)).toEqual([]);
+  });
+});
+
+describe("mergeForecasts", () => {
+  const existing: PageForecastsFile = {
+    questions: {
+      "manifold-abc": {
+        platform: "Manifold",
+        title: "Bioweapon attack by 2030?",
+        history: [
+          { date: "2025-01-01", probability: 0.1 },
+          { date: "2025-01-02", probability: 0.12 },
+        ],
+      },
+    },
+    pages: {
+      misuse: [{ id: "manifold-abc", relevance: 1, discoveredVia: "manual" }],
+      stale: [{ id: "manifold-abc", relevance: 0.5, discoveredVia: "tag" }],
+    },
+  };
+
+  it("appends history, replaces same-day readings, and re-matches pages", () => {
+    const { file, newQuestions, newReadings } = mergeForecasts(
+      existing,
+      [
+        {
+          id: "manifold-abc",
+          platform: "Manifold",
+          title: "Bioweapon attack by 2030?",
+          tags: [],
+          history: [
+            { date: "2025-01-02", probability: 0.14 },
+            { date: "2025-01-03", probability: 0.15 },
+          ],
+        },
+      ],
+      () => [{ pageId: "bioweapons", relevance: 0.7, discoveredVia: "entity" }]
+    );
+    expect(newQuestions).toBe(0);
+    expect(newReadings).toBe(1);
+    expect(file.questions["manifold-abc"].history.map((h) => h.probability)).toEqual([0.1, 0.14, 0.15]);
+    expect(file.pages).toEqual({
+      bioweapons: [{ id: "manifold-abc", relevance: 0.7, discoveredVia: "entity" }],
+      misuse: [{ id: "manifold-abc", relevance: 1, discoveredVia: "manual" }],
+    });
+  });
+
+  it("starts from an empty file", () => {
+    const { file, newQuestions } = mergeForecasts(
+      emptyPageForecastsFile(),
+      [{ id: "metaculus-1", platform: "Metaculus", title: "Q", tags: [], history: [{ date: "2025-01-01", probability: 0.2 }] }],
+      () => []
+    );
+    expect(newQuestions).toBe(1);
+    expect(file.pages).toEqual({});
+  });
+});
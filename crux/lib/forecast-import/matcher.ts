@@ -0,0 +1,97 @@
+/**
+ * Match forecast questions to wiki pages.
+ *
+ * Two signals, both computed from data/entities/*.yaml so matching is
+ * deterministic and offline:
+ *   - entity: the question title names the entity (title, alias, or ID words)
+ *   - tag:    the question's platform categories overlap the entity's tags
+ *
+ * Entity pages share the entity ID, so matches are keyed by entity ID.
+ */
+
+import type { ForecastQuestion, MatchableEntity, QuestionMatch } from './types.ts';
+
+/** Relevance of a title or alias mention. */
+const NAME_RELEVANCE = 0.9;
+/** Relevance of a mention of the entity ID as words ("ai-welfare" → "ai welfare"). */
+const ID_RELEVANCE = 0.7;
+/** Relevance added per shared tag. */
+const TAG_RELEVANCE = 0.25;
+/** Names shorter than this are too ambiguous to match in free text. */
+const MIN_NAME_LENGTH = 4;
+
+export const DEFAULT_MIN_RELEVANCE = 0.5;
+
+interface IndexedEntity {
+  id: string;
+  patterns: Array<{ regex: RegExp; relevance: number }>;
+  tags: Set<string>;
+}
+
+export interface EntityIndex {
+  entities: IndexedEntity[];
+}
+
+/** Lowercase, hyphen-separated form used to compare tags across platforms. */
+export function normalizeTag(tag: string): string {
+  return tag.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Word-boundary pattern that tolerates a trailing plural "s" on either side. */
+function namePattern(name: string): RegExp | null {
+  const words = name.toLowerCase().replace(/\s*\([^)]*\)\s*$/, '').trim();
+  if (words.length < MIN_NAME_LENGTH) return null;
+  const stem = words.endsWith('s') ? words.slice(0, -1) : words;
+  return new RegExp(`\\b${escapeRegex(stem).replace(/\s+/g, '[\\s-]+')}s?\\b`, 'i');
+}
+
+export function buildEntityIndex(entities: MatchableEntity[]): EntityIndex {
+  const indexed: IndexedEntity[] = [];
+  for (const entity of entities) {
+    const patterns: IndexedEntity['patterns'] = [];
+    const seen = new Set<string>();
+    const add = (name: string, relevance: number) => {
+      const regex = namePattern(name);
+      if (!regex || seen.has(regex.source)) return;
+      seen.add(regex.source);
+      patterns.push({ regex, relevance });
+    };
+    add(entity.title, NAME_RELEVANCE);
+    for (const alias of entity.aliases ?? []) add(alias, NAME_RELEVANCE);
+    add(entity.id.replace(/-/g, ' '), ID_RELEVANCE);
+
+    indexed.push({ id: entity.id, patterns, tags: new Set((entity.tags ?? []).map(normalizeTag)) });
+  }
+  return { entities: indexed };
+}
+
+/**
+ * Pages a question is relevant to, most relevant first. Relevance is the best
+ * name match plus TAG_RELEVANCE per shared tag, capped at 1.
+ */
+export function matchQuestion(
+  question: Pick<ForecastQuestion, 'title'> & { tags?: string[] },
+  index: EntityIndex,
+  minRelevance = DEFAULT_MIN_RELEVANCE,
+): QuestionMatch[] {
+  const questionTags = new Set((question.tags ?? []).map(normalizeTag));
+  const matches: QuestionMatch[] = [];
+
+  for (const entity of index.entities) {
+    const nameScore = Math.max(0, ...entity.patterns.filter((p) => p.regex.test(question.title)).map((p) => p.relevance));
+    const sharedTags = [...questionTags].filter((t) => entity.tags.has(t)).length;
+    const relevance = Math.min(1, nameScore + sharedTags * TAG_RELEVANCE);
+    if (relevance < minRelevance) continue;
+    matches.push({
+      pageId: entity.id,
+      relevance: Math.round(relevance * 100) / 100,
+      discoveredVia: nameScore > 0 ? 'entity' : 'tag',
+    });
+  }
+
+  return matches.sort((a, b) => b.relevance - a.relevance || a.pageId.localeCompare(b.pageId));
+}
@@ -0,0 +1,83 @@
+/**
+ * Merge imported questions into data/page-forecasts.yaml.
+ *
+ * History is append-only per question: readings from new snapshots are
+ * added, and a reading for a day already on record replaces it. Page links
+ * are recomputed for every stored question on each import, so matcher
+ * changes apply retroactively; links marked `discoveredVia: manual` are kept.
+ */
+
+import { collapseHistory } from './parsers.ts';
+import type {
+  ForecastQuestion,
+  PageForecastLink,
+  PageForecastsFile,
+  QuestionMatch,
+  StoredForecastQuestion,
+} from './types.ts';
+
+export interface MergeResult {
+  file: PageForecastsFile;
+  newQuestions: number;
+  newReadings: number;
+}
+
+export function emptyPageForecastsFile(): PageForecastsFile {
+  return { questions: {}, pages: {} };
+}
+
+function sortedRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function mergeForecasts(
+  existing: PageForecastsFile,
+  imported: ForecastQuestion[],
+  match: (question: StoredForecastQuestion) => QuestionMatch[],
+): MergeResult {
+  const questions: Record<string, StoredForecastQuestion> = { ...existing.questions };
+  let newQuestions = 0;
+  let newReadings = 0;
+
+  for (const q of imported) {
+    const prev = questions[q.id];
+    if (!prev) newQuestions++;
+    const knownDays = new Set(prev?.history.map((h) => h.date) ?? []);
+    newReadings += q.history.filter((h) => !knownDays.has(h.date)).length;
+
+    const url = q.url ?? prev?.url;
+    const stars = q.stars ?? prev?.stars;
+    const tags = [...new Set([...(prev?.tags ?? []), ...q.tags])].sort();
+    questions[q.id] = {
+      platform: q.platform,
+      title: q.title,
+      ...(url ? { url } : {}),
+      ...(stars ? { stars } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      history: collapseHistory([...(prev?.history ?? []), ...q.history]),
+    };
+  }
+
+  // Keep manual links, then re-match every stored question
+  const pages: Record<string, PageForecastLink[]> = {};
+  for (const [pageId, links] of Object.entries(existing.pages)) {
+    const manual = links.filter((l) => l.discoveredVia === 'manual');
+    if (manual.length > 0) pages[pageId] = manual;
+  }
+  for (const [questionId, question] of Object.entries(questions)) {
+    for (const m of match(question)) {
+      const links = (pages[m.pageId] ??= []);
+      if (links.some((l) => l.id === questionId)) continue;
+      links.push({ id: questionId, relevance: m.relevance, discoveredVia: m.discoveredVia });
+    }
+  }
+  for (const links of Object.values(pages)) {
+    links.sort((a, b) => b.relevance - a.relevance || a.id.localeCompare(b.id));
+  }
+
+  return {
+    file: { questions: sortedRecord(questions), pages: sortedRecord(pages) },
+    newQuestions,
+    newReadings,
+  };
+}
@@ -0,0 +1,417 @@
+/**
+ * Parsers for forecast platform exports.
+ *
+ * Each parser turns one exported file into binary ForecastQuestion records.
+ * Non-binary questions are skipped and reported rather than guessed at.
+ * Parsing is pure — no network, no clock — so imports are reproducible.
+ */
+
+import { basename, extname } from 'path';
+import { parseCSVLine, reassembleCSVRows } from '../grant-import/csv.ts';
+import type { ForecastQuestion, ProbabilityPoint, SnapshotFormat } from './types.ts';
+
+export interface ParsedSnapshot {
+  format: SnapshotFormat;
+  questions: ForecastQuestion[];
+  /** Human-readable reasons for questions that were not imported */
+  skipped: string[];
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize a timestamp to YYYY-MM-DD (UTC). Accepts ISO strings and Unix
+ * times in seconds or milliseconds, as numbers or numeric strings.
+ */
+export function toIsoDay(value: unknown): string | null {
+  let ms: number;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const n = Number(value);
+    ms = n > 1e12 ? n : n * 1000;
+  } else if (typeof value === 'string' && value.trim()) {
+    ms = Date.parse(value.trim());
+  } else {
+    return null;
+  }
+  if (!Number.isFinite(ms)) return null;
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** Parse a probability given as 0-1, "15%", or 0-100. Returns null if out of range. */
+export function toProbability(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value).trim();
+  const percent = text.endsWith('%');
+  const n = Number(percent ? text.slice(0, -1) : text);
+  if (!Number.isFinite(n)) return null;
+  const p = percent || n > 1 ? n / 100 : n;
+  return p >= 0 && p <= 1 ? p : null;
+}
+
+/** Sort points by date and keep the last reading of each day. */
+export function collapseHistory(points: Array<{ date: string | null; probability: number | null }>): ProbabilityPoint[] {
+  const byDay = new Map<string, number>();
+  const sorted = points
+    .filter((p): p is ProbabilityPoint => p.date !== null && p.probability !== null)
+    .map((p, i) => ({ ...p, i }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.i - b.i);
+  for (const p of sorted) byDay.set(p.date, p.probability);
+  return [...byDay].map(([date, probability]) => ({ date, probability: Math.round(probability * 1000) / 1000 }));
+}
+
+function splitTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map((t) => (isObject(t) ? str(t.slug) ?? str(t.name) : str(t)))
+      .filter((t): t is string => !!t);
+  }
+  const text = str(value);
+  return text ? text.split(/[;|]/).map((t) => t.trim()).filter(Boolean) : [];
+}
+
+// ---------------------------------------------------------------------------
+// Metaculus
+// ---------------------------------------------------------------------------
+
+const METACULUS_BASE = 'https://www.metaculus.com';
+
+/**
+ * Metaculus API exports, either a bare array or a paginated `{ results }`
+ * page. Handles the current post format (`question.aggregations`) and the
+ * older v2 format (`prediction_timeseries`).
+ */
+export function parseMetaculus(data: unknown): ParsedSnapshot {
+  const items = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.results) ? data.results : [data];
+  const questions: ForecastQuestion[] = [];
+  const skipped: string[] = [];
+
+  for (const item of items) {
+    if (!isObject(item)) continue;
+    const inner = isObject(item.question) ? item.question : item;
+    const id = str(item.id);
+    const title = str(item.title) ?? str(inner.title);
+    if (!id || !title) {
+      skipped.push('Metaculus item without id or title');
+      continue;
+    }
+    const possibilities = isObject(item.possibilities) ? item.possibilities : undefined;
+    const type = str(inner.type) ?? str(possibilities?.type);
+    if (type && type !== 'binary') {
+      skipped.push(`metaculus-${id}: ${type} question`);
+      continue;
+    }
+
+    const points: Array<{ date: string | null; probability: number | null }> = [];
+    const aggregations = isObject(inner.aggregations) ? inner.aggregations : undefined;
+    const recency = aggregations && isObject(aggregations.recency_weighted) ? aggregations.recency_weighted : undefined;
+    if (recency && Array.isArray(recency.history)) {
+      for (const h of recency.history) {
+        if (!isObject(h) || !Array.isArray(h.centers)) continue;
+        points.push({ date: toIsoDay(h.start_time), probability: toProbability(h.centers[0]) });
+      }
+    }
+    if (Array.isArray(item.prediction_timeseries)) {
+      for (const h of item.prediction_timeseries) {
+        if (!isObject(h)) continue;
+        const cp = h.community_prediction;
+        points.push({ date: toIsoDay(h.t), probability: toProbability(isObject(cp) ? cp.q2 : cp) });
+      }
+    }
+    const history = collapseHistory(points);
+    if (history.length === 0) {
+      skipped.push(`metaculus-${id}: no community prediction`);
+      continue;
+    }
+
+    const pageUrl = str(item.page_url) ?? str(item.url);
+    const projects = isObject(item.projects) ? item.projects : undefined;
+    questions.push({
+      id: `metaculus-${id}`,
+      platform: 'Metaculus',
+      title,
+      url: pageUrl ? (pageUrl.startsWith('/') ? METACULUS_BASE + pageUrl : pageUrl) : `${METACULUS_BASE}/questions/${id}/`,
+      description: str(inner.description),
+      tags: [...splitTags(projects?.category), ...splitTags(item.categories)],
+      history,
+    });
+  }
+
+  return { format: 'metaculus', questions, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Manifold
+// ---------------------------------------------------------------------------
+
+/**
+ * Manifold market exports: a market or array of markets, optionally with a
+ * `bets` array (as returned by /v0/bets) embedded for history. Without bets,
+ * the current probability is recorded at `lastUpdatedTime`.
+ */
+export function parseManifold(data: unknown): ParsedSnapshot {
+  const items = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.markets) ? data.markets : [data];
+  const questions: ForecastQuestion[] = [];
+  const skipped: string[] = [];
+
+  for (const item of items) {
+    if (!isObject(item)) continue;
+    const id = str(item.id);
+    const title = str(item.question);
+    if (!id || !title) {
+      skipped.push('Manifold item without id or question');
+      continue;
+    }
+    const outcomeType = str(item.outcomeType);
+    if (outcomeType && outcomeType !== 'BINARY') {
+      skipped.push(`manifold-${id}: ${outcomeType} market`);
+      continue;
+    }
+
+    const points: Array<{ date: string | null; probability: number | null }> = [];
+    if (Array.isArray(item.bets)) {
+      for (const bet of item.bets) {
+        if (!isObject(bet)) continue;
+        points.push({ date: toIsoDay(bet.createdTime), probability: toProbability(bet.probAfter) });
+      }
+    }
+    points.push({
+      date: toIsoDay(item.lastUpdatedTime ?? item.createdTime),
+      probability: toProbability(item.probability),
+    });
+    const history = collapseHistory(points);
+    if (history.length === 0) {
+      skipped.push(`manifold-${id}: no probability`);
+      continue;
+    }
+
+    questions.push({
+      id: `manifold-${id}`,
+      platform: 'Manifold',
+      title,
+      url: str(item.url),
+      description: str(item.textDescription),
+      tags: splitTags(item.groupSlugs),
+      history,
+    });
+  }
+
+  return { format: 'manifold', questions, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Metaforecast
+// ---------------------------------------------------------------------------
+
+function yesProbability(options: unknown): number | null {
+  if (!Array.isArray(options)) return null;
+  const yes = options.find((o) => isObject(o) && str(o.name)?.toLowerCase() === 'yes');
+  return isObject(yes) ? toProbability(yes.probability) : null;
+}
+
+/**
+ * Metaforecast GraphQL exports (`{ data: { questions: { edges } } }`) or a
+ * bare array of question nodes. Metaforecast IDs are already prefixed with
+ * the origin platform ("metaculus-12345"), so the same question imported from
+ * a Metaculus dump merges with it.
+ */
+export function parseMetaforecast(data: unknown): ParsedSnapshot {
+  let nodes: unknown[] = [];
+  if (Array.isArray(data)) {
+    nodes = data;
+  } else if (isObject(data) && isObject(data.data)) {
+    const questionsField = data.data.questions;
+    if (isObject(questionsField) && Array.isArray(questionsField.edges)) {
+      nodes = questionsField.edges.map((e) => (isObject(e) ? e.node : undefined));
+    } else if (isObject(data.data.question)) {
+      nodes = [data.data.question];
+    }
+  }
+
+  const questions: ForecastQuestion[] = [];
+  const skipped: string[] = [];
+
+  for (const node of nodes) {
+    if (!isObject(node)) continue;
+    const id = str(node.id);
+    const title = str(node.title);
+    if (!id || !title) {
+      skipped.push('Metaforecast node without id or title');
+      continue;
+    }
+    const platform = isObject(node.platform) ? str(node.platform.label) ?? str(node.platform.id) : undefined;
+    const current = yesProbability(node.options);
+    if (current === null) {
+      skipped.push(`${id}: no "Yes" option (not a binary question)`);
+      continue;
+    }
+
+    const points: Array<{ date: string | null; probability: number | null }> = [];
+    if (Array.isArray(node.history)) {
+      for (const h of node.history) {
+        if (!isObject(h)) continue;
+        points.push({ date: toIsoDay(h.fetchedStr ?? h.timestamp), probability: yesProbability(h.options) });
+      }
+    }
+    points.push({ date: toIsoDay(node.fetchedStr ?? node.timestamp), probability: current });
+    const history = collapseHistory(points);
+    if (history.length === 0) {
+      skipped.push(`${id}: no dated probability`);
+      continue;
+    }
+
+    const quality = isObject(node.qualityIndicators) ? node.qualityIndicators : undefined;
+    const stars = typeof quality?.stars === 'number' ? quality.stars : undefined;
+    questions.push({
+      id: id.includes('-') ? id : `metaforecast-${id}`,
+      platform: platform ?? 'Metaforecast',
+      title,
+      url: str(node.url),
+      description: str(node.description),
+      tags: [],
+      stars,
+      history,
+    });
+  }
+
+  return { format: 'metaforecast', questions, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Accepted header names per field (lowercased, spaces/underscores removed). */
+const CSV_COLUMNS: Record<string, string[]> = {
+  id: ['id', 'questionid', 'marketid'],
+  title: ['title', 'question', 'questiontitle'],
+  url: ['url', 'pageurl', 'link'],
+  date: ['date', 'time', 'timestamp', 'starttime', 'createdtime', 'fetched'],
+  probability: ['probability', 'prob', 'probafter', 'communityprediction', 'median', 'q2'],
+  platform: ['platform'],
+  tags: ['tags', 'categories', 'groups'],
+};
+
+function csvKey(header: string): string {
+  return header.toLowerCase().replace(/[\s_]/g, '');
+}
+
+/**
+ * CSV dumps with one row per (question, date) reading. Columns are found by
+ * header name; the platform comes from a `platform` column or, failing that,
+ * the `platform` argument (usually inferred from the file name).
+ */
+export function parseForecastCsv(text: string, platform?: string): ParsedSnapshot {
+  const headerLine = text.split('\n', 1)[0] ?? '';
+  const headers = parseCSVLine(headerLine.replace(/\r$/, '')).map(csvKey);
+  const col: Record<string, number> = {};
+  for (const [field, names] of Object.entries(CSV_COLUMNS)) {
+    const idx = headers.findIndex((h) => names.includes(h));
+    if (idx >= 0) col[field] = idx;
+  }
+
+  const missing = ['id', 'title', 'date', 'probability'].filter((f) => col[f] === undefined);
+  if (missing.length > 0) {
+    return { format: 'csv', questions: [], skipped: [`CSV is missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const grouped = new Map<string, { fields: string[]; points: Array<{ date: string | null; probability: number | null }> }>();
+  const skipped: string[] = [];
+  for (const row of reassembleCSVRows(text)) {
+    const fields = parseCSVLine(row.replace(/\r$/, ''));
+    const rowPlatform = (col.platform !== undefined ? str(fields[col.platform]) : undefined) ?? platform;
+    const rawId = str(fields[col.id]);
+    if (!rawId || !rowPlatform) {
+      skipped.push(`CSV row without ${rawId ? 'platform' : 'id'}`);
+      continue;
+    }
+    const prefix = rowPlatform.toLowerCase();
+    const id = rawId.startsWith(`${prefix}-`) ? rawId : `${prefix}-${rawId}`;
+    const entry = grouped.get(id) ?? { fields, points: [] };
+    entry.points.push({ date: toIsoDay(fields[col.date]), probability: toProbability(fields[col.probability]) });
+    grouped.set(id, entry);
+  }
+
+  const questions: ForecastQuestion[] = [];
+  for (const [id, { fields, points }] of grouped) {
+    const history = collapseHistory(points);
+    if (history.length === 0) {
+      skipped.push(`${id}: no valid dated probabilities`);
+      continue;
+    }
+    const rowPlatform = (col.platform !== undefined ? str(fields[col.platform]) : undefined) ?? platform!;
+    questions.push({
+      id,
+      platform: rowPlatform.charAt(0).toUpperCase() + rowPlatform.slice(1),
+      title: str(fields[col.title]) ?? id,
+      url: col.url !== undefined ? str(fields[col.url]) : undefined,
+      tags: col.tags !== undefined ? splitTags(fields[col.tags]) : [],
+      history,
+    });
+  }
+
+  return { format: 'csv', questions, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** Infer the format of a JSON export from its shape. */
+export function detectJsonFormat(data: unknown): Exclude<SnapshotFormat, 'csv'> | null {
+  const sample = Array.isArray(data)
+    ? data[0]
+    : isObject(data) && Array.isArray(data.results)
+      ? data.results[0]
+      : isObject(data) && Array.isArray(data.markets)
+        ? data.markets[0]
+        : data;
+  if (isObject(data) && isObject(data.data)) return 'metaforecast';
+  if (!isObject(sample)) return null;
+  if (Array.isArray(sample.options)) return 'metaforecast';
+  if ('outcomeType' in sample || ('question' in sample && typeof sample.question === 'string')) return 'manifold';
+  if ('page_url' in sample || 'prediction_timeseries' in sample || isObject(sample.question)) return 'metaculus';
+  return null;
+}
+
+/** Platform named by a file-name prefix, e.g. "manifold-2025-06.json". */
+function platformFromFilename(filePath: string): Exclude<SnapshotFormat, 'csv'> | undefined {
+  const name = basename(filePath).toLowerCase();
+  return (['metaculus', 'manifold', 'metaforecast'] as const).find((p) => name.startsWith(p));
+}
+
+/** Parse one snapshot file. Throws on malformed JSON or an unrecognized format. */
+export function parseSnapshotFile(filePath: string, content: string): ParsedSnapshot {
+  const hint = platformFromFilename(filePath);
+  if (extname(filePath).toLowerCase() === '.csv') {
+    return parseForecastCsv(content, hint);
+  }
+
+  const data: unknown = JSON.parse(content);
+  const format = hint ?? detectJsonFormat(data);
+  switch (format) {
+    case 'metaculus':
+      return parseMetaculus(data);
+    case 'manifold':
+      return parseManifold(data);
+    case 'metaforecast':
+      return parseMetaforecast(data);
+    default:
+      throw new Error(
+        `Cannot tell which platform ${basename(filePath)} is from; prefix the file name with metaculus-, manifold-, or metaforecast-`,
+      );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Shared types for forecast snapshot import.
+ *
+ * Snapshots are platform exports (Metaculus, Manifold, Metaforecast) dropped
+ * into data/forecast-snapshots/. Each parser normalizes its format into
+ * ForecastQuestion records; the importer then matches questions to pages and
+ * merges them into data/page-forecasts.yaml.
+ */
+
+/** Export formats the importer understands. */
+export type SnapshotFormat = 'metaculus' | 'manifold' | 'metaforecast' | 'csv';
+
+/** Community probability of "Yes" on a given day. */
+export interface ProbabilityPoint {
+  date: string; // YYYY-MM-DD
+  probability: number; // 0-1
+}
+
+/** A binary question normalized from any platform export. */
+export interface ForecastQuestion {
+  /** Platform-prefixed ID, e.g. "metaculus-12345" */
+  id: string;
+  /** Display label, e.g. "Metaculus" (Metaforecast exports keep the origin platform) */
+  platform: string;
+  title: string;
+  url?: string;
+  description?: string;
+  /** Platform categories / groups, used for tag matching */
+  tags: string[];
+  /** Metaforecast quality stars (1-5), when known */
+  stars?: number;
+  /** Sorted by date, one point per day */
+  history: ProbabilityPoint[];
+}
+
+export type DiscoveredVia = 'entity' | 'tag' | 'manual';
+
+/** A question attached to a page, as stored in data/page-forecasts.yaml. */
+export interface PageForecastLink {
+  id: string;
+  relevance: number;
+  discoveredVia: DiscoveredVia;
+}
+
+/** A question as stored in data/page-forecasts.yaml. */
+export interface StoredForecastQuestion {
+  platform: string;
+  title: string;
+  url?: string;
+  stars?: number;
+  tags?: string[];
+  history: ProbabilityPoint[];
+}
+
+/** Shape of data/page-forecasts.yaml. */
+export interface PageForecastsFile {
+  questions: Record<string, StoredForecastQuestion>;
+  /** Page (entity) ID → linked questions, most relevant first */
+  pages: Record<string, PageForecastLink[]>;
+}
+
+/** Minimal entity fields the matcher needs (from data/entities/*.yaml). */
+export interface MatchableEntity {
+  id: string;
+  title: string;
+  aliases?: string[];
+  tags?: string[];
+}
+
+export interface QuestionMatch {
+  pageId: string;
+  relevance: number;
+  discoveredVia: Exclude<DiscoveredVia, 'manual'>;
+}
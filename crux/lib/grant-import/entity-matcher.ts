@@ -1,6 +1,12 @@
 import { readFileSync } from "fs";
 import { resolve } from "path";
 import { parse as parseYaml } from "yaml";
+import {
+  createLocalEntityResolver,
+  isConfidentMatch,
+  needsReview,
+  type EntityResolver,
+} from "../entity-resolution.ts";
 import type { EntityMatch, EntityMatcher } from "./types.ts";
 
 /**
@@ -141,19 +147,30 @@ export function buildEntityMatcher(): EntityMatcher {
     }
   }
 
+  // Built on first use — most names hit nameMap and never need it
+  let resolver: EntityResolver | null = null;
+
   return {
     allNames: nameMap,
     match: (name: string) => {
       const lower = name.toLowerCase().trim();
       return nameMap.get(lower) || null;
     },
+    resolve: (name: string) => {
+      resolver ??= createLocalEntityResolver();
+      return resolver.resolve({ name });
+    },
+    unconfirmed: new Map(),
   };
 }
 
 /**
  * Match a grantee name to an entity, checking manual overrides first,
  * then trying the entity matcher directly, then trying again after
- * normalizing the name (stripping corporate suffixes like Inc., LLC, etc.).
+ * normalizing the name (stripping corporate suffixes like Inc., LLC, etc.),
+ * and finally falling back to the alias-aware resolver. Resolver matches are
+ * only accepted when confident; plausible ones are recorded in
+ * `matcher.unconfirmed` for the review queue.
  *
  * Returns the entity stableId if matched, null otherwise.
  */
@@ -191,5 +208,12 @@ export function matchGrantee(
     if (normalizedMatch) return normalizedMatch.stableId;
   }
 
+  // 4. Fuzzy fallback (aliases, acronyms, previous slugs, similar names)
+  if (matcher.resolve) {
+    const matches = matcher.resolve(name);
+    if (isConfidentMatch(matches)) return matches[0].stableId;
+    if (needsReview(matches)) matcher.unconfirmed?.set(name, matches);
+  }
+
   return null;
 }
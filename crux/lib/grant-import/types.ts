@@ -1,3 +1,5 @@
+import type { ResolvedMatch } from "../entity-resolution.ts";
+
 export interface EntityMatch {
   stableId: string;
   slug: string;
@@ -7,6 +9,13 @@ export interface EntityMatch {
 export interface EntityMatcher {
   match: (name: string) => EntityMatch | null;
   allNames: Map<string, EntityMatch>;
+  /**
+   * Alias-aware fuzzy fallback for names `match` misses, returning ranked
+   * candidates. Optional so lightweight test matchers can omit it.
+   */
+  resolve?: (name: string) => ResolvedMatch[];
+  /** Names `resolve` found plausible but not confident, keyed by raw name */
+  unconfirmed?: Map<string, ResolvedMatch[]>;
 }
 
 export interface RawGrant {
@@ -0,0 +1,203 @@
+/**
+ * Importance Comparisons Store
+ *
+ * Pairwise importance judgments — "page A vs page B on dimension D, judged by
+ * J, because R" — are the source of truth for importance rankings. A
+ * Bradley–Terry fit over them (crux/lib/bradley-terry.ts) orders the pages,
+ * and that order is written to the ranking YAML as a generated artifact.
+ *
+ * Data files (one per dimension, append-only in practice):
+ *   data/importance-comparisons/readership.yaml
+ *   data/importance-comparisons/research.yaml
+ */
+
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { PROJECT_ROOT } from './content-types.ts';
+import {
+  fitBradleyTerry,
+  type BradleyTerryFit,
+  type BradleyTerryOptions,
+} from './bradley-terry.ts';
+import { saveRanking, DEFAULT_DIMENSION } from './importance-ranking.ts';
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+
+export const COMPARISONS_DIR = join(PROJECT_ROOT, 'data', 'importance-comparisons');
+
+export function getComparisonsFile(dimension: string = DEFAULT_DIMENSION): string {
+  return join(COMPARISONS_DIR, `${dimension}.yaml`);
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type JudgeType = 'human' | 'llm';
+
+export interface Judge {
+  type: JudgeType;
+  /** Model ID for LLM judges, name/handle for humans. */
+  id: string;
+}
+
+export interface Comparison {
+  a: string;
+  b: string;
+  winner: 'a' | 'b' | 'tie';
+  dimension: string;
+  judge: Judge;
+  rationale?: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+/** The pairwise prompts used by LLM judges, per dimension. */
+export const COMPARE_PROMPTS: Record<string, string> = {
+  readership: `You are ranking wiki pages by importance FOR READERS of an AI safety wiki. Which page is more important for someone trying to understand AI safety?`,
+
+  research: `You are ranking wiki pages by RESEARCH VALUE — where a small research team's time would be best spent doing original investigation. This is NOT about broad importance. A narrow, neglected topic with tractable open questions beats a famous broad topic every time.
+
+Which topic would yield more surprising, decision-relevant findings from 40 hours of focused research?`,
+};
+
+// ---------------------------------------------------------------------------
+// Load / Save
+// ---------------------------------------------------------------------------
+
+interface ComparisonsFile {
+  dimension?: string;
+  comparisons?: Array<Omit<Comparison, 'dimension'>>;
+}
+
+/** Load all comparisons for a dimension. Empty if the file doesn't exist. */
+export function loadComparisons(dimension: string = DEFAULT_DIMENSION): Comparison[] {
+  const file = getComparisonsFile(dimension);
+  if (!existsSync(file)) return [];
+  const data = parseYaml(readFileSync(file, 'utf-8')) as ComparisonsFile | null;
+  return (data?.comparisons ?? []).map((c) => ({ ...c, dimension }));
+}
+
+/**
+ * Write all comparisons for a dimension. One flow-style line per judgment
+ * keeps the file diffable as it grows.
+ */
+export function saveComparisons(comparisons: Comparison[], dimension: string = DEFAULT_DIMENSION): void {
+  const file = getComparisonsFile(dimension);
+  mkdirSync(COMPARISONS_DIR, { recursive: true });
+
+  const lines = comparisons.map(({ dimension: _dim, ...c }) => {
+    const entry: Record<string, unknown> = { a: c.a, b: c.b, winner: c.winner, judge: c.judge };
+    if (c.rationale) entry.rationale = c.rationale;
+    entry.date = c.date;
+    return `  - ${stringifyYaml(entry, { collectionStyle: 'flow', lineWidth: 0 }).trim()}`;
+  });
+
+  const content = [
+    `# Pairwise importance judgments (${dimension})`,
+    '#',
+    '# Source of truth for the importance ranking. Append with',
+    '# `pnpm crux importance compare`, then `pnpm crux importance fit --apply`',
+    '# regenerates the ranking YAML.',
+    '',
+    `dimension: ${dimension}`,
+    lines.length > 0 ? 'comparisons:' : 'comparisons: []',
+    ...lines,
+    '',
+  ].join('\n');
+
+  const tmpFile = join(COMPARISONS_DIR, `.comparisons-${Date.now()}.tmp`);
+  writeFileSync(tmpFile, content, 'utf-8');
+  renameSync(tmpFile, file);
+}
+
+/** Append judgments to the store. */
+export function appendComparisons(newComparisons: Comparison[], dimension: string = DEFAULT_DIMENSION): void {
+  if (newComparisons.length === 0) return;
+  saveComparisons([...loadComparisons(dimension), ...newComparisons], dimension);
+}
+
+/** Parse a `--judge` value: "human:<name>" or "llm:<model>". */
+export function parseJudge(value: string): Judge {
+  const [type, ...rest] = value.split(':');
+  const id = rest.join(':');
+  if ((type !== 'human' && type !== 'llm') || !id) {
+    throw new Error(`Invalid judge "${value}" (expected "human:<name>" or "llm:<model>")`);
+  }
+  return { type, id };
+}
+
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Orderings
+// ---------------------------------------------------------------------------
+
+/** Offsets at which an ordering is expanded into pairs: neighbours plus a few long-range links. */
+const ORDERING_OFFSETS = [1, 3, 10, 30, 100];
+
+/**
+ * Expand an ordered list (most important first) into pairwise judgments.
+ *
+ * Used to import the hand-ordered rankings and the output of whole-list LLM
+ * sorts. Each page is compared with the pages 1, 3, 10, 30 and 100 places
+ * below it — enough for the fit to reproduce the order without storing
+ * every pair.
+ */
+export function orderingToComparisons(
+  ranking: string[],
+  options: { dimension: string; judge: Judge; date?: string; rationale?: string },
+): Comparison[] {
+  const { dimension, judge, date = today(), rationale } = options;
+  const out: Comparison[] = [];
+  for (let i = 0; i < ranking.length; i++) {
+    for (const offset of ORDERING_OFFSETS) {
+      const j = i + offset;
+      if (j >= ranking.length) break;
+      out.push({
+        a: ranking[i],
+        b: ranking[j],
+        winner: 'a',
+        dimension,
+        judge,
+        ...(rationale && { rationale }),
+        date,
+      });
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Fitting
+// ---------------------------------------------------------------------------
+
+/** Fit Bradley–Terry strengths to a dimension's comparisons. */
+export function fitComparisons(
+  dimension: string = DEFAULT_DIMENSION,
+  options: BradleyTerryOptions & { extraIds?: string[] } = {},
+): { fit: BradleyTerryFit; comparisons: Comparison[] } {
+  const comparisons = loadComparisons(dimension);
+  const fit = fitBradleyTerry(comparisons, options.extraIds ?? [], options);
+  return { fit, comparisons };
+}
+
+/**
+ * Regenerate a dimension's ranking YAML, refitting unless a fit is passed in.
+ * Only pages with at least one comparison are ranked.
+ */
+export function regenerateRanking(
+  dimension: string = DEFAULT_DIMENSION,
+  fitted: { fit: BradleyTerryFit; comparisons: Comparison[] } = fitComparisons(dimension),
+): BradleyTerryFit {
+  const { fit, comparisons } = fitted;
+  saveRanking({ ranking: fit.items.map((it) => it.id) }, dimension, {
+    comparisons: comparisons.length,
+  });
+  return fit;
+}
@@ -2,15 +2,17 @@
  * Importance Ranking Library
  *
  * Core functions for managing importance rankings — ordered lists of page IDs
- * that serve as the source of truth for importance scores.
+ * from which importance scores are derived.
  *
  * Two ranking dimensions:
  *   - readership: How important is this page for readers navigating AI safety?
  *   - research:   How much value would deeper investigation of this topic yield?
  *
  * Numeric 0-100 scores in page frontmatter are derived from ranking positions.
+ * The rankings themselves are generated by a Bradley–Terry fit over pairwise
+ * judgments (see importance-comparisons.ts); don't edit them by hand.
  *
- * Data files:
+ * Data files (generated):
  *   data/reader-importance-ranking.yaml (readership ranking)
  *   data/research-ranking.yaml        (research importance ranking)
  */
@@ -95,8 +97,12 @@ const DIMENSION_LABELS: Record<string, { title: string; description: string }> =
   },
 };
 
-/** Save a ranking to YAML. */
-export function saveRanking(data: RankingData, dimension: string = DEFAULT_DIMENSION): void {
+/** Save a ranking to YAML. Called by the comparisons fit, which owns these files. */
+export function saveRanking(
+  data: RankingData,
+  dimension: string = DEFAULT_DIMENSION,
+  meta: { comparisons?: number } = {},
+): void {
   const file = getRankingFile(dimension);
   const label = DIMENSION_LABELS[dimension] || DIMENSION_LABELS.readership;
 
@@ -104,10 +110,12 @@ export function saveRanking(data: RankingData, dimension: string = DEFAULT_DIMEN
     `# ${label.title}`,
     `# ${label.description}`,
     '#',
-    '# This list is the source of truth. Scores are derived from position.',
+    `# GENERATED from data/importance-comparisons/${dimension}.yaml — do not edit.`,
+    `# Run \`pnpm crux importance fit --apply\` to regenerate after adding comparisons.`,
     `# Run \`pnpm crux importance sync --apply\` to write scores to frontmatter.`,
     '#',
     `# Total ranked: ${data.ranking.length}`,
+    ...(meta.comparisons != null ? [`# Comparisons: ${meta.comparisons}`] : []),
     '',
   ].join('\n');
 
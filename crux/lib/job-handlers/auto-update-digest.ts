@@ -2,8 +2,9 @@
  * Auto-Update Digest Job Handler
  *
  * Runs the first three stages of the auto-update pipeline (fetch → digest → route)
- * and creates individual page-improve jobs for each planned update, followed by
- * a batch-commit job that will collect all results into a single PR.
+ * and enqueues a job graph: one page-improve job per planned update, plus a
+ * batch-commit job that depends on all of them and collects their results
+ * into a single PR once they have completed.
  *
  * This replaces the monolithic auto-update orchestrator's execution stage with
  * a parallelizable job-based approach:
@@ -20,7 +21,7 @@
  */
 
 import type { JobHandlerContext, JobHandlerResult, AutoUpdateDigestParams } from './types.ts';
-import { createJob, createJobBatch } from '../wiki-server/jobs.ts';
+import { submitJobGraph, type JobGraphNode } from './job-graph.ts';
 
 export async function handleAutoUpdateDigest(
   params: Record<string, unknown>,
@@ -174,14 +175,15 @@ export async function handleAutoUpdateDigest(
 
     const costMap: Record<string, number> = { polish: 2.5, standard: 6.5, deep: 12.5 };
     let budgetUsed = 0;
-    const jobInputs: Array<{
-      type: string;
-      params: Record<string, unknown>;
-      priority: number;
-      maxRetries: number;
-    }> = [];
+    const improveNodes: JobGraphNode[] = [];
+
+    // Keyed on this job so a retried digest doesn't enqueue the graph twice
+    const keyPrefix = ctx.jobId ? `auto-update-digest:${ctx.jobId}` : batchId;
 
     for (const update of plan.pageUpdates) {
+      const key = `improve:${update.pageId}`;
+      if (improveNodes.some((node) => node.key === key)) continue;
+
       const cost = costMap[update.suggestedTier] || 6.5;
       if (budgetUsed + cost > budget) {
         if (ctx.verbose) {
@@ -190,7 +192,9 @@ export async function handleAutoUpdateDigest(
         continue;
       }
 
-      jobInputs.push({
+      improveNodes.push({
+        key,
+        idempotencyKey: `${keyPrefix}:improve:${update.pageId}`,
         type: 'page-improve',
         params: {
           pageId: update.pageId,
@@ -205,51 +209,39 @@ export async function handleAutoUpdateDigest(
       budgetUsed += cost;
     }
 
-    // Create all page-improve jobs
-    const childJobIds: number[] = [];
-    const createResult = await createJobBatch(jobInputs);
-
-    if (!createResult.ok) {
-      // Fall back to individual creation
-      if (ctx.verbose) {
-        console.log('  Batch creation failed, falling back to individual...');
-      }
-      for (const input of jobInputs) {
-        const singleResult = await createJob(input);
-        if (singleResult.ok) {
-          childJobIds.push(singleResult.data.id);
-        }
-      }
-    } else {
-      for (const job of createResult.data) {
-        childJobIds.push(job.id);
-      }
-    }
-
-    if (ctx.verbose) {
-      console.log(`  Created ${childJobIds.length} page-improve jobs`);
-    }
-
-    // Create the batch-commit job
-    let batchCommitJobId: number | null = null;
-    const commitResult = await createJob({
+    // Enqueue the page-improve jobs and a batch-commit that waits for them;
+    // batch-commit collects results from its dependencies, so it needs no IDs
+    const commitNode: JobGraphNode = {
+      key: 'commit',
+      idempotencyKey: `${keyPrefix}:commit`,
       type: 'batch-commit',
       params: {
         batchId,
-        childJobIds,
         prTitle: `Auto-update: ${date} daily wiki refresh`,
-        prBody: `Automated news-driven wiki update via job queue.\n\n- **Sources checked**: ${fetchResult.fetchedSources.length}\n- **Relevant items**: ${digest.itemCount}\n- **Pages updated**: ${childJobIds.length}`,
+        prBody: `Automated news-driven wiki update via job queue.\n\n- **Sources checked**: ${fetchResult.fetchedSources.length}\n- **Relevant items**: ${digest.itemCount}\n- **Pages updated**: ${improveNodes.length}`,
         prLabels: ['auto-update'],
       },
-      priority: 1, // Lower priority — should run after all page-improve jobs
-      maxRetries: 5, // More retries since it depends on children
-    });
+      priority: 1,
+      maxRetries: 3,
+      after: improveNodes.map((node) => node.key),
+    };
+    const graphResult = await submitJobGraph(
+      improveNodes.length > 0 ? [...improveNodes, commitNode] : [],
+    );
 
-    if (commitResult.ok) {
-      batchCommitJobId = commitResult.data.id;
-      if (ctx.verbose) {
-        console.log(`  Created batch-commit job #${batchCommitJobId}`);
-      }
+    if (!graphResult.ok) {
+      return {
+        success: false,
+        data: { batchId, date, durationMs: Date.now() - startTime },
+        error: `Failed to enqueue job graph: ${graphResult.message}`,
+      };
+    }
+
+    const childJobIds = improveNodes.map((node) => graphResult.data[node.key].id);
+    const batchCommitJobId = graphResult.data.commit?.id ?? null;
+
+    if (ctx.verbose) {
+      console.log(`  Created ${childJobIds.length} page-improve jobs and batch-commit job #${batchCommitJobId}`);
     }
 
     const durationMs = Date.now() - startTime;
@@ -269,7 +261,7 @@ export async function handleAutoUpdateDigest(
         batchCommitJobId,
         estimatedBudget: budgetUsed,
         durationMs,
-        plannedUpdates: plan.pageUpdates.slice(0, jobInputs.length).map(u => ({
+        plannedUpdates: plan.pageUpdates.slice(0, improveNodes.length).map(u => ({
           pageId: u.pageId,
           pageTitle: u.pageTitle,
           tier: u.suggestedTier,
@@ -11,7 +11,9 @@
  *
  * Params:
  *   - batchId: string (required) — identifies the batch
- *   - childJobIds: number[] (required) — job IDs to collect results from
+ *   - childJobIds: number[] (optional) — job IDs to collect results from;
+ *     defaults to the job's dependencies, so a batch-commit enqueued in a job
+ *     graph after its content jobs needs no IDs up front
  *   - branchName: string (optional) — branch name (default: auto-generated)
  *   - prTitle: string (required) — PR title
  *   - prBody: string (optional) — PR body markdown
@@ -21,7 +23,7 @@
 import { execFileSync } from 'child_process';
 import type { JobHandlerContext, JobHandlerResult, BatchCommitParams, FileChange } from './types.ts';
 import { getJob } from '../wiki-server/jobs.ts';
-import { applyFileChanges } from './utils.ts';
+import { applyFileChanges, runCommand } from './utils.ts';
 
 /** Maximum number of incomplete child jobs before we give up waiting */
 const MAX_INCOMPLETE_TOLERANCE = 0;
@@ -46,7 +48,7 @@ export async function handleBatchCommit(
 ): Promise<JobHandlerResult> {
   const {
     batchId,
-    childJobIds,
+    childJobIds = ctx.dependsOn,
     branchName,
     prTitle,
     prBody,
@@ -57,7 +59,7 @@ export async function handleBatchCommit(
     return { success: false, data: {}, error: 'Missing required param: batchId' };
   }
   if (!childJobIds || childJobIds.length === 0) {
-    return { success: false, data: {}, error: 'Missing required param: childJobIds (must be non-empty array)' };
+    return { success: false, data: {}, error: 'Missing required param: childJobIds (must be non-empty array, or run the job with dependencies)' };
   }
   if (!prTitle) {
     return { success: false, data: {}, error: 'Missing required param: prTitle' };
@@ -214,13 +216,13 @@ export async function handleBatchCommit(
 
     let validationPassed = false;
     try {
-      execFileSync('node', [
+      await runCommand('node', [
         '--import', 'tsx/esm', '--no-warnings',
         'crux/crux.mjs', 'validate', 'gate', '--fix',
       ], {
         cwd: ctx.projectRoot,
         timeout: 10 * 60 * 1000,
-        stdio: ctx.verbose ? 'inherit' : 'pipe',
+        inheritStdio: ctx.verbose,
       });
       validationPassed = true;
     } catch {
@@ -8,12 +8,12 @@
  * JobHandlerResult with success/failure status and result data.
  */
 
-import { execFileSync } from 'child_process';
 import type { JobHandler } from './types.ts';
 import { handlePageImprove } from './page-improve.ts';
 import { handlePageCreate } from './page-create.ts';
 import { handleBatchCommit } from './batch-commit.ts';
 import { handleAutoUpdateDigest } from './auto-update-digest.ts';
+import { runCommand } from './utils.ts';
 
 // ---------------------------------------------------------------------------
 // Handler Registry
@@ -35,14 +35,12 @@ const handlers: Record<string, JobHandler> = {
     }
 
     try {
-      const output = execFileSync('node', [
+      const output = await runCommand('node', [
         '--import', 'tsx/esm', '--no-warnings',
         'crux/crux.mjs', 'citations', 'verify', pageId, '--json',
       ], {
         cwd: ctx.projectRoot,
-        encoding: 'utf-8',
         timeout: 5 * 60 * 1000,
-        stdio: ['pipe', 'pipe', 'pipe'],
       });
 
       try {
@@ -0,0 +1,106 @@
+/**
+ * Job Graphs
+ *
+ * Express a multi-step pipeline as a set of jobs with dependency edges and
+ * enqueue it in one go. The server holds each job until everything it
+ * depends on has completed, and cancels it if a dependency fails — so a
+ * batch-commit node that runs `after` its page-improve nodes no longer needs
+ * to poll or retry while children are still running.
+ *
+ * Example:
+ *   await submitJobGraph([
+ *     { key: 'improve:a', type: 'page-improve', params: { pageId: 'a', tier: 'polish' } },
+ *     { key: 'improve:b', type: 'page-improve', params: { pageId: 'b', tier: 'polish' } },
+ *     { key: 'commit', type: 'batch-commit', params: { ... }, after: ['improve:a', 'improve:b'] },
+ *   ]);
+ */
+
+import { createJobBatch, type CreateJobBatchItemInput, type JobEntry } from '../wiki-server/jobs.ts';
+import { apiOk, type ApiResult } from '../wiki-server/client.ts';
+
+/** Jobs per create request (JOBS_MAX_BATCH_SIZE on the server). */
+const GRAPH_CHUNK_SIZE = 50;
+
+export interface JobGraphNode extends Omit<CreateJobBatchItemInput, 'dependsOnIndex'> {
+  /** Unique key within the graph, referenced by other nodes' `after`. */
+  key: string;
+  /** Keys of nodes in this graph that must complete first. */
+  after?: string[];
+}
+
+/**
+ * Order nodes so every node comes after the nodes it depends on, keeping the
+ * input order otherwise. Throws on duplicate keys, unknown keys, or cycles.
+ */
+export function orderJobGraph(nodes: JobGraphNode[]): JobGraphNode[] {
+  const byKey = new Map<string, JobGraphNode>();
+  for (const node of nodes) {
+    if (byKey.has(node.key)) throw new Error(`Duplicate job graph key: ${node.key}`);
+    byKey.set(node.key, node);
+  }
+  for (const node of nodes) {
+    for (const dep of node.after ?? []) {
+      if (!byKey.has(dep)) throw new Error(`Job graph node "${node.key}" depends on unknown key "${dep}"`);
+    }
+  }
+
+  const ordered: JobGraphNode[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (node: JobGraphNode, path: string[]) => {
+    const s = state.get(node.key);
+    if (s === 'done') return;
+    if (s === 'visiting') {
+      throw new Error(`Job graph has a cycle: ${[...path, node.key].join(' → ')}`);
+    }
+    state.set(node.key, 'visiting');
+    for (const dep of node.after ?? []) visit(byKey.get(dep)!, [...path, node.key]);
+    state.set(node.key, 'done');
+    ordered.push(node);
+  };
+
+  for (const node of nodes) visit(node, []);
+  return ordered;
+}
+
+/**
+ * Create every job in the graph, wiring `after` edges to server-side
+ * dependencies. Returns the created jobs by key.
+ *
+ * Graphs up to GRAPH_CHUNK_SIZE jobs are created atomically in one request.
+ * Larger graphs are split into ordered chunks; edges into an earlier chunk
+ * use the job IDs it returned. Give nodes an `idempotencyKey` so a retry
+ * after a partial failure does not enqueue the first chunks twice.
+ */
+export async function submitJobGraph(
+  nodes: JobGraphNode[],
+): Promise<ApiResult<Record<string, JobEntry>>> {
+  const ordered = orderJobGraph(nodes);
+  const created: Record<string, JobEntry> = {};
+
+  for (let start = 0; start < ordered.length; start += GRAPH_CHUNK_SIZE) {
+    const chunk = ordered.slice(start, start + GRAPH_CHUNK_SIZE);
+    const indexInChunk = new Map(chunk.map((node, i) => [node.key, i]));
+
+    const inputs: CreateJobBatchItemInput[] = chunk.map(({ key: _key, after = [], ...input }) => {
+      const dependsOnIndex = after.filter((dep) => indexInChunk.has(dep)).map((dep) => indexInChunk.get(dep)!);
+      const dependsOn = [
+        ...(input.dependsOn ?? []),
+        ...after.filter((dep) => !indexInChunk.has(dep)).map((dep) => created[dep].id),
+      ];
+      return {
+        ...input,
+        ...(dependsOn.length > 0 ? { dependsOn } : {}),
+        ...(dependsOnIndex.length > 0 ? { dependsOnIndex } : {}),
+      };
+    });
+
+    const result = await createJobBatch(inputs);
+    if (!result.ok) return result;
+    result.data.forEach((job, i) => {
+      created[chunk[i].key] = job;
+    });
+  }
+
+  return apiOk(created);
+}
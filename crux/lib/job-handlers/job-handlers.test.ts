@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { JobHandlerContext } from './types.ts';
 
+const createJobBatch = vi.fn();
+vi.mock('../wiki-server/jobs.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../wiki-server/jobs.ts')>()),
+  createJobBatch: (...args: unknown[]) => createJobBatch(...args),
+}));
+
 // ---------------------------------------------------------------------------
 // Test context helper
 // ---------------------------------------------------------------------------
@@ -163,6 +169,17 @@ describe('job-handlers/batch-commit', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('prTitle');
   });
+
+  it('defaults childJobIds to the job dependencies', async () => {
+    const { handleBatchCommit } = await import('./batch-commit.ts');
+    const result = await handleBatchCommit(
+      { batchId: 'test' },
+      makeContext({ dependsOn: [1, 2] }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('prTitle');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -178,6 +195,71 @@ describe('job-handlers/auto-update-digest', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Job Graph Tests
+// ---------------------------------------------------------------------------
+
+describe('job-handlers/job-graph', () => {
+  beforeEach(() => {
+    createJobBatch.mockReset();
+    // Echo inputs back as created jobs with sequential IDs
+    let nextId = 1;
+    createJobBatch.mockImplementation(async (inputs: Array<Record<string, unknown>>) => ({
+      ok: true,
+      data: inputs.map((input) => ({ ...input, id: nextId++ })),
+    }));
+  });
+
+  it('orders nodes after their dependencies', async () => {
+    const { orderJobGraph } = await import('./job-graph.ts');
+    const ordered = orderJobGraph([
+      { key: 'commit', type: 'batch-commit', after: ['a', 'b'] },
+      { key: 'a', type: 'page-improve' },
+      { key: 'b', type: 'page-improve', after: ['a'] },
+    ]);
+    expect(ordered.map((n) => n.key)).toEqual(['a', 'b', 'commit']);
+  });
+
+  it('rejects cycles, duplicate keys and unknown keys', async () => {
+    const { orderJobGraph } = await import('./job-graph.ts');
+    expect(() => orderJobGraph([
+      { key: 'a', type: 'x', after: ['b'] },
+      { key: 'b', type: 'x', after: ['a'] },
+    ])).toThrow(/cycle/);
+    expect(() => orderJobGraph([{ key: 'a', type: 'x' }, { key: 'a', type: 'x' }])).toThrow(/Duplicate/);
+    expect(() => orderJobGraph([{ key: 'a', type: 'x', after: ['nope'] }])).toThrow(/unknown key/);
+  });
+
+  it('submits a small graph as one batch with index dependencies', async () => {
+    const { submitJobGraph } = await import('./job-graph.ts');
+    const result = await submitJobGraph([
+      { key: 'a', type: 'page-improve' },
+      { key: 'b', type: 'page-improve' },
+      { key: 'commit', type: 'batch-commit', after: ['a', 'b'] },
+    ]);
+
+    expect(createJobBatch).toHaveBeenCalledTimes(1);
+    const inputs = createJobBatch.mock.calls[0][0];
+    expect(inputs[2]).toEqual({ type: 'batch-commit', dependsOnIndex: [0, 1] });
+    expect(inputs[0]).not.toHaveProperty('key');
+    expect(result.ok && result.data.commit.id).toBe(3);
+  });
+
+  it('links chunks of a large graph by job ID', async () => {
+    const { submitJobGraph } = await import('./job-graph.ts');
+    const children = Array.from({ length: 50 }, (_, i) => ({ key: `p${i}`, type: 'page-improve' }));
+    await submitJobGraph([
+      ...children,
+      { key: 'commit', type: 'batch-commit', after: children.map((c) => c.key) },
+    ]);
+
+    expect(createJobBatch).toHaveBeenCalledTimes(2);
+    const [commit] = createJobBatch.mock.calls[1][0];
+    expect(commit.dependsOn).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+    expect(commit).not.toHaveProperty('dependsOnIndex');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Utils Tests
 // ---------------------------------------------------------------------------
@@ -218,6 +300,16 @@ describe('job-handlers/utils', () => {
     expect(result.errors.filter(e => e.includes('not a content file')).length).toBe(2);
     expect(result.applied).toBe(0);
   });
+
+  it('runCommand resolves with stdout and rejects on failure', async () => {
+    const { runCommand } = await import('./utils.ts');
+    const opts = { cwd: process.cwd(), timeout: 10_000 };
+
+    await expect(runCommand('node', ['-e', 'process.stdout.write("hi")'], opts)).resolves.toBe('hi');
+    await expect(
+      runCommand('node', ['-e', 'console.error("bad"); process.exit(3)'], opts),
+    ).rejects.toThrow(/exited with code 3: bad/);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -13,7 +13,7 @@
 
 import { execFileSync } from 'child_process';
 import type { JobHandlerContext, JobHandlerResult, PageCreateParams } from './types.ts';
-import { collectChangedFiles, restoreGitState, isContentFile } from './utils.ts';
+import { collectChangedFiles, restoreGitState, isContentFile, runCommand } from './utils.ts';
 
 export async function handlePageCreate(
   params: Record<string, unknown>,
@@ -48,17 +48,15 @@ export async function handlePageCreate(
       '--tier', tier,
     ];
 
-    const output = execFileSync('node', args, {
+    const output = await runCommand('node', args, {
       cwd: ctx.projectRoot,
       timeout: 30 * 60 * 1000,
-      stdio: ctx.verbose ? 'inherit' : 'pipe',
-      encoding: 'utf-8',
-      env: { ...process.env },
+      inheritStdio: ctx.verbose,
     });
 
-    // Try to extract the created page ID from output
+    // Try to extract the created page ID from output (empty when stdio is inherited)
     let pageId: string | null = null;
-    if (typeof output === 'string') {
+    if (output) {
       const match = output.match(/Page created:\s+(\S+)/i) || output.match(/id:\s*["']?(\S+?)["']?\s/);
       if (match) pageId = match[1];
     }
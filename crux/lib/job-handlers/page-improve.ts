@@ -14,7 +14,7 @@
 
 import { execFileSync } from 'child_process';
 import type { JobHandlerContext, JobHandlerResult, PageImproveParams } from './types.ts';
-import { collectChangedFiles, restoreGitState, isContentFile } from './utils.ts';
+import { collectChangedFiles, restoreGitState, isContentFile, runCommand } from './utils.ts';
 
 export async function handlePageImprove(
   params: Record<string, unknown>,
@@ -55,11 +55,10 @@ export async function handlePageImprove(
       args.push('--directions', directions);
     }
 
-    execFileSync('node', args, {
+    await runCommand('node', args, {
       cwd: ctx.projectRoot,
       timeout: 30 * 60 * 1000, // 30 min per page
-      stdio: ctx.verbose ? 'inherit' : 'pipe',
-      env: { ...process.env },
+      inheritStdio: ctx.verbose,
     });
 
     // Run escaping fix on the changed files
@@ -26,6 +26,10 @@ export interface JobHandlerContext {
   projectRoot: string;
   /** Whether to print verbose output */
   verbose: boolean;
+  /** ID of the job being run */
+  jobId?: number;
+  /** Jobs this job depended on — all completed by the time it runs */
+  dependsOn?: number[];
 }
 
 export interface JobHandlerResult {
@@ -78,8 +82,8 @@ export interface PageCreateParams {
 
 export interface BatchCommitParams {
   batchId: string;
-  /** Job IDs to collect results from */
-  childJobIds: number[];
+  /** Job IDs to collect results from (default: the job's dependencies) */
+  childJobIds?: number[];
   /** Branch name to create (default: auto-generated) */
   branchName?: string;
   /** PR title */
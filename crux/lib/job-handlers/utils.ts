@@ -5,7 +5,7 @@
  * and other common operations used by job handlers.
  */
 
-import { execFileSync } from 'child_process';
+import { execFileSync, spawn } from 'child_process';
 import { readFileSync, writeFileSync, unlinkSync, mkdirSync } from 'fs';
 import { dirname, join, resolve } from 'path';
 import type { FileChange } from './types.ts';
@@ -206,3 +206,44 @@ export function applyFileChanges(
 
   return { applied, errors, appliedPaths };
 }
+
+// ---------------------------------------------------------------------------
+// Child Processes
+// ---------------------------------------------------------------------------
+
+/**
+ * Async counterpart of execFileSync for long-running pipeline steps. Unlike
+ * execFileSync it leaves the worker's event loop free, so lease heartbeats
+ * keep firing while the step runs. Resolves with stdout (empty when stdio is
+ * inherited); rejects on a non-zero exit or timeout.
+ */
+export function runCommand(
+  file: string,
+  args: string[],
+  opts: { cwd: string; timeout: number; inheritStdio?: boolean },
+): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(file, args, {
+      cwd: opts.cwd,
+      env: { ...process.env },
+      stdio: opts.inheritStdio ? 'inherit' : 'pipe',
+      timeout: opts.timeout,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.setEncoding('utf-8').on('data', (chunk: string) => { stdout += chunk; });
+    child.stderr?.setEncoding('utf-8').on('data', (chunk: string) => { stderr += chunk; });
+
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolvePromise(stdout);
+        return;
+      }
+      const reason = signal ? `killed by ${signal}` : `exited with code ${code}`;
+      const detail = stderr.trim() ? `: ${stderr.trim().slice(-500)}` : '';
+      reject(new Error(`${file} ${reason}${detail}`));
+    });
+  });
+}
@@ -6,12 +6,16 @@
  *
  * The YAML key-persons entries use slugs for the `person` field (e.g., "dario-amodei"),
  * while PG stores canonical entity IDs (10-char hashes). This module resolves
- * slugs to entity IDs during extraction using the KB graph.
+ * slugs to entity IDs during extraction using the KB graph, falling back to
+ * the alias-aware entity resolver (scoped by the org) for slugs that don't
+ * name a KB thing. Plausible but unconfirmed matches become review items.
  */
 
 import { loadGraphFull, type LoadedKB } from './factbase-loader.ts';
 import { generateId } from './grant-import/id.ts';
 import { apiRequest, getServerUrl } from './wiki-server/client.ts';
+import { createLocalEntityResolver, resolveName, toReviewItem } from './entity-resolution.ts';
+import type { EntityReviewItemInput } from './wiki-server/entity-resolution.ts';
 
 // ── Types ────────────────────────────────────────────────────────────
 
@@ -50,19 +54,33 @@ export interface ExtractedKeyPerson {
 
 // ── Extraction ───────────────────────────────────────────────────────
 
+export interface FuzzyResolvedPerson {
+  orgSlug: string;
+  personSlug: string;
+  /** Slug of the entity the resolver picked */
+  matchedSlug: string;
+  confidence: number;
+}
+
 /**
  * Extract all key-persons records from the KB graph.
- * Resolves person slugs to entity IDs using the graph's filename map.
+ * Resolves person slugs to entity IDs using the graph's filename map, then
+ * the entity resolver.
  */
 export async function extractKeyPersons(): Promise<{
   records: ExtractedKeyPerson[];
   unresolved: Array<{ orgSlug: string; personSlug: string; yamlKey: string }>;
+  fuzzyResolved: FuzzyResolvedPerson[];
+  reviews: EntityReviewItemInput[];
 }> {
   const kb = await loadGraphFull();
   const { graph, filenameMap, idByFilename } = kb;
 
   const records: ExtractedKeyPerson[] = [];
   const unresolved: Array<{ orgSlug: string; personSlug: string; yamlKey: string }> = [];
+  const fuzzyResolved: FuzzyResolvedPerson[] = [];
+  const reviews: EntityReviewItemInput[] = [];
+  const resolver = createLocalEntityResolver();
 
   // Scan all entities for key-persons collections
   for (const entity of graph.getAllEntities()) {
@@ -86,6 +104,17 @@ export async function extractKeyPersons(): Promise<{
         personEntityId = idByFilename.get(personSlug) ?? null;
       }
 
+      if (!personEntityId && personSlug) {
+        const query = { name: personSlug, entityType: 'person', parent: orgSlug };
+        const { match, matches, review } = resolveName(resolver, query);
+        if (match) {
+          personEntityId = match.stableId;
+          fuzzyResolved.push({ orgSlug, personSlug, matchedSlug: match.slug, confidence: match.confidence });
+        } else if (review) {
+          reviews.push(toReviewItem(query, matches, 'key-persons'));
+        }
+      }
+
       if (!personEntityId) {
         unresolved.push({ orgSlug, personSlug, yamlKey: entry.key });
       }
@@ -106,7 +135,7 @@ export async function extractKeyPersons(): Promise<{
     }
   }
 
-  return { records, unresolved };
+  return { records, unresolved, fuzzyResolved, reviews };
 }
 
 // ── Conversion to sync items ─────────────────────────────────────────
@@ -6,8 +6,13 @@
  *   1. Exact substring match (score: 1.0)
  *   2. Normalized match — collapse whitespace, ignore punctuation (score: 0.95)
  *   3. Fuzzy match — sliding window with Jaccard similarity on word sets (score: 0.0-0.9)
+ *
+ * verifyQuoteInSnapshot() runs the same check against an archived snapshot
+ * (see citation/source-archive.ts) rather than the source's current content.
  */
 
+import { readArchivedText } from './citation/source-archive.ts';
+
 export interface VerificationResult {
   verified: boolean;
   method: 'exact' | 'normalized' | 'fuzzy' | 'none';
@@ -117,3 +122,16 @@ export function verifyQuoteInSource(
     matchOffset: fuzzyScore >= FUZZY_THRESHOLD ? bestOffset : undefined,
   };
 }
+
+/**
+ * Verify a quote against the archived text it was extracted from.
+ * Returns null when that snapshot is not in the local archive.
+ */
+export function verifyQuoteInSnapshot(
+  quote: string,
+  textSha256: string,
+): VerificationResult | null {
+  const text = readArchivedText(textSha256);
+  if (text === null) return null;
+  return verifyQuoteInSource(quote, text);
+}
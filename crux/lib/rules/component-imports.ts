@@ -27,7 +27,11 @@ const WIKI_COMPONENTS = [
   'ResourceTags',
   'F',
   'Calc',
+  'CalcEstimate',
   'SquiggleEstimate',
+  'EstimatesChart',
+  'EstimateAggregate',
+  'PageForecasts',
 ];
 
 // Pattern to find any import that includes a component name
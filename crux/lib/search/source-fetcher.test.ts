@@ -38,6 +38,12 @@ vi.mock('../wiki-server/citations.ts', () => ({
   getCitationContentByUrl: vi.fn().mockResolvedValue({ ok: false, error: 'unavailable', message: 'no server' }),
 }));
 
+// Mock the local source archive so fetches don't write snapshots to .cache/
+vi.mock('../citation/source-archive.ts', () => ({
+  archiveSnapshot: vi.fn((input: { url: string }) => ({ url: input.url, sha256: 'raw-hash', textSha256: 'text-hash' })),
+  tryArchive: (_url: string, archive: () => unknown) => archive(),
+}));
+
 // Mock the resource-lookup layer so tests don't require YAML files on disk.
 const mockResources = new Map<string, { id: string; url: string; title: string; type: string; summary?: string; authors?: string[]; tags?: string[] }>([
   ['res-safety-paper', {
@@ -13,6 +13,8 @@
  *   - In-memory Map for session-level deduplication (cleared on process exit)
  *   - In-memory citation content cache for cross-request deduplication within a session
  *   - PostgreSQL (wiki-server) citation_content.full_text — durable cross-machine cache
+ *   - Local source archive (.cache/source-archive) — every network fetch, raw bytes
+ *     and text, kept per content hash for later quote verification
  *
  * Usage:
  *   import { fetchSource, fetchSources, extractRelevantExcerpts } from './source-fetcher.ts';
@@ -43,6 +45,7 @@ import {
   type ResourceEntry,
 } from './resource-lookup.ts';
 import { isYoutubeUrl } from '../../resource-utils.ts';
+import { archiveSnapshot, tryArchive, type SourceSnapshot } from '../citation/source-archive.ts';
 import {
   detectPaywall,
   isUnverifiableDomain,
@@ -86,6 +89,8 @@ export interface FetchedSource {
   status: FetchedSourceStatus;
   /** Content type: 'html' (default), 'pdf' (extracted text), or 'transcript' (YouTube) */
   contentType?: FetchedSourceContentType;
+  /** Local archive snapshot of this content (network fetches only) */
+  snapshot?: SourceSnapshot;
   /** Resource metadata, present when the URL matched a known resource */
   resource?: {
     id: string;
@@ -377,6 +382,8 @@ interface BuiltinFetchResult {
   httpStatus: number;
   error: string | null;
   contentType: FetchedSourceContentType;
+  /** Raw response for the source archive (successful HTML/PDF responses only) */
+  raw?: { body: Buffer; mime: string; headers: Headers };
 }
 
 async function fetchWithBuiltin(url: string): Promise<BuiltinFetchResult> {
@@ -410,9 +417,13 @@ async function fetchWithBuiltin(url: string): Promise<BuiltinFetchResult> {
       if (responseContentType.includes('application/pdf')) {
         // PDF: extract text via pdf-parse
         const buffer = await response.arrayBuffer();
+        const body = Buffer.from(buffer);
         const text = await extractPdfWithPdfParse(buffer);
         if (text && text.length > 0) {
-          return { title: '', content: text, httpStatus: status, error: null, contentType: 'pdf' };
+          return {
+            title: '', content: text, httpStatus: status, error: null, contentType: 'pdf',
+            raw: { body, mime: responseContentType, headers: response.headers },
+          };
         }
         return { title: '(PDF)', content: '', httpStatus: status, error: 'PDF extraction failed', contentType: 'pdf' };
       }
@@ -421,11 +432,15 @@ async function fetchWithBuiltin(url: string): Promise<BuiltinFetchResult> {
         return { title: '', content: '', httpStatus: status, error: `non-HTML: ${responseContentType}`, contentType: 'html' };
       }
 
-      const html = await response.text();
+      const body = Buffer.from(await response.arrayBuffer());
+      const html = body.toString('utf-8');
       const title = extractTitle(html);
       const text = htmlToText(html).slice(0, MAX_CONTENT_CHARS);
 
-      return { title, content: text, httpStatus: status, error: null, contentType: 'html' };
+      return {
+        title, content: text, httpStatus: status, error: null, contentType: 'html',
+        raw: { body, mime: responseContentType, headers: response.headers },
+      };
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
       const isTransient = msg.includes('abort') || msg.includes('ECONNRESET') || msg.includes('timeout');
@@ -665,6 +680,11 @@ async function _fetchSourceCore(
     if (content.length > 0) {
       saveToMemoryCache(url, result.title, content, 200, 'transcript');
       saveToPostgres(url, result.title, content, 200, 'transcript', 'youtube-transcript');
+      const snapshot = tryArchive(url, () => archiveSnapshot({
+        url, body: content, text: content, httpStatus: 200, contentType: 'text/plain',
+        title: result.title, fetchMethod: 'youtube-transcript', fetchedAt: now,
+      }));
+      if (snapshot) result.snapshot = snapshot;
       sessionCacheSet(url, result);
     }
     return result;
@@ -682,6 +702,7 @@ async function _fetchSourceCore(
   let fetchError: string | null = null;
   let fetchedContentType: FetchedSourceContentType = 'html';
   let fetchMethod: string = 'built-in';
+  let raw: BuiltinFetchResult['raw'];
 
   const firecrawlResult = await fetchWithFirecrawl(fetchUrl);
   if (firecrawlResult) {
@@ -702,12 +723,14 @@ async function _fetchSourceCore(
         httpStatus = fallbackResult.httpStatus;
         fetchError = fallbackResult.error;
         fetchedContentType = fallbackResult.contentType;
+        raw = fallbackResult.raw;
       } else {
         title = builtinResult.title;
         content = builtinResult.content;
         httpStatus = builtinResult.httpStatus;
         fetchError = builtinResult.error;
         fetchedContentType = builtinResult.contentType;
+        raw = builtinResult.raw;
       }
     } else {
       title = builtinResult.title;
@@ -715,6 +738,7 @@ async function _fetchSourceCore(
       httpStatus = builtinResult.httpStatus;
       fetchError = builtinResult.error;
       fetchedContentType = builtinResult.contentType;
+      raw = builtinResult.raw;
     }
   }
 
@@ -734,10 +758,23 @@ async function _fetchSourceCore(
     status = 'ok';
   }
 
-  // ---- 6. Persist to in-memory cache and PostgreSQL (durable source of truth) ----
+  // ---- 6. Persist to in-memory cache, PostgreSQL (durable source of truth), and the local archive ----
+  let snapshot: SourceSnapshot | null = null;
   if (content.length > 0) {
     saveToMemoryCache(url, title, content, httpStatus, fetchedContentType);
     saveToPostgres(url, title, content, httpStatus, fetchedContentType, fetchMethod);
+    // Firecrawl returns only markdown, so that is the archived body
+    snapshot = tryArchive(url, () => archiveSnapshot({
+      url,
+      body: raw?.body ?? content,
+      text: content,
+      httpStatus,
+      contentType: raw?.mime ?? (fetchMethod === 'firecrawl' ? 'text/markdown' : contentTypeToMime(fetchedContentType)),
+      headers: raw?.headers,
+      title,
+      fetchMethod,
+      fetchedAt: now,
+    }));
   }
 
   // ---- 7. Extract excerpts ----
@@ -751,6 +788,7 @@ async function _fetchSourceCore(
   const result: FetchedSource = {
     url, title: finalTitle, fetchedAt: now, content, relevantExcerpts: excerpts,
     status, contentType: fetchedContentType, resource: resourceMeta,
+    ...(snapshot ? { snapshot } : {}),
   };
 
   // ---- 9. Store in session cache ----
@@ -784,8 +822,8 @@ async function _fetchSourceCore(
  *   5. YouTube transcript API (if URL is YouTube and no cache hit)
  *   6. Network fetch (Firecrawl preferred, built-in fallback; arXiv rewritten to ar5iv)
  *
- * Writes: successful network fetches are stored in memory cache and
- * PostgreSQL (durable, fire-and-forget).
+ * Writes: successful network fetches are stored in memory cache,
+ * PostgreSQL (durable, fire-and-forget), and the local source archive.
  */
 export async function fetchSource(request: FetchRequest): Promise<FetchedSource> {
   const { extractMode, query } = request;
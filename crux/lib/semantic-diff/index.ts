@@ -39,6 +39,7 @@ export { diffClaims } from './diff-engine.ts';
 export { checkContradictions } from './contradiction-checker.ts';
 export { checkScope, checkContentScope, filterContentFiles, detectModifiedFiles } from './scope-checker.ts';
 export { storeSnapshot, loadSnapshot, listSnapshots, getLatestSnapshot, getSnapshotsDir } from './snapshot-store.ts';
+export { recordRevision, buildRevisionInput } from './revision-store.ts';
 export type * from './types.ts';
 
 // ---------------------------------------------------------------------------
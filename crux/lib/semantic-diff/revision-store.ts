@@ -0,0 +1,84 @@
+/**
+ * Revision Store
+ *
+ * Persists applied page changes with their semantic diff to the wiki-server
+ * (page_revisions table), where the /wiki/[id]/history viewer reads them.
+ *
+ * Unlike the local snapshot store, this is the durable audit trail: it is
+ * only written after the change has been applied, and is not pruned.
+ *
+ * Design decisions:
+ * - 'unchanged' claim entries are dropped — the summary keeps their count,
+ *   and reviewers only need what changed
+ * - Errors are logged but never thrown (the page is already written)
+ */
+
+import { createPageRevision, type CreatePageRevisionInput } from '../wiki-server/page-revisions.ts';
+import type { SemanticDiffResult } from './types.ts';
+
+/** Server-side caps on claim diff entries and contradictions per revision. */
+const MAX_DIFF_ENTRIES = 2000;
+const MAX_CONTRADICTIONS = 500;
+
+export interface RecordRevisionOptions {
+  /** Agent or pipeline that made the change (e.g., 'crux-improve'). */
+  agent: string;
+  /** Tier used for the improvement. */
+  tier?: string;
+}
+
+/**
+ * Build the page-revisions payload for an applied change.
+ */
+export function buildRevisionInput(
+  result: SemanticDiffResult,
+  beforeContent: string,
+  afterContent: string,
+  options: RecordRevisionOptions,
+): CreatePageRevisionInput {
+  return {
+    pageId: result.pageId,
+    agent: options.agent,
+    tier: options.tier ?? null,
+    contentBefore: beforeContent,
+    contentAfter: afterContent,
+    assessment: result.assessment,
+    issues: result.issues,
+    claimDiff: {
+      ...result.diff,
+      entries: result.diff.entries
+        .filter(e => e.status !== 'unchanged')
+        .slice(0, MAX_DIFF_ENTRIES),
+    },
+    contradictions: {
+      ...result.contradictions,
+      contradictions: result.contradictions.contradictions.slice(0, MAX_CONTRADICTIONS),
+    },
+  };
+}
+
+/**
+ * Record an applied change and its semantic diff on the wiki-server.
+ * Returns the revision ID, or null if the server is unavailable or rejected it.
+ */
+export async function recordRevision(
+  result: SemanticDiffResult,
+  beforeContent: string,
+  afterContent: string,
+  options: RecordRevisionOptions,
+): Promise<number | null> {
+  try {
+    const saved = await createPageRevision(
+      buildRevisionInput(result, beforeContent, afterContent, options),
+    );
+    if (!saved.ok) {
+      console.warn(`[semantic-diff] Could not record revision for ${result.pageId}: ${saved.message}`);
+      return null;
+    }
+    return saved.data.id;
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.warn(`[semantic-diff] Failed to record revision for ${result.pageId}: ${error.message}`);
+    return null;
+  }
+}
@@ -5,7 +5,7 @@
  * 1. MDX preprocessing for claim extraction
  * 2. Claim diff engine (pure, no LLM)
  * 3. Scope checker (pure, no LLM)
- * 4. Snapshot storage
+ * 4. Snapshot storage and revision payloads
  * 5. Assessment logic
  * 6. Adversarial cases (hallucination, scope violation attempts)
  */
@@ -19,7 +19,8 @@ import { preprocessMdxForExtraction, splitIntoChunks } from './claim-extractor.t
 import { diffClaims } from './diff-engine.ts';
 import { checkScope, checkContentScope, filterContentFiles, detectModifiedFiles } from './scope-checker.ts';
 import { storeSnapshot, loadSnapshot, listSnapshots } from './snapshot-store.ts';
-import type { ExtractedClaim } from './types.ts';
+import { buildRevisionInput } from './revision-store.ts';
+import type { ExtractedClaim, SemanticDiffResult } from './types.ts';
 
 // ---------------------------------------------------------------------------
 // Fixtures
@@ -494,6 +495,27 @@ describe('storeSnapshot and loadSnapshot', () => {
   });
 });
 
+describe('buildRevisionInput', () => {
+  it('drops unchanged claims but keeps their count', () => {
+    const before = [makeClaim('Founded in 2015', 'temporal', '2015'), makeClaim('Employs 300 researchers', 'numeric', '300')];
+    const after = [makeClaim('Founded in 2015', 'temporal', '2015'), makeClaim('Employs 500 researchers', 'numeric', '500')];
+    const result: SemanticDiffResult = {
+      pageId: 'test-org',
+      timestamp: '2026-03-01T00:00:00.000Z',
+      diff: diffClaims(before, after),
+      contradictions: { contradictions: [], hasHighSeverity: false, summary: { high: 0, medium: 0, low: 0 } },
+      assessment: 'safe',
+      issues: [],
+    };
+
+    const input = buildRevisionInput(result, 'before', 'after', { agent: 'crux-improve', tier: 'polish' });
+
+    expect(input).toMatchObject({ pageId: 'test-org', agent: 'crux-improve', tier: 'polish', assessment: 'safe' });
+    expect(input.claimDiff.entries.map(e => e.status)).toEqual(['changed']);
+    expect(input.claimDiff.summary.unchanged).toBe(1);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 5. Adversarial/edge cases
 // ---------------------------------------------------------------------------
@@ -5,7 +5,8 @@
  * Snapshots are stored locally as JSON files in .claude/snapshots/.
  *
  * Design decisions:
- * - Local filesystem storage initially (can migrate to wiki-server later)
+ * - Local filesystem storage for every analyzed change, including blocked ones;
+ *   applied changes are also persisted to the wiki-server (see revision-store.ts)
  * - JSON format for easy programmatic access
  * - Files are gitignored (audit trail, not source code)
  * - Retention: last 30 snapshots per page (older ones pruned automatically)
@@ -13,6 +13,7 @@ import type {
   AccuracyVerdict as AccuracyVerdictType,
   MarkAccuracy,
   UpsertCitationContent,
+  RecordCitationDrift,
 } from '../../../apps/wiki-server/src/api-types.ts';
 
 // ---------------------------------------------------------------------------
@@ -40,11 +41,14 @@ type CitationBrokenQuotesResult = InferResponseType<RpcClient['broken']['$get'],
 type QuotesByPageResult = InferResponseType<RpcClient['quotes']['$get'], 200>;
 type AllQuotesResult = InferResponseType<RpcClient['quotes']['all']['$get'], 200>;
 type PagesWithQuotesResult = InferResponseType<RpcClient['pages-with-quotes']['$get'], 200>;
+type QuotesByUrlResult = InferResponseType<RpcClient['quotes-by-url']['$get'], 200>;
 type UnverifiedQuotesResult = InferResponseType<RpcClient['unverified']['$get'], 200>;
 type MarkVerifiedResult = InferResponseType<RpcClient['quotes']['mark-verified']['$post'], 200>;
 type MarkUnverifiedResult = InferResponseType<RpcClient['quotes']['mark-unverified']['$post'], 200>;
 type SingleQuoteResult = InferResponseType<RpcClient['quotes'][':pageId'][':footnote']['$get'], 200>;
 type AccuracySummaryResult = InferResponseType<RpcClient['accuracy-summary']['$get'], 200>;
+type RecordDriftResult = InferResponseType<RpcClient['drift-events']['$post'], 201>;
+type DriftEventsResult = InferResponseType<RpcClient['drift-events']['$get'], 200>;
 
 // ---------------------------------------------------------------------------
 // Citation Quotes Types — input (derived from server Zod schemas)
@@ -219,6 +223,13 @@ export async function getAllQuotes(limit = 100, offset = 0): Promise<ApiResult<A
   );
 }
 
+export async function getQuotesByUrl(url: string, limit = 500): Promise<ApiResult<QuotesByUrlResult>> {
+  return apiRequest<QuotesByUrlResult>(
+    'GET',
+    `/api/citations/quotes-by-url?url=${encodeURIComponent(url)}&limit=${limit}`,
+  );
+}
+
 export async function getPagesWithQuotes(): Promise<ApiResult<PagesWithQuotesResult>> {
   return apiRequest<PagesWithQuotesResult>('GET', '/api/citations/pages-with-quotes');
 }
@@ -269,3 +280,27 @@ export async function markQuoteUnverified(
 export async function getAccuracySummary(): Promise<ApiResult<AccuracySummaryResult>> {
   return apiRequest<AccuracySummaryResult>('GET', '/api/citations/accuracy-summary');
 }
+
+// ---------------------------------------------------------------------------
+// Citation Drift API functions
+// ---------------------------------------------------------------------------
+
+export type RecordCitationDriftInput = RecordCitationDrift;
+
+export type { RecordDriftResult, DriftEventsResult };
+
+export async function recordCitationDrift(
+  drift: RecordCitationDriftInput,
+): Promise<ApiResult<RecordDriftResult>> {
+  return apiRequest<RecordDriftResult>('POST', '/api/citations/drift-events', drift);
+}
+
+export async function getCitationDriftEvents(
+  pageId: string,
+  limit = 100,
+): Promise<ApiResult<DriftEventsResult>> {
+  return apiRequest<DriftEventsResult>(
+    'GET',
+    `/api/citations/drift-events?page_id=${encodeURIComponent(pageId)}&limit=${limit}`,
+  );
+}
@@ -57,6 +57,22 @@ describe('wiki-server/client', () => {
       const headers = client.buildHeaders();
       expect(headers['Authorization']).toBeUndefined();
     });
+
+    it('includes X-Caller from LONGTERMWIKI_CALLER', () => {
+      vi.stubEnv('LONGTERMWIKI_CALLER', 'agent:session-42');
+      const headers = client.buildHeaders();
+      expect(headers['X-Caller']).toBe('agent:session-42');
+      vi.unstubAllEnvs();
+    });
+
+    it('derives X-Caller from the GitHub Actions run', () => {
+      vi.stubEnv('LONGTERMWIKI_CALLER', '');
+      vi.stubEnv('GITHUB_ACTIONS', 'true');
+      vi.stubEnv('GITHUB_WORKFLOW', 'auto-update');
+      vi.stubEnv('GITHUB_RUN_ID', '123');
+      expect(client.getCaller()).toBe('github-actions:auto-update#123');
+      vi.unstubAllEnvs();
+    });
   });
 
   describe('WIKI_SERVER_ENV=prod prefix', () => {
@@ -48,7 +48,23 @@ export function getApiKey(): string {
 }
 
 /**
- * Build HTTP headers with the API key for wiki-server requests.
+ * Describe who is making requests, for the wiki-server audit log.
+ *
+ * `LONGTERMWIKI_CALLER` wins if set; inside GitHub Actions the workflow and
+ * run ID are used, so bulk syncs can be traced back to the CI run.
+ */
+export function getCaller(): string {
+  if (process.env.LONGTERMWIKI_CALLER) return process.env.LONGTERMWIKI_CALLER;
+  if (process.env.GITHUB_ACTIONS === 'true') {
+    const workflow = process.env.GITHUB_WORKFLOW || 'unknown';
+    return `github-actions:${workflow}#${process.env.GITHUB_RUN_ID || '?'}`;
+  }
+  return '';
+}
+
+/**
+ * Build HTTP headers with the API key (and caller, when known) for
+ * wiki-server requests.
  */
 export function buildHeaders(): Record<string, string> {
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -56,6 +72,10 @@ export function buildHeaders(): Record<string, string> {
   if (apiKey) {
     headers['Authorization'] = `Bearer ${apiKey}`;
   }
+  const caller = getCaller();
+  if (caller) {
+    headers['X-Caller'] = caller;
+  }
   return headers;
 }
 
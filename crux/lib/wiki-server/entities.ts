@@ -35,6 +35,9 @@ export type EntitySearchResult = InferResponseType<RpcClient['search']['$get'],
 /** Response type for GET /api/entities/stats (inferred from server). */
 export type EntityStatsResult = InferResponseType<RpcClient['stats']['$get'], 200>;
 
+/** Response type for POST /api/entities/merge (inferred from server). */
+export type MergeEntitiesResult = InferResponseType<RpcClient['merge']['$post'], 200>;
+
 // ---------------------------------------------------------------------------
 // Types — input (derived from server Zod schemas)
 // ---------------------------------------------------------------------------
@@ -123,3 +126,15 @@ export async function searchEntities(
 export async function getEntityStats(): Promise<ApiResult<EntityStatsResult>> {
   return apiRequest<EntityStatsResult>('GET', '/api/entities/stats');
 }
+
+/**
+ * Fold `dropId` into `keepId` on the server: facts, summaries and child
+ * things are re-pointed, the dropped identifiers recorded on the kept entity,
+ * and the dropped entity deleted. Ids may be slugs, stableIds or numericIds.
+ */
+export async function mergeEntities(
+  keepId: string,
+  dropId: string,
+): Promise<ApiResult<MergeEntitiesResult>> {
+  return apiRequest<MergeEntitiesResult>('POST', '/api/entities/merge', { keepId, dropId });
+}
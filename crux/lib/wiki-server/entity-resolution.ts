@@ -0,0 +1,102 @@
+/**
+ * Entity Resolution API — wiki-server client module
+ *
+ * Batch name → entity resolution and the review queue for names importers
+ * could not confidently match. Response types are inferred via Hono RPC
+ * InferResponseType<>.
+ */
+
+import { apiRequest, type ApiResult } from './client.ts';
+import type { hc, InferResponseType } from 'hono/client';
+import type { EntityResolutionRoute } from '../../../apps/wiki-server/src/routes/entity-resolution.ts';
+import type {
+  ResolveEntityQuery,
+  EntityReviewItem,
+  VALID_ENTITY_REVIEW_STATUSES,
+} from '../../../apps/wiki-server/src/api-types.ts';
+
+// ---------------------------------------------------------------------------
+// RPC client type (used only for response type inference)
+// ---------------------------------------------------------------------------
+
+type RpcClient = ReturnType<typeof hc<EntityResolutionRoute>>;
+
+// ---------------------------------------------------------------------------
+// Types — input (derived from server Zod schemas)
+// ---------------------------------------------------------------------------
+
+export type ResolveEntityQueryInput = ResolveEntityQuery;
+export type EntityReviewItemInput = EntityReviewItem;
+export type EntityReviewStatus = (typeof VALID_ENTITY_REVIEW_STATUSES)[number];
+
+// ---------------------------------------------------------------------------
+// Types — response (inferred from Hono RPC route)
+// ---------------------------------------------------------------------------
+
+export type ResolveEntitiesResult = InferResponseType<RpcClient['resolve']['$post'], 200>;
+export type EnqueueEntityReviewsResult = InferResponseType<RpcClient['reviews']['$post'], 201>;
+export type EntityReviewListResult = InferResponseType<RpcClient['reviews']['$get'], 200>;
+export type EntityReviewEntry = InferResponseType<RpcClient['reviews'][':id']['$get'], 200>;
+
+// ---------------------------------------------------------------------------
+// API functions
+// ---------------------------------------------------------------------------
+
+/** Rank candidate entities for a batch of names (up to 200). */
+export async function resolveEntities(
+  queries: ResolveEntityQueryInput[],
+  limit?: number,
+): Promise<ApiResult<ResolveEntitiesResult>> {
+  return apiRequest<ResolveEntitiesResult>('POST', '/api/entity-resolution/resolve', {
+    queries,
+    ...(limit !== undefined && { limit }),
+  });
+}
+
+/**
+ * Add low-confidence matches to the review queue. Names already queued get
+ * their occurrence count bumped. Fire-and-forget safe — importers should log
+ * but not fail on error.
+ */
+export async function enqueueEntityReviews(
+  items: EntityReviewItemInput[],
+): Promise<ApiResult<EnqueueEntityReviewsResult>> {
+  return apiRequest<EnqueueEntityReviewsResult>('POST', '/api/entity-resolution/reviews', { items });
+}
+
+/** List reviews (most frequently seen first). */
+export async function listEntityReviews(
+  options: { status?: EntityReviewStatus; source?: string; limit?: number; offset?: number } = {},
+): Promise<ApiResult<EntityReviewListResult>> {
+  const { status = 'pending', source, limit = 50, offset = 0 } = options;
+  const params = new URLSearchParams({ status, limit: String(limit), offset: String(offset) });
+  if (source) params.set('source', source);
+  return apiRequest<EntityReviewListResult>('GET', `/api/entity-resolution/reviews?${params}`);
+}
+
+/** Get one review by id. */
+export async function getEntityReview(id: number): Promise<ApiResult<EntityReviewEntry>> {
+  return apiRequest<EntityReviewEntry>('GET', `/api/entity-resolution/reviews/${id}`);
+}
+
+/** Accept a review: the raw name refers to `entityId` (stableId or slug). */
+export async function acceptEntityReview(
+  id: number,
+  entityId: string,
+  reviewedBy?: string,
+): Promise<ApiResult<EntityReviewEntry>> {
+  return apiRequest<EntityReviewEntry>('POST', `/api/entity-resolution/reviews/${id}/accept`, {
+    entityId,
+    ...(reviewedBy && { reviewedBy }),
+  });
+}
+
+/** Reject a review: the raw name matches none of the candidates. */
+export async function rejectEntityReview(
+  id: number,
+  reviewedBy?: string,
+): Promise<ApiResult<EntityReviewEntry>> {
+  return apiRequest<EntityReviewEntry>('POST', `/api/entity-resolution/reviews/${id}/reject`, {
+    ...(reviewedBy && { reviewedBy }),
+  });
+}
@@ -58,6 +58,19 @@ export type {
   ArtifactEntry,
   ArtifactStatsResult,
 } from './artifacts.ts';
+export type {
+  CreatePageRevisionInput,
+  PageRevisionListResult,
+  PageRevisionEntry,
+} from './page-revisions.ts';
+export type {
+  ResolveEntityQueryInput,
+  EntityReviewItemInput,
+  EntityReviewStatus,
+  ResolveEntitiesResult,
+  EntityReviewListResult,
+  EntityReviewEntry,
+} from './entity-resolution.ts';
 
 // ---------------------------------------------------------------------------
 // API functions (all return ApiResult<T>)
@@ -144,6 +157,7 @@ export {
   listEntities,
   searchEntities,
   getEntityStats,
+  mergeEntities,
 } from './entities.ts';
 
 // Facts
@@ -171,6 +185,7 @@ export {
   getJob,
   claimJob,
   startJob,
+  heartbeatJob,
   completeJob,
   failJob,
   cancelJob,
@@ -187,6 +202,23 @@ export {
   getArtifactStats,
 } from './artifacts.ts';
 
+// Page Revisions
+export {
+  createPageRevision,
+  getPageRevisions,
+  getPageRevision,
+} from './page-revisions.ts';
+
+// Entity Resolution
+export {
+  resolveEntities,
+  enqueueEntityReviews,
+  listEntityReviews,
+  getEntityReview,
+  acceptEntityReview,
+  rejectEntityReview,
+} from './entity-resolution.ts';
+
 // Entity IDs
 export {
   allocateId,
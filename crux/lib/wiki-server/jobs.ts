@@ -11,7 +11,9 @@ import type { hc, InferResponseType } from 'hono/client';
 import type { JobsRoute } from '../../../apps/wiki-server/src/routes/jobs.ts';
 import type {
   CreateJobInput,
+  CreateJobBatchItemInput,
   ClaimJob,
+  HeartbeatJob,
   CompleteJob,
   FailJob,
   SweepJobs,
@@ -22,8 +24,10 @@ import type {
 // ---------------------------------------------------------------------------
 
 export type { CreateJobInput };
+export type { CreateJobBatchItemInput };
 export type { ClaimJob as ClaimJobInput };
 export type { CompleteJob as CompleteJobInput };
+export type { HeartbeatJob as HeartbeatJobInput };
 export type { FailJob as FailJobInput };
 export type { SweepJobs as SweepJobsInput };
 
@@ -42,6 +46,8 @@ export type JobEntry = InferResponseType<RpcClient[':id']['$get'], 200>;
 /** Backward-compatible alias for the inferred claim result shape. */
 export type ClaimResult = InferResponseType<RpcClient['claim']['$post'], 200>;
 
+export type FailResult = InferResponseType<RpcClient[':id']['fail']['$post'], 200>;
+
 /** Backward-compatible alias for the inferred sweep result shape. */
 export type SweepResult = InferResponseType<RpcClient['sweep']['$post'], 200>;
 
@@ -49,16 +55,16 @@ export type SweepResult = InferResponseType<RpcClient['sweep']['$post'], 200>;
 // API functions
 // ---------------------------------------------------------------------------
 
-/** Create a single job. */
+/** Create a single job (returns the existing job on an idempotency-key hit). */
 export async function createJob(
   input: CreateJobInput,
 ): Promise<ApiResult<JobEntry>> {
   return apiRequest<JobEntry>('POST', '/api/jobs', input);
 }
 
-/** Create multiple jobs in a batch. */
+/** Create multiple jobs in a batch; `dependsOnIndex` links jobs within it. */
 export async function createJobBatch(
-  inputs: CreateJobInput[],
+  inputs: CreateJobBatchItemInput[],
 ): Promise<ApiResult<JobEntry[]>> {
   return apiRequest<JobEntry[]>('POST', '/api/jobs', inputs);
 }
@@ -84,14 +90,28 @@ export async function getJob(id: number): Promise<ApiResult<JobEntry>> {
   return apiRequest<JobEntry>('GET', `/api/jobs/${id}`);
 }
 
-/** Claim the next pending job. */
+/** Claim the next ready job, leasing it to this worker. */
 export async function claimJob(
   workerId: string,
   type?: string,
+  leaseSeconds?: number,
 ): Promise<ApiResult<ClaimResult>> {
   return batchedRequest<ClaimResult>('POST', '/api/jobs/claim', {
     workerId,
     ...(type ? { type } : {}),
+    ...(leaseSeconds ? { leaseSeconds } : {}),
+  });
+}
+
+/** Renew this worker's lease on a claimed/running job. Fails once the lease is lost. */
+export async function heartbeatJob(
+  id: number,
+  workerId: string,
+  leaseSeconds?: number,
+): Promise<ApiResult<JobEntry>> {
+  return apiRequest<JobEntry>('POST', `/api/jobs/${id}/heartbeat`, {
+    workerId,
+    ...(leaseSeconds ? { leaseSeconds } : {}),
   });
 }
 
@@ -100,25 +120,36 @@ export async function startJob(id: number): Promise<ApiResult<JobEntry>> {
   return apiRequest<JobEntry>('POST', `/api/jobs/${id}/start`, {});
 }
 
-/** Mark a running job as completed with a result. */
+/**
+ * Mark a running job as completed with a result. Rejected (409) unless
+ * `workerId` still holds the job's lease.
+ */
 export async function completeJob(
   id: number,
+  workerId: string,
   result?: Record<string, unknown> | null,
 ): Promise<ApiResult<JobEntry>> {
   return apiRequest<JobEntry>('POST', `/api/jobs/${id}/complete`, {
+    workerId,
     result: result ?? null,
   });
 }
 
-/** Mark a running/claimed job as failed with an error message. */
+/**
+ * Mark a running/claimed job as failed with an error message. A retry waits
+ * `retryAfterSeconds`, or an exponential backoff when omitted. Rejected (409)
+ * unless `workerId` still holds the job's lease.
+ */
 export async function failJob(
   id: number,
+  workerId: string,
   error: string,
-): Promise<ApiResult<JobEntry & { retried: boolean }>> {
-  return apiRequest<JobEntry & { retried: boolean }>(
+  retryAfterSeconds?: number,
+): Promise<ApiResult<FailResult>> {
+  return apiRequest<FailResult>(
     'POST',
     `/api/jobs/${id}/fail`,
-    { error }
+    { workerId, error, ...(retryAfterSeconds != null ? { retryAfterSeconds } : {}) }
   );
 }
 
@@ -127,6 +158,14 @@ export async function cancelJob(id: number): Promise<ApiResult<JobEntry>> {
   return apiRequest<JobEntry>('POST', `/api/jobs/${id}/cancel`, {});
 }
 
+/**
+ * Requeue a failed or cancelled job: back to pending with a fresh retry
+ * budget and no lease. Needs an admin-scoped API key.
+ */
+export async function retryJob(id: number): Promise<ApiResult<JobEntry>> {
+  return apiRequest<JobEntry>('POST', `/api/jobs/${id}/retry`, {});
+}
+
 /** Get aggregate job statistics. */
 export async function getJobStats(): Promise<ApiResult<JobStatsResult>> {
   return apiRequest<JobStatsResult>('GET', '/api/jobs/stats');
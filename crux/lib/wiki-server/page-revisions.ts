@@ -0,0 +1,66 @@
+/**
+ * Page Revisions API — wiki-server client module
+ *
+ * Persists before/after content and the semantic diff (claim diff +
+ * contradictions) of applied AI edits, and reads them back for the
+ * /wiki/[id]/history viewer. Response types are inferred via Hono RPC
+ * InferResponseType<>.
+ */
+
+import { apiRequest, type ApiResult } from './client.ts';
+import type { hc, InferResponseType } from 'hono/client';
+import type { PageRevisionsRoute } from '../../../apps/wiki-server/src/routes/page-revisions.ts';
+import type { CreatePageRevision } from '../../../apps/wiki-server/src/api-types.ts';
+
+// ---------------------------------------------------------------------------
+// RPC client type (used only for response type inference)
+// ---------------------------------------------------------------------------
+
+type RpcClient = ReturnType<typeof hc<PageRevisionsRoute>>;
+
+// ---------------------------------------------------------------------------
+// Types — input (derived from server Zod schemas)
+// ---------------------------------------------------------------------------
+
+export type CreatePageRevisionInput = CreatePageRevision;
+
+// ---------------------------------------------------------------------------
+// Types — response (inferred from Hono RPC route)
+// ---------------------------------------------------------------------------
+
+export type CreatePageRevisionResult = InferResponseType<RpcClient['index']['$post'], 201>;
+export type PageRevisionListResult = InferResponseType<RpcClient['index']['$get'], 200>;
+export type PageRevisionEntry = InferResponseType<RpcClient[':id']['$get'], 200>;
+
+// ---------------------------------------------------------------------------
+// API functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Record an applied revision with its semantic diff.
+ * Fire-and-forget safe — callers should log but not throw on failure.
+ */
+export async function createPageRevision(
+  input: CreatePageRevisionInput,
+): Promise<ApiResult<CreatePageRevisionResult>> {
+  return apiRequest<CreatePageRevisionResult>('POST', '/api/page-revisions', input);
+}
+
+/** List revisions for a page (most recent first, without content). */
+export async function getPageRevisions(
+  pageId: string,
+  limit = 50,
+  offset = 0,
+): Promise<ApiResult<PageRevisionListResult>> {
+  return apiRequest<PageRevisionListResult>(
+    'GET',
+    `/api/page-revisions?page_id=${encodeURIComponent(pageId)}&limit=${limit}&offset=${offset}`,
+  );
+}
+
+/** Get a single revision with content, claim diff and contradictions. */
+export async function getPageRevision(
+  id: number,
+): Promise<ApiResult<PageRevisionEntry>> {
+  return apiRequest<PageRevisionEntry>('GET', `/api/page-revisions/${id}`);
+}
@@ -45,3 +45,12 @@ export async function upsertSummaryBatch(
   );
 }
 
+
+export type ListSummariesResult = InferResponseType<RpcClient['all']['$get']>;
+
+export async function listSummaries(
+  limit: number,
+  offset: number,
+): Promise<ApiResult<ListSummariesResult>> {
+  return apiRequest<ListSummariesResult>('GET', `/api/summaries/all?limit=${limit}&offset=${offset}`);
+}
@@ -21,7 +21,9 @@ const verbose = process.argv.includes("--verbose");
 // purposes. ref-integrity is demoted because many entities intentionally use
 // plain-string values for organizations/people not yet modeled as KB entities
 // (e.g., "University of Toronto", "Google Brain"). These are data quality items,
-// not integrity violations.
+// not integrity violations. Records name such participants with display_name
+// instead, so unresolved record endpoints (record-endpoint-ref) still block;
+// endpoints that allow display names already report them as warnings.
 const DEMOTED_RULES = new Set(["ref-integrity"]);
 
 /** Print a summary table of validation results grouped by rule and severity. */
@@ -86,8 +88,8 @@ async function main(): Promise<void> {
   );
 
   const dataDir = join(PROJECT_ROOT, "packages/factbase/data");
-  const { graph } = await loadKB(dataDir);
-  const results: ValidationResult[] = validate(graph);
+  const { graph, filenameMap } = await loadKB(dataDir);
+  const results: ValidationResult[] = validate(graph, { filenameMap });
 
   // Separate blocking errors from demoted/warning-level issues
   const blockingErrors = results.filter(
@@ -126,7 +128,7 @@ async function main(): Promise<void> {
   const entityCount = graph.getAllEntities().length;
   const demotedNote =
     demotedErrors.length > 0
-      ? `, ${demotedErrors.length} ref-integrity warning(s)`
+      ? `, ${demotedErrors.length} demoted ref warning(s)`
       : "";
   console.log(
     `\nKB schema validation passed: ${entityCount} entities, 0 blocking errors${demotedNote}, ${warnings.length} warning(s), ${infos.length} info`
@@ -4,7 +4,7 @@
  * YAML Schema Validation Script
  *
  * Validates YAML data files against Zod schemas from src/data/schema.ts.
- * Ensures entity, resource, and publication data conforms to expected structure.
+ * Ensures entity, resource, publication, estimate, crux, and page-forecast data conforms to expected structure.
  *
  * Usage: npx tsx scripts/validate-yaml-schema.ts [--ci]
  */
@@ -14,7 +14,10 @@ import { join, basename } from 'path';
 import { parse as parseYaml } from 'yaml';
 import { fileURLToPath } from 'url';
 import { getColors, isCI, formatPath } from '../lib/output.ts';
-import { Entity, Resource, Publication, FactsFile, FactMeasuresFile } from '../../data/schema.ts';
+import { Entity, Resource, Publication, Estimate, Crux, PageForecastsFile, FactsFile, FactMeasuresFile } from '../../data/schema.ts';
+import { loadEstimate, type RawEstimate } from '../../apps/web/src/lib/estimates.ts';
+import { buildPersonLookup, detectPersonMentions, type PersonEntity } from '../lib/person-mention-detector.ts';
+import { normalizeName } from '../lib/name-utils.ts';
 import type { ValidatorResult, ValidatorOptions } from './types.ts';
 import type { ZodSchema, ZodError, ZodIssue } from 'zod';
 import type { Colors } from '../lib/output.ts';
@@ -117,6 +120,55 @@ function validateItems(items: YamlItemWithSource[], schema: ZodSchema, typeName:
   return errors;
 }
 
+/**
+ * Lookup from organization names to entities. Besides the title, matches the
+ * title without its parenthetical and the parenthetical itself, so
+ * "Machine Intelligence Research Institute (MIRI)" is found as "MIRI".
+ */
+function buildOrgLookup(orgs: PersonEntity[]): Map<string, PersonEntity> {
+  const lookup = buildPersonLookup(orgs);
+  for (const org of orgs) {
+    lookup.set(normalizeName(org.title), org);
+    const acronym = org.title.match(/\(([^)]+)\)\s*$/)?.[1];
+    if (acronym) lookup.set(normalizeName(acronym), org);
+  }
+  return lookup;
+}
+
+/**
+ * Check crux position holders: refs must point to known entities, and plain
+ * strings must not name a person or organization that has an entity (those
+ * should be refs so person pages can list the stance).
+ */
+function checkCruxHolders(
+  crux: { positions?: Array<{ view: string; holders?: unknown[] }> },
+  validEntityIds: Set<string>,
+  personLookup: Map<string, PersonEntity>,
+  orgLookup: Map<string, PersonEntity>,
+): string[] {
+  const issues: string[] = [];
+  for (const [i, position] of (crux.positions ?? []).entries()) {
+    for (const holder of position.holders ?? []) {
+      if (typeof holder !== 'string') {
+        const entity = (holder as { entity: string }).entity;
+        if (!validEntityIds.has(entity)) {
+          issues.push(`positions.${i}: unknown holder entity "${entity}"`);
+        }
+        continue;
+      }
+      const org = orgLookup.get(normalizeName(holder));
+      if (org) {
+        issues.push(`positions.${i}: holder "${holder}" is an organization — use { entity: ${org.id} }`);
+        continue;
+      }
+      for (const mention of detectPersonMentions(holder, personLookup)) {
+        issues.push(`positions.${i}: holder "${holder}" names ${mention.canonicalName} — use { entity: ${mention.personId} }`);
+      }
+    }
+  }
+  return issues;
+}
+
 // ---------------------------------------------------------------------------
 // runCheck (for orchestrator)
 // ---------------------------------------------------------------------------
@@ -157,7 +209,88 @@ export function runCheck(options: ValidatorOptions = {}): ValidatorResult {
     entities.map((e: YamlItemWithSource) => (e as Record<string, unknown>).id as string).filter(Boolean)
   );
 
-  // 6. Validate facts/*.yaml against FactsFile schema and check measure references
+  // 5. Validate estimates.yaml: schema, value strings, and source entity references
+  if (!ciMode) console.log(`${colors.dim}Checking estimates...${colors.reset}`);
+  const estimatesPath = join(DATA_DIR, 'estimates.yaml');
+  const estimates: YamlItemWithSource[] = (loadYaml(estimatesPath) as YamlItemWithSource[] | null) || [];
+  for (const est of estimates) {
+    est._sourceFile = estimatesPath;
+  }
+  totalValidated += estimates.length;
+  const estimateErrors = validateItems(estimates, Estimate, 'Estimate');
+  allErrors.push(...estimateErrors);
+  const invalidEstimates = new Set(estimateErrors.map((e) => e.id));
+  for (const item of estimates) {
+    const { _sourceFile, ...raw } = item;
+    if (invalidEstimates.has(String(raw.id))) continue;
+    const { issues } = loadEstimate(raw as unknown as RawEstimate);
+    for (const source of (raw as unknown as RawEstimate).estimates) {
+      if (source.sourceEntity && !validEntityIds.has(source.sourceEntity)) {
+        issues.push(`${source.source}: unknown sourceEntity "${source.sourceEntity}"`);
+      }
+    }
+    if (issues.length > 0) {
+      allErrors.push({ file: estimatesPath, id: String(raw.id), type: 'Estimate', issues });
+    }
+  }
+  if (!ciMode) console.log(`  ${estimates.length} estimates loaded`);
+
+  // 6. Validate cruxes.yaml: schema and position holders
+  if (!ciMode) console.log(`${colors.dim}Checking cruxes...${colors.reset}`);
+  const cruxesPath = join(DATA_DIR, 'cruxes.yaml');
+  const cruxes: YamlItemWithSource[] = (loadYaml(cruxesPath) as YamlItemWithSource[] | null) || [];
+  for (const crux of cruxes) {
+    crux._sourceFile = cruxesPath;
+  }
+  totalValidated += cruxes.length;
+  const cruxErrors = validateItems(cruxes, Crux, 'Crux');
+  allErrors.push(...cruxErrors);
+  const invalidCruxes = new Set(cruxErrors.map((e) => e.id));
+  const entityStubs = (type: string): PersonEntity[] => entities
+    .filter((e) => e.type === type && e.id && e.title)
+    .map((e) => ({ id: e.id!, numericId: e.numericId as string | undefined, title: e.title! }));
+  const personLookup = buildPersonLookup(entityStubs('person'));
+  const orgLookup = buildOrgLookup(entityStubs('organization'));
+  for (const crux of cruxes) {
+    if (invalidCruxes.has(String(crux.id))) continue;
+    const issues = checkCruxHolders(crux as Parameters<typeof checkCruxHolders>[0], validEntityIds, personLookup, orgLookup);
+    if (issues.length > 0) {
+      allErrors.push({ file: cruxesPath, id: String(crux.id), type: 'Crux', issues });
+    }
+  }
+  if (!ciMode) console.log(`  ${cruxes.length} cruxes loaded`);
+
+  // 7. Validate page-forecasts.yaml: schema, question refs, and page IDs
+  const pageForecastsPath = join(DATA_DIR, 'page-forecasts.yaml');
+  if (existsSync(pageForecastsPath)) {
+    if (!ciMode) console.log(`${colors.dim}Checking page forecasts...${colors.reset}`);
+    totalValidated++;
+    const result = PageForecastsFile.safeParse(parseYaml(readFileSync(pageForecastsPath, 'utf-8')));
+    if (!result.success) {
+      allErrors.push({
+        file: pageForecastsPath,
+        id: 'page-forecasts',
+        type: 'PageForecastsFile',
+        issues: formatZodErrors(result.error),
+      });
+    } else {
+      for (const [pageId, links] of Object.entries(result.data.pages)) {
+        const issues: string[] = [];
+        if (!validEntityIds.has(pageId)) {
+          issues.push(`Unknown page "${pageId}" — not found in data/entities/*.yaml`);
+        }
+        for (const link of links) {
+          if (!result.data.questions[link.id]) issues.push(`Unknown question "${link.id}"`);
+        }
+        if (issues.length > 0) {
+          allErrors.push({ file: pageForecastsPath, id: pageId, type: 'PageForecastLink', issues });
+        }
+      }
+      if (!ciMode) console.log(`  ${Object.keys(result.data.questions).length} forecast questions loaded`);
+    }
+  }
+
+  // 8. Validate facts/*.yaml against FactsFile schema and check measure references
   if (!ciMode) console.log(`${colors.dim}Checking facts...${colors.reset}`);
   const factsDir = join(DATA_DIR, 'facts');
   let totalFacts = 0;
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { pageEmbeddingText, embedItems } from "./sync-embeddings.ts";
+import { HashingEmbeddingProvider } from "../../apps/wiki-server/src/embeddings.ts";
+
+describe("pageEmbeddingText", () => {
+  it("joins title, description, summary, and a body excerpt", () => {
+    const text = pageEmbeddingText(
+      { id: "a", title: "Deceptive Alignment", description: "Models hiding goals", llmSummary: "Summary" },
+      "Body ".repeat(1000),
+    );
+    expect(text.startsWith("Deceptive Alignment\n\nModels hiding goals\n\nSummary\n\nBody")).toBe(true);
+    expect(text.length).toBeLessThan(2100);
+  });
+
+  it("skips missing fields", () => {
+    expect(pageEmbeddingText({ id: "a", title: "Only Title" }, null)).toBe("Only Title");
+  });
+});
+
+describe("embedItems", () => {
+  it("pairs each ID with its vector", async () => {
+    const provider = new HashingEmbeddingProvider(32);
+    const items = await embedItems(provider, [
+      { id: "a", text: "alpha" },
+      { id: "b", text: "beta" },
+    ]);
+    expect(items.map((i) => i.id)).toEqual(["a", "b"]);
+    expect(items[0].embedding).toHaveLength(32);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Wiki Server Embeddings Sync
+ *
+ * Computes embedding vectors for wiki pages (title, description, LLM summary,
+ * and the start of the page text) and for entity summaries, then stores them
+ * via /api/pages/embeddings and /api/summaries/embeddings for hybrid search.
+ *
+ * Vectors are computed locally with the wiki-server's embedding provider
+ * (apps/wiki-server/src/embeddings.ts), so the query-time and index-time
+ * models always match. The default, minilm-l6-v2, downloads its weights on
+ * first use; select another model with EMBEDDING_MODEL.
+ *
+ * Run after `crux wiki-server sync` so every page exists server-side.
+ *
+ * Usage:
+ *   pnpm crux wiki-server sync-embeddings
+ *   pnpm crux wiki-server sync-embeddings --dry-run
+ *   pnpm crux wiki-server sync-embeddings --batch-size=100
+ *
+ * Environment:
+ *   LONGTERMWIKI_SERVER_URL   - Base URL of the wiki server
+ *   LONGTERMWIKI_SERVER_API_KEY - Bearer token for authentication
+ *   EMBEDDING_MODEL           - Embedding model name (default: minilm-l6-v2;
+ *                               hash-v1-384 is a lexical fallback; see embeddings.ts)
+ *   EMBEDDING_MODEL_DIR       - Load minilm-l6-v2 weights from this directory instead
+ *                               of downloading them
+ */
+
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { parseCliArgs } from "../lib/cli.ts";
+import { getServerUrl, getApiKey } from "../lib/wiki-server/client.ts";
+import { listSummaries } from "../lib/wiki-server/summaries.ts";
+import { getEmbeddingProvider } from "../../apps/wiki-server/src/embeddings.ts";
+import type { EmbeddingProvider } from "../../apps/wiki-server/src/embeddings.ts";
+import { batchSync, waitForHealthy } from "./sync-common.ts";
+
+const PROJECT_ROOT = join(import.meta.dirname!, "../..");
+const PAGES_JSON_PATH = join(PROJECT_ROOT, "apps/web/src/data/pages.json");
+const WIKI_DIR = join(PROJECT_ROOT, "apps/web/public/wiki");
+
+// --- Configuration ---
+const DEFAULT_BATCH_SIZE = 100;
+/** Characters of page body text included in the embedded text. */
+const BODY_EXCERPT_CHARS = 2000;
+const SUMMARIES_PAGE_SIZE = 200;
+
+interface PageData {
+  id: string;
+  numericId?: string;
+  title: string;
+  description?: string;
+  llmSummary?: string;
+  category?: string;
+}
+
+interface EmbeddingItem {
+  id: string;
+  embedding: number[];
+}
+
+/** @internal — exported for testing */
+export function pageEmbeddingText(page: PageData, body: string | null): string {
+  return [page.title, page.description, page.llmSummary, body?.slice(0, BODY_EXCERPT_CHARS)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function loadBody(numericId: string | undefined): string | null {
+  if (!numericId) return null;
+  const txtPath = join(WIKI_DIR, `${numericId}.txt`);
+  return existsSync(txtPath) ? readFileSync(txtPath, "utf-8") : null;
+}
+
+/** @internal — exported for testing */
+export async function embedItems(
+  provider: EmbeddingProvider,
+  items: Array<{ id: string; text: string }>,
+): Promise<EmbeddingItem[]> {
+  const vectors = await provider.embed(items.map((i) => i.text));
+  return items.map((item, i) => ({ id: item.id, embedding: vectors[i] }));
+}
+
+/** Fetch every entity summary's embeddable text from the server. */
+async function loadSummaryTexts(): Promise<Array<{ id: string; text: string }>> {
+  const texts: Array<{ id: string; text: string }> = [];
+  for (let offset = 0; ; offset += SUMMARIES_PAGE_SIZE) {
+    const result = await listSummaries(SUMMARIES_PAGE_SIZE, offset);
+    if (!result.ok) throw new Error(`Failed to list summaries: ${result.message}`);
+    for (const s of result.data.summaries) {
+      const text = [s.oneLiner, s.summary].filter(Boolean).join("\n\n");
+      if (text) texts.push({ id: s.entityId, text });
+    }
+    if (offset + SUMMARIES_PAGE_SIZE >= result.data.total) break;
+  }
+  return texts;
+}
+
+async function storeEmbeddings(
+  url: string,
+  model: string,
+  items: EmbeddingItem[],
+  batchSize: number,
+  itemLabel: string,
+): Promise<{ updated: number; errors: number }> {
+  const result = await batchSync(url, items, batchSize, {
+    bodyKey: "items",
+    responseCountKey: "updated",
+    itemLabel,
+    extraBodyFields: { model },
+  });
+  return { updated: result.count, errors: result.errors };
+}
+
+async function main() {
+  const args = parseCliArgs(process.argv.slice(2));
+  const dryRun = args["dry-run"] === true;
+  const batchSize = Number(args["batch-size"]) || DEFAULT_BATCH_SIZE;
+
+  const serverUrl = getServerUrl();
+  if (!serverUrl) {
+    console.error("Error: LONGTERMWIKI_SERVER_URL environment variable is required");
+    process.exit(1);
+  }
+  if (!getApiKey()) {
+    console.error("Error: LONGTERMWIKI_SERVER_API_KEY environment variable is required");
+    process.exit(1);
+  }
+  if (!existsSync(PAGES_JSON_PATH)) {
+    console.error(`Error: ${PAGES_JSON_PATH} not found. Run 'node apps/web/scripts/build-data.mjs' first.`);
+    process.exit(1);
+  }
+
+  const provider = getEmbeddingProvider();
+  const pages = (JSON.parse(readFileSync(PAGES_JSON_PATH, "utf-8")) as PageData[]).filter(
+    (p) => p.category !== "schema",
+  );
+
+  console.log(`Embedding ${pages.length} pages with ${provider.model} (${provider.dimensions} dims)`);
+  const pageItems = await embedItems(
+    provider,
+    pages.map((p) => ({ id: p.id, text: pageEmbeddingText(p, loadBody(p.numericId)) })),
+  );
+
+  if (dryRun) {
+    console.log(`[dry-run] Would store ${pageItems.length} page embeddings and all summary embeddings`);
+    process.exit(0);
+  }
+
+  console.log("\nChecking server health...");
+  if (!(await waitForHealthy(serverUrl))) {
+    console.error(`Error: Server at ${serverUrl} is not healthy. Aborting.`);
+    process.exit(1);
+  }
+
+  const pageResult = await storeEmbeddings(
+    `${serverUrl}/api/pages/embeddings`,
+    provider.model,
+    pageItems,
+    batchSize,
+    "page embeddings",
+  );
+
+  const summaryTexts = await loadSummaryTexts();
+  console.log(`\nEmbedding ${summaryTexts.length} summaries`);
+  const summaryResult = await storeEmbeddings(
+    `${serverUrl}/api/summaries/embeddings`,
+    provider.model,
+    await embedItems(provider, summaryTexts),
+    batchSize,
+    "summary embeddings",
+  );
+
+  console.log(`\nEmbeddings sync complete:`);
+  console.log(`  Pages:     ${pageResult.updated} updated`);
+  console.log(`  Summaries: ${summaryResult.updated} updated`);
+  const errors = pageResult.errors + summaryResult.errors;
+  if (errors > 0) {
+    console.error(`  Errors:    ${errors}`);
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((err) => {
+    console.error("Embeddings sync failed:", err);
+    process.exit(1);
+  });
+}
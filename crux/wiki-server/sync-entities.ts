@@ -291,6 +291,57 @@ export function loadEntityYamls(
   return { entities, errorFiles };
 }
 
+/** Alternative names and lineage of a KB thing, used by the entity resolver. */
+interface KBThingIdentity {
+  id?: string;
+  aliases?: string[];
+  previousSlugs?: string[];
+  previousIds?: string[];
+  parent?: string;
+}
+
+function identityFields(thing: KBThingIdentity): Partial<YamlEntity> {
+  return {
+    ...(thing.aliases?.length && { aliases: thing.aliases }),
+    ...(thing.previousSlugs?.length && { previousSlugs: thing.previousSlugs }),
+    ...(thing.previousIds?.length && { previousIds: thing.previousIds }),
+    ...(thing.parent && { parent: thing.parent }),
+  };
+}
+
+/**
+ * Copy aliases, previousSlugs, previousIds and parent from KB things onto the
+ * entity YAML entries with the same id, so the wiki-server's entity resolver
+ * sees every known name. Fields already set in the entity YAML win. Mutates
+ * in place.
+ */
+export function mergeKBIdentity(
+  entities: YamlEntity[],
+  dir: string = KB_THINGS_DIR,
+): void {
+  const byId = new Map(entities.map((e) => [e.id, e]));
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(".yaml"));
+  } catch {
+    return;
+  }
+
+  for (const file of files) {
+    try {
+      const parsed = parseYaml(readFileSync(join(dir, file), "utf-8")) as { thing?: KBThingIdentity };
+      const thing = parsed?.thing;
+      const entity = thing?.id ? byId.get(thing.id) : undefined;
+      if (!thing || !entity) continue;
+      for (const [key, value] of Object.entries(identityFields(thing))) {
+        if (entity[key] === undefined) entity[key] = value;
+      }
+    } catch {
+      // Skip unparseable files
+    }
+  }
+}
+
 /**
  * Load KB-only entities from packages/factbase/data/things/*.yaml.
  * Only returns entities NOT already present in the entityIds set.
@@ -311,7 +362,7 @@ export function loadKBOnlyEntities(
   for (const file of files) {
     try {
       const raw = readFileSync(join(dir, file), "utf-8");
-      const parsed = parseYaml(raw) as { thing?: { id?: string; stableId?: string; type?: string; name?: string; numericId?: string } };
+      const parsed = parseYaml(raw) as { thing?: KBThingIdentity & { stableId?: string; type?: string; name?: string; numericId?: string } };
       const thing = parsed?.thing;
       if (!thing?.id || !thing?.type || !thing?.name) continue;
       if (existingIds.has(thing.id)) continue; // Already in entity YAML
@@ -322,6 +373,7 @@ export function loadKBOnlyEntities(
         numericId: thing.numericId,
         type: thing.type,
         title: thing.name,
+        ...identityFields(thing),
       });
     } catch {
       // Skip unparseable files
@@ -441,6 +493,7 @@ async function main() {
 
   // Load KB-only entities (not in entity YAML but have facts)
   const entityIds = new Set(yamlEntities.map((e) => e.id));
+  mergeKBIdentity(yamlEntities);
   const kbOnlyEntities = loadKBOnlyEntities(entityIds);
   if (kbOnlyEntities.length > 0) {
     console.log(`  Loaded ${kbOnlyEntities.length} KB-only entities`);
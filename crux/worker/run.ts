@@ -4,6 +4,10 @@
  * Standalone worker process that claims and executes jobs from the queue.
  * Designed to run both locally (CLI) and in GitHub Actions.
  *
+ * Each claim holds a lease that the worker renews with heartbeats while the
+ * handler runs. If the worker dies, the lease expires and the server hands
+ * the job to another worker.
+ *
  * Usage:
  *   node --import tsx/esm crux/worker/run.ts [options]
  *
@@ -22,13 +26,17 @@
 
 import { join } from 'path';
 import { getHandler, isKnownType, getRegisteredTypes } from '../lib/job-handlers/index.ts';
-import { claimJob, startJob, completeJob, failJob } from '../lib/wiki-server/jobs.ts';
+import { claimJob, startJob, heartbeatJob, completeJob, failJob } from '../lib/wiki-server/jobs.ts';
 import type { JobHandlerContext } from '../lib/job-handlers/types.ts';
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
+/** Lease requested on claim; renewed three times per lease period. */
+const LEASE_SECONDS = 300;
+const HEARTBEAT_INTERVAL_MS = (LEASE_SECONDS / 3) * 1000;
+
 interface WorkerConfig {
   workerId: string;
   type?: string;
@@ -69,6 +77,22 @@ function parseConfig(): WorkerConfig {
 // Worker Loop
 // ---------------------------------------------------------------------------
 
+/** Renew the job's lease until the returned stop function is called. */
+function startHeartbeat(jobId: number, workerId: string, verbose: boolean): () => void {
+  const timer = setInterval(async () => {
+    const result = await heartbeatJob(jobId, workerId, LEASE_SECONDS);
+    if (!result.ok) {
+      // The lease was reaped or the job cancelled; the final complete/fail
+      // call will be rejected (409) and another worker may pick the job up.
+      console.warn(`[worker] Heartbeat for job #${jobId} failed: ${result.message}`);
+    } else if (verbose) {
+      console.log(`[worker] Renewed lease on job #${jobId}`);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
 async function processOneJob(config: WorkerConfig): Promise<boolean> {
   const { workerId, type, verbose, projectRoot } = config;
 
@@ -77,7 +101,7 @@ async function processOneJob(config: WorkerConfig): Promise<boolean> {
     console.log(`[worker] Claiming job (type: ${type ?? 'any'})...`);
   }
 
-  const claimResult = await claimJob(workerId, type);
+  const claimResult = await claimJob(workerId, type, LEASE_SECONDS);
 
   if (!claimResult.ok) {
     console.error(`[worker] Failed to claim job: ${claimResult.message}`);
@@ -111,7 +135,7 @@ async function processOneJob(config: WorkerConfig): Promise<boolean> {
   if (!handler) {
     const msg = `Unknown job type: ${jobType}. Known types: ${getRegisteredTypes().join(', ')}`;
     console.error(`[worker] ${msg}`);
-    await failJob(jobId, msg);
+    await failJob(jobId, workerId, msg);
     return true; // Job was processed (failed), continue to next
   }
 
@@ -120,22 +144,27 @@ async function processOneJob(config: WorkerConfig): Promise<boolean> {
     workerId,
     projectRoot,
     verbose,
+    jobId,
+    dependsOn: claimed.dependsOn ?? undefined,
   };
 
+  const stopHeartbeat = startHeartbeat(jobId, workerId, verbose);
   try {
     const result = await handler(jobParams, context);
 
     if (result.success) {
       console.log(`[worker] Job #${jobId} completed successfully`);
-      await completeJob(jobId, result.data);
+      await completeJob(jobId, workerId, result.data);
     } else {
       console.error(`[worker] Job #${jobId} failed: ${result.error}`);
-      await failJob(jobId, result.error ?? 'Handler returned success: false');
+      await failJob(jobId, workerId, result.error ?? 'Handler returned success: false');
     }
   } catch (err: unknown) {
     const error = err instanceof Error ? err.message : String(err);
     console.error(`[worker] Job #${jobId} threw exception: ${error}`);
-    await failJob(jobId, error.slice(0, 500));
+    await failJob(jobId, workerId, error.slice(0, 500));
+  } finally {
+    stopHeartbeat();
   }
 
   return true;
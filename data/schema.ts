@@ -88,9 +88,29 @@ export type Organization = z.infer<typeof Organization>;
 // ESTIMATES
 // =============================================================================
 
+export const EstimateMethod = z.enum([
+  'survey',            // Expert or public survey
+  'market',            // Prediction market or forecasting platform
+  'model',             // Explicit quantitative model (e.g. bio anchors)
+  'judgment',          // Individual or organizational judgment
+  'aggregate',         // Someone else's aggregation of forecasts
+]);
+export type EstimateMethod = z.infer<typeof EstimateMethod>;
+
+/**
+ * A distribution given by quantiles, e.g. { p5: 2030, p50: 2040, p95: 2070 }.
+ * Values use the same notation as string estimates ("10%", "2040").
+ */
+export const EstimateDistribution = z.object({
+  quantiles: z.record(z.string().regex(/^p\d{1,2}$/), z.union([z.string(), z.number()])),
+});
+export type EstimateDistribution = z.infer<typeof EstimateDistribution>;
+
 export const EstimateSource = z.object({
-  source: z.string(),                   // Who made the estimate (expert ID or org name)
-  value: z.string(),                    // The estimate value
+  source: z.string(),                   // Who made the estimate (display name)
+  sourceEntity: z.string().optional(),  // Entity ID of the source, when it has a page
+  value: z.union([z.string(), EstimateDistribution]), // "25%", "15-30%", "2040", or quantiles
+  method: EstimateMethod.optional(),
   date: z.string().optional(),
   url: z.string().url().optional(),
   notes: z.string().optional(),
@@ -103,7 +123,6 @@ export const Estimate = z.object({
   variable: z.string(),                 // What's being estimated
   description: z.string().optional(),
   unit: z.string().optional(),          // e.g., "%", "years"
-  aggregateRange: z.string().optional(), // Summary range
   category: z.string().optional(),      // e.g., "timelines", "risk", "alignment"
   estimates: z.array(EstimateSource),
   lastUpdated: z.string().optional(),
@@ -114,10 +133,25 @@ export type Estimate = z.infer<typeof Estimate>;
 // CRUXES (Key Uncertainties)
 // =============================================================================
 
+/** A person or organization holding a crux position, optionally with their own dated stance. */
+export const CruxHolderRef = z.object({
+  entity: z.string(),                   // Person or organization entity ID
+  stance: z.string().optional(),        // Their own wording, if narrower than the position's view
+  date: z.string().optional(),          // When they stated it (YYYY, YYYY-MM, or YYYY-MM-DD)
+  quote: z.string().optional(),         // Supporting quote
+  source: z.string().optional(),        // Title of source
+  sourceUrl: z.string().url().optional(),
+});
+export type CruxHolderRef = z.infer<typeof CruxHolderRef>;
+
+// Plain strings are for groups without an entity ("Some ML researchers")
+export const CruxHolder = z.union([z.string(), CruxHolderRef]);
+export type CruxHolder = z.infer<typeof CruxHolder>;
+
 export const CruxPosition = z.object({
   view: z.string(),
   probability: z.string().optional(),   // e.g., "40-60%"
-  holders: z.array(z.string()).optional(), // Expert IDs or org names
+  holders: z.array(CruxHolder).optional(),
   implications: z.string().optional(),
 });
 export type CruxPosition = z.infer<typeof CruxPosition>;
@@ -140,6 +174,39 @@ export const Crux = z.object({
 });
 export type Crux = z.infer<typeof Crux>;
 
+// =============================================================================
+// PAGE FORECASTS (data/page-forecasts.yaml, written by `crux forecasts import`)
+// =============================================================================
+
+export const ForecastReading = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  probability: z.number().min(0).max(1),
+});
+export type ForecastReading = z.infer<typeof ForecastReading>;
+
+export const ForecastQuestion = z.object({
+  platform: z.string(),                 // e.g., "Metaculus", "Manifold"
+  title: z.string(),
+  url: z.string().url().optional(),
+  stars: z.number().min(1).max(5).optional(),  // Metaforecast quality rating
+  tags: z.array(z.string()).optional(),
+  history: z.array(ForecastReading).min(1),    // One reading per day, oldest first
+});
+export type ForecastQuestion = z.infer<typeof ForecastQuestion>;
+
+export const PageForecastLink = z.object({
+  id: z.string(),                       // Key into `questions`
+  relevance: z.number().min(0).max(1),
+  discoveredVia: z.enum(['entity', 'tag', 'manual']),
+});
+export type PageForecastLink = z.infer<typeof PageForecastLink>;
+
+export const PageForecastsFile = z.object({
+  questions: z.record(z.string(), ForecastQuestion),
+  pages: z.record(z.string(), z.array(PageForecastLink)),  // Page (entity) ID → links
+});
+export type PageForecastsFile = z.infer<typeof PageForecastsFile>;
+
 // =============================================================================
 // RISKS (Failure Modes)
 // =============================================================================
@@ -0,0 +1,193 @@
+/**
+ * Currency and inflation conversion for monetary facts.
+ *
+ * Turns a numeric FactValue (number, range, or min) in any supported
+ * currency into US dollars, optionally re-expressed in a target dollar year
+ * so that amounts from different funders and decades are comparable.
+ *
+ * Tables are shipped offline in data/conversion/:
+ * - exchange-rates.json — annual-average USD per unit of each currency
+ * - cpi.json            — US CPI-U annual averages
+ *
+ * Both are keyed by year. Years outside a table's coverage use the nearest
+ * year available, so a 2025 amount is deflated with 2024 prices until the
+ * table is updated.
+ *
+ * Conversion order: the source amount is first converted to USD at the rate
+ * for its own year, then inflated/deflated with US CPI to the target year.
+ */
+
+import type { Fact, FactValue } from "./types";
+import { isCurrencyCode, resolveCurrency } from "./currencies";
+import { normalizeDate } from "./temporal";
+import exchangeRateTable from "../data/conversion/exchange-rates.json";
+import cpiTable from "../data/conversion/cpi.json";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** The FactValue variants that carry numbers. */
+export type NumericFactValue = Extract<FactValue, { type: "number" | "range" | "min" }>;
+
+export interface ToUsdOptions {
+  /** The property's unit (e.g. "USD"); decides whether the fact is monetary. */
+  unit?: string;
+  /** Express the result in this year's dollars (e.g. 2024). */
+  dollarYear?: number;
+}
+
+export interface UsdConversion {
+  /** Converted value, same shape as the input (number, range, or min). */
+  value: NumericFactValue;
+  /** Single comparable amount: the value, or the midpoint of a range. */
+  amount: number;
+  /** Source currency code (after resolving fact currency / property unit). */
+  currency: string;
+  /** USD per unit of the source currency that was applied. */
+  exchangeRate: number;
+  /**
+   * Year whose prices the result is expressed in. Equals the requested
+   * dollarYear when the fact's own year is known; otherwise the fact's
+   * year (or undefined when the fact is undated and no adjustment ran).
+   */
+  dollarYear?: number;
+}
+
+// ── Tables ──────────────────────────────────────────────────────────
+
+type YearTable = Record<string, number>;
+
+const EXCHANGE_RATES: Record<string, YearTable> = exchangeRateTable.rates;
+const CPI: YearTable = cpiTable.index;
+
+/**
+ * Look up a year in a year-keyed table, falling back to the nearest
+ * available year. Returns undefined only for an empty table.
+ */
+function lookupYear(table: YearTable, year: number): number | undefined {
+  const exact = table[String(year)];
+  if (exact !== undefined) return exact;
+
+  let best: number | undefined;
+  let bestDistance = Infinity;
+  for (const [key, value] of Object.entries(table)) {
+    const distance = Math.abs(Number(key) - year);
+    if (distance < bestDistance) {
+      best = value;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function latestYear(table: YearTable): number {
+  return Math.max(...Object.keys(table).map(Number));
+}
+
+/** Extract the calendar year from a partial ISO date ("2024-06" → 2024). */
+function yearOf(date: string | undefined): number | undefined {
+  if (date === undefined) return undefined;
+  const normalized = normalizeDate(date);
+  return normalized ? Number(normalized.slice(0, 4)) : undefined;
+}
+
+// ── Rates and inflation ─────────────────────────────────────────────
+
+/**
+ * USD per one unit of `currency` in `year` (annual average).
+ * Without a year, the most recent rate is used. Returns undefined for
+ * currencies that have no rate table.
+ */
+export function exchangeRateFor(currency: string, year?: number): number | undefined {
+  if (currency === "USD") return 1;
+  const table = Object.hasOwn(EXCHANGE_RATES, currency) ? EXCHANGE_RATES[currency] : undefined;
+  if (!table) return undefined;
+  return lookupYear(table, year ?? latestYear(table));
+}
+
+/** US CPI-U annual average for `year` (nearest covered year if outside the table). */
+export function cpiFor(year: number): number {
+  return lookupYear(CPI, year)!;
+}
+
+/**
+ * Re-express a USD amount from `fromYear` dollars in `toYear` dollars.
+ *   adjustForInflation(100, 2014, 2024) → ~132.5
+ */
+export function adjustForInflation(amount: number, fromYear: number, toYear: number): number {
+  if (fromYear === toYear) return amount;
+  return amount * (cpiFor(toYear) / cpiFor(fromYear));
+}
+
+// ── Fact conversion ─────────────────────────────────────────────────
+
+/** True if the fact's amount is denominated in a currency. */
+export function isMonetaryFact(fact: Fact, unit?: string): boolean {
+  return (
+    (fact.currency !== undefined && isCurrencyCode(fact.currency)) ||
+    (unit !== undefined && isCurrencyCode(unit))
+  );
+}
+
+function scaleValue(value: NumericFactValue, factor: number): NumericFactValue {
+  switch (value.type) {
+    case "number":
+      return { type: "number", value: value.value * factor, unit: "USD" };
+    case "range":
+      return { type: "range", low: value.low * factor, high: value.high * factor, unit: "USD" };
+    case "min":
+      return { type: "min", value: value.value * factor, unit: "USD" };
+  }
+}
+
+function pointAmount(value: NumericFactValue): number {
+  return value.type === "range" ? (value.low + value.high) / 2 : value.value;
+}
+
+/**
+ * Convert a monetary fact to US dollars, optionally in a target dollar year.
+ *
+ * The exchange rate comes from, in order: the fact's own `usdEquivalent`
+ * (single numbers only), its `exchangeRate`, then the offline table for
+ * the year of `exchangeRateDate` / `dollarYear` / `asOf`. The source dollar
+ * year is the fact's `dollarYear`, falling back to the year of its `asOf`.
+ *
+ * Returns undefined for non-numeric values, non-monetary facts, and
+ * currencies without a rate table.
+ */
+export function toUsd(fact: Fact, options: ToUsdOptions = {}): UsdConversion | undefined {
+  const value = fact.value;
+  if (value.type !== "number" && value.type !== "range" && value.type !== "min") return undefined;
+  const unit = options.unit ?? value.unit;
+  if (!isMonetaryFact(fact, unit)) return undefined;
+
+  const currency = resolveCurrency(fact.currency, unit);
+  const sourceYear = fact.dollarYear ?? yearOf(fact.asOf);
+
+  let rate: number | undefined;
+  if (currency === "USD") {
+    rate = 1;
+  } else if (value.type === "number" && fact.usdEquivalent !== undefined && value.value !== 0) {
+    rate = fact.usdEquivalent / value.value;
+  } else if (fact.exchangeRate !== undefined) {
+    rate = fact.exchangeRate;
+  } else {
+    rate = exchangeRateFor(currency, yearOf(fact.exchangeRateDate) ?? sourceYear);
+  }
+  if (rate === undefined) return undefined;
+
+  let factor = rate;
+  let dollarYear = sourceYear;
+  if (options.dollarYear !== undefined && sourceYear !== undefined) {
+    factor = adjustForInflation(rate, sourceYear, options.dollarYear);
+    dollarYear = options.dollarYear;
+  }
+
+  const converted = scaleValue(value, factor);
+  return {
+    value: converted,
+    amount: pointAmount(converted),
+    currency,
+    exchangeRate: rate,
+    ...(dollarYear !== undefined && { dollarYear }),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Semantic diff between two factbase loads.
+ *
+ * Compares entities, facts, and record entries by stable identity rather
+ * than by YAML text, so reviewers see "Anthropic revenue 2025-06 changed
+ * $4B → $5B (source changed)" instead of a raw line diff.
+ *
+ * Identity:
+ * - entities: Entity.id
+ * - facts:    Fact.id (computed inverse facts are skipped — they follow
+ *             from the authored facts and would only double the noise)
+ * - records:  "<ownerEntityId>/<collection>/<key>"
+ *
+ * Usage:
+ *   const before = await loadKB(oldDataDir);
+ *   const after = await loadKB(newDataDir);
+ *   const diff = diffKB(before, after);
+ */
+
+import type { Graph } from "./graph";
+import type { LoadResult } from "./loader";
+import type { Entity, Fact, RecordEntry } from "./types";
+import { numericValue } from "./query";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** One top-level field whose value differs between the two loads. */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EntityChange {
+  id: string;
+  before: Entity;
+  after: Entity;
+  changes: FieldChange[];
+}
+
+export interface FactChange {
+  id: string;
+  before: Fact;
+  after: Fact;
+  changes: FieldChange[];
+  /** after − before, when both values are numeric (ranges use midpoints) */
+  delta?: number;
+  /** True if source, sourceResource, or sourceQuote changed */
+  sourceChanged: boolean;
+}
+
+/** A record entry located by owner and collection. */
+export interface LocatedRecord {
+  /** "<ownerEntityId>/<collection>/<key>" */
+  id: string;
+  collection: string;
+  entry: RecordEntry;
+}
+
+export interface RecordChange {
+  id: string;
+  collection: string;
+  before: RecordEntry;
+  after: RecordEntry;
+  changes: FieldChange[];
+}
+
+export interface DiffSection<TItem, TChange> {
+  added: TItem[];
+  removed: TItem[];
+  changed: TChange[];
+}
+
+export interface KBDiff {
+  entities: DiffSection<Entity, EntityChange>;
+  facts: DiffSection<Fact, FactChange>;
+  records: DiffSection<LocatedRecord, RecordChange>;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const SOURCE_FIELDS = new Set(["source", "sourceResource", "sourceQuote"]);
+
+/** JSON serialization with sorted object keys, for order-insensitive equality. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)),
+      );
+    }
+    return v;
+  });
+}
+
+/** Field-by-field comparison of two flat objects, ignoring `skip` keys. */
+function compareFields<T extends object>(before: T, after: T, skip: string[] = []): FieldChange[] {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(b), ...Object.keys(a)]);
+  const changes: FieldChange[] = [];
+  for (const field of [...keys].sort()) {
+    if (skip.includes(field)) continue;
+    if (canonical(b[field]) !== canonical(a[field])) {
+      changes.push({ field, before: b[field], after: a[field] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Generic keyed diff: items present only in `before` are removed, only in
+ * `after` are added, and in both are passed to `compare`.
+ */
+function diffMaps<TItem, TChange>(
+  before: Map<string, TItem>,
+  after: Map<string, TItem>,
+  compare: (id: string, before: TItem, after: TItem) => TChange | undefined,
+): DiffSection<TItem, TChange> {
+  const section: DiffSection<TItem, TChange> = { added: [], removed: [], changed: [] };
+  for (const [id, item] of before) {
+    const next = after.get(id);
+    if (next === undefined) {
+      section.removed.push(item);
+    } else {
+      const change = compare(id, item, next);
+      if (change) section.changed.push(change);
+    }
+  }
+  for (const [id, item] of after) {
+    if (!before.has(id)) section.added.push(item);
+  }
+  return section;
+}
+
+function indexEntities(graph: Graph): Map<string, Entity> {
+  return new Map(graph.getAllEntities().map((e) => [e.id, e]));
+}
+
+function indexFacts(graph: Graph): Map<string, Fact> {
+  const index = new Map<string, Fact>();
+  for (const entity of graph.getAllEntities()) {
+    for (const fact of graph.getFacts(entity.id)) {
+      if (fact.derivedFrom === undefined) index.set(fact.id, fact);
+    }
+  }
+  return index;
+}
+
+function indexRecords(graph: Graph): Map<string, LocatedRecord> {
+  const index = new Map<string, LocatedRecord>();
+  for (const entity of graph.getAllEntities()) {
+    for (const [collection, entries] of graph.getAllRecordCollections(entity.id)) {
+      for (const entry of entries) {
+        const id = `${entry.ownerEntityId}/${collection}/${entry.key}`;
+        index.set(id, { id, collection, entry });
+      }
+    }
+  }
+  return index;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Compute a semantic diff between two factbase loads.
+ */
+export function diffKB(before: LoadResult, after: LoadResult): KBDiff {
+  const entities = diffMaps(
+    indexEntities(before.graph),
+    indexEntities(after.graph),
+    (id, b, a): EntityChange | undefined => {
+      const changes = compareFields(b, a, ["id"]);
+      return changes.length > 0 ? { id, before: b, after: a, changes } : undefined;
+    },
+  );
+
+  const facts = diffMaps(
+    indexFacts(before.graph),
+    indexFacts(after.graph),
+    (id, b, a): FactChange | undefined => {
+      const changes = compareFields(b, a, ["id"]);
+      if (changes.length === 0) return undefined;
+      const beforeNum = numericValue(b);
+      const afterNum = numericValue(a);
+      return {
+        id,
+        before: b,
+        after: a,
+        changes,
+        ...(beforeNum !== undefined && afterNum !== undefined && beforeNum !== afterNum && {
+          delta: afterNum - beforeNum,
+        }),
+        sourceChanged: changes.some((c) => SOURCE_FIELDS.has(c.field)),
+      };
+    },
+  );
+
+  const records = diffMaps(
+    indexRecords(before.graph),
+    indexRecords(after.graph),
+    (id, b, a): RecordChange | undefined => {
+      const changes = compareFields(b.entry, a.entry, ["key", "ownerEntityId"]);
+      return changes.length > 0
+        ? { id, collection: a.collection, before: b.entry, after: a.entry, changes }
+        : undefined;
+    },
+  );
+
+  return { entities, facts, records };
+}
+
+/** True if the diff contains no changes at all. */
+export function isEmptyDiff(diff: KBDiff): boolean {
+  return [diff.entities, diff.facts, diff.records].every(
+    (s) => s.added.length === 0 && s.removed.length === 0 && s.changed.length === 0,
+  );
+}
@@ -8,6 +8,7 @@
 import type { Fact, Property } from "./types";
 import type { Graph } from "./graph";
 import { CURRENCIES, resolveCurrency } from "./currencies";
+import { toUsd } from "./conversion";
 
 // ── Monetary formatting ─────────────────────────────────────────────
 
@@ -83,14 +84,31 @@ export function formatValue(value: unknown, property?: Property, currency?: stri
   return String(value);
 }
 
+export interface FormatFactOptions {
+  /**
+   * Show monetary values converted to USD in this year's dollars,
+   * e.g. 2024 → "$1.3B (2024 USD)". Non-monetary facts are unaffected.
+   */
+  dollarYear?: number;
+}
+
 /**
  * Format a fact value for display, resolving refs to entity names when possible.
  */
 export function formatFactValue(
   fact: Fact,
   property: Property | undefined,
-  graph: Graph
+  graph: Graph,
+  options: FormatFactOptions = {}
 ): string {
+  if (options.dollarYear !== undefined) {
+    const converted = toUsd(fact, { unit: property?.unit, dollarYear: options.dollarYear });
+    if (converted) {
+      const formatted = formatFactValue({ ...fact, value: converted.value, currency: "USD" }, property, graph);
+      return `${formatted} (${options.dollarYear} USD)`;
+    }
+  }
+
   const val = fact.value;
 
   if (val.type === "ref") {
@@ -12,7 +12,10 @@ import type {
   RecordEntry,
   FactQuery,
   PropertyQuery,
+  RecordQuery,
+  TemporalQuery,
 } from "./types";
+import { isActiveAt, parseAsOfDate, recordBounds } from "./temporal";
 
 export class Graph {
   private entities: Map<string, Entity> = new Map(); // keyed by entity.id (stableId)
@@ -165,15 +168,25 @@ export class Graph {
       result = result.filter((f) => f.validEnd === undefined);
     }
 
+    if (query?.asOf !== undefined) {
+      const date = query.asOf;
+      result = result.filter((f) => isActiveAt(f, date));
+    }
+
     return result;
   }
 
   /**
    * Returns the most recent fact for a given (entityId, propertyId) pair,
    * ordering by asOf descending. Facts without asOf come last.
+   * With `query.asOf`, only facts in effect at that date are considered.
    */
-  getLatest(entityId: string, propertyId: string): Fact | undefined {
-    const facts = this.getFacts(entityId, { property: propertyId });
+  getLatest(
+    entityId: string,
+    propertyId: string,
+    query?: TemporalQuery,
+  ): Fact | undefined {
+    const facts = this.getFacts(entityId, { property: propertyId, asOf: query?.asOf });
     if (facts.length === 0) return undefined;
 
     return facts.slice().sort((a, b) => {
@@ -195,7 +208,7 @@ export class Graph {
     const result = new Map<string, Fact>();
 
     for (const entityId of this.entities.keys()) {
-      const latest = this.getLatest(entityId, propertyId);
+      const latest = this.getLatest(entityId, propertyId, query);
       if (latest !== undefined) {
         result.set(entityId, latest);
       }
@@ -208,11 +221,14 @@ export class Graph {
    * Returns all facts per entity for a given property (full history).
    * Unlike getByProperty(), this returns arrays of facts, not just the latest.
    */
-  getAllByProperty(propertyId: string): Map<string, Fact[]> {
+  getAllByProperty(
+    propertyId: string,
+    query?: TemporalQuery,
+  ): Map<string, Fact[]> {
     const result = new Map<string, Fact[]>();
 
     for (const entityId of this.entities.keys()) {
-      const facts = this.getFacts(entityId, { property: propertyId });
+      const facts = this.getFacts(entityId, { property: propertyId, asOf: query?.asOf });
       if (facts.length > 0) {
         result.set(entityId, facts);
       }
@@ -224,8 +240,12 @@ export class Graph {
   /**
    * Returns the IDs of entities referenced by ref/refs facts on this entity.
    */
-  getRelated(entityId: string, propertyId: string): string[] {
-    const facts = this.getFacts(entityId, { property: propertyId });
+  getRelated(
+    entityId: string,
+    propertyId: string,
+    query?: TemporalQuery,
+  ): string[] {
+    const facts = this.getFacts(entityId, { property: propertyId, asOf: query?.asOf });
     const ids: string[] = [];
 
     for (const fact of facts) {
@@ -283,8 +303,13 @@ export class Graph {
   /**
    * Get record entries for a collection owned by an entity.
    */
-  getRecords(entityId: string, collectionName: string): RecordEntry[] {
-    return this.records.get(entityId)?.get(collectionName) ?? [];
+  getRecords(
+    entityId: string,
+    collectionName: string,
+    query?: RecordQuery,
+  ): RecordEntry[] {
+    const entries = this.records.get(entityId)?.get(collectionName) ?? [];
+    return filterRecords(entries, query);
   }
 
   /**
@@ -311,26 +336,27 @@ export class Graph {
   getRecordsReferencing(
     entityId: string,
     collectionName?: string,
+    query?: RecordQuery,
   ): RecordEntry[] {
     const refCollections = this.endpointIndex.get(entityId);
     if (!refCollections) return [];
 
     if (collectionName) {
-      return refCollections.get(collectionName) ?? [];
+      return filterRecords(refCollections.get(collectionName) ?? [], query);
     }
 
     const results: RecordEntry[] = [];
     for (const entries of refCollections.values()) {
       results.push(...entries);
     }
-    return results;
+    return filterRecords(results, query);
   }
 
   /**
    * Get all records of a given schema type across all entities.
    * Scans the primary index. For cross-entity dashboards.
    */
-  getAllRecordsOfType(schemaId: string): RecordEntry[] {
+  getAllRecordsOfType(schemaId: string, query?: RecordQuery): RecordEntry[] {
     const results: RecordEntry[] = [];
     for (const entityCollections of this.records.values()) {
       for (const [, entries] of entityCollections) {
@@ -341,6 +367,79 @@ export class Graph {
         }
       }
     }
-    return results;
+    return filterRecords(results, query);
   }
+
+  // ── Point-in-time view ──────────────────────────────────────────────
+
+  /**
+   * Returns a read-only view of the graph as of `date` (YYYY, YYYY-MM, or
+   * YYYY-MM-DD). Every query on the snapshot applies the same `asOf` filter,
+   * so `graph.at("2022-01").getLatest(id, "employed-by")` answers
+   * "where did this person work in January 2022?". Inverse facts are
+   * included as long as computeInverses() has run on this graph.
+   */
+  at(date: string): GraphSnapshot {
+    return new GraphSnapshot(this, date);
+  }
+}
+
+/**
+ * A Graph pinned to a single date. Created by `Graph.at()`; holds no data
+ * of its own and delegates every query to the underlying graph.
+ */
+export class GraphSnapshot {
+  constructor(
+    readonly graph: Graph,
+    readonly date: string,
+  ) {
+    // Fail fast on bad input instead of on the first query.
+    parseAsOfDate(date);
+  }
+
+  getEntity(id: string): Entity | undefined {
+    return this.graph.getEntity(id);
+  }
+
+  getFacts(entityId: string, query?: Omit<FactQuery, "asOf">): Fact[] {
+    return this.graph.getFacts(entityId, { ...query, asOf: this.date });
+  }
+
+  getLatest(entityId: string, propertyId: string): Fact | undefined {
+    return this.graph.getLatest(entityId, propertyId, { asOf: this.date });
+  }
+
+  getByProperty(propertyId: string): Map<string, Fact> {
+    return this.graph.getByProperty(propertyId, { asOf: this.date });
+  }
+
+  getAllByProperty(propertyId: string): Map<string, Fact[]> {
+    return this.graph.getAllByProperty(propertyId, { asOf: this.date });
+  }
+
+  getRelated(entityId: string, propertyId: string): string[] {
+    return this.graph.getRelated(entityId, propertyId, { asOf: this.date });
+  }
+
+  getRecords(entityId: string, collectionName: string): RecordEntry[] {
+    return this.graph.getRecords(entityId, collectionName, { asOf: this.date });
+  }
+
+  getRecordsReferencing(entityId: string, collectionName?: string): RecordEntry[] {
+    return this.graph.getRecordsReferencing(entityId, collectionName, { asOf: this.date });
+  }
+
+  getAllRecordsOfType(schemaId: string): RecordEntry[] {
+    return this.graph.getAllRecordsOfType(schemaId, { asOf: this.date });
+  }
+}
+
+/**
+ * Applies a RecordQuery's temporal filter; returns the input when there is
+ * none. Bounds come from asOf/validEnd or the schema's date fields.
+ */
+function filterRecords(entries: RecordEntry[], query?: RecordQuery): RecordEntry[] {
+  if (query?.asOf === undefined) return entries;
+  const date = query.asOf;
+  return entries.filter((entry) => isActiveAt(recordBounds(entry), date));
 }
@@ -4,12 +4,52 @@
 
 export { loadKB, CUSTOM_TAGS, RefMarker, DateMarker, SrcMarker } from "./loader";
 export type { LoadResult } from "./loader";
-export { Graph } from "./graph";
+export { Graph, GraphSnapshot } from "./graph";
+export {
+  normalizeDate,
+  parseAsOfDate,
+  isActiveAt,
+  recordBounds,
+  RECORD_DATE_FIELDS,
+} from "./temporal";
 export { computeInverses } from "./inverse";
 export { validate, validateEntity } from "./validate";
 export * from "./types";
 export * from "./ids";
-export { serialize } from "./serialize";
+export {
+  runQuery,
+  parsePredicate,
+  parseSort,
+  parseRelated,
+  parseRecordFilter,
+  parseAggregate,
+  AGGREGATE_OPS,
+  numericValue,
+} from "./query";
+export type {
+  QuerySpec,
+  QueryResult,
+  QueryRow,
+  QuerySort,
+  QueryAggregate,
+  AggregateOp,
+  PropertyPredicate,
+  PredicateOp,
+  RelatedFilter,
+  RecordFilter,
+  RunQueryOptions,
+} from "./query";
+export { diffKB, isEmptyDiff } from "./diff";
+export type {
+  KBDiff,
+  DiffSection,
+  FieldChange,
+  EntityChange,
+  FactChange,
+  RecordChange,
+  LocatedRecord,
+} from "./diff";
+export { serialize, deserialize } from "./serialize";
 export type { SerializedKB } from "./serialize";
 export {
   formatMoney,
@@ -17,6 +57,15 @@ export {
   formatFactValue,
   resolveRefName,
 } from "./format";
+export type { FormatFactOptions } from "./format";
+export {
+  toUsd,
+  exchangeRateFor,
+  cpiFor,
+  adjustForInflation,
+  isMonetaryFact,
+} from "./conversion";
+export type { UsdConversion, ToUsdOptions, NumericFactValue } from "./conversion";
 export { CURRENCIES, resolveCurrency, isCurrencyCode } from "./currencies";
 export type { CurrencyFormat } from "./currencies";
 
@@ -0,0 +1,443 @@
+/**
+ * Declarative queries over the knowledge base graph.
+ *
+ * A QuerySpec describes which entities to select (type, property predicates,
+ * ref traversal, record joins), how to order them, and optionally an
+ * aggregate over one property. runQuery() evaluates it against a Graph:
+ *
+ *   runQuery(graph, {
+ *     type: "organization",
+ *     where: [{ property: "headcount", op: "gt", value: 500 }],
+ *     hasRecord: [{ schema: "investment", field: "investor", equals: "microsoft" }],
+ *     sort: { property: "revenue", direction: "desc" },
+ *     select: ["revenue", "headcount"],
+ *   });
+ *
+ * Property predicates and sort keys use each entity's latest fact for the
+ * property (or the latest as of `spec.asOf`). Numeric comparisons use
+ * numericValue(): number and min values as-is, range values by midpoint.
+ *
+ * parsePredicate()/parseSort()/parseRelated()/parseRecordFilter()/
+ * parseAggregate() turn compact strings ("headcount>500", "-revenue",
+ * "investment.investor=microsoft") into spec parts, shared by the CLI and
+ * MDX props.
+ */
+
+import type { Graph } from "./graph";
+import type { Entity, Fact, RecordEntry } from "./types";
+
+// ── Spec types ──────────────────────────────────────────────────────────────
+
+export type PredicateOp =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "exists"
+  | "missing";
+
+/** A test against an entity's latest fact for `property`. */
+export interface PropertyPredicate {
+  property: string;
+  op: PredicateOp;
+  /** Comparison value (unused for exists/missing). Refs may be IDs or slugs. */
+  value?: string | number | boolean;
+}
+
+/**
+ * Ref traversal: the entity matches if, via ref/refs facts on `property`,
+ * it points to `includes` and/or to some entity matching the sub-query.
+ */
+export interface RelatedFilter {
+  property: string;
+  /** Entity ID or slug that must be among the related entities. */
+  includes?: string;
+  /** Sub-query that at least one related entity must satisfy. */
+  match?: QuerySpec;
+}
+
+/**
+ * Record join: the entity matches if it owns (or, with `referenced`, is an
+ * explicit endpoint of) a record of `schema` whose `field` equals `equals`.
+ * Without `field`, any record of the schema counts.
+ */
+export interface RecordFilter {
+  schema: string;
+  field?: string;
+  equals?: string | number | boolean;
+  /** Match records that reference the entity via an endpoint, instead of records it owns. */
+  referenced?: boolean;
+}
+
+export interface QuerySort {
+  property: string;
+  /** Defaults to "asc", as with parseSort("revenue"). */
+  direction?: "asc" | "desc";
+}
+
+export type AggregateOp = "count" | "sum" | "mean" | "median" | "min" | "max";
+
+export interface QueryAggregate {
+  op: AggregateOp;
+  /** Property to aggregate over (numeric facts). Not needed for `count`. */
+  property?: string;
+}
+
+export interface QuerySpec {
+  /** Entity type(s) to include. */
+  type?: string | string[];
+  /** Restrict to these entity IDs or slugs. */
+  ids?: string[];
+  /** All predicates must hold. */
+  where?: PropertyPredicate[];
+  /** All ref traversals must match. */
+  related?: RelatedFilter[];
+  /** All record joins must match. */
+  hasRecord?: RecordFilter[];
+  sort?: QuerySort;
+  limit?: number;
+  /** Property IDs whose latest facts are returned on each row. */
+  select?: string[];
+  aggregate?: QueryAggregate;
+  /** Evaluate everything as of this date (YYYY, YYYY-MM, or YYYY-MM-DD). */
+  asOf?: string;
+}
+
+export interface QueryRow {
+  entity: Entity;
+  /** Latest fact per selected property (undefined = no data). */
+  values: Record<string, Fact | undefined>;
+}
+
+export interface QueryResult {
+  rows: QueryRow[];
+  /** Number of matching entities before `limit` was applied. */
+  total: number;
+  /** Present when the spec has an aggregate; null if no numeric values. */
+  aggregate?: { op: AggregateOp; property?: string; value: number | null; count: number };
+}
+
+export interface RunQueryOptions {
+  /**
+   * Resolves a slug (or other alias) to an entity ID. Record endpoints and
+   * user input are often slugs; without this only raw IDs match.
+   */
+  resolveId?: (ref: string) => string | undefined;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Returns a comparable number for a fact, or undefined for non-numeric values.
+ * Ranges use their midpoint; `min` values use the lower bound.
+ */
+export function numericValue(fact: Fact | undefined): number | undefined {
+  if (!fact) return undefined;
+  const v = fact.value;
+  switch (v.type) {
+    case "number":
+    case "min":
+      return v.value;
+    case "range":
+      return (v.low + v.high) / 2;
+    default:
+      return undefined;
+  }
+}
+
+/** Returns the comparable scalar for a fact's value (number, string, or boolean). */
+function scalarValue(fact: Fact): string | number | boolean | undefined {
+  const num = numericValue(fact);
+  if (num !== undefined) return num;
+  const v = fact.value;
+  switch (v.type) {
+    case "text":
+    case "date":
+    case "ref":
+      return v.value;
+    case "boolean":
+      return v.value;
+    default:
+      return undefined;
+  }
+}
+
+function compare(a: string | number | boolean, b: string | number | boolean): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function testPredicate(
+  fact: Fact | undefined,
+  pred: PropertyPredicate,
+  resolve: (ref: string) => string,
+): boolean {
+  if (pred.op === "exists") return fact !== undefined;
+  if (pred.op === "missing") return fact === undefined;
+  if (!fact || pred.value === undefined) return false;
+
+  if (pred.op === "contains") {
+    const v = fact.value;
+    const needle = String(pred.value);
+    if (v.type === "refs") return v.value.includes(resolve(needle));
+    if (v.type === "ref") return v.value === resolve(needle);
+    if (v.type === "text") return v.value.toLowerCase().includes(needle.toLowerCase());
+    return false;
+  }
+
+  const actual = scalarValue(fact);
+  if (actual === undefined) return false;
+  let expected = pred.value;
+  if (fact.value.type === "ref" && typeof expected === "string") expected = resolve(expected);
+  // Numeric facts compared with numeric strings ("500" from the CLI).
+  if (typeof actual === "number" && typeof expected === "string" && expected.trim() !== "") {
+    const n = Number(expected);
+    if (Number.isFinite(n)) expected = n;
+  }
+
+  const cmp = compare(actual, expected);
+  switch (pred.op) {
+    case "eq":
+      return cmp === 0;
+    case "ne":
+      return cmp !== 0;
+    case "gt":
+      return cmp > 0;
+    case "gte":
+      return cmp >= 0;
+    case "lt":
+      return cmp < 0;
+    case "lte":
+      return cmp <= 0;
+  }
+}
+
+function recordMatches(
+  entry: RecordEntry,
+  filter: RecordFilter,
+  resolve: (ref: string) => string,
+): boolean {
+  if (entry.schema !== filter.schema) return false;
+  if (filter.field === undefined) return true;
+  const actual = entry.fields[filter.field];
+  if (filter.equals === undefined) return actual !== undefined && actual !== null;
+  if (typeof actual === "string" && typeof filter.equals === "string") {
+    return actual === filter.equals || resolve(actual) === resolve(filter.equals);
+  }
+  return actual === filter.equals;
+}
+
+function aggregateValues(op: AggregateOp, values: number[]): number | null {
+  if (op === "count") return values.length;
+  if (values.length === 0) return null;
+  switch (op) {
+    case "sum":
+      return values.reduce((a, b) => a + b, 0);
+    case "mean":
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+    case "median": {
+      const sorted = values.slice().sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+}
+
+// ── Evaluation ─────────────────────────────────────────────────────────────
+
+/** Returns the entities matching a spec's filters (no sort/limit). */
+function matchEntities(
+  graph: Graph,
+  spec: QuerySpec,
+  resolve: (ref: string) => string,
+): Entity[] {
+  const types = spec.type === undefined ? undefined : new Set([spec.type].flat());
+  const ids = spec.ids ? new Set(spec.ids.map(resolve)) : undefined;
+  const temporal = { asOf: spec.asOf };
+  const recordQuery = { asOf: spec.asOf };
+
+  return graph.getAllEntities().filter((entity) => {
+    if (types && !types.has(entity.type)) return false;
+    if (ids && !ids.has(entity.id)) return false;
+
+    for (const pred of spec.where ?? []) {
+      const fact = graph.getLatest(entity.id, pred.property, temporal);
+      if (!testPredicate(fact, pred, resolve)) return false;
+    }
+
+    for (const rel of spec.related ?? []) {
+      const relatedIds = graph.getRelated(entity.id, rel.property, temporal);
+      if (rel.includes !== undefined && !relatedIds.includes(resolve(rel.includes))) {
+        return false;
+      }
+      if (rel.match) {
+        const sub = { ...rel.match, ids: relatedIds, asOf: rel.match.asOf ?? spec.asOf };
+        if (matchEntities(graph, sub, resolve).length === 0) return false;
+      }
+    }
+
+    for (const filter of spec.hasRecord ?? []) {
+      const entries = filter.referenced
+        ? graph.getRecordsReferencing(entity.id, undefined, recordQuery)
+        : graph
+            .getRecordCollectionNames(entity.id)
+            .flatMap((name) => graph.getRecords(entity.id, name, recordQuery));
+      if (!entries.some((entry) => recordMatches(entry, filter, resolve))) return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Evaluates a QuerySpec against the graph. Unknown properties simply match
+ * nothing; an invalid `asOf` date throws.
+ */
+export function runQuery(
+  graph: Graph,
+  spec: QuerySpec,
+  options?: RunQueryOptions,
+): QueryResult {
+  const resolve = (ref: string): string => {
+    if (graph.getEntity(ref)) return ref;
+    return options?.resolveId?.(ref) ?? ref;
+  };
+  const temporal = { asOf: spec.asOf };
+
+  let entities = matchEntities(graph, spec, resolve);
+
+  if (spec.sort) {
+    const { property, direction = "asc" } = spec.sort;
+    const sign = direction === "asc" ? 1 : -1;
+    const keyed = entities.map((entity) => {
+      const fact = graph.getLatest(entity.id, property, temporal);
+      return { entity, key: fact ? scalarValue(fact) : undefined };
+    });
+    keyed.sort((a, b) => {
+      // Entities without a value always sort last, regardless of direction.
+      if (a.key === undefined && b.key === undefined) return a.entity.name.localeCompare(b.entity.name);
+      if (a.key === undefined) return 1;
+      if (b.key === undefined) return -1;
+      return sign * compare(a.key, b.key) || a.entity.name.localeCompare(b.entity.name);
+    });
+    entities = keyed.map((k) => k.entity);
+  } else {
+    entities = entities.slice().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  const total = entities.length;
+
+  let aggregate: QueryResult["aggregate"];
+  if (spec.aggregate) {
+    const { op, property } = spec.aggregate;
+    const values: number[] = [];
+    if (property) {
+      for (const entity of entities) {
+        const num = numericValue(graph.getLatest(entity.id, property, temporal));
+        if (num !== undefined) values.push(num);
+      }
+    }
+    const value = op === "count" && !property ? total : aggregateValues(op, values);
+    aggregate = { op, ...(property && { property }), value, count: property ? values.length : total };
+  }
+
+  if (spec.limit !== undefined) entities = entities.slice(0, Math.max(0, spec.limit));
+
+  const select = spec.select ?? (spec.sort ? [spec.sort.property] : []);
+  const rows = entities.map((entity) => {
+    const values: Record<string, Fact | undefined> = {};
+    for (const property of select) {
+      values[property] = graph.getLatest(entity.id, property, temporal);
+    }
+    return { entity, values };
+  });
+
+  return { rows, total, ...(aggregate && { aggregate }) };
+}
+
+// ── String forms (CLI flags, MDX props) ────────────────────────────────────
+
+const PREDICATE_RE = /^\s*([A-Za-z0-9_-]+)\s*(>=|<=|!=|=|>|<|~)\s*(.+?)\s*$/;
+
+const OP_BY_SYMBOL: Record<string, PredicateOp> = {
+  "=": "eq",
+  "!=": "ne",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+  "~": "contains",
+};
+
+/**
+ * Parses a compact predicate string:
+ *   "headcount>500", "legal-structure=PBC", "founded-by~dario-amodei",
+ *   "revenue?" (exists), "!revenue" (missing).
+ * Numeric-looking values become numbers; "true"/"false" become booleans.
+ * Throws on unparseable input.
+ */
+export function parsePredicate(input: string): PropertyPredicate {
+  const trimmed = input.trim();
+  if (/^![A-Za-z0-9_-]+$/.test(trimmed)) return { property: trimmed.slice(1), op: "missing" };
+  if (/^[A-Za-z0-9_-]+\?$/.test(trimmed)) return { property: trimmed.slice(0, -1), op: "exists" };
+
+  const match = PREDICATE_RE.exec(trimmed);
+  if (!match) {
+    throw new Error(
+      `Invalid predicate "${input}" (expected e.g. "headcount>500", "legal-structure~benefit", "revenue?", "!revenue")`,
+    );
+  }
+  const [, property, symbol, raw] = match;
+  const unquoted = raw.replace(/^["'](.*)["']$/, "$1");
+  let value: string | number | boolean = unquoted;
+  if (unquoted === "true" || unquoted === "false") value = unquoted === "true";
+  else if (unquoted === raw && unquoted !== "" && Number.isFinite(Number(unquoted))) value = Number(unquoted);
+  return { property, op: OP_BY_SYMBOL[symbol], value };
+}
+
+/** Parses "revenue" / "+revenue" (ascending) / "-revenue" (descending). */
+export function parseSort(input: string): QuerySort {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("+")) return { property: trimmed.slice(1), direction: "asc" };
+  if (trimmed.startsWith("-")) return { property: trimmed.slice(1), direction: "desc" };
+  return { property: trimmed, direction: "asc" };
+}
+
+/** Parses "property:entity" — entities related via `property` must include `entity`. */
+export function parseRelated(input: string): RelatedFilter {
+  const [property, includes] = input.trim().split(":");
+  if (!property || !includes) {
+    throw new Error(`Invalid related filter "${input}" (expected PROPERTY:ENTITY, e.g. "founded-by:dario-amodei")`);
+  }
+  return { property, includes };
+}
+
+/** Parses "schema", "schema.field" (field set) or "schema.field=value". */
+export function parseRecordFilter(input: string): RecordFilter {
+  const match = /^([\w-]+)(?:\.([\w-]+)(?:=(.+))?)?$/.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid record filter "${input}" (expected SCHEMA[.FIELD[=VALUE]], e.g. "investment.investor=microsoft")`);
+  }
+  const [, schema, field, equals] = match;
+  return { schema, ...(field && { field }), ...(equals !== undefined && { equals }) };
+}
+
+export const AGGREGATE_OPS: readonly AggregateOp[] = ["count", "sum", "mean", "median", "min", "max"];
+
+/** Parses "op" or "op:property", e.g. "count" or "median:revenue". */
+export function parseAggregate(input: string): QueryAggregate {
+  const [op, property] = input.trim().split(":");
+  if (!AGGREGATE_OPS.includes(op as AggregateOp)) {
+    throw new Error(
+      `Invalid aggregate "${input}" (expected one of ${AGGREGATE_OPS.join(", ")}, e.g. "median:revenue")`,
+    );
+  }
+  return { op: op as AggregateOp, ...(property && { property }) };
+}
@@ -1,8 +1,9 @@
 /**
- * Serialization: Graph → JSON (for downstream consumers like build-data).
+ * Serialization: Graph → JSON (for downstream consumers like build-data),
+ * and back (for consumers that want Graph queries over the JSON).
  */
 
-import type { Graph } from "./graph";
+import { Graph } from "./graph";
 import type { RecordEntry, RecordSchema } from "./types";
 
 export interface SerializedKB {
@@ -86,3 +87,25 @@ export function serialize(
     ...(Object.keys(previousSlugToCurrentSlug).length > 0 && { previousSlugToCurrentSlug }),
   };
 }
+
+/**
+ * Rebuild a Graph from serialized data (the inverse of serialize()).
+ * Inverse facts are present only if computeInverses() ran before
+ * serialize(); call it on the result otherwise.
+ */
+export function deserialize(kb: SerializedKB): Graph {
+  const graph = new Graph();
+  for (const property of kb.properties) graph.addProperty(property);
+  for (const schema of kb.schemas) graph.addSchema(schema);
+  for (const recordSchema of kb.recordSchemas) graph.addRecordSchema(recordSchema);
+  for (const entity of kb.entities) graph.addEntity(entity);
+  for (const facts of Object.values(kb.facts)) {
+    for (const fact of facts) graph.addFact(fact);
+  }
+  for (const collections of Object.values(kb.records)) {
+    for (const [collectionName, entries] of Object.entries(collections)) {
+      for (const entry of entries) graph.addRecord(collectionName, entry);
+    }
+  }
+  return graph;
+}
@@ -0,0 +1,101 @@
+/**
+ * Temporal helpers for point-in-time ("as of") queries.
+ *
+ * Facts and records carry partial ISO dates ("2024", "2024-06",
+ * "2024-06-15"). To compare them, every date is padded to the first day of
+ * its period ("2024" → "2024-01-01", "2024-06" → "2024-06-01"), so a partial
+ * date means "from the start of that period".
+ *
+ * A fact or record is active at date D when:
+ * - its asOf is absent or <= D (a missing asOf means "always held"), and
+ * - its validEnd is absent or > D (validEnd is exclusive).
+ *
+ * Most record schemas keep their dates in data fields (key-person `start`/
+ * `end`, board-seat `appointed`/`departed`, …) rather than asOf/validEnd;
+ * RECORD_DATE_FIELDS maps each schema to the fields that bound it.
+ */
+
+import type { RecordEntry } from "./types";
+
+/** Matches YYYY, YYYY-MM, or YYYY-MM-DD (optionally followed by a time part). */
+const PARTIAL_DATE_RE = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/;
+
+/**
+ * Pads a partial ISO date to a full YYYY-MM-DD string for ordering.
+ * Returns undefined if the input does not start with a 4-digit year.
+ */
+export function normalizeDate(date: string): string | undefined {
+  const match = PARTIAL_DATE_RE.exec(date.trim());
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01"] = match;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses a query date ("as of" input), throwing on anything that isn't
+ * YYYY, YYYY-MM, or YYYY-MM-DD.
+ */
+export function parseAsOfDate(date: string): string {
+  const normalized = normalizeDate(date);
+  if (normalized === undefined) {
+    throw new Error(`Invalid as-of date "${date}" (expected YYYY, YYYY-MM, or YYYY-MM-DD)`);
+  }
+  return normalized;
+}
+
+/**
+ * Returns true if something with the given temporal bounds was in effect at
+ * `date`. Unparseable bounds are ignored (treated as absent).
+ */
+export function isActiveAt(
+  bounds: { asOf?: string; validEnd?: string },
+  date: string,
+): boolean {
+  const at = parseAsOfDate(date);
+
+  const start = bounds.asOf !== undefined ? normalizeDate(bounds.asOf) : undefined;
+  if (start !== undefined && start > at) return false;
+
+  const end = bounds.validEnd !== undefined ? normalizeDate(bounds.validEnd) : undefined;
+  if (end !== undefined && end <= at) return false;
+
+  return true;
+}
+
+/**
+ * Data fields holding the start and (exclusive) end of a record, per record
+ * schema. Schemas with only a start describe events — a grant or a model
+ * release is "in effect" from its date onward.
+ */
+export const RECORD_DATE_FIELDS: Readonly<Record<string, { start: string; end?: string }>> = {
+  "key-person": { start: "start", end: "end" },
+  "career-history": { start: "start", end: "end" },
+  "board-seat": { start: "appointed", end: "departed" },
+  division: { start: "startDate", end: "endDate" },
+  "research-area": { start: "started" },
+  "model-release": { start: "released" },
+  product: { start: "launched" },
+  "funding-round": { start: "date" },
+  "funding-program": { start: "date" },
+  "dilution-stage": { start: "date" },
+  grant: { start: "date" },
+  investment: { start: "date" },
+  "safety-milestone": { start: "date" },
+  "strategic-partnership": { start: "date" },
+};
+
+/**
+ * Temporal bounds of a record entry: explicit asOf/validEnd when set,
+ * otherwise the schema's date fields from RECORD_DATE_FIELDS.
+ */
+export function recordBounds(entry: RecordEntry): { asOf?: string; validEnd?: string } {
+  const dateFields = RECORD_DATE_FIELDS[entry.schema];
+  const field = (name: string | undefined): string | undefined => {
+    const value = name !== undefined ? entry.fields[name] : undefined;
+    return value === undefined || value === null || value === "" ? undefined : String(value);
+  };
+  return {
+    asOf: entry.asOf ?? field(dateFields?.start),
+    validEnd: entry.validEnd ?? field(dateFields?.end),
+  };
+}
@@ -72,7 +72,7 @@ export interface Fact {
   exchangeRate?: number;
   /** When the exchange rate was observed (YYYY-MM or YYYY-MM-DD) */
   exchangeRateDate?: string;
-  /** Dollar year for inflation context (e.g., 2024). Reserved for future use. */
+  /** Year whose prices the amount is in (e.g., 2024). Defaults to the asOf year for inflation adjustment. */
   dollarYear?: number;
 }
 
@@ -242,7 +242,7 @@ export interface RawFact {
   exchangeRate?: number;
   /** When the exchange rate was observed */
   exchangeRateDate?: string;
-  /** Dollar year for inflation context (reserved for future use) */
+  /** Year whose prices the amount is in (used for inflation adjustment) */
   dollarYear?: number;
 }
 
@@ -292,13 +292,25 @@ export interface ValidationResult {
 
 // ── Query options ───────────────────────────────────────────────────
 
-export interface FactQuery {
+export interface TemporalQuery {
+  /**
+   * Point-in-time filter (YYYY, YYYY-MM, or YYYY-MM-DD). Only facts/records
+   * whose [asOf, validEnd) interval contains this date are returned; records
+   * without asOf/validEnd use their schema's date fields (start/end, …).
+   * See temporal.ts for how partial dates are compared.
+   */
+  asOf?: string;
+}
+
+export interface FactQuery extends TemporalQuery {
   property?: string;
   /** Only return facts that are currently valid (no validEnd) */
   current?: boolean;
 }
 
-export interface PropertyQuery {
+export interface PropertyQuery extends TemporalQuery {
   /** Only return the latest fact per entity (by asOf) */
   latest?: boolean;
 }
+
+export type RecordQuery = TemporalQuery;
@@ -40,22 +40,50 @@
  *
  * Currency:
  * 23. currency-code        (warning)  — Fact has unknown currency code
+ *
+ * Records (24–30, checked per owning entity):
+ * 24. record-required-endpoint (error) — Required explicit endpoint missing
+ *                                        and no display_name fallback
+ * 25. record-endpoint-ref  (error)    — Endpoint value doesn't resolve to an
+ *                                       entity (warning when the endpoint
+ *                                       allows display names)
+ * 26. record-endpoint-type (error)    — Endpoint entity's type is not in
+ *                                       EndpointDef.types
+ * 27. record-required-field (error)   — Required data field is missing
+ * 28. record-field-type    (error)    — Field value doesn't match FieldDef.type
+ * 29. record-unknown-field (warning)  — Field not declared in the record schema
+ * 30. record-temporal      (error/warning) — validEnd earlier than asOf, or
+ *                                       the schema's end date field earlier
+ *                                       than its start (error); bad date
+ *                                       format or bounds on a non-temporal
+ *                                       schema (warning)
  */
 
 import type { Graph } from "./graph";
 import type {
+  Entity,
   Fact,
   FactValue,
+  FieldDef,
+  RecordEntry,
+  RecordSchema,
   TypeSchema,
   ValidationResult,
 } from "./types";
 import { CURRENCIES } from "./currencies";
+import { normalizeDate, RECORD_DATE_FIELDS } from "./temporal";
 
 // ── Validation options ────────────────────────────────────────────────────────
 
 export interface ValidateOptions {
   /** If true, check source URLs for HTTP status (expensive, default: false). */
   checkUrls?: boolean;
+  /**
+   * Entity ID → YAML filename slug (LoadResult.filenameMap). Record endpoints
+   * are usually written as slugs ("dario-amodei"), so without this map only
+   * stable IDs and previousSlugs resolve in the record endpoint checks.
+   */
+  filenameMap?: Map<string, string>;
 }
 
 // ── Utility helpers ───────────────────────────────────────────────────────────
@@ -720,6 +748,278 @@ function checkCurrencyCode(
   return results;
 }
 
+// ── Record checks (24–30) ────────────────────────────────────────────────────
+
+/** Record fields that live on RecordEntry itself rather than in `fields`. */
+const RECORD_META_FIELDS = new Set(["display_name", "asOf", "validEnd"]);
+
+/** Builds a slug → entity ID index from the loader's filenameMap plus previousSlugs. */
+function buildSlugIndex(
+  graph: Graph,
+  filenameMap?: Map<string, string>,
+): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const entity of graph.getAllEntities()) {
+    for (const prev of entity.previousSlugs ?? []) index.set(prev, entity.id);
+  }
+  // Current slugs win over previous ones.
+  for (const [entityId, slug] of filenameMap ?? []) index.set(slug, entityId);
+  return index;
+}
+
+/** Resolves an endpoint value (stable ID or slug) to an entity. */
+function resolveEndpoint(
+  graph: Graph,
+  value: string,
+  slugIndex: Map<string, string>,
+): Entity | undefined {
+  const byId = graph.getEntity(value);
+  if (byId) return byId;
+  const id = slugIndex.get(value);
+  return id ? graph.getEntity(id) : undefined;
+}
+
+/**
+ * Returns true if `value` matches the FieldDef type. Number fields may be
+ * a `[min, max]` pair (e.g. equity stakes); text fields accept numbers and
+ * booleans since YAML coerces unquoted scalars like `2014` or `yes`.
+ */
+function matchesFieldType(def: FieldDef, value: unknown): boolean {
+  switch (def.type) {
+    case "number":
+      if (typeof value === "number") return Number.isFinite(value);
+      return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        value.every((v) => typeof v === "number" && Number.isFinite(v)) &&
+        value[0] <= value[1]
+      );
+    case "text":
+      return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+    case "date":
+      return looksLikeDate(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "ref":
+      return typeof value === "string";
+    default:
+      // Unknown field types are a schema problem, not a data problem.
+      return true;
+  }
+}
+
+/** Human-readable label for a record entry in messages. */
+function recordLabel(entry: RecordEntry): string {
+  return `${entry.ownerEntityId}/${entry.schema}/${entry.key}`;
+}
+
+/** Checks 24–26: explicit endpoints are present, resolve, and have allowed types. */
+function checkRecordEndpoints(
+  graph: Graph,
+  entry: RecordEntry,
+  schema: RecordSchema,
+  slugIndex: Map<string, string>,
+): ValidationResult[] {
+  const results: ValidationResult[] = [];
+  const entityId = entry.ownerEntityId;
+
+  for (const [name, def] of Object.entries(schema.endpoints)) {
+    if (def.implicit) continue;
+    const value = entry.fields[name];
+
+    if (value === undefined || value === null || value === "") {
+      if (def.required && !entry.displayName) {
+        results.push({
+          severity: "error",
+          entityId,
+          message:
+            `Record "${recordLabel(entry)}" is missing required endpoint "${name}" ` +
+            `(and no display_name fallback).`,
+          rule: "record-required-endpoint",
+        });
+      }
+      continue;
+    }
+
+    if (typeof value !== "string") {
+      results.push({
+        severity: "error",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": endpoint "${name}" must be an entity ID or slug ` +
+          `(got ${typeof value}).`,
+        rule: "record-endpoint-ref",
+      });
+      continue;
+    }
+
+    const target = resolveEndpoint(graph, value, slugIndex);
+    if (!target) {
+      results.push({
+        severity: def.allowDisplayName ? "warning" : "error",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": endpoint "${name}" references unknown entity "${value}"` +
+          (def.allowDisplayName ? ` (use display_name for non-entity participants).` : `.`),
+        rule: "record-endpoint-ref",
+      });
+      continue;
+    }
+
+    if (def.types.length > 0 && !def.types.includes(target.type)) {
+      results.push({
+        severity: "error",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": endpoint "${name}" points to "${target.name}" ` +
+          `of type "${target.type}" (allowed: ${def.types.join(", ")}).`,
+        rule: "record-endpoint-type",
+      });
+    }
+  }
+
+  return results;
+}
+
+/** Checks 27–29: data fields match the schema's FieldDefs. */
+function checkRecordFields(
+  entry: RecordEntry,
+  schema: RecordSchema,
+): ValidationResult[] {
+  const results: ValidationResult[] = [];
+  const entityId = entry.ownerEntityId;
+
+  for (const [name, def] of Object.entries(schema.fields)) {
+    const value = entry.fields[name];
+    if (value === undefined || value === null) {
+      if (def.required) {
+        results.push({
+          severity: "error",
+          entityId,
+          message: `Record "${recordLabel(entry)}" is missing required field "${name}".`,
+          rule: "record-required-field",
+        });
+      }
+      continue;
+    }
+
+    if (!matchesFieldType(def, value)) {
+      results.push({
+        severity: "error",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": field "${name}" should be of type "${def.type}" ` +
+          `(got ${JSON.stringify(value)}).`,
+        rule: "record-field-type",
+      });
+    }
+  }
+
+  for (const name of Object.keys(entry.fields)) {
+    if (name in schema.fields || name in schema.endpoints || RECORD_META_FIELDS.has(name)) continue;
+    results.push({
+      severity: "warning",
+      entityId,
+      message:
+        `Record "${recordLabel(entry)}" has field "${name}" that is not declared ` +
+        `in record schema "${schema.id}".`,
+      rule: "record-unknown-field",
+    });
+  }
+
+  return results;
+}
+
+/** Check 30: temporal bounds on records are well-formed and ordered. */
+function checkRecordTemporal(
+  entry: RecordEntry,
+  schema: RecordSchema,
+): ValidationResult[] {
+  const results: ValidationResult[] = [];
+  const entityId = entry.ownerEntityId;
+
+  if (!schema.temporal && (entry.asOf || entry.validEnd)) {
+    results.push({
+      severity: "warning",
+      entityId,
+      message:
+        `Record "${recordLabel(entry)}" has asOf/validEnd but record schema ` +
+        `"${schema.id}" is not temporal.`,
+      rule: "record-temporal",
+    });
+  }
+
+  for (const [label, value] of [["asOf", entry.asOf], ["validEnd", entry.validEnd]] as const) {
+    if (value && !DATE_FORMAT_RE.test(value)) {
+      results.push({
+        severity: "warning",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": ${label} "${value}" ` +
+          `does not match date format (YYYY, YYYY-MM, or YYYY-MM-DD).`,
+        rule: "record-temporal",
+      });
+    }
+  }
+
+  if (entry.asOf && entry.validEnd && entry.validEnd < entry.asOf) {
+    results.push({
+      severity: "error",
+      entityId,
+      message:
+        `Record "${recordLabel(entry)}": validEnd "${entry.validEnd}" ` +
+        `is earlier than asOf "${entry.asOf}".`,
+      rule: "record-temporal",
+    });
+  }
+
+  // Date fields that bound the record (key-person start/end, board-seat
+  // appointed/departed, …). Format is covered by record-field-type.
+  const dateFields = RECORD_DATE_FIELDS[entry.schema];
+  if (dateFields?.end) {
+    const start = entry.fields[dateFields.start];
+    const end = entry.fields[dateFields.end];
+    const startDate = start != null ? normalizeDate(String(start)) : undefined;
+    const endDate = end != null ? normalizeDate(String(end)) : undefined;
+    if (startDate && endDate && endDate < startDate) {
+      results.push({
+        severity: "error",
+        entityId,
+        message:
+          `Record "${recordLabel(entry)}": ${dateFields.end} "${end}" ` +
+          `is earlier than ${dateFields.start} "${start}".`,
+        rule: "record-temporal",
+      });
+    }
+  }
+
+  return results;
+}
+
+/** Checks 24–30 for every record owned by an entity. */
+function checkRecords(
+  graph: Graph,
+  entityId: string,
+  slugIndex: Map<string, string>,
+): ValidationResult[] {
+  const results: ValidationResult[] = [];
+
+  for (const entries of graph.getAllRecordCollections(entityId).values()) {
+    for (const entry of entries) {
+      const schema = graph.getRecordSchema(entry.schema);
+      if (!schema) continue; // The loader skips collections without a schema.
+
+      results.push(
+        ...checkRecordEndpoints(graph, entry, schema, slugIndex),
+        ...checkRecordFields(entry, schema),
+        ...checkRecordTemporal(entry, schema),
+      );
+    }
+  }
+
+  return results;
+}
+
 // ── Graph-level checks (run once across all entities) ─────────────────────────
 
 /** Check 8: duplicate entity IDs across the graph. */
@@ -811,7 +1111,17 @@ function checkBidirectionalRedundancy(graph: Graph): ValidationResult[] {
  */
 export function validateEntity(
   graph: Graph,
-  entityId: string
+  entityId: string,
+  options?: ValidateOptions,
+): ValidationResult[] {
+  return _validateEntity(graph, entityId, buildSlugIndex(graph, options?.filenameMap));
+}
+
+/** validateEntity() with a prebuilt slug index, so validate() builds it only once. */
+function _validateEntity(
+  graph: Graph,
+  entityId: string,
+  slugIndex: Map<string, string>,
 ): ValidationResult[] {
   const entity = graph.getEntity(entityId);
   if (!entity) {
@@ -842,6 +1152,7 @@ export function validateEntity(
     ...checkOrphanEntity(graph, entityId),
     ...checkRangeValues(graph, entityId),
     ...checkCurrencyCode(graph, entityId),
+    ...checkRecords(graph, entityId, slugIndex),
   ];
 
   const schema = graph.getSchema(entity.type);
@@ -877,10 +1188,11 @@ export function validate(
   options?: ValidateOptions
 ): ValidationResult[] {
   const results: ValidationResult[] = [];
+  const slugIndex = buildSlugIndex(graph, options?.filenameMap);
 
   // Per-entity checks
   for (const entity of graph.getAllEntities()) {
-    results.push(...validateEntity(graph, entity.id));
+    results.push(..._validateEntity(graph, entity.id, slugIndex));
   }
 
   // Graph-level checks
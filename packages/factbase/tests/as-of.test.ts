@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Graph } from "../src/graph";
+import { normalizeDate, isActiveAt, parseAsOfDate, recordBounds } from "../src/temporal";
+import type { Entity, RecordEntry } from "../src/types";
+import { loadTestKB } from "./test-helpers";
+
+/** Helper: create an Entity with required fields. */
+function ent(id: string, type: string, name: string): Entity {
+  return { id, stableId: id, type, name };
+}
+
+describe("temporal helpers", () => {
+  it("pads partial dates to the start of their period", () => {
+    expect(normalizeDate("2024")).toBe("2024-01-01");
+    expect(normalizeDate("2024-06")).toBe("2024-06-01");
+    expect(normalizeDate("2024-06-15")).toBe("2024-06-15");
+    expect(normalizeDate("2024-06-15T12:00:00Z")).toBe("2024-06-15");
+  });
+
+  it("returns undefined for unparseable dates", () => {
+    expect(normalizeDate("circa 2020")).toBeUndefined();
+  });
+
+  it("treats asOf as inclusive and validEnd as exclusive", () => {
+    const bounds = { asOf: "2021-01", validEnd: "2024-05" };
+    expect(isActiveAt(bounds, "2020-12-31")).toBe(false);
+    expect(isActiveAt(bounds, "2021-01")).toBe(true);
+    expect(isActiveAt(bounds, "2024-04-30")).toBe(true);
+    expect(isActiveAt(bounds, "2024-05")).toBe(false);
+  });
+
+  it("treats missing bounds as open-ended", () => {
+    expect(isActiveAt({}, "1900")).toBe(true);
+    expect(isActiveAt({ asOf: "2020" }, "2030")).toBe(true);
+    expect(isActiveAt({ validEnd: "2020" }, "2019-12")).toBe(true);
+  });
+
+  it("throws on an invalid query date", () => {
+    expect(() => isActiveAt({}, "last year")).toThrow(/Invalid as-of date/);
+  });
+
+  it("parses query dates strictly", () => {
+    expect(parseAsOfDate("2024-06")).toBe("2024-06-01");
+    expect(() => parseAsOfDate("sometime")).toThrow(/Invalid as-of date/);
+  });
+
+  it("reads record bounds from the schema's date fields", () => {
+    const entry = (schema: string, fields: Record<string, unknown>, extra = {}): RecordEntry => ({
+      key: "k",
+      schema,
+      ownerEntityId: "o",
+      fields,
+      ...extra,
+    });
+    expect(recordBounds(entry("board-seat", { appointed: "2021-01", departed: "2023" }))).toEqual({
+      asOf: "2021-01",
+      validEnd: "2023",
+    });
+    expect(recordBounds(entry("grant", { date: 2020 }))).toEqual({ asOf: "2020", validEnd: undefined });
+    expect(
+      recordBounds(entry("key-person", { start: "2019" }, { asOf: "2018", validEnd: "2022" })),
+    ).toEqual({ asOf: "2018", validEnd: "2022" });
+    expect(recordBounds(entry("unknown", { start: "2019" }))).toEqual({
+      asOf: undefined,
+      validEnd: undefined,
+    });
+  });
+});
+
+describe("graph point-in-time queries", () => {
+  let graph: Graph;
+  let idOf: (filename: string) => string;
+
+  beforeAll(async () => {
+    ({ graph, idOf } = await loadTestKB({ withInverses: true }));
+  });
+
+  it("getLatest with asOf returns the employer at that date", () => {
+    const jan = idOf("jan-leike");
+    expect(graph.getLatest(jan, "employed-by", { asOf: "2022-01" })?.value).toEqual({
+      type: "ref",
+      value: idOf("openai"),
+    });
+    expect(graph.getLatest(jan, "employed-by", { asOf: "2024-06" })?.value).toEqual({
+      type: "ref",
+      value: idOf("anthropic"),
+    });
+  });
+
+  it("getFacts with asOf excludes facts that had ended", () => {
+    const facts = graph.getFacts(idOf("jan-leike"), {
+      property: "employed-by",
+      asOf: "2024-06",
+    });
+    expect(facts).toHaveLength(1);
+  });
+
+  it("includes inverse facts in point-in-time results", () => {
+    const employees2022 = graph.getRelated(idOf("openai"), "employer-of", { asOf: "2022-01" });
+    const employees2025 = graph.getRelated(idOf("openai"), "employer-of", { asOf: "2025-01" });
+    expect(employees2022).toContain(idOf("jan-leike"));
+    expect(employees2025).not.toContain(idOf("jan-leike"));
+  });
+
+  it("at() applies the same date to every query", () => {
+    const snapshot = graph.at("2024-06");
+    const jan = idOf("jan-leike");
+    expect(snapshot.getFacts(jan, { property: "employed-by" })).toEqual(
+      graph.getFacts(jan, { property: "employed-by", asOf: "2024-06" }),
+    );
+    expect(snapshot.getRelated(jan, "employed-by")).toEqual([idOf("anthropic")]);
+  });
+
+  it("at() rejects an invalid date", () => {
+    expect(() => graph.at("sometime")).toThrow(/Invalid as-of date/);
+  });
+
+  it("getByProperty with asOf ignores measurements taken after the date", () => {
+    const anthropic = idOf("anthropic");
+    // Anthropic's revenue series starts at 2023-12; the next point is 2024-06.
+    const earlier = graph.getByProperty("revenue", { asOf: "2024-01" }).get(anthropic);
+    expect(earlier?.asOf).toBe("2023-12");
+    expect(graph.getByProperty("revenue", { asOf: "2023-06" }).has(anthropic)).toBe(false);
+  });
+});
+
+describe("graph point-in-time record queries", () => {
+  let graph: Graph;
+
+  beforeAll(() => {
+    graph = new Graph();
+    graph.addEntity(ent("org1", "organization", "Org One"));
+    graph.addEntity(ent("p1", "person", "Alice"));
+    graph.addEntity(ent("p2", "person", "Bob"));
+    graph.addRecordSchema({
+      id: "key-person",
+      name: "Key Person",
+      collectionName: "key-persons",
+      temporal: true,
+      endpoints: {
+        org: { types: ["organization"], implicit: true },
+        person: { types: ["person"], required: true },
+      },
+      fields: { title: { type: "string" } },
+    });
+    const entry = (key: string, person: string, asOf?: string, validEnd?: string): RecordEntry => ({
+      key,
+      schema: "key-person",
+      ownerEntityId: "org1",
+      fields: { person, title: "CEO" },
+      ...(asOf && { asOf }),
+      ...(validEnd && { validEnd }),
+    });
+    graph.addRecord("key-persons", entry("alice-ceo", "p1", "2018", "2023-03"));
+    graph.addRecord("key-persons", entry("bob-ceo", "p2", "2023-03"));
+  });
+
+  it("getRecords with asOf returns entries valid at that date", () => {
+    const ceo2020 = graph.getRecords("org1", "key-persons", { asOf: "2020" });
+    expect(ceo2020.map((r) => r.key)).toEqual(["alice-ceo"]);
+
+    const ceo2024 = graph.getRecords("org1", "key-persons", { asOf: "2024" });
+    expect(ceo2024.map((r) => r.key)).toEqual(["bob-ceo"]);
+  });
+
+  it("getRecords without asOf returns full history", () => {
+    expect(graph.getRecords("org1", "key-persons")).toHaveLength(2);
+  });
+
+  it("getRecordsReferencing and getAllRecordsOfType honour asOf", () => {
+    expect(graph.getRecordsReferencing("p1", "key-persons", { asOf: "2024" })).toHaveLength(0);
+    expect(graph.getRecordsReferencing("p1", undefined, { asOf: "2020" })).toHaveLength(1);
+    expect(graph.getAllRecordsOfType("key-person", { asOf: "2010" })).toHaveLength(0);
+    expect(graph.at("2023-03").getAllRecordsOfType("key-person").map((r) => r.key)).toEqual([
+      "bob-ceo",
+    ]);
+  });
+});
+
+describe("point-in-time record queries on the loaded KB", () => {
+  let graph: Graph;
+  let idOf: (filename: string) => string;
+
+  beforeAll(async () => {
+    ({ graph, idOf } = await loadTestKB());
+  });
+
+  const keyPersons = (date: string) =>
+    graph.at(date).getRecords(idOf("anthropic"), "key-persons").map((r) => r.key);
+
+  it("bounds key-person records by their start/end fields", () => {
+    // Founders start 2021-01; Mike Krieger was CPO from 2024-05 to 2025-08.
+    expect(keyPersons("2020")).toEqual([]);
+    expect(keyPersons("2021-01")).toContain("dario-amodei");
+    expect(keyPersons("2024-04")).not.toContain("mike-krieger");
+    expect(keyPersons("2024-06")).toContain("mike-krieger");
+    expect(keyPersons("2025-08")).not.toContain("mike-krieger");
+  });
+
+  it("bounds board seats by appointed/departed", () => {
+    const board = (date: string) =>
+      graph.at(date).getRecords(idOf("anthropic"), "board-seats").map((r) => r.key);
+    expect(board("2020")).toEqual([]);
+    expect(board("2021-06")).toContain("dario-amodei");
+  });
+
+  it("leaves full history unfiltered without a date", () => {
+    const all = graph.getRecords(idOf("anthropic"), "key-persons");
+    expect(all.length).toBeGreaterThan(keyPersons("2021-01").length);
+  });
+});
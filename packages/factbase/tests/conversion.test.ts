@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  adjustForInflation,
+  cpiFor,
+  exchangeRateFor,
+  isMonetaryFact,
+  toUsd,
+} from "../src/conversion";
+import { formatFactValue } from "../src/format";
+import { Graph } from "../src/graph";
+import type { Fact, FactValue, Property } from "../src/types";
+
+/** Helper: create a fact with the given value and extra fields. */
+function fact(value: FactValue, extra: Partial<Fact> = {}): Fact {
+  return { id: "f_conv000001", subjectId: "x", propertyId: "grant-amount", value, ...extra };
+}
+
+describe("exchange rate and CPI tables", () => {
+  it("returns 1 for USD and annual rates for other currencies", () => {
+    expect(exchangeRateFor("USD", 2015)).toBe(1);
+    expect(exchangeRateFor("GBP", 2016)).toBeCloseTo(1.355);
+    expect(exchangeRateFor("EUR", 2022)).toBeCloseTo(1.053);
+  });
+
+  it("falls back to the nearest covered year", () => {
+    expect(exchangeRateFor("GBP", 1990)).toBe(exchangeRateFor("GBP", 2000));
+    expect(exchangeRateFor("GBP", 2030)).toBe(exchangeRateFor("GBP", 2024));
+    expect(exchangeRateFor("GBP")).toBe(exchangeRateFor("GBP", 2024));
+    expect(cpiFor(2099)).toBe(cpiFor(2024));
+  });
+
+  it("returns undefined for currencies without a table", () => {
+    expect(exchangeRateFor("XYZ", 2020)).toBeUndefined();
+  });
+
+  it("adjusts for inflation using the CPI ratio", () => {
+    expect(adjustForInflation(100, 2024, 2024)).toBe(100);
+    expect(adjustForInflation(100, 2014, 2024)).toBeCloseTo((100 * 313.689) / 236.736);
+    expect(adjustForInflation(100, 2024, 2014)).toBeLessThan(100);
+  });
+});
+
+describe("toUsd", () => {
+  it("converts foreign-currency numbers at the rate for their year", () => {
+    const result = toUsd(fact({ type: "number", value: 1_000_000 }, { currency: "GBP", asOf: "2016-03" }));
+    expect(result?.amount).toBeCloseTo(1_355_000);
+    expect(result).toMatchObject({ currency: "GBP", dollarYear: 2016 });
+    expect(result?.value).toMatchObject({ type: "number", unit: "USD" });
+  });
+
+  it("converts ranges and minimums bound by bound", () => {
+    const range = toUsd(fact({ type: "range", low: 100, high: 200 }, { currency: "EUR", asOf: "2022" }));
+    expect(range?.value).toMatchObject({ type: "range" });
+    if (range?.value.type === "range") {
+      expect(range.value.low).toBeCloseTo(105.3);
+      expect(range.value.high).toBeCloseTo(210.6);
+    }
+    expect(range?.amount).toBeCloseTo(157.95);
+
+    const min = toUsd(fact({ type: "min", value: 1000 }, { currency: "CAD", asOf: "2020" }));
+    expect(min?.value).toEqual({ type: "min", value: 746, unit: "USD" });
+  });
+
+  it("prefers the fact's own usdEquivalent and exchangeRate over the table", () => {
+    const withEquivalent = fact({ type: "number", value: 100 }, { currency: "GBP", usdEquivalent: 130, asOf: "2016" });
+    expect(toUsd(withEquivalent)?.amount).toBeCloseTo(130);
+
+    const withRate = fact({ type: "range", low: 100, high: 200 }, { currency: "GBP", exchangeRate: 1.5, asOf: "2016" });
+    expect(toUsd(withRate)?.exchangeRate).toBe(1.5);
+  });
+
+  it("inflates to a target dollar year, honouring an explicit dollarYear", () => {
+    const usd2014 = fact({ type: "number", value: 100 }, { asOf: "2014-06" });
+    const result = toUsd(usd2014, { unit: "USD", dollarYear: 2024 });
+    expect(result?.amount).toBeCloseTo(adjustForInflation(100, 2014, 2024));
+    expect(result?.dollarYear).toBe(2024);
+
+    // Reported in 2024 but denominated in 2020 dollars
+    const explicit = fact({ type: "number", value: 100 }, { asOf: "2024", dollarYear: 2020 });
+    expect(toUsd(explicit, { unit: "USD", dollarYear: 2024 })?.amount).toBeCloseTo(
+      adjustForInflation(100, 2020, 2024),
+    );
+  });
+
+  it("leaves undated amounts unadjusted", () => {
+    const result = toUsd(fact({ type: "number", value: 100 }), { unit: "USD", dollarYear: 2024 });
+    expect(result?.amount).toBe(100);
+    expect(result?.dollarYear).toBeUndefined();
+  });
+
+  it("returns undefined for non-monetary or non-numeric facts", () => {
+    expect(toUsd(fact({ type: "number", value: 500 }), { unit: "count" })).toBeUndefined();
+    expect(toUsd(fact({ type: "text", value: "lots" }), { unit: "USD" })).toBeUndefined();
+    expect(toUsd(fact({ type: "number", value: 5 }, { currency: "XYZ" }))).toBeUndefined();
+    expect(isMonetaryFact(fact({ type: "number", value: 5 }, { currency: "EUR" }))).toBe(true);
+  });
+});
+
+describe("formatFactValue with dollarYear", () => {
+  const property: Property = {
+    id: "grant-amount",
+    name: "Grant Amount",
+    dataType: "number",
+    unit: "USD",
+    display: { divisor: 1e6, prefix: "$", suffix: "M" },
+  };
+  const graph = new Graph();
+
+  it("shows converted amounts labelled with the dollar year", () => {
+    const gbp = fact({ type: "number", value: 10_000_000 }, { currency: "GBP", asOf: "2024" });
+    expect(formatFactValue(gbp, property, graph)).toBe("£10M");
+    expect(formatFactValue(gbp, property, graph, { dollarYear: 2024 })).toBe("$12.8M (2024 USD)");
+  });
+
+  it("does not label non-monetary facts", () => {
+    const count = fact({ type: "number", value: 12 });
+    expect(formatFactValue(count, undefined, graph, { dollarYear: 2024 })).toBe("12");
+  });
+});
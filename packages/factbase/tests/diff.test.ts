@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { Graph } from "../src/graph";
+import { diffKB, isEmptyDiff } from "../src/diff";
+import { computeInverses } from "../src/inverse";
+import { loadKB, type LoadResult } from "../src/loader";
+import type { Entity, Fact, RecordEntry } from "../src/types";
+import { DATA_DIR } from "./test-helpers";
+
+/** Helper: create an Entity with required fields. */
+function ent(id: string, type: string, name: string): Entity {
+  return { id, stableId: id, type, name };
+}
+
+function revenue(id: string, value: number, source?: string): Fact {
+  return {
+    id,
+    subjectId: "org0000001",
+    propertyId: "revenue",
+    value: { type: "number", value },
+    asOf: "2025-01",
+    ...(source && { source }),
+  };
+}
+
+function grant(key: string, amount: number): RecordEntry {
+  return { key, schema: "grant", ownerEntityId: "org0000001", fields: { amount } };
+}
+
+/** Build a small load result; `tweak` mutates the graph before returning. */
+function load(tweak: (g: Graph) => void): LoadResult {
+  const g = new Graph();
+  g.addEntity(ent("org0000001", "organization", "Org One"));
+  tweak(g);
+  return { graph: g, filenameMap: new Map([["org0000001", "org-one"]]) };
+}
+
+describe("diffKB", () => {
+  it("reports nothing for identical loads", () => {
+    const make = () =>
+      load((g) => {
+        g.addFact(revenue("f_rev0000001", 100));
+        g.addRecord("grants", grant("g1", 5));
+      });
+    const diff = diffKB(make(), make());
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it("reports added and removed entities, facts, and records", () => {
+    const before = load((g) => {
+      g.addFact(revenue("f_rev0000001", 100));
+      g.addRecord("grants", grant("g1", 5));
+    });
+    const after = load((g) => {
+      g.addEntity(ent("org0000002", "organization", "Org Two"));
+      g.addFact(revenue("f_rev0000002", 200));
+      g.addRecord("grants", grant("g2", 7));
+    });
+    const diff = diffKB(before, after);
+    expect(diff.entities.added.map((e) => e.id)).toEqual(["org0000002"]);
+    expect(diff.entities.removed).toEqual([]);
+    expect(diff.facts.added.map((f) => f.id)).toEqual(["f_rev0000002"]);
+    expect(diff.facts.removed.map((f) => f.id)).toEqual(["f_rev0000001"]);
+    expect(diff.records.added.map((r) => r.id)).toEqual(["org0000001/grants/g2"]);
+    expect(diff.records.removed.map((r) => r.id)).toEqual(["org0000001/grants/g1"]);
+  });
+
+  it("reports value deltas and source changes on facts with the same ID", () => {
+    const before = load((g) => g.addFact(revenue("f_rev0000001", 100, "https://a.example")));
+    const after = load((g) => g.addFact(revenue("f_rev0000001", 150, "https://b.example")));
+    const [change] = diffKB(before, after).facts.changed;
+    expect(change.id).toBe("f_rev0000001");
+    expect(change.delta).toBe(50);
+    expect(change.sourceChanged).toBe(true);
+    expect(change.changes.map((c) => c.field)).toEqual(["source", "value"]);
+  });
+
+  it("reports field-level changes on entities and records", () => {
+    const before = load((g) => g.addRecord("grants", grant("g1", 5)));
+    const after = load((g) => {
+      g.getEntity("org0000001")!.name = "Org One Inc.";
+      g.addRecord("grants", grant("g1", 6));
+    });
+    const diff = diffKB(before, after);
+    expect(diff.entities.changed[0].changes).toEqual([
+      { field: "name", before: "Org One", after: "Org One Inc." },
+    ]);
+    expect(diff.records.changed[0]).toMatchObject({
+      id: "org0000001/grants/g1",
+      collection: "grants",
+      changes: [{ field: "fields", before: { amount: 5 }, after: { amount: 6 } }],
+    });
+  });
+
+  it("ignores computed inverse facts", async () => {
+    const plain = await loadKB(DATA_DIR);
+    const withInverses = await loadKB(DATA_DIR);
+    computeInverses(withInverses.graph);
+    expect(isEmptyDiff(diffKB(plain, withInverses))).toBe(true);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Graph } from "../src/graph";
+import {
+  runQuery,
+  parsePredicate,
+  parseSort,
+  parseRelated,
+  parseRecordFilter,
+  parseAggregate,
+  numericValue,
+} from "../src/query";
+import { deserialize, serialize } from "../src/serialize";
+import { loadKB } from "../src/loader";
+import type { Entity, Fact } from "../src/types";
+import { DATA_DIR, loadTestKB } from "./test-helpers";
+
+/** Helper: create an Entity with required fields. */
+function ent(id: string, type: string, name: string): Entity {
+  return { id, stableId: id, type, name };
+}
+
+let factSeq = 0;
+/** Helper: create a number fact. */
+function num(subjectId: string, propertyId: string, value: number, asOf?: string): Fact {
+  return {
+    id: `f_test${String(++factSeq).padStart(6, "0")}`,
+    subjectId,
+    propertyId,
+    value: { type: "number", value },
+    ...(asOf && { asOf }),
+  };
+}
+
+/**
+ * Small synthetic graph: three labs with headcount/revenue, one funder that
+ * invests in two of them via investment records, and founded-by refs.
+ */
+function testGraph(): Graph {
+  const g = new Graph();
+  g.addEntity(ent("lab0000001", "organization", "Alpha Lab"));
+  g.addEntity(ent("lab0000002", "organization", "Beta Lab"));
+  g.addEntity(ent("lab0000003", "organization", "Gamma Lab"));
+  g.addEntity(ent("fund000001", "organization", "Big Fund"));
+  g.addEntity(ent("person0001", "person", "Pat Founder"));
+
+  g.addFact(num("lab0000001", "headcount", 1200, "2025-01"));
+  g.addFact(num("lab0000002", "headcount", 800, "2025-01"));
+  g.addFact(num("lab0000003", "headcount", 90, "2025-01"));
+  g.addFact(num("lab0000001", "revenue", 5e9, "2025-01"));
+  g.addFact(num("lab0000001", "revenue", 1e9, "2023-01"));
+  g.addFact(num("lab0000002", "revenue", 9e9, "2025-01"));
+  g.addFact({
+    id: "f_testref001",
+    subjectId: "lab0000002",
+    propertyId: "founded-by",
+    value: { type: "refs", value: ["person0001"] },
+  });
+
+  g.addRecordSchema({
+    id: "investment",
+    name: "Investment",
+    collectionName: "investments",
+    endpoints: {
+      investor: { types: ["organization", "person"], required: true },
+      company: { types: ["organization"], implicit: true },
+    },
+    fields: { amount: { type: "number" } },
+  });
+  for (const lab of ["lab0000001", "lab0000002"]) {
+    g.addRecord("investments", {
+      key: `big-fund-${lab}`,
+      schema: "investment",
+      ownerEntityId: lab,
+      fields: { investor: "big-fund", amount: 1e8 },
+    });
+  }
+  return g;
+}
+
+const resolveId = (ref: string) => (ref === "big-fund" ? "fund000001" : undefined);
+
+describe("runQuery", () => {
+  let graph: Graph;
+
+  beforeAll(() => {
+    graph = testGraph();
+  });
+
+  it("filters by type and sorts by name by default", () => {
+    const result = runQuery(graph, { type: "organization" });
+    expect(result.rows.map((r) => r.entity.name)).toEqual([
+      "Alpha Lab",
+      "Beta Lab",
+      "Big Fund",
+      "Gamma Lab",
+    ]);
+    expect(result.total).toBe(4);
+  });
+
+  it("applies numeric property predicates", () => {
+    const result = runQuery(graph, {
+      where: [{ property: "headcount", op: "gt", value: 500 }],
+    });
+    expect(result.rows.map((r) => r.entity.id).sort()).toEqual(["lab0000001", "lab0000002"]);
+  });
+
+  it("joins through record endpoints, resolving slugs", () => {
+    const result = runQuery(
+      graph,
+      {
+        type: "organization",
+        where: [parsePredicate("headcount>500")],
+        hasRecord: [{ schema: "investment", field: "investor", equals: "fund000001" }],
+        sort: parseSort("-revenue"),
+      },
+      { resolveId },
+    );
+    expect(result.rows.map((r) => r.entity.name)).toEqual(["Beta Lab", "Alpha Lab"]);
+    expect(result.rows[0].values.revenue?.value).toEqual({ type: "number", value: 9e9 });
+  });
+
+  it("finds entities referenced by records", () => {
+    const g = testGraph();
+    g.addRecord("investments", {
+      key: "pat-angel",
+      schema: "investment",
+      ownerEntityId: "lab0000003",
+      fields: { investor: "person0001" },
+    });
+    const result = runQuery(g, { hasRecord: [{ schema: "investment", referenced: true }] });
+    expect(result.rows.map((r) => r.entity.name)).toEqual(["Pat Founder"]);
+  });
+
+  it("traverses refs with includes and sub-queries", () => {
+    expect(
+      runQuery(graph, { related: [{ property: "founded-by", includes: "person0001" }] }).rows.map(
+        (r) => r.entity.name,
+      ),
+    ).toEqual(["Beta Lab"]);
+
+    expect(
+      runQuery(graph, {
+        related: [{ property: "founded-by", match: { type: "organization" } }],
+      }).rows,
+    ).toHaveLength(0);
+  });
+
+  it("puts entities without a sort value last and applies limit after counting", () => {
+    const result = runQuery(graph, {
+      type: "organization",
+      sort: { property: "revenue", direction: "asc" },
+      limit: 2,
+    });
+    expect(result.total).toBe(4);
+    expect(result.rows.map((r) => r.entity.name)).toEqual(["Alpha Lab", "Beta Lab"]);
+  });
+
+  it("sorts ascending when no direction is given, like parseSort", () => {
+    const names = (sort: { property: string; direction?: "asc" | "desc" }) =>
+      runQuery(graph, { type: "organization", sort }).rows.map((r) => r.entity.name);
+    expect(names({ property: "revenue" })).toEqual(names(parseSort("revenue")));
+    expect(names({ property: "revenue" })).toEqual(names({ property: "revenue", direction: "asc" }));
+  });
+
+  it("computes aggregates over the matched set", () => {
+    const where = [parsePredicate("headcount?")];
+    expect(runQuery(graph, { where, aggregate: { op: "sum", property: "headcount" } }).aggregate)
+      .toMatchObject({ value: 2090, count: 3 });
+    expect(runQuery(graph, { where, aggregate: { op: "median", property: "headcount" } }).aggregate?.value)
+      .toBe(800);
+    expect(runQuery(graph, { type: "person", aggregate: { op: "count" } }).aggregate?.value).toBe(1);
+    expect(runQuery(graph, { type: "person", aggregate: { op: "mean", property: "headcount" } }).aggregate?.value)
+      .toBeNull();
+  });
+
+  it("evaluates predicates as of a date", () => {
+    const result = runQuery(graph, {
+      where: [{ property: "revenue", op: "lt", value: 2e9 }],
+      asOf: "2024-01",
+      select: ["revenue"],
+    });
+    expect(result.rows.map((r) => r.entity.name)).toEqual(["Alpha Lab"]);
+    expect(result.rows[0].values.revenue?.asOf).toBe("2023-01");
+  });
+});
+
+describe("parsePredicate / parseSort", () => {
+  it("parses comparison operators and coerces values", () => {
+    expect(parsePredicate("headcount>=500")).toEqual({ property: "headcount", op: "gte", value: 500 });
+    expect(parsePredicate("legal-structure = PBC")).toEqual({
+      property: "legal-structure",
+      op: "eq",
+      value: "PBC",
+    });
+    expect(parsePredicate("founded-by~dario-amodei")).toEqual({
+      property: "founded-by",
+      op: "contains",
+      value: "dario-amodei",
+    });
+    expect(parsePredicate('website="2024"')).toEqual({ property: "website", op: "eq", value: "2024" });
+    expect(parsePredicate("revenue?")).toEqual({ property: "revenue", op: "exists" });
+    expect(parsePredicate("!revenue")).toEqual({ property: "revenue", op: "missing" });
+  });
+
+  it("throws on unparseable predicates", () => {
+    expect(() => parsePredicate("headcount")).toThrow(/Invalid predicate/);
+  });
+
+  it("parses sort direction prefixes", () => {
+    expect(parseSort("-revenue")).toEqual({ property: "revenue", direction: "desc" });
+    expect(parseSort("+revenue")).toEqual({ property: "revenue", direction: "asc" });
+    expect(parseSort("revenue")).toEqual({ property: "revenue", direction: "asc" });
+  });
+
+  it("parses related, record and aggregate strings", () => {
+    expect(parseRelated("employed-by:anthropic")).toEqual({ property: "employed-by", includes: "anthropic" });
+    expect(() => parseRelated("employed-by")).toThrow(/Invalid related filter/);
+    expect(parseRecordFilter("investment")).toEqual({ schema: "investment" });
+    expect(parseRecordFilter("investment.investor=microsoft")).toEqual({
+      schema: "investment",
+      field: "investor",
+      equals: "microsoft",
+    });
+    expect(() => parseRecordFilter("investment investor")).toThrow(/Invalid record filter/);
+    expect(parseAggregate("count")).toEqual({ op: "count" });
+    expect(parseAggregate("median:revenue")).toEqual({ op: "median", property: "revenue" });
+    expect(() => parseAggregate("mode:revenue")).toThrow(/Invalid aggregate/);
+  });
+
+  it("numericValue uses range midpoints", () => {
+    const fact: Fact = {
+      id: "f_range00001",
+      subjectId: "x",
+      propertyId: "revenue",
+      value: { type: "range", low: 10, high: 20 },
+    };
+    expect(numericValue(fact)).toBe(15);
+  });
+});
+
+describe("runQuery on real data", () => {
+  it("finds organizations with Microsoft as an investor", async () => {
+    const { graph, idOf } = await loadTestKB();
+    const result = runQuery(
+      graph,
+      {
+        type: "organization",
+        hasRecord: [{ schema: "investment", field: "investor", equals: "microsoft" }],
+      },
+    );
+    expect(result.rows.map((r) => r.entity.id)).toContain(idOf("anthropic"));
+  });
+
+  it("gives the same answers on a deserialized graph", async () => {
+    const { graph, filenameMap } = await loadKB(DATA_DIR);
+    const roundTripped = deserialize(serialize(graph, filenameMap));
+    const spec = { type: "organization", where: [parsePredicate("headcount>500")], sort: parseSort("-headcount") };
+    expect(runQuery(roundTripped, spec).rows.map((r) => r.entity.id)).toEqual(
+      runQuery(graph, spec).rows.map((r) => r.entity.id),
+    );
+  });
+});
@@ -95,9 +95,9 @@ describe("Q4: Anthropic board/key people", () => {
     const founders = people.filter((p) => p.fields.is_founder === true);
     expect(founders.length).toBeGreaterThanOrEqual(2);
 
-    // All entries should have person and title fields
+    // All entries should have a person (entity ref or display name) and a title
     for (const p of people) {
-      expect(p.fields.person).toBeDefined();
+      expect(p.fields.person ?? p.displayName).toBeDefined();
       expect(p.fields.title).toBeDefined();
     }
   });
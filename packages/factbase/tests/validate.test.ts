@@ -3,7 +3,7 @@ import path from "node:path";
 import { loadKB } from "../src/loader";
 import { validate, validateEntity } from "../src/validate";
 import { Graph } from "../src/graph";
-import type { Entity, ValidationResult } from "../src/types";
+import type { Entity, RecordEntry, ValidationResult } from "../src/types";
 
 const DATA_DIR = path.resolve(__dirname, "../data");
 
@@ -14,13 +14,14 @@ function ent(stableId: string, type: string, name: string, extra?: Partial<Entit
 
 describe("validate", () => {
   let graph: Graph;
+  let filenameMap: Map<string, string>;
   let anthropicId: string;
   let darioId: string;
   let janLeikeId: string;
   let openaiId: string;
 
   beforeAll(async () => {
-    ({ graph } = await loadKB(DATA_DIR));
+    ({ graph, filenameMap } = await loadKB(DATA_DIR));
     anthropicId = "mK9pX3rQ7n"; // known from YAML
     const find = (name: string) => graph.getAllEntities().find(e => e.name === name)!.id;
     darioId = find("Dario Amodei");
@@ -744,6 +745,146 @@ describe("validate", () => {
     });
   });
 
+  describe("record checks", () => {
+    /** Graph with one org, one person, and a key-person record schema. */
+    function recordGraph(): Graph {
+      const g = new Graph();
+      g.addEntity(ent("aB3cD4eF5g", "organization", "Test Org"));
+      g.addEntity(ent("pQ1rS2tU3v", "person", "Alice"));
+      g.addEntity(ent("zZ9yY8xX7w", "organization", "Other Org"));
+      g.addRecordSchema({
+        id: "key-person",
+        name: "Key Person",
+        collectionName: "key-persons",
+        temporal: true,
+        endpoints: {
+          person: { types: ["person"], required: true },
+          organization: { types: ["organization"], implicit: true },
+        },
+        fields: {
+          title: { type: "text", required: true },
+          start: { type: "date" },
+          end: { type: "date" },
+          is_founder: { type: "boolean" },
+          stake: { type: "number" },
+        },
+      });
+      return g;
+    }
+
+    function addKeyPerson(g: Graph, key: string, extra: Partial<RecordEntry> & { fields: Record<string, unknown> }): void {
+      g.addRecord("key-persons", {
+        key,
+        schema: "key-person",
+        ownerEntityId: "aB3cD4eF5g",
+        ...extra,
+      });
+    }
+
+    const recordRules = (results: ValidationResult[]) =>
+      results.filter((r) => r.rule.startsWith("record-"));
+
+    it("accepts a well-formed record", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "alice", {
+        fields: { person: "pQ1rS2tU3v", title: "CEO", start: "2021-03", is_founder: true, stake: [0.01, 0.02] },
+        asOf: "2021-03",
+      });
+      expect(recordRules(validateEntity(g, "aB3cD4eF5g"))).toHaveLength(0);
+    });
+
+    it("resolves endpoint slugs through filenameMap", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "alice", { fields: { person: "alice", title: "CEO" } });
+      const filenameMap = new Map([["pQ1rS2tU3v", "alice"]]);
+      expect(recordRules(validateEntity(g, "aB3cD4eF5g", { filenameMap }))).toHaveLength(0);
+      expect(recordRules(validateEntity(g, "aB3cD4eF5g")).map((r) => r.rule)).toEqual([
+        "record-endpoint-ref",
+      ]);
+    });
+
+    it("flags a missing required endpoint unless display_name is set", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "nobody", { fields: { title: "CTO" } });
+      addKeyPerson(g, "external", { fields: { title: "CFO" }, displayName: "Jane Doe" });
+      const results = recordRules(validateEntity(g, "aB3cD4eF5g"));
+      expect(results).toHaveLength(1);
+      expect(results[0].rule).toBe("record-required-endpoint");
+      expect(results[0].message).toContain("nobody");
+    });
+
+    it("flags endpoint refs to entities of the wrong type", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "org-as-person", { fields: { person: "zZ9yY8xX7w", title: "CEO" } });
+      const results = recordRules(validateEntity(g, "aB3cD4eF5g"));
+      expect(results.map((r) => r.rule)).toEqual(["record-endpoint-type"]);
+      expect(results[0].severity).toBe("error");
+    });
+
+    it("flags missing required fields and mistyped values", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "bad", {
+        fields: { person: "pQ1rS2tU3v", start: "March 2021", is_founder: "yes", stake: [0.05, 0.01] },
+      });
+      const rules = recordRules(validateEntity(g, "aB3cD4eF5g")).map((r) => r.rule).sort();
+      expect(rules).toEqual([
+        "record-field-type",
+        "record-field-type",
+        "record-field-type",
+        "record-required-field",
+      ]);
+    });
+
+    it("warns on fields not declared in the schema", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "extra", { fields: { person: "pQ1rS2tU3v", title: "CEO", salary: 1 } });
+      const results = recordRules(validateEntity(g, "aB3cD4eF5g"));
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ rule: "record-unknown-field", severity: "warning" });
+    });
+
+    it("errors when a record's validEnd is before its asOf", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "backwards", {
+        fields: { person: "pQ1rS2tU3v", title: "CEO" },
+        asOf: "2024-01",
+        validEnd: "2023-06",
+      });
+      const results = recordRules(validateEntity(g, "aB3cD4eF5g"));
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ rule: "record-temporal", severity: "error" });
+    });
+
+    it("errors when a record's end date field is before its start", () => {
+      const g = recordGraph();
+      addKeyPerson(g, "ended-early", {
+        fields: { person: "pQ1rS2tU3v", title: "CEO", start: "2024", end: "2023-06" },
+      });
+      addKeyPerson(g, "same-month", {
+        fields: { person: "pQ1rS2tU3v", title: "CTO", start: "2024-02", end: "2024-02" },
+      });
+      const results = recordRules(validateEntity(g, "aB3cD4eF5g"));
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ rule: "record-temporal", severity: "error" });
+      expect(results[0].message).toContain('end "2023-06" is earlier than start "2024"');
+    });
+
+    it("produces no record endpoint, field or temporal errors on real data", () => {
+      const results = validate(graph, { filenameMap }).filter(
+        (r) =>
+          r.severity === "error" &&
+          [
+            "record-endpoint-ref",
+            "record-field-type",
+            "record-required-field",
+            "record-required-endpoint",
+            "record-temporal",
+          ].includes(r.rule),
+      );
+      expect(results).toHaveLength(0);
+    });
+  });
+
   describe("new checks on real data", () => {
     it("produces no stableid-format errors on real entities", () => {
       const results = validate(graph);
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { isAuthorized } from "./auth.js";
+
+describe("isAuthorized", () => {
+  it("accepts the configured bearer token", () => {
+    expect(isAuthorized("Bearer s3cret", "s3cret")).toBe(true);
+  });
+
+  it("rejects a missing, malformed or wrong token", () => {
+    expect(isAuthorized(undefined, "s3cret")).toBe(false);
+    expect(isAuthorized("s3cret", "s3cret")).toBe(false);
+    expect(isAuthorized("Bearer s3cre", "s3cret")).toBe(false);
+    expect(isAuthorized("Bearer wrong!", "s3cret")).toBe(false);
+  });
+
+  it("rejects everything when no token is configured", () => {
+    expect(isAuthorized("Bearer ", "")).toBe(false);
+  });
+});
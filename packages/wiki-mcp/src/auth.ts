@@ -0,0 +1,12 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * True if an Authorization header carries `Bearer <token>`. Constant-time
+ * comparison, as in wiki-server's verifyToken().
+ */
+export function isAuthorized(authorization: string | undefined, token: string): boolean {
+  if (!token || !authorization?.startsWith("Bearer ")) return false;
+  const given = Buffer.from(authorization.slice("Bearer ".length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
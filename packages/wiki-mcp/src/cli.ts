@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+/**
+ * Standalone wiki MCP server.
+ *
+ * Usage:
+ *   wiki-mcp                   Serve over stdio (for Claude Desktop, IDEs, etc.)
+ *   wiki-mcp --http [--port=N] [--host=H]
+ *                              Serve Streamable HTTP on /mcp (default 127.0.0.1:3333)
+ *
+ * Environment:
+ *   LONGTERMWIKI_SERVER_URL      wiki-server base URL (required)
+ *   LONGTERMWIKI_SERVER_API_KEY  API key with read scopes
+ *   FACTBASE_DATA_DIR            factbase YAML directory (defaults to the checkout's)
+ *   WIKI_MCP_TOKEN               bearer token required by /mcp (required for --http)
+ */
+
+import { createServer } from "node:http";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createWikiMcpServer } from "./server.js";
+import { WIKI_SERVER_URL, MCP_HTTP_PORT, MCP_HTTP_HOST, MCP_HTTP_TOKEN } from "./config.js";
+import { isAuthorized } from "./auth.js";
+import { logger } from "./log.js";
+
+async function serveStdio(): Promise<void> {
+  const server = createWikiMcpServer();
+  await server.connect(new StdioServerTransport());
+  logger.info("Wiki MCP server running on stdio");
+}
+
+/**
+ * Stateless Streamable HTTP: every POST gets a fresh server and transport,
+ * so there are no sessions to track and any instance can answer any request.
+ * /mcp requires `Authorization: Bearer <WIKI_MCP_TOKEN>`; the tools spend the
+ * server's wiki-server API key, so an open endpoint would lend it to anyone.
+ */
+function serveHttp(port: number, host: string, token: string): void {
+  const http = createServer(async (req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ status: "ok" }));
+      return;
+    }
+    if (path !== "/mcp") {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isAuthorized(req.headers.authorization, token)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    const server = createWikiMcpServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      void transport.close();
+      void server.close();
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (err) {
+      logger.error({ err }, "MCP request failed");
+      if (!res.headersSent) res.writeHead(500).end();
+    }
+  });
+
+  http.listen(port, host, () => {
+    logger.info({ port, host }, `Wiki MCP server listening on http://${host}:${port}/mcp`);
+  });
+}
+
+const args = process.argv.slice(2);
+if (!WIKI_SERVER_URL) {
+  logger.warn("LONGTERMWIKI_SERVER_URL is not set — only the factbase tools will work");
+}
+
+if (args.includes("--http")) {
+  if (!MCP_HTTP_TOKEN) {
+    logger.fatal("WIKI_MCP_TOKEN must be set to serve over HTTP");
+    process.exit(1);
+  }
+  const portArg = args.find((a) => a.startsWith("--port="));
+  const hostArg = args.find((a) => a.startsWith("--host="));
+  serveHttp(
+    portArg ? Number(portArg.slice("--port=".length)) : MCP_HTTP_PORT,
+    hostArg ? hostArg.slice("--host=".length) : MCP_HTTP_HOST,
+    MCP_HTTP_TOKEN
+  );
+} else {
+  serveStdio().catch((err) => {
+    logger.fatal({ err }, "Failed to start MCP server");
+    process.exit(1);
+  });
+}
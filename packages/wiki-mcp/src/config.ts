@@ -0,0 +1,22 @@
+import { fileURLToPath } from "node:url";
+
+export const WIKI_SERVER_URL = process.env.LONGTERMWIKI_SERVER_URL ?? "";
+
+export const WIKI_SERVER_API_KEY = process.env.LONGTERMWIKI_SERVER_API_KEY ?? "";
+
+/** Directory of factbase YAML (entities, properties, records). Defaults to the checkout's packages/factbase/data. */
+export const FACTBASE_DATA_DIR =
+  process.env.FACTBASE_DATA_DIR ??
+  fileURLToPath(new URL("../../factbase/data", import.meta.url));
+
+/** Port for the HTTP transport (`wiki-mcp --http`). */
+export const MCP_HTTP_PORT = Number(process.env.WIKI_MCP_PORT ?? 3333);
+
+/**
+ * Interface for the HTTP transport. Loopback by default; set WIKI_MCP_HOST
+ * (or --host) to 0.0.0.0 to accept remote clients.
+ */
+export const MCP_HTTP_HOST = process.env.WIKI_MCP_HOST ?? "127.0.0.1";
+
+/** Bearer token clients must send to /mcp. `wiki-mcp --http` refuses to start without it. */
+export const MCP_HTTP_TOKEN = process.env.WIKI_MCP_TOKEN ?? "";
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { buildQuerySpec, queryFacts, getEntityRecords } from "./factbase.js";
+
+// These tests read the real factbase YAML in packages/factbase/data.
+
+describe("buildQuerySpec", () => {
+  it("parses compact predicates, sort and aggregate", () => {
+    expect(
+      buildQuerySpec({
+        type: "organization",
+        where: ["headcount>500", "revenue?"],
+        sort: "-revenue",
+        aggregate: "median:revenue",
+        asOf: "2024",
+      })
+    ).toEqual({
+      type: "organization",
+      where: [
+        { property: "headcount", op: "gt", value: 500 },
+        { property: "revenue", op: "exists" },
+      ],
+      sort: { property: "revenue", direction: "desc" },
+      aggregate: { op: "median", property: "revenue" },
+      asOf: "2024",
+    });
+  });
+
+  it("rejects unknown aggregate ops", () => {
+    expect(() => buildQuerySpec({ aggregate: "avg:revenue" })).toThrow("Invalid aggregate");
+  });
+
+  it("rejects malformed predicates", () => {
+    expect(() => buildQuerySpec({ where: ["headcount"] })).toThrow("Invalid predicate");
+  });
+});
+
+describe("queryFacts", () => {
+  it("returns rows with the selected values", async () => {
+    const result = await queryFacts({ type: "organization", where: ["headcount?"], select: ["headcount"], limit: 5 });
+
+    expect(result.total).toBeGreaterThan(0);
+    expect(result.rows.length).toBeLessThanOrEqual(5);
+    for (const row of result.rows) {
+      expect(row.type).toBe("organization");
+      expect(row.values.headcount).not.toBeNull();
+    }
+  });
+
+  it("computes aggregates", async () => {
+    const result = await queryFacts({ type: "organization", aggregate: "count" });
+    expect(result.aggregate).toMatchObject({ op: "count" });
+    expect(result.aggregate!.count).toBe(result.total);
+  });
+});
+
+describe("getEntityRecords", () => {
+  it("resolves entities by slug and returns their collections", async () => {
+    const records = await getEntityRecords("anthropic");
+
+    expect(records?.entity.name).toBe("Anthropic");
+    expect(Object.keys(records!.collections)).toContain("funding-rounds");
+  });
+
+  it("limits to one collection", async () => {
+    const records = await getEntityRecords("anthropic", "funding-rounds");
+    expect(Object.keys(records!.collections)).toEqual(["funding-rounds"]);
+  });
+
+  it("returns null for unknown entities", async () => {
+    expect(await getEntityRecords("no-such-entity-xyz")).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Local factbase access for the MCP tools.
+ *
+ * The factbase is YAML in the repo rather than a wiki-server table, so the
+ * query and record tools load it from FACTBASE_DATA_DIR, once per process.
+ */
+
+import {
+  loadKB,
+  computeInverses,
+  runQuery,
+  parsePredicate,
+  parseSort,
+  type AggregateOp,
+  type Entity,
+  type Graph,
+  type QuerySpec,
+  type RecordEntry,
+} from "@longterm-wiki/factbase";
+import { FACTBASE_DATA_DIR } from "./config.js";
+
+export interface LoadedFactbase {
+  graph: Graph;
+  /** YAML filename (slug) → entity ID */
+  idBySlug: Map<string, string>;
+}
+
+let loading: Promise<LoadedFactbase> | undefined;
+
+/** Load the factbase graph, with inverses computed. Cached after the first successful load. */
+export function loadFactbase(dataDir = FACTBASE_DATA_DIR): Promise<LoadedFactbase> {
+  loading ??= loadKB(dataDir)
+    .then(({ graph, filenameMap }) => {
+      computeInverses(graph);
+      const idBySlug = new Map<string, string>();
+      for (const [entityId, filename] of filenameMap) idBySlug.set(filename, entityId);
+      return { graph, idBySlug };
+    })
+    .catch((err) => {
+      loading = undefined;
+      throw err;
+    });
+  return loading;
+}
+
+/** Resolve an entity by ID, slug, or case-insensitive name. */
+export function resolveEntity(kb: LoadedFactbase, ref: string): Entity | undefined {
+  const byId = kb.graph.getEntity(ref);
+  if (byId) return byId;
+  const idFromSlug = kb.idBySlug.get(ref);
+  if (idFromSlug) return kb.graph.getEntity(idFromSlug);
+  const lower = ref.toLowerCase();
+  return kb.graph.getAllEntities().find((e) => e.name.toLowerCase() === lower);
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+const AGGREGATE_OPS: AggregateOp[] = ["count", "sum", "mean", "median", "min", "max"];
+
+/** Tool-friendly query input: compact strings as accepted by `crux kb query`. */
+export interface FactQueryInput {
+  type?: string;
+  /** Predicates like "headcount>500", "revenue?", "!revenue" */
+  where?: string[];
+  /** Sort key like "-revenue" */
+  sort?: string;
+  select?: string[];
+  limit?: number;
+  /** "count" or "op:property", e.g. "median:revenue" */
+  aggregate?: string;
+  asOf?: string;
+}
+
+export function buildQuerySpec(input: FactQueryInput): QuerySpec {
+  const spec: QuerySpec = {};
+  if (input.type) spec.type = input.type;
+  if (input.where?.length) spec.where = input.where.map(parsePredicate);
+  if (input.sort) spec.sort = parseSort(input.sort);
+  if (input.select?.length) spec.select = input.select;
+  if (input.limit != null) spec.limit = input.limit;
+  if (input.asOf) spec.asOf = input.asOf;
+  if (input.aggregate) {
+    const [op, property] = input.aggregate.split(":");
+    if (!AGGREGATE_OPS.includes(op as AggregateOp)) {
+      throw new Error(`Invalid aggregate "${input.aggregate}" (expected one of ${AGGREGATE_OPS.join(", ")}, e.g. median:revenue)`);
+    }
+    spec.aggregate = { op: op as AggregateOp, ...(property && { property }) };
+  }
+  return spec;
+}
+
+export interface FactQueryResult {
+  total: number;
+  rows: Array<{
+    id: string;
+    name: string;
+    type: string;
+    values: Record<string, { value: unknown; asOf?: string } | null>;
+  }>;
+  aggregate?: { op: AggregateOp; property?: string; value: number | null; count: number };
+}
+
+/** Run a factbase query. Same JSON shape as `crux kb query --ci`. */
+export async function queryFacts(input: FactQueryInput): Promise<FactQueryResult> {
+  const spec = buildQuerySpec(input);
+  const kb = await loadFactbase();
+  const result = runQuery(kb.graph, spec, {
+    resolveId: (ref) => resolveEntity(kb, ref)?.id,
+  });
+  const columns = spec.select ?? (spec.sort ? [spec.sort.property] : []);
+
+  return {
+    total: result.total,
+    rows: result.rows.map(({ entity, values }) => ({
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+      values: Object.fromEntries(
+        columns.map((c) => [c, values[c] ? { value: values[c]!.value, asOf: values[c]!.asOf } : null])
+      ),
+    })),
+    ...(result.aggregate && { aggregate: result.aggregate }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+export interface EntityRecords {
+  entity: { id: string; name: string; type: string };
+  /** Collection name → entries owned by the entity */
+  collections: Record<string, RecordEntry[]>;
+  /** Records in other entities' files that reference this entity (e.g. grants it received) */
+  referencedBy: RecordEntry[];
+}
+
+/**
+ * Record collections for an entity (funding rounds, key people, grants...),
+ * optionally limited to one collection. Null if the entity doesn't exist.
+ */
+export async function getEntityRecords(
+  entityRef: string,
+  collection?: string
+): Promise<EntityRecords | null> {
+  const kb = await loadFactbase();
+  const entity = resolveEntity(kb, entityRef);
+  if (!entity) return null;
+
+  const collections: Record<string, RecordEntry[]> = {};
+  for (const [name, entries] of kb.graph.getAllRecordCollections(entity.id)) {
+    if (!collection || name === collection) collections[name] = entries;
+  }
+  const referencedBy = kb.graph.getRecordsReferencing(entity.id, collection);
+
+  return {
+    entity: { id: entity.id, name: entity.name, type: entity.type },
+    collections,
+    referencedBy,
+  };
+}
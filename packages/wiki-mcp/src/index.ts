@@ -0,0 +1,12 @@
+/**
+ * @longterm-wiki/wiki-mcp — the wiki's read-only toolset as MCP tools.
+ *
+ * - `wikiTools`: SDK-agnostic tool definitions, for in-process hosts (the Discord bot)
+ * - `createWikiMcpServer()`: a standalone MCP server over those tools (see cli.ts)
+ */
+
+export { wikiTools } from "./tools.js";
+export type { WikiTool, ToolResult } from "./tools.js";
+export { createWikiMcpServer, SERVER_NAME, SERVER_VERSION } from "./server.js";
+export { queryFacts, getEntityRecords, loadFactbase } from "./factbase.js";
+export type { FactQueryInput, FactQueryResult, EntityRecords } from "./factbase.js";
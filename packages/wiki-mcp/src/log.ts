@@ -0,0 +1,10 @@
+import pino from "pino";
+
+// Logs go to stderr: stdout carries the MCP protocol in stdio mode.
+export const logger = pino(
+  {
+    name: "wiki-mcp",
+    level: process.env.LOG_LEVEL ?? "info",
+  },
+  pino.destination(2)
+);
@@ -0,0 +1,22 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { wikiTools, type WikiTool } from "./tools.js";
+
+/** Same name as the Discord bot's in-process server, so tool IDs (mcp__wiki-server__*) match. */
+export const SERVER_NAME = "wiki-server";
+export const SERVER_VERSION = "0.1.0";
+
+/**
+ * Create an MCP server exposing the wiki tools. Connect it to any transport:
+ * stdio for local clients, Streamable HTTP for remote ones (see cli.ts).
+ */
+export function createWikiMcpServer(tools: readonly WikiTool[] = wikiTools): McpServer {
+  const server = new McpServer({ name: SERVER_NAME, version: SERVER_VERSION });
+  for (const t of tools) {
+    server.registerTool(
+      t.name,
+      { description: t.description, inputSchema: t.inputSchema },
+      (args) => t.handler(args)
+    );
+  }
+  return server;
+}
@@ -0,0 +1,495 @@
+/**
+ * Wiki MCP tool definitions.
+ *
+ * Each tool is a plain { name, description, inputSchema, handler } object so
+ * any MCP host can register it: the standalone server (server.ts) and the
+ * Discord bot's in-process SDK server both consume `wikiTools`.
+ */
+
+import { z } from "zod";
+import {
+  searchWiki,
+  getPage,
+  getRelatedPages,
+  getEntity,
+  searchEntities,
+  getFacts,
+  getPageCitations,
+  getCitationQuote,
+  getQuotesByUrl,
+  searchResources,
+  getBacklinks,
+  getWikiStats,
+  getRecentChanges,
+  getAutoUpdateStatus,
+  getCitationHealth,
+  getRiskReport,
+} from "./wiki-api.js";
+import { queryFacts, getEntityRecords } from "./factbase.js";
+
+// ---------------------------------------------------------------------------
+// Tool shape
+// ---------------------------------------------------------------------------
+
+/** Text-only subset of the MCP CallToolResult. */
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+export interface WikiTool<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  description: string;
+  /** Zod raw shape of the arguments, as accepted by both MCP SDKs */
+  inputSchema: Shape;
+  /**
+   * Declared as a method so a tool with a specific shape is still a
+   * `WikiTool` (method parameters are checked bivariantly), which lets
+   * `wikiTools` hold tools with different shapes.
+   */
+  handler(args: z.objectOutputType<Shape, z.ZodTypeAny>): Promise<ToolResult>;
+}
+
+function tool<Shape extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  inputSchema: Shape,
+  handler: WikiTool<Shape>["handler"]
+): WikiTool<Shape> {
+  return { name, description, inputSchema, handler };
+}
+
+// ---------------------------------------------------------------------------
+// wiki-server tools
+// ---------------------------------------------------------------------------
+
+const searchTool = tool(
+  "search_wiki",
+  "Search the AI safety wiki for pages matching a query. Returns ranked results with titles, descriptions, and relevance scores.",
+  {
+    query: z.string().describe("Search query"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max results to return (default 10)"),
+  },
+  async (args) => {
+    const results = await searchWiki(args.query, args.limit);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(results, null, 2) }],
+    };
+  }
+);
+
+const getPageTool = tool(
+  "get_page",
+  "Get the full content of a wiki page by its slug ID (e.g. 'scheming') or numeric ID (e.g. 'E42'). Returns the page title, description, and full plaintext content.",
+  {
+    id: z.string().describe("Page slug (e.g. 'scheming') or numeric ID (e.g. 'E42')"),
+  },
+  async (args) => {
+    const page = await getPage(args.id);
+    if (!page) {
+      return { content: [{ type: "text" as const, text: "Page not found" }] };
+    }
+    const text = `# ${page.title}\n\n${page.description ?? ""}\n\n${page.contentPlaintext ?? "(no content)"}`;
+    return { content: [{ type: "text" as const, text }] };
+  }
+);
+
+const getRelatedPagesTool = tool(
+  "get_related_pages",
+  "Get pages related to a given wiki page or entity by ID. Returns a list of related pages with relationship labels and relevance scores. Useful for exploring connected topics.",
+  {
+    id: z.string().describe("Page or entity ID (e.g. 'deceptive-alignment')"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max results to return (default 10)"),
+  },
+  async (args) => {
+    const data = await getRelatedPages(args.id, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "No related pages found or page not found" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const getEntityTool = tool(
+  "get_entity",
+  "Get structured data about a specific entity (organization, person, model, concept, etc.) by its ID. Returns description, website, tags, custom fields, and related entries. Use this for factual questions about specific organizations or people.",
+  {
+    id: z
+      .string()
+      .describe("Entity ID (e.g. 'miri', 'anthropic', 'gpt-4')"),
+  },
+  async (args) => {
+    const entity = await getEntity(args.id);
+    if (!entity) {
+      return { content: [{ type: "text" as const, text: "Entity not found" }] };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(entity, null, 2) }],
+    };
+  }
+);
+
+const searchEntitiesTool = tool(
+  "search_entities",
+  "Search the wiki's entity registry (organizations, people, models, concepts, risks, etc.) by name or description. Use this when asked about specific organizations, researchers, or AI models rather than topics.",
+  {
+    query: z.string().describe("Search query (e.g. 'AI safety organizations', 'language models')"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max results to return (default 10)"),
+  },
+  async (args) => {
+    const data = await searchEntities(args.query, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Entity search failed" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const getFactsTool = tool(
+  "get_facts",
+  "Get canonical numerical facts for a specific entity (e.g. funding, employee count, compute, publication counts). Use this for quantitative questions like 'How many employees does Anthropic have?' or 'What is OpenAI's funding?'",
+  {
+    entity_id: z
+      .string()
+      .describe("Entity ID to get facts for (e.g. 'anthropic', 'openai', 'deepmind')"),
+  },
+  async (args) => {
+    const data = await getFacts(args.entity_id);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "No facts found for this entity" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const getPageCitationsTool = tool(
+  "get_page_citations",
+  "Get the citations and source quotes for a specific wiki page. Returns footnotes with source titles, URLs, claim text, and verification status. Use this when asked 'what are the sources for X?' or 'is claim Y cited?'",
+  {
+    page_id: z
+      .string()
+      .describe("Page ID to get citations for (e.g. 'scheming', 'deceptive-alignment')"),
+  },
+  async (args) => {
+    const data = await getPageCitations(args.page_id);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "No citations found for this page" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const searchResourcesTool = tool(
+  "search_resources",
+  "Search the wiki's curated resource library for papers, articles, reports, and other external references. Use this when asked for reading recommendations or specific papers on a topic.",
+  {
+    query: z
+      .string()
+      .describe("Search query (e.g. 'interpretability papers', 'AI governance reports')"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max results to return (default 10)"),
+  },
+  async (args) => {
+    const data = await searchResources(args.query, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Resource search failed" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const getBacklinksTool = tool(
+  "get_backlinks",
+  "Get all wiki pages that link to a given page or entity. Shows which topics reference this page, revealing its place in the knowledge graph. Useful for 'what pages mention X?' questions.",
+  {
+    id: z.string().describe("Page or entity ID (e.g. 'rlhf', 'miri')"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max results to return (default 20)"),
+  },
+  async (args) => {
+    const data = await getBacklinks(args.id, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "No backlinks found or page not found" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const wikiStatsTool = tool(
+  "wiki_stats",
+  "Get overall statistics about the LongtermWiki: total pages, entities, facts, citations, uptime. Use this when asked 'how big is the wiki?' or 'how many citations does the wiki have?'",
+  {},
+  async (_args) => {
+    const stats = await getWikiStats();
+    if (!stats) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve wiki stats" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(stats, null, 2) }],
+    };
+  }
+);
+
+const recentChangesTool = tool(
+  "recent_changes",
+  "Get recent wiki editing sessions showing which pages were changed and when. Use this for questions like 'what changed on the wiki this week?' or 'what was recently updated?'",
+  {
+    limit: z
+      .number()
+      .optional()
+      .describe("Max sessions to return (default 10)"),
+    since: z
+      .string()
+      .optional()
+      .describe("Filter sessions since this date (YYYY-MM-DD format)"),
+  },
+  async (args) => {
+    const data = await getRecentChanges(args.limit, args.since);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve recent changes" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const autoUpdateStatusTool = tool(
+  "auto_update_status",
+  "Get the status of recent automatic wiki update runs, including how many pages were updated, budget spent, and which pages changed. Use this for questions about 'when was the last auto-update?' or 'what did the last update change?'",
+  {
+    limit: z
+      .number()
+      .optional()
+      .describe("Max runs to return (default 5)"),
+  },
+  async (args) => {
+    const data = await getAutoUpdateStatus(args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve auto-update status" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const citationHealthTool = tool(
+  "citation_health",
+  "Get a list of wiki pages with broken or unverified citations. Use this when asked 'which pages have broken citations?' or 'which pages are missing sources?'",
+  {},
+  async (_args) => {
+    const data = await getCitationHealth();
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve citation health data" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const riskReportTool = tool(
+  "risk_report",
+  "Get a report of wiki pages with the highest hallucination risk scores, indicating which pages may have accuracy issues or need review. Use this when asked 'which pages are least trustworthy?' or 'which pages need review?'",
+  {
+    level: z
+      .enum(["low", "medium", "high"])
+      .optional()
+      .describe("Risk level filter (default 'high')"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max pages to return (default 10)"),
+  },
+  async (args) => {
+    const data = await getRiskReport(args.level, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve risk report" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+const getCitationQuoteTool = tool(
+  "get_citation_quote",
+  "Get a single citation by page and footnote number: the claim, the supporting quote from the source, the source URL, and its verification and accuracy verdicts. Use this to check exactly what a source says for a specific footnote.",
+  {
+    page_id: z.string().describe("Page ID (e.g. 'scheming')"),
+    footnote: z.number().int().describe("Footnote number on the page (e.g. 3 for [^3])"),
+  },
+  async (args) => {
+    const quote = await getCitationQuote(args.page_id, args.footnote);
+    if (!quote) {
+      return {
+        content: [{ type: "text" as const, text: "No citation found for this footnote" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(quote, null, 2) }],
+    };
+  }
+);
+
+const citationsByUrlTool = tool(
+  "citations_by_url",
+  "Find every wiki citation of a source URL, with the quoted text and accuracy verdict for each. Use this for 'which pages cite this paper?' or 'how is this source used across the wiki?'",
+  {
+    url: z.string().describe("Exact source URL"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Max quotes to return (default 100)"),
+  },
+  async (args) => {
+    const data = await getQuotesByUrl(args.url, args.limit);
+    if (!data) {
+      return {
+        content: [{ type: "text" as const, text: "Could not retrieve citations for this URL" }],
+      };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Factbase tools
+// ---------------------------------------------------------------------------
+
+const queryFactbaseTool = tool(
+  "query_factbase",
+  "Query structured facts across entities: filter by entity type and property predicates, sort, select columns, and aggregate. Use this for cross-entity questions like 'which labs have more than 500 employees?' or 'median revenue of AI organizations'. Predicates: 'headcount>500', 'legal-structure~benefit', 'revenue?' (has value), '!revenue' (missing).",
+  {
+    type: z.string().optional().describe("Entity type (e.g. 'organization', 'person')"),
+    where: z
+      .array(z.string())
+      .optional()
+      .describe("Property predicates, all of which must hold (e.g. ['headcount>500'])"),
+    sort: z.string().optional().describe("Sort property; prefix '-' for descending (e.g. '-revenue')"),
+    select: z
+      .array(z.string())
+      .optional()
+      .describe("Properties to return for each entity (e.g. ['revenue', 'headcount'])"),
+    limit: z.number().optional().describe("Max entities to return"),
+    aggregate: z
+      .string()
+      .optional()
+      .describe("Aggregate: 'count' or 'op:property' with op in sum, mean, median, min, max (e.g. 'median:revenue')"),
+    as_of: z.string().optional().describe("Evaluate as of a date (YYYY, YYYY-MM, or YYYY-MM-DD)"),
+  },
+  async (args) => {
+    try {
+      const data = await queryFacts({ ...args, asOf: args.as_of });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text" as const, text: `Factbase query failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+const getRecordsTool = tool(
+  "get_records",
+  "Get structured records for an entity from the factbase: funding rounds, investments, grants, key people, model releases and other collections, plus records in other entities that reference it. Use this for 'who invested in X?' or 'list X's funding rounds'.",
+  {
+    entity_id: z.string().describe("Entity ID, slug, or name (e.g. 'anthropic')"),
+    collection: z
+      .string()
+      .optional()
+      .describe("Only this record collection (e.g. 'funding-rounds')"),
+  },
+  async (args) => {
+    try {
+      const data = await getEntityRecords(args.entity_id, args.collection);
+      if (!data) {
+        return { content: [{ type: "text" as const, text: "Entity not found in factbase" }] };
+      }
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text" as const, text: `Factbase lookup failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+/** Every wiki tool, in the order they are registered. */
+export const wikiTools: WikiTool[] = [
+  searchTool,
+  getPageTool,
+  getRelatedPagesTool,
+  getEntityTool,
+  searchEntitiesTool,
+  getFactsTool,
+  getPageCitationsTool,
+  getCitationQuoteTool,
+  citationsByUrlTool,
+  searchResourcesTool,
+  getBacklinksTool,
+  wikiStatsTool,
+  recentChangesTool,
+  autoUpdateStatusTool,
+  citationHealthTool,
+  riskReportTool,
+  queryFactbaseTool,
+  getRecordsTool,
+];
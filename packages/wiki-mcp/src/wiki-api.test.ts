@@ -14,6 +14,8 @@ const {
   searchEntities,
   getFacts,
   getPageCitations,
+  getCitationQuote,
+  getQuotesByUrl,
   searchResources,
   getBacklinks,
   getWikiStats,
@@ -440,6 +442,74 @@ describe("getPageCitations", () => {
   });
 });
 
+describe("getCitationQuote", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("constructs correct URL with page and footnote", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ quote: { pageId: "scheming", footnote: 3 } }),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await getCitationQuote("scheming", 3);
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/citations/quotes/scheming/3");
+  });
+
+  it("unwraps the quote on success", async () => {
+    const quote = { id: 1, pageId: "scheming", footnote: 3, sourceQuote: "Models may deceive" };
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ quote }),
+    }));
+
+    const result = await getCitationQuote("scheming", 3);
+    expect(result).toEqual(quote);
+  });
+
+  it("returns null on 404", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+    }));
+
+    const result = await getCitationQuote("scheming", 99);
+    expect(result).toBeNull();
+  });
+});
+
+describe("getQuotesByUrl", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("constructs correct URL with encoded source url and limit", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ quotes: [], stats: {} }),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await getQuotesByUrl("https://example.com/paper?id=1", 20);
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/citations/quotes-by-url");
+    expect(url).toContain("url=https%3A%2F%2Fexample.com%2Fpaper%3Fid%3D1");
+    expect(url).toContain("limit=20");
+  });
+
+  it("returns null on network error", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("Network error")));
+    const result = await getQuotesByUrl("https://example.com");
+    expect(result).toBeNull();
+  });
+});
+
 describe("searchResources", () => {
   beforeEach(() => {
     vi.restoreAllMocks();
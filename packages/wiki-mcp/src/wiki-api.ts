@@ -1,10 +1,10 @@
 /**
- * Wiki API client for the discord-bot.
+ * Read-only wiki-server API client behind the MCP tools.
  *
  * Response types are imported from the shared crux/lib/wiki-server/ modules
  * to prevent drift between codebases (#595, #620).
  *
- * Types that are discord-bot-specific (health checks, stats, risk reports,
+ * Types that only the MCP tools need (health checks, stats, risk reports,
  * citation health) remain defined locally since crux doesn't need them.
  */
 
@@ -42,7 +42,7 @@ import type {
   AutoUpdateRunEntry,
 } from "../../../crux/lib/wiki-server/auto-update.ts";
 
-// Re-export shared types for consumers within discord-bot
+// Re-export shared types for consumers of the package
 export type {
   PageSearchResult,
   PageDetail,
@@ -59,7 +59,7 @@ export type {
 };
 
 // ---------------------------------------------------------------------------
-// Discord-bot-specific types (not in crux)
+// MCP-specific types (not in crux)
 // ---------------------------------------------------------------------------
 
 export interface Resource {
@@ -130,6 +130,19 @@ export interface RiskReportResponse {
   pages: RiskPage[];
 }
 
+export interface QuotesByUrlResponse {
+  quotes: CitationQuote[];
+  stats: {
+    totalPages: number;
+    totalQuotes: number;
+    verified: number;
+    accurate: number;
+    inaccurate: number;
+    unsupported: number;
+    minorIssues: number;
+  };
+}
+
 export interface RecentChangesResponse {
   sessions: SessionEntry[];
 }
@@ -302,6 +315,51 @@ export async function getPageCitations(
   }
 }
 
+export async function getCitationQuote(
+  pageId: string,
+  footnote: number
+): Promise<CitationQuote | null> {
+  const url = new URL(
+    `/api/citations/quotes/${encodeURIComponent(pageId)}/${footnote}`,
+    WIKI_SERVER_URL
+  );
+
+  try {
+    const res = await fetch(url.toString(), { headers: headers() });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      logger.error({ status: res.status, statusText: res.statusText, fn: "getCitationQuote", pageId, footnote }, "getCitationQuote failed");
+      return null;
+    }
+    const data = (await res.json()) as { quote: CitationQuote };
+    return data.quote;
+  } catch (error) {
+    logger.error({ err: error, fn: "getCitationQuote", pageId, footnote }, "getCitationQuote error");
+    return null;
+  }
+}
+
+export async function getQuotesByUrl(
+  sourceUrl: string,
+  limit = 100
+): Promise<QuotesByUrlResponse | null> {
+  const url = new URL("/api/citations/quotes-by-url", WIKI_SERVER_URL);
+  url.searchParams.set("url", sourceUrl);
+  url.searchParams.set("limit", String(limit));
+
+  try {
+    const res = await fetch(url.toString(), { headers: headers() });
+    if (!res.ok) {
+      logger.error({ status: res.status, statusText: res.statusText, fn: "getQuotesByUrl", sourceUrl }, "getQuotesByUrl failed");
+      return null;
+    }
+    return (await res.json()) as QuotesByUrlResponse;
+  } catch (error) {
+    logger.error({ err: error, fn: "getQuotesByUrl", sourceUrl }, "getQuotesByUrl error");
+    return null;
+  }
+}
+
 export async function searchResources(
   query: string,
   limit = 10